@@ -0,0 +1,13 @@
+import { ACTIONS_CORS_HEADERS } from "@/lib/blinks-types"
+import { buildActionsJson } from "@/lib/actions-json"
+
+export async function GET(req: Request) {
+  return Response.json(await buildActionsJson(), {
+    headers: ACTIONS_CORS_HEADERS,
+  })
+}
+
+// Handle OPTIONS for CORS
+export async function OPTIONS(req: Request) {
+  return new Response(null, { headers: ACTIONS_CORS_HEADERS })
+}
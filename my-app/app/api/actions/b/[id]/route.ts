@@ -0,0 +1,167 @@
+import {
+  ActionPostRequest,
+  createPostResponse,
+} from "@solana/actions"
+import { PublicKey } from "@solana/web3.js"
+import { blinksService } from "@/lib/blinks-service"
+import { ACTIONS_CORS_HEADERS } from "@/lib/blinks-types"
+import { createNextActionLinks } from "@/lib/action-chains"
+import { withBlinkAnalytics } from "@/lib/blink-analytics"
+import { blinkRegistry } from "@/lib/blink-registry"
+import { BlinkRegistryError, HOSTED_ACTION_PARAM, StoredBlink } from "@/lib/blink-registry-types"
+import { HostedBlinkError, hostedBlinkService } from "@/lib/hosted-blinks"
+import { StakingError } from "@/lib/staking-types"
+import { LiquidStakingError } from "@/lib/liquid-staking-types"
+import { NftError } from "@/lib/nft-types"
+import { TokenTransferError } from "@/lib/token-transfer"
+
+export const maxDuration = 30
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+async function loadBlink(params: RouteContext["params"]): Promise<StoredBlink | Response> {
+  const { id } = await params
+  try {
+    const blink = await blinkRegistry.get(id)
+    if (blink) return blink
+  } catch (err) {
+    if (!(err instanceof BlinkRegistryError) || err.code === "IO_ERROR") throw err
+  }
+  return Response.json(
+    { message: `Blink not found: ${id}` },
+    {
+      status: 404,
+      headers: ACTIONS_CORS_HEADERS,
+    }
+  )
+}
+
+async function handleGet(req: Request, { params }: RouteContext) {
+  try {
+    const blink = await loadBlink(params)
+    if (blink instanceof Response) return blink
+
+    return Response.json(hostedBlinkService.getAction(blink, req.url), {
+      headers: ACTIONS_CORS_HEADERS,
+    })
+  } catch (err) {
+    console.error("Hosted Blink GET error:", err)
+    return Response.json(
+      { message: "Failed to load Blink" },
+      {
+        status: 500,
+        headers: ACTIONS_CORS_HEADERS,
+      }
+    )
+  }
+}
+
+export async function OPTIONS(req: Request) {
+  return new Response(null, { headers: ACTIONS_CORS_HEADERS })
+}
+
+async function handlePost(req: Request, { params }: RouteContext) {
+  try {
+    const blink = await loadBlink(params)
+    if (blink instanceof Response) return blink
+
+    const body: ActionPostRequest = await req.json()
+
+    // Validate account
+    let userAccount: PublicKey
+    try {
+      userAccount = new PublicKey(body.account)
+    } catch (err) {
+      return Response.json(
+        { message: "Invalid account provided" },
+        {
+          status: 400,
+          headers: ACTIONS_CORS_HEADERS,
+        }
+      )
+    }
+
+    // Build the selected action, enforcing its validation rules and adding any Solana Pay references
+    const actionId = new URL(req.url).searchParams.get(HOSTED_ACTION_PARAM)
+    const { transaction, message } = await hostedBlinkService.buildAction(
+      blink,
+      actionId,
+      userAccount.toBase58(),
+      req.url
+    )
+
+    // Simulate before handing the transaction to the wallet
+    const simulation = await blinksService.simulateTransaction(transaction, userAccount.toBase58())
+    if (!simulation.ok) {
+      return Response.json(
+        { message: `Transaction simulation failed: ${simulation.error}` },
+        {
+          status: 400,
+          headers: ACTIONS_CORS_HEADERS,
+        }
+      )
+    }
+    const simulationNote = simulation.summary ? ` (${simulation.summary})` : ""
+
+    // Create response
+    const payload = await createPostResponse({
+      fields: {
+        type: "transaction",
+        transaction,
+        message: `${message}${simulationNote}`,
+        links: createNextActionLinks(req.url),
+      },
+    })
+
+    return Response.json(payload, {
+      headers: ACTIONS_CORS_HEADERS,
+    })
+  } catch (err) {
+    console.error("Hosted Blink action error:", err)
+    if (err instanceof HostedBlinkError) {
+      return Response.json(
+        { message: err.message },
+        {
+          status: err.code === "UNKNOWN_ACTION" ? 404 : 400,
+          headers: ACTIONS_CORS_HEADERS,
+        }
+      )
+    }
+    if (err instanceof NftError && (err.code === "RPC_ERROR" || err.code === "MARKETPLACE_ERROR")) {
+      return Response.json(
+        { message: err.message },
+        {
+          status: 502,
+          headers: ACTIONS_CORS_HEADERS,
+        }
+      )
+    }
+    if (
+      err instanceof StakingError ||
+      err instanceof LiquidStakingError ||
+      err instanceof NftError ||
+      err instanceof TokenTransferError
+    ) {
+      return Response.json(
+        { message: err.message },
+        {
+          status: 400,
+          headers: ACTIONS_CORS_HEADERS,
+        }
+      )
+    }
+    return Response.json(
+      { message: "An error occurred while creating the Blink transaction" },
+      {
+        status: 500,
+        headers: ACTIONS_CORS_HEADERS,
+      }
+    )
+  }
+}
+
+// Analytics are keyed by the registry id
+const blinkId = async ({ params }: RouteContext) => (await params).id
+
+export const GET = withBlinkAnalytics(blinkId, handleGet)
+export const POST = withBlinkAnalytics(blinkId, handlePost)
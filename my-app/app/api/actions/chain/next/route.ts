@@ -0,0 +1,71 @@
+import type { NextActionPostRequest } from "@solana/actions"
+import { PublicKey } from "@solana/web3.js"
+import { actionChainService, ActionChainError } from "@/lib/action-chains"
+import { ACTIONS_CORS_HEADERS, decodeActionChain } from "@/lib/blinks-types"
+import { recordConfirmation } from "@/lib/blink-analytics"
+
+export const maxDuration = 30
+
+export async function OPTIONS(req: Request) {
+  return new Response(null, { headers: ACTIONS_CORS_HEADERS })
+}
+
+// Called by the Blink client after the previous step's transaction confirms
+export async function POST(req: Request) {
+  try {
+    const body: NextActionPostRequest = await req.json()
+
+    // Validate account
+    try {
+      new PublicKey(body.account)
+    } catch (err) {
+      return Response.json(
+        { message: "Invalid account provided" },
+        {
+          status: 400,
+          headers: ACTIONS_CORS_HEADERS,
+        }
+      )
+    }
+
+    const url = new URL(req.url)
+    const chain = decodeActionChain(url.searchParams.get("chain") || "")
+    const step = parseInt(url.searchParams.get("step") || "", 10)
+    if (!chain) {
+      return Response.json(
+        { message: "Missing or invalid action chain" },
+        {
+          status: 400,
+          headers: ACTIONS_CORS_HEADERS,
+        }
+      )
+    }
+
+    const nextAction = await actionChainService.getNextAction(chain, step, body.account, body.signature)
+    // The step's transaction response carried analytics tracking parameters along with the chain
+    await recordConfirmation(req.url, body.account, body.signature).catch(err =>
+      console.error("Chain step analytics error:", err)
+    )
+    return Response.json(nextAction, {
+      headers: ACTIONS_CORS_HEADERS,
+    })
+  } catch (err) {
+    console.error("Action chain error:", err)
+    if (err instanceof ActionChainError) {
+      return Response.json(
+        { message: err.message },
+        {
+          status: err.code === "RPC_ERROR" ? 502 : 400,
+          headers: ACTIONS_CORS_HEADERS,
+        }
+      )
+    }
+    return Response.json(
+      { message: "An error occurred while loading the next action" },
+      {
+        status: 500,
+        headers: ACTIONS_CORS_HEADERS,
+      }
+    )
+  }
+}
@@ -0,0 +1,27 @@
+import { actionChainService } from "@/lib/action-chains"
+import { ACTIONS_CORS_HEADERS, decodeActionChain } from "@/lib/blinks-types"
+import { withBlinkAnalytics } from "@/lib/blink-analytics"
+
+async function handleGet(req: Request) {
+  const url = new URL(req.url)
+  const chain = decodeActionChain(url.searchParams.get("chain") || "")
+  if (!chain) {
+    return Response.json(
+      { message: "Missing or invalid action chain" },
+      {
+        status: 400,
+        headers: ACTIONS_CORS_HEADERS,
+      }
+    )
+  }
+
+  return Response.json(actionChainService.getEntryAction(chain), {
+    headers: ACTIONS_CORS_HEADERS,
+  })
+}
+
+export async function OPTIONS(req: Request) {
+  return new Response(null, { headers: ACTIONS_CORS_HEADERS })
+}
+
+export const GET = withBlinkAnalytics("chain", handleGet)
@@ -0,0 +1,68 @@
+import type { CompletedAction, NextActionPostRequest } from "@solana/actions"
+import { PublicKey } from "@solana/web3.js"
+import { blinksService } from "@/lib/blinks-service"
+import { ACTIONS_CORS_HEADERS } from "@/lib/blinks-types"
+import { recordConfirmation } from "@/lib/blink-analytics"
+
+export const maxDuration = 30
+
+export async function OPTIONS(req: Request) {
+  return new Response(null, { headers: ACTIONS_CORS_HEADERS })
+}
+
+// Called by the Blink client once the wallet confirms a transaction we returned
+export async function POST(req: Request) {
+  try {
+    const body: NextActionPostRequest = await req.json()
+
+    // Validate account
+    try {
+      new PublicKey(body.account)
+    } catch (err) {
+      return Response.json(
+        { message: "Invalid account provided" },
+        {
+          status: 400,
+          headers: ACTIONS_CORS_HEADERS,
+        }
+      )
+    }
+    if (!body.signature) {
+      return Response.json(
+        { message: "Missing transaction signature" },
+        {
+          status: 400,
+          headers: ACTIONS_CORS_HEADERS,
+        }
+      )
+    }
+
+    const outcome = await recordConfirmation(req.url, body.account, body.signature)
+    const explorerUrl = blinksService.getExplorerUrl(body.signature)
+    const payload: CompletedAction = {
+      type: "completed",
+      icon: `${new URL(req.url).origin}/solana-logo.png`,
+      title: outcome === "confirmed" ? "Transaction confirmed" : outcome === "failed" ? "Transaction failed" : "Transaction sent",
+      description: outcome === "confirmed"
+        ? `Confirmed on-chain. View it at ${explorerUrl}`
+        : outcome === "failed"
+          ? `The transaction landed but failed. Details at ${explorerUrl}`
+          : `Not confirmed yet. Track it at ${explorerUrl}`,
+      label: outcome === "failed" ? "Failed" : "Done",
+      ...(outcome === "failed" && { error: { message: "Transaction failed on-chain" } }),
+    }
+
+    return Response.json(payload, {
+      headers: ACTIONS_CORS_HEADERS,
+    })
+  } catch (err) {
+    console.error("Transaction confirmation error:", err)
+    return Response.json(
+      { message: "An error occurred while confirming the transaction" },
+      {
+        status: 500,
+        headers: ACTIONS_CORS_HEADERS,
+      }
+    )
+  }
+}
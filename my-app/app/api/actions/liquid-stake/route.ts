@@ -0,0 +1,210 @@
+import {
+  ActionGetResponse,
+  ActionPostRequest,
+  createPostResponse,
+} from "@solana/actions"
+import { PublicKey } from "@solana/web3.js"
+import { blinksService } from "@/lib/blinks-service"
+import { ACTIONS_CORS_HEADERS } from "@/lib/blinks-types"
+import { createNextActionLinks } from "@/lib/action-chains"
+import { withBlinkAnalytics } from "@/lib/blink-analytics"
+import { liquidStakingService } from "@/lib/liquid-staking-service"
+import { LiquidStakingError, LstApy } from "@/lib/liquid-staking-types"
+
+export const maxDuration = 30
+
+async function handleGet(req: Request) {
+  const url = new URL(req.url)
+  const baseURL = url.origin
+  const pathActions = url.pathname
+
+  // APYs only decorate the picker; the Blink still works without them
+  let apys: LstApy[] = []
+  try {
+    apys = await liquidStakingService.getApys()
+  } catch (err) {
+    console.error("LST APYs unavailable:", err)
+  }
+  const apyLabel = (symbol: string) => {
+    const apy = apys.find(entry => entry.symbol === symbol)?.apy
+    return apy !== null && apy !== undefined ? ` (${(apy * 100).toFixed(2)}% APY)` : ""
+  }
+  const lstOptions = liquidStakingService.listTokens().map((lst, index) => ({
+    label: `${lst.symbol} – ${lst.provider}${apyLabel(lst.symbol)}`,
+    value: lst.symbol,
+    selected: index === 0,
+  }))
+
+  const payload: ActionGetResponse = {
+    icon: `${baseURL}/stake-icon.png`,
+    title: "Liquid Stake SOL",
+    description: "Stake SOL into a liquid staking token (jitoSOL, mSOL, bSOL, INF) that earns staking rewards and stays tradable, or unstake back to SOL. Routes through the stake pool or Jupiter, whichever returns more.",
+    label: "Liquid Stake",
+    links: {
+      actions: [
+        {
+          label: "Stake SOL",
+          href: `${pathActions}?action=deposit&lst={lst}&amount={amount}`,
+          type: "transaction" as const,
+          parameters: [
+            {
+              type: "select" as const,
+              name: "lst",
+              label: "Liquid staking token",
+              required: true,
+              options: lstOptions,
+            },
+            {
+              name: "amount",
+              label: "Amount to Stake (SOL)",
+              required: true,
+            },
+          ],
+        },
+        {
+          label: "Unstake to SOL",
+          href: `${pathActions}?action=withdraw&lst={lst}&amount={amount}`,
+          type: "transaction" as const,
+          parameters: [
+            {
+              type: "select" as const,
+              name: "lst",
+              label: "Liquid staking token",
+              required: true,
+              options: lstOptions,
+            },
+            {
+              name: "amount",
+              label: "Amount to Unstake (LST)",
+              required: true,
+            },
+          ],
+        },
+      ],
+    },
+  }
+
+  return Response.json(payload, {
+    headers: ACTIONS_CORS_HEADERS,
+  })
+}
+
+export async function OPTIONS(req: Request) {
+  return new Response(null, { headers: ACTIONS_CORS_HEADERS })
+}
+
+async function handlePost(req: Request) {
+  try {
+    const body: ActionPostRequest = await req.json()
+
+    // Validate account
+    let userAccount: PublicKey
+    try {
+      userAccount = new PublicKey(body.account)
+    } catch (err) {
+      return Response.json(
+        { message: "Invalid account provided" },
+        {
+          status: 400,
+          headers: ACTIONS_CORS_HEADERS,
+        }
+      )
+    }
+
+    // Get parameters
+    const url = new URL(req.url)
+    const action = url.searchParams.get("action") || "deposit"
+    const lst = url.searchParams.get("lst")
+    const amountStr = url.searchParams.get("amount")
+
+    if (action !== "deposit" && action !== "withdraw") {
+      return Response.json(
+        { message: `Unknown liquid staking action: ${action}` },
+        {
+          status: 400,
+          headers: ACTIONS_CORS_HEADERS,
+        }
+      )
+    }
+    if (!lst || !amountStr) {
+      return Response.json(
+        { message: "Missing required parameters: lst and amount" },
+        {
+          status: 400,
+          headers: ACTIONS_CORS_HEADERS,
+        }
+      )
+    }
+
+    const amount = parseFloat(amountStr)
+    if (isNaN(amount) || amount <= 0) {
+      return Response.json(
+        { message: "Invalid amount specified" },
+        {
+          status: 400,
+          headers: ACTIONS_CORS_HEADERS,
+        }
+      )
+    }
+
+    const { quote, transaction } = await liquidStakingService.buildTransaction(
+      userAccount.toBase58(),
+      action,
+      lst,
+      amount,
+      { rpcSubmittable: true }
+    )
+
+    // Simulate before handing the transaction to the wallet
+    const simulation = await blinksService.simulateTransaction(transaction, userAccount.toBase58())
+    if (!simulation.ok) {
+      return Response.json(
+        { message: `Transaction simulation failed: ${simulation.error}` },
+        {
+          status: 400,
+          headers: ACTIONS_CORS_HEADERS,
+        }
+      )
+    }
+    const simulationNote = simulation.summary ? ` (${simulation.summary})` : ""
+    const via = quote.route === "stake-pool" ? `the ${quote.lst.provider} stake pool` : "Jupiter"
+    const message = action === "deposit"
+      ? `Stake ${quote.inputAmount} SOL for ~${quote.outputAmount} ${quote.lst.symbol} via ${via}`
+      : `Unstake ${quote.inputAmount} ${quote.lst.symbol} for ~${quote.outputAmount} SOL via ${via}`
+
+    // Create response
+    const payload = await createPostResponse({
+      fields: {
+        type: "transaction",
+        transaction,
+        message: `${message}${simulationNote}`,
+        links: createNextActionLinks(req.url),
+      },
+    })
+
+    return Response.json(payload, {
+      headers: ACTIONS_CORS_HEADERS,
+    })
+  } catch (err) {
+    console.error("Liquid stake action error:", err)
+    if (err instanceof LiquidStakingError) {
+      return Response.json(
+        { message: err.message },
+        {
+          status: 400,
+          headers: ACTIONS_CORS_HEADERS,
+        }
+      )
+    }
+    return Response.json(
+      { message: "An error occurred while creating the liquid staking transaction" },
+      {
+        status: 500,
+        headers: ACTIONS_CORS_HEADERS,
+      }
+    )
+  }
+}
+
+export const GET = withBlinkAnalytics("liquid-stake", handleGet)
+export const POST = withBlinkAnalytics("liquid-stake", handlePost)
@@ -1,29 +1,32 @@
 import {
   ActionGetResponse,
   ActionPostRequest,
-  ActionPostResponse,
-  ACTIONS_CORS_HEADERS,
   createPostResponse,
 } from "@solana/actions"
-import { Connection, PublicKey, Transaction, SystemProgram, LAMPORTS_PER_SOL } from "@solana/web3.js"
-import { SOLANA_CONFIG } from "@/lib/solana-config"
+import { PublicKey } from "@solana/web3.js"
+import { blinksService } from "@/lib/blinks-service"
+import { ACTIONS_CORS_HEADERS } from "@/lib/blinks-types"
+import { createNextActionLinks } from "@/lib/action-chains"
+import { withBlinkAnalytics } from "@/lib/blink-analytics"
+import { nftTransactionService } from "@/lib/nft-transaction-service"
+import { NftError, NftTransactionPlan } from "@/lib/nft-types"
 
 export const maxDuration = 30
 
-export async function GET(req: Request) {
+async function handleGet(req: Request) {
   const baseURL = new URL(req.url).origin
   const pathActions = new URL(req.url).pathname
   
   const payload: ActionGetResponse = {
     icon: `${baseURL}/nft-icon.png`,
     title: "NFT Operations",
-    description: "Mint, transfer, or interact with Solana NFTs",
+    description: "Mint Metaplex NFTs (standard, programmable or compressed), transfer them, or list them for sale",
     label: "NFT",
     links: {
       actions: [
         {
           label: "Mint NFT",
-          href: `${pathActions}?action=mint&name={name}&symbol={symbol}&uri={uri}`,
+          href: `${pathActions}?action=mint&name={name}&symbol={symbol}&uri={uri}&type={type}`,
           type: "transaction" as const,
           parameters: [
             {
@@ -41,6 +44,17 @@ export async function GET(req: Request) {
               label: "Metadata URI",
               required: true,
             },
+            {
+              type: "select" as const,
+              name: "type",
+              label: "NFT type",
+              required: true,
+              options: [
+                { label: "Standard NFT", value: "standard", selected: true },
+                { label: "Programmable NFT (enforced royalties)", value: "programmable" },
+                { label: "Compressed NFT (low cost)", value: "compressed" },
+              ],
+            },
           ],
         },
         {
@@ -90,7 +104,7 @@ export async function OPTIONS(req: Request) {
   return new Response(null, { headers: ACTIONS_CORS_HEADERS })
 }
 
-export async function POST(req: Request) {
+async function handlePost(req: Request) {
   try {
     const body: ActionPostRequest = await req.json()
     
@@ -122,12 +136,7 @@ export async function POST(req: Request) {
       )
     }
     
-    const connection = new Connection(
-      SOLANA_CONFIG.rpcUrl[SOLANA_CONFIG.network],
-      "confirmed"
-    )
-    
-    let transaction = new Transaction()
+    let plan: NftTransactionPlan
     let message = ""
     
     switch (action) {
@@ -135,6 +144,7 @@ export async function POST(req: Request) {
         const name = url.searchParams.get("name")
         const symbol = url.searchParams.get("symbol")
         const uri = url.searchParams.get("uri")
+        const type = url.searchParams.get("type") || "standard"
         
         if (!name || !symbol || !uri) {
           return Response.json(
@@ -146,21 +156,17 @@ export async function POST(req: Request) {
           )
         }
         
-        // Note: Real NFT minting would require:
-        // 1. Creating a mint account
-        // 2. Creating metadata account with Metaplex
-        // 3. Minting the token
-        // 4. Creating/updating metadata
-        
-        // Placeholder instruction
-        const memoInstruction = {
-          keys: [],
-          programId: new PublicKey("MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr"),
-          data: Buffer.from(`Mint NFT: ${name} (${symbol})`)
-        }
-        
-        transaction.add(memoInstruction)
-        message = `Mint NFT: ${name}`
+        plan = await nftTransactionService.buildMint(userAccount.toBase58(), {
+          name,
+          symbol,
+          uri,
+          programmable: type === "programmable",
+          compressed: type === "compressed",
+          merkleTree: url.searchParams.get("tree") || undefined,
+        })
+        message = plan.compressed
+          ? `Mint compressed NFT: ${name} into tree ${plan.merkleTree!.slice(0, 8)}...`
+          : `Mint ${type === "programmable" ? "programmable " : ""}NFT: ${name} (mint ${plan.mint!.slice(0, 8)}...)`
         break
       }
       
@@ -178,34 +184,8 @@ export async function POST(req: Request) {
           )
         }
         
-        // Validate addresses
-        try {
-          new PublicKey(mint)
-          new PublicKey(to)
-        } catch {
-          return Response.json(
-            { message: "Invalid mint or recipient address" },
-            {
-              status: 400,
-              headers: ACTIONS_CORS_HEADERS,
-            }
-          )
-        }
-        
-        // Note: Real NFT transfer would require:
-        // 1. Finding source and destination token accounts
-        // 2. Creating destination token account if needed
-        // 3. Transferring the NFT (amount = 1)
-        
-        // Placeholder instruction
-        const memoInstruction = {
-          keys: [],
-          programId: new PublicKey("MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr"),
-          data: Buffer.from(`Transfer NFT ${mint.slice(0, 8)}... to ${to.slice(0, 8)}...`)
-        }
-        
-        transaction.add(memoInstruction)
-        message = `Transfer NFT to ${to.slice(0, 8)}...`
+        plan = await nftTransactionService.buildTransfer(userAccount.toBase58(), mint, to)
+        message = `Transfer NFT ${mint.slice(0, 8)}... to ${to.slice(0, 8)}...`
         break
       }
       
@@ -234,20 +214,8 @@ export async function POST(req: Request) {
           )
         }
         
-        // Note: Real NFT listing would require:
-        // 1. Integration with a marketplace (e.g., Magic Eden, Tensor)
-        // 2. Creating listing account
-        // 3. Setting price and conditions
-        
-        // Placeholder instruction
-        const memoInstruction = {
-          keys: [],
-          programId: new PublicKey("MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr"),
-          data: Buffer.from(`List NFT ${mint.slice(0, 8)}... for ${price} SOL`)
-        }
-        
-        transaction.add(memoInstruction)
-        message = `List NFT for ${price} SOL`
+        plan = await nftTransactionService.buildListing(userAccount.toBase58(), mint, price)
+        message = `List NFT ${mint.slice(0, 8)}... for ${price} SOL on ${plan.marketplace}`
         break
       }
       
@@ -261,16 +229,26 @@ export async function POST(req: Request) {
         )
     }
     
-    // Set recent blockhash and fee payer
-    const { blockhash } = await connection.getLatestBlockhash()
-    transaction.recentBlockhash = blockhash
-    transaction.feePayer = userAccount
+    // Simulate before handing the transaction to the wallet
+    const simulation = await blinksService.simulateTransaction(plan.transaction, userAccount.toBase58())
+    if (!simulation.ok) {
+      return Response.json(
+        { message: `Transaction simulation failed: ${simulation.error}` },
+        {
+          status: 400,
+          headers: ACTIONS_CORS_HEADERS,
+        }
+      )
+    }
+    const simulationNote = simulation.summary ? ` (${simulation.summary})` : ""
     
-    // Create response
+    // Create response; new mints arrive already partially signed by the mint keypair
     const payload = await createPostResponse({
       fields: {
-        transaction,
-        message,
+        type: "transaction",
+        transaction: plan.transaction,
+        message: `${message}${simulationNote}`,
+        links: createNextActionLinks(req.url),
       },
     })
     
@@ -279,6 +257,15 @@ export async function POST(req: Request) {
     })
   } catch (err) {
     console.error("NFT action error:", err)
+    if (err instanceof NftError) {
+      return Response.json(
+        { message: err.message },
+        {
+          status: err.code === "RPC_ERROR" || err.code === "MARKETPLACE_ERROR" ? 502 : 400,
+          headers: ACTIONS_CORS_HEADERS,
+        }
+      )
+    }
     return Response.json(
       { message: "An error occurred while creating the NFT transaction" },
       {
@@ -287,4 +274,7 @@ export async function POST(req: Request) {
       }
     )
   }
-}
\ No newline at end of file
+}
+
+export const GET = withBlinkAnalytics("nft", handleGet)
+export const POST = withBlinkAnalytics("nft", handlePost)
@@ -2,66 +2,126 @@ import {
   ActionGetResponse,
   ActionPostRequest,
   ActionPostResponse,
-  ACTIONS_CORS_HEADERS,
   createPostResponse,
 } from "@solana/actions"
-import { Connection, PublicKey, Transaction, StakeProgram, LAMPORTS_PER_SOL, Keypair, SystemProgram } from "@solana/web3.js"
-import { SOLANA_CONFIG } from "@/lib/solana-config"
+import { PublicKey } from "@solana/web3.js"
+import { blinksService } from "@/lib/blinks-service"
+import { ACTIONS_CORS_HEADERS } from "@/lib/blinks-types"
+import { createNextActionLinks } from "@/lib/action-chains"
+import { withBlinkAnalytics } from "@/lib/blink-analytics"
+import { stakingService } from "@/lib/staking-service"
+import { StakingError, StakeTransactionPlan, ValidatorInfo } from "@/lib/staking-types"
 
 export const maxDuration = 30
 
-// Popular Solana validators (for demonstration)
-const VALIDATORS = [
-  { name: "Chorus One", vote: "ChorusmmK7i1AxXeiTtQgQZhQNiXYU84ULeaYF1EH15n" },
-  { name: "Everstake", vote: "CwSZ17woioM2bqEbaswZJYvx5pemN6t3shBcU6zqPHyG" },
-  { name: "Figment", vote: "5WPxGiB6zBXNJp8JN3WhSKahZut9DhSFHSULCzsKhqmT" },
-]
-
-export async function GET(req: Request) {
-  const baseURL = new URL(req.url).origin
-  const pathActions = new URL(req.url).pathname
-  
+// Number of validators offered in the stake Blink's picker
+const VALIDATOR_OPTIONS = 10
+
+async function handleGet(req: Request) {
+  const url = new URL(req.url)
+  const baseURL = url.origin
+  const pathActions = url.pathname
+
+  // ?validator=<vote account> turns the Blink into a stake button for that validator
+  const validatorParam = url.searchParams.get("validator")
+  let validators: ValidatorInfo[] = []
+  try {
+    validators = validatorParam
+      ? [await stakingService.getValidator(validatorParam)].filter((v): v is ValidatorInfo => v !== null)
+      : await stakingService.getValidators({ limit: VALIDATOR_OPTIONS })
+  } catch (err) {
+    console.error("Validator directory unavailable:", err)
+  }
+  const single = validatorParam ? validators[0] : undefined
+
+  const stakeAction = single
+    ? {
+        label: `Stake with ${validatorLabel(single)}`,
+        href: `${pathActions}?action=stake&validator=${single.voteAccount}&amount={amount}`,
+        type: "transaction" as const,
+        parameters: [
+          {
+            name: "amount",
+            label: "Amount to Stake (SOL)",
+            required: true,
+          },
+        ],
+      }
+    : {
+        label: "Stake SOL",
+        href: `${pathActions}?action=stake&validator={validator}&amount={amount}`,
+        type: "transaction" as const,
+        parameters: [
+          validators.length > 0
+            ? {
+                type: "select" as const,
+                name: "validator",
+                label: "Validator",
+                required: true,
+                options: validators.map((validator, index) => ({
+                  label: `${validatorLabel(validator)} (${validator.commission}% commission${validator.skipRate !== null ? `, ${(validator.skipRate * 100).toFixed(1)}% skip rate` : ""})`,
+                  value: validator.voteAccount,
+                  selected: index === 0,
+                })),
+              }
+            : {
+                name: "validator",
+                label: "Validator (Vote Account)",
+                required: true,
+              },
+          {
+            name: "amount",
+            label: "Amount to Stake (SOL)",
+            required: true,
+          },
+        ],
+      }
+
   const payload: ActionGetResponse = {
     icon: `${baseURL}/stake-icon.png`,
-    title: "Stake SOL",
-    description: "Stake your SOL with validators to earn rewards",
+    title: single ? `Stake SOL with ${validatorLabel(single)}` : "Stake SOL",
+    description: single
+      ? `Delegate SOL to ${validatorLabel(single)} (${single.commission}% commission). Stake is held in a stake account you control and can be deactivated and withdrawn at any time.`
+      : "Stake your SOL with validators to earn rewards. Stake is held in a stake account you control and can be deactivated and withdrawn at any time.",
     label: "Stake",
+    disabled: Boolean(validatorParam && !single),
+    ...(validatorParam && !single ? { error: { message: "Unknown validator vote account" } } : {}),
     links: {
       actions: [
+        stakeAction,
         {
-          label: "Stake SOL",
-          href: `${pathActions}?validator={validator}&amount={amount}`,
+          label: "Unstake",
+          href: `${pathActions}?action=deactivate&stakeAccount={stakeAccount}`,
           type: "transaction" as const,
           parameters: [
             {
-              name: "validator",
-              label: "Validator (Vote Account)",
-              required: true,
-            },
-            {
-              name: "amount",
-              label: "Amount to Stake (SOL)",
+              name: "stakeAccount",
+              label: "Stake Account",
               required: true,
             },
           ],
         },
-        // Quick stake options with popular validators
-        ...VALIDATORS.map(validator => ({
-          label: `Stake with ${validator.name}`,
-          href: `${pathActions}?validator=${validator.vote}&amount={amount}`,
+        {
+          label: "Withdraw",
+          href: `${pathActions}?action=withdraw&stakeAccount={stakeAccount}&amount={amount}`,
           type: "transaction" as const,
           parameters: [
             {
-              name: "amount",
-              label: "Amount to Stake (SOL)",
+              name: "stakeAccount",
+              label: "Deactivated Stake Account",
               required: true,
             },
+            {
+              name: "amount",
+              label: "Amount (SOL, leave empty to withdraw all)",
+              required: false,
+            },
           ],
-        })),
+        },
       ],
     },
   }
-  
+
   return Response.json(payload, {
     headers: ACTIONS_CORS_HEADERS,
   })
@@ -71,10 +131,10 @@ export async function OPTIONS(req: Request) {
   return new Response(null, { headers: ACTIONS_CORS_HEADERS })
 }
 
-export async function POST(req: Request) {
+async function handlePost(req: Request) {
   try {
     const body: ActionPostRequest = await req.json()
-    
+
     // Validate account
     let userAccount: PublicKey
     try {
@@ -88,118 +148,103 @@ export async function POST(req: Request) {
         }
       )
     }
-    
+
     // Get parameters
     const url = new URL(req.url)
+    const action = url.searchParams.get("action") || "stake"
     const validatorStr = url.searchParams.get("validator")
+    const stakeAccountStr = url.searchParams.get("stakeAccount")
     const amountStr = url.searchParams.get("amount")
-    
-    // Validate parameters
-    if (!validatorStr || !amountStr) {
-      return Response.json(
-        { message: "Missing required parameters: validator and amount" },
-        {
-          status: 400,
-          headers: ACTIONS_CORS_HEADERS,
-        }
-      )
-    }
-    
-    // Validate validator vote account
-    let validatorVoteAccount: PublicKey
-    try {
-      validatorVoteAccount = new PublicKey(validatorStr)
-    } catch (err) {
+    const amount = amountStr ? parseFloat(amountStr) : undefined
+
+    if (amount !== undefined && (isNaN(amount) || amount <= 0)) {
       return Response.json(
-        { message: "Invalid validator vote account" },
+        { message: "Invalid amount specified" },
         {
           status: 400,
           headers: ACTIONS_CORS_HEADERS,
         }
       )
     }
-    
-    const amount = parseFloat(amountStr)
-    if (isNaN(amount) || amount <= 0) {
+
+    let plan: StakeTransactionPlan
+    let message: string
+    if (action === "stake") {
+      if (!validatorStr || amount === undefined) {
+        return Response.json(
+          { message: "Missing required parameters: validator and amount" },
+          {
+            status: 400,
+            headers: ACTIONS_CORS_HEADERS,
+          }
+        )
+      }
+      plan = await stakingService.buildStakeTransaction(userAccount.toBase58(), validatorStr, amount)
+      message = `Stake ${plan.amount} SOL with ${plan.validator ? validatorLabel(plan.validator) : validatorStr} in new stake account ${plan.stakeAccount}`
+    } else if (action === "deactivate" || action === "withdraw") {
+      if (!stakeAccountStr) {
+        return Response.json(
+          { message: "Missing required parameter: stakeAccount" },
+          {
+            status: 400,
+            headers: ACTIONS_CORS_HEADERS,
+          }
+        )
+      }
+      plan = action === "deactivate"
+        ? await stakingService.buildDeactivateTransaction(userAccount.toBase58(), stakeAccountStr)
+        : await stakingService.buildWithdrawTransaction(userAccount.toBase58(), stakeAccountStr, amount)
+      message = action === "deactivate"
+        ? `Deactivate ${plan.amount} SOL staked in ${plan.stakeAccount}`
+        : `Withdraw ${plan.amount} SOL from stake account ${plan.stakeAccount}`
+    } else {
       return Response.json(
-        { message: "Invalid amount specified" },
+        { message: `Unknown stake action: ${action}` },
         {
           status: 400,
           headers: ACTIONS_CORS_HEADERS,
         }
       )
     }
-    
-    const connection = new Connection(
-      SOLANA_CONFIG.rpcUrl[SOLANA_CONFIG.network],
-      "confirmed"
-    )
-    
-    // Check balance
-    const balance = await connection.getBalance(userAccount)
-    const balanceInSol = balance / LAMPORTS_PER_SOL
-    
-    // Need extra for stake account rent + fees
-    const requiredBalance = amount + 0.01
-    if (balanceInSol < requiredBalance) {
+
+    // Simulate before handing the transaction to the wallet
+    const simulation = await blinksService.simulateTransaction(plan.transaction, userAccount.toBase58())
+    if (!simulation.ok) {
       return Response.json(
-        { message: `Insufficient balance. You need at least ${requiredBalance.toFixed(4)} SOL (including fees)` },
+        { message: `Transaction simulation failed: ${simulation.error}` },
         {
           status: 400,
           headers: ACTIONS_CORS_HEADERS,
         }
       )
     }
-    
-    // Note: In a real implementation, you would need to:
-    // 1. Create a new stake account (requires a new keypair)
-    // 2. Fund the stake account
-    // 3. Delegate to the validator
-    // 4. Possibly activate the stake
-    
-    // For this example, we'll create a simplified version
-    // Real staking requires multiple transactions or a complex single transaction
-    
-    const transaction = new Transaction()
-    
-    // Add a memo instruction as placeholder for the staking operation
-    // In production, this would include actual stake program instructions
-    const memoInstruction = {
-      keys: [],
-      programId: new PublicKey("MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr"),
-      data: Buffer.from(`Stake ${amount} SOL with validator ${validatorStr.slice(0, 8)}...`)
-    }
-    
-    transaction.add(memoInstruction)
-    
-    // Note: Real staking would look something like this:
-    // const stakeAccount = Keypair.generate() // New stake account
-    // 
-    // // Create and initialize stake account
-    // transaction.add(
-    //   SystemProgram.createAccount({...}),
-    //   StakeProgram.initialize({...}),
-    //   StakeProgram.delegate({...})
-    // )
-    
-    // Set recent blockhash and fee payer
-    const { blockhash } = await connection.getLatestBlockhash()
-    transaction.recentBlockhash = blockhash
-    transaction.feePayer = userAccount
-    
+    const simulationNote = simulation.summary ? ` (${simulation.summary})` : ""
+    const warningNote = plan.warnings.length > 0 ? `. ${plan.warnings.join(" ")}` : ""
+
     // Create response
     const payload = await createPostResponse({
       fields: {
-        transaction,
-        message: `Stake ${amount} SOL with validator`,
+        type: "transaction",
+        transaction: plan.transaction,
+        message: `${message}${simulationNote}${warningNote}`,
+        links: createNextActionLinks(req.url),
       },
     })
-    
+
     return Response.json(payload, {
       headers: ACTIONS_CORS_HEADERS,
     })
   } catch (err) {
     console.error("Stake action error:", err)
+    if (err instanceof StakingError) {
+      return Response.json(
+        { message: err.message },
+        {
+          status: 400,
+          headers: ACTIONS_CORS_HEADERS,
+        }
+      )
+    }
     return Response.json(
       { message: "An error occurred while creating the stake transaction" },
       {
@@ -208,4 +253,11 @@ export async function POST(req: Request) {
       }
     )
   }
-}
\ No newline at end of file
+}
+
+function validatorLabel(validator: ValidatorInfo): string {
+  return validator.name || `${validator.voteAccount.slice(0, 4)}…${validator.voteAccount.slice(-4)}`
+}
+
+export const GET = withBlinkAnalytics("stake", handleGet)
+export const POST = withBlinkAnalytics("stake", handlePost)
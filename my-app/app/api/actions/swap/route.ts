@@ -1,23 +1,31 @@
 import {
   ActionGetResponse,
   ActionPostRequest,
-  ActionPostResponse,
-  ACTIONS_CORS_HEADERS,
   createPostResponse,
 } from "@solana/actions"
-import { Connection, PublicKey, Transaction, SystemProgram, LAMPORTS_PER_SOL } from "@solana/web3.js"
+import { Connection, PublicKey, VersionedTransaction } from "@solana/web3.js"
 import { SOLANA_CONFIG } from "@/lib/solana-config"
+import { blinksService } from "@/lib/blinks-service"
+import { ACTIONS_CORS_HEADERS } from "@/lib/blinks-types"
+import { createNextActionLinks } from "@/lib/action-chains"
+import { withBlinkAnalytics } from "@/lib/blink-analytics"
+import { jupiterTokenService } from "@/lib/jupiter-token-service"
+import { jupiterUnifiedService } from "@/lib/jupiter-unified-service"
+import { getRevenueTracker } from "@/lib/revenue-tracking"
+import { formatTokenAmount, parseTokenAmount, TokenTransferError } from "@/lib/token-transfer"
+
+const DEFAULT_SLIPPAGE_BPS = 50
 
 export const maxDuration = 30
 
-export async function GET(req: Request) {
+async function handleGet(req: Request) {
   const baseURL = new URL(req.url).origin
   const pathActions = new URL(req.url).pathname
   
   const payload: ActionGetResponse = {
     icon: `${baseURL}/swap-icon.png`,
     title: "Token Swap",
-    description: "Swap tokens on Solana using Jupiter or Raydium",
+    description: "Swap tokens on Solana at the best price across DEXs, routed by Jupiter",
     label: "Swap",
     links: {
       actions: [
@@ -68,7 +76,7 @@ export async function OPTIONS(req: Request) {
   return new Response(null, { headers: ACTIONS_CORS_HEADERS })
 }
 
-export async function POST(req: Request) {
+async function handlePost(req: Request) {
   try {
     const body: ActionPostRequest = await req.json()
     
@@ -103,8 +111,46 @@ export async function POST(req: Request) {
       )
     }
     
-    const amount = parseFloat(amountStr)
-    if (isNaN(amount) || amount <= 0) {
+    // Resolve symbols or mint addresses through the Jupiter token list
+    const [inputToken, outputToken] = await Promise.all([
+      jupiterTokenService.resolveToken(fromToken),
+      jupiterTokenService.resolveToken(toToken),
+    ])
+    const unresolved = [!inputToken && fromToken, !outputToken && toToken].filter(Boolean)
+    if (!inputToken || !outputToken) {
+      return Response.json(
+        { message: `Unknown token: ${unresolved.join(", ")}` },
+        {
+          status: 400,
+          headers: ACTIONS_CORS_HEADERS,
+        }
+      )
+    }
+    if (inputToken.id === outputToken.id) {
+      return Response.json(
+        { message: "Cannot swap a token for itself" },
+        {
+          status: 400,
+          headers: ACTIONS_CORS_HEADERS,
+        }
+      )
+    }
+    
+    // Convert with the input token's decimals so the quote is for the exact amount entered
+    let amount: bigint
+    try {
+      amount = parseTokenAmount(amountStr, inputToken.decimals)
+    } catch (err) {
+      if (!(err instanceof TokenTransferError)) throw err
+      return Response.json(
+        { message: err.message },
+        {
+          status: 400,
+          headers: ACTIONS_CORS_HEADERS,
+        }
+      )
+    }
+    if (amount <= BigInt(0)) {
       return Response.json(
         { message: "Invalid amount specified" },
         {
@@ -119,36 +165,69 @@ export async function POST(req: Request) {
       "confirmed"
     )
     
-    // Note: In a real implementation, you would:
-    // 1. Use Jupiter API or Raydium SDK to get swap routes
-    // 2. Build the actual swap transaction with proper instructions
-    // 3. Include token accounts, AMM pools, etc.
+    // Route the platform fee to our referral token account when one exists for either mint
+    const fee = await getRevenueTracker(connection).getSwapFeeAccount(inputToken.id, outputToken.id)
     
-    // For demonstration, we'll create a placeholder transaction
-    // Real swap would require integration with DEX aggregators
-    
-    const transaction = new Transaction()
+    // Blink wallets submit the transaction themselves, so stay on the Lite API
+    const swapRequest = {
+      inputMint: inputToken.id,
+      outputMint: outputToken.id,
+      amount: amount.toString(),
+      userPublicKey: userAccount.toBase58(),
+      slippageBps: DEFAULT_SLIPPAGE_BPS,
+      tier: "lite" as const,
+      ...(fee && { integratorFee: { account: fee.account, bps: fee.bps } }),
+    }
     
-    // Add a memo instruction as placeholder
-    // In production, this would be replaced with actual swap instructions
-    const memoInstruction = {
-      keys: [],
-      programId: new PublicKey("MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr"),
-      data: Buffer.from(`Swap ${amount} ${fromToken} to ${toToken}`)
+    // swap() quotes and builds in one go; a failure there means Jupiter has no route
+    let swap: Awaited<ReturnType<typeof jupiterUnifiedService.swap>>
+    try {
+      swap = await jupiterUnifiedService.swap(swapRequest)
+    } catch (err) {
+      console.error("Swap route error:", err)
+      return Response.json(
+        { message: `No swap route found from ${inputToken.symbol} to ${outputToken.symbol}` },
+        {
+          status: 400,
+          headers: ACTIONS_CORS_HEADERS,
+        }
+      )
     }
+    const transaction = VersionedTransaction.deserialize(Buffer.from(swap.transaction, "base64"))
     
-    transaction.add(memoInstruction)
+    // Simulate before handing the transaction to the wallet
+    const simulation = await blinksService.simulateTransaction(transaction, userAccount.toBase58())
+    if (!simulation.ok) {
+      return Response.json(
+        { message: `Transaction simulation failed: ${simulation.error}` },
+        {
+          status: 400,
+          headers: ACTIONS_CORS_HEADERS,
+        }
+      )
+    }
+    const simulationNote = simulation.summary ? ` (${simulation.summary})` : ""
     
-    // Set recent blockhash and fee payer
-    const { blockhash } = await connection.getLatestBlockhash()
-    transaction.recentBlockhash = blockhash
-    transaction.feePayer = userAccount
+    // Describe the route that was actually built
+    const outputAmount = BigInt(swap.route.outputAmount)
+    const minimumOutput = outputAmount * BigInt(10000 - swap.route.slippageBps) / BigInt(10000)
+    const details = [
+      `via ${swap.route.label || "Jupiter"}`,
+      `price impact ${(swap.route.priceImpactPct * 100).toFixed(2)}%`,
+      `minimum received ${formatTokenAmount(minimumOutput, outputToken.decimals)} ${outputToken.symbol}`,
+      ...(swap.route.platformFee ? [`platform fee ${swap.route.platformFee / 100}%`] : []),
+    ]
+    const message =
+      `Swap ${formatTokenAmount(BigInt(swap.route.inputAmount), inputToken.decimals)} ${inputToken.symbol} ` +
+      `for ~${formatTokenAmount(outputAmount, outputToken.decimals)} ${outputToken.symbol} (${details.join(", ")})`
     
     // Create response
     const payload = await createPostResponse({
       fields: {
+        type: "transaction",
         transaction,
-        message: `Swap ${amount} ${fromToken} to ${toToken}`,
+        message: `${message}${simulationNote}`,
+        links: createNextActionLinks(req.url),
       },
     })
     
@@ -165,4 +244,7 @@ export async function POST(req: Request) {
       }
     )
   }
-}
\ No newline at end of file
+}
+
+export const GET = withBlinkAnalytics("swap", handleGet)
+export const POST = withBlinkAnalytics("swap", handlePost)
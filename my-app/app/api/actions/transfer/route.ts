@@ -2,16 +2,20 @@ import {
   ActionGetResponse,
   ActionPostRequest,
   ActionPostResponse,
-  ACTIONS_CORS_HEADERS,
   createPostResponse,
 } from "@solana/actions"
 import { Connection, PublicKey, Transaction, SystemProgram, LAMPORTS_PER_SOL } from "@solana/web3.js"
 import { SOLANA_CONFIG } from "@/lib/solana-config"
+import { blinksService } from "@/lib/blinks-service"
+import { ACTIONS_CORS_HEADERS } from "@/lib/blinks-types"
+import { createNextActionLinks } from "@/lib/action-chains"
+import { withBlinkAnalytics } from "@/lib/blink-analytics"
+import { applyReferences } from "@/lib/solana-pay-service"
 
 // Allow streaming responses up to 30 seconds
 export const maxDuration = 30
 
-export async function GET(req: Request) {
+async function handleGet(req: Request) {
   const baseURL = new URL(req.url).origin
   const pathActions = new URL(req.url).pathname
   
@@ -53,7 +57,7 @@ export async function OPTIONS(req: Request) {
   return new Response(null, { headers: ACTIONS_CORS_HEADERS })
 }
 
-export async function POST(req: Request) {
+async function handlePost(req: Request) {
   try {
     const body: ActionPostRequest = await req.json()
     
@@ -146,12 +150,30 @@ export async function POST(req: Request) {
     const { blockhash } = await connection.getLatestBlockhash()
     transaction.recentBlockhash = blockhash
     transaction.feePayer = userAccount
+
+    // Solana Pay transaction requests carry reference keys to track the payment by
+    applyReferences(transaction, req.url)
+    
+    // Simulate before handing the transaction to the wallet
+    const simulation = await blinksService.simulateTransaction(transaction, userAccount.toBase58())
+    if (!simulation.ok) {
+      return Response.json(
+        { message: `Transaction simulation failed: ${simulation.error}` },
+        {
+          status: 400,
+          headers: ACTIONS_CORS_HEADERS,
+        }
+      )
+    }
+    const simulationNote = simulation.summary ? ` (${simulation.summary})` : ""
     
     // Create response
     const payload = await createPostResponse({
       fields: {
+        type: "transaction",
         transaction,
-        message: `Transfer ${amount} SOL to ${to.slice(0, 8)}...${to.slice(-8)}`,
+        message: `Transfer ${amount} SOL to ${to.slice(0, 8)}...${to.slice(-8)}${simulationNote}`,
+        links: createNextActionLinks(req.url),
       },
     })
     
@@ -168,4 +190,7 @@ export async function POST(req: Request) {
       }
     )
   }
-}
\ No newline at end of file
+}
+
+export const GET = withBlinkAnalytics("transfer", handleGet)
+export const POST = withBlinkAnalytics("transfer", handlePost)
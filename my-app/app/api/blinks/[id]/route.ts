@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { blinkRegistry } from '@/lib/blink-registry';
+import { BLINK_OWNER_HEADER, BlinkRegistryError } from '@/lib/blink-registry-types';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+function errorResponse(error: unknown, fallback: string) {
+  if (error instanceof BlinkRegistryError && error.code !== 'IO_ERROR') {
+    return NextResponse.json({ error: error.message }, { status: error.code === 'FORBIDDEN' ? 403 : 400 });
+  }
+  console.error(`${fallback}:`, error);
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const blink = await blinkRegistry.get(id);
+
+    if (!blink) {
+      return NextResponse.json({ error: 'Blink not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ blink });
+  } catch (error) {
+    return errorResponse(error, 'Failed to load Blink');
+  }
+}
+
+export async function PUT(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const { blink: config } = await req.json();
+
+    const blink = await blinkRegistry.update(id, config, req.headers.get(BLINK_OWNER_HEADER));
+    if (!blink) {
+      return NextResponse.json({ error: 'Blink not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ blink });
+  } catch (error) {
+    return errorResponse(error, 'Failed to update Blink');
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const deleted = await blinkRegistry.delete(id, req.headers.get(BLINK_OWNER_HEADER));
+
+    if (!deleted) {
+      return NextResponse.json({ error: 'Blink not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return errorResponse(error, 'Failed to delete Blink');
+  }
+}
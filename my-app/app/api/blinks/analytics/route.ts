@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { blinkAnalytics, BlinkAnalyticsError } from '@/lib/blink-analytics';
+
+export async function GET(req: NextRequest) {
+  try {
+    const blinkId = new URL(req.url).searchParams.get('blink');
+
+    if (blinkId) {
+      const report = await blinkAnalytics.getReport(blinkId);
+      return NextResponse.json({ analytics: report ? [report] : [] });
+    }
+
+    const analytics = await blinkAnalytics.listReports();
+    return NextResponse.json({ analytics });
+  } catch (error) {
+    if (error instanceof BlinkAnalyticsError && error.code === 'INVALID_ID') {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Blink analytics API GET error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load Blink analytics' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PublicKey } from '@solana/web3.js';
+import { blinkProxyService, BlinkProxyError } from '@/lib/blink-proxy';
+import { signingRequestManager } from '@/lib/signing-requests';
+import { transactionSimulator } from '@/lib/transaction-simulator';
+
+const errorStatus: Record<BlinkProxyError['code'], number> = {
+  INVALID_URL: 400,
+  BLOCKED: 403,
+  UPSTREAM_ERROR: 502,
+  INVALID_RESPONSE: 502,
+};
+
+function errorResponse(error: unknown, fallback: string) {
+  if (error instanceof BlinkProxyError) {
+    return NextResponse.json(
+      { error: error.message, code: error.code },
+      { status: errorStatus[error.code] }
+    );
+  }
+  console.error(`Blink proxy error (${fallback}):`, error);
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+export async function GET(req: NextRequest) {
+  const url = new URL(req.url);
+  const target = url.searchParams.get('url');
+
+  if (!target) {
+    return NextResponse.json({ error: 'An action URL is required' }, { status: 400 });
+  }
+
+  try {
+    const action = await blinkProxyService.getAction(target, url.origin);
+    return NextResponse.json(action);
+  } catch (error) {
+    return errorResponse(error, 'Failed to load action');
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const origin = new URL(req.url).origin;
+    const { href, account, data, signature, state, callback } = await req.json();
+
+    if (!href || typeof href !== 'string') {
+      return NextResponse.json({ error: 'An action href is required' }, { status: 400 });
+    }
+    try {
+      new PublicKey(account);
+    } catch {
+      return NextResponse.json({ error: 'A valid account is required' }, { status: 400 });
+    }
+
+    // `links.next` callbacks report what the user signed and return the next action
+    if (callback) {
+      const next = await blinkProxyService.postNext(href, { account, data, signature, state }, origin);
+      return NextResponse.json(next);
+    }
+
+    const result = await blinkProxyService.postAction(href, { account, ...(data && { data }) }, origin);
+    const { response } = result;
+    if ((response.type ?? 'transaction') !== 'transaction' || !('transaction' in response)) {
+      return NextResponse.json(result);
+    }
+
+    // Hand the transaction to the same signing flow the chat tools use
+    const simulation = await transactionSimulator.simulate(response.transaction, { accounts: [account] }).catch(() => null);
+    let signingRequest;
+    try {
+      signingRequest = signingRequestManager.create({
+        kind: 'blink',
+        description: response.message || `Transaction from ${new URL(result.actionUrl).host}`,
+        signer: account,
+        transaction: response.transaction,
+        simulation,
+      });
+    } catch {
+      throw new BlinkProxyError('Action returned a transaction that could not be decoded', 'INVALID_RESPONSE');
+    }
+
+    return NextResponse.json({ ...result, signingRequest });
+  } catch (error) {
+    return errorResponse(error, 'Failed to execute action');
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { blinkRegistry } from '@/lib/blink-registry';
+import { BlinkRegistryError } from '@/lib/blink-registry-types';
+import { PaginationError, parsePagination } from '@/lib/pagination';
+
+export async function GET(req: NextRequest) {
+  try {
+    const url = new URL(req.url);
+    const creator = url.searchParams.get('creator') || undefined;
+    const { limit, offset } = parsePagination(url.searchParams);
+
+    const blinks = await blinkRegistry.list({ limit, offset, creator });
+    return NextResponse.json({ blinks });
+  } catch (error) {
+    if (error instanceof PaginationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Blinks API GET error:', error);
+    return NextResponse.json(
+      { error: 'Failed to list Blinks' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const { blink: config } = await req.json();
+    const { blink, ownerKey } = await blinkRegistry.create(config);
+    return NextResponse.json({ blink, ownerKey }, { status: 201 });
+  } catch (error) {
+    if (error instanceof BlinkRegistryError && error.code !== 'IO_ERROR') {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Blinks API POST error:', error);
+    return NextResponse.json(
+      { error: 'Failed to save Blink' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,10 +1,33 @@
-import { streamText, convertToModelMessages, type UIMessage } from 'ai';
+import {
+  streamText,
+  convertToModelMessages,
+  createUIMessageStream,
+  createUIMessageStreamResponse,
+  stepCountIs,
+  type UIMessage,
+} from 'ai';
 import { openai } from '@ai-sdk/openai';
 import { anthropic } from '@ai-sdk/anthropic';
 import { google } from '@ai-sdk/google';
 import { groq } from '@ai-sdk/groq';
-import { toolsRegistry, type ToolId } from '@/lib/tools';
+import { toolsRegistry, type ToolContext, type ToolId } from '@/lib/tools';
 import { mcpClientManager } from '@/lib/mcp-client';
+import { conversationStore } from '@/lib/conversation-store';
+import { AGENT_CONFIG } from '@/lib/agent-config';
+import { createToolExecutor, type AgentStepData } from '@/lib/agent-executor';
+import { AgentOrchestrator, type AgentPlanData, type ExecutionStep } from '@/lib/agent-orchestrator';
+import {
+  toolApprovalManager,
+  ToolApprovalError,
+  type ApprovalDecision,
+  type ToolApprovalData,
+} from '@/lib/tool-approval';
+import {
+  signingRequestManager,
+  findSigningRequests,
+  type SigningRequestData,
+} from '@/lib/signing-requests';
+import { createSearchSourceWriter } from '@/lib/web-search';
 
 // Allow streaming responses up to 30 seconds
 export const maxDuration = 30;
@@ -19,14 +42,22 @@ const AGENT_SYSTEM_PROMPT = `You are an advanced AI agent specializing in the So
 5. **Synthesis**: Combine information from multiple sources to provide comprehensive insights
 
 Available tools and their purposes:
-- web-search: Search the web for current information on any topic
+- web-search: Search the web for current information; cite results inline as markdown links to their URL, e.g. [CoinDesk](https://...)
 - openai-image-generator: Generate images using OpenAI's latest gpt-image-1 model (GPT-4o, supports up to 4096x4096)
 - solana-balance: Check REAL Solana wallet balances directly from the blockchain
 - solana-token-price: Get LIVE token prices from CoinGecko API
-- transfer-sol: Send actual SOL transactions between wallets (requires private key)
-- get-transaction: Get details of any Solana transaction by its signature
-- defi-analyzer: Analyze Solana DeFi protocols, yields, and liquidity pools
-- nft-analyzer: Analyze Solana NFT collections and market trends
+- transfer-sol: Build a SOL transfer from the user's connected wallet for them to sign
+- transfer-token: Build an SPL/Token-2022 transfer to one or many recipients (airdrops) for the user to sign; amounts are exact decimal strings
+- get-transaction: Decode any Solana transaction by its signature into instructions, balance changes and a narrative you can quote
+- inspect-address: Identify what an address is (wallet, program, mint, token/stake/vote account, PDA), its known labels and recent activity; use it whenever the user pastes an unfamiliar address
+- stake-sol: Build a native staking transaction (stake with a validator, deactivate or withdraw a stake account) for the user to sign
+- staking-info: List validators with commission, stake and skip rate, compare liquid staking token APYs, and show the user's stake accounts with their status
+- liquid-stake: Build a SOL <-> LST (jitoSOL, mSOL, bSOL, INF) deposit or withdrawal via the stake pool or Jupiter for the user to sign
+- simulate-transaction: Simulate a base64 transaction to preview balance changes, fees and compute units before signing
+- portfolio: Value every SOL and SPL token holding of a wallet in USD with 24h change and risk flags
+- wallet-pnl: Analyze a wallet's history for per-token cost basis and realized/unrealized PnL
+- defi-analyzer: On-chain TVL, 24h volume/fees and APR for Raydium, Orca, Meteora, Kamino and liquid staking pools (JitoSOL, bSOL, mSOL)
+- nft-analyzer: On-chain NFT collection supply, unique holders and holder distribution, with marketplace floor and volume
 
 Important capabilities:
 - You're connected to the ${process.env.NEXT_PUBLIC_SOLANA_NETWORK || 'mainnet-beta'} network
@@ -37,7 +68,11 @@ Important capabilities:
 When using tools:
 - Always use solana-balance for checking wallet balances (it's real-time from blockchain)
 - Use solana-token-price for current market prices
-- Be careful with transfer-sol as it performs real transactions
+- Be careful with transfer-sol and transfer-token as they perform real transactions
+- If transfer-token reports that a recipient requires a memo, ask the user for it rather than inventing one
+- Before staking, use staking-info to suggest validators and to find the stake account to deactivate or withdraw; never pick a validator without telling the user
+- Value-moving tools (transfer-sol, transfer-token, stake-sol, liquid-stake, jupiter-ultra-swap) only return a preview awaiting user approval; summarize it and wait for the user to approve or reject it in the UI
+- Transactions are never signed on the server: approved transactions are sent to the user's wallet for signing, so never ask for private keys or seed phrases
 - Provide explorer links when relevant for transparency
 - Explain that you're interacting with the real blockchain
 - Handle errors gracefully and explain what went wrong
@@ -47,15 +82,80 @@ RPC Endpoint: ${process.env.NEXT_PUBLIC_SOLANA_RPC_URL || 'https://api.mainnet-b
 
 Always aim to be helpful, accurate, and transparent about blockchain interactions.`;
 
+// Tell the model which account "my wallet" refers to
+function describeActiveWallet({ walletAddress, readOnly }: ToolContext): string {
+  if (!walletAddress) {
+    return 'No wallet is connected. Ask the user to connect one before building transactions.';
+  }
+  return readOnly
+    ? `Active wallet: ${walletAddress} (watch-only). Use it as the default account for balances and analysis; it cannot sign, so transfers and swaps need a connected wallet.`
+    : `Active wallet: ${walletAddress}. Use it as the default account for balances, transfers and swaps.`;
+}
+
+// Summarize executed plan steps so the final answer can build on them
+function formatPlanResults(goal: string | undefined, plan: ExecutionStep[]): string {
+  const steps = plan
+    .filter(step => step.action !== 'synthesis')
+    .map(step => {
+      const result = step.error ? `Error: ${step.error}` : JSON.stringify(step.output);
+      return `Step ${step.step} (${step.description || step.action}) - ${step.status}\n${result}`;
+    });
+
+  return `## Executed plan
+Goal: ${goal || 'Answer the latest request'}
+These steps were already executed for the latest request. Base your answer on their results and do not repeat tool calls that succeeded.
+
+${steps.join('\n\n')}`;
+}
+
+// Tell the model what happened to an approval the user just decided on
+function formatApprovalUpdate(approval: ToolApprovalData): string {
+  const outcome = approval.status === 'rejected'
+    ? 'The user REJECTED this request. Nothing was executed; acknowledge it and do not retry.'
+    : approval.status === 'executed'
+      ? `The user approved this request and it was executed. Result:\n${JSON.stringify(approval.result)}`
+      : `The user approved this request but execution failed: ${approval.error}`;
+
+  return `## Approval update
+${approval.toolName}: ${approval.preview.summary}
+${outcome}`;
+}
+
+// Tell the model what happened to a transaction the user was asked to sign
+function formatSigningUpdate(request: SigningRequestData): string {
+  const outcome = request.status === 'confirmed'
+    ? `The user signed it and it was confirmed. Signature: ${request.signature}\nExplorer: ${request.explorerUrl}`
+    : request.status === 'failed'
+      ? `The user signed it but submission failed: ${request.error}`
+      : request.status === 'expired'
+        ? 'The request expired before it was signed. Offer to build a new transaction.'
+        : `Current status: ${request.status}`;
+
+  return `## Transaction update
+${request.description}
+${outcome}`;
+}
+
 export async function POST(req: Request) {
   const body = await req.json();
-  const { messages } = body;
+  const { messages, id: conversationId } = body as { messages: UIMessage[]; id?: string };
   
   // Extract metadata from the last message
   const lastMessage = messages[messages.length - 1];
-  const modelId = lastMessage?.metadata?.modelId || 'gpt-4o-mini';
-  const provider = lastMessage?.metadata?.provider || 'openai';
+  const metadata = (lastMessage?.metadata || {}) as {
+    modelId?: string;
+    provider?: string;
+    approval?: { approvalId: string; decision: ApprovalDecision };
+    signingRequest?: { requestId: string };
+    walletAddress?: string;
+    walletReadOnly?: boolean;
+  };
+  const modelId = metadata.modelId || 'gpt-4o-mini';
+  const provider = metadata.provider || 'openai';
   const enabledTools = body.tools || [];
+  const usePlanner = body.planner === true;
+  const walletAddress = metadata.walletAddress;
+  const toolContext: ToolContext = { walletAddress, readOnly: metadata.walletReadOnly === true, conversationId };
 
   // Build tools object based on enabled tools
   const tools: Record<string, any> = {};
@@ -100,30 +200,182 @@ export async function POST(req: Request) {
   // Prepare messages with system prompt for agent behavior
   const systemMessage = {
     role: 'system' as const,
-    content: AGENT_SYSTEM_PROMPT,
+    content: `${AGENT_SYSTEM_PROMPT}\n\n${describeActiveWallet(toolContext)}`,
   };
 
   const processedMessages = [systemMessage, ...convertToModelMessages(messages)];
 
   try {
-    const result = streamText({
-      model,
-      messages: processedMessages,
-      tools: Object.keys(tools).length > 0 ? tools : undefined,
-      temperature: 0.7,
-      onFinish: async (result) => {
-        console.log('Chat completion finished:', {
-          usage: result.usage,
-          toolCalls: result.toolCalls?.length || 0,
-          finishReason: result.finishReason,
+    // One tool round trip per step, plus a final step for the answer
+    const maxSteps = AGENT_CONFIG.maxToolRoundtrips + 1;
+
+    const stream = createUIMessageStream({
+      // Passing the original messages keeps message ids stable across saves
+      originalMessages: messages,
+      execute: async ({ writer }) => {
+        let currentStep = 1;
+        let plan: ExecutionStep[] = [];
+        let planGoal: string | undefined;
+
+        const writeSigningRequest = (request: SigningRequestData) => {
+          writer.write({ type: 'data-signing-request', id: `signing-${request.requestId}`, data: request });
+        };
+
+        // Web search results become `source-url` parts so the UI can list and cite them
+        const writeSearchSources = createSearchSourceWriter(part => writer.write(part));
+
+        const writeApproval = (approval: ToolApprovalData) => {
+          writer.write({ type: 'data-tool-approval', id: `approval-${approval.approvalId}`, data: approval });
+          findSigningRequests(approval.result).forEach(writeSigningRequest);
+        };
+
+        // The UI reports back once the user's wallet has signed (or given up on) a transaction
+        if (metadata.signingRequest && lastMessage?.role === 'user') {
+          const { requestId } = metadata.signingRequest;
+          const request = signingRequestManager.belongsTo(requestId, conversationId)
+            ? signingRequestManager.get(requestId)
+            : null;
+          if (request) {
+            writeSigningRequest(request);
+            systemMessage.content += `\n\n${formatSigningUpdate(request)}`;
+          } else {
+            systemMessage.content += '\n\n## Transaction update\nThe signing request could not be found; it may have expired.';
+          }
+        }
+
+        // Approval decisions only ever come from an explicit user message
+        if (metadata.approval && lastMessage?.role === 'user') {
+          try {
+            const approval = await toolApprovalManager.resolve(
+              metadata.approval.approvalId,
+              metadata.approval.decision,
+              conversationId
+            );
+            writeApproval(approval);
+            systemMessage.content += `\n\n${formatApprovalUpdate(approval)}`;
+          } catch (error) {
+            const message = error instanceof ToolApprovalError ? error.message : 'Approval could not be processed';
+            console.error('Tool approval error:', error);
+            systemMessage.content += `\n\n## Approval update\nThe user's decision could not be applied: ${message}. Nothing was executed.`;
+          }
+        }
+
+        // Planner mode: build and run a structured plan up front, then let the
+        // streamed answer below act as its synthesis step
+        const writePlan = (data: AgentPlanData) => {
+          // Copy the steps; the orchestrator keeps mutating them while the part is queued
+          writer.write({
+            type: 'data-agent-plan',
+            id: 'agent-plan',
+            data: { ...data, steps: data.steps.map(step => ({ ...step })) },
+          });
+        };
+
+        if (usePlanner) {
+          writePlan({ status: 'planning', steps: [] });
+          const orchestrator = new AgentOrchestrator(enabledTools, model);
+
+          try {
+            const userText = lastMessage?.parts
+              .map(part => (part.type === 'text' ? part.text : ''))
+              .join('\n') || '';
+            plan = await orchestrator.planExecution(userText, enabledTools);
+            planGoal = orchestrator.getState().currentTask;
+
+            await orchestrator.executePlan(plan, {
+              deferActions: ['synthesis'],
+              approval: { conversationId, onPending: writeApproval },
+              toolContext,
+              onStepUpdate: (step, steps) => {
+                findSigningRequests(step.output).forEach(writeSigningRequest);
+                if (step.tool === 'web-search') writeSearchSources(step.output);
+                writePlan({ status: 'running', goal: planGoal, steps });
+              },
+            });
+            writePlan({ status: 'running', goal: planGoal, steps: plan });
+
+            systemMessage.content += `\n\n${formatPlanResults(planGoal, plan)}`;
+          } catch (error) {
+            console.error('Agent planning failed:', error);
+            plan = [];
+            writePlan({
+              status: 'failed',
+              steps: [],
+              error: error instanceof Error ? error.message : 'Planning failed',
+            });
+          }
+        }
+
+        // Steps that call tools are surfaced as `data-agent-step` parts; writing
+        // with the same id replaces the part so the UI shows live progress
+        const writeStep = (step: number, status: AgentStepData['status'], finishReason?: string) => {
+          const data: AgentStepData = {
+            step,
+            maxSteps,
+            status,
+            tools: executor.getRecords(step),
+            finishReason,
+          };
+          writer.write({ type: 'data-agent-step', id: `agent-step-${step}`, data });
+        };
+
+        const executor = createToolExecutor(AGENT_CONFIG, (record) => writeStep(record.step, 'running'));
+
+        const result = streamText({
+          model,
+          messages: processedMessages,
+          tools: Object.keys(tools).length > 0
+            ? executor.wrapTools(toolApprovalManager.gateTools(tools, { conversationId, onPending: writeApproval }))
+            : undefined,
+          temperature: AGENT_CONFIG.temperature,
+          experimental_context: toolContext,
+          stopWhen: stepCountIs(maxSteps),
+          prepareStep: ({ stepNumber }) => {
+            currentStep = stepNumber + 1;
+            executor.setStep(currentStep);
+            return undefined;
+          },
+          onStepFinish: (step) => {
+            if (step.toolCalls.length > 0) {
+              writeStep(currentStep, 'completed', step.finishReason);
+            }
+            for (const toolResult of step.toolResults) {
+              findSigningRequests(toolResult.output).forEach(writeSigningRequest);
+              if (toolResult.toolName === 'web-search') writeSearchSources(toolResult.output);
+            }
+            if (plan.length > 0 && step.finishReason !== 'tool-calls') {
+              for (const planStep of plan) {
+                if (planStep.action === 'synthesis') planStep.status = 'completed';
+              }
+              writePlan({ status: 'completed', goal: planGoal, steps: plan });
+            }
+          },
+          onFinish: async (result) => {
+            console.log('Chat completion finished:', {
+              usage: result.totalUsage,
+              steps: result.steps.length,
+              toolCalls: result.steps.reduce((count, step) => count + step.toolCalls.length, 0),
+              finishReason: result.finishReason,
+            });
+          },
         });
+
+        writer.merge(result.toUIMessageStream({
+          sendSources: true,
+          sendReasoning: true,
+        }));
+      },
+      onFinish: async ({ messages: updatedMessages }) => {
+        if (!conversationId) return;
+        try {
+          await conversationStore.saveMessages(conversationId, updatedMessages, { modelId, provider });
+        } catch (error) {
+          console.error('Failed to persist conversation:', error);
+        }
       },
     });
 
-    return result.toUIMessageStreamResponse({ 
-      sendSources: true, 
-      sendReasoning: true,
-    });
+    return createUIMessageStreamResponse({ stream });
   } catch (error) {
     console.error('Chat API error:', error);
     return new Response(
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { conversationStore } from '@/lib/conversation-store';
+import { ConversationStoreError } from '@/lib/conversation-types';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+function errorResponse(error: unknown, fallback: string) {
+  if (error instanceof ConversationStoreError && error.code !== 'IO_ERROR') {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+  console.error(`${fallback}:`, error);
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const conversation = await conversationStore.get(id);
+
+    if (!conversation) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ conversation });
+  } catch (error) {
+    return errorResponse(error, 'Failed to load conversation');
+  }
+}
+
+export async function PATCH(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const { title } = await req.json();
+
+    if (typeof title !== 'string' || !title.trim()) {
+      return NextResponse.json({ error: 'Title is required' }, { status: 400 });
+    }
+
+    const conversation = await conversationStore.rename(id, title);
+    if (!conversation) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ conversation });
+  } catch (error) {
+    return errorResponse(error, 'Failed to rename conversation');
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const deleted = await conversationStore.delete(id);
+
+    if (!deleted) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return errorResponse(error, 'Failed to delete conversation');
+  }
+}
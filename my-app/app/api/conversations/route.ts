@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { conversationStore } from '@/lib/conversation-store';
+import { PaginationError, parsePagination } from '@/lib/pagination';
+
+export async function GET(req: NextRequest) {
+  try {
+    const url = new URL(req.url);
+    const query = url.searchParams.get('q');
+    const { limit, offset } = parsePagination(url.searchParams);
+
+    if (query) {
+      const results = await conversationStore.search(query, { limit, offset });
+      return NextResponse.json({ conversations: results });
+    }
+
+    const conversations = await conversationStore.list({ limit, offset });
+    return NextResponse.json({ conversations });
+  } catch (error) {
+    if (error instanceof PaginationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Conversations API GET error:', error);
+    return NextResponse.json(
+      { error: 'Failed to list conversations' },
+      { status: 500 }
+    );
+  }
+}
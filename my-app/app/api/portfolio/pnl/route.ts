@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { walletPnlService } from '@/lib/pnl-service';
+import { PnlError } from '@/lib/pnl-types';
+
+const MAX_TRANSACTIONS_LIMIT = 1000;
+
+export async function GET(req: NextRequest) {
+  try {
+    const owner = req.nextUrl.searchParams.get('owner');
+    const maxTransactions = parseMaxTransactions(req.nextUrl.searchParams.get('maxTransactions'));
+
+    if (!owner) {
+      return NextResponse.json({ error: 'A wallet address is required' }, { status: 400 });
+    }
+    if (maxTransactions === null) {
+      return NextResponse.json(
+        { error: `maxTransactions must be an integer between 1 and ${MAX_TRANSACTIONS_LIMIT}` },
+        { status: 400 }
+      );
+    }
+
+    const report = await walletPnlService.getReport(owner, { maxTransactions });
+
+    return NextResponse.json({ report });
+  } catch (error) {
+    if (error instanceof PnlError && error.code !== 'IO_ERROR') {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.code === 'INVALID_ADDRESS' ? 400 : 502 }
+      );
+    }
+    console.error('Portfolio PnL API GET error:', error);
+    return NextResponse.json(
+      { error: 'Failed to analyze wallet performance' },
+      { status: 500 }
+    );
+  }
+}
+
+// Omitted means the service default; anything but a whole number in range is rejected
+function parseMaxTransactions(value: string | null): number | undefined | null {
+  if (value === null || value === '') return undefined;
+  if (!/^\d+$/.test(value)) return null;
+  const count = Number(value);
+  return count >= 1 && count <= MAX_TRANSACTIONS_LIMIT ? count : null;
+}
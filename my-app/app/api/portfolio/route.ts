@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { portfolioService, PortfolioError } from '@/lib/portfolio-service';
+import { walletPnlService } from '@/lib/pnl-service';
+
+export async function GET(req: NextRequest) {
+  try {
+    const owner = req.nextUrl.searchParams.get('owner');
+
+    if (!owner) {
+      return NextResponse.json({ error: 'A wallet address is required' }, { status: 400 });
+    }
+
+    const portfolio = await portfolioService.getPortfolio(owner, {
+      includeZeroBalances: req.nextUrl.searchParams.get('includeZero') === 'true',
+    });
+
+    // Every valuation doubles as a (throttled) snapshot for the value chart
+    await walletPnlService.recordSnapshot(portfolio).catch(error => {
+      console.error('Failed to record portfolio snapshot:', error);
+    });
+
+    return NextResponse.json({ portfolio });
+  } catch (error) {
+    if (error instanceof PortfolioError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.code === 'INVALID_ADDRESS' ? 400 : 502 }
+      );
+    }
+    console.error('Portfolio API GET error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load portfolio' },
+      { status: 500 }
+    );
+  }
+}
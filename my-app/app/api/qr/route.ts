@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { QrCodeError, renderQrPng, renderQrSvg, type QrFormat } from '@/lib/qr-code';
+
+export async function GET(req: NextRequest) {
+  const url = new URL(req.url);
+  const data = url.searchParams.get('data') || '';
+  const format = (url.searchParams.get('format') || 'svg') as QrFormat;
+  const numberParam = (name: string) => {
+    const value = url.searchParams.get(name);
+    return value === null ? undefined : Number(value);
+  };
+
+  if (format !== 'svg' && format !== 'png') {
+    return NextResponse.json({ error: 'format must be svg or png' }, { status: 400 });
+  }
+
+  try {
+    const options = {
+      size: numberParam('size'),
+      margin: numberParam('margin'),
+      color: url.searchParams.get('color') || undefined,
+      background: url.searchParams.get('background') || undefined,
+    };
+    const body = format === 'svg' ? renderQrSvg(data, options) : new Uint8Array(renderQrPng(data, options));
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': format === 'svg' ? 'image/svg+xml' : 'image/png',
+        // The image is fully determined by the query string
+        'Cache-Control': 'public, max-age=31536000, immutable',
+        ...(url.searchParams.has('download') && {
+          'Content-Disposition': `attachment; filename="qr-code.${format}"`,
+        }),
+      },
+    });
+  } catch (error) {
+    if (error instanceof QrCodeError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('QR API GET error:', error);
+    return NextResponse.json(
+      { error: 'Failed to render QR code' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { signingRequestManager, SigningRequestError } from '@/lib/signing-requests';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const errorStatus: Record<SigningRequestError['code'], number> = {
+  NOT_FOUND: 404,
+  EXPIRED: 409,
+  ALREADY_SUBMITTED: 409,
+  TRANSACTION_MISMATCH: 400,
+  SUBMISSION_FAILED: 502,
+};
+
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const request = signingRequestManager.get(id);
+
+  if (!request) {
+    return NextResponse.json({ error: 'Signing request not found' }, { status: 404 });
+  }
+
+  return NextResponse.json({ request });
+}
+
+export async function POST(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const { signedTransaction } = await req.json();
+
+    if (!signedTransaction || typeof signedTransaction !== 'string') {
+      return NextResponse.json(
+        { error: 'A base64-encoded signed transaction is required' },
+        { status: 400 }
+      );
+    }
+
+    const request = await signingRequestManager.submit(id, signedTransaction);
+    return NextResponse.json({ request });
+  } catch (error) {
+    if (error instanceof SigningRequestError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: errorStatus[error.code] }
+      );
+    }
+    console.error('Signing request API POST error:', error);
+    return NextResponse.json(
+      { error: 'Failed to submit signed transaction' },
+      { status: 500 }
+    );
+  }
+}
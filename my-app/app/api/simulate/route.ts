@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PublicKey } from '@solana/web3.js';
+import { transactionSimulator, SimulationError, summarizeSimulation } from '@/lib/transaction-simulator';
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const { transaction, accounts } = body as { transaction?: string; accounts?: unknown };
+
+    if (!transaction || typeof transaction !== 'string') {
+      return NextResponse.json(
+        { error: 'A base64-encoded transaction is required' },
+        { status: 400 }
+      );
+    }
+
+    if (accounts !== undefined && (!Array.isArray(accounts) || !accounts.every(isAddress))) {
+      return NextResponse.json(
+        { error: 'accounts must be a list of Solana addresses' },
+        { status: 400 }
+      );
+    }
+
+    const report = await transactionSimulator.simulate(transaction, { accounts });
+
+    return NextResponse.json({
+      report,
+      summary: summarizeSimulation(report, accounts?.[0]),
+    });
+  } catch (error) {
+    if (error instanceof SimulationError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.code === 'INVALID_TRANSACTION' ? 400 : 502 }
+      );
+    }
+    console.error('Simulate API POST error:', error);
+    return NextResponse.json(
+      { error: 'Failed to simulate transaction' },
+      { status: 500 }
+    );
+  }
+}
+
+function isAddress(value: unknown): value is string {
+  if (typeof value !== 'string') return false;
+  try {
+    new PublicKey(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { solanaPayService } from '@/lib/solana-pay-service';
+import { SolanaPayError } from '@/lib/solana-pay-types';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const errorStatus: Record<SolanaPayError['code'], number> = {
+  INVALID_FIELDS: 400,
+  NOT_FOUND: 404,
+  RPC_ERROR: 502,
+};
+
+// Each poll looks for the payment on-chain, so the client sees it land
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const payment = await solanaPayService.checkPayment(id);
+    return NextResponse.json({ payment });
+  } catch (error) {
+    if (error instanceof SolanaPayError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: errorStatus[error.code] }
+      );
+    }
+    console.error('Solana Pay API GET error:', error);
+    return NextResponse.json(
+      { error: 'Failed to check payment' },
+      { status: 500 }
+    );
+  }
+}
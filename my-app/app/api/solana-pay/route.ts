@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { solanaPayService } from '@/lib/solana-pay-service';
+import { SolanaPayError } from '@/lib/solana-pay-types';
+
+export async function POST(req: NextRequest) {
+  try {
+    const params = await req.json();
+
+    if (params?.kind !== 'transfer' && params?.kind !== 'transaction') {
+      return NextResponse.json(
+        { error: 'kind must be "transfer" or "transaction"' },
+        { status: 400 }
+      );
+    }
+
+    const payment = solanaPayService.createPaymentRequest(params);
+    return NextResponse.json({ payment }, { status: 201 });
+  } catch (error) {
+    if (error instanceof SolanaPayError && error.code === 'INVALID_FIELDS') {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Solana Pay API POST error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create payment request' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { headers } from "next/headers"
+import { notFound } from "next/navigation"
+import { BlinkCard } from "@/components/blink-card"
+import { resolveBlinkPage } from "@/lib/actions-json"
+import { createBlinkUrl } from "@/lib/blinks-types"
+
+type PageProps = { params: Promise<{ id: string }> }
+
+// Blink clients map this page to its action through /actions.json; browsers get the Blink rendered here
+export default async function BlinkPage({ params }: PageProps) {
+  const { id } = await params
+  const apiPath = await resolveBlinkPage(id)
+  if (!apiPath) notFound()
+
+  const actionUrl = `${await requestOrigin()}${apiPath}`
+  return (
+    <main className="mx-auto flex min-h-screen max-w-md flex-col justify-center gap-3 p-4">
+      <BlinkCard url={actionUrl} />
+      <a
+        href={createBlinkUrl(actionUrl)}
+        target="_blank"
+        rel="noreferrer"
+        className="text-center text-xs text-muted-foreground underline"
+      >
+        Open in a Blink client
+      </a>
+    </main>
+  )
+}
+
+async function requestOrigin(): Promise<string> {
+  const requestHeaders = await headers()
+  const host = requestHeaders.get("x-forwarded-host") || requestHeaders.get("host") || "localhost:3000"
+  const protocol = requestHeaders.get("x-forwarded-proto") || (host.startsWith("localhost") ? "http" : "https")
+  return `${protocol}://${host}`
+}
@@ -22,11 +22,12 @@ import {
   PromptInputToolsSelectTrigger,
   PromptInputToolsSelectValue,
 } from "@/components/ai-elements/prompt-input"
-import { useState, useRef, useEffect } from "react"
+import { useState, useRef, useEffect, useMemo } from "react"
 import Image from "next/image"
 import { useChat } from "@ai-sdk/react"
+import { generateId, type DynamicToolUIPart, type ToolUIPart, type UIMessage } from "ai"
 import { Response } from "@/components/ai-elements/response"
-import { GlobeIcon, MicIcon, PlusIcon, BotIcon } from "lucide-react"
+import { GlobeIcon, MicIcon, PlusIcon, BotIcon, ListChecksIcon } from "lucide-react"
 import { Suggestion, Suggestions } from "@/components/ai-elements/suggestion"
 import { Source, Sources, SourcesContent, SourcesTrigger } from "@/components/ai-elements/source"
 import { Reasoning, ReasoningTrigger, ReasoningContent } from "@/components/ai-elements/reasoning"
@@ -35,6 +36,18 @@ import { Tool, ToolHeader, ToolContent, ToolInput, ToolOutput } from "@/componen
 import { MobileSidebar } from "@/components/mobile-sidebar"
 import { Sidebar } from "@/components/sidebar"
 import { SolanaStatus } from "@/components/solana-status"
+import { AgentStep } from "@/components/agent-step"
+import type { AgentStepData } from "@/lib/agent-executor"
+import { AgentPlan } from "@/components/agent-plan"
+import type { AgentPlanData } from "@/lib/agent-orchestrator"
+import { ToolApproval } from "@/components/tool-approval"
+import type { ApprovalDecision, ToolApprovalData } from "@/lib/tool-approval"
+import { SigningRequest } from "@/components/signing-request"
+import { BlinkLinks } from "@/components/blink-card"
+import { SearchCitations, type CitationSource } from "@/components/search-citations"
+import type { SigningRequestData } from "@/lib/signing-requests"
+import { WalletButton } from "@/components/wallet-button"
+import { useWalletConnections } from "@/components/wallet-provider"
 
 // Import all modals
 import { HistoryModal } from "@/components/modals/history-modal"
@@ -66,22 +79,34 @@ const availableTools = [
   { id: "openai-image-generator", name: "Image Generator", description: "Generate images using OpenAI's GPT-4o (gpt-image-1)" },
   { id: "solana-balance", name: "Solana Balance", description: "Check real SOL wallet balances on-chain" },
   { id: "solana-token-price", name: "Token Prices", description: "Get live token prices from CoinGecko" },
-  { id: "transfer-sol", name: "Transfer SOL", description: "Send SOL between wallets (requires private key)" },
-  { id: "get-transaction", name: "Get Transaction", description: "Get details of any Solana transaction" },
-  { id: "defi-analyzer", name: "DeFi Analyzer", description: "Analyze DeFi protocols and yields" },
-  { id: "nft-analyzer", name: "NFT Analyzer", description: "Analyze NFT collections and trends" },
+  { id: "transfer-sol", name: "Transfer SOL", description: "Send SOL from your connected wallet (signed in your wallet)" },
+  { id: "transfer-token", name: "Transfer Token", description: "Send SPL and Token-2022 tokens to one or many wallets" },
+  { id: "get-transaction", name: "Get Transaction", description: "Decode and explain any Solana transaction" },
+  { id: "inspect-address", name: "Inspect Address", description: "Identify wallets, programs, mints and accounts with labels and activity" },
+  { id: "stake-sol", name: "Stake SOL", description: "Stake, unstake and withdraw SOL with native stake accounts" },
+  { id: "staking-info", name: "Staking Info", description: "Validators, LST APYs and your stake accounts" },
+  { id: "liquid-stake", name: "Liquid Stake", description: "Stake SOL into jitoSOL, mSOL, bSOL or INF and back" },
+  { id: "simulate-transaction", name: "Simulate Transaction", description: "Preview balance changes and fees before signing" },
+  { id: "portfolio", name: "Portfolio", description: "Value all wallet holdings in USD with 24h change" },
+  { id: "wallet-pnl", name: "Wallet PnL", description: "Cost basis and realized/unrealized PnL from history" },
+  { id: "defi-analyzer", name: "DeFi Analyzer", description: "On-chain TVL, volume and APR for Solana DeFi pools" },
+  { id: "nft-analyzer", name: "NFT Analyzer", description: "Collection supply, holders and floor price" },
 ]
 
 const ChatBotDemo = () => {
   const [input, setInput] = useState("")
   const [model, setModel] = useState<string>(models[0].id)
   const [webSearch, setWebSearch] = useState(false)
+  const [planner, setPlanner] = useState(false)
   const [enabledTools, setEnabledTools] = useState<string[]>(["web-search", "openai-image-generator", "solana-balance"])
   const [toolsOpen, setToolsOpen] = useState(false)
   const [mcpTools, setMcpTools] = useState<Record<string, any>>({})
   const [allAvailableTools, setAllAvailableTools] = useState(availableTools)
   const currentProvider = models.find((m) => m.id === model)?.provider || "openai"
-  const { messages, sendMessage, status } = useChat()
+  // Changing the chat id makes useChat start a fresh thread seeded with initialMessages
+  const [conversationId, setConversationId] = useState(() => generateId())
+  const [initialMessages, setInitialMessages] = useState<UIMessage[]>([])
+  const { messages, sendMessage, status } = useChat({ id: conversationId, messages: initialMessages })
 
   // Modal states
   const [historyModalOpen, setHistoryModalOpen] = useState(false)
@@ -94,6 +119,9 @@ const ChatBotDemo = () => {
   const [settingsModalOpen, setSettingsModalOpen] = useState(false)
   const [blinksModalOpen, setBlinksModalOpen] = useState(false)
 
+  // Active account from the connections registry; may be a read-only watch address
+  const { activeAddress: walletAddress, readOnly: walletReadOnly } = useWalletConnections()
+
   const [recording, setRecording] = useState(false)
   const [transcribing, setTranscribing] = useState(false)
   const mediaRecorderRef = useRef<MediaRecorder | null>(null)
@@ -136,7 +164,10 @@ const ChatBotDemo = () => {
   const handleSuggestionClick = (suggestion: string) => {
     const provider = models.find((m) => m.id === model)?.provider || "openai"
     const effectiveWebSearch = provider === "openai" ? webSearch : false
-    sendMessage({ text: suggestion, metadata: { useWebSearch: effectiveWebSearch, modelId: model, provider } })
+    sendMessage({
+      text: suggestion,
+      metadata: { useWebSearch: effectiveWebSearch, modelId: model, provider, walletAddress, walletReadOnly },
+    })
   }
 
   const handleFileInput = () => {
@@ -159,7 +190,12 @@ const ChatBotDemo = () => {
             filename: file.name,
           } as any,
         ],
-        metadata: { modelId: model, provider: models.find((m) => m.id === model)?.provider || "openai" },
+        metadata: {
+          modelId: model,
+          provider: models.find((m) => m.id === model)?.provider || "openai",
+          walletAddress,
+          walletReadOnly,
+        },
       } as any)
     }
     reader.readAsDataURL(file)
@@ -171,12 +207,22 @@ const ChatBotDemo = () => {
     if (input.trim()) {
       const effectiveWebSearch = currentProvider === "openai" ? webSearch : false
       sendMessage(
-        { text: input, metadata: { useWebSearch: effectiveWebSearch, modelId: model, provider: currentProvider } },
+        {
+          text: input,
+          metadata: {
+            useWebSearch: effectiveWebSearch,
+            modelId: model,
+            provider: currentProvider,
+            walletAddress,
+            walletReadOnly,
+          },
+        },
         {
           body: {
             model: model,
             webSearch: webSearch,
             tools: enabledTools,
+            planner,
           },
         },
       )
@@ -184,6 +230,81 @@ const ChatBotDemo = () => {
     }
   }
 
+  // Approval updates arrive in later messages; show the latest state on the original card
+  const approvals = useMemo(() => {
+    const latest = new Map<string, ToolApprovalData>()
+    const firstSeenIn = new Map<string, string>()
+    for (const message of messages) {
+      for (const part of message.parts) {
+        if (part.type !== "data-tool-approval") continue
+        const approval = part.data as ToolApprovalData
+        latest.set(approval.approvalId, approval)
+        if (!firstSeenIn.has(approval.approvalId)) firstSeenIn.set(approval.approvalId, message.id)
+      }
+    }
+    return { latest, firstSeenIn }
+  }, [messages])
+
+  const handleApprovalDecision = (approval: ToolApprovalData, decision: ApprovalDecision) => {
+    sendMessage(
+      {
+        text: `${decision === "approve" ? "Approve" : "Reject"}: ${approval.preview.summary}`,
+        metadata: {
+          modelId: model,
+          provider: currentProvider,
+          approval: { approvalId: approval.approvalId, decision },
+          walletAddress,
+          walletReadOnly,
+        },
+      },
+      {
+        body: {
+          model: model,
+          webSearch: webSearch,
+          tools: enabledTools,
+        },
+      },
+    )
+  }
+
+  // Signing requests are updated by later messages too; render the latest state once
+  const signingRequests = useMemo(() => {
+    const latest = new Map<string, SigningRequestData>()
+    const firstSeenIn = new Map<string, string>()
+    for (const message of messages) {
+      for (const part of message.parts) {
+        if (part.type !== "data-signing-request") continue
+        const request = part.data as SigningRequestData
+        latest.set(request.requestId, request)
+        if (!firstSeenIn.has(request.requestId)) firstSeenIn.set(request.requestId, message.id)
+      }
+    }
+    return { latest, firstSeenIn }
+  }, [messages])
+
+  // Let the agent know how the signed transaction landed
+  const handleSigningSettled = (request: SigningRequestData) => {
+    sendMessage(
+      {
+        text: `Signed: ${request.description}`,
+        metadata: {
+          modelId: model,
+          provider: currentProvider,
+          signingRequest: { requestId: request.requestId },
+          walletAddress,
+          walletReadOnly,
+        },
+      },
+      {
+        body: {
+          model: model,
+          webSearch: webSearch,
+          tools: enabledTools,
+        },
+      },
+    )
+  }
+
   // Handle microphone recording (transcription)
   const handleMicClick = async () => {
     if (!recording) {
@@ -225,6 +346,23 @@ const ChatBotDemo = () => {
     }
   }
 
+  const handleNewChat = () => {
+    setInitialMessages([])
+    setConversationId(generateId())
+  }
+
+  const handleSelectConversation = async (id: string) => {
+    try {
+      const response = await fetch(`/api/conversations/${id}`)
+      if (!response.ok) throw new Error(`Failed to load conversation (${response.status})`)
+      const data = await response.json()
+      setInitialMessages(data.conversation.messages || [])
+      setConversationId(id)
+    } catch (error) {
+      console.error("Failed to resume conversation:", error)
+    }
+  }
+
   const handleToolToggle = (toolId: string) => {
     setEnabledTools((prev) => (prev.includes(toolId) ? prev.filter((id) => id !== toolId) : [...prev, toolId]))
   }
@@ -240,8 +378,7 @@ const ChatBotDemo = () => {
   const handleNavigation = (itemId: string) => {
     switch (itemId) {
       case "new-chat":
-        // Clear current chat
-        window.location.reload()
+        handleNewChat()
         break
       case "history":
         setHistoryModalOpen(true)
@@ -277,8 +414,9 @@ const ChatBotDemo = () => {
     <div className="flex h-screen">
       <Sidebar className="hidden md:flex" onNavigate={handleNavigation} />
       <div className="flex-1 p-6 relative overflow-hidden">
-        <div className="absolute top-4 right-4 z-10">
+        <div className="absolute top-4 right-4 z-10 flex items-center gap-3">
           <SolanaStatus />
+          <WalletButton />
         </div>
         <MobileSidebar onNavigate={handleNavigation} />
         <div className="flex flex-col h-full">
@@ -293,6 +431,7 @@ const ChatBotDemo = () => {
                 .map((part: any) => ({
                   title: part.title || part.source?.title || part.url || part.source?.url,
                   href: part.url || part.source?.url,
+                  snippet: part.providerMetadata?.webSearch?.snippet,
                 }))
                 .filter((s) => !!s.href)
 
@@ -323,10 +462,10 @@ const ChatBotDemo = () => {
                 })
 
               // Merge and deduplicate sources by href
-              const sourcesMap = new Map<string, { title: string; href: string }>()
+              const sourcesMap = new Map<string, CitationSource>()
               ;[...streamedSources, ...toolSources].forEach((s) => {
                 if (s && s.href && !sourcesMap.has(s.href)) {
-                  sourcesMap.set(s.href, s as { title: string; href: string })
+                  sourcesMap.set(s.href, s as CitationSource)
                 }
               })
               const sources = Array.from(sourcesMap.values())
@@ -348,7 +487,16 @@ const ChatBotDemo = () => {
                       {message.parts.map((part, i) => {
                         switch (part.type) {
                           case "text":
-                            return <Response key={`${message.id}-${i}`}>{part.text}</Response>
+                            return (
+                              <div key={`${message.id}-${i}`}>
+                                <Response>{part.text}</Response>
+                                {message.role === "assistant" && <SearchCitations text={part.text} sources={sources} />}
+                                {/* Links are only complete once the message has finished streaming */}
+                                {!(status === "streaming" && message.id === messages[messages.length - 1]?.id) && (
+                                  <BlinkLinks text={part.text} />
+                                )}
+                              </div>
+                            )
                           case "reasoning":
                             return (
                               <Reasoning key={`${message.id}-${i}`} className="mb-4" defaultOpen={false}>
@@ -358,44 +506,68 @@ const ChatBotDemo = () => {
                                 </ReasoningContent>
                               </Reasoning>
                             )
-                          case "tool-call":
+                          case "data-agent-step":
+                            return <AgentStep key={`${message.id}-${i}`} data={part.data as AgentStepData} />
+                          case "data-agent-plan":
+                            return <AgentPlan key={`${message.id}-${i}`} data={part.data as AgentPlanData} />
+                          case "data-tool-approval": {
+                            const { approvalId } = part.data as ToolApprovalData
+                            if (approvals.firstSeenIn.get(approvalId) !== message.id) return null
                             return (
-                              <Tool key={`${message.id}-${i}`} defaultOpen>
-                                <ToolHeader type={(part as any).toolName || 'Unknown'} state="input-available" />
-                                <ToolContent>
-                                  <ToolInput input={(part as any).args || {}} />
-                                </ToolContent>
-                              </Tool>
+                              <ToolApproval
+                                key={`${message.id}-${i}`}
+                                data={approvals.latest.get(approvalId) || (part.data as ToolApprovalData)}
+                                disabled={status !== "ready"}
+                                onDecision={handleApprovalDecision}
+                              />
                             )
-                          case "tool-result":
-                            // Find the corresponding tool call
-                            const toolCall = message.parts.find(
-                              (p) => p.type === "tool-call" && p.toolCallId === part.toolCallId
+                          }
+                          case "data-signing-request": {
+                            const { requestId } = part.data as SigningRequestData
+                            if (signingRequests.firstSeenIn.get(requestId) !== message.id) return null
+                            return (
+                              <SigningRequest
+                                key={`${message.id}-${i}`}
+                                data={signingRequests.latest.get(requestId) || (part.data as SigningRequestData)}
+                                disabled={status !== "ready"}
+                                onSettled={handleSigningSettled}
+                              />
                             )
-                            const toolName = toolCall ? (toolCall as any).toolName : "Unknown"
-                            const partResult = (part as any).result
-                            const hasError = partResult && typeof partResult === 'object' && 'error' in partResult
-                            
+                          }
+                          default: {
+                            // Static tools arrive as `tool-<name>` parts, MCP tools as `dynamic-tool`
+                            if (!part.type.startsWith("tool-") && part.type !== "dynamic-tool") return null
+                            const toolPart = part as ToolUIPart | DynamicToolUIPart
+                            const toolName =
+                              toolPart.type === "dynamic-tool" ? toolPart.toolName : toolPart.type.slice("tool-".length)
+                            const output = toolPart.state === "output-available" ? toolPart.output : undefined
+                            const outputError =
+                              output && typeof output === "object" && typeof (output as any).error === "string"
+                                ? (output as any).error
+                                : undefined
+
                             return (
-                              <Tool key={`${message.id}-${i}`} defaultOpen>
-                                <ToolHeader 
-                                  type={toolName} 
-                                  state={hasError ? "output-error" : "output-available"} 
+                              <Tool key={`${message.id}-${i}`} defaultOpen={toolPart.state !== "output-available"}>
+                                <ToolHeader
+                                  type={toolName as ToolUIPart["type"]}
+                                  state={outputError ? "output-error" : toolPart.state}
                                 />
                                 <ToolContent>
-                                  <ToolOutput 
+                                  <ToolInput input={toolPart.input || {}} />
+                                  <ToolOutput
                                     output={
-                                      typeof partResult === 'string' 
-                                        ? partResult 
-                                        : <pre className="text-xs overflow-x-auto">{JSON.stringify(partResult, null, 2)}</pre>
-                                    } 
-                                    errorText={hasError ? partResult.error : undefined}
+                                      output === undefined ? undefined : typeof output === "string" ? (
+                                        output
+                                      ) : (
+                                        <pre className="text-xs overflow-x-auto">{JSON.stringify(output, null, 2)}</pre>
+                                      )
+                                    }
+                                    errorText={toolPart.state === "output-error" ? toolPart.errorText : outputError}
                                   />
                                 </ToolContent>
                               </Tool>
                             )
-                          default:
-                            return null
+                          }
                         }
                       })}
                     </MessageContent>
@@ -448,6 +620,10 @@ const ChatBotDemo = () => {
                 <GlobeIcon size={16} />
                 <span>Search</span>
               </PromptInputButton>
+              <PromptInputButton onClick={() => setPlanner(!planner)} variant={planner ? "default" : "ghost"}>
+                <ListChecksIcon size={16} />
+                <span>Plan</span>
+              </PromptInputButton>
             </PromptInputTools>
             <div className="flex items-center gap-2">
               <PromptInputToolsSelect open={toolsOpen} onOpenChange={setToolsOpen} value="">
@@ -562,7 +738,12 @@ const ChatBotDemo = () => {
       </div>
 
       {/* Modals */}
-      <HistoryModal open={historyModalOpen} onOpenChange={setHistoryModalOpen} />
+      <HistoryModal
+        open={historyModalOpen}
+        onOpenChange={setHistoryModalOpen}
+        activeConversationId={conversationId}
+        onSelectConversation={handleSelectConversation}
+      />
       <AgentModal open={agentModalOpen} onOpenChange={setAgentModalOpen} />
       <MCPToolsModal open={mcpToolsModalOpen} onOpenChange={setMCPToolsModalOpen} />
       <ConnectionsModal open={connectionsModalOpen} onOpenChange={setConnectionsModalOpen} />
@@ -0,0 +1,69 @@
+"use client"
+
+import { Task, TaskContent, TaskItem, TaskItemFile, TaskTrigger } from "@/components/ai-elements/task"
+import type { AgentPlanData, ExecutionStep } from "@/lib/agent-orchestrator"
+
+interface AgentPlanProps {
+  data: AgentPlanData
+}
+
+type StepStatus = NonNullable<ExecutionStep["status"]>
+
+const statusLabels: Record<StepStatus, string> = {
+  pending: "Pending",
+  running: "Running",
+  completed: "Completed",
+  failed: "Failed",
+  skipped: "Skipped",
+}
+
+const statusColors: Record<StepStatus, string> = {
+  pending: "text-muted-foreground",
+  running: "text-blue-600",
+  completed: "text-green-600",
+  failed: "text-red-600",
+  skipped: "text-amber-600",
+}
+
+const actionLabels: Record<ExecutionStep["action"], string> = {
+  tool_call: "Tool",
+  reasoning: "Reasoning",
+  synthesis: "Answer",
+}
+
+export function AgentPlan({ data }: AgentPlanProps) {
+  const completed = data.steps.filter((step) => step.status === "completed").length
+  const title =
+    data.status === "planning"
+      ? "Planning…"
+      : data.status === "failed"
+        ? "Planning failed, answering directly"
+        : `Plan · ${completed}/${data.steps.length} steps${data.goal ? ` · ${data.goal}` : ""}`
+
+  return (
+    <Task className="mb-4" defaultOpen={data.status !== "completed"}>
+      <TaskTrigger title={title} />
+      <TaskContent>
+        {data.error && <TaskItem className="text-red-600/80">{data.error}</TaskItem>}
+        {data.steps.map((step) => {
+          const status = step.status || "pending"
+          return (
+            <TaskItem key={step.step} className="flex flex-wrap items-center gap-2">
+              <span className="text-muted-foreground">{step.step}.</span>
+              <span>{step.description || actionLabels[step.action]}</span>
+              {step.tool ? <TaskItemFile>{step.tool}</TaskItemFile> : <span className="text-xs">· {actionLabels[step.action]}</span>}
+              <span className={statusColors[status]}>{statusLabels[status]}</span>
+              {step.dependsOn && step.dependsOn.length > 0 && (
+                <span className="text-xs">· after {step.dependsOn.join(", ")}</span>
+              )}
+              {step.durationMs !== undefined && <span>· {(step.durationMs / 1000).toFixed(1)}s</span>}
+              {step.error && status !== "completed" && (
+                <span className="w-full text-xs text-red-600/80 truncate">{step.error}</span>
+              )}
+            </TaskItem>
+          )
+        })}
+      </TaskContent>
+    </Task>
+  )
+}
@@ -0,0 +1,55 @@
+"use client"
+
+import { Task, TaskContent, TaskItem, TaskItemFile, TaskTrigger } from "@/components/ai-elements/task"
+import type { AgentStepData, ToolExecutionRecord } from "@/lib/agent-executor"
+
+interface AgentStepProps {
+  data: AgentStepData
+}
+
+const statusLabels: Record<ToolExecutionRecord["status"], string> = {
+  queued: "Queued",
+  running: "Running",
+  retrying: "Retrying",
+  completed: "Completed",
+  failed: "Failed",
+  skipped: "Skipped",
+}
+
+const statusColors: Record<ToolExecutionRecord["status"], string> = {
+  queued: "text-muted-foreground",
+  running: "text-blue-600",
+  retrying: "text-amber-600",
+  completed: "text-green-600",
+  failed: "text-red-600",
+  skipped: "text-amber-600",
+}
+
+export function AgentStep({ data }: AgentStepProps) {
+  const toolCount = data.tools.length
+  const title = `Step ${data.step} of ${data.maxSteps} · ${toolCount} tool${toolCount === 1 ? "" : "s"}${
+    data.status === "running" ? " (running)" : ""
+  }`
+
+  return (
+    <Task className="mb-4" defaultOpen={data.status === "running"}>
+      <TaskTrigger title={title} />
+      <TaskContent>
+        {data.tools.map((record) => (
+          <TaskItem key={record.toolCallId} className="flex flex-wrap items-center gap-2">
+            <TaskItemFile>{record.toolName}</TaskItemFile>
+            <span className={statusColors[record.status]}>{statusLabels[record.status]}</span>
+            {record.attempts > 1 && <span>· attempt {record.attempts}</span>}
+            {record.durationMs !== undefined && <span>· {(record.durationMs / 1000).toFixed(1)}s</span>}
+            {record.strategy && record.status !== "completed" && (
+              <span className="text-xs">· {record.strategy.replace(/_/g, " ")}</span>
+            )}
+            {record.error && record.status !== "completed" && (
+              <span className="w-full text-xs text-red-600/80 truncate">{record.error}</span>
+            )}
+          </TaskItem>
+        ))}
+      </TaskContent>
+    </Task>
+  )
+}
@@ -0,0 +1,403 @@
+"use client"
+
+import { useEffect, useMemo, useState, type FormEvent } from "react"
+import bs58 from "bs58"
+import { useWallet } from "@solana/wallet-adapter-react"
+import type { ActionGetResponse, ActionPostResponse, LinkedAction, NextAction, NextActionLink } from "@solana/actions"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { SigningRequest } from "@/components/signing-request"
+import { fillActionHref, findActionLinks } from "@/lib/action-urls"
+import type { BlinkHostTrust, ProxiedAction, ProxiedPostResponse } from "@/lib/blink-proxy"
+import type { SigningRequestData } from "@/lib/signing-requests"
+
+type FormValues = Record<string, string | string[]>
+type TypedActionParameter = NonNullable<LinkedAction["parameters"]>[number]
+type SignMessageResponse = Extract<ActionPostResponse, { type: "message" }>
+
+// What the card waits on after an action was executed
+type Pending =
+  | { type: "transaction"; signingRequest: SigningRequestData; next?: NextActionLink }
+  | { type: "message"; text: string; response: SignMessageResponse }
+  | { type: "external-link"; href: string; next?: NextActionLink }
+
+interface BlinkCardProps {
+  url: string // solana-action: URL, interstitial link or action URL
+  disabled?: boolean
+}
+
+const trustLabels: Record<BlinkHostTrust, string> = {
+  own: "This app",
+  trusted: "Verified",
+  allowed: "Allow-listed",
+}
+
+const selectClassName = "h-9 w-full rounded-md border bg-transparent px-3 text-sm"
+
+const defaultValues = (parameters: TypedActionParameter[] = []): FormValues => {
+  const values: FormValues = {}
+  for (const parameter of parameters) {
+    if (!("options" in parameter)) continue
+    const selected = parameter.options.filter((option) => option.selected).map((option) => option.value)
+    if (parameter.type === "checkbox") values[parameter.name] = selected
+    else if (selected[0] !== undefined) values[parameter.name] = selected[0]
+  }
+  return values
+}
+
+export function BlinkCard({ url, disabled }: BlinkCardProps) {
+  const { publicKey, signMessage } = useWallet()
+  const [loaded, setLoaded] = useState<ProxiedAction<ActionGetResponse | NextAction> | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+  const [pending, setPending] = useState<Pending | null>(null)
+  const [values, setValues] = useState<Record<number, FormValues>>({})
+
+  useEffect(() => {
+    let cancelled = false
+    setLoaded(null)
+    setLoading(true)
+    setError(null)
+    setPending(null)
+
+    fetch(`/api/blinks/proxy?url=${encodeURIComponent(url)}`)
+      .then(async (response) => {
+        const result = await response.json()
+        if (!response.ok) throw new Error(result.error || "Failed to load Blink")
+        if (!cancelled) setLoaded(result)
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to load Blink")
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [url])
+
+  const account = publicKey?.toBase58()
+
+  const callProxy = async (body: Record<string, unknown>) => {
+    const response = await fetch("/api/blinks/proxy", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ account, ...body }),
+    })
+    const result = await response.json()
+    if (!response.ok) {
+      throw new Error(result.error || "Action failed")
+    }
+    return result
+  }
+
+  // Chained actions continue inline or through a callback that returns the next action
+  const followNext = async (link: NextActionLink | undefined, report: Record<string, unknown> = {}) => {
+    if (!link) return
+    if (link.type === "inline") {
+      setLoaded((current) => current && { ...current, action: link.action })
+    } else {
+      setLoaded(await callProxy({ href: link.href, callback: true, ...report }))
+    }
+    setValues({})
+  }
+
+  const execute = async (linked: LinkedAction, index: number) => {
+    if (!account) return
+    const formValues = { ...defaultValues(linked.parameters), ...values[index] }
+    setBusy(true)
+    setError(null)
+    setNotice(null)
+    setPending(null)
+    try {
+      const result: ProxiedPostResponse & { signingRequest?: SigningRequestData } = await callProxy({
+        href: fillActionHref(linked.href, formValues),
+        ...(linked.parameters?.length && { data: formValues }),
+      })
+      const { response } = result
+      if (response.message) setNotice(response.message)
+
+      switch (response.type) {
+        case "message":
+          setPending({ type: "message", text: result.messageText || "", response })
+          break
+        case "external-link":
+          setPending({ type: "external-link", href: response.externalLink, next: response.links?.next })
+          break
+        case "post":
+          await followNext(response.links?.next)
+          break
+        default:
+          if (result.signingRequest) {
+            setPending({ type: "transaction", signingRequest: result.signingRequest, next: response.links?.next })
+          }
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Action failed")
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  // The signing request stays on screen with its outcome; the card moves on to the next action
+  const handleSettled = async (request: SigningRequestData) => {
+    if (pending?.type !== "transaction" || request.status !== "confirmed") return
+    try {
+      await followNext(pending.next, { signature: request.signature })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load the next action")
+    }
+  }
+
+  const signPendingMessage = async () => {
+    if (pending?.type !== "message" || !signMessage) return
+    const { text, response } = pending
+    setBusy(true)
+    setError(null)
+    try {
+      const signature = await signMessage(new TextEncoder().encode(text))
+      setPending(null)
+      await followNext(response.links.next, {
+        signature: bs58.encode(signature),
+        data: response.data,
+        state: response.state,
+      })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Signing failed")
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const openExternalLink = async () => {
+    if (pending?.type !== "external-link") return
+    window.open(pending.href, "_blank", "noopener,noreferrer")
+    const { next } = pending
+    setPending(null)
+    try {
+      await followNext(next)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load the next action")
+    }
+  }
+
+  const setValue = (index: number, name: string, value: string | string[]) =>
+    setValues((current) => ({ ...current, [index]: { ...current[index], [name]: value } }))
+
+  if (loading) {
+    return <div className="mb-4 rounded-lg border p-4 text-sm text-muted-foreground">Loading Blink…</div>
+  }
+  if (!loaded) {
+    return (
+      <div className="mb-4 rounded-lg border p-4 space-y-1 text-sm">
+        <div className="text-xs text-red-600">{error}</div>
+        <div className="text-xs text-muted-foreground break-all">{url}</div>
+      </div>
+    )
+  }
+
+  const { action, actionUrl, host, trust, warnings } = loaded
+  const completed = action.type === "completed"
+  // An action without links is a single button posting to the action URL itself
+  const linkedActions: LinkedAction[] =
+    "links" in action && action.links?.actions?.length
+      ? action.links.actions
+      : [{ type: "transaction", label: action.label, href: actionUrl }]
+  const inactive = disabled || busy || !account || action.disabled || pending?.type === "message"
+
+  return (
+    <div className="mb-4 rounded-lg border overflow-hidden text-sm max-w-md">
+      {action.icon && <img src={action.icon} alt={action.title} className="w-full aspect-square object-cover" />}
+      <div className="p-4 space-y-3">
+        <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+          <span className="truncate">{host}</span>
+          <Badge variant={trust === "allowed" ? "outline" : "secondary"}>{trustLabels[trust]}</Badge>
+        </div>
+        <div>
+          <div className="font-medium">{action.title}</div>
+          <div className="text-xs text-muted-foreground whitespace-pre-line">{action.description}</div>
+        </div>
+
+        {action.error?.message && <div className="text-xs text-red-600">{action.error.message}</div>}
+
+        {completed ? (
+          <Badge>Completed</Badge>
+        ) : (
+          <div className="space-y-3">
+            {linkedActions.map((linked, index) =>
+              linked.parameters?.length ? (
+                <form
+                  key={`${linked.href}-${index}`}
+                  className="space-y-2"
+                  onSubmit={(event: FormEvent) => {
+                    event.preventDefault()
+                    execute(linked, index)
+                  }}
+                >
+                  {linked.parameters.map((parameter) => (
+                    <ParameterInput
+                      key={parameter.name}
+                      parameter={parameter}
+                      value={values[index]?.[parameter.name] ?? defaultValues([parameter])[parameter.name]}
+                      onChange={(value) => setValue(index, parameter.name, value)}
+                    />
+                  ))}
+                  <Button type="submit" size="sm" className="w-full" disabled={inactive}>
+                    {linked.label}
+                  </Button>
+                </form>
+              ) : (
+                <Button
+                  key={`${linked.href}-${index}`}
+                  size="sm"
+                  variant="outline"
+                  className="w-full"
+                  disabled={inactive}
+                  onClick={() => execute(linked, index)}
+                >
+                  {linked.label}
+                </Button>
+              ),
+            )}
+            {!account && <div className="text-xs text-amber-600">Connect your wallet to use this Blink.</div>}
+          </div>
+        )}
+
+        {notice && <div className="text-xs text-muted-foreground">{notice}</div>}
+
+        {pending?.type === "transaction" && (
+          <SigningRequest data={pending.signingRequest} disabled={disabled} onSettled={handleSettled} />
+        )}
+        {pending?.type === "message" && (
+          <div className="rounded-md border p-3 space-y-2">
+            <pre className="text-xs whitespace-pre-wrap break-words">{pending.text}</pre>
+            <Button size="sm" onClick={signPendingMessage} disabled={busy || !signMessage}>
+              {busy ? "Waiting for wallet…" : "Sign message"}
+            </Button>
+          </div>
+        )}
+        {pending?.type === "external-link" && (
+          <Button size="sm" variant="outline" onClick={openExternalLink}>
+            Open {new URL(pending.href).host}
+          </Button>
+        )}
+
+        {error && <div className="text-xs text-red-600">{error}</div>}
+        {warnings.length > 0 && (
+          <div className="text-xs text-muted-foreground" title={warnings.map((w) => `${w.path}: ${w.message}`).join("\n")}>
+            {warnings.length} Actions spec warning{warnings.length === 1 ? "" : "s"}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+interface ParameterInputProps {
+  parameter: TypedActionParameter
+  value: string | string[] | undefined
+  onChange: (value: string | string[]) => void
+}
+
+function ParameterInput({ parameter, value, onChange }: ParameterInputProps) {
+  const label = parameter.label || parameter.name
+
+  if ("options" in parameter) {
+    if (parameter.type === "select") {
+      return (
+        <select
+          className={selectClassName}
+          aria-label={label}
+          required={parameter.required}
+          value={typeof value === "string" ? value : ""}
+          onChange={(e) => onChange(e.target.value)}
+        >
+          <option value="" disabled>
+            {label}
+          </option>
+          {parameter.options.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      )
+    }
+
+    const multiple = parameter.type === "checkbox"
+    const selected = Array.isArray(value) ? value : value ? [value] : []
+    return (
+      <fieldset className="space-y-1">
+        <legend className="text-xs font-medium">{label}</legend>
+        {parameter.options.map((option) => (
+          <label key={option.value} className="flex items-center gap-2 text-xs">
+            <input
+              type={multiple ? "checkbox" : "radio"}
+              name={parameter.name}
+              value={option.value}
+              required={!multiple && parameter.required}
+              checked={selected.includes(option.value)}
+              onChange={(e) =>
+                onChange(
+                  multiple
+                    ? e.target.checked
+                      ? [...selected, option.value]
+                      : selected.filter((item) => item !== option.value)
+                    : option.value,
+                )
+              }
+            />
+            {option.label}
+          </label>
+        ))}
+      </fieldset>
+    )
+  }
+
+  if (parameter.type === "textarea") {
+    return (
+      <Textarea
+        placeholder={label}
+        required={parameter.required}
+        value={typeof value === "string" ? value : ""}
+        onChange={(e) => onChange(e.target.value)}
+      />
+    )
+  }
+
+  return (
+    <Input
+      type={parameter.type || "text"}
+      placeholder={label}
+      required={parameter.required}
+      pattern={parameter.pattern}
+      title={parameter.patternDescription}
+      min={parameter.min as string | number | undefined}
+      max={parameter.max as string | number | undefined}
+      step={parameter.type === "number" ? "any" : undefined}
+      value={typeof value === "string" ? value : ""}
+      onChange={(e) => onChange(e.target.value)}
+    />
+  )
+}
+
+/**
+ * Blinks shared in a chat message, one card per action link
+ */
+export function BlinkLinks({ text, disabled }: { text: string; disabled?: boolean }) {
+  const links = useMemo(() => findActionLinks(text), [text])
+
+  return (
+    <>
+      {links.map((link) => (
+        <BlinkCard key={link} url={link} disabled={disabled} />
+      ))}
+    </>
+  )
+}
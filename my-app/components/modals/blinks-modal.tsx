@@ -16,6 +16,7 @@ import { Input } from "@/components/ui/input"
 import { Textarea } from "@/components/ui/textarea"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
+import { Progress } from "@/components/ui/progress"
 import { 
   BotIcon, 
   PlusIcon, 
@@ -35,13 +36,30 @@ import {
   SendIcon,
   ArrowRightLeftIcon,
   CoinsIcon,
+  DropletIcon,
   ImageIcon,
   CheckCircleIcon,
   AlertCircleIcon,
-  QrCodeIcon
+  QrCodeIcon,
+  TrendingUpIcon,
+  WalletIcon
 } from "lucide-react"
 import { blinksService } from "@/lib/blinks-service"
-import { ActionType } from "@/lib/blinks-types"
+import {
+  ActionChain,
+  ActionChainStep,
+  ActionType,
+  BlinkAnalyticsReport,
+  BlinkFunnel,
+  CHAIN_ENTRY_PATH,
+  encodeActionChain,
+  validateActionChain
+} from "@/lib/blinks-types"
+import { BLINK_OWNER_HEADER, HOSTED_ACTION_PARAM, HOSTED_BLINK_PATH } from "@/lib/blink-registry-types"
+import { checkActionEndpoint } from "@/lib/actions-spec-validator"
+import type { PaymentRequest, PaymentRequestKind } from "@/lib/solana-pay-types"
+import { BlinkCard } from "@/components/blink-card"
+import { SolanaPayRequest, qrCodeUrl } from "@/components/solana-pay-request"
 
 interface BlinksModalProps {
   open: boolean
@@ -60,6 +78,12 @@ interface BlinkAction {
     required?: boolean
     pattern?: string
   }>
+  useOutput?: string // Chained Blinks: parameter filled with what the previous step received
+  validation?: {
+    minAmount?: number
+    maxAmount?: number
+    allowedTokens?: string[]
+  }
 }
 
 interface BlinkConfig {
@@ -69,6 +93,7 @@ interface BlinkConfig {
   icon: string
   label?: string
   actions: BlinkAction[]
+  chained?: boolean // Run the actions in order, each after the previous one confirms
   endpoint: string
   network: "mainnet-beta" | "devnet" | "testnet"
   customization: {
@@ -83,6 +108,7 @@ interface BlinkConfig {
     requireWalletConnection: boolean
   }
   createdAt?: string
+  updatedAt?: string
 }
 
 const DEFAULT_BLINK_CONFIG: BlinkConfig = {
@@ -91,6 +117,7 @@ const DEFAULT_BLINK_CONFIG: BlinkConfig = {
   icon: "",
   label: "",
   actions: [],
+  chained: false,
   endpoint: "",
   network: "devnet",
   customization: {
@@ -107,6 +134,24 @@ const DEFAULT_BLINK_CONFIG: BlinkConfig = {
 }
 
 // Predefined Actions templates
+// Owner keys of Blinks saved from this browser; the registry hands each one out only once
+const OWNER_KEYS_STORAGE_KEY = 'solana-blink-owner-keys'
+
+const loadOwnerKeys = (): Record<string, string> => {
+  try {
+    return JSON.parse(localStorage.getItem(OWNER_KEYS_STORAGE_KEY) || '{}')
+  } catch {
+    return {}
+  }
+}
+
+const storeOwnerKey = (blinkId: string, ownerKey: string | null) => {
+  const ownerKeys = loadOwnerKeys()
+  if (ownerKey) ownerKeys[blinkId] = ownerKey
+  else delete ownerKeys[blinkId]
+  localStorage.setItem(OWNER_KEYS_STORAGE_KEY, JSON.stringify(ownerKeys))
+}
+
 const ACTION_TEMPLATES = [
   {
     type: ActionType.TRANSFER,
@@ -139,6 +184,16 @@ const ACTION_TEMPLATES = [
       { name: "amount", label: "Amount (SOL)", type: "number", required: true }
     ]
   },
+  {
+    type: ActionType.LIQUID_STAKE,
+    label: "Liquid Stake",
+    icon: DropletIcon,
+    endpoint: "/api/actions/liquid-stake",
+    parameters: [
+      { name: "lst", label: "LST (jitoSOL, mSOL, bSOL, INF)", type: "text", required: true },
+      { name: "amount", label: "Amount (SOL)", type: "number", required: true }
+    ]
+  },
   {
     type: ActionType.MINT_NFT,
     label: "Mint NFT",
@@ -163,20 +218,56 @@ export function BlinksModal({ open, onOpenChange }: BlinksModalProps) {
   const [selectedTemplate, setSelectedTemplate] = useState<string | null>(null)
   const [showQRCode, setShowQRCode] = useState(false)
   const [generatedUrl, setGeneratedUrl] = useState<string>("")  
+  const [previewStep, setPreviewStep] = useState(0)
+  const [analytics, setAnalytics] = useState<BlinkAnalyticsReport[]>([])
+  const [isLoadingAnalytics, setIsLoadingAnalytics] = useState(false)
+  const [actionUrlInput, setActionUrlInput] = useState("")
+  const [actionPreviewUrl, setActionPreviewUrl] = useState("")
+  const [paymentForm, setPaymentForm] = useState({ recipient: "", amount: "", splToken: "", label: "", memo: "" })
+  const [paymentRequest, setPaymentRequest] = useState<PaymentRequest | null>(null)
+  const [paymentError, setPaymentError] = useState<string | null>(null)
+  const [isCreatingPayment, setIsCreatingPayment] = useState(false)
 
-  // Load saved blinks from localStorage on mount
+  // Load saved blinks on mount: the local cache first, then the server registry
   useEffect(() => {
+    let cached: BlinkConfig[] = []
     const saved = localStorage.getItem('solana-blinks')
     if (saved) {
       try {
-        setSavedBlinks(JSON.parse(saved))
+        cached = JSON.parse(saved)
+        setSavedBlinks(cached)
       } catch (error) {
         console.error('Failed to load saved blinks:', error)
       }
     }
+
+    const syncRegistry = async () => {
+      const response = await fetch('/api/blinks')
+      if (!response.ok) throw new Error(`Registry returned status ${response.status}`)
+      const { blinks } = await response.json() as { blinks: Array<{ id: string; updatedAt: string }> }
+
+      const hosted = await Promise.all(blinks.map(async summary => {
+        const cachedBlink = cached.find(blink => blink.id === summary.id)
+        if (cachedBlink && cachedBlink.updatedAt === summary.updatedAt) return cachedBlink
+        const detail = await fetch(`/api/blinks/${summary.id}`)
+        if (!detail.ok) return cachedBlink
+        return toSavedBlink((await detail.json()).blink)
+      }))
+      // Blinks saved before the registry existed stay local-only
+      const localOnly = cached.filter(blink => !isHostedBlink(blink))
+      setSavedBlinks([...hosted.filter((blink): blink is BlinkConfig => !!blink), ...localOnly])
+    }
+    syncRegistry().catch(error => console.error('Failed to sync saved blinks:', error))
   }, [])
 
-  // Save blinks to localStorage when savedBlinks changes
+  // Refresh analytics whenever a tab that shows them opens
+  useEffect(() => {
+    if (open && (activeTab === "analytics" || activeTab === "manage")) {
+      loadAnalytics()
+    }
+  }, [open, activeTab])
+
+  // Cache blinks in localStorage when savedBlinks changes
   useEffect(() => {
     localStorage.setItem('solana-blinks', JSON.stringify(savedBlinks))
   }, [savedBlinks])
@@ -263,15 +354,37 @@ export function BlinksModal({ open, onOpenChange }: BlinksModalProps) {
     }))
   }
 
-  const saveBlink = () => {
-    const newBlink = {
-      ...blinkConfig,
-      id: `blink-${Date.now()}`,
-      createdAt: new Date().toISOString()
+  // The registry serves each saved Blink from its own hosted action endpoint
+  const isHostedBlink = (blink: BlinkConfig) =>
+    !!blink.id && blink.endpoint.replace(window.location.origin, "").startsWith(`${HOSTED_BLINK_PATH}/`)
+
+  const toSavedBlink = (blink: BlinkConfig): BlinkConfig => ({
+    ...DEFAULT_BLINK_CONFIG,
+    ...blink,
+    endpoint: `${window.location.origin}${blink.endpoint}`
+  })
+
+  const saveBlink = async () => {
+    // Someone else's Blink cannot be changed in place, so saving it registers a copy
+    const ownerKey = blinkConfig.id && isHostedBlink(blinkConfig) ? loadOwnerKeys()[blinkConfig.id] : undefined
+    try {
+      const response = await fetch(ownerKey ? `/api/blinks/${blinkConfig.id}` : '/api/blinks', {
+        method: ownerKey ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json', ...(ownerKey && { [BLINK_OWNER_HEADER]: ownerKey }) },
+        body: JSON.stringify({ blink: blinkConfig })
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || `Registry returned status ${response.status}`)
+
+      const savedBlink = toSavedBlink(data.blink)
+      if (data.ownerKey) storeOwnerKey(data.blink.id, data.ownerKey)
+      setSavedBlinks(prev => [savedBlink, ...prev.filter(blink => blink.id !== savedBlink.id)])
+      setTestResult({ success: true, message: `Blink saved and live at ${savedBlink.endpoint}` })
+      // Reset form
+      setBlinkConfig(DEFAULT_BLINK_CONFIG)
+    } catch (error) {
+      setTestResult({ success: false, message: error instanceof Error ? error.message : "Failed to save Blink" })
     }
-    setSavedBlinks(prev => [...prev, newBlink])
-    // Reset form
-    setBlinkConfig(DEFAULT_BLINK_CONFIG)
   }
 
   const loadBlink = (blink: BlinkConfig) => {
@@ -279,47 +392,161 @@ export function BlinksModal({ open, onOpenChange }: BlinksModalProps) {
     setActiveTab("create")
   }
 
-  const deleteBlink = (blinkId: string) => {
+  const deleteBlink = async (blinkId: string) => {
+    const blink = savedBlinks.find(candidate => candidate.id === blinkId)
+    if (blink && isHostedBlink(blink)) {
+      const ownerKey = loadOwnerKeys()[blinkId]
+      if (!ownerKey) {
+        setTestResult({ success: false, message: "Only the browser that saved this Blink can delete it" })
+        return
+      }
+      const response = await fetch(`/api/blinks/${blinkId}`, { method: 'DELETE', headers: { [BLINK_OWNER_HEADER]: ownerKey } })
+      if (!response.ok && response.status !== 404) {
+        setTestResult({ success: false, message: "Failed to delete Blink" })
+        return
+      }
+      storeOwnerKey(blinkId, null)
+    }
     setSavedBlinks(prev => prev.filter(blink => blink.id !== blinkId))
   }
 
+  const loadAnalytics = async () => {
+    setIsLoadingAnalytics(true)
+    try {
+      const response = await fetch('/api/blinks/analytics')
+      if (!response.ok) throw new Error(`Analytics returned status ${response.status}`)
+      const data = await response.json()
+      setAnalytics(data.analytics)
+    } catch (error) {
+      console.error('Failed to load Blink analytics:', error)
+    } finally {
+      setIsLoadingAnalytics(false)
+    }
+  }
+
+  // Built-in routes are tracked by route name, saved Blinks by registry id
+  const getBlinkName = (blinkId: string) =>
+    savedBlinks.find(blink => blink.id === blinkId)?.title || `${blinkId.charAt(0).toUpperCase()}${blinkId.slice(1)} Blink`
+
+  const getActionName = (blinkId: string, actionId: string) =>
+    savedBlinks.find(blink => blink.id === blinkId)?.actions.find(action => action.id === actionId)?.label || actionId
+
+  const updateValidation = (action: BlinkAction, field: string, value: number | string[] | undefined) => {
+    const validation = { ...action.validation, [field]: value }
+    const isEmpty = Object.values(validation).every(entry => entry === undefined)
+    updateAction(action.id, 'validation', isEmpty ? undefined : validation)
+  }
+
+  const buildActionChain = (config: BlinkConfig): ActionChain => ({
+    title: config.title,
+    description: config.description,
+    icon: config.icon,
+    steps: config.actions.map((action, index) => ({
+      type: action.type,
+      label: action.label,
+      href: action.href.replace(window.location.origin, ""),
+      parameters: action.parameters as ActionChainStep["parameters"],
+      ...(index > 0 && action.useOutput && { useOutput: { parameter: action.useOutput } })
+    }))
+  })
+
+  // Chained Blinks are served by the chain route, which hands out one step at a time
+  const getBlinkEndpoint = (config: BlinkConfig): string => {
+    if (!config.chained || config.actions.length === 0) return config.endpoint
+    const chain = buildActionChain(config)
+    if (!validateActionChain(chain)) {
+      throw new Error("Chained actions must use this app's /api/actions routes (up to 5 steps)")
+    }
+    return `${window.location.origin}${CHAIN_ENTRY_PATH}?chain=${encodeActionChain(chain)}`
+  }
+
   const generateBlinkUrl = async () => {
     setIsGenerating(true)
     try {
-      const blinkUrl = blinksService.generateBlinkUrl(blinkConfig.endpoint)
+      const blinkUrl = blinksService.generateBlinkUrl(getBlinkEndpoint(blinkConfig))
       setGeneratedUrl(blinkUrl)
       await navigator.clipboard.writeText(blinkUrl)
       // Show success feedback
       setTestResult({ success: true, message: "Blink URL copied to clipboard!" })
       setTimeout(() => setTestResult(null), 3000)
     } catch (error) {
-      setTestResult({ success: false, message: "Failed to generate URL" })
+      setTestResult({ success: false, message: error instanceof Error ? error.message : "Failed to generate URL" })
     } finally {
       setIsGenerating(false)
     }
   }
 
+  // Render a saved Blink through the same client that renders third-party links
+  const previewSavedBlink = (config: BlinkConfig) => {
+    try {
+      const actionUrl = new URL(getBlinkEndpoint(config), window.location.origin).href
+      setActionUrlInput(actionUrl)
+      setActionPreviewUrl(actionUrl)
+    } catch (error) {
+      setTestResult({ success: false, message: error instanceof Error ? error.message : "Failed to preview Blink" })
+    }
+  }
+
+  // Wallets POST {account} to a transaction request link without parameters, so only a parameterless action can back one;
+  // swaps are versioned Jupiter transactions that cannot carry the request's reference
+  const getPayableAction = (config: BlinkConfig) =>
+    isHostedBlink(config)
+      ? config.actions.find(action =>
+          action.type !== ActionType.SWAP && !action.parameters.some(parameter => parameter.required)
+        )
+      : undefined
+
+  const createPaymentRequest = async (kind: PaymentRequestKind) => {
+    setIsCreatingPayment(true)
+    setPaymentError(null)
+    try {
+      let body: Record<string, string | undefined>
+      if (kind === "transfer") {
+        const { recipient, amount, splToken, label, memo } = paymentForm
+        body = {
+          kind,
+          recipient: recipient.trim(),
+          amount: amount.trim() || undefined,
+          splToken: splToken.trim() || undefined,
+          label: label || undefined,
+          memo: memo || undefined
+        }
+      } else {
+        const action = getPayableAction(blinkConfig)
+        if (!action) throw new Error("Save a Blink with a non-swap action that needs no parameters first")
+        const link = new URL(blinkConfig.endpoint, window.location.origin)
+        link.searchParams.set(HOSTED_ACTION_PARAM, action.id)
+        body = { kind, link: link.href, label: blinkConfig.title || undefined }
+      }
+
+      const response = await fetch("/api/solana-pay", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body)
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || `Solana Pay returned status ${response.status}`)
+      setPaymentRequest(data.payment)
+    } catch (error) {
+      setPaymentError(error instanceof Error ? error.message : "Failed to create payment request")
+    } finally {
+      setIsCreatingPayment(false)
+    }
+  }
+
   const testBlink = async () => {
     setIsTesting(true)
     setTestResult(null)
     try {
-      // Test the endpoint
-      const response = await fetch(blinkConfig.endpoint, {
-        method: 'GET',
-        headers: {
-          'Accept': 'application/json'
-        }
-      })
-      
-      if (response.ok) {
-        const data = await response.json()
-        if (data.icon && data.title && data.description) {
-          setTestResult({ success: true, message: "Blink endpoint is working correctly!" })
-        } else {
-          setTestResult({ success: false, message: "Invalid response format from endpoint" })
-        }
+      // Test the endpoint against the Actions spec: headers and GET payload
+      const report = await checkActionEndpoint(getBlinkEndpoint(blinkConfig))
+      if (report.valid) {
+        const note = report.warnings.length > 0 ? ` (${report.warnings.length} warnings: ${report.warnings[0].message})` : ""
+        setTestResult({ success: true, message: `Blink endpoint is spec-compliant${note}` })
       } else {
-        setTestResult({ success: false, message: `Endpoint returned status ${response.status}` })
+        const [first] = report.errors
+        const more = report.errors.length > 1 ? ` (+${report.errors.length - 1} more)` : ""
+        setTestResult({ success: false, message: `${first.path ? `${first.path}: ` : ""}${first.message}${more}` })
       }
     } catch (error) {
       setTestResult({ success: false, message: "Failed to connect to endpoint" })
@@ -328,12 +555,64 @@ export function BlinksModal({ open, onOpenChange }: BlinksModalProps) {
     }
   }
 
+  // Totals across every tracked Blink for the Manage tab
+  const analyticsTotals = analytics.reduce(
+    (totals, report) => {
+      const requests = report.views + report.totalClicks
+      return {
+        clicks: totals.clicks + report.totalClicks,
+        confirmed: totals.confirmed + report.successfulTransactions,
+        landed: totals.landed + report.successfulTransactions + report.failedTransactions,
+        responseTimeTotal: totals.responseTimeTotal + report.averageResponseTime * requests,
+        requests: totals.requests + requests
+      }
+    },
+    { clicks: 0, confirmed: 0, landed: 0, responseTimeTotal: 0, requests: 0 }
+  )
+  const performanceSummary = {
+    clicks: analyticsTotals.clicks,
+    responseTime: analyticsTotals.requests > 0 ? Math.round(analyticsTotals.responseTimeTotal / analyticsTotals.requests) : 0,
+    successRate: analyticsTotals.landed > 0 ? `${((analyticsTotals.confirmed / analyticsTotals.landed) * 100).toFixed(1)}%` : "–"
+  }
+
+  const renderFunnel = (funnel: BlinkFunnel) => {
+    // Chain steps are posted to without a GET, so clicks can outnumber views
+    const base = Math.max(funnel.views, funnel.clicks, 1)
+    const stages = [
+      { label: "Views", value: funnel.views },
+      { label: "Clicks", value: funnel.clicks },
+      { label: "Transactions", value: funnel.transactions },
+      { label: "Confirmed", value: funnel.confirmed }
+    ]
+    return (
+      <div className="space-y-2">
+        {stages.map(stage => (
+          <div key={stage.label} className="space-y-1">
+            <div className="flex items-center justify-between text-xs">
+              <span>{stage.label}</span>
+              <span className="text-muted-foreground">
+                {stage.value.toLocaleString()} · {((stage.value / base) * 100).toFixed(1)}%
+              </span>
+            </div>
+            <Progress value={(stage.value / base) * 100} />
+          </div>
+        ))}
+        {funnel.failed > 0 && (
+          <p className="text-xs text-red-600">{funnel.failed} landed with an error</p>
+        )}
+      </div>
+    )
+  }
+
   const networkOptions = [
     { value: "mainnet-beta", label: "Mainnet", color: "bg-green-500" },
     { value: "devnet", label: "Devnet", color: "bg-yellow-500" },
     { value: "testnet", label: "Testnet", color: "bg-blue-500" }
   ]
 
+  const previewIndex = Math.min(previewStep, Math.max(blinkConfig.actions.length - 1, 0))
+  const previewAction = blinkConfig.actions[previewIndex]
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-6xl max-h-[90vh] overflow-hidden">
@@ -348,7 +627,7 @@ export function BlinksModal({ open, onOpenChange }: BlinksModalProps) {
         </DialogHeader>
 
         <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full h-full">
-          <TabsList className="grid w-full grid-cols-4">
+          <TabsList className="grid w-full grid-cols-5">
             <TabsTrigger value="create" className="flex items-center gap-2">
               <PlusIcon className="h-4 w-4" />
               Create
@@ -365,6 +644,10 @@ export function BlinksModal({ open, onOpenChange }: BlinksModalProps) {
               <BarChart3Icon className="h-4 w-4" />
               Manage
             </TabsTrigger>
+            <TabsTrigger value="analytics" className="flex items-center gap-2">
+              <TrendingUpIcon className="h-4 w-4" />
+              Analytics
+            </TabsTrigger>
           </TabsList>
 
           {/* Create Blink Tab */}
@@ -513,13 +796,24 @@ export function BlinksModal({ open, onOpenChange }: BlinksModalProps) {
                 <div>
                   <CardTitle className="text-lg">Actions Configuration</CardTitle>
                   <CardDescription>
-                    Define the interactive buttons and their parameters
+                    {blinkConfig.chained
+                      ? "Actions run in order; each step is offered once the previous one confirms"
+                      : "Define the interactive buttons and their parameters"}
                   </CardDescription>
                 </div>
-                <Button onClick={addAction} size="sm">
-                  <PlusIcon className="h-4 w-4 mr-2" />
-                  Add Custom
-                </Button>
+                <div className="flex items-center gap-4">
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      checked={!!blinkConfig.chained}
+                      onCheckedChange={(checked) => handleConfigChange('chained', checked)}
+                    />
+                    <span className="text-sm">Chain actions</span>
+                  </div>
+                  <Button onClick={addAction} size="sm">
+                    <PlusIcon className="h-4 w-4 mr-2" />
+                    Add Custom
+                  </Button>
+                </div>
               </CardHeader>
               <CardContent>
                 {blinkConfig.actions.length === 0 ? (
@@ -535,7 +829,7 @@ export function BlinksModal({ open, onOpenChange }: BlinksModalProps) {
                         <CardContent className="pt-4">
                           <div className="flex items-center justify-between mb-4">
                             <div className="flex items-center gap-2">
-                              <Badge variant="outline">Action {index + 1}</Badge>
+                              <Badge variant="outline">{blinkConfig.chained ? "Step" : "Action"} {index + 1}</Badge>
                               <Badge variant="secondary">{action.type || 'custom'}</Badge>
                             </div>
                             <Button
@@ -614,6 +908,68 @@ export function BlinksModal({ open, onOpenChange }: BlinksModalProps) {
                               ))}
                             </div>
                           </div>
+
+                          {action.type !== ActionType.CUSTOM && (
+                            <div className="mt-4 grid grid-cols-1 md:grid-cols-3 gap-4">
+                              <div className="space-y-2">
+                                <label className="text-sm font-medium">Min Amount</label>
+                                <Input
+                                  type="number"
+                                  placeholder="No minimum"
+                                  value={action.validation?.minAmount ?? ""}
+                                  onChange={(e) => updateValidation(action, 'minAmount', e.target.value === "" ? undefined : Number(e.target.value))}
+                                />
+                              </div>
+                              <div className="space-y-2">
+                                <label className="text-sm font-medium">Max Amount</label>
+                                <Input
+                                  type="number"
+                                  placeholder="No maximum"
+                                  value={action.validation?.maxAmount ?? ""}
+                                  onChange={(e) => updateValidation(action, 'maxAmount', e.target.value === "" ? undefined : Number(e.target.value))}
+                                />
+                              </div>
+                              <div className="space-y-2">
+                                <label className="text-sm font-medium">Allowed Tokens</label>
+                                <Input
+                                  placeholder="SOL, USDC or mint addresses"
+                                  defaultValue={action.validation?.allowedTokens?.join(", ") ?? ""}
+                                  onBlur={(e) => {
+                                    const tokens = e.target.value.split(",").map(token => token.trim()).filter(Boolean)
+                                    updateValidation(action, 'allowedTokens', tokens.length > 0 ? tokens : undefined)
+                                  }}
+                                />
+                              </div>
+                              <p className="text-xs text-muted-foreground md:col-span-3">
+                                Enforced by the hosted endpoint when the Blink is saved
+                              </p>
+                            </div>
+                          )}
+
+                          {blinkConfig.chained && index > 0 && (
+                            <div className="mt-4 space-y-2">
+                              <label className="text-sm font-medium">Use Output of Step {index}</label>
+                              <Select
+                                value={action.useOutput || "none"}
+                                onValueChange={(value) => updateAction(action.id, 'useOutput', value === "none" ? undefined : value)}
+                              >
+                                <SelectTrigger>
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value="none">Ask the user</SelectItem>
+                                  {action.parameters.filter(param => param.name).map(param => (
+                                    <SelectItem key={param.name} value={param.name}>
+                                      {param.label || param.name}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              <p className="text-xs text-muted-foreground">
+                                Fills this parameter with the amount step {index} paid to the user
+                              </p>
+                            </div>
+                          )}
                         </CardContent>
                       </Card>
                     ))}
@@ -781,7 +1137,46 @@ export function BlinksModal({ open, onOpenChange }: BlinksModalProps) {
                       {blinkConfig.description || "Your Blink description will appear here"}
                     </p>
                     <div className="space-y-2">
-                      {blinkConfig.actions.length > 0 ? (
+                      {blinkConfig.chained && previewAction ? (
+                        <>
+                          <div className="flex items-center justify-between text-xs text-muted-foreground">
+                            <span>Step {previewIndex + 1} of {blinkConfig.actions.length}</span>
+                            <div className="flex gap-1">
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                disabled={previewIndex === 0}
+                                onClick={() => setPreviewStep(previewIndex - 1)}
+                              >
+                                Back
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                disabled={previewIndex === blinkConfig.actions.length - 1}
+                                onClick={() => setPreviewStep(previewIndex + 1)}
+                              >
+                                Next
+                              </Button>
+                            </div>
+                          </div>
+                          {previewIndex > 0 && (
+                            <p className="text-xs text-muted-foreground">
+                              Offered after step {previewIndex} confirms
+                              {previewAction.useOutput && `; ${previewAction.useOutput} is filled with the amount it received`}
+                            </p>
+                          )}
+                          <Button
+                            className="w-full"
+                            style={{ 
+                              backgroundColor: blinkConfig.customization.primaryColor,
+                              borderRadius: blinkConfig.customization.borderRadius 
+                            }}
+                          >
+                            {previewAction.label}
+                          </Button>
+                        </>
+                      ) : blinkConfig.actions.length > 0 ? (
                         blinkConfig.actions.map((action) => (
                           <Button
                             key={action.id}
@@ -962,11 +1357,18 @@ export function BlinksModal({ open, onOpenChange }: BlinksModalProps) {
                                 >
                                   <EditIcon className="h-3 w-3" />
                                 </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => previewSavedBlink(blink)}
+                                >
+                                  <EyeIcon className="h-3 w-3" />
+                                </Button>
                                 <Button
                                   variant="ghost"
                                   size="sm"
                                   onClick={() => {
-                                    const blinkUrl = `https://dial.to/?action=solana-action:${encodeURIComponent(blink.endpoint)}`
+                                    const blinkUrl = blinksService.generateBlinkUrl(getBlinkEndpoint(blink))
                                     navigator.clipboard.writeText(blinkUrl)
                                   }}
                                 >
@@ -1027,6 +1429,19 @@ export function BlinksModal({ open, onOpenChange }: BlinksModalProps) {
                         {generatedUrl}
                       </div>
                     )}
+                    {showQRCode && generatedUrl && (
+                      <div className="flex flex-col items-center gap-2 p-2">
+                        <img src={qrCodeUrl(generatedUrl)} alt="Blink QR code" className="w-48 h-48 rounded bg-white" />
+                        <div className="flex gap-2">
+                          <Button size="sm" variant="outline" asChild>
+                            <a href={qrCodeUrl(generatedUrl, "png", true)}>Download PNG</a>
+                          </Button>
+                          <Button size="sm" variant="outline" asChild>
+                            <a href={qrCodeUrl(generatedUrl, "svg", true)}>Download SVG</a>
+                          </Button>
+                        </div>
+                      </div>
+                    )}
                   </div>
                   
                   <div className="border-t pt-4 mt-4">
@@ -1057,6 +1472,92 @@ export function BlinksModal({ open, onOpenChange }: BlinksModalProps) {
                       </div>
                     </div>
                   </div>
+
+                  <div className="border-t pt-4 mt-4">
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium">Open Any Blink</label>
+                      <form
+                        className="flex items-center gap-2"
+                        onSubmit={(e) => {
+                          e.preventDefault()
+                          setActionPreviewUrl(actionUrlInput.trim())
+                        }}
+                      >
+                        <Input
+                          placeholder="solana-action: URL or dial.to link"
+                          value={actionUrlInput}
+                          onChange={(e) => setActionUrlInput(e.target.value)}
+                        />
+                        <Button type="submit" variant="outline" size="sm" disabled={!actionUrlInput.trim()}>
+                          <EyeIcon className="h-4 w-4 mr-2" />
+                          Render
+                        </Button>
+                      </form>
+                      <p className="text-xs text-muted-foreground">
+                        Third-party actions load through a proxy that only allows hosts in the Dialect registry or our allow-list
+                      </p>
+                      {actionPreviewUrl && <BlinkCard url={actionPreviewUrl} />}
+                    </div>
+                  </div>
+
+                  <div className="border-t pt-4 mt-4">
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium">Solana Pay</label>
+                      <div className="grid grid-cols-2 gap-2">
+                        <Input
+                          className="col-span-2"
+                          placeholder="Recipient address"
+                          value={paymentForm.recipient}
+                          onChange={(e) => setPaymentForm(prev => ({ ...prev, recipient: e.target.value }))}
+                        />
+                        <Input
+                          placeholder="Amount (optional)"
+                          value={paymentForm.amount}
+                          onChange={(e) => setPaymentForm(prev => ({ ...prev, amount: e.target.value }))}
+                        />
+                        <Input
+                          placeholder="Token mint (SOL if empty)"
+                          value={paymentForm.splToken}
+                          onChange={(e) => setPaymentForm(prev => ({ ...prev, splToken: e.target.value }))}
+                        />
+                        <Input
+                          placeholder="Label"
+                          value={paymentForm.label}
+                          onChange={(e) => setPaymentForm(prev => ({ ...prev, label: e.target.value }))}
+                        />
+                        <Input
+                          placeholder="Memo"
+                          value={paymentForm.memo}
+                          onChange={(e) => setPaymentForm(prev => ({ ...prev, memo: e.target.value }))}
+                        />
+                      </div>
+                      <div className="grid grid-cols-2 gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => createPaymentRequest("transfer")}
+                          disabled={!paymentForm.recipient.trim() || isCreatingPayment}
+                        >
+                          <WalletIcon className="h-4 w-4 mr-2" />
+                          Transfer Request
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => createPaymentRequest("transaction")}
+                          disabled={!getPayableAction(blinkConfig) || isCreatingPayment}
+                        >
+                          <QrCodeIcon className="h-4 w-4 mr-2" />
+                          Transaction Request
+                        </Button>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        Transaction requests point wallets at the saved Blink loaded in the editor
+                      </p>
+                      {paymentError && <div className="text-xs text-red-600">{paymentError}</div>}
+                      {paymentRequest && <SolanaPayRequest payment={paymentRequest} />}
+                    </div>
+                  </div>
                   
                   <div className="border-t pt-4 mt-4">
                     <div className="space-y-2">
@@ -1064,15 +1565,15 @@ export function BlinksModal({ open, onOpenChange }: BlinksModalProps) {
                       <div className="grid grid-cols-1 gap-2">
                         <div className="flex items-center justify-between p-2 bg-muted rounded">
                           <span className="text-sm">Response Time</span>
-                          <Badge variant="secondary">~245ms</Badge>
+                          <Badge variant="secondary">~{performanceSummary.responseTime}ms</Badge>
                         </div>
                         <div className="flex items-center justify-between p-2 bg-muted rounded">
                           <span className="text-sm">Success Rate</span>
-                          <Badge variant="secondary">98.5%</Badge>
+                          <Badge variant="secondary">{performanceSummary.successRate}</Badge>
                         </div>
                         <div className="flex items-center justify-between p-2 bg-muted rounded">
                           <span className="text-sm">Total Clicks</span>
-                          <Badge variant="secondary">1,247</Badge>
+                          <Badge variant="secondary">{performanceSummary.clicks.toLocaleString()}</Badge>
                         </div>
                       </div>
                     </div>
@@ -1081,6 +1582,77 @@ export function BlinksModal({ open, onOpenChange }: BlinksModalProps) {
               </Card>
             </div>
           </TabsContent>
+
+          {/* Analytics Tab */}
+          <TabsContent value="analytics" className="space-y-6 overflow-y-auto max-h-[calc(90vh-200px)]">
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between">
+                <div>
+                  <CardTitle className="text-lg">Blink Analytics</CardTitle>
+                  <CardDescription>
+                    From view to confirmed transaction, per Blink and per action
+                  </CardDescription>
+                </div>
+                <Button variant="outline" size="sm" onClick={loadAnalytics} disabled={isLoadingAnalytics}>
+                  <RefreshCwIcon className={`h-4 w-4 mr-2 ${isLoadingAnalytics ? "animate-spin" : ""}`} />
+                  Refresh
+                </Button>
+              </CardHeader>
+              <CardContent>
+                {analytics.length === 0 ? (
+                  <div className="text-center py-8 text-muted-foreground">
+                    <TrendingUpIcon className="h-12 w-12 mx-auto mb-2 opacity-50" />
+                    <p>No Blink activity yet</p>
+                    <p className="text-sm">Views and transactions appear here once your Blinks are used</p>
+                  </div>
+                ) : (
+                  <div className="space-y-4">
+                    {analytics.map(report => (
+                      <Card key={report.blinkId} className="border border-border">
+                        <CardContent className="pt-4 space-y-4">
+                          <div className="flex items-start justify-between">
+                            <div>
+                              <h4 className="font-medium text-sm">{getBlinkName(report.blinkId)}</h4>
+                              {report.lastUsed && (
+                                <p className="text-xs text-muted-foreground mt-1">
+                                  Last used {new Date(report.lastUsed).toLocaleString()}
+                                </p>
+                              )}
+                            </div>
+                            <div className="flex items-center gap-2">
+                              <Badge variant="outline" className="text-xs">{report.uniqueUsers} users</Badge>
+                              <Badge variant="secondary" className="text-xs">~{report.averageResponseTime}ms</Badge>
+                            </div>
+                          </div>
+
+                          {renderFunnel(report.funnel)}
+
+                          {report.actions.length > 0 && (
+                            <div className="border-t pt-3">
+                              <label className="text-sm font-medium mb-2 block">By Action</label>
+                              <div className="space-y-1">
+                                {report.actions.map(({ actionId, funnel }) => (
+                                  <div key={actionId} className="grid grid-cols-5 gap-2 p-2 bg-muted rounded text-xs">
+                                    <span className="font-medium truncate">{getActionName(report.blinkId, actionId)}</span>
+                                    <span>{funnel.clicks} clicks</span>
+                                    <span>{funnel.transactions} txs</span>
+                                    <span>{funnel.confirmed} confirmed</span>
+                                    <span className="text-right">
+                                      {funnel.clicks > 0 ? `${((funnel.confirmed / funnel.clicks) * 100).toFixed(1)}%` : "–"}
+                                    </span>
+                                  </div>
+                                ))}
+                              </div>
+                            </div>
+                          )}
+                        </CardContent>
+                      </Card>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
         </Tabs>
       </DialogContent>
     </Dialog>
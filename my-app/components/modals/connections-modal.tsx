@@ -1,6 +1,7 @@
 "use client"
 
 import React, { useState } from "react"
+import Image from "next/image"
 import {
   Dialog,
   DialogContent,
@@ -11,21 +12,37 @@ import {
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Badge } from "@/components/ui/badge"
-import { Switch } from "@/components/ui/switch"
-import { LinkIcon, PlusIcon, TrashIcon, CheckCircleIcon, XCircleIcon } from "lucide-react"
+import { LinkIcon, PlusIcon, TrashIcon, CheckCircleIcon, XCircleIcon, EyeIcon } from "lucide-react"
+import { useWallet } from "@solana/wallet-adapter-react"
+import { useWalletConnections } from "@/components/wallet-provider"
+import { WalletConnectionError } from "@/lib/wallet-connections"
 
 interface ConnectionsModalProps {
   open: boolean
   onOpenChange: (open: boolean) => void
 }
 
+const shorten = (address: string) => `${address.slice(0, 4)}…${address.slice(-4)}`
+
 export function ConnectionsModal({ open, onOpenChange }: ConnectionsModalProps) {
-  const [connections, setConnections] = useState([
-    { id: 1, name: "Phantom Wallet", type: "wallet", status: "connected", enabled: true },
-    { id: 2, name: "Solflare", type: "wallet", status: "disconnected", enabled: false },
-    { id: 3, name: "Jupiter Exchange", type: "dex", status: "connected", enabled: true },
-    { id: 4, name: "Magic Eden", type: "marketplace", status: "connected", enabled: true },
-  ])
+  const { select, connecting } = useWallet()
+  const { connections, active, connectedAddress, detectedWallets, activate, remove, addWatchAddress } =
+    useWalletConnections()
+  const [watchAddress, setWatchAddress] = useState("")
+  const [watchLabel, setWatchLabel] = useState("")
+  const [error, setError] = useState<string | null>(null)
+
+  const handleAddWatch = (e: React.FormEvent) => {
+    e.preventDefault()
+    try {
+      addWatchAddress(watchAddress, watchLabel)
+      setWatchAddress("")
+      setWatchLabel("")
+      setError(null)
+    } catch (err) {
+      setError(err instanceof WalletConnectionError ? err.message : "Failed to add address")
+    }
+  }
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -36,54 +53,107 @@ export function ConnectionsModal({ open, onOpenChange }: ConnectionsModalProps)
             Connections
           </DialogTitle>
           <DialogDescription>
-            Manage your wallet and service connections
+            Connect wallets and watch addresses. The active account is used whenever you ask about &quot;my wallet&quot;.
           </DialogDescription>
         </DialogHeader>
 
-        <div className="space-y-4">
-          <div className="flex justify-end">
-            <Button size="sm">
-              <PlusIcon className="h-4 w-4 mr-2" />
-              Add Connection
-            </Button>
+        <div className="space-y-6">
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium">Detected wallets</h3>
+            {detectedWallets.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No Solana wallet detected. Install Phantom, Solflare or Backpack and reload the page.
+              </p>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {detectedWallets.map(({ adapter }) => (
+                  <Button
+                    key={adapter.name}
+                    variant="outline"
+                    size="sm"
+                    disabled={connecting}
+                    onClick={() => select(adapter.name)}
+                  >
+                    <Image src={adapter.icon} alt={adapter.name} width={16} height={16} unoptimized />
+                    {adapter.name}
+                  </Button>
+                ))}
+              </div>
+            )}
           </div>
 
-          <div className="space-y-3">
-            {connections.map((connection) => (
-              <div key={connection.id} className="p-4 rounded-lg border">
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center gap-3">
-                    {connection.status === "connected" ? (
-                      <CheckCircleIcon className="h-5 w-5 text-green-600" />
-                    ) : (
-                      <XCircleIcon className="h-5 w-5 text-gray-400" />
-                    )}
-                    <div>
-                      <p className="font-medium">{connection.name}</p>
-                      <Badge variant="outline" className="mt-1">
-                        {connection.type}
-                      </Badge>
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium">Accounts</h3>
+            {connections.length === 0 && (
+              <p className="text-sm text-muted-foreground">
+                No accounts yet. Connect a wallet or add a watch address below.
+              </p>
+            )}
+            <div className="space-y-3">
+              {connections.map((connection) => {
+                const isConnected = connection.kind === "wallet" && connection.address === connectedAddress
+                const isActive = connection.id === active?.id
+                return (
+                  <div key={connection.id} className="p-4 rounded-lg border">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-3">
+                        {connection.kind === "watch" ? (
+                          <EyeIcon className="h-5 w-5 text-muted-foreground" />
+                        ) : isConnected ? (
+                          <CheckCircleIcon className="h-5 w-5 text-green-600" />
+                        ) : (
+                          <XCircleIcon className="h-5 w-5 text-gray-400" />
+                        )}
+                        <div>
+                          <p className="font-medium">{connection.label}</p>
+                          <p className="text-xs font-mono text-muted-foreground">{shorten(connection.address)}</p>
+                          <div className="flex gap-1 mt-1">
+                            <Badge variant="outline">{connection.kind === "watch" ? "watch-only" : "wallet"}</Badge>
+                            {isActive && <Badge>active</Badge>}
+                          </div>
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-3">
+                        {!isActive && (
+                          <Button variant="outline" size="sm" onClick={() => activate(connection)}>
+                            Use
+                          </Button>
+                        )}
+                        <Button variant="ghost" size="sm" onClick={() => remove(connection)}>
+                          <TrashIcon className="h-4 w-4 text-red-600" />
+                        </Button>
+                      </div>
                     </div>
                   </div>
-                  <div className="flex items-center gap-3">
-                    <Switch
-                      checked={connection.enabled}
-                      onCheckedChange={(checked) => {
-                        setConnections(connections.map(c => 
-                          c.id === connection.id ? { ...c, enabled: checked } : c
-                        ))
-                      }}
-                    />
-                    <Button variant="ghost" size="sm">
-                      <TrashIcon className="h-4 w-4 text-red-600" />
-                    </Button>
-                  </div>
-                </div>
-              </div>
-            ))}
+                )
+              })}
+            </div>
           </div>
+
+          <form onSubmit={handleAddWatch} className="space-y-2">
+            <h3 className="text-sm font-medium">Add watch address</h3>
+            <div className="flex gap-2">
+              <Input
+                placeholder="Solana address"
+                value={watchAddress}
+                onChange={(e) => setWatchAddress(e.target.value)}
+                className="font-mono"
+              />
+              <Input
+                placeholder="Label (optional)"
+                value={watchLabel}
+                onChange={(e) => setWatchLabel(e.target.value)}
+                className="max-w-40"
+              />
+              <Button type="submit" size="sm" disabled={!watchAddress.trim()}>
+                <PlusIcon className="h-4 w-4 mr-2" />
+                Add
+              </Button>
+            </div>
+            {error && <p className="text-xs text-red-600">{error}</p>}
+          </form>
         </div>
       </DialogContent>
     </Dialog>
   )
-}
\ No newline at end of file
+}
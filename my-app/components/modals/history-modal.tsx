@@ -1,6 +1,6 @@
 "use client"
 
-import React from "react"
+import React, { useState, useEffect, useCallback } from "react"
 import {
   Dialog,
   DialogContent,
@@ -10,22 +10,91 @@ import {
 } from "@/components/ui/dialog"
 import { ScrollArea } from "@/components/ui/scroll-area"
 import { Badge } from "@/components/ui/badge"
-import { HistoryIcon, MessageSquareIcon } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { HistoryIcon, MessageSquareIcon, SearchIcon, PencilIcon, TrashIcon, CheckIcon, XIcon, RefreshCwIcon } from "lucide-react"
+import type { ConversationSearchResult, ConversationSummary } from "@/lib/conversation-types"
 
 interface HistoryModalProps {
   open: boolean
   onOpenChange: (open: boolean) => void
+  activeConversationId?: string
+  onSelectConversation?: (id: string) => void
 }
 
-export function HistoryModal({ open, onOpenChange }: HistoryModalProps) {
-  // Mock chat history data - replace with actual data fetching
-  const chatHistory = [
-    { id: 1, title: "Solana Token Creation", date: "2 hours ago", messages: 12 },
-    { id: 2, title: "DeFi Protocol Analysis", date: "Yesterday", messages: 45 },
-    { id: 3, title: "NFT Collection Review", date: "2 days ago", messages: 23 },
-    { id: 4, title: "Yield Farming Strategies", date: "3 days ago", messages: 67 },
-    { id: 5, title: "Smart Contract Audit", date: "1 week ago", messages: 89 },
-  ]
+type HistoryEntry = ConversationSummary & Partial<Pick<ConversationSearchResult, "matches">>
+
+const formatRelativeTime = (iso: string) => {
+  const diff = Date.now() - new Date(iso).getTime()
+  const minutes = Math.floor(diff / 60000)
+  if (minutes < 1) return "Just now"
+  if (minutes < 60) return `${minutes} minute${minutes === 1 ? "" : "s"} ago`
+  const hours = Math.floor(minutes / 60)
+  if (hours < 24) return `${hours} hour${hours === 1 ? "" : "s"} ago`
+  const days = Math.floor(hours / 24)
+  if (days === 1) return "Yesterday"
+  if (days < 7) return `${days} days ago`
+  return new Date(iso).toLocaleDateString()
+}
+
+export function HistoryModal({ open, onOpenChange, activeConversationId, onSelectConversation }: HistoryModalProps) {
+  const [chatHistory, setChatHistory] = useState<HistoryEntry[]>([])
+  const [loading, setLoading] = useState(false)
+  const [searchQuery, setSearchQuery] = useState("")
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editingTitle, setEditingTitle] = useState("")
+
+  const fetchHistory = useCallback(async (query: string) => {
+    setLoading(true)
+    try {
+      const params = query ? `?q=${encodeURIComponent(query)}` : ""
+      const response = await fetch(`/api/conversations${params}`)
+      const data = await response.json()
+      setChatHistory(data.conversations || [])
+    } catch (error) {
+      console.error("Failed to load chat history:", error)
+      setChatHistory([])
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  // Refresh when the modal opens and debounce search input
+  useEffect(() => {
+    if (!open) return
+    const timeout = setTimeout(() => fetchHistory(searchQuery.trim()), searchQuery ? 300 : 0)
+    return () => clearTimeout(timeout)
+  }, [open, searchQuery, fetchHistory])
+
+  const handleRename = async (id: string) => {
+    const title = editingTitle.trim()
+    if (!title) return
+    try {
+      const response = await fetch(`/api/conversations/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ title }),
+      })
+      if (response.ok) {
+        setChatHistory((prev) => prev.map((chat) => (chat.id === id ? { ...chat, title } : chat)))
+      }
+    } catch (error) {
+      console.error("Failed to rename conversation:", error)
+    } finally {
+      setEditingId(null)
+    }
+  }
+
+  const handleDelete = async (id: string) => {
+    try {
+      const response = await fetch(`/api/conversations/${id}`, { method: "DELETE" })
+      if (response.ok) {
+        setChatHistory((prev) => prev.filter((chat) => chat.id !== id))
+      }
+    } catch (error) {
+      console.error("Failed to delete conversation:", error)
+    }
+  }
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -39,27 +108,94 @@ export function HistoryModal({ open, onOpenChange }: HistoryModalProps) {
             View and continue your previous conversations
           </DialogDescription>
         </DialogHeader>
+        <div className="flex gap-2">
+          <div className="relative flex-1">
+            <SearchIcon className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search conversations..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="pl-9"
+            />
+          </div>
+          <Button variant="outline" size="sm" onClick={() => fetchHistory(searchQuery.trim())} disabled={loading}>
+            <RefreshCwIcon className={`h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+          </Button>
+        </div>
         <ScrollArea className="h-[500px] pr-4">
           <div className="space-y-3">
+            {!loading && chatHistory.length === 0 && (
+              <div className="text-center py-8 text-sm text-muted-foreground">
+                {searchQuery ? "No conversations match your search" : "No saved conversations yet"}
+              </div>
+            )}
             {chatHistory.map((chat) => (
               <div
                 key={chat.id}
-                className="p-4 rounded-lg border hover:bg-accent cursor-pointer transition-colors"
+                className={`p-4 rounded-lg border hover:bg-accent cursor-pointer transition-colors ${
+                  chat.id === activeConversationId ? "border-primary" : ""
+                }`}
                 onClick={() => {
-                  // Handle chat selection
-                  console.log("Selected chat:", chat.id)
+                  if (editingId === chat.id) return
+                  onSelectConversation?.(chat.id)
                   onOpenChange(false)
                 }}
               >
                 <div className="flex items-start justify-between">
-                  <div className="flex-1">
-                    <h4 className="font-medium">{chat.title}</h4>
-                    <p className="text-sm text-muted-foreground mt-1">{chat.date}</p>
+                  <div className="flex-1 min-w-0">
+                    {editingId === chat.id ? (
+                      <div className="flex items-center gap-2" onClick={(e) => e.stopPropagation()}>
+                        <Input
+                          value={editingTitle}
+                          onChange={(e) => setEditingTitle(e.target.value)}
+                          onKeyDown={(e) => {
+                            if (e.key === "Enter") handleRename(chat.id)
+                            if (e.key === "Escape") setEditingId(null)
+                          }}
+                          autoFocus
+                        />
+                        <Button variant="ghost" size="sm" onClick={() => handleRename(chat.id)}>
+                          <CheckIcon className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => setEditingId(null)}>
+                          <XIcon className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ) : (
+                      <h4 className="font-medium truncate">{chat.title}</h4>
+                    )}
+                    <p className="text-sm text-muted-foreground mt-1">{formatRelativeTime(chat.updatedAt)}</p>
+                    {chat.matches && chat.matches.length > 0 ? (
+                      <div className="mt-2 space-y-1">
+                        {chat.matches.map((match) => (
+                          <p key={match.messageId} className="text-xs text-muted-foreground line-clamp-2">
+                            <span className="font-medium">{match.role === "user" ? "You" : "AI"}:</span> {match.snippet}
+                          </p>
+                        ))}
+                      </div>
+                    ) : chat.preview ? (
+                      <p className="text-xs text-muted-foreground mt-2 line-clamp-2">{chat.preview}</p>
+                    ) : null}
+                  </div>
+                  <div className="flex items-center gap-1 ml-2" onClick={(e) => e.stopPropagation()}>
+                    <Badge variant="secondary">
+                      <MessageSquareIcon className="h-3 w-3 mr-1" />
+                      {chat.messageCount}
+                    </Badge>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => {
+                        setEditingId(chat.id)
+                        setEditingTitle(chat.title)
+                      }}
+                    >
+                      <PencilIcon className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(chat.id)}>
+                      <TrashIcon className="h-4 w-4 text-red-600" />
+                    </Button>
                   </div>
-                  <Badge variant="secondary" className="ml-2">
-                    <MessageSquareIcon className="h-3 w-3 mr-1" />
-                    {chat.messages}
-                  </Badge>
                 </div>
               </div>
             ))}
@@ -68,4 +204,4 @@ export function HistoryModal({ open, onOpenChange }: HistoryModalProps) {
       </DialogContent>
     </Dialog>
   )
-}
\ No newline at end of file
+}
@@ -12,52 +12,46 @@ import { Card } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
-import { TrendingUpIcon, TrendingDownIcon, WalletIcon, DollarSignIcon, SearchIcon, RefreshCwIcon, SendIcon, ArrowRightLeftIcon, CoinsIcon, ExternalLinkIcon } from "lucide-react"
-import { Connection, PublicKey, LAMPORTS_PER_SOL } from "@solana/web3.js"
+import { TrendingUpIcon, TrendingDownIcon, WalletIcon, DollarSignIcon, SearchIcon, RefreshCwIcon, SendIcon, ArrowRightLeftIcon, CoinsIcon, ExternalLinkIcon, ShieldAlertIcon } from "lucide-react"
+import { PublicKey } from "@solana/web3.js"
 import { SOLANA_CONFIG } from "@/lib/solana-config"
+import type { Portfolio, PortfolioHolding } from "@/lib/portfolio-service"
+import type { WalletPnlReport } from "@/lib/pnl-types"
+import { PortfolioChart } from "@/components/portfolio-chart"
+import { useWalletConnections } from "@/components/wallet-provider"
 
 interface PortfolioModalProps {
   open: boolean
   onOpenChange: (open: boolean) => void
 }
 
-interface Asset {
-  symbol: string
-  amount: string
-  value: string
-  change: string
-  address?: string
-  decimals?: number
-}
+const formatUsd = (value: number) =>
+  `${value < 0 ? "-" : ""}$${Math.abs(value).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
 
-interface Portfolio {
-  totalValue: string
-  change24h: string
-  changePercent: string
-  assets: Asset[]
-  walletAddress?: string
-}
+const formatPercent = (value: number) => `${value > 0 ? "+" : ""}${value.toFixed(2)}%`
+
+const formatAmount = (holding: PortfolioHolding) =>
+  holding.amount.toLocaleString("en-US", { maximumFractionDigits: Math.min(holding.decimals, 6) })
 
 export function PortfolioModal({ open, onOpenChange }: PortfolioModalProps) {
+  const { activeAddress } = useWalletConnections()
   const [walletAddress, setWalletAddress] = useState("")
-  const [portfolio, setPortfolio] = useState<Portfolio>({
-    totalValue: "$0.00",
-    change24h: "$0.00",
-    changePercent: "0%",
-    assets: [],
-    walletAddress: ""
-  })
+  const [portfolio, setPortfolio] = useState<Portfolio | null>(null)
+  const [error, setError] = useState<string | null>(null)
   const [loading, setLoading] = useState(false)
   const [inputAddress, setInputAddress] = useState("")
+  const [pnl, setPnl] = useState<WalletPnlReport | null>(null)
+  const [pnlLoading, setPnlLoading] = useState(false)
+  const [pnlError, setPnlError] = useState<string | null>(null)
   
-  // Load saved wallet address
+  // Load saved wallet address, falling back to the active wallet
   useEffect(() => {
-    const saved = localStorage.getItem('portfolio-wallet')
+    const saved = localStorage.getItem('portfolio-wallet') || activeAddress
     if (saved) {
       setWalletAddress(saved)
       setInputAddress(saved)
     }
-  }, [])
+  }, [activeAddress])
   
   // Fetch portfolio when wallet address changes or modal opens
   useEffect(() => {
@@ -66,74 +60,44 @@ export function PortfolioModal({ open, onOpenChange }: PortfolioModalProps) {
     }
   }, [open, walletAddress])
   
+  // History backfill is slow, so PnL is only computed on request
+  const fetchPnl = async (address: string) => {
+    setPnlLoading(true)
+    setPnlError(null)
+    try {
+      const response = await fetch(`/api/portfolio/pnl?owner=${encodeURIComponent(address)}`)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to analyze wallet performance")
+      }
+      setPnl(data.report)
+    } catch (error) {
+      console.error('Failed to fetch PnL:', error)
+      setPnlError(error instanceof Error ? error.message : "Failed to analyze wallet performance")
+    } finally {
+      setPnlLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    setPnl(null)
+    setPnlError(null)
+  }, [walletAddress])
+
   const fetchPortfolio = async (address: string) => {
     setLoading(true)
+    setError(null)
     try {
-      const connection = new Connection(SOLANA_CONFIG.rpcUrl[SOLANA_CONFIG.network])
-      const pubkey = new PublicKey(address)
-      
-      // Get SOL balance
-      const balance = await connection.getBalance(pubkey)
-      const solBalance = balance / LAMPORTS_PER_SOL
-      
-      // Mock token prices (in production, fetch from CoinGecko)
-      const solPrice = Math.random() * 150 + 50 // $50-200
-      const solValue = solBalance * solPrice
-      
-      // Mock other token balances (in production, fetch SPL token accounts)
-      const mockAssets: Asset[] = [
-        { 
-          symbol: "SOL", 
-          amount: solBalance.toFixed(4), 
-          value: `$${solValue.toFixed(2)}`, 
-          change: `${(Math.random() * 20 - 10).toFixed(1)}%`,
-          address: "So11111111111111111111111111111111111111112"
-        }
-      ]
-      
-      // Add some mock SPL tokens randomly
-      if (Math.random() > 0.3) {
-        mockAssets.push({
-          symbol: "USDC",
-          amount: (Math.random() * 5000).toFixed(2),
-          value: `$${(Math.random() * 5000).toFixed(2)}`,
-          change: "0%",
-          address: "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v"
-        })
+      const response = await fetch(`/api/portfolio?owner=${encodeURIComponent(address)}`)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load portfolio")
       }
-      
-      if (Math.random() > 0.5) {
-        mockAssets.push({
-          symbol: "BONK",
-          amount: (Math.random() * 1000000000).toFixed(0),
-          value: `$${(Math.random() * 1000).toFixed(2)}`,
-          change: `${(Math.random() * 30 - 10).toFixed(1)}%`,
-          address: "DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263"
-        })
-      }
-      
-      // Calculate total value
-      const totalValue = mockAssets.reduce((sum, asset) => {
-        const value = parseFloat(asset.value.replace('$', '').replace(',', ''))
-        return sum + value
-      }, 0)
-      
-      setPortfolio({
-        totalValue: `$${totalValue.toFixed(2)}`,
-        change24h: `$${(totalValue * 0.05).toFixed(2)}`,
-        changePercent: `+${(Math.random() * 10).toFixed(2)}%`,
-        assets: mockAssets,
-        walletAddress: address
-      })
+      setPortfolio(data.portfolio)
     } catch (error) {
       console.error('Failed to fetch portfolio:', error)
-      setPortfolio({
-        totalValue: "$0.00",
-        change24h: "$0.00",
-        changePercent: "0%",
-        assets: [],
-        walletAddress: address
-      })
+      setPortfolio(null)
+      setError(error instanceof Error ? error.message : "Failed to load portfolio")
     } finally {
       setLoading(false)
     }
@@ -229,75 +193,169 @@ export function PortfolioModal({ open, onOpenChange }: PortfolioModalProps) {
                 <div className="flex items-center justify-between">
                   <div>
                     <p className="text-sm text-muted-foreground">Total Portfolio Value</p>
-                    <p className="text-3xl font-bold mt-1">{portfolio.totalValue}</p>
-                    <div className="flex items-center gap-2 mt-2">
-                      {portfolio.changePercent.startsWith('+') ? (
-                        <TrendingUpIcon className="h-4 w-4 text-green-600" />
-                      ) : portfolio.changePercent === "0%" ? null : (
-                        <TrendingDownIcon className="h-4 w-4 text-red-600" />
-                      )}
-                      <span className={`font-medium ${
-                        portfolio.changePercent.startsWith('+') ? 'text-green-600' : 
-                        portfolio.changePercent === "0%" ? 'text-gray-600' : 'text-red-600'
-                      }`}>
-                        {portfolio.change24h}
-                      </span>
-                      <Badge variant="outline" className={`${
-                        portfolio.changePercent.startsWith('+') ? 'text-green-600 border-green-600' : 
-                        portfolio.changePercent === "0%" ? 'text-gray-600 border-gray-600' : 'text-red-600 border-red-600'
-                      }`}>
-                        {portfolio.changePercent}
-                      </Badge>
-                    </div>
+                    <p className="text-3xl font-bold mt-1">{formatUsd(portfolio?.totalValueUsd ?? 0)}</p>
+                    {portfolio && (
+                      <div className="flex items-center gap-2 mt-2">
+                        {portfolio.change24hUsd > 0 ? (
+                          <TrendingUpIcon className="h-4 w-4 text-green-600" />
+                        ) : portfolio.change24hUsd === 0 ? null : (
+                          <TrendingDownIcon className="h-4 w-4 text-red-600" />
+                        )}
+                        <span className={`font-medium ${
+                          portfolio.change24hUsd > 0 ? 'text-green-600' :
+                          portfolio.change24hUsd === 0 ? 'text-gray-600' : 'text-red-600'
+                        }`}>
+                          {formatUsd(portfolio.change24hUsd)}
+                        </span>
+                        <Badge variant="outline" className={`${
+                          portfolio.change24hUsd > 0 ? 'text-green-600 border-green-600' :
+                          portfolio.change24hUsd === 0 ? 'text-gray-600 border-gray-600' : 'text-red-600 border-red-600'
+                        }`}>
+                          {formatPercent(portfolio.change24hPct)}
+                        </Badge>
+                        <span className="text-xs text-muted-foreground">24h</span>
+                      </div>
+                    )}
                   </div>
                   <DollarSignIcon className="h-12 w-12 text-purple-600 opacity-50" />
                 </div>
               </Card>
+
+              {portfolio && portfolio.warnings.length > 0 && (
+                <ul className="list-disc pl-4 text-xs text-amber-600 space-y-0.5">
+                  {portfolio.warnings.map((warning, i) => (
+                    <li key={i}>{warning}</li>
+                  ))}
+                </ul>
+              )}
             </>
           )}
 
           {walletAddress && (
-            <div className="space-y-3">
+            <div className="space-y-3 max-h-[40vh] overflow-y-auto">
+              <div className="flex items-center justify-between">
+                <h3 className="font-semibold">Performance</h3>
+                <Button variant="outline" size="sm" onClick={() => fetchPnl(walletAddress)} disabled={pnlLoading}>
+                  <RefreshCwIcon className={`h-4 w-4 mr-2 ${pnlLoading ? 'animate-spin' : ''}`} />
+                  {pnl ? "Refresh PnL" : "Analyze PnL"}
+                </Button>
+              </div>
+              {pnlError && <p className="text-sm text-red-600">{pnlError}</p>}
+              {pnl && (
+                <Card className="p-4 space-y-4">
+                  <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-sm">
+                    {[
+                      { label: "Cost basis", value: pnl.totals.costBasisUsd },
+                      { label: "Realized PnL", value: pnl.totals.realizedPnlUsd, signed: true },
+                      { label: "Unrealized PnL", value: pnl.totals.unrealizedPnlUsd, signed: true },
+                    ].map((stat) => (
+                      <div key={stat.label}>
+                        <p className="text-xs text-muted-foreground">{stat.label}</p>
+                        <p className={`font-semibold ${
+                          !stat.signed ? '' : stat.value > 0 ? 'text-green-600' : stat.value < 0 ? 'text-red-600' : ''
+                        }`}>
+                          {formatUsd(stat.value)}
+                        </p>
+                      </div>
+                    ))}
+                    <div>
+                      <p className="text-xs text-muted-foreground">Fees paid</p>
+                      <p className="font-semibold">{pnl.totals.feesSol.toFixed(6)} SOL</p>
+                    </div>
+                  </div>
+                  <PortfolioChart series={pnl.series} />
+                  <div className="space-y-1 text-sm">
+                    {pnl.tokens.slice(0, 10).map((token) => (
+                      <div key={token.mint} className="flex justify-between gap-2">
+                        <span className="font-medium">{token.symbol}</span>
+                        <span className="text-muted-foreground">
+                          avg {token.averageCostUsd !== null ? formatUsd(token.averageCostUsd) : "n/a"}
+                        </span>
+                        <span className={token.realizedPnlUsd >= 0 ? "text-green-600" : "text-red-600"}>
+                          realized {formatUsd(token.realizedPnlUsd)}
+                        </span>
+                        <span className={(token.unrealizedPnlUsd ?? 0) >= 0 ? "text-green-600" : "text-red-600"}>
+                          unrealized {token.unrealizedPnlUsd !== null ? formatUsd(token.unrealizedPnlUsd) : "n/a"}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {pnl.transactionsAnalyzed} transactions analyzed
+                    {pnl.period.from && ` since ${new Date(pnl.period.from).toLocaleDateString()}`}
+                  </p>
+                  {pnl.warnings.length > 0 && (
+                    <ul className="list-disc pl-4 text-xs text-amber-600 space-y-0.5">
+                      {pnl.warnings.map((warning, i) => (
+                        <li key={i}>{warning}</li>
+                      ))}
+                    </ul>
+                  )}
+                </Card>
+              )}
+
               <h3 className="font-semibold">Assets</h3>
               {loading ? (
                 <div className="text-center py-8">
                   <RefreshCwIcon className="h-8 w-8 animate-spin mx-auto mb-2 text-muted-foreground" />
                   <p className="text-sm text-muted-foreground">Loading portfolio...</p>
                 </div>
-              ) : portfolio.assets.length === 0 ? (
+              ) : error ? (
+                <Card className="p-8 text-center">
+                  <p className="text-sm text-red-600">{error}</p>
+                </Card>
+              ) : !portfolio || portfolio.holdings.length === 0 ? (
                 <Card className="p-8 text-center">
                   <WalletIcon className="h-12 w-12 mx-auto mb-2 text-muted-foreground" />
                   <p className="text-sm text-muted-foreground">No assets found</p>
                 </Card>
               ) : (
-                portfolio.assets.map((asset) => (
-                  <Card key={asset.symbol} className="p-4 hover:bg-accent/50 transition-colors">
+                portfolio.holdings.map((holding) => (
+                  <Card key={holding.mint} className="p-4 hover:bg-accent/50 transition-colors">
                     <div className="flex items-center justify-between">
                       <div className="flex items-center gap-3">
-                        <div className="w-10 h-10 rounded-full bg-gradient-to-br from-purple-500 to-blue-500 flex items-center justify-center text-white font-bold">
-                          {asset.symbol.slice(0, 2)}
-                        </div>
+                        {holding.icon ? (
+                          <img src={holding.icon} alt={holding.symbol} className="w-10 h-10 rounded-full" />
+                        ) : (
+                          <div className="w-10 h-10 rounded-full bg-gradient-to-br from-purple-500 to-blue-500 flex items-center justify-center text-white font-bold">
+                            {holding.symbol.slice(0, 2)}
+                          </div>
+                        )}
                         <div>
-                          <p className="font-medium">{asset.symbol}</p>
-                          <p className="text-sm text-muted-foreground">{asset.amount}</p>
+                          <div className="flex items-center gap-1">
+                            <p className="font-medium">{holding.symbol}</p>
+                            {holding.risk?.risky && (
+                              <span title={holding.risk.warnings.join("\n") || "Flagged as risky"}>
+                                <ShieldAlertIcon className="h-4 w-4 text-red-600" />
+                              </span>
+                            )}
+                            {!holding.isVerified && (
+                              <Badge variant="outline" className="text-xs">unverified</Badge>
+                            )}
+                          </div>
+                          <p className="text-sm text-muted-foreground">{formatAmount(holding)}</p>
                         </div>
                       </div>
                       <div className="flex items-center gap-3">
                         <div className="text-right">
-                          <p className="font-semibold">{asset.value}</p>
-                          <div className="flex items-center gap-1 justify-end">
-                            {asset.change.startsWith("+") ? (
-                              <TrendingUpIcon className="h-3 w-3 text-green-600" />
-                            ) : asset.change === "0%" ? null : (
-                              <TrendingDownIcon className="h-3 w-3 text-red-600" />
-                            )}
-                            <span className={
-                              asset.change.startsWith("+") ? "text-green-600 text-sm" : 
-                              asset.change === "0%" ? "text-gray-500 text-sm" : "text-red-600 text-sm"
-                            }>
-                              {asset.change}
-                            </span>
-                          </div>
+                          <p className="font-semibold">
+                            {holding.valueUsd !== null ? formatUsd(holding.valueUsd) : "No price"}
+                          </p>
+                          {holding.change24hPct !== null && (
+                            <div className="flex items-center gap-1 justify-end">
+                              {holding.change24hPct > 0 ? (
+                                <TrendingUpIcon className="h-3 w-3 text-green-600" />
+                              ) : holding.change24hPct === 0 ? null : (
+                                <TrendingDownIcon className="h-3 w-3 text-red-600" />
+                              )}
+                              <span className={
+                                holding.change24hPct > 0 ? "text-green-600 text-sm" :
+                                holding.change24hPct === 0 ? "text-gray-500 text-sm" : "text-red-600 text-sm"
+                              }>
+                                {formatPercent(holding.change24hPct)}
+                              </span>
+                            </div>
+                          )}
                         </div>
                         <div className="flex flex-col gap-1">
                           <Button
@@ -305,11 +363,9 @@ export function PortfolioModal({ open, onOpenChange }: PortfolioModalProps) {
                             size="icon"
                             className="h-7 w-7"
                             onClick={() => {
-                              // Open send dialog or create Blink for transfer
-                              if (asset.address) {
-                                const blinkUrl = `${window.location.origin}/api/actions/transfer?to=&amount=`
-                                navigator.clipboard.writeText(blinkUrl)
-                              }
+                              // Copy a transfer Blink for this wallet
+                              const blinkUrl = `${window.location.origin}/api/actions/transfer?to=&amount=`
+                              navigator.clipboard.writeText(blinkUrl)
                             }}
                           >
                             <SendIcon className="h-3 w-3" />
@@ -320,9 +376,7 @@ export function PortfolioModal({ open, onOpenChange }: PortfolioModalProps) {
                             className="h-7 w-7"
                             onClick={() => {
                               // Open swap interface
-                              if (asset.address) {
-                                window.open(`https://jup.ag/swap/${asset.symbol}-USDC`, '_blank')
-                              }
+                              window.open(`https://jup.ag/swap/${holding.mint}-USDC`, '_blank')
                             }}
                           >
                             <ArrowRightLeftIcon className="h-3 w-3" />
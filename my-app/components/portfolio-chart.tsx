@@ -0,0 +1,61 @@
+"use client"
+
+import type { PnlSeriesPoint } from "@/lib/pnl-types"
+
+interface PortfolioChartProps {
+  series: PnlSeriesPoint[]
+  height?: number
+}
+
+const WIDTH = 600
+const PADDING = 8
+
+const formatUsd = (value: number) =>
+  `$${value.toLocaleString("en-US", { maximumFractionDigits: value >= 1000 ? 0 : 2 })}`
+
+// Dependency-free SVG line chart: portfolio value from snapshots, cost basis from history
+export function PortfolioChart({ series, height = 160 }: PortfolioChartProps) {
+  const values = series.flatMap((point) => [point.valueUsd, point.costBasisUsd]).filter((v): v is number => v !== null)
+  if (series.length < 2 || values.length === 0) {
+    return (
+      <div className="text-sm text-muted-foreground text-center py-6">
+        Not enough history to chart yet. Snapshots are recorded each time the portfolio is loaded.
+      </div>
+    )
+  }
+
+  const times = series.map((point) => new Date(point.timestamp).getTime())
+  const minTime = Math.min(...times)
+  const timeRange = Math.max(...times) - minTime || 1
+  const minValue = Math.min(...values)
+  const valueRange = Math.max(...values) - minValue || 1
+
+  const x = (timestamp: string) => PADDING + ((new Date(timestamp).getTime() - minTime) / timeRange) * (WIDTH - PADDING * 2)
+  const y = (value: number) => height - PADDING - ((value - minValue) / valueRange) * (height - PADDING * 2)
+
+  const line = (key: "valueUsd" | "costBasisUsd") =>
+    series
+      .filter((point) => point[key] !== null)
+      .map((point) => `${x(point.timestamp).toFixed(1)},${y(point[key]!).toFixed(1)}`)
+      .join(" ")
+
+  return (
+    <div className="space-y-1">
+      <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full" preserveAspectRatio="none" role="img">
+        <polyline points={line("costBasisUsd")} fill="none" stroke="currentColor" strokeOpacity={0.4} strokeDasharray="4 4" strokeWidth={1.5} />
+        <polyline points={line("valueUsd")} fill="none" stroke="#9333ea" strokeWidth={2} />
+      </svg>
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span>{new Date(minTime).toLocaleDateString()}</span>
+        <span className="flex gap-3">
+          <span className="text-purple-600">— Value</span>
+          <span>- - Cost basis</span>
+          <span>
+            {formatUsd(minValue)} – {formatUsd(minValue + valueRange)}
+          </span>
+        </span>
+        <span>{new Date(minTime + timeRange).toLocaleDateString()}</span>
+      </div>
+    </div>
+  )
+}
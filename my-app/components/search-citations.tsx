@@ -0,0 +1,76 @@
+"use client"
+
+import {
+  InlineCitation,
+  InlineCitationCard,
+  InlineCitationCardBody,
+  InlineCitationCardTrigger,
+  InlineCitationCarousel,
+  InlineCitationCarouselContent,
+  InlineCitationCarouselHeader,
+  InlineCitationCarouselIndex,
+  InlineCitationCarouselItem,
+  InlineCitationCarouselNext,
+  InlineCitationCarouselPrev,
+  InlineCitationQuote,
+  InlineCitationSource,
+} from "@/components/ai-elements/inline-citation"
+
+export interface CitationSource {
+  title: string
+  href: string
+  snippet?: string
+}
+
+interface SearchCitationsProps {
+  text: string
+  sources: CitationSource[]
+}
+
+const URL_PATTERN = /https?:\/\/[^\s)\]>"']+/g
+
+const normalize = (url: string) => url.replace(/[.,;:!?]+$/, "").replace(/\/$/, "").replace(/^https?:\/\/(www\.)?/, "").toLowerCase()
+
+// Sources whose URL the answer links to, in the order they are first cited
+function findCitedSources(text: string, sources: CitationSource[]): CitationSource[] {
+  const byUrl = new Map(sources.map((source) => [normalize(source.href), source]))
+  const cited = new Map<string, CitationSource>()
+  for (const match of text.match(URL_PATTERN) || []) {
+    const source = byUrl.get(normalize(match))
+    if (source && !cited.has(source.href)) cited.set(source.href, source)
+  }
+  return Array.from(cited.values())
+}
+
+export function SearchCitations({ text, sources }: SearchCitationsProps) {
+  const cited = findCitedSources(text, sources)
+  if (cited.length === 0) return null
+
+  return (
+    <div className="mt-2 flex items-center gap-1 text-xs text-muted-foreground">
+      <span>Cited</span>
+      <InlineCitation>
+        <InlineCitationCard>
+          <InlineCitationCardTrigger sources={cited.map((source) => source.href)} />
+          <InlineCitationCardBody>
+            <InlineCitationCarousel>
+              <InlineCitationCarouselHeader>
+                <InlineCitationCarouselPrev />
+                <InlineCitationCarouselNext />
+                <InlineCitationCarouselIndex />
+              </InlineCitationCarouselHeader>
+              <InlineCitationCarouselContent>
+                {cited.map((source) => (
+                  <InlineCitationCarouselItem key={source.href}>
+                    <InlineCitationSource title={source.title} url={source.href} />
+                    {source.snippet && <InlineCitationQuote>{source.snippet}</InlineCitationQuote>}
+                  </InlineCitationCarouselItem>
+                ))}
+              </InlineCitationCarouselContent>
+            </InlineCitationCarousel>
+          </InlineCitationCardBody>
+        </InlineCitationCard>
+      </InlineCitation>
+    </div>
+  )
+}
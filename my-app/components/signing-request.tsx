@@ -0,0 +1,129 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { VersionedTransaction } from "@solana/web3.js"
+import { useWallet } from "@solana/wallet-adapter-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import type { SigningRequestData, SigningRequestStatus } from "@/lib/signing-requests"
+
+interface SigningRequestProps {
+  data: SigningRequestData
+  disabled?: boolean
+  onSettled?: (request: SigningRequestData) => void
+}
+
+const statusLabels: Record<SigningRequestStatus, string> = {
+  awaiting_signature: "Awaiting signature",
+  submitted: "Submitted",
+  confirmed: "Confirmed",
+  failed: "Failed",
+  expired: "Expired",
+}
+
+const statusVariants: Record<SigningRequestStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  awaiting_signature: "outline",
+  submitted: "secondary",
+  confirmed: "default",
+  failed: "destructive",
+  expired: "secondary",
+}
+
+const shorten = (address: string) => (address.length > 12 ? `${address.slice(0, 4)}…${address.slice(-4)}` : address)
+
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), (char) => char.charCodeAt(0))
+
+const toBase64 = (bytes: Uint8Array) => btoa(Array.from(bytes, (byte) => String.fromCharCode(byte)).join(""))
+
+export function SigningRequest({ data, disabled, onSettled }: SigningRequestProps) {
+  const { publicKey, signTransaction } = useWallet()
+  const [request, setRequest] = useState(data)
+  const [signing, setSigning] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [expired, setExpired] = useState(() => new Date(data.expiresAt).getTime() <= Date.now())
+
+  // Later messages may carry a newer status for the same request
+  useEffect(() => setRequest(data), [data])
+
+  useEffect(() => {
+    if (request.status !== "awaiting_signature" || expired) return
+    const timer = setTimeout(() => setExpired(true), new Date(request.expiresAt).getTime() - Date.now())
+    return () => clearTimeout(timer)
+  }, [request.status, request.expiresAt, expired])
+
+  const status: SigningRequestStatus = request.status === "awaiting_signature" && expired ? "expired" : request.status
+  const connectedAddress = publicKey?.toBase58()
+  const wrongWallet = Boolean(connectedAddress && connectedAddress !== request.signer)
+
+  const sign = async () => {
+    if (!signTransaction) return
+    setSigning(true)
+    setError(null)
+    try {
+      const transaction = VersionedTransaction.deserialize(fromBase64(request.transaction))
+      const signed = await signTransaction(transaction)
+
+      const response = await fetch(`/api/signing-requests/${request.requestId}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ signedTransaction: toBase64(signed.serialize()) }),
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to submit transaction")
+      }
+
+      setRequest(result.request)
+      onSettled?.(result.request)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Signing failed")
+    } finally {
+      setSigning(false)
+    }
+  }
+
+  return (
+    <div className="mb-4 rounded-lg border p-4 space-y-3 text-sm">
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <div className="font-medium">{request.description}</div>
+          <div className="text-xs text-muted-foreground">
+            {request.kind} · signer <span className="font-mono">{shorten(request.signer)}</span>
+          </div>
+        </div>
+        <Badge variant={statusVariants[status]}>{statusLabels[status]}</Badge>
+      </div>
+
+      {request.simulationSummary && (
+        <div className="text-xs text-muted-foreground">Simulation: {request.simulationSummary}</div>
+      )}
+
+      {status === "awaiting_signature" && (
+        <>
+          {!connectedAddress && <div className="text-xs text-amber-600">Connect your wallet to sign.</div>}
+          {wrongWallet && (
+            <div className="text-xs text-amber-600">
+              The connected wallet {shorten(connectedAddress!)} is not the expected signer {shorten(request.signer)}.
+            </div>
+          )}
+          <Button
+            size="sm"
+            onClick={sign}
+            disabled={disabled || signing || !signTransaction || wrongWallet}
+          >
+            {signing ? "Waiting for wallet…" : "Sign & send"}
+          </Button>
+        </>
+      )}
+
+      {status === "confirmed" && request.explorerUrl && (
+        <a href={request.explorerUrl} target="_blank" rel="noreferrer" className="text-xs text-primary underline">
+          View transaction {request.signature ? shorten(request.signature) : ""}
+        </a>
+      )}
+      {(error || (status === "failed" && request.error)) && (
+        <div className="text-xs text-red-600">{error || request.error}</div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,63 @@
+"use client"
+
+import type { SimulationReport } from "@/lib/transaction-simulator"
+
+interface SimulationReportViewProps {
+  report: SimulationReport
+  showBalances?: boolean
+  className?: string
+}
+
+const formatSigned = (value: number) => {
+  const rounded = Number(value.toFixed(9))
+  return `${rounded > 0 ? "+" : ""}${rounded}`
+}
+
+const shorten = (address: string) => (address.length > 12 ? `${address.slice(0, 4)}…${address.slice(-4)}` : address)
+
+export function SimulationReportView({ report, showBalances = true, className = "" }: SimulationReportViewProps) {
+  return (
+    <div className={`rounded-md bg-muted/50 p-3 space-y-2 text-xs ${className}`}>
+      <div className="flex flex-wrap items-center gap-2">
+        <span className={report.success ? "text-green-600 font-medium" : "text-red-600 font-medium"}>
+          {report.success ? "Simulation succeeded" : "Simulation failed"}
+        </span>
+        <span className="text-muted-foreground">· slot {report.slot.toLocaleString()}</span>
+        {report.unitsConsumed !== undefined && (
+          <span className="text-muted-foreground">· {report.unitsConsumed.toLocaleString()} CU</span>
+        )}
+        <span className="text-muted-foreground">· fee {report.fee.sol} SOL</span>
+      </div>
+
+      {report.error && <div className="text-red-600 break-words">{report.error}</div>}
+
+      {showBalances && report.solChanges.length + report.tokenChanges.length > 0 && (
+        <div className="space-y-0.5">
+          {report.solChanges.map((change) => (
+            <div key={change.address} className="flex justify-between">
+              <span className="font-mono">{shorten(change.address)} · SOL</span>
+              <span className={change.change < 0 ? "text-red-600" : "text-green-600"}>{formatSigned(change.change)}</span>
+            </div>
+          ))}
+          {report.tokenChanges.map((change) => (
+            <div key={change.tokenAccount} className="flex justify-between">
+              <span className="font-mono">
+                {shorten(change.owner)} · {shorten(change.mint)}
+              </span>
+              <span className={change.change < 0 ? "text-red-600" : "text-green-600"}>{formatSigned(change.change)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {report.logs.length > 0 && (
+        <details>
+          <summary className="cursor-pointer text-muted-foreground">Program logs ({report.logs.length})</summary>
+          <pre className="mt-1 max-h-48 overflow-auto whitespace-pre-wrap break-all font-mono text-[10px]">
+            {report.logs.join("\n")}
+          </pre>
+        </details>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,118 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { getExplorerUrl } from "@/lib/solana-config"
+import type { PaymentRequest, PaymentStatus } from "@/lib/solana-pay-types"
+
+interface SolanaPayRequestProps {
+  payment: PaymentRequest
+  onSettled?: (payment: PaymentRequest) => void
+}
+
+const POLL_INTERVAL = 3000
+
+const statusLabels: Record<PaymentStatus, string> = {
+  pending: "Waiting for payment",
+  confirmed: "Paid",
+  invalid: "Payment mismatch",
+  expired: "Expired",
+}
+
+const statusVariants: Record<PaymentStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  pending: "outline",
+  confirmed: "default",
+  invalid: "destructive",
+  expired: "secondary",
+}
+
+export const qrCodeUrl = (data: string, format: "svg" | "png" = "svg", download = false) =>
+  `/api/qr?${new URLSearchParams({ data, format, ...(download && { download: "1" }) })}`
+
+export function SolanaPayRequest({ payment: initial, onSettled }: SolanaPayRequestProps) {
+  const [payment, setPayment] = useState(initial)
+  const [error, setError] = useState<string | null>(null)
+  const [copied, setCopied] = useState(false)
+
+  useEffect(() => setPayment(initial), [initial])
+
+  // Poll the watcher until the reference shows up on-chain
+  useEffect(() => {
+    if (payment.status !== "pending") return
+    let cancelled = false
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/solana-pay/${payment.id}`)
+        const result = await response.json()
+        if (!response.ok) throw new Error(result.error || "Failed to check payment")
+        if (cancelled) return
+        setError(null)
+        setPayment(result.payment)
+        if (result.payment.status !== "pending") onSettled?.(result.payment)
+      } catch (err) {
+        if (cancelled) return
+        setError(err instanceof Error ? err.message : "Failed to check payment")
+        // Retry on the next tick; a new object restarts the effect
+        setPayment((current) => ({ ...current }))
+      }
+    }, POLL_INTERVAL)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [payment, onSettled])
+
+  const copyUrl = async () => {
+    await navigator.clipboard.writeText(payment.url)
+    setCopied(true)
+    setTimeout(() => setCopied(false), 2000)
+  }
+
+  return (
+    <div className="rounded-lg border p-4 space-y-3 text-sm">
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <div className="font-medium">
+            {payment.label || (payment.kind === "transfer" ? "Transfer request" : "Transaction request")}
+          </div>
+          {payment.kind === "transfer" && payment.amount && (
+            <div className="text-xs text-muted-foreground">
+              {payment.amount} {payment.splToken ? "tokens" : "SOL"}
+            </div>
+          )}
+          {payment.message && <div className="text-xs text-muted-foreground">{payment.message}</div>}
+        </div>
+        <Badge variant={statusVariants[payment.status]}>{statusLabels[payment.status]}</Badge>
+      </div>
+
+      <img src={qrCodeUrl(payment.url)} alt="Solana Pay QR code" className="w-48 h-48 mx-auto rounded bg-white" />
+
+      <div className="p-2 bg-muted rounded text-xs break-all font-mono">{payment.url}</div>
+      <div className="flex gap-2">
+        <Button size="sm" variant="outline" onClick={copyUrl}>
+          {copied ? "Copied" : "Copy URL"}
+        </Button>
+        <Button size="sm" variant="outline" asChild>
+          <a href={qrCodeUrl(payment.url, "png", true)}>Download PNG</a>
+        </Button>
+        <Button size="sm" variant="outline" asChild>
+          <a href={qrCodeUrl(payment.url, "svg", true)}>Download SVG</a>
+        </Button>
+      </div>
+
+      {payment.signature && (
+        <a
+          href={getExplorerUrl(payment.signature)}
+          target="_blank"
+          rel="noreferrer"
+          className="text-xs text-primary underline block"
+        >
+          View transaction {payment.signature.slice(0, 8)}…
+        </a>
+      )}
+      {(error || payment.error) && <div className="text-xs text-red-600">{error || payment.error}</div>}
+    </div>
+  )
+}
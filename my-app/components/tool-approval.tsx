@@ -0,0 +1,140 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { SimulationReportView } from "@/components/simulation-report"
+import type { ApprovalDecision, ApprovalStatus, ToolApprovalData } from "@/lib/tool-approval"
+
+interface ToolApprovalProps {
+  data: ToolApprovalData
+  disabled?: boolean
+  onDecision?: (approval: ToolApprovalData, decision: ApprovalDecision) => void
+}
+
+const statusLabels: Record<ApprovalStatus, string> = {
+  pending: "Awaiting approval",
+  approved: "Approved",
+  rejected: "Rejected",
+  executed: "Executed",
+  failed: "Failed",
+  expired: "Expired",
+}
+
+const statusVariants: Record<ApprovalStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  pending: "outline",
+  approved: "secondary",
+  rejected: "secondary",
+  executed: "default",
+  failed: "destructive",
+  expired: "secondary",
+}
+
+const shorten = (address: string) => (address.length > 12 ? `${address.slice(0, 4)}…${address.slice(-4)}` : address)
+
+const formatChange = (value: number) => `${value > 0 ? "+" : ""}${Number(value.toFixed(9))}`
+
+export function ToolApproval({ data, disabled, onDecision }: ToolApprovalProps) {
+  const [submitted, setSubmitted] = useState<ApprovalDecision | null>(null)
+  const [expired, setExpired] = useState(() => new Date(data.expiresAt).getTime() <= Date.now())
+
+  useEffect(() => {
+    if (data.status !== "pending" || expired) return
+    const timer = setTimeout(() => setExpired(true), new Date(data.expiresAt).getTime() - Date.now())
+    return () => clearTimeout(timer)
+  }, [data.status, data.expiresAt, expired])
+
+  const status: ApprovalStatus = data.status === "pending" && expired ? "expired" : data.status
+  const { preview } = data
+  const result = data.result as { explorerUrl?: string; signature?: string } | undefined
+
+  const decide = (decision: ApprovalDecision) => {
+    setSubmitted(decision)
+    onDecision?.(data, decision)
+  }
+
+  return (
+    <div className="mb-4 rounded-lg border p-4 space-y-3 text-sm">
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <div className="font-medium">{preview.summary}</div>
+          <div className="text-xs text-muted-foreground">{data.toolName}</div>
+        </div>
+        <Badge variant={statusVariants[status]}>{statusLabels[status]}</Badge>
+      </div>
+
+      <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-xs">
+        <dt className="text-muted-foreground">Amount</dt>
+        <dd>
+          {preview.amount} {preview.asset}
+        </dd>
+        {preview.sender && (
+          <>
+            <dt className="text-muted-foreground">From</dt>
+            <dd className="font-mono break-all">{preview.sender}</dd>
+          </>
+        )}
+        {preview.recipient && (
+          <>
+            <dt className="text-muted-foreground">To</dt>
+            <dd className="font-mono break-all">{preview.recipient}</dd>
+          </>
+        )}
+        <dt className="text-muted-foreground">Network fee</dt>
+        <dd>
+          {preview.estimatedFee.sol} SOL ({preview.estimatedFee.lamports} lamports)
+        </dd>
+      </dl>
+
+      {preview.balanceDeltas.length > 0 && (
+        <div className="space-y-1">
+          <div className="text-xs font-medium">Balance changes</div>
+          {preview.balanceDeltas.map((delta, i) => (
+            <div key={`${delta.account}-${delta.asset}-${i}`} className="flex justify-between text-xs">
+              <span className="font-mono">{shorten(delta.account)}</span>
+              <span className={delta.change < 0 ? "text-red-600" : "text-green-600"}>
+                {formatChange(delta.change)} {delta.asset}
+                {delta.after !== undefined && (
+                  <span className="text-muted-foreground"> → {Number(delta.after.toFixed(9))}</span>
+                )}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {preview.simulation && <SimulationReportView report={preview.simulation} showBalances={false} />}
+
+      {preview.warnings.length > 0 && (
+        <ul className="list-disc pl-4 text-xs text-amber-600 space-y-0.5">
+          {preview.warnings.map((warning, i) => (
+            <li key={i}>{warning}</li>
+          ))}
+        </ul>
+      )}
+
+      {status === "pending" && (
+        <div className="flex gap-2">
+          <Button size="sm" onClick={() => decide("approve")} disabled={disabled || submitted !== null}>
+            {submitted === "approve" ? "Approving…" : "Approve"}
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => decide("reject")}
+            disabled={disabled || submitted !== null}
+          >
+            {submitted === "reject" ? "Rejecting…" : "Reject"}
+          </Button>
+        </div>
+      )}
+
+      {status === "executed" && result?.explorerUrl && (
+        <a href={result.explorerUrl} target="_blank" rel="noreferrer" className="text-xs text-primary underline">
+          View transaction {result.signature ? shorten(result.signature) : ""}
+        </a>
+      )}
+      {status === "failed" && data.error && <div className="text-xs text-red-600">{data.error}</div>}
+    </div>
+  )
+}
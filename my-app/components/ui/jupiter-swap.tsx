@@ -1,6 +1,8 @@
 "use client"
 
-import React, { useEffect, useRef, useState } from 'react'
+import React, { useEffect, useMemo, useRef, useState } from 'react'
+import { Transaction, VersionedTransaction } from '@solana/web3.js'
+import { useWallet } from '@solana/wallet-adapter-react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
@@ -19,6 +21,107 @@ import {
   createPostLaunchSwap 
 } from '@/lib/jupiter-plugin-config'
 import { JupiterSwapConfig, SwapAnalytics } from '@/types/jupiter-plugin'
+import { SimulationReportView } from '@/components/simulation-report'
+import type { SimulationReport } from '@/lib/transaction-simulator'
+
+interface PendingSwapReview {
+  report: SimulationReport | null
+  error?: string
+  resolve: (approved: boolean) => void
+}
+
+const toBase64 = (bytes: Uint8Array) => btoa(Array.from(bytes, (byte) => String.fromCharCode(byte)).join(''))
+
+const serializeUnsigned = (transaction: Transaction | VersionedTransaction) =>
+  transaction instanceof VersionedTransaction
+    ? transaction.serialize()
+    : transaction.serialize({ requireAllSignatures: false, verifySignatures: false })
+
+// The plugin signs through the app's wallet, so every swap transaction is
+// simulated and shown to the user before the wallet prompt opens
+function SwapSimulationGate() {
+  const wallet = useWallet()
+  const [review, setReview] = useState<PendingSwapReview | null>(null)
+
+  const reviewedWallet = useMemo(() => {
+    const confirm = async (transaction: Transaction | VersionedTransaction) => {
+      let report: SimulationReport | null = null
+      let error: string | undefined
+      try {
+        const response = await fetch('/api/simulate', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            transaction: toBase64(serializeUnsigned(transaction)),
+            accounts: wallet.publicKey ? [wallet.publicKey.toBase58()] : undefined,
+          }),
+        })
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || `Simulation returned status ${response.status}`)
+        report = data.report
+      } catch (err) {
+        error = err instanceof Error ? err.message : 'Simulation failed'
+      }
+
+      const approved = await new Promise<boolean>((resolve) => setReview({ report, error, resolve }))
+      setReview(null)
+      if (!approved) throw new Error('Swap cancelled after reviewing the simulation')
+    }
+
+    const { signTransaction, signAllTransactions } = wallet
+    return {
+      ...wallet,
+      signTransaction: signTransaction && (async <T extends Transaction | VersionedTransaction>(transaction: T) => {
+        await confirm(transaction)
+        return signTransaction(transaction)
+      }),
+      signAllTransactions: signAllTransactions && (async <T extends Transaction | VersionedTransaction>(transactions: T[]) => {
+        for (const transaction of transactions) await confirm(transaction)
+        return signAllTransactions(transactions)
+      }),
+      sendTransaction: async (...args: Parameters<typeof wallet.sendTransaction>) => {
+        await confirm(args[0])
+        return wallet.sendTransaction(...args)
+      },
+    }
+  }, [wallet])
+
+  useEffect(() => {
+    jupiterPluginManager.setWalletPassthrough(reviewedWallet)
+    return () => jupiterPluginManager.clearWalletPassthrough(reviewedWallet)
+  }, [reviewedWallet])
+
+  if (!review) return null
+
+  // Sits above the plugin's own modal while the swap waits for a decision
+  return (
+    <div className="fixed inset-0 z-[10000] flex items-center justify-center bg-black/50 p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="pb-3">
+          <CardTitle className="text-lg">Review swap before signing</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {review.report ? (
+            <SimulationReportView report={review.report} />
+          ) : (
+            <div className="flex items-center gap-2 text-sm text-red-600">
+              <AlertCircleIcon className="h-4 w-4" />
+              Could not simulate this swap: {review.error}
+            </div>
+          )}
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" size="sm" onClick={() => review.resolve(false)}>
+              Cancel
+            </Button>
+            <Button size="sm" onClick={() => review.resolve(true)}>
+              Continue to wallet
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
 
 interface JupiterSwapProps {
   mode: 'integrated' | 'modal' | 'widget'
@@ -167,6 +270,7 @@ export function JupiterSwap({
         {showAnalytics && analytics.length > 0 && (
           <SwapAnalyticsDisplay analytics={analytics} />
         )}
+        <SwapSimulationGate />
       </div>
     )
   }
@@ -189,6 +293,7 @@ export function JupiterSwap({
       <div onClick={handleOpenSwap}>
         {trigger || defaultTrigger}
       </div>
+      <SwapSimulationGate />
     </div>
   )
 }
@@ -271,6 +376,7 @@ export function PostLaunchSwap({
             Trading fees apply. Platform fees support the launchpad ecosystem.
           </div>
         </div>
+        <SwapSimulationGate />
       </CardContent>
     </Card>
   )
@@ -303,16 +409,19 @@ export function QuickSwapButton({
   }
 
   return (
-    <Button
-      variant={variant}
-      size={size}
-      onClick={handleSwap}
-      disabled={disabled}
-      className={`flex items-center gap-2 ${className}`}
-    >
-      <ArrowUpDownIcon className="h-3 w-3" />
-      Trade
-    </Button>
+    <>
+      <Button
+        variant={variant}
+        size={size}
+        onClick={handleSwap}
+        disabled={disabled}
+        className={`flex items-center gap-2 ${className}`}
+      >
+        <ArrowUpDownIcon className="h-3 w-3" />
+        Trade
+      </Button>
+      <SwapSimulationGate />
+    </>
   )
 }
 
@@ -371,6 +480,7 @@ export function PaymentSwap({
             Loading payment interface...
           </div>
         )}
+        <SwapSimulationGate />
       </CardContent>
     </Card>
   )
@@ -433,12 +543,15 @@ export function SwapWidget() {
   }
 
   return (
-    <Button
-      onClick={toggleWidget}
-      className="fixed bottom-4 right-4 rounded-full w-12 h-12 shadow-lg z-50"
-      size="sm"
-    >
-      <ArrowUpDownIcon className="h-5 w-5" />
-    </Button>
+    <>
+      <Button
+        onClick={toggleWidget}
+        className="fixed bottom-4 right-4 rounded-full w-12 h-12 shadow-lg z-50"
+        size="sm"
+      >
+        <ArrowUpDownIcon className="h-5 w-5" />
+      </Button>
+      <SwapSimulationGate />
+    </>
   )
 }
\ No newline at end of file
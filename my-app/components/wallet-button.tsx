@@ -0,0 +1,68 @@
+"use client"
+
+import { useState } from "react"
+import Image from "next/image"
+import { useWallet } from "@solana/wallet-adapter-react"
+import { WalletIcon } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { useWalletConnections } from "@/components/wallet-provider"
+
+const shorten = (address: string) => `${address.slice(0, 4)}…${address.slice(-4)}`
+
+export function WalletButton() {
+  const { wallet, publicKey, connecting, select, disconnect } = useWallet()
+  const { detectedWallets: detected } = useWalletConnections()
+  const [open, setOpen] = useState(false)
+
+  if (publicKey) {
+    return (
+      <Button size="sm" variant="outline" onClick={() => disconnect()} title="Disconnect wallet">
+        {wallet && (
+          <Image src={wallet.adapter.icon} alt={wallet.adapter.name} width={16} height={16} unoptimized />
+        )}
+        {shorten(publicKey.toBase58())}
+      </Button>
+    )
+  }
+
+  return (
+    <>
+      <Button size="sm" variant="outline" onClick={() => setOpen(true)} disabled={connecting}>
+        <WalletIcon />
+        {connecting ? "Connecting…" : "Connect wallet"}
+      </Button>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Connect a wallet</DialogTitle>
+            <DialogDescription>
+              Transactions are signed in your wallet. Your private key never leaves it.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            {detected.map(({ adapter }) => (
+              <Button
+                key={adapter.name}
+                variant="outline"
+                className="w-full justify-start"
+                onClick={() => {
+                  select(adapter.name)
+                  setOpen(false)
+                }}
+              >
+                <Image src={adapter.icon} alt={adapter.name} width={20} height={20} unoptimized />
+                {adapter.name}
+              </Button>
+            ))}
+            {detected.length === 0 && (
+              <p className="text-sm text-muted-foreground">
+                No Solana wallet detected. Install Phantom, Solflare or Backpack and reload the page.
+              </p>
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
@@ -0,0 +1,77 @@
+"use client"
+
+import { useEffect, useMemo, useSyncExternalStore, type ReactNode } from "react"
+import { WalletReadyState, type Adapter, type WalletName } from "@solana/wallet-adapter-base"
+import { ConnectionProvider, WalletProvider, useWallet } from "@solana/wallet-adapter-react"
+import { walletConnectionRegistry, type WalletConnection } from "@/lib/wallet-connections"
+
+const endpoint = process.env.NEXT_PUBLIC_SOLANA_RPC_URL || "https://api.mainnet-beta.solana.com"
+
+// Phantom, Solflare, Backpack and other Wallet Standard wallets register
+// themselves, so no adapters need to be bundled here
+export function SolanaWalletProvider({ children }: { children: ReactNode }) {
+  const wallets = useMemo<Adapter[]>(() => [], [])
+
+  return (
+    <ConnectionProvider endpoint={endpoint}>
+      <WalletProvider wallets={wallets} autoConnect>
+        <WalletConnectionTracker />
+        {children}
+      </WalletProvider>
+    </ConnectionProvider>
+  )
+}
+
+// Records every wallet account that connects so it is remembered across sessions
+function WalletConnectionTracker() {
+  const { wallet, publicKey } = useWallet()
+
+  useEffect(() => {
+    if (!wallet || !publicKey) return
+    walletConnectionRegistry.recordWallet(publicKey.toBase58(), wallet.adapter.name, wallet.adapter.icon)
+  }, [wallet, publicKey])
+
+  return null
+}
+
+export function useWalletConnections() {
+  const state = useSyncExternalStore(
+    walletConnectionRegistry.subscribe,
+    walletConnectionRegistry.getState,
+    walletConnectionRegistry.getServerState,
+  )
+  const { wallets, publicKey, select, disconnect } = useWallet()
+
+  const connectedAddress = publicKey?.toBase58()
+  const active = state.connections.find((connection) => connection.id === state.activeId) || null
+  const detectedWallets = wallets.filter(
+    ({ readyState }) => readyState === WalletReadyState.Installed || readyState === WalletReadyState.Loadable,
+  )
+
+  const activate = (connection: WalletConnection) => {
+    walletConnectionRegistry.setActive(connection.id)
+    if (connection.kind === "wallet" && connection.walletName && connection.address !== connectedAddress) {
+      select(connection.walletName as WalletName)
+    }
+  }
+
+  const remove = (connection: WalletConnection) => {
+    walletConnectionRegistry.remove(connection.id)
+    if (connection.kind === "wallet" && connection.address === connectedAddress) {
+      disconnect()
+    }
+  }
+
+  return {
+    connections: state.connections,
+    active,
+    // Address tools treat as "my wallet"; falls back to the connected wallet
+    activeAddress: active?.address ?? connectedAddress,
+    readOnly: active?.kind === "watch",
+    connectedAddress,
+    detectedWallets,
+    activate,
+    remove,
+    addWatchAddress: (address: string, label?: string) => walletConnectionRegistry.addWatchAddress(address, label),
+  }
+}
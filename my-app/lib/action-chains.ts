@@ -0,0 +1,207 @@
+/**
+ * Action Chains
+ * Multi-step Blinks built on the Actions spec's `links.next`. A chain is
+ * carried in each step's URL (`chain` + `step`); action routes that see it
+ * attach a POST callback to their transaction response. Once the wallet
+ * confirms, the callback verifies the signature, reads what the transaction
+ * paid the account, and returns the next step with that amount filled in,
+ * or a completed action after the last step. Example: swap USDC to SOL, then
+ * stake the SOL received.
+ */
+
+import type {
+  ActionGetResponse,
+  CompletedAction,
+  LinkedAction,
+  NextAction,
+  PostNextActionLink,
+} from '@solana/actions'
+import { ActionChain, encodeActionChain } from './blinks-types'
+import { transactionDecoder } from './transaction-decoder'
+import { TransactionDecodeError, type AccountBalanceChange } from './transaction-decoder-types'
+import { SOL_MINT } from './instruction-decoders'
+
+export const CHAIN_CALLBACK_PATH = '/api/actions/chain/next'
+
+export class ActionChainError extends Error {
+  constructor(message: string, public code: 'INVALID_CHAIN' | 'NOT_CONFIRMED' | 'UNAUTHORIZED' | 'NO_OUTPUT' | 'RPC_ERROR') {
+    super(message)
+    this.name = 'ActionChainError'
+  }
+}
+
+/**
+ * `links.next` for a transaction response, when the request belongs to a
+ * chain that has steps left
+ */
+export function createNextActionLinks(requestUrl: string): { next: PostNextActionLink } | undefined {
+  const url = new URL(requestUrl)
+  const chain = url.searchParams.get('chain')
+  const step = url.searchParams.get('step')
+  if (!chain || !step) return undefined
+
+  const params = new URLSearchParams({ chain, step })
+  return { next: { type: 'post', href: `${CHAIN_CALLBACK_PATH}?${params}` } }
+}
+
+export class ActionChainService {
+  /**
+   * GET payload for a chain: its first step, continuing into the rest
+   */
+  getEntryAction(chain: ActionChain): ActionGetResponse {
+    const [first] = chain.steps
+    return {
+      type: 'action',
+      icon: chain.icon,
+      title: chain.title,
+      description: describeChain(chain),
+      label: first.label,
+      links: {
+        actions: [this.toLinkedAction(chain, 0, first.href)],
+      },
+    }
+  }
+
+  /**
+   * Next step after the previous one confirmed, or a completed action
+   */
+  async getNextAction(chain: ActionChain, step: number, account: string, signature?: string): Promise<NextAction> {
+    if (!Number.isInteger(step) || step < 1 || step > chain.steps.length) {
+      throw new ActionChainError(`Invalid chain step: ${step}`, 'INVALID_CHAIN')
+    }
+    if (!signature) {
+      throw new ActionChainError('Missing signature of the previous step', 'NOT_CONFIRMED')
+    }
+
+    let decoded
+    try {
+      decoded = await transactionDecoder.decode(signature)
+    } catch (error) {
+      if (error instanceof TransactionDecodeError && error.code === 'NOT_FOUND') {
+        throw new ActionChainError('Previous transaction is not confirmed yet; try again shortly', 'NOT_CONFIRMED')
+      }
+      if (error instanceof TransactionDecodeError && error.code === 'INVALID_SIGNATURE') {
+        throw new ActionChainError(error.message, 'UNAUTHORIZED')
+      }
+      throw new ActionChainError(`Failed to load the previous transaction: ${(error as Error).message || error}`, 'RPC_ERROR')
+    }
+    if (!decoded.signers.includes(account)) {
+      throw new ActionChainError('Previous transaction was not signed by this account', 'UNAUTHORIZED')
+    }
+
+    const previous = chain.steps[step - 1]
+    if (decoded.status === 'failed') {
+      return completed(chain, `${previous.label} failed on-chain, so the remaining steps were skipped.`, true)
+    }
+    if (step === chain.steps.length) {
+      return completed(chain, `All ${chain.steps.length} steps completed. ${decoded.narrative}`)
+    }
+
+    const next = chain.steps[step]
+    let href = next.href
+    let filled = ''
+    if (next.useOutput) {
+      const output = receivedAmount(decoded.balanceChanges, account, decoded.feePayer === account ? decoded.fee : 0, next.useOutput.mint)
+      if (!output) {
+        throw new ActionChainError(`${previous.label} did not pay anything to ${account} to use in ${next.label}`, 'NO_OUTPUT')
+      }
+      href = fillParameter(href, next.useOutput.parameter, output.amount)
+      filled = ` using the ${output.amount} ${output.symbol || 'tokens'} received`
+    }
+
+    return {
+      type: 'action',
+      icon: chain.icon,
+      title: `${chain.title} (step ${step + 1} of ${chain.steps.length})`,
+      description: `${previous.label} confirmed. Next: ${next.label}${filled}.`,
+      label: next.label,
+      links: {
+        actions: [this.toLinkedAction(chain, step, href)],
+      },
+    }
+  }
+
+  private toLinkedAction(chain: ActionChain, index: number, href: string): LinkedAction {
+    const step = chain.steps[index]
+    const filledParameter = index > 0 ? step.useOutput?.parameter : undefined
+    return {
+      type: 'transaction',
+      label: step.label,
+      href: withChain(href, chain, index + 1),
+      parameters: (step.parameters || [])
+        .filter(parameter => parameter.name !== filledParameter) as LinkedAction['parameters'],
+    }
+  }
+}
+
+function withChain(href: string, chain: ActionChain, nextStep: number): string {
+  // The last step has no follow-up, so it runs as a plain action
+  if (nextStep > chain.steps.length) return href
+  const separator = href.includes('?') ? '&' : '?'
+  return `${href}${separator}chain=${encodeActionChain(chain)}&step=${nextStep}`
+}
+
+function fillParameter(href: string, parameter: string, value: string): string {
+  const placeholder = `{${parameter}}`
+  if (href.includes(placeholder)) return href.split(placeholder).join(encodeURIComponent(value))
+  const separator = href.includes('?') ? '&' : '?'
+  return `${href}${separator}${encodeURIComponent(parameter)}=${encodeURIComponent(value)}`
+}
+
+/**
+ * What the transaction paid the account, per asset. Native SOL and wrapped
+ * SOL are netted together, and the fee is added back so a swap into SOL
+ * reports the swap output. Without an explicit mint, tokens win over SOL,
+ * whose change is often just rent.
+ */
+function receivedAmount(
+  changes: AccountBalanceChange[],
+  account: string,
+  fee: number,
+  mint?: string
+): { amount: string; symbol?: string } | null {
+  const totals = new Map<string, { change: number; decimals: number; symbol?: string }>()
+  for (const change of changes) {
+    if (change.owner !== account) continue
+    const total = totals.get(change.mint) || { change: 0, decimals: change.decimals, symbol: change.symbol }
+    total.change += change.change
+    totals.set(change.mint, total)
+  }
+  const sol = totals.get(SOL_MINT)
+  if (sol) {
+    sol.change += fee
+    sol.decimals = 9
+    sol.symbol = 'SOL'
+  }
+
+  const received = Array.from(totals.entries()).filter(([, total]) => total.change > 0)
+  const match = mint
+    ? received.find(([candidate]) => candidate === mint)
+    : received.find(([candidate]) => candidate !== SOL_MINT) || received.find(([candidate]) => candidate === SOL_MINT)
+  if (!match) return null
+
+  // Round down so the next step never spends more than arrived
+  const [, total] = match
+  const scale = Math.pow(10, total.decimals)
+  const amount = (Math.floor(total.change * scale) / scale).toFixed(total.decimals).replace(/(\.\d*?)0+$/, '$1').replace(/\.$/, '')
+  return amount === '0' ? null : { amount, symbol: total.symbol }
+}
+
+function describeChain(chain: ActionChain): string {
+  const steps = chain.steps.map((step, index) => `${index + 1}. ${step.label}`).join(' → ')
+  return chain.description ? `${chain.description} (${steps})` : steps
+}
+
+function completed(chain: ActionChain, description: string, failed = false): CompletedAction {
+  return {
+    type: 'completed',
+    icon: chain.icon,
+    title: chain.title,
+    description,
+    label: failed ? 'Chain stopped' : 'Completed',
+    ...(failed && { error: { message: description } }),
+  }
+}
+
+// Export singleton instance
+export const actionChainService = new ActionChainService()
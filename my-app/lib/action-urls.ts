@@ -0,0 +1,87 @@
+/**
+ * Action URLs
+ * Recognizes the ways Blinks get shared: `solana-action:` URLs, interstitial
+ * links such as https://dial.to/?action=solana-action:..., and plain action
+ * or website URLs. Pure string handling, so it runs in the browser too.
+ */
+
+export const SOLANA_ACTION_PROTOCOL = 'solana-action:'
+
+// At most this many Blinks are unfurled from a single chat message
+const MAX_LINKS_PER_MESSAGE = 3
+const SHARED_LINK = /(solana-action:[^\s<>()[\]"'`]+|https?:\/\/[^\s<>()[\]"'`]+)/gi
+
+export type ParsedActionUrl =
+  | { kind: 'action'; url: string } // Action API endpoint
+  | { kind: 'website'; url: string } // Page that may map to an action through its actions.json
+
+/**
+ * Parse anything a user might paste as a Blink
+ */
+export function parseActionUrl(input: string): ParsedActionUrl | null {
+  const value = input.trim()
+
+  if (value.toLowerCase().startsWith(SOLANA_ACTION_PROTOCOL)) {
+    let target = value.slice(SOLANA_ACTION_PROTOCOL.length)
+    // The spec URL-encodes action URLs that carry their own query string
+    if (/^https?%3a/i.test(target)) target = safeDecode(target)
+    const url = toHttpUrl(target)
+    return url ? { kind: 'action', url } : null
+  }
+
+  const url = toHttpUrl(value)
+  if (!url) return null
+
+  // Interstitials carry the action in an `action` parameter; our own action
+  // routes use the same name for plain values, which never parse as URLs
+  const nested = new URL(url).searchParams.get('action')
+  if (nested && /^(solana-action:|https?:)/i.test(nested)) {
+    const action = parseActionUrl(nested)
+    if (action) return { kind: 'action', url: action.url }
+  }
+  return { kind: 'website', url }
+}
+
+/**
+ * Blinks shared explicitly in free text: `solana-action:` URLs and
+ * interstitial links. Ordinary website links are left alone.
+ */
+export function findActionLinks(text: string): string[] {
+  const found: string[] = []
+  for (const [candidate] of Array.from(text.matchAll(SHARED_LINK))) {
+    // Trailing punctuation belongs to the sentence, not the link
+    const parsed = parseActionUrl(candidate.replace(/[.,;:!?*_]+$/, ''))
+    if (!parsed || parsed.kind !== 'action' || found.includes(parsed.url)) continue
+    found.push(parsed.url)
+    if (found.length === MAX_LINKS_PER_MESSAGE) break
+  }
+  return found
+}
+
+/**
+ * Fill `{name}` placeholders in a linked action href with form values
+ */
+export function fillActionHref(href: string, values: Record<string, string | string[]>): string {
+  return href.replace(/\{([^{}]+)\}/g, (placeholder, name: string) => {
+    const value = values[name]
+    if (value === undefined) return placeholder
+    return encodeURIComponent(Array.isArray(value) ? value.join(',') : value)
+  })
+}
+
+function toHttpUrl(value: string): string | null {
+  try {
+    const url = new URL(value)
+    return url.protocol === 'https:' || url.protocol === 'http:' ? url.href : null
+  } catch {
+    return null
+  }
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value)
+  } catch {
+    return value
+  }
+}
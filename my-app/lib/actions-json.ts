@@ -0,0 +1,59 @@
+/**
+ * actions.json
+ * Builds the root actions.json rules that let Blink clients resolve website
+ * URLs to our action APIs: one rule per built-in action route, one per Blink
+ * in the registry, and an idempotent rule so action URLs shared as-is unfurl
+ */
+
+import type { ActionRuleObject, ActionsJson } from '@solana/actions'
+import { blinkRegistry } from './blink-registry'
+import { BlinkRegistryError, BlinkRepository, BlinkSummary, hostedBlinkPath } from './blink-registry-types'
+
+// Website paths that resolve to a Blink, e.g. /blinks/swap; app/blinks/[id] renders them
+export const BLINK_PAGE_PATH = '/blinks'
+
+// Built-in action routes under /api/actions; the chain route needs a chain parameter, so it has no rule
+export const STATIC_ACTION_ROUTES = ['transfer', 'swap', 'stake', 'liquid-stake', 'nft']
+
+export async function buildActionsJson(registry: BlinkRepository = blinkRegistry): Promise<ActionsJson> {
+  const staticRules: ActionRuleObject[] = STATIC_ACTION_ROUTES.map(route => ({
+    pathPattern: `${BLINK_PAGE_PATH}/${route}`,
+    apiPath: `/api/actions/${route}`,
+  }))
+
+  // Registry trouble should not hide the built-in routes
+  let blinks: BlinkSummary[] = []
+  try {
+    blinks = await registry.list({ limit: Number.MAX_SAFE_INTEGER })
+  } catch (error) {
+    console.error('Blink registry unavailable for actions.json:', error)
+  }
+  const hostedRules: ActionRuleObject[] = blinks.map(blink => ({
+    pathPattern: `${BLINK_PAGE_PATH}/${blink.id}`,
+    apiPath: hostedBlinkPath(blink.id),
+  }))
+
+  return {
+    rules: [
+      ...staticRules,
+      ...hostedRules,
+      { pathPattern: '/api/actions/**', apiPath: '/api/actions/**' },
+    ],
+  }
+}
+
+/**
+ * Action API path behind a Blink page, the same mapping the actions.json
+ * rules publish; null when the id is neither a built-in route nor a stored Blink
+ */
+export async function resolveBlinkPage(id: string, registry: BlinkRepository = blinkRegistry): Promise<string | null> {
+  if (STATIC_ACTION_ROUTES.includes(id)) {
+    return `/api/actions/${id}`
+  }
+  try {
+    return (await registry.get(id)) ? hostedBlinkPath(id) : null
+  } catch (error) {
+    if (error instanceof BlinkRegistryError && error.code === 'INVALID_ID') return null
+    throw error
+  }
+}
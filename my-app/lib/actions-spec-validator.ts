@@ -0,0 +1,390 @@
+/**
+ * Actions Spec Validator
+ * Checks action payloads and headers against the Solana Actions schema
+ * (v2.4): GET responses, POST responses, next actions, actions.json and the
+ * X-Action-Version / X-Blockchain-Ids / CORS headers. Errors break clients;
+ * warnings are spec recommendations (SHOULDs) a client may still tolerate.
+ */
+
+import { ACTIONS_SPEC_VERSION } from './blinks-types'
+
+export interface ActionSpecIssue {
+  path: string // Location in the payload, e.g. "links.actions[0].parameters[1].name"
+  message: string
+}
+
+export interface ActionSpecReport {
+  valid: boolean
+  errors: ActionSpecIssue[]
+  warnings: ActionSpecIssue[]
+}
+
+const LINKED_ACTION_TYPES = ['transaction', 'message', 'post', 'external-link']
+const PARAMETER_TYPES = ['text', 'email', 'url', 'number', 'date', 'datetime-local', 'textarea', 'select', 'radio', 'checkbox']
+const SELECTABLE_TYPES = ['select', 'radio', 'checkbox']
+const ICON_EXTENSIONS = /\.(png|svg|webp)$/i
+const BASE64 = /^[A-Za-z0-9+/]+={0,2}$/
+const CAIP2_SOLANA = /^solana:[1-9A-HJ-NP-Za-km-z]{32}$/
+const LABEL_MAX_WORDS = 5
+
+class ReportBuilder {
+  private errors: ActionSpecIssue[] = []
+  private warnings: ActionSpecIssue[] = []
+
+  error(path: string, message: string) {
+    this.errors.push({ path, message })
+  }
+
+  warn(path: string, message: string) {
+    this.warnings.push({ path, message })
+  }
+
+  build(): ActionSpecReport {
+    return { valid: this.errors.length === 0, errors: this.errors, warnings: this.warnings }
+  }
+}
+
+/**
+ * GET response of an action URL
+ */
+export function validateActionGet(payload: unknown): ActionSpecReport {
+  const report = new ReportBuilder()
+  checkAction(payload, '', report, ['action'])
+  return report.build()
+}
+
+/**
+ * Action returned by a `links.next` callback or inline link
+ */
+export function validateNextAction(payload: unknown): ActionSpecReport {
+  const report = new ReportBuilder()
+  checkAction(payload, '', report, ['action', 'completed'])
+  return report.build()
+}
+
+/**
+ * POST response of an action URL
+ */
+export function validateActionPost(payload: unknown): ActionSpecReport {
+  const report = new ReportBuilder()
+  if (!isObject(payload)) {
+    report.error('', 'Response must be a JSON object')
+    return report.build()
+  }
+
+  const type = payload.type ?? 'transaction'
+  if (!LINKED_ACTION_TYPES.includes(type)) {
+    report.error('type', `Unknown response type "${type}"`)
+  }
+  if (payload.message !== undefined && typeof payload.message !== 'string') {
+    report.error('message', 'message must be a string')
+  }
+
+  if (type === 'transaction') {
+    if (typeof payload.transaction !== 'string' || !payload.transaction) {
+      report.error('transaction', 'transaction is required for transaction responses')
+    } else if (!BASE64.test(payload.transaction)) {
+      report.error('transaction', 'transaction must be a base64-encoded serialized transaction')
+    }
+  }
+  if (type === 'external-link' && !isHttpUrl(payload.externalLink)) {
+    report.error('externalLink', 'externalLink must be an absolute http(s) URL')
+  }
+  if (type === 'message') {
+    if (typeof payload.data !== 'string' && !isObject(payload.data)) {
+      report.error('data', 'data is required for message responses')
+    }
+    if (payload.links?.next?.type !== 'post') {
+      report.error('links.next', 'Message responses must continue with a post link')
+    }
+  }
+
+  if (payload.links !== undefined) {
+    checkNextLink(payload.links?.next, 'links.next', report)
+  }
+  return report.build()
+}
+
+/**
+ * Root actions.json mapping website paths to action API paths
+ */
+export function validateActionsJson(payload: unknown): ActionSpecReport {
+  const report = new ReportBuilder()
+  if (!isObject(payload) || !Array.isArray(payload.rules)) {
+    report.error('rules', 'actions.json must be an object with a rules array')
+    return report.build()
+  }
+
+  payload.rules.forEach((rule: any, index: number) => {
+    const path = `rules[${index}]`
+    for (const field of ['pathPattern', 'apiPath'] as const) {
+      const value = rule?.[field]
+      if (typeof value !== 'string' || !value) {
+        report.error(`${path}.${field}`, `${field} is required`)
+      } else if (!value.startsWith('/') && !isHttpUrl(value)) {
+        report.error(`${path}.${field}`, `${field} must be an absolute path or an https URL`)
+      }
+    }
+  })
+  return report.build()
+}
+
+/**
+ * Headers every action response (and actions.json) must carry
+ */
+export function validateActionHeaders(headers: Headers): ActionSpecReport {
+  const report = new ReportBuilder()
+
+  if (headers.get('access-control-allow-origin') !== '*') {
+    report.error('Access-Control-Allow-Origin', 'Actions must allow any origin ("*")')
+  }
+
+  const version = headers.get('x-action-version')
+  if (!version) {
+    report.error('X-Action-Version', 'Missing X-Action-Version header')
+  } else if (!/^\d+\.\d+(\.\d+)?$/.test(version)) {
+    report.error('X-Action-Version', `Malformed version "${version}"`)
+  } else if (compareVersions(version, ACTIONS_SPEC_VERSION) < 0) {
+    report.warn('X-Action-Version', `Declares spec ${version}; clients may expect ${ACTIONS_SPEC_VERSION}`)
+  }
+
+  const chains = headers.get('x-blockchain-ids')
+  if (!chains) {
+    report.error('X-Blockchain-Ids', 'Missing X-Blockchain-Ids header')
+  } else {
+    for (const chain of chains.split(',').map(entry => entry.trim())) {
+      if (!CAIP2_SOLANA.test(chain)) {
+        report.error('X-Blockchain-Ids', `"${chain}" is not a CAIP-2 Solana chain id`)
+      }
+    }
+  }
+
+  const exposed = (headers.get('access-control-expose-headers') || '').toLowerCase()
+  if (!exposed.includes('x-action-version') || !exposed.includes('x-blockchain-ids')) {
+    report.warn('Access-Control-Expose-Headers', 'Browser clients cannot read X-Action-Version and X-Blockchain-Ids unless they are exposed')
+  }
+  return report.build()
+}
+
+/**
+ * Fetch an action URL and check both its headers and its GET payload
+ */
+export async function checkActionEndpoint(actionUrl: string, fetchImpl: typeof fetch = fetch): Promise<ActionSpecReport> {
+  const response = await fetchImpl(actionUrl, { headers: { Accept: 'application/json' } })
+  if (!response.ok) {
+    return {
+      valid: false,
+      errors: [{ path: '', message: `Endpoint returned status ${response.status}` }],
+      warnings: [],
+    }
+  }
+
+  const payload = await response.json().catch(() => null)
+  return mergeReports(validateActionHeaders(response.headers), validateActionGet(payload))
+}
+
+export function mergeReports(...reports: ActionSpecReport[]): ActionSpecReport {
+  const errors = reports.flatMap(report => report.errors)
+  return {
+    valid: errors.length === 0,
+    errors,
+    warnings: reports.flatMap(report => report.warnings),
+  }
+}
+
+function checkAction(payload: unknown, path: string, report: ReportBuilder, allowedTypes: string[]) {
+  const at = (field: string) => (path ? `${path}.${field}` : field)
+  if (!isObject(payload)) {
+    report.error(path, 'Action must be a JSON object')
+    return
+  }
+
+  const type = payload.type ?? 'action'
+  if (!allowedTypes.includes(type)) {
+    report.error(at('type'), `type must be ${allowedTypes.map(entry => `"${entry}"`).join(' or ')}`)
+  }
+
+  if (!isHttpUrl(payload.icon)) {
+    report.error(at('icon'), 'icon must be an absolute http(s) URL')
+  } else if (!ICON_EXTENSIONS.test(new URL(payload.icon).pathname)) {
+    report.warn(at('icon'), 'icon should be a PNG, SVG or WebP image')
+  }
+  for (const field of ['title', 'description', 'label'] as const) {
+    if (typeof payload[field] !== 'string' || !payload[field].trim()) {
+      report.error(at(field), `${field} is required`)
+    }
+  }
+  checkLabel(payload.label, at('label'), report)
+  if (payload.disabled !== undefined && typeof payload.disabled !== 'boolean') {
+    report.error(at('disabled'), 'disabled must be a boolean')
+  }
+  if (payload.error !== undefined && typeof payload.error?.message !== 'string') {
+    report.error(at('error.message'), 'error must carry a message string')
+  }
+
+  if (type === 'completed') {
+    if (payload.links !== undefined) {
+      report.error(at('links'), 'Completed actions cannot have links')
+    }
+    return
+  }
+  if (payload.links === undefined) return
+  if (!Array.isArray(payload.links?.actions)) {
+    report.error(at('links.actions'), 'links.actions must be an array')
+    return
+  }
+  payload.links.actions.forEach((action: unknown, index: number) => {
+    checkLinkedAction(action, at(`links.actions[${index}]`), report)
+  })
+}
+
+function checkLinkedAction(action: unknown, path: string, report: ReportBuilder) {
+  if (!isObject(action)) {
+    report.error(path, 'Linked action must be an object')
+    return
+  }
+
+  if (!LINKED_ACTION_TYPES.includes(action.type)) {
+    report.error(`${path}.type`, `type must be one of ${LINKED_ACTION_TYPES.join(', ')}`)
+  }
+  if (typeof action.label !== 'string' || !action.label.trim()) {
+    report.error(`${path}.label`, 'label is required')
+  }
+  checkLabel(action.label, `${path}.label`, report)
+  if (typeof action.href !== 'string' || !action.href) {
+    report.error(`${path}.href`, 'href is required')
+    return
+  }
+  if (!action.href.startsWith('/') && !isHttpUrl(action.href)) {
+    report.error(`${path}.href`, 'href must be a path or an absolute http(s) URL')
+  }
+
+  const parameters: unknown[] = action.parameters ?? []
+  if (!Array.isArray(parameters)) {
+    report.error(`${path}.parameters`, 'parameters must be an array')
+    return
+  }
+  const names = new Set<string>()
+  parameters.forEach((parameter, index) => {
+    const name = checkParameter(parameter, `${path}.parameters[${index}]`, report)
+    if (!name) return
+    if (names.has(name)) {
+      report.error(`${path}.parameters[${index}].name`, `Duplicate parameter "${name}"`)
+    }
+    names.add(name)
+    if (!action.href.includes(`{${name}}`)) {
+      report.warn(`${path}.parameters[${index}]`, `"${name}" has no {${name}} placeholder in href; its value only reaches the server in the POST body`)
+    }
+  })
+
+  const placeholders = action.href.match(/\{[^{}]+\}/g) || []
+  for (const placeholder of placeholders) {
+    const name = placeholder.slice(1, -1)
+    if (!names.has(name)) {
+      report.error(`${path}.href`, `Placeholder ${placeholder} has no matching parameter`)
+    }
+  }
+}
+
+function checkParameter(parameter: unknown, path: string, report: ReportBuilder): string | null {
+  if (!isObject(parameter)) {
+    report.error(path, 'Parameter must be an object')
+    return null
+  }
+
+  const type = parameter.type ?? 'text'
+  if (!PARAMETER_TYPES.includes(type)) {
+    report.error(`${path}.type`, `Unknown parameter type "${type}"`)
+  }
+  if (parameter.required !== undefined && typeof parameter.required !== 'boolean') {
+    report.error(`${path}.required`, 'required must be a boolean')
+  }
+
+  if (SELECTABLE_TYPES.includes(type)) {
+    const options = parameter.options
+    if (!Array.isArray(options) || options.length === 0) {
+      report.error(`${path}.options`, `${type} parameters need options`)
+    } else {
+      options.forEach((option: any, index: number) => {
+        if (typeof option?.label !== 'string' || typeof option?.value !== 'string') {
+          report.error(`${path}.options[${index}]`, 'Options need string label and value')
+        }
+      })
+      if (type !== 'checkbox' && options.filter((option: any) => option?.selected).length > 1) {
+        report.error(`${path}.options`, `Only one ${type} option can be selected`)
+      }
+    }
+    if (parameter.pattern !== undefined) {
+      report.error(`${path}.pattern`, `${type} parameters cannot have a pattern`)
+    }
+  } else if (parameter.options !== undefined) {
+    report.warn(`${path}.options`, `options are ignored on ${type} parameters`)
+  }
+
+  if (type === 'number') {
+    for (const bound of ['min', 'max'] as const) {
+      if (parameter[bound] !== undefined && typeof parameter[bound] !== 'number') {
+        report.error(`${path}.${bound}`, `${bound} must be a number on number parameters`)
+      }
+    }
+  }
+  if (typeof parameter.pattern === 'string') {
+    try {
+      new RegExp(parameter.pattern)
+    } catch {
+      report.error(`${path}.pattern`, 'pattern is not a valid regular expression')
+    }
+  }
+
+  if (typeof parameter.name !== 'string' || !parameter.name) {
+    report.error(`${path}.name`, 'name is required')
+    return null
+  }
+  return parameter.name
+}
+
+function checkNextLink(next: unknown, path: string, report: ReportBuilder) {
+  if (!isObject(next)) {
+    report.error(path, 'links.next must be an object')
+    return
+  }
+  if (next.type === 'post') {
+    if (typeof next.href !== 'string' || (!next.href.startsWith('/') && !isHttpUrl(next.href))) {
+      report.error(`${path}.href`, 'Post links need a path or absolute URL href')
+    }
+  } else if (next.type === 'inline') {
+    checkAction(next.action, `${path}.action`, report, ['action', 'completed'])
+  } else {
+    report.error(`${path}.type`, 'links.next type must be "post" or "inline"')
+  }
+}
+
+function checkLabel(label: unknown, path: string, report: ReportBuilder) {
+  if (typeof label === 'string' && label.trim().split(/\s+/).length > LABEL_MAX_WORDS) {
+    report.warn(path, `Labels should be at most ${LABEL_MAX_WORDS} words`)
+  }
+}
+
+function compareVersions(a: string, b: string): number {
+  const left = a.split('.').map(Number)
+  const right = b.split('.').map(Number)
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const diff = (left[i] || 0) - (right[i] || 0)
+    if (diff !== 0) return diff
+  }
+  return 0
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isHttpUrl(value: unknown): value is string {
+  if (typeof value !== 'string') return false
+  try {
+    const url = new URL(value)
+    return url.protocol === 'https:' || url.protocol === 'http:'
+  } catch {
+    return false
+  }
+}
@@ -0,0 +1,467 @@
+/**
+ * Address Inspector
+ * Classifies any Solana address for the `inspect-address` tool: wallet,
+ * program, mint, token account, stake or vote account, nonce account,
+ * metadata or other program-owned account (PDA). Known layouts are decoded,
+ * labels come from a local registry and recent activity is summarized from
+ * `getSignaturesForAddress`.
+ *
+ * Labels ship in lib/address-labels.json; ADDRESS_LABELS_FILE may point at a
+ * JSON file of the same shape whose entries extend or override them.
+ */
+
+import { promises as fs } from 'fs';
+import {
+  Connection,
+  LAMPORTS_PER_SOL,
+  NONCE_ACCOUNT_LENGTH,
+  NonceAccount,
+  PublicKey,
+  StakeProgram,
+  SystemProgram,
+  VOTE_PROGRAM_ID,
+  type AccountInfo,
+  type ConfirmedSignatureInfo,
+} from '@solana/web3.js';
+import {
+  ExtensionType,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  getExtensionTypes,
+  unpackAccount,
+  unpackMint,
+} from '@solana/spl-token';
+import { SOLANA_CONFIG } from './solana-config';
+import { jupiterTokenService } from './jupiter-token-service';
+import { decodeMetadata } from './nft-service';
+import { transactionDecoder } from './transaction-decoder';
+import { parseStakeAccount } from './staking-service';
+import bundledLabels from './address-labels.json';
+
+const BPF_UPGRADEABLE_LOADER_ID = new PublicKey('BPFLoaderUpgradeab1e11111111111111111111111');
+const TOKEN_METADATA_PROGRAM_ID = new PublicKey('metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s');
+const MAX_ACTIVITY = 50;
+const MAX_EXPLAINED = 5;
+
+export type AddressKind =
+  | 'wallet'
+  | 'program'
+  | 'mint'
+  | 'token-account'
+  | 'stake-account'
+  | 'vote-account'
+  | 'nonce-account'
+  | 'metadata'
+  | 'program-account'
+  | 'pda';
+
+export type LabelCategory = 'exchange' | 'program' | 'validator' | 'protocol' | 'token' | 'other';
+
+export interface AddressLabel {
+  name: string;
+  category: LabelCategory;
+}
+
+export interface RecentActivity {
+  transactions: number; // Signatures returned, up to the requested limit
+  failed: number;
+  firstSeen: string | null; // Oldest transaction in the window
+  lastSeen: string | null;
+  perDay: number | null; // Average over the window
+  latest: {
+    signature: string;
+    time: string | null;
+    status: 'success' | 'failed';
+    memo?: string;
+    narrative?: string; // From the transaction decoder, for the most recent few
+  }[];
+  summary: string;
+}
+
+export interface AddressInspection {
+  address: string;
+  kind: AddressKind;
+  description: string; // e.g. "Token account holding 12.5 USDC for 9xQe…"
+  exists: boolean;
+  onCurve: boolean; // Off-curve addresses are PDAs and have no private key
+  owner: string | null; // Owning program
+  ownerLabel?: AddressLabel;
+  label?: AddressLabel;
+  balanceSol: number;
+  executable: boolean;
+  dataSize: number;
+  details: Record<string, unknown>; // Decoded fields for the account's layout
+  relatedLabels: Record<string, AddressLabel>; // Labels of addresses referenced in details
+  activity: RecentActivity | null;
+  inspectedAt: string;
+}
+
+export interface InspectOptions {
+  activityLimit?: number; // Recent signatures to summarize, 0 to skip
+  explain?: number; // Latest transactions to decode into narratives
+}
+
+export class AddressInspectionError extends Error {
+  constructor(message: string, public code: 'INVALID_ADDRESS' | 'RPC_ERROR') {
+    super(message);
+    this.name = 'AddressInspectionError';
+  }
+}
+
+interface DecodedAccount {
+  kind: AddressKind;
+  description: string;
+  details: Record<string, unknown>;
+}
+
+export class AddressInspector {
+  private connection: Connection;
+  private labels: Promise<Map<string, AddressLabel>> | null = null;
+  private labelsFile?: string;
+
+  constructor(connection?: Connection, labelsFile: string | undefined = process.env.ADDRESS_LABELS_FILE) {
+    this.connection = connection || new Connection(SOLANA_CONFIG.rpcUrl[SOLANA_CONFIG.network], SOLANA_CONFIG.commitment);
+    this.labelsFile = labelsFile;
+  }
+
+  async getLabel(address: string): Promise<AddressLabel | undefined> {
+    return (await this.loadLabels()).get(address);
+  }
+
+  /**
+   * Classify an address, decode its account and summarize its recent activity
+   */
+  async inspect(address: string, options: InspectOptions = {}): Promise<AddressInspection> {
+    let pubkey: PublicKey;
+    try {
+      pubkey = new PublicKey(address.trim());
+    } catch {
+      throw new AddressInspectionError(`Invalid Solana address: ${address}`, 'INVALID_ADDRESS');
+    }
+    const base58 = pubkey.toBase58();
+    const onCurve = PublicKey.isOnCurve(pubkey.toBytes());
+
+    let account: AccountInfo<Buffer> | null;
+    try {
+      account = await this.connection.getAccountInfo(pubkey);
+    } catch (error: any) {
+      throw new AddressInspectionError(`Failed to load account: ${error.message || error}`, 'RPC_ERROR');
+    }
+
+    const activityLimit = Math.min(Math.max(options.activityLimit ?? 10, 0), MAX_ACTIVITY);
+    const [decoded, activity, labels] = await Promise.all([
+      this.decodeAccount(pubkey, account, onCurve),
+      activityLimit > 0
+        ? this.summarizeActivity(pubkey, activityLimit, Math.min(options.explain ?? 3, MAX_EXPLAINED)).catch(() => null)
+        : Promise.resolve(null),
+      this.loadLabels(),
+    ]);
+
+    const owner = account ? account.owner.toBase58() : null;
+    const relatedLabels: Record<string, AddressLabel> = {};
+    for (const value of Object.values(decoded.details)) {
+      if (typeof value === 'string' && labels.has(value) && value !== base58) {
+        relatedLabels[value] = labels.get(value)!;
+      }
+    }
+
+    return {
+      address: base58,
+      kind: decoded.kind,
+      description: decoded.description,
+      exists: !!account,
+      onCurve,
+      owner,
+      ownerLabel: owner ? labels.get(owner) : undefined,
+      label: labels.get(base58),
+      balanceSol: (account?.lamports ?? 0) / LAMPORTS_PER_SOL,
+      executable: account?.executable ?? false,
+      dataSize: account?.data.length ?? 0,
+      details: decoded.details,
+      relatedLabels,
+      activity,
+      inspectedAt: new Date().toISOString(),
+    };
+  }
+
+  private async decodeAccount(pubkey: PublicKey, account: AccountInfo<Buffer> | null, onCurve: boolean): Promise<DecodedAccount> {
+    if (!account) {
+      return onCurve
+        ? { kind: 'wallet', description: 'Wallet with no SOL and no on-chain account yet', details: {} }
+        : { kind: 'pda', description: 'Program-derived address with no account yet', details: {} };
+    }
+
+    const { owner } = account;
+    try {
+      if (account.executable) {
+        return await this.decodeProgram(account);
+      }
+      if (owner.equals(TOKEN_PROGRAM_ID) || owner.equals(TOKEN_2022_PROGRAM_ID)) {
+        return await this.decodeTokenAccount(pubkey, account);
+      }
+      if (owner.equals(StakeProgram.programId)) {
+        return decodeStakeAccount(account);
+      }
+      if (owner.equals(VOTE_PROGRAM_ID)) {
+        return decodeVoteAccount(account);
+      }
+      if (owner.equals(SystemProgram.programId)) {
+        if (account.data.length === NONCE_ACCOUNT_LENGTH) {
+          const nonce = NonceAccount.fromAccountData(account.data);
+          return {
+            kind: 'nonce-account',
+            description: `Durable nonce account controlled by ${nonce.authorizedPubkey.toBase58()}`,
+            details: { authority: nonce.authorizedPubkey.toBase58(), nonce: nonce.nonce },
+          };
+        }
+        return onCurve
+          ? { kind: 'wallet', description: `Wallet holding ${account.lamports / LAMPORTS_PER_SOL} SOL`, details: {} }
+          : { kind: 'pda', description: 'System-owned program-derived address', details: {} };
+      }
+      if (owner.equals(TOKEN_METADATA_PROGRAM_ID)) {
+        const metadata = decodeMetadata(account.data);
+        if (metadata) {
+          return {
+            kind: 'metadata',
+            description: `Metaplex metadata for ${metadata.name || metadata.mint}`,
+            details: { ...metadata, collection: metadata.collection?.key, collectionVerified: metadata.collection?.verified },
+          };
+        }
+      }
+    } catch {
+      // Layout did not match; fall through to a generic program-owned account
+    }
+
+    return {
+      kind: 'program-account',
+      description: `${onCurve ? 'Account' : 'Program-derived account'} owned by program ${owner.toBase58()}`,
+      details: { pda: !onCurve },
+    };
+  }
+
+  private async decodeProgram(account: AccountInfo<Buffer>): Promise<DecodedAccount> {
+    const details: Record<string, unknown> = { loader: account.owner.toBase58() };
+
+    // Upgradeable programs point at a ProgramData account holding the upgrade authority
+    if (account.owner.equals(BPF_UPGRADEABLE_LOADER_ID) && account.data.readUInt32LE(0) === 2) {
+      const programData = new PublicKey(account.data.subarray(4, 36));
+      details.programData = programData.toBase58();
+      const dataAccount = await this.connection.getAccountInfo(programData, { dataSlice: { offset: 0, length: 45 } });
+      if (dataAccount && dataAccount.data.readUInt32LE(0) === 3) {
+        details.lastDeploySlot = Number(dataAccount.data.readBigUInt64LE(4));
+        details.upgradeAuthority = dataAccount.data.readUInt8(12) === 1
+          ? new PublicKey(dataAccount.data.subarray(13, 45)).toBase58()
+          : null;
+      }
+    }
+
+    const mutability = details.upgradeAuthority === null
+      ? 'immutable'
+      : details.upgradeAuthority ? `upgradeable by ${details.upgradeAuthority}` : 'loaded';
+    return { kind: 'program', description: `Executable program (${mutability})`, details };
+  }
+
+  private async decodeTokenAccount(pubkey: PublicKey, account: AccountInfo<Buffer>): Promise<DecodedAccount> {
+    const programId = account.owner;
+    const tokenProgram = programId.equals(TOKEN_2022_PROGRAM_ID) ? 'token-2022' : 'spl-token';
+
+    // Token-2022 accounts carry an account type byte after the base layout; mints are shorter than accounts otherwise
+    const isMint = account.data.length === 82 || (account.data.length > 165 && account.data[165] === 1);
+    if (isMint) {
+      const mint = unpackMint(pubkey, account, programId);
+      const [token, metadata] = await Promise.all([
+        jupiterTokenService.getTokenData(pubkey.toBase58()).catch(() => null),
+        this.getMetadata(pubkey),
+      ]);
+      const name = token?.name || metadata?.name;
+      const symbol = token?.symbol || metadata?.symbol;
+      const supply = Number(mint.supply) / Math.pow(10, mint.decimals);
+      const isNft = mint.decimals === 0 && mint.supply === BigInt(1);
+      return {
+        kind: 'mint',
+        description: `${isNft ? 'NFT' : 'Token'} mint${name ? ` for ${name}${symbol ? ` (${symbol})` : ''}` : ''} with supply ${supply}`,
+        details: {
+          tokenProgram,
+          name,
+          symbol,
+          decimals: mint.decimals,
+          supply,
+          mintAuthority: mint.mintAuthority?.toBase58() ?? null,
+          freezeAuthority: mint.freezeAuthority?.toBase58() ?? null,
+          extensions: getExtensionTypes(mint.tlvData).map(type => ExtensionType[type]),
+          verified: token ? token.isVerified ?? null : null,
+        },
+      };
+    }
+
+    const tokenAccount = unpackAccount(pubkey, account, programId);
+    const mint = tokenAccount.mint.toBase58();
+    const [token, mintInfo] = await Promise.all([
+      jupiterTokenService.getTokenData(mint).catch(() => null),
+      this.connection.getAccountInfo(tokenAccount.mint).catch(() => null),
+    ]);
+    const decimals = token?.decimals ?? (mintInfo ? unpackMint(tokenAccount.mint, mintInfo, programId).decimals : 0);
+    const amount = Number(tokenAccount.amount) / Math.pow(10, decimals);
+    const owner = tokenAccount.owner.toBase58();
+    const state = tokenAccount.isFrozen ? 'frozen' : tokenAccount.isInitialized ? 'initialized' : 'uninitialized';
+
+    return {
+      kind: 'token-account',
+      description: `Token account holding ${amount} ${token?.symbol || mint} for ${owner}${tokenAccount.isFrozen ? ' (frozen)' : ''}`,
+      details: {
+        tokenProgram,
+        mint,
+        symbol: token?.symbol,
+        owner,
+        amount,
+        decimals,
+        delegate: tokenAccount.delegate?.toBase58() ?? null,
+        delegatedAmount: tokenAccount.delegate ? Number(tokenAccount.delegatedAmount) / Math.pow(10, decimals) : 0,
+        state,
+        isNative: tokenAccount.isNative,
+        closeAuthority: tokenAccount.closeAuthority?.toBase58() ?? null,
+        extensions: getExtensionTypes(tokenAccount.tlvData).map(type => ExtensionType[type]),
+      },
+    };
+  }
+
+  private async getMetadata(mint: PublicKey) {
+    const [address] = PublicKey.findProgramAddressSync(
+      [Buffer.from('metadata'), TOKEN_METADATA_PROGRAM_ID.toBuffer(), mint.toBuffer()],
+      TOKEN_METADATA_PROGRAM_ID
+    );
+    const info = await this.connection.getAccountInfo(address).catch(() => null);
+    return info ? decodeMetadata(info.data) : null;
+  }
+
+  private async summarizeActivity(pubkey: PublicKey, limit: number, explain: number): Promise<RecentActivity> {
+    let signatures: ConfirmedSignatureInfo[];
+    try {
+      signatures = await this.connection.getSignaturesForAddress(pubkey, { limit });
+    } catch (error: any) {
+      throw new AddressInspectionError(`Failed to load activity: ${error.message || error}`, 'RPC_ERROR');
+    }
+
+    const times = signatures.map(info => info.blockTime).filter((time): time is number => typeof time === 'number');
+    const first = times.length > 0 ? Math.min(...times) : null;
+    const last = times.length > 0 ? Math.max(...times) : null;
+    const failed = signatures.filter(info => info.err).length;
+    const spanDays = first !== null && last !== null ? (last - first) / 86400 : 0;
+
+    const latest: RecentActivity['latest'] = signatures.map(info => ({
+      signature: info.signature,
+      time: info.blockTime ? new Date(info.blockTime * 1000).toISOString() : null,
+      status: info.err ? 'failed' : 'success',
+      memo: info.memo || undefined,
+    }));
+    await Promise.all(latest.slice(0, explain).map(async entry => {
+      entry.narrative = await transactionDecoder.decode(entry.signature)
+        .then(decoded => decoded.narrative)
+        .catch(() => undefined);
+    }));
+
+    const perDay = spanDays > 0 ? Number((signatures.length / spanDays).toFixed(2)) : null;
+    const summary = signatures.length === 0
+      ? 'No transactions found'
+      : [
+          `${signatures.length === limit ? 'Latest ' : ''}${signatures.length} transaction${signatures.length === 1 ? '' : 's'}`,
+          first !== null && last !== null ? `between ${new Date(first * 1000).toISOString().slice(0, 10)} and ${new Date(last * 1000).toISOString().slice(0, 10)}` : null,
+          failed > 0 ? `${failed} failed` : null,
+          perDay !== null ? `~${perDay} per day` : null,
+        ].filter(Boolean).join(', ');
+
+    return {
+      transactions: signatures.length,
+      failed,
+      firstSeen: first !== null ? new Date(first * 1000).toISOString() : null,
+      lastSeen: last !== null ? new Date(last * 1000).toISOString() : null,
+      perDay,
+      latest,
+      summary,
+    };
+  }
+
+  private loadLabels(): Promise<Map<string, AddressLabel>> {
+    if (!this.labels) {
+      this.labels = (async () => {
+        const labels = new Map(Object.entries(bundledLabels.labels as Record<string, AddressLabel>));
+        if (this.labelsFile) {
+          try {
+            const extra = JSON.parse(await fs.readFile(this.labelsFile, 'utf8'));
+            for (const [address, label] of Object.entries(extra.labels || {})) {
+              labels.set(address, label as AddressLabel);
+            }
+          } catch (error: any) {
+            console.warn(`Cannot read address labels ${this.labelsFile}: ${error.message || error}`);
+          }
+        }
+        return labels;
+      })();
+    }
+    return this.labels;
+  }
+}
+
+/**
+ * StakeStateV2: u32 variant, Meta (rent reserve, staker, withdrawer, lockup),
+ * then for delegated stakes the Delegation (voter, stake, activation and
+ * deactivation epochs)
+ */
+export function decodeStakeAccount(account: AccountInfo<Buffer>): DecodedAccount {
+  const parsed = parseStakeAccount(account.data);
+  if (!parsed) {
+    return { kind: 'stake-account', description: 'Stake account (unknown state)', details: { state: 'unknown' } };
+  }
+
+  const details: Record<string, unknown> = { state: parsed.state };
+  if (parsed.staker) {
+    details.rentExemptReserve = parsed.rentExemptReserve / LAMPORTS_PER_SOL;
+    details.staker = parsed.staker;
+    details.withdrawer = parsed.withdrawer;
+    details.lockupUnixTimestamp = parsed.lockup?.unixTimestamp;
+    details.lockupEpoch = parsed.lockup?.epoch;
+    details.custodian = parsed.lockup?.custodian;
+  }
+  if (parsed.delegation) {
+    details.voter = parsed.delegation.voter;
+    details.delegatedStake = parsed.delegation.stake / LAMPORTS_PER_SOL;
+    details.activationEpoch = parsed.delegation.activationEpoch;
+    details.deactivationEpoch = parsed.delegation.deactivationEpoch;
+  }
+
+  const description = parsed.delegation
+    ? `Stake account delegating ${details.delegatedStake} SOL to vote account ${details.voter}${details.deactivationEpoch !== null ? ` (deactivating since epoch ${details.deactivationEpoch})` : ''}`
+    : `Stake account (${details.state})`;
+  return { kind: 'stake-account', description, details };
+}
+
+/**
+ * VoteState versions 1.14.11 and current share the leading fields: node
+ * identity, authorized withdrawer and commission
+ */
+export function decodeVoteAccount(account: AccountInfo<Buffer>): DecodedAccount {
+  const data = account.data;
+  const version = data.readUInt32LE(0);
+  if (version !== 1 && version !== 2) {
+    return { kind: 'vote-account', description: 'Validator vote account', details: { version } };
+  }
+
+  const details = {
+    version,
+    nodeIdentity: new PublicKey(data.subarray(4, 36)).toBase58(),
+    authorizedWithdrawer: new PublicKey(data.subarray(36, 68)).toBase58(),
+    commission: data.readUInt8(68),
+  };
+  return {
+    kind: 'vote-account',
+    description: `Validator vote account for node ${details.nodeIdentity} with ${details.commission}% commission`,
+    details,
+  };
+}
+
+export function createAddressInspector(connection?: Connection): AddressInspector {
+  return new AddressInspector(connection);
+}
+
+// Export singleton instance
+export const addressInspector = createAddressInspector();
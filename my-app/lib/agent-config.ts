@@ -54,6 +54,8 @@ export const AGENT_CONFIG = {
       'tool_error': 'retry_with_backoff',
       'rate_limit': 'exponential_backoff',
     },
+    // Tools with side effects that must never be re-run automatically
+    nonRetryableTools: ['transfer-sol', 'transfer-token', 'stake-sol', 'liquid-stake', 'jupiter-ultra-swap'],
   },
   
   // Performance optimization
@@ -70,6 +72,9 @@ export const AGENT_CONFIG = {
     allowedDomains: ['*'], // Configure based on your security requirements
     maxCodeExecutionTime: 10000,
     restrictedOperations: ['file_system', 'network_calls'],
+    // Tools that move funds; calls return a preview and wait for explicit user approval
+    valueMovingTools: ['transfer-sol', 'transfer-token', 'stake-sol', 'liquid-stake', 'jupiter-ultra-swap'],
+    approvalTimeout: 600000, // 10 minutes
   },
 };
 
@@ -0,0 +1,273 @@
+/**
+ * Agent Tool Executor
+ * Applies AGENT_CONFIG execution policy (timeouts, bounded parallelism and
+ * retry strategies) to the tools handed to streamText, and records every
+ * attempt so the chat route can surface tool progress to the UI.
+ */
+
+import type { ToolCallOptions } from 'ai';
+import { AGENT_CONFIG, type AgentConfig } from './agent-config';
+
+export type ToolFailureKind = 'tool_timeout' | 'tool_error' | 'rate_limit';
+
+export interface ToolExecutionRecord {
+  toolCallId: string;
+  toolName: string;
+  step: number;
+  status: 'queued' | 'running' | 'retrying' | 'completed' | 'failed' | 'skipped';
+  attempts: number;
+  startedAt: string;
+  durationMs?: number;
+  failure?: ToolFailureKind;
+  strategy?: string;
+  error?: string;
+}
+
+// Payload of the `data-agent-step` UI message part
+export interface AgentStepData {
+  step: number;
+  maxSteps: number;
+  status: 'running' | 'completed';
+  tools: ToolExecutionRecord[];
+  finishReason?: string;
+}
+
+class ToolTimeoutError extends Error {
+  constructor(toolName: string, timeoutMs: number) {
+    super(`Tool ${toolName} timed out after ${timeoutMs}ms`);
+    this.name = 'ToolTimeoutError';
+  }
+}
+
+export class ToolExecutor {
+  private config: AgentConfig;
+  private onUpdate?: (record: ToolExecutionRecord) => void;
+  private records = new Map<string, ToolExecutionRecord>();
+  private currentStep = 1;
+  private active = 0;
+  private waiting: Array<() => void> = [];
+
+  constructor(config: AgentConfig = AGENT_CONFIG, onUpdate?: (record: ToolExecutionRecord) => void) {
+    this.config = config;
+    this.onUpdate = onUpdate;
+  }
+
+  /**
+   * Wrap every executable tool so calls go through the execution policy
+   */
+  wrapTools<T extends Record<string, any>>(tools: T): T {
+    const wrapped: Record<string, any> = {};
+
+    for (const [toolName, tool] of Object.entries(tools)) {
+      if (typeof tool?.execute !== 'function') {
+        wrapped[toolName] = tool;
+        continue;
+      }
+
+      wrapped[toolName] = {
+        ...tool,
+        execute: (input: unknown, options: ToolCallOptions) =>
+          this.execute(toolName, tool.execute.bind(tool), input, options),
+      };
+    }
+
+    return wrapped as T;
+  }
+
+  /**
+   * Mark the start of a new model step; subsequent records are grouped under it
+   */
+  setStep(step: number): void {
+    this.currentStep = step;
+  }
+
+  /**
+   * Get execution records, optionally limited to one step
+   */
+  getRecords(step?: number): ToolExecutionRecord[] {
+    const records = Array.from(this.records.values());
+    return step === undefined ? records : records.filter(record => record.step === step);
+  }
+
+  /**
+   * Run a single tool call with concurrency limit, timeout and retries
+   */
+  private async execute(
+    toolName: string,
+    execute: (input: unknown, options: ToolCallOptions) => unknown,
+    input: unknown,
+    options: ToolCallOptions
+  ): Promise<unknown> {
+    const record: ToolExecutionRecord = {
+      toolCallId: options.toolCallId,
+      toolName,
+      step: this.currentStep,
+      status: 'queued',
+      attempts: 0,
+      startedAt: new Date().toISOString(),
+    };
+    this.update(record);
+
+    await this.acquire();
+    const startTime = Date.now();
+    const maxAttempts = this.isRetryable(toolName) ? this.config.errorHandling.maxRetries + 1 : 1;
+    // Attempts abandoned on timeout keep the slot until they actually settle
+    const attempts: Promise<unknown>[] = [];
+
+    try {
+      for (let attempt = 1; ; attempt++) {
+        options.abortSignal?.throwIfAborted();
+        record.attempts = attempt;
+        record.status = attempt === 1 ? 'running' : 'retrying';
+        this.update(record);
+
+        let failure: { kind: ToolFailureKind; message: string; thrown?: unknown; result?: unknown };
+
+        // Each attempt gets its own signal so a timeout can abort it without aborting the whole call
+        const controller = new AbortController();
+        const abort = () => controller.abort(options.abortSignal?.reason);
+        options.abortSignal?.addEventListener('abort', abort, { once: true });
+
+        try {
+          const pending = new Promise(resolve => resolve(execute(input, { ...options, abortSignal: controller.signal })));
+          attempts.push(pending);
+          const result = await this.withTimeout(toolName, pending, controller);
+
+          const resultError = getResultError(result);
+          if (!resultError) {
+            record.status = 'completed';
+            record.error = undefined;
+            return result;
+          }
+          failure = { kind: classifyError(resultError), message: resultError, result };
+        } catch (error) {
+          if (error instanceof ToolTimeoutError) {
+            failure = { kind: 'tool_timeout', message: error.message, thrown: error };
+          } else {
+            const message = error instanceof Error ? error.message : String(error);
+            failure = { kind: classifyError(message), message, thrown: error };
+          }
+        } finally {
+          options.abortSignal?.removeEventListener('abort', abort);
+        }
+
+        const strategy = this.config.errorHandling.fallbackStrategies[failure.kind];
+        record.failure = failure.kind;
+        record.strategy = strategy;
+        record.error = failure.message;
+
+        if (strategy === 'continue_without_tool') {
+          // Hand the model a structured result so it can answer without this tool
+          record.status = 'skipped';
+          return {
+            error: failure.message,
+            skipped: true,
+            strategy,
+            message: `${toolName} was skipped; continue without its result.`,
+          };
+        }
+
+        if (attempt >= maxAttempts) {
+          record.status = 'failed';
+          if (failure.thrown !== undefined) throw failure.thrown;
+          return failure.result;
+        }
+
+        record.status = 'retrying';
+        this.update(record);
+        await delay(this.getBackoffDelay(strategy, attempt), options.abortSignal);
+      }
+    } finally {
+      record.durationMs = Date.now() - startTime;
+      this.update(record);
+      Promise.allSettled(attempts).then(() => this.release());
+    }
+  }
+
+  private withTimeout<T>(toolName: string, promise: Promise<T>, controller: AbortController): Promise<T> {
+    const timeoutMs = this.config.toolTimeout;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        const error = new ToolTimeoutError(toolName, timeoutMs);
+        controller.abort(error);
+        reject(error);
+      }, timeoutMs);
+    });
+
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+  }
+
+  private getBackoffDelay(strategy: string, attempt: number): number {
+    const baseDelay = this.config.errorHandling.retryDelay;
+    if (strategy === 'exponential_backoff') {
+      return baseDelay * Math.pow(2, attempt - 1);
+    }
+    return baseDelay * attempt;
+  }
+
+  private isRetryable(toolName: string): boolean {
+    return !(this.config.errorHandling.nonRetryableTools as readonly string[]).includes(toolName);
+  }
+
+  private async acquire(): Promise<void> {
+    const limit = this.config.performance.enableParallelExecution ? this.config.maxParallelTools : 1;
+    if (this.active < limit) {
+      this.active++;
+      return;
+    }
+    await new Promise<void>(resolve => this.waiting.push(resolve));
+  }
+
+  private release(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      // Hand the slot directly to the next queued call
+      next();
+    } else {
+      this.active--;
+    }
+  }
+
+  private update(record: ToolExecutionRecord): void {
+    this.records.set(record.toolCallId, record);
+    this.onUpdate?.({ ...record });
+  }
+}
+
+/**
+ * Classify a failure message into one of the AGENT_CONFIG fallback categories
+ */
+export function classifyError(message: string): ToolFailureKind {
+  if (/rate limit|too many requests|\b429\b/i.test(message)) {
+    return 'rate_limit';
+  }
+  return 'tool_error';
+}
+
+// Tools in this app report failures as `{ error: string }` instead of throwing
+function getResultError(result: unknown): string | null {
+  if (result && typeof result === 'object' && 'error' in result) {
+    const error = (result as { error: unknown }).error;
+    if (typeof error === 'string' && error) return error;
+  }
+  return null;
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+}
+
+export function createToolExecutor(
+  config?: AgentConfig,
+  onUpdate?: (record: ToolExecutionRecord) => void
+): ToolExecutor {
+  return new ToolExecutor(config, onUpdate);
+}
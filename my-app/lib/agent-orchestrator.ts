@@ -1,6 +1,10 @@
+import { z } from 'zod';
+import { asSchema, generateObject, generateText, type LanguageModel } from 'ai';
 import { AGENT_CONFIG } from './agent-config';
-import { toolsRegistry, type ToolId } from './tools';
+import { toolsRegistry, type ToolContext, type ToolId } from './tools';
 import { mcpClientManager } from './mcp-client';
+import { createToolExecutor, type ToolExecutor } from './agent-executor';
+import { toolApprovalManager, type ApprovalGateOptions } from './tool-approval';
 
 export interface AgentState {
   currentTask?: string;
@@ -16,118 +20,192 @@ export interface ExecutionStep {
   input?: any;
   output?: any;
   error?: string;
+  description?: string;
+  dependsOn?: number[];
+  status?: 'pending' | 'running' | 'completed' | 'failed' | 'skipped';
+  durationMs?: number;
   timestamp: string;
 }
 
+// Payload of the `data-agent-plan` UI message part
+export interface AgentPlanData {
+  status: 'planning' | 'running' | 'completed' | 'failed';
+  goal?: string;
+  steps: ExecutionStep[];
+  error?: string;
+}
+
+export interface PlanExecutionOptions {
+  // Actions left for the caller, e.g. synthesis streamed by the chat route
+  deferActions?: ExecutionStep['action'][];
+  onStepUpdate?: (step: ExecutionStep, plan: ExecutionStep[]) => void;
+  // Value-moving tools stop at an approval request instead of executing
+  approval?: ApprovalGateOptions;
+  // Connected wallet and conversation, passed to tools as experimental_context
+  toolContext?: ToolContext;
+}
+
+interface AvailableTool {
+  name: string;
+  description: string;
+  type: 'regular' | 'mcp';
+  tool: any;
+}
+
+export class PlanValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PlanValidationError';
+  }
+}
+
+const MAX_PLAN_STEPS = 8;
+
+// Inputs are exchanged as JSON strings so the schema works with every provider's structured output mode
+const planSchema = z.object({
+  goal: z.string().describe('One sentence restating what the user wants'),
+  steps: z.array(z.object({
+    step: z.number().int().min(1).describe('1-based step number, unique within the plan'),
+    action: z.enum(['tool_call', 'reasoning', 'synthesis']),
+    tool: z.string().nullable().describe('Exact tool name for tool_call steps, otherwise null'),
+    input: z.string().nullable().describe('JSON object with the tool input for tool_call steps, otherwise null'),
+    dependsOn: z.array(z.number().int()).describe('Step numbers whose output this step needs'),
+    description: z.string().describe('Short, user-facing description of the step'),
+  })).min(1).max(MAX_PLAN_STEPS),
+});
+
+const STEP_REFERENCE = /\{\{step:(\d+)((?:\.[\w-]+)*)\}\}/g;
+
 export class AgentOrchestrator {
   private state: AgentState;
-  
-  constructor(initialTools: ToolId[] = []) {
+  private model?: LanguageModel;
+  private executor: ToolExecutor;
+  private approvalOptions: ApprovalGateOptions = {};
+  private toolContext: ToolContext = {};
+
+  constructor(initialTools: ToolId[] = [], model?: LanguageModel) {
     this.state = {
       activeTools: initialTools,
       executionHistory: [],
       context: {},
     };
+    this.model = model;
+    this.executor = createToolExecutor(AGENT_CONFIG);
   }
 
   /**
-   * Plan the execution strategy for a given user request
+   * Ask the model for a structured, dependency-ordered execution plan
    */
-  async planExecution(userInput: string, enabledTools: ToolId[]): Promise<ExecutionStep[]> {
-    const plan: ExecutionStep[] = [];
-    let stepCounter = 1;
-
-    // Analyze the user input to determine required tools and approach
-    const requiredTools = await this.analyzeRequiredTools(userInput, enabledTools);
-    
-    // Add reasoning step
-    plan.push({
-      step: stepCounter++,
-      action: 'reasoning',
-      timestamp: new Date().toISOString(),
+  async planExecution(userInput: string, enabledTools: ToolId[], model: LanguageModel | undefined = this.model): Promise<ExecutionStep[]> {
+    if (!model) throw new Error('A language model is required for planning');
+    this.model = model;
+    this.state.activeTools = enabledTools;
+
+    const availableTools = await this.getPlannableTools(enabledTools);
+    const toolCatalog = Object.values(availableTools).map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      inputSchema: describeInputSchema(tool.tool),
+    }));
+
+    const { object } = await generateObject({
+      model,
+      schema: planSchema,
+      temperature: 0,
+      system: `You are the planning module of a Solana-focused AI agent. Break the user's request into at most ${MAX_PLAN_STEPS} steps.
+
+Rules:
+- Use "tool_call" only with a tool from the catalog below, using its exact name, and give "input" as a JSON object string matching its input schema.
+- To use the output of an earlier step inside an input value, write {{step:N}} or {{step:N.field.path}} and list N in dependsOn.
+- Use "reasoning" for intermediate analysis that needs earlier results.
+- Finish with exactly one "synthesis" step that depends on every step whose result the answer needs.
+- If no tool is needed, return a single synthesis step.
+
+Tool catalog:
+${JSON.stringify(toolCatalog, null, 2)}`,
+      prompt: userInput,
     });
 
-    // Add tool execution steps
-    for (const tool of requiredTools) {
-      plan.push({
-        step: stepCounter++,
-        action: 'tool_call',
-        tool: tool as ToolId,
+    const plan = this.validatePlan(
+      object.steps.map(step => ({
+        step: step.step,
+        action: step.action,
+        tool: step.tool ?? undefined,
+        input: step.input ? parseToolInput(step.input, step.step) : undefined,
+        dependsOn: step.dependsOn,
+        description: step.description,
+        status: 'pending' as const,
         timestamp: new Date().toISOString(),
-      });
-    }
-
-    // Add synthesis step
-    plan.push({
-      step: stepCounter++,
-      action: 'synthesis',
-      timestamp: new Date().toISOString(),
-    });
+      })),
+      availableTools
+    );
 
+    this.state.currentTask = object.goal;
     return plan;
   }
 
   /**
-   * Analyze user input to determine which tools might be needed
+   * Execute a plan in dependency order, running independent steps in parallel
    */
-  private async analyzeRequiredTools(userInput: string, enabledTools: ToolId[]): Promise<(ToolId | string)[]> {
-    const input = userInput.toLowerCase();
-    const suggestedTools: (ToolId | string)[] = [];
-
-    // Pattern matching for tool requirements
-    const toolPatterns = {
-      'web-search': ['search', 'find', 'current', 'latest', 'news', 'information'],
-      'calculator': ['calculate', 'math', 'compute', 'number', '+', '-', '*', '/', '='],
-      'code-interpreter': ['code', 'python', 'javascript', 'run', 'execute', 'debug'],
-      'weather': ['weather', 'temperature', 'forecast', 'climate'],
-      'solana-balance': ['balance', 'wallet', 'sol balance'],
-      'solana-token-price': ['price', 'token', 'sol', 'usdc', 'ray'],
-      'defi-analyzer': ['defi', 'yield', 'liquidity', 'apy', 'pool'],
-      'nft-analyzer': ['nft', 'collection', 'floor price', 'opensea'],
-      'image-generator': ['generate image', 'create image', 'draw', 'picture'],
-      'pdf-reader': ['pdf', 'document', 'read file'],
-    };
-
-    // Check regular tools
-    for (const [tool, patterns] of Object.entries(toolPatterns)) {
-      if (enabledTools.includes(tool as ToolId)) {
-        const hasMatch = patterns.some(pattern => input.includes(pattern));
-        if (hasMatch) {
-          suggestedTools.push(tool as ToolId);
+  async executePlan(plan: ExecutionStep[], options: PlanExecutionOptions = {}): Promise<ExecutionStep[]> {
+    const { deferActions = [], onStepUpdate } = options;
+    this.approvalOptions = options.approval || {};
+    this.toolContext = options.toolContext || {};
+    const byNumber = new Map(plan.map(step => [step.step, step]));
+    const results: Record<number, any> = {};
+    const notify = (step: ExecutionStep) => onStepUpdate?.(step, plan);
+
+    const isSettled = (step: ExecutionStep) =>
+      step.status === 'completed' || step.status === 'failed' || step.status === 'skipped';
+
+    let pending = plan.filter(step => !deferActions.includes(step.action));
+
+    while (pending.length > 0) {
+      // Skip steps whose dependencies did not complete
+      for (const step of pending) {
+        const blocked = (step.dependsOn || []).some(dep => {
+          const dependency = byNumber.get(dep);
+          return dependency?.status === 'failed' || dependency?.status === 'skipped';
+        });
+        if (blocked) {
+          step.status = 'skipped';
+          step.error = 'A step this depends on did not complete';
+          this.addExecutionStep(step);
+          notify(step);
         }
       }
-    }
-
-    // Check MCP tools
-    try {
-      const mcpTools = await mcpClientManager.getTools();
-      for (const [mcpToolName, mcpTool] of Object.entries(mcpTools)) {
-        if (mcpTool.description) {
-          const description = mcpTool.description.toLowerCase();
-          // Simple keyword matching for MCP tools
-          if (input.includes('file') && description.includes('file')) {
-            suggestedTools.push(mcpToolName);
-          } else if (input.includes('git') && description.includes('git')) {
-            suggestedTools.push(mcpToolName);
-          } else if (input.includes('database') && description.includes('database')) {
-            suggestedTools.push(mcpToolName);
-          } else if (input.includes('fetch') && description.includes('fetch')) {
-            suggestedTools.push(mcpToolName);
-          } else if (input.includes('memory') && description.includes('memory')) {
-            suggestedTools.push(mcpToolName);
-          }
+      pending = pending.filter(step => !isSettled(step));
+
+      const ready = pending.filter(step =>
+        (step.dependsOn || []).every(dep => byNumber.get(dep)?.status === 'completed')
+      );
+      if (ready.length === 0) break;
+
+      await Promise.all(ready.map(async step => {
+        step.status = 'running';
+        step.timestamp = new Date().toISOString();
+        notify(step);
+
+        const startTime = Date.now();
+        const output = await this.executeStep(step, { results, goal: this.state.currentTask });
+        step.durationMs = Date.now() - startTime;
+
+        if (step.error) {
+          step.status = 'failed';
+        } else {
+          step.status = 'completed';
+          step.output = output;
+          results[step.step] = output;
         }
-      }
-    } catch (error) {
-      console.error('Failed to analyze MCP tools:', error);
-    }
 
-    // If no specific tools match but web search is available, include it for general queries
-    if (suggestedTools.length === 0 && enabledTools.includes('web-search')) {
-      suggestedTools.push('web-search');
+        this.addExecutionStep(step);
+        notify(step);
+      }));
+
+      pending = pending.filter(step => !isSettled(step));
     }
 
-    return suggestedTools;
+    return plan;
   }
 
   /**
@@ -136,16 +214,22 @@ export class AgentOrchestrator {
   async executeStep(step: ExecutionStep, context: any = {}): Promise<any> {
     try {
       switch (step.action) {
-        case 'tool_call':
+        case 'tool_call': {
           if (!step.tool) throw new Error('No tool specified for tool_call step');
-          return await this.executeTool(step.tool, step.input || {});
-          
+          const input = resolveStepReferences(step.input || {}, context.results || {});
+          const result = await this.executeTool(step.tool, input, step.step);
+          if (result && typeof result === 'object' && typeof result.error === 'string') {
+            throw new Error(result.error);
+          }
+          return result;
+        }
+
         case 'reasoning':
-          return this.performReasoning(context);
-          
+          return await this.performReasoning(step, context);
+
         case 'synthesis':
-          return this.synthesizeResults(context);
-          
+          return await this.synthesizeResults(step, context);
+
         default:
           throw new Error(`Unknown action: ${step.action}`);
       }
@@ -156,63 +240,148 @@ export class AgentOrchestrator {
   }
 
   /**
-   * Execute a specific tool (regular or MCP)
+   * Execute a specific tool (regular or MCP) through the agent execution policy
+   */
+  private async executeTool(toolId: ToolId | string, input: any, stepNumber: number): Promise<any> {
+    const availableTools = await this.getPlannableTools(this.state.activeTools);
+    const entry = availableTools[toolId];
+
+    if (!entry || typeof entry.tool.execute !== 'function') {
+      throw new Error(`Tool not found: ${toolId}`);
+    }
+
+    const wrapped = this.executor.wrapTools(
+      toolApprovalManager.gateTools({ [toolId]: entry.tool }, this.approvalOptions)
+    );
+    const result = await wrapped[toolId].execute(input, {
+      toolCallId: `plan-step-${stepNumber}-${Date.now()}`,
+      messages: [],
+      experimental_context: this.toolContext,
+    });
+
+    this.updateContext(toolId, result);
+    return result;
+  }
+
+  /**
+   * Perform an intermediate reasoning step over the results it depends on
+   */
+  private async performReasoning(step: ExecutionStep, context: any): Promise<string> {
+    const { text } = await generateText({
+      model: this.requireModel(),
+      temperature: AGENT_CONFIG.temperature,
+      system: 'You are the reasoning module of a Solana-focused AI agent. Analyse the provided step results and state concise intermediate conclusions. Do not address the user directly.',
+      prompt: this.buildStepPrompt(step, context),
+    });
+    return text;
+  }
+
+  /**
+   * Synthesize results from multiple tool executions into a final answer
+   */
+  private async synthesizeResults(step: ExecutionStep, context: any): Promise<string> {
+    const { text } = await generateText({
+      model: this.requireModel(),
+      temperature: AGENT_CONFIG.temperature,
+      system: 'You are a Solana-focused AI agent. Answer the user using the step results provided, citing figures from them and noting any step that failed.',
+      prompt: this.buildStepPrompt(step, context),
+    });
+    return text;
+  }
+
+  private buildStepPrompt(step: ExecutionStep, context: any): string {
+    const results = context.results || {};
+    const dependencies = (step.dependsOn?.length ? step.dependsOn : Object.keys(results).map(Number))
+      .filter(dep => dep in results)
+      .map(dep => `Step ${dep} result:\n${JSON.stringify(results[dep], null, 2)}`);
+
+    return [
+      `Goal: ${context.goal || this.state.currentTask || 'Answer the user request'}`,
+      `Current step: ${step.description || step.action}`,
+      ...dependencies,
+    ].join('\n\n');
+  }
+
+  /**
+   * Check tool names and dependency references, and order steps topologically
    */
-  private async executeTool(toolId: ToolId | string, input: any): Promise<any> {
-    // Check if it's a regular tool
-    if (typeof toolId === 'string' && toolId in toolsRegistry) {
-      const tool = toolsRegistry[toolId as ToolId];
-      try {
-        const result = await Promise.race([
-          tool.execute?.(input, { toolCallId: 'agent-call', messages: [], abortSignal: new AbortController().signal }),
-          new Promise((_, reject) => 
-            setTimeout(() => reject(new Error('Tool execution timeout')), AGENT_CONFIG.toolTimeout)
-          )
-        ]);
-        
-        this.updateContext(toolId as ToolId, result);
-        return result;
-      } catch (error) {
-        throw new Error(`Tool execution failed: ${error}`);
+  private validatePlan(plan: ExecutionStep[], availableTools: Record<string, AvailableTool>): ExecutionStep[] {
+    const numbers = new Set<number>();
+    for (const step of plan) {
+      if (numbers.has(step.step)) {
+        throw new PlanValidationError(`Duplicate step number ${step.step}`);
       }
+      numbers.add(step.step);
     }
 
-    // Check if it's an MCP tool
-    try {
-      const mcpTools = await mcpClientManager.getTools();
-      const mcpTool = mcpTools[toolId as string];
-      
-      if (mcpTool) {
-        // MCP tools are handled by the AI SDK during chat completion
-        // This is more of a planning/tracking method
-        console.log(`MCP tool ${toolId} planned for execution`);
-        return { message: `MCP tool ${toolId} will be executed by the AI model` };
+    for (const step of plan) {
+      if (step.action === 'tool_call') {
+        if (!step.tool || !(step.tool in availableTools)) {
+          throw new PlanValidationError(`Step ${step.step} uses unavailable tool: ${step.tool}`);
+        }
+        const schema = availableTools[step.tool].tool.inputSchema;
+        if (availableTools[step.tool].type === 'regular' && schema instanceof z.ZodType && step.input) {
+          // Inputs that reference other steps are only checked once resolved at execution time
+          const hasReferences = JSON.stringify(step.input).includes('{{step:');
+          const parsed = schema.safeParse(step.input);
+          if (!hasReferences && !parsed.success) {
+            throw new PlanValidationError(`Step ${step.step} has invalid input for ${step.tool}: ${parsed.error.message}`);
+          }
+        }
+      } else {
+        step.tool = undefined;
+        step.input = undefined;
+      }
+
+      for (const dep of step.dependsOn || []) {
+        if (!numbers.has(dep) || dep === step.step) {
+          throw new PlanValidationError(`Step ${step.step} depends on unknown step ${dep}`);
+        }
       }
-    } catch (error) {
-      console.error('Failed to check MCP tools:', error);
     }
 
-    throw new Error(`Tool not found: ${toolId}`);
+    // Kahn's algorithm; anything left over is part of a cycle
+    const ordered: ExecutionStep[] = [];
+    const remaining = [...plan].sort((a, b) => a.step - b.step);
+    const done = new Set<number>();
+    while (remaining.length > 0) {
+      const index = remaining.findIndex(step => (step.dependsOn || []).every(dep => done.has(dep)));
+      if (index === -1) {
+        throw new PlanValidationError('Plan contains a dependency cycle');
+      }
+      const [next] = remaining.splice(index, 1);
+      done.add(next.step);
+      ordered.push(next);
+    }
+
+    return ordered;
   }
 
   /**
-   * Perform reasoning based on current context
+   * Enabled built-in tools plus every connected MCP tool
    */
-  private performReasoning(context: any): string {
-    return `Analyzing the request and determining the best approach...`;
+  private async getPlannableTools(enabledTools: ToolId[]): Promise<Record<string, AvailableTool>> {
+    const all = await this.getAllAvailableTools();
+    const plannable: Record<string, AvailableTool> = {};
+
+    for (const [name, entry] of Object.entries(all)) {
+      if (entry.type === 'mcp' || enabledTools.includes(name as ToolId)) {
+        plannable[name] = entry;
+      }
+    }
+
+    return plannable;
   }
 
-  /**
-   * Synthesize results from multiple tool executions
-   */
-  private synthesizeResults(context: any): string {
-    return `Combining information from multiple sources to provide a comprehensive answer...`;
+  private requireModel(): LanguageModel {
+    if (!this.model) throw new Error('A language model is required for this step');
+    return this.model;
   }
 
   /**
    * Update the agent's context with new information
    */
-  private updateContext(toolId: ToolId, result: any): void {
+  private updateContext(toolId: ToolId | string, result: any): void {
     this.state.context[toolId] = result;
   }
 
@@ -227,7 +396,7 @@ export class AgentOrchestrator {
    * Add execution step to history
    */
   addExecutionStep(step: ExecutionStep): void {
-    this.state.executionHistory.push(step);
+    this.state.executionHistory.push({ ...step });
   }
 
   /**
@@ -252,15 +421,14 @@ export class AgentOrchestrator {
   /**
    * Get all available tools (regular + MCP)
    */
-  async getAllAvailableTools(): Promise<Record<string, any>> {
-    const allTools: Record<string, any> = {};
-    
+  async getAllAvailableTools(): Promise<Record<string, AvailableTool>> {
+    const allTools: Record<string, AvailableTool> = {};
+
     // Add regular tools
     for (const [toolId, tool] of Object.entries(toolsRegistry)) {
       allTools[toolId] = {
-        id: toolId,
         name: toolId,
-        description: 'Built-in tool',
+        description: tool.description || 'Built-in tool',
         type: 'regular',
         tool,
       };
@@ -271,7 +439,6 @@ export class AgentOrchestrator {
       const mcpTools = await mcpClientManager.getTools();
       for (const [toolName, tool] of Object.entries(mcpTools)) {
         allTools[toolName] = {
-          id: toolName,
           name: toolName,
           description: tool.description || 'MCP tool',
           type: 'mcp',
@@ -291,7 +458,7 @@ export class AgentOrchestrator {
   async getMCPStatus(): Promise<Record<string, any>> {
     const enabledServers = mcpClientManager.getEnabledServers();
     const health = await mcpClientManager.healthCheck();
-    
+
     return {
       enabledServers: enabledServers.length,
       totalServers: mcpClientManager.getAvailableServers().length,
@@ -311,5 +478,56 @@ export class AgentOrchestrator {
   }
 }
 
+function describeInputSchema(tool: any): unknown {
+  try {
+    return tool?.inputSchema ? asSchema(tool.inputSchema).jsonSchema : {};
+  } catch {
+    return {};
+  }
+}
+
+function parseToolInput(raw: string, stepNumber: number): Record<string, any> {
+  try {
+    const parsed = JSON.parse(raw);
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) return parsed;
+  } catch {
+    // fall through to the validation error below
+  }
+  throw new PlanValidationError(`Step ${stepNumber} input is not a JSON object`);
+}
+
+/**
+ * Replace {{step:N.path}} references with outputs of completed steps
+ */
+export function resolveStepReferences(value: any, results: Record<number, any>): any {
+  if (typeof value === 'string') {
+    const whole = value.match(/^\{\{step:(\d+)((?:\.[\w-]+)*)\}\}$/);
+    if (whole) {
+      // A bare reference keeps the original type (number, array, object)
+      return readPath(results[Number(whole[1])], whole[2]);
+    }
+    return value.replace(STEP_REFERENCE, (_, step: string, path: string) => {
+      const resolved = readPath(results[Number(step)], path);
+      return typeof resolved === 'string' ? resolved : JSON.stringify(resolved);
+    });
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => resolveStepReferences(item, results));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, resolveStepReferences(item, results)])
+    );
+  }
+  return value;
+}
+
+function readPath(source: any, path: string): any {
+  return path
+    .split('.')
+    .filter(Boolean)
+    .reduce((current, key) => (current == null ? undefined : current[key]), source);
+}
+
 // Singleton instance for the application
-export const agentOrchestrator = new AgentOrchestrator();
\ No newline at end of file
+export const agentOrchestrator = new AgentOrchestrator();
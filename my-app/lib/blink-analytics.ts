@@ -0,0 +1,375 @@
+/**
+ * Blink Analytics
+ * Records what happens to every Blink: views (GET), clicks (POST), the
+ * transactions handed to wallets and whether they landed. Events are
+ * appended to a JSONL log per Blink and aggregated into reports on read.
+ * Transaction responses get a `links.next` callback so the Blink client
+ * reports the signature once the wallet confirms, which is then verified
+ * on-chain before it counts.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomBytes } from 'crypto';
+import { VersionedTransaction } from '@solana/web3.js';
+import {
+  BlinkAnalyticsReport,
+  BlinkEvent,
+  BlinkEventType,
+  BlinkFunnel,
+  BuiltTransactionRef,
+} from './blinks-types';
+import { blinksService } from './blinks-service';
+import { HOSTED_ACTION_PARAM } from './blink-registry-types';
+
+const DEFAULT_ANALYTICS_DIR = path.join(process.cwd(), '.data', 'analytics');
+const EVENTS_SUFFIX = '.jsonl';
+// One "signature blinkId eventId" line per signature counted, across all Blinks
+const SIGNATURE_INDEX = 'signatures.log';
+const DEFAULT_ACTION_ID = 'default';
+const VALID_ID = /^[A-Za-z0-9_-]{1,128}$/;
+
+// Confirmation callback for transactions outside an action chain
+export const CONFIRM_CALLBACK_PATH = '/api/actions/confirm';
+
+type RouteHandler<C> = (req: Request, context: C) => Promise<Response>;
+
+export class BlinkAnalyticsError extends Error {
+  constructor(message: string, public code: 'INVALID_ID' | 'IO_ERROR') {
+    super(message);
+    this.name = 'BlinkAnalyticsError';
+  }
+}
+
+export class FileBlinkAnalyticsStore {
+  private baseDir: string;
+  // Serializes appends so confirmations are recorded at most once
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(baseDir: string = process.env.BLINK_ANALYTICS_DIR || DEFAULT_ANALYTICS_DIR) {
+    this.baseDir = baseDir;
+  }
+
+  /**
+   * Append an event to the Blink's log
+   */
+  async record(event: Omit<BlinkEvent, 'id' | 'timestamp'>): Promise<BlinkEvent> {
+    this.assertValidId(event.blinkId);
+    const stored: BlinkEvent = {
+      ...event,
+      id: randomBytes(8).toString('hex'),
+      timestamp: new Date().toISOString(),
+    };
+    return this.enqueueWrite(async () => {
+      await this.append(stored);
+      return stored;
+    });
+  }
+
+  async getEvents(blinkId: string): Promise<BlinkEvent[]> {
+    this.assertValidId(blinkId);
+
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.eventsPath(blinkId), 'utf8');
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return [];
+      throw new BlinkAnalyticsError(`Failed to read analytics for ${blinkId}: ${error.message || error}`, 'IO_ERROR');
+    }
+
+    const events: BlinkEvent[] = [];
+    for (const line of raw.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        events.push(JSON.parse(line) as BlinkEvent);
+      } catch {
+        // A torn last line from an interrupted append; skip it
+      }
+    }
+    return events;
+  }
+
+  /**
+   * Aggregated analytics for one Blink, or null before its first event
+   */
+  async getReport(blinkId: string): Promise<BlinkAnalyticsReport | null> {
+    const events = await this.getEvents(blinkId);
+    return events.length > 0 ? buildReport(blinkId, events) : null;
+  }
+
+  /**
+   * Reports for every Blink with events, most recently used first
+   */
+  async listReports(): Promise<BlinkAnalyticsReport[]> {
+    let files: string[] = [];
+    try {
+      files = await fs.readdir(this.baseDir);
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const reports: BlinkAnalyticsReport[] = [];
+    for (const file of files) {
+      if (!file.endsWith(EVENTS_SUFFIX)) continue;
+      const report = await this.getReport(file.slice(0, -EVENTS_SUFFIX.length));
+      if (report) reports.push(report);
+    }
+    return reports.sort((a, b) => (b.lastUsed || '').localeCompare(a.lastUsed || ''));
+  }
+
+  /**
+   * Resolve a transaction event once its signature is known: verified
+   * on-chain, signed by the account that requested it and carrying the
+   * blockhash and fee payer of the transaction that was handed out. A
+   * signature resolves one event only. Returns what was recorded, or null if
+   * the transaction cannot be attributed (yet).
+   */
+  async confirm(
+    blinkId: string,
+    transactionEventId: string,
+    account: string,
+    signature: string
+  ): Promise<Extract<BlinkEventType, 'confirmed' | 'failed'> | null> {
+    const events = await this.getEvents(blinkId);
+    const transaction = events.find(event => event.id === transactionEventId && event.type === 'transaction');
+    if (!transaction || transaction.account !== account || !transaction.built) return null;
+
+    const claimedBy = `${blinkId} ${transactionEventId}`;
+    const owner = await this.signatureOwner(signature);
+    if (owner && owner !== claimedBy) return null;
+
+    const status = await blinksService.getTransactionStatus(signature, account, transaction.built);
+    if (status !== 'confirmed' && status !== 'failed') return null;
+
+    return this.enqueueWrite(async () => {
+      // The client may call back more than once; the first outcome stands
+      const resolved = (await this.getEvents(blinkId)).find(event => event.transactionEventId === transactionEventId);
+      if (resolved) return resolved.type as 'confirmed' | 'failed';
+
+      // Claim the signature before recording, so a retry after a failed append still owns it
+      const current = await this.signatureOwner(signature);
+      if (current && current !== claimedBy) return null;
+      if (!current) await this.appendLine(SIGNATURE_INDEX, `${signature} ${claimedBy}\n`);
+
+      await this.append({
+        id: randomBytes(8).toString('hex'),
+        blinkId,
+        actionId: transaction.actionId,
+        type: status,
+        account,
+        transactionEventId,
+        signature,
+        timestamp: new Date().toISOString(),
+      });
+      return status;
+    });
+  }
+
+  private async append(event: BlinkEvent): Promise<void> {
+    try {
+      await this.appendLine(`${event.blinkId}${EVENTS_SUFFIX}`, `${JSON.stringify(event)}\n`);
+    } catch (error: any) {
+      throw new BlinkAnalyticsError(`Failed to record ${event.type} for ${event.blinkId}: ${error.message || error}`, 'IO_ERROR');
+    }
+  }
+
+  private async appendLine(file: string, line: string): Promise<void> {
+    await fs.mkdir(this.baseDir, { recursive: true });
+    await fs.appendFile(path.join(this.baseDir, file), line, 'utf8');
+  }
+
+  /**
+   * "blinkId eventId" of the event a signature was counted for, if any
+   */
+  private async signatureOwner(signature: string): Promise<string | null> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(path.join(this.baseDir, SIGNATURE_INDEX), 'utf8');
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return null;
+      throw new BlinkAnalyticsError(`Failed to read the signature index: ${error.message || error}`, 'IO_ERROR');
+    }
+    for (const line of raw.split('\n')) {
+      const [indexed, blinkId, eventId] = line.split(' ');
+      if (indexed === signature && blinkId && eventId) return `${blinkId} ${eventId}`;
+    }
+    return null;
+  }
+
+  private enqueueWrite<T>(operation: () => Promise<T>): Promise<T> {
+    const next = this.writeQueue.then(operation, operation);
+    this.writeQueue = next.catch(() => undefined);
+    return next;
+  }
+
+  private eventsPath(blinkId: string): string {
+    return path.join(this.baseDir, `${blinkId}${EVENTS_SUFFIX}`);
+  }
+
+  private assertValidId(id: string): void {
+    if (!VALID_ID.test(id)) {
+      throw new BlinkAnalyticsError(`Invalid Blink id: ${id}`, 'INVALID_ID');
+    }
+  }
+}
+
+/**
+ * Wrap an action route handler so its GETs and POSTs are recorded. `blink`
+ * names the Blink, or resolves it from the route context for dynamic routes.
+ * Analytics failures are logged and never affect the response.
+ */
+export function withBlinkAnalytics<C>(
+  blink: string | ((context: C) => Promise<string>),
+  handler: RouteHandler<C>,
+  store: FileBlinkAnalyticsStore = blinkAnalytics
+): RouteHandler<C> {
+  return async (req, context) => {
+    const started = Date.now();
+    // Read the body from a clone before the handler consumes it
+    const body = req.method === 'POST' ? req.clone().json().catch(() => null) : null;
+    const response = await handler(req, context);
+    // Unknown Blinks leave no log behind
+    if (response.status === 404) return response;
+
+    try {
+      const blinkId = typeof blink === 'string' ? blink : await blink(context);
+      const responseTime = Date.now() - started;
+      if (req.method === 'GET') {
+        await store.record({ blinkId, type: 'view', status: response.status, responseTime });
+        return response;
+      }
+      return await trackPost(store, blinkId, req, await body, response, responseTime);
+    } catch (error) {
+      console.error('Blink analytics error:', error);
+      return response;
+    }
+  };
+}
+
+/**
+ * Record a confirmation reported to a `links.next` callback that carries
+ * `blink` and `event` parameters; anything else is ignored
+ */
+export async function recordConfirmation(
+  requestUrl: string,
+  account: string,
+  signature?: string,
+  store: FileBlinkAnalyticsStore = blinkAnalytics
+): Promise<Extract<BlinkEventType, 'confirmed' | 'failed'> | null> {
+  const url = new URL(requestUrl);
+  const blinkId = url.searchParams.get('blink');
+  const eventId = url.searchParams.get('event');
+  if (!blinkId || !eventId || !signature) return null;
+  return store.confirm(blinkId, eventId, account, signature);
+}
+
+async function trackPost(
+  store: FileBlinkAnalyticsStore,
+  blinkId: string,
+  req: Request,
+  body: any,
+  response: Response,
+  responseTime: number
+): Promise<Response> {
+  const url = new URL(req.url);
+  const actionId = url.searchParams.get(HOSTED_ACTION_PARAM) || url.searchParams.get('action') || undefined;
+  const account = typeof body?.account === 'string' ? body.account : undefined;
+
+  await store.record({ blinkId, actionId, type: 'click', account, status: response.status, responseTime });
+  if (!response.ok) return response;
+
+  const payload = await response.clone().json().catch(() => null);
+  if (typeof payload?.transaction !== 'string') return response;
+
+  const built = describeBuiltTransaction(payload.transaction);
+  const transaction = await store.record({ blinkId, actionId, type: 'transaction', account, built });
+  const tracking = new URLSearchParams({ blink: blinkId, event: transaction.id });
+  const next = payload.links?.next;
+  if (next?.type === 'post') {
+    // Chain callbacks record the confirmation as well
+    next.href = `${next.href}${next.href.includes('?') ? '&' : '?'}${tracking}`;
+  } else if (!next) {
+    payload.links = { next: { type: 'post', href: `${CONFIRM_CALLBACK_PATH}?${tracking}` } };
+  }
+
+  const headers = new Headers(response.headers);
+  headers.delete('content-length');
+  return new Response(JSON.stringify(payload), { status: response.status, headers });
+}
+
+/**
+ * Blockhash and fee payer of a base64 transaction, legacy or versioned
+ */
+function describeBuiltTransaction(encoded: string): BuiltTransactionRef | undefined {
+  try {
+    const { message } = VersionedTransaction.deserialize(Buffer.from(encoded, 'base64'));
+    return { blockhash: message.recentBlockhash, feePayer: message.staticAccountKeys[0].toBase58() };
+  } catch {
+    return undefined;
+  }
+}
+
+function buildReport(blinkId: string, events: BlinkEvent[]): BlinkAnalyticsReport {
+  const funnel = emptyFunnel();
+  const actions = new Map<string, BlinkFunnel>();
+  const accounts = new Set<string>();
+  let responseTimeTotal = 0;
+  let responseCount = 0;
+  let lastUsed: string | undefined;
+
+  for (const event of events) {
+    if (!lastUsed || event.timestamp > lastUsed) lastUsed = event.timestamp;
+    if (event.responseTime !== undefined) {
+      responseTimeTotal += event.responseTime;
+      responseCount++;
+    }
+    if (event.type === 'view') {
+      if (event.status === undefined || event.status < 400) funnel.views++;
+      continue;
+    }
+
+    const actionId = event.actionId || DEFAULT_ACTION_ID;
+    const actionFunnel = actions.get(actionId) || emptyFunnel();
+    actions.set(actionId, actionFunnel);
+    const field = FUNNEL_FIELDS[event.type];
+    funnel[field]++;
+    actionFunnel[field]++;
+    if (event.type === 'click' && event.account) accounts.add(event.account);
+  }
+
+  return {
+    blinkId,
+    views: funnel.views,
+    totalClicks: funnel.clicks,
+    uniqueUsers: accounts.size,
+    transactionsBuilt: funnel.transactions,
+    successfulTransactions: funnel.confirmed,
+    failedTransactions: funnel.failed,
+    averageResponseTime: responseCount > 0 ? Math.round(responseTimeTotal / responseCount) : 0,
+    lastUsed,
+    funnel,
+    actions: Array.from(actions.entries()).map(([actionId, actionFunnel]) => ({
+      actionId,
+      funnel: { ...actionFunnel, views: funnel.views },
+    })),
+  };
+}
+
+const FUNNEL_FIELDS: Record<Exclude<BlinkEventType, 'view'>, keyof BlinkFunnel> = {
+  click: 'clicks',
+  transaction: 'transactions',
+  confirmed: 'confirmed',
+  failed: 'failed',
+};
+
+function emptyFunnel(): BlinkFunnel {
+  return { views: 0, clicks: 0, transactions: 0, confirmed: 0, failed: 0 };
+}
+
+export function createBlinkAnalyticsStore(baseDir?: string): FileBlinkAnalyticsStore {
+  return new FileBlinkAnalyticsStore(baseDir);
+}
+
+// Export singleton instance
+export const blinkAnalytics = createBlinkAnalyticsStore();
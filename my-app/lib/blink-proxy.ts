@@ -0,0 +1,356 @@
+/**
+ * Blink Proxy
+ * Server-side client for third-party Solana Actions. Resolves pasted links to
+ * action URLs (directly or through the site's actions.json), only talks to
+ * hosts the Dialect registry trusts or we allow-list, and validates every
+ * payload against the Actions spec before the browser renders it or hands a
+ * transaction to the wallet.
+ */
+
+import {
+  createSignMessageText,
+  verifySignMessageData,
+  type ActionGetResponse,
+  type ActionPostRequest,
+  type ActionPostResponse,
+  type ActionRuleObject,
+  type NextAction,
+  type NextActionPostRequest,
+} from '@solana/actions'
+import { parseActionUrl } from './action-urls'
+import {
+  ActionSpecIssue,
+  ActionSpecReport,
+  validateActionGet,
+  validateActionPost,
+  validateActionsJson,
+  validateNextAction,
+} from './actions-spec-validator'
+
+const DIALECT_REGISTRY_URL = process.env.BLINK_REGISTRY_URL || 'https://actions-registry.dial.to/all'
+const REGISTRY_TTL = 10 * 60 * 1000
+const REQUEST_TIMEOUT = 10000
+const MAX_RESPONSE_LENGTH = 512 * 1024
+// Paths of our own origin the proxy may reach; everything else there is off limits
+const OWN_ACTION_PATHS = /^\/(api\/actions\/|actions\.json$)/
+
+// Why a host may be proxied: it is us, the Dialect registry trusts it, or we allow-listed it
+export type BlinkHostTrust = 'own' | 'trusted' | 'allowed'
+
+export class BlinkProxyError extends Error {
+  constructor(
+    message: string,
+    public code: 'INVALID_URL' | 'BLOCKED' | 'UPSTREAM_ERROR' | 'INVALID_RESPONSE'
+  ) {
+    super(message)
+    this.name = 'BlinkProxyError'
+  }
+}
+
+export interface ProxiedAction<T = ActionGetResponse> {
+  actionUrl: string
+  host: string
+  trust: BlinkHostTrust
+  action: T
+  warnings: ActionSpecIssue[]
+}
+
+export interface ProxiedPostResponse {
+  actionUrl: string
+  response: ActionPostResponse
+  messageText?: string // Exact text the wallet signs for `message` responses
+  warnings: ActionSpecIssue[]
+}
+
+interface RegistryEntry {
+  host: string
+  state: 'trusted' | 'malicious' | 'unknown'
+}
+
+interface HostRegistry {
+  trusted: Set<string>
+  malicious: Set<string>
+  fetchedAt: number
+}
+
+export class BlinkProxyService {
+  private registry: HostRegistry | null = null
+  private allowedHosts: Set<string>
+
+  constructor(
+    private fetchImpl: typeof fetch = fetch,
+    allowedHosts: string = process.env.BLINK_ALLOWED_HOSTS || '',
+    private registryUrl: string = DIALECT_REGISTRY_URL
+  ) {
+    this.allowedHosts = new Set(
+      allowedHosts.split(',').map(host => host.trim().toLowerCase()).filter(Boolean)
+    )
+  }
+
+  /**
+   * Resolve a pasted link and load the action it points at
+   */
+  async getAction(input: string, origin: string): Promise<ProxiedAction> {
+    const actionUrl = await this.resolveActionUrl(input, origin)
+    const { trust, host } = await this.checkUrl(actionUrl, origin)
+    const payload = await this.request(actionUrl, { method: 'GET' })
+
+    const report = validateActionGet(payload)
+    assertValid(report, 'Action')
+    return { actionUrl, host, trust, action: absolutizeAction(payload, actionUrl), warnings: report.warnings }
+  }
+
+  /**
+   * Execute a linked action on behalf of the user's account
+   */
+  async postAction(href: string, body: ActionPostRequest, origin: string): Promise<ProxiedPostResponse> {
+    const actionUrl = toUrl(href).href
+    await this.checkUrl(actionUrl, origin)
+    const payload = await this.request(actionUrl, { method: 'POST', body: JSON.stringify(body) })
+
+    const report = validateActionPost(payload)
+    assertValid(report, 'Action response')
+    const response = absolutizePostResponse(payload, actionUrl)
+    if (response.type !== 'message') {
+      return { actionUrl, response, warnings: report.warnings }
+    }
+
+    // Structured sign-in data must name this user and the domain asking for it
+    if (typeof response.data !== 'string') {
+      const problems = verifySignMessageData(response.data, {
+        expectedAddress: body.account,
+        expectedDomains: [new URL(actionUrl).hostname],
+      })
+      if (problems.length > 0) {
+        throw new BlinkProxyError(`Refusing to sign message: ${problems.join(', ')}`, 'INVALID_RESPONSE')
+      }
+    }
+    const messageText = typeof response.data === 'string' ? response.data : createSignMessageText(response.data)
+    return { actionUrl, response, messageText, warnings: report.warnings }
+  }
+
+  /**
+   * Report a signature (or signed message) to a `links.next` callback and load the next action
+   */
+  async postNext(href: string, body: NextActionPostRequest, origin: string): Promise<ProxiedAction<NextAction>> {
+    const actionUrl = toUrl(href).href
+    const { trust, host } = await this.checkUrl(actionUrl, origin)
+    const payload = await this.request(actionUrl, { method: 'POST', body: JSON.stringify(body) })
+
+    const report = validateNextAction(payload)
+    assertValid(report, 'Next action')
+    return { actionUrl, host, trust, action: absolutizeAction(payload, actionUrl), warnings: report.warnings }
+  }
+
+  /**
+   * Turn a pasted link into an action URL. Website links are mapped through
+   * the site's actions.json; a site without one is tried as an action itself.
+   */
+  async resolveActionUrl(input: string, origin: string): Promise<string> {
+    const parsed = parseActionUrl(input)
+    if (!parsed) {
+      throw new BlinkProxyError('Not an action URL or Blink link', 'INVALID_URL')
+    }
+    if (parsed.kind === 'action') return parsed.url
+
+    const url = new URL(parsed.url)
+    const actionsJsonUrl = `${url.origin}/actions.json`
+    await this.checkUrl(actionsJsonUrl, origin)
+
+    let rules: ActionRuleObject[] = []
+    try {
+      const payload = await this.request(actionsJsonUrl, { method: 'GET' })
+      if (validateActionsJson(payload).valid) rules = payload.rules
+    } catch (error) {
+      if (!(error instanceof BlinkProxyError) || error.code !== 'UPSTREAM_ERROR') throw error
+    }
+    return matchActionsJsonRules(rules, url) || url.href
+  }
+
+  /**
+   * Check a URL against the allow-list before any request is made
+   */
+  async checkUrl(value: string, origin: string): Promise<{ trust: BlinkHostTrust; host: string }> {
+    const url = toUrl(value)
+    const host = url.host.toLowerCase()
+
+    if (url.origin === origin) {
+      if (!OWN_ACTION_PATHS.test(url.pathname)) {
+        throw new BlinkProxyError(`${url.pathname} is not an action path`, 'BLOCKED')
+      }
+      return { trust: 'own', host }
+    }
+    if (url.protocol !== 'https:') {
+      throw new BlinkProxyError('Third-party actions must use https', 'BLOCKED')
+    }
+    if (isPrivateHost(url.hostname)) {
+      throw new BlinkProxyError(`${host} is a private address`, 'BLOCKED')
+    }
+
+    const registry = await this.loadRegistry()
+    if (registry.malicious.has(host)) {
+      throw new BlinkProxyError(`${host} is flagged as malicious by the Dialect registry`, 'BLOCKED')
+    }
+    if (this.allowedHosts.has(host)) return { trust: 'allowed', host }
+    if (registry.trusted.has(host)) return { trust: 'trusted', host }
+    throw new BlinkProxyError(`${host} is not a registered Blink host`, 'BLOCKED')
+  }
+
+  private async loadRegistry(): Promise<HostRegistry> {
+    if (this.registry && Date.now() - this.registry.fetchedAt < REGISTRY_TTL) {
+      return this.registry
+    }
+
+    try {
+      const response = await this.fetchImpl(this.registryUrl, {
+        headers: { Accept: 'application/json' },
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT),
+      })
+      if (!response.ok) throw new Error(`status ${response.status}`)
+      const data = await response.json()
+      const entries: RegistryEntry[] = [...(data.actions || []), ...(data.websites || [])]
+      this.registry = {
+        trusted: new Set(entries.filter(entry => entry.state === 'trusted').map(entry => entry.host.toLowerCase())),
+        malicious: new Set(entries.filter(entry => entry.state === 'malicious').map(entry => entry.host.toLowerCase())),
+        fetchedAt: Date.now(),
+      }
+    } catch (error) {
+      // Without the registry only our own origin and the allow-list get through
+      console.error('Dialect registry unavailable:', error)
+      if (!this.registry) return { trusted: new Set(), malicious: new Set(), fetchedAt: 0 }
+    }
+    return this.registry
+  }
+
+  private async request(url: string, init: { method: 'GET' | 'POST'; body?: string }): Promise<any> {
+    let response: Response
+    try {
+      response = await this.fetchImpl(url, {
+        ...init,
+        headers: { Accept: 'application/json', ...(init.body !== undefined && { 'Content-Type': 'application/json' }) },
+        // Redirects could lead anywhere, including hosts the allow-list would reject
+        redirect: 'manual',
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT),
+      })
+    } catch (error: any) {
+      throw new BlinkProxyError(`Could not reach ${new URL(url).host}: ${error.message || error}`, 'UPSTREAM_ERROR')
+    }
+
+    const text = await response.text()
+    if (text.length > MAX_RESPONSE_LENGTH) {
+      throw new BlinkProxyError('Action response is too large', 'INVALID_RESPONSE')
+    }
+    let payload: any = null
+    try {
+      payload = text ? JSON.parse(text) : null
+    } catch {
+      // Reported below; error pages are rarely JSON
+    }
+
+    if (!response.ok) {
+      // Actions explain failures in an ActionError body; surface it to the user
+      const message = typeof payload?.message === 'string' ? payload.message : `Action returned status ${response.status}`
+      throw new BlinkProxyError(message, 'UPSTREAM_ERROR')
+    }
+    if (payload === null) {
+      throw new BlinkProxyError('Action did not return JSON', 'INVALID_RESPONSE')
+    }
+    return payload
+  }
+}
+
+/**
+ * Map a website URL to its action API through actions.json rules. `*` matches
+ * one path segment and `**` any remainder; matched wildcards fill the
+ * apiPath's wildcards in order, and the page's query string is kept.
+ */
+export function matchActionsJsonRules(rules: ActionRuleObject[], url: URL): string | null {
+  for (const rule of rules) {
+    const pattern = new RegExp(
+      `^${rule.pathPattern
+        .split(/(\*\*|\*)/)
+        .map(part => (part === '**' ? '(.*)' : part === '*' ? '([^/]+)' : part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')))
+        .join('')}$`
+    )
+    const match = url.pathname.match(pattern)
+    if (!match) continue
+
+    const captures = match.slice(1)
+    const apiPath = rule.apiPath.replace(/\*\*|\*/g, () => captures.shift() ?? '')
+    const target = new URL(apiPath, url.origin)
+    url.searchParams.forEach((value, key) => target.searchParams.set(key, value))
+    return target.href
+  }
+  return null
+}
+
+function isPrivateHost(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, '')
+  if (host === 'localhost' || /\.(localhost|local|internal)$/.test(host)) return true
+
+  const ipv4 = host.match(/^(\d+)\.(\d+)\.(\d+)\.(\d+)$/)
+  if (ipv4) {
+    const [a, b] = [Number(ipv4[1]), Number(ipv4[2])]
+    return a === 0 || a === 10 || a === 127 || (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) || (a === 192 && b === 168) || (a === 100 && b >= 64 && b <= 127)
+  }
+  // IPv6 loopback, unique-local and link-local ranges
+  return host.includes(':') && (host === '::1' || host === '::' || /^(fc|fd|fe80)/.test(host) || host.startsWith('::ffff:'))
+}
+
+function toUrl(value: string): URL {
+  try {
+    const url = new URL(value)
+    if (url.protocol === 'https:' || url.protocol === 'http:') return url
+  } catch {
+    // Reported below
+  }
+  throw new BlinkProxyError(`Invalid action URL: ${value}`, 'INVALID_URL')
+}
+
+function assertValid(report: ActionSpecReport, subject: string) {
+  if (!report.valid) {
+    const [first] = report.errors
+    throw new BlinkProxyError(
+      `${subject} does not follow the Actions spec: ${first.path ? `${first.path}: ` : ''}${first.message}`,
+      'INVALID_RESPONSE'
+    )
+  }
+}
+
+// Hrefs may be relative to the action URL; the browser only sees absolute ones
+function absolutize(value: string, base: string): string {
+  if (/^[a-z][a-z0-9+.-]*:/i.test(value)) return value
+  // Path concatenation keeps `{param}` placeholders unencoded
+  return value.startsWith('/') ? `${new URL(base).origin}${value}` : new URL(value, base).href
+}
+
+function absolutizeAction<T extends ActionGetResponse | NextAction>(action: any, base: string): T {
+  return {
+    ...action,
+    ...(action.links?.actions && {
+      links: {
+        ...action.links,
+        actions: action.links.actions.map((linked: any) => ({ ...linked, href: absolutize(linked.href, base) })),
+      },
+    }),
+  }
+}
+
+function absolutizePostResponse(response: any, base: string): ActionPostResponse {
+  const next = response.links?.next
+  if (next?.type === 'post') {
+    return { ...response, links: { next: { ...next, href: absolutize(next.href, base) } } }
+  }
+  if (next?.type === 'inline') {
+    return { ...response, links: { next: { ...next, action: absolutizeAction(next.action, base) } } }
+  }
+  return response
+}
+
+export function createBlinkProxyService(fetchImpl?: typeof fetch): BlinkProxyService {
+  return new BlinkProxyService(fetchImpl)
+}
+
+// Export singleton instance
+export const blinkProxyService = createBlinkProxyService()
@@ -0,0 +1,70 @@
+/**
+ * Blink Registry Type Definitions
+ * Shared between the registry store, the /api/blinks routes, the hosted
+ * action route and the Blinks modal
+ */
+
+import type { BlinkConfig } from './blinks-types';
+
+// Saved Blinks are served as live actions under this path
+export const HOSTED_BLINK_PATH = '/api/actions/b';
+
+// Selects the saved action a POST is for; the stored href may already use `action`
+export const HOSTED_ACTION_PARAM = 'actionId';
+
+// Request header carrying the owner key that update and delete require
+export const BLINK_OWNER_HEADER = 'X-Blink-Owner-Key';
+
+export interface StoredBlink extends BlinkConfig {
+  id: string;
+  createdAt: string; // ISO timestamp
+  updatedAt: string; // ISO timestamp
+}
+
+// Returned once by create; only a hash of the owner key is stored
+export interface CreatedBlink {
+  blink: StoredBlink;
+  ownerKey: string;
+}
+
+export interface BlinkSummary {
+  id: string;
+  title: string;
+  description: string;
+  icon: string;
+  network: BlinkConfig['network'];
+  endpoint: string;
+  actionCount: number;
+  creator?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface BlinkListOptions {
+  limit?: number;
+  offset?: number;
+  creator?: string;
+}
+
+/**
+ * Storage-agnostic repository contract, mirroring the conversation store: the
+ * file-backed implementation in blink-registry.ts is the default
+ */
+export interface BlinkRepository {
+  list(options?: BlinkListOptions): Promise<BlinkSummary[]>;
+  get(id: string): Promise<StoredBlink | null>;
+  create(config: BlinkConfig): Promise<CreatedBlink>;
+  update(id: string, config: BlinkConfig, ownerKey: string | null): Promise<StoredBlink | null>;
+  delete(id: string, ownerKey: string | null): Promise<boolean>;
+}
+
+export class BlinkRegistryError extends Error {
+  constructor(message: string, public code: 'INVALID_ID' | 'INVALID_INPUT' | 'FORBIDDEN' | 'IO_ERROR') {
+    super(message);
+    this.name = 'BlinkRegistryError';
+  }
+}
+
+export function hostedBlinkPath(id: string): string {
+  return `${HOSTED_BLINK_PATH}/${id}`;
+}
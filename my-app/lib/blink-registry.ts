@@ -0,0 +1,359 @@
+/**
+ * Blink Registry
+ * File-backed persistence for saved Blink configurations. Each Blink is
+ * written as a JSON document and served as a live action from
+ * /api/actions/b/[id]; a small index file keeps summaries for fast listing.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { ActionType, BlinkAction, BlinkConfig } from './blinks-types';
+import {
+  BlinkListOptions,
+  BlinkRegistryError,
+  BlinkRepository,
+  BlinkSummary,
+  CreatedBlink,
+  StoredBlink,
+  hostedBlinkPath,
+} from './blink-registry-types';
+
+const DEFAULT_REGISTRY_DIR = path.join(process.cwd(), '.data', 'blinks');
+const INDEX_FILE = 'index.json';
+const MAX_ACTIONS = 10;
+const NETWORKS: BlinkConfig['network'][] = ['mainnet-beta', 'devnet', 'testnet'];
+const ACTION_TYPES = Object.values(ActionType) as string[];
+const VALID_ID = /^[A-Za-z0-9_-]{1,128}$/;
+
+// What is written to disk; the owner key hash never leaves the repository
+interface StoredBlinkRecord extends StoredBlink {
+  ownerKeyHash?: string;
+}
+
+export class FileBlinkRepository implements BlinkRepository {
+  private baseDir: string;
+  private index: Map<string, BlinkSummary> | null = null;
+  // Serializes writes so concurrent saves cannot clobber the index
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(baseDir: string = process.env.BLINK_REGISTRY_DIR || DEFAULT_REGISTRY_DIR) {
+    this.baseDir = baseDir;
+  }
+
+  /**
+   * List Blink summaries, most recently updated first
+   */
+  async list(options: BlinkListOptions = {}): Promise<BlinkSummary[]> {
+    const { limit = 50, offset = 0, creator } = options;
+    const index = await this.loadIndex();
+
+    return Array.from(index.values())
+      .filter(summary => !creator || summary.creator === creator)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+      .slice(offset, offset + limit);
+  }
+
+  /**
+   * Load a saved Blink with its full configuration
+   */
+  async get(id: string): Promise<StoredBlink | null> {
+    this.assertValidId(id);
+    const record = await this.read(id);
+    if (!record) return null;
+
+    delete record.ownerKeyHash;
+    return record;
+  }
+
+  /**
+   * Register a new Blink under a fresh id; its endpoint becomes the hosted
+   * action route. The owner key returned alongside it is needed to update or
+   * delete the Blink and cannot be recovered later.
+   */
+  async create(config: BlinkConfig): Promise<CreatedBlink> {
+    const now = new Date().toISOString();
+    const id = `blink-${Date.now().toString(36)}-${randomBytes(4).toString('hex')}`;
+    const ownerKey = randomBytes(32).toString('base64url');
+    const blink: StoredBlink = {
+      ...validateBlinkConfig(config),
+      id,
+      endpoint: hostedBlinkPath(id),
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    return this.enqueueWrite(async () => {
+      await this.writeJson(this.blinkPath(id), { ...blink, ownerKeyHash: hashOwnerKey(ownerKey) });
+      const index = await this.loadIndex();
+      index.set(id, toSummary(blink));
+      await this.persistIndex();
+      return { blink, ownerKey };
+    });
+  }
+
+  /**
+   * Replace a saved Blink's configuration, keeping its id and creation time
+   */
+  async update(id: string, config: BlinkConfig, ownerKey: string | null): Promise<StoredBlink | null> {
+    this.assertValidId(id);
+    const validated = validateBlinkConfig(config);
+
+    return this.enqueueWrite(async () => {
+      const existing = await this.read(id);
+      if (!existing) return null;
+      this.assertOwner(existing, ownerKey);
+
+      const blink: StoredBlink = {
+        ...validated,
+        id,
+        endpoint: hostedBlinkPath(id),
+        createdAt: existing.createdAt,
+        updatedAt: new Date().toISOString(),
+      };
+      await this.writeJson(this.blinkPath(id), { ...blink, ownerKeyHash: existing.ownerKeyHash });
+      const index = await this.loadIndex();
+      index.set(id, toSummary(blink));
+      await this.persistIndex();
+      return blink;
+    });
+  }
+
+  async delete(id: string, ownerKey: string | null): Promise<boolean> {
+    this.assertValidId(id);
+
+    return this.enqueueWrite(async () => {
+      const index = await this.loadIndex();
+      const existing = await this.read(id);
+      if (existing) {
+        this.assertOwner(existing, ownerKey);
+        try {
+          await fs.unlink(this.blinkPath(id));
+        } catch (error: any) {
+          if (error?.code !== 'ENOENT') {
+            throw new BlinkRegistryError(`Failed to delete Blink ${id}: ${error.message || error}`, 'IO_ERROR');
+          }
+        }
+      } else if (!index.has(id)) {
+        return false;
+      }
+
+      index.delete(id);
+      await this.persistIndex();
+      return true;
+    });
+  }
+
+  private async read(id: string): Promise<StoredBlinkRecord | null> {
+    try {
+      const raw = await fs.readFile(this.blinkPath(id), 'utf8');
+      return JSON.parse(raw) as StoredBlinkRecord;
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return null;
+      throw new BlinkRegistryError(`Failed to read Blink ${id}: ${error.message || error}`, 'IO_ERROR');
+    }
+  }
+
+  private async loadIndex(): Promise<Map<string, BlinkSummary>> {
+    if (this.index) return this.index;
+
+    try {
+      const raw = await fs.readFile(path.join(this.baseDir, INDEX_FILE), 'utf8');
+      const entries = JSON.parse(raw) as BlinkSummary[];
+      this.index = new Map(entries.map(entry => [entry.id, entry]));
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') {
+        console.warn('Blink index unreadable, rebuilding:', error);
+      }
+      this.index = await this.rebuildIndex();
+    }
+
+    return this.index;
+  }
+
+  private async rebuildIndex(): Promise<Map<string, BlinkSummary>> {
+    const index = new Map<string, BlinkSummary>();
+
+    let files: string[] = [];
+    try {
+      files = await fs.readdir(this.baseDir);
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return index;
+      throw error;
+    }
+
+    for (const file of files) {
+      if (file === INDEX_FILE || !file.endsWith('.json')) continue;
+      try {
+        const raw = await fs.readFile(path.join(this.baseDir, file), 'utf8');
+        const blink = JSON.parse(raw) as StoredBlink;
+        index.set(blink.id, toSummary(blink));
+      } catch (error) {
+        console.warn(`Skipping unreadable Blink file ${file}:`, error);
+      }
+    }
+
+    return index;
+  }
+
+  private async persistIndex(): Promise<void> {
+    const index = await this.loadIndex();
+    await this.writeJson(path.join(this.baseDir, INDEX_FILE), Array.from(index.values()));
+  }
+
+  private async writeJson(filePath: string, data: unknown): Promise<void> {
+    try {
+      await fs.mkdir(this.baseDir, { recursive: true });
+      // Write to a temp file and rename so readers never see a partial document
+      const tempPath = `${filePath}.${process.pid}.tmp`;
+      await fs.writeFile(tempPath, JSON.stringify(data), 'utf8');
+      await fs.rename(tempPath, filePath);
+    } catch (error: any) {
+      throw new BlinkRegistryError(`Failed to write ${path.basename(filePath)}: ${error.message || error}`, 'IO_ERROR');
+    }
+  }
+
+  private enqueueWrite<T>(operation: () => Promise<T>): Promise<T> {
+    const next = this.writeQueue.then(operation, operation);
+    this.writeQueue = next.catch(() => undefined);
+    return next;
+  }
+
+  private blinkPath(id: string): string {
+    return path.join(this.baseDir, `${id}.json`);
+  }
+
+  // Blinks saved before owner keys existed have no hash and can no longer be changed
+  private assertOwner(record: StoredBlinkRecord, ownerKey: string | null): void {
+    const expected = record.ownerKeyHash ? Buffer.from(record.ownerKeyHash, 'hex') : null;
+    const actual = Buffer.from(hashOwnerKey(ownerKey || ''), 'hex');
+    if (!ownerKey || !expected || expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      throw new BlinkRegistryError(`Owner key does not match Blink ${record.id}`, 'FORBIDDEN');
+    }
+  }
+
+  private assertValidId(id: string): void {
+    if (!VALID_ID.test(id)) {
+      throw new BlinkRegistryError(`Invalid Blink id: ${id}`, 'INVALID_ID');
+    }
+  }
+}
+
+/**
+ * Check a client-supplied configuration and keep only the fields the
+ * registry stores; server-owned fields (id, endpoint, timestamps) are dropped
+ */
+export function validateBlinkConfig(config: BlinkConfig): BlinkConfig {
+  if (!config || typeof config !== 'object') {
+    throw new BlinkRegistryError('Blink configuration is required', 'INVALID_INPUT');
+  }
+  for (const field of ['title', 'description', 'icon'] as const) {
+    if (typeof config[field] !== 'string' || !config[field].trim()) {
+      throw new BlinkRegistryError(`Blink ${field} is required`, 'INVALID_INPUT');
+    }
+  }
+  if (!NETWORKS.includes(config.network)) {
+    throw new BlinkRegistryError(`Unknown network: ${config.network}`, 'INVALID_INPUT');
+  }
+  if (!Array.isArray(config.actions) || config.actions.length === 0) {
+    throw new BlinkRegistryError('A Blink needs at least one action', 'INVALID_INPUT');
+  }
+  if (config.actions.length > MAX_ACTIONS) {
+    throw new BlinkRegistryError(`A Blink can have at most ${MAX_ACTIONS} actions`, 'INVALID_INPUT');
+  }
+
+  const actionIds = new Set<string>();
+  const actions = config.actions.map(action => {
+    const validated = validateAction(action);
+    if (actionIds.has(validated.id)) {
+      throw new BlinkRegistryError(`Duplicate action id: ${validated.id}`, 'INVALID_INPUT');
+    }
+    actionIds.add(validated.id);
+    return validated;
+  });
+
+  return {
+    title: config.title.trim(),
+    description: config.description.trim(),
+    icon: config.icon.trim(),
+    label: config.label,
+    actions,
+    chained: !!config.chained,
+    endpoint: '',
+    network: config.network,
+    customization: config.customization,
+    security: config.security,
+    metadata: config.metadata,
+  };
+}
+
+function validateAction(action: BlinkAction): BlinkAction {
+  if (!action || typeof action.id !== 'string' || !VALID_ID.test(action.id)) {
+    throw new BlinkRegistryError(`Invalid action id: ${action?.id}`, 'INVALID_INPUT');
+  }
+  if (!ACTION_TYPES.includes(action.type)) {
+    throw new BlinkRegistryError(`Unknown action type for ${action.id}: ${action.type}`, 'INVALID_INPUT');
+  }
+  if (typeof action.label !== 'string' || !action.label.trim()) {
+    throw new BlinkRegistryError(`Action ${action.id} needs a label`, 'INVALID_INPUT');
+  }
+  if (typeof action.href !== 'string' || !action.href.trim()) {
+    throw new BlinkRegistryError(`Action ${action.id} needs an href`, 'INVALID_INPUT');
+  }
+  const parameters = Array.isArray(action.parameters) ? action.parameters : [];
+  if (parameters.some(parameter => typeof parameter?.name !== 'string' || !parameter.name)) {
+    throw new BlinkRegistryError(`Action ${action.id} has a parameter without a name`, 'INVALID_INPUT');
+  }
+
+  const { validation } = action;
+  if (validation) {
+    const { minAmount, maxAmount, allowedTokens } = validation;
+    for (const [name, value] of [['minAmount', minAmount], ['maxAmount', maxAmount]] as const) {
+      if (value !== undefined && (typeof value !== 'number' || !isFinite(value) || value < 0)) {
+        throw new BlinkRegistryError(`Action ${action.id}: ${name} must be a non-negative number`, 'INVALID_INPUT');
+      }
+    }
+    if (minAmount !== undefined && maxAmount !== undefined && minAmount > maxAmount) {
+      throw new BlinkRegistryError(`Action ${action.id}: minAmount is greater than maxAmount`, 'INVALID_INPUT');
+    }
+    if (allowedTokens !== undefined && (!Array.isArray(allowedTokens) || allowedTokens.some(token => typeof token !== 'string'))) {
+      throw new BlinkRegistryError(`Action ${action.id}: allowedTokens must be a list of symbols or mints`, 'INVALID_INPUT');
+    }
+  }
+
+  return {
+    id: action.id,
+    type: action.type,
+    label: action.label.trim(),
+    href: action.href.trim(),
+    parameters,
+    ...(typeof action.useOutput === 'string' && { useOutput: action.useOutput }),
+    ...(validation && { validation }),
+  };
+}
+
+function hashOwnerKey(ownerKey: string): string {
+  return createHash('sha256').update(ownerKey).digest('hex');
+}
+
+function toSummary(blink: StoredBlink): BlinkSummary {
+  return {
+    id: blink.id,
+    title: blink.title,
+    description: blink.description,
+    icon: blink.icon,
+    network: blink.network,
+    endpoint: blink.endpoint,
+    actionCount: blink.actions.length,
+    creator: blink.metadata?.creator,
+    createdAt: blink.createdAt,
+    updatedAt: blink.updatedAt,
+  };
+}
+
+export function createBlinkRegistry(baseDir?: string): BlinkRepository {
+  return new FileBlinkRepository(baseDir);
+}
+
+// Export singleton instance
+export const blinkRegistry = createBlinkRegistry();
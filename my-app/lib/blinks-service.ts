@@ -5,6 +5,7 @@ import {
   SystemProgram,
   LAMPORTS_PER_SOL,
   TransactionInstruction,
+  VersionedTransaction,
   sendAndConfirmTransaction
 } from '@solana/web3.js'
 import {
@@ -14,11 +15,15 @@ import {
   BlinkConfig,
   BlinkMetadata,
   ActionType,
+  BuiltTransactionRef,
   ACTIONS_CORS_HEADERS,
   ERROR_MESSAGES,
   createBlinkUrl
 } from './blinks-types'
 import { SOLANA_CONFIG } from './solana-config'
+import { transactionSimulator, summarizeSimulation, SimulationReport } from './transaction-simulator'
+import { stakingService } from './staking-service'
+import { StakingError, StakeTransactionPlan } from './staking-types'
 
 export class BlinksService {
   private connection: Connection
@@ -93,47 +98,68 @@ export class BlinksService {
   }
 
   /**
-   * Create a stake SOL transaction
+   * Create a stake SOL transaction: a new stake account derived from the
+   * staker's wallet, funded and delegated to the validator's vote account
    */
   async createStakeTransaction(
     staker: string,
     validatorVote: string,
     amount: number
   ): Promise<string> {
-    try {
-      const stakerPubkey = new PublicKey(staker)
-      const validatorVotePubkey = new PublicKey(validatorVote)
-      
-      // This is a simplified version - real staking requires more complex operations
-      // including creating stake account, delegating, etc.
-      const transaction = new Transaction()
-      
-      // Add staking instructions here
-      // For now, returning a simple transfer as placeholder
-      const instruction = SystemProgram.transfer({
-        fromPubkey: stakerPubkey,
-        toPubkey: validatorVotePubkey,
-        lamports: amount * LAMPORTS_PER_SOL
-      })
-      
-      transaction.add(instruction)
+    const { transaction } = await this.buildStakeAction(() =>
+      stakingService.buildStakeTransaction(staker, validatorVote, amount)
+    )
+    return this.serialize(transaction)
+  }
 
-      const { blockhash } = await this.connection.getLatestBlockhash()
-      transaction.recentBlockhash = blockhash
-      transaction.feePayer = stakerPubkey
+  /**
+   * Create a transaction deactivating a delegated stake account
+   */
+  async createDeactivateStakeTransaction(
+    staker: string,
+    stakeAccount: string
+  ): Promise<string> {
+    const { transaction } = await this.buildStakeAction(() =>
+      stakingService.buildDeactivateTransaction(staker, stakeAccount)
+    )
+    return this.serialize(transaction)
+  }
 
-      const serializedTransaction = transaction.serialize({
-        requireAllSignatures: false,
-        verifySignatures: false
-      })
+  /**
+   * Create a transaction withdrawing SOL from a stake account; omit the
+   * amount to withdraw everything that is withdrawable
+   */
+  async createWithdrawStakeTransaction(
+    withdrawer: string,
+    stakeAccount: string,
+    amount?: number
+  ): Promise<string> {
+    const { transaction } = await this.buildStakeAction(() =>
+      stakingService.buildWithdrawTransaction(withdrawer, stakeAccount, amount)
+    )
+    return this.serialize(transaction)
+  }
 
-      return serializedTransaction.toString('base64')
+  // Staking errors explain what is wrong with the request; anything else is a generic failure
+  private async buildStakeAction(build: () => Promise<StakeTransactionPlan>): Promise<StakeTransactionPlan> {
+    try {
+      return await build()
     } catch (error) {
       console.error('Error creating stake transaction:', error)
+      if (error instanceof StakingError) {
+        throw error
+      }
       throw new Error(ERROR_MESSAGES.TRANSACTION_FAILED)
     }
   }
 
+  private serialize(transaction: Transaction): string {
+    return transaction.serialize({
+      requireAllSignatures: false,
+      verifySignatures: false
+    }).toString('base64')
+  }
+
   /**
    * Validate a Solana address
    */
@@ -236,6 +262,26 @@ export class BlinksService {
     }
   }
 
+  /**
+   * Simulate an action transaction before it is handed to the wallet
+   */
+  async simulateTransaction(
+    transaction: Transaction | VersionedTransaction,
+    account: string
+  ): Promise<{ ok: boolean; summary?: string; error?: string; report?: SimulationReport }> {
+    try {
+      const report = await transactionSimulator.simulate(transaction, { accounts: [account] })
+      if (!report.success) {
+        return { ok: false, error: report.error, report }
+      }
+      return { ok: true, summary: summarizeSimulation(report, account), report }
+    } catch (error) {
+      // Simulation is advisory when the RPC cannot run it; wallets simulate again before signing
+      console.warn('Blink simulation unavailable:', error)
+      return { ok: true }
+    }
+  }
+
   /**
    * Get recent blockhash for transaction
    */
@@ -292,20 +338,48 @@ export class BlinksService {
   }
 
   /**
-   * Verify a transaction signature
+   * Verify a transaction signature: true once it is confirmed without error
+   * and, when a signer is given, signed by that account
    */
-  async verifyTransaction(signature: string): Promise<boolean> {
+  async verifyTransaction(signature: string, signer?: string): Promise<boolean> {
     try {
-      const result = await this.connection.getTransaction(signature, {
-        commitment: 'confirmed'
-      })
-      return result !== null
+      return (await this.getTransactionStatus(signature, signer)) === 'confirmed'
     } catch (error) {
       console.error('Error verifying transaction:', error)
       return false
     }
   }
 
+  /**
+   * Whether a transaction landed, and if so whether it succeeded. With
+   * `built`, the landed transaction must also carry that blockhash and fee
+   * payer, i.e. be the one that was handed out.
+   */
+  async getTransactionStatus(
+    signature: string,
+    signer?: string,
+    built?: BuiltTransactionRef
+  ): Promise<'confirmed' | 'failed' | 'not-found' | 'wrong-signer' | 'wrong-transaction'> {
+    // Versioned transactions (e.g. Jupiter swaps) are only returned with a supported version set
+    const result = await this.connection.getTransaction(signature, {
+      commitment: 'confirmed',
+      maxSupportedTransactionVersion: 0
+    })
+    if (!result) return 'not-found'
+
+    const { message } = result.transaction
+    if (signer) {
+      const signers = message.staticAccountKeys
+        .slice(0, message.header.numRequiredSignatures)
+        .map(key => key.toBase58())
+      if (!signers.includes(signer)) return 'wrong-signer'
+    }
+    if (built && (message.recentBlockhash !== built.blockhash || message.staticAccountKeys[0]?.toBase58() !== built.feePayer)) {
+      return 'wrong-transaction'
+    }
+    return result.meta?.err ? 'failed' : 'confirmed'
+  }
+
   /**
    * Get explorer URL for a transaction
    */
@@ -1,6 +1,8 @@
 // Solana Blinks and Actions Type Definitions
 // Based on Solana Actions Specification
 
+import { SOLANA_CONFIG } from "./solana-config"
+
 export interface ActionGetResponse {
   icon: string // Absolute URL to icon image
   title: string // Action title
@@ -76,20 +78,61 @@ export interface BlinkTransaction {
 }
 
 export interface BlinkAnalytics {
-  totalClicks: number
-  uniqueUsers: number
-  successfulTransactions: number
-  failedTransactions: number
-  averageResponseTime: number
+  views: number // Successful GETs of the action
+  totalClicks: number // POSTs, i.e. users pressing an action button
+  uniqueUsers: number // Distinct accounts that posted
+  transactionsBuilt: number // POSTs that returned a transaction
+  successfulTransactions: number // Returned transactions confirmed on-chain
+  failedTransactions: number // Returned transactions that landed with an error
+  averageResponseTime: number // Milliseconds, across GETs and POSTs
   lastUsed?: string
 }
 
+// Identifies a built transaction once it lands, so a reported signature can be matched to it
+export interface BuiltTransactionRef {
+  blockhash: string
+  feePayer: string
+}
+
+// Analytics events, appended by the action routes
+export type BlinkEventType = "view" | "click" | "transaction" | "confirmed" | "failed"
+
+export interface BlinkEvent {
+  id: string
+  blinkId: string // Built-in route name (e.g. "swap") or registry id
+  actionId?: string // Hosted action id or the route's `action` parameter
+  type: BlinkEventType
+  account?: string
+  transactionEventId?: string // confirmed/failed: the transaction event they resolve
+  built?: BuiltTransactionRef // transaction: the transaction handed to the wallet
+  signature?: string
+  status?: number // HTTP status of the action response
+  responseTime?: number // Milliseconds
+  timestamp: string // ISO timestamp
+}
+
+// Conversion from a view to a confirmed transaction
+export interface BlinkFunnel {
+  views: number
+  clicks: number
+  transactions: number
+  confirmed: number
+  failed: number
+}
+
+export interface BlinkAnalyticsReport extends BlinkAnalytics {
+  blinkId: string
+  funnel: BlinkFunnel
+  actions: Array<{ actionId: string; funnel: BlinkFunnel }> // Views count for every action, since a GET shows them all
+}
+
 // Action types for different operations
 export enum ActionType {
   TRANSFER = "transfer",
   SWAP = "swap",
   STAKE = "stake",
   UNSTAKE = "unstake",
+  LIQUID_STAKE = "liquid-stake",
   MINT_NFT = "mint-nft",
   TRANSFER_NFT = "transfer-nft",
   VOTE = "vote",
@@ -105,6 +148,7 @@ export interface BlinkConfig {
   icon: string // Absolute URL
   label?: string // Default action label
   actions: BlinkAction[]
+  chained?: boolean // Run the actions in order as an action chain
   endpoint: string // API endpoint URL
   network: "mainnet-beta" | "devnet" | "testnet"
   customization?: {
@@ -133,6 +177,7 @@ export interface BlinkAction {
   label: string
   href: string // URL pattern with parameters
   parameters: ActionParameter[]
+  useOutput?: string // Chained Blinks: parameter filled with what the previous step received
   validation?: {
     minAmount?: number
     maxAmount?: number
@@ -141,6 +186,28 @@ export interface BlinkAction {
   }
 }
 
+// Action chaining: each step is offered once the previous step's transaction confirms
+export interface ActionChainStep {
+  type: ActionType
+  label: string
+  href: string // Same-origin action path with {param} placeholders, e.g. "/api/actions/stake?amount={amount}"
+  parameters?: ActionParameter[]
+  useOutput?: {
+    parameter: string // Filled with the amount the previous step's transaction paid to the account
+    mint?: string // Asset to read; defaults to the asset the account received
+  }
+}
+
+export interface ActionChain {
+  title: string
+  description: string
+  icon: string // Absolute URL
+  steps: ActionChainStep[]
+}
+
+export const MAX_CHAIN_STEPS = 5
+export const CHAIN_ENTRY_PATH = "/api/actions/chain" // GET serves a chain's first step
+
 // Helper type for building transactions
 export interface TransactionBuilder {
   addInstruction(instruction: any): TransactionBuilder
@@ -158,14 +225,30 @@ export interface BlinkProcessorResponse {
 }
 
 // Constants
-export const ACTIONS_CORS_HEADERS = {
+export const ACTIONS_SPEC_VERSION = "2.4" // Actions spec version our routes implement
+
+// CAIP-2 chain ids, as sent in X-Blockchain-Ids
+export const BLOCKCHAIN_IDS: Record<BlinkConfig["network"], string> = {
+  "mainnet-beta": "solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp",
+  devnet: "solana:EtWTRABZaYq6iMfeYKouRu166VU2xqa1",
+  testnet: "solana:4uhcVJyU9pJkvQyS88uRDiswHXSCkY3z"
+}
+
+export const createActionHeaders = (network: BlinkConfig["network"] = SOLANA_CONFIG.network) => ({
   "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Allow-Methods": "GET, POST, PUT, OPTIONS",
   "Access-Control-Allow-Headers": "Content-Type, Authorization, Content-Encoding, Accept-Encoding, X-Accept-Action-Version, X-Accept-Blockchain-Ids",
   "Access-Control-Expose-Headers": "X-Action-Version, X-Blockchain-Ids",
-  "X-Action-Version": "2.1.3", // Current Actions spec version
-  "X-Blockchain-Ids": "solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp" // Mainnet
-}
+  "Content-Type": "application/json",
+  "X-Action-Version": ACTIONS_SPEC_VERSION,
+  "X-Blockchain-Ids": BLOCKCHAIN_IDS[network]
+})
+
+// Headers for every action and actions.json response, on the network our RPC points at
+export const ACTIONS_CORS_HEADERS = createActionHeaders()
+
+// Blink-aware clients without a registered unfurl open action URLs through this interstitial
+export const BLINK_INTERSTITIAL_URL = process.env.NEXT_PUBLIC_BLINK_INTERSTITIAL_URL || "https://dial.to/"
 
 // Validation helpers
 export const validateActionGetResponse = (response: any): response is ActionGetResponse => {
@@ -185,15 +268,53 @@ export const validateActionPostRequest = (request: any): request is ActionPostRe
 }
 
 // URL builders
-export const createBlinkUrl = (actionUrl: string): string => {
-  return `https://dial.to/?action=solana-action:${encodeURIComponent(actionUrl)}`
+export const createBlinkUrl = (actionUrl: string, interstitialUrl: string = BLINK_INTERSTITIAL_URL): string => {
+  const url = new URL(interstitialUrl)
+  url.searchParams.set("action", `solana-action:${actionUrl}`)
+  return url.toString()
 }
 
 export const createTwitterBlinkUrl = (actionUrl: string): string => {
-  // Twitter/X will auto-unfurl this if user has Blinks enabled
+  // Twitter/X will auto-unfurl this if user has Blinks enabled: /actions.json maps our action paths to themselves
   return actionUrl
 }
 
+// Chains travel in action URLs as base64url JSON, so callbacks need no server-side state
+export const encodeActionChain = (chain: ActionChain): string => {
+  const bytes = new TextEncoder().encode(JSON.stringify(chain))
+  let binary = ""
+  bytes.forEach(byte => { binary += String.fromCharCode(byte) })
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "")
+}
+
+export const decodeActionChain = (encoded: string): ActionChain | null => {
+  try {
+    const binary = atob(encoded.replace(/-/g, "+").replace(/_/g, "/"))
+    const chain = JSON.parse(new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0))))
+    return validateActionChain(chain) ? chain : null
+  } catch {
+    return null
+  }
+}
+
+export const validateActionChain = (chain: any): chain is ActionChain => {
+  return (
+    typeof chain === "object" &&
+    typeof chain.title === "string" &&
+    typeof chain.description === "string" &&
+    typeof chain.icon === "string" &&
+    Array.isArray(chain.steps) &&
+    chain.steps.length > 0 &&
+    chain.steps.length <= MAX_CHAIN_STEPS &&
+    chain.steps.every((step: any) =>
+      typeof step?.label === "string" &&
+      typeof step.href === "string" &&
+      // Steps stay on our own action routes; callbacks must be same-origin
+      step.href.startsWith("/api/actions/")
+    )
+  )
+}
+
 // Error messages
 export const ERROR_MESSAGES = {
   INVALID_ACCOUNT: "Invalid account provided",
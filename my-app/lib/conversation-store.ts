@@ -0,0 +1,320 @@
+/**
+ * Conversation Store
+ * File-backed persistence for chat threads. Each conversation is written as a
+ * JSON document holding its full UIMessage list (tool and reasoning parts
+ * included) and a small index file keeps summaries for fast listing.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { UIMessage } from 'ai';
+import {
+  ConversationListOptions,
+  ConversationRepository,
+  ConversationSearchResult,
+  ConversationStoreError,
+  ConversationSummary,
+  StoredConversation,
+} from './conversation-types';
+
+const DEFAULT_STORE_DIR = path.join(process.cwd(), '.data', 'conversations');
+const INDEX_FILE = 'index.json';
+const TITLE_MAX_LENGTH = 60;
+const PREVIEW_MAX_LENGTH = 120;
+const SNIPPET_RADIUS = 40;
+const VALID_ID = /^[A-Za-z0-9_-]{1,128}$/;
+
+export class FileConversationRepository implements ConversationRepository {
+  private baseDir: string;
+  private index: Map<string, ConversationSummary> | null = null;
+  // Serializes writes so concurrent onFinish callbacks cannot clobber the index
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(baseDir: string = process.env.CONVERSATION_STORE_DIR || DEFAULT_STORE_DIR) {
+    this.baseDir = baseDir;
+  }
+
+  /**
+   * List conversation summaries, most recently updated first
+   */
+  async list(options: ConversationListOptions = {}): Promise<ConversationSummary[]> {
+    const { limit = 50, offset = 0 } = options;
+    const index = await this.loadIndex();
+
+    return Array.from(index.values())
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+      .slice(offset, offset + limit);
+  }
+
+  /**
+   * Load a full conversation with its messages
+   */
+  async get(id: string): Promise<StoredConversation | null> {
+    this.assertValidId(id);
+
+    try {
+      const raw = await fs.readFile(this.conversationPath(id), 'utf8');
+      return JSON.parse(raw) as StoredConversation;
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return null;
+      throw new ConversationStoreError(`Failed to read conversation ${id}: ${error.message || error}`, 'IO_ERROR');
+    }
+  }
+
+  /**
+   * Replace the message list of a conversation, creating it if needed
+   */
+  async saveMessages(
+    id: string,
+    messages: UIMessage[],
+    metadata: Pick<ConversationSummary, 'modelId' | 'provider'> = {}
+  ): Promise<ConversationSummary> {
+    this.assertValidId(id);
+
+    return this.enqueueWrite(async () => {
+      const existing = await this.get(id);
+      const now = new Date().toISOString();
+
+      const conversation: StoredConversation = {
+        id,
+        title: existing?.title || deriveTitle(messages),
+        createdAt: existing?.createdAt || now,
+        updatedAt: now,
+        messageCount: messages.length,
+        preview: derivePreview(messages),
+        modelId: metadata.modelId ?? existing?.modelId,
+        provider: metadata.provider ?? existing?.provider,
+        messages,
+      };
+
+      await this.writeJson(this.conversationPath(id), conversation);
+
+      const summary = toSummary(conversation);
+      const index = await this.loadIndex();
+      index.set(id, summary);
+      await this.persistIndex();
+
+      return summary;
+    });
+  }
+
+  /**
+   * Rename a conversation
+   */
+  async rename(id: string, title: string): Promise<ConversationSummary | null> {
+    this.assertValidId(id);
+    const trimmed = title.trim().slice(0, TITLE_MAX_LENGTH * 2);
+    if (!trimmed) {
+      throw new ConversationStoreError('Title cannot be empty', 'INVALID_INPUT');
+    }
+
+    return this.enqueueWrite(async () => {
+      const conversation = await this.get(id);
+      if (!conversation) return null;
+
+      conversation.title = trimmed;
+      conversation.updatedAt = new Date().toISOString();
+      await this.writeJson(this.conversationPath(id), conversation);
+
+      const summary = toSummary(conversation);
+      const index = await this.loadIndex();
+      index.set(id, summary);
+      await this.persistIndex();
+
+      return summary;
+    });
+  }
+
+  /**
+   * Delete a conversation
+   */
+  async delete(id: string): Promise<boolean> {
+    this.assertValidId(id);
+
+    return this.enqueueWrite(async () => {
+      const index = await this.loadIndex();
+      let removed = index.delete(id);
+
+      try {
+        await fs.unlink(this.conversationPath(id));
+        removed = true;
+      } catch (error: any) {
+        if (error?.code !== 'ENOENT') {
+          throw new ConversationStoreError(`Failed to delete conversation ${id}: ${error.message || error}`, 'IO_ERROR');
+        }
+      }
+
+      await this.persistIndex();
+      return removed;
+    });
+  }
+
+  /**
+   * Full-text search over titles and text/reasoning parts
+   */
+  async search(query: string, options: ConversationListOptions = {}): Promise<ConversationSearchResult[]> {
+    const needle = query.trim().toLowerCase();
+    if (!needle) {
+      return (await this.list(options)).map(summary => ({ ...summary, matches: [] }));
+    }
+
+    const { limit = 20, offset = 0 } = options;
+    const summaries = await this.list({ limit: Number.MAX_SAFE_INTEGER });
+    const results: ConversationSearchResult[] = [];
+
+    for (const summary of summaries) {
+      const conversation = await this.get(summary.id);
+      if (!conversation) continue;
+
+      const matches: ConversationSearchResult['matches'] = [];
+      for (const message of conversation.messages) {
+        const text = extractText(message);
+        const position = text.toLowerCase().indexOf(needle);
+        if (position >= 0) {
+          matches.push({
+            messageId: message.id,
+            role: message.role,
+            snippet: buildSnippet(text, position, needle.length),
+          });
+        }
+      }
+
+      if (matches.length > 0 || summary.title.toLowerCase().includes(needle)) {
+        results.push({ ...summary, matches: matches.slice(0, 3) });
+      }
+    }
+
+    return results.slice(offset, offset + limit);
+  }
+
+  private async loadIndex(): Promise<Map<string, ConversationSummary>> {
+    if (this.index) return this.index;
+
+    try {
+      const raw = await fs.readFile(path.join(this.baseDir, INDEX_FILE), 'utf8');
+      const entries = JSON.parse(raw) as ConversationSummary[];
+      this.index = new Map(entries.map(entry => [entry.id, entry]));
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') {
+        console.warn('Conversation index unreadable, rebuilding:', error);
+      }
+      this.index = await this.rebuildIndex();
+    }
+
+    return this.index;
+  }
+
+  private async rebuildIndex(): Promise<Map<string, ConversationSummary>> {
+    const index = new Map<string, ConversationSummary>();
+
+    let files: string[] = [];
+    try {
+      files = await fs.readdir(this.baseDir);
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return index;
+      throw error;
+    }
+
+    for (const file of files) {
+      if (file === INDEX_FILE || !file.endsWith('.json')) continue;
+      try {
+        const raw = await fs.readFile(path.join(this.baseDir, file), 'utf8');
+        const conversation = JSON.parse(raw) as StoredConversation;
+        index.set(conversation.id, toSummary(conversation));
+      } catch (error) {
+        console.warn(`Skipping unreadable conversation file ${file}:`, error);
+      }
+    }
+
+    return index;
+  }
+
+  private async persistIndex(): Promise<void> {
+    const index = await this.loadIndex();
+    await this.writeJson(path.join(this.baseDir, INDEX_FILE), Array.from(index.values()));
+  }
+
+  private async writeJson(filePath: string, data: unknown): Promise<void> {
+    try {
+      await fs.mkdir(this.baseDir, { recursive: true });
+      // Write to a temp file and rename so readers never see a partial document
+      const tempPath = `${filePath}.${process.pid}.tmp`;
+      await fs.writeFile(tempPath, JSON.stringify(data), 'utf8');
+      await fs.rename(tempPath, filePath);
+    } catch (error: any) {
+      throw new ConversationStoreError(`Failed to write ${path.basename(filePath)}: ${error.message || error}`, 'IO_ERROR');
+    }
+  }
+
+  private enqueueWrite<T>(operation: () => Promise<T>): Promise<T> {
+    const next = this.writeQueue.then(operation, operation);
+    this.writeQueue = next.catch(() => undefined);
+    return next;
+  }
+
+  private conversationPath(id: string): string {
+    return path.join(this.baseDir, `${id}.json`);
+  }
+
+  private assertValidId(id: string): void {
+    if (!VALID_ID.test(id)) {
+      throw new ConversationStoreError(`Invalid conversation id: ${id}`, 'INVALID_ID');
+    }
+  }
+}
+
+/**
+ * Concatenate the human-readable parts of a message
+ */
+export function extractText(message: UIMessage): string {
+  return message.parts
+    .map(part => (part.type === 'text' || part.type === 'reasoning' ? part.text : ''))
+    .filter(Boolean)
+    .join('\n');
+}
+
+function deriveTitle(messages: UIMessage[]): string {
+  const firstUser = messages.find(message => message.role === 'user');
+  const text = firstUser ? extractText(firstUser).replace(/\s+/g, ' ').trim() : '';
+  if (!text) return 'New conversation';
+  return text.length > TITLE_MAX_LENGTH ? `${text.slice(0, TITLE_MAX_LENGTH - 1)}…` : text;
+}
+
+function derivePreview(messages: UIMessage[]): string | undefined {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const text = messages[i].parts
+      .map(part => (part.type === 'text' ? part.text : ''))
+      .join(' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+    if (text) return text.slice(0, PREVIEW_MAX_LENGTH);
+  }
+  return undefined;
+}
+
+function buildSnippet(text: string, position: number, length: number): string {
+  const start = Math.max(0, position - SNIPPET_RADIUS);
+  const end = Math.min(text.length, position + length + SNIPPET_RADIUS);
+  const snippet = text.slice(start, end).replace(/\s+/g, ' ').trim();
+  return `${start > 0 ? '…' : ''}${snippet}${end < text.length ? '…' : ''}`;
+}
+
+function toSummary(conversation: StoredConversation): ConversationSummary {
+  return {
+    id: conversation.id,
+    title: conversation.title,
+    createdAt: conversation.createdAt,
+    updatedAt: conversation.updatedAt,
+    messageCount: conversation.messageCount,
+    preview: conversation.preview,
+    modelId: conversation.modelId,
+    provider: conversation.provider,
+  };
+}
+
+export function createConversationStore(baseDir?: string): ConversationRepository {
+  return new FileConversationRepository(baseDir);
+}
+
+// Export singleton instance
+export const conversationStore = createConversationStore();
@@ -0,0 +1,59 @@
+/**
+ * Conversation Persistence Type Definitions
+ * Shared between the conversation store, the chat route and the history UI
+ */
+
+import type { UIMessage } from 'ai';
+
+export interface ConversationSummary {
+  id: string;
+  title: string;
+  createdAt: string; // ISO timestamp
+  updatedAt: string; // ISO timestamp
+  messageCount: number;
+  preview?: string; // First characters of the latest text part
+  modelId?: string;
+  provider?: string;
+}
+
+export interface StoredConversation extends ConversationSummary {
+  messages: UIMessage[];
+}
+
+export interface ConversationSearchResult extends ConversationSummary {
+  matches: Array<{
+    messageId: string;
+    role: UIMessage['role'];
+    snippet: string;
+  }>;
+}
+
+export interface ConversationListOptions {
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Storage-agnostic repository contract. The file-backed implementation in
+ * conversation-store.ts is the default; a SQLite or hosted backend only has to
+ * implement this interface to be swapped in.
+ */
+export interface ConversationRepository {
+  list(options?: ConversationListOptions): Promise<ConversationSummary[]>;
+  get(id: string): Promise<StoredConversation | null>;
+  saveMessages(
+    id: string,
+    messages: UIMessage[],
+    metadata?: Pick<ConversationSummary, 'modelId' | 'provider'>
+  ): Promise<ConversationSummary>;
+  rename(id: string, title: string): Promise<ConversationSummary | null>;
+  delete(id: string): Promise<boolean>;
+  search(query: string, options?: ConversationListOptions): Promise<ConversationSearchResult[]>;
+}
+
+export class ConversationStoreError extends Error {
+  constructor(message: string, public code: 'INVALID_ID' | 'INVALID_INPUT' | 'IO_ERROR') {
+    super(message);
+    this.name = 'ConversationStoreError';
+  }
+}
@@ -0,0 +1,540 @@
+/**
+ * DeFi Protocol Adapters
+ * Decode pool accounts straight from chain state. Each adapter knows one
+ * account layout; balances come from the pool's token vaults and prices from
+ * the data source, so the same code runs against RPC or recorded fixtures.
+ *
+ * Layout offsets follow each program's published IDL / Borsh layout,
+ * including the 8-byte Anchor discriminator where the program uses Anchor.
+ */
+
+import { PublicKey } from '@solana/web3.js';
+import {
+  AdapterPool,
+  DefiDataSource,
+  DefiProtocolAdapter,
+  PoolRates,
+  PoolState,
+  PoolTokenAmount,
+  TokenInfo,
+} from './defi-types';
+
+const NATIVE_SOL_MINT = 'So11111111111111111111111111111111111111112';
+const TOKEN_ACCOUNT_AMOUNT_OFFSET = 64;
+const Q64 = Math.pow(2, 64);
+const SCALED_FRACTION = Math.pow(2, 60); // Kamino `*_sf` fixed point
+const SECONDS_PER_DAY = 24 * 60 * 60;
+const SECONDS_PER_YEAR = 365 * SECONDS_PER_DAY;
+
+// --- Buffer readers ---------------------------------------------------------
+
+function readPubkey(data: Buffer, offset: number): string {
+  return new PublicKey(data.subarray(offset, offset + 32)).toBase58();
+}
+
+function readU64(data: Buffer, offset: number): number {
+  return Number(data.readBigUInt64LE(offset));
+}
+
+function readU128(data: Buffer, offset: number): number {
+  return Number(data.readBigUInt64LE(offset)) + Number(data.readBigUInt64LE(offset + 8)) * Q64;
+}
+
+function assertSize(pool: AdapterPool, minSize: number, layout: string): void {
+  if (pool.account.data.length < minSize) {
+    throw new Error(`${pool.address} is ${pool.account.data.length} bytes, expected a ${layout} account of at least ${minSize}`);
+  }
+}
+
+// --- Shared helpers ---------------------------------------------------------
+
+/**
+ * Read raw SPL token account balances for a set of vaults
+ */
+async function getVaultAmounts(vaults: string[], source: DefiDataSource): Promise<Map<string, number>> {
+  const accounts = await source.getAccounts(vaults);
+  const amounts = new Map<string, number>();
+  for (const vault of vaults) {
+    const account = accounts.get(vault);
+    if (account && account.data.length >= TOKEN_ACCOUNT_AMOUNT_OFFSET + 8) {
+      amounts.set(vault, readU64(account.data, TOKEN_ACCOUNT_AMOUNT_OFFSET));
+    }
+  }
+  return amounts;
+}
+
+function toTokenAmount(mint: string, rawAmount: number, tokens: Map<string, TokenInfo>): PoolTokenAmount {
+  const token = tokens.get(mint);
+  const decimals = token?.decimals ?? 0;
+  const amount = rawAmount / Math.pow(10, decimals);
+  return {
+    mint,
+    symbol: token?.symbol || `${mint.slice(0, 4)}…`,
+    amount,
+    valueUsd: token?.usdPrice != null ? amount * token.usdPrice : null,
+  };
+}
+
+/**
+ * Value raw token amounts, or null when any token lacks a price
+ */
+function valueRaw(mint: string, rawAmount: number, tokens: Map<string, TokenInfo>): number | null {
+  return toTokenAmount(mint, rawAmount, tokens).valueUsd;
+}
+
+function sumValues(tokens: PoolTokenAmount[]): number | null {
+  if (tokens.some(token => token.valueUsd === null)) return null;
+  return tokens.reduce((sum, token) => sum + (token.valueUsd || 0), 0);
+}
+
+function pairName(tokens: PoolTokenAmount[]): string {
+  return tokens.map(token => token.symbol).join('-');
+}
+
+function unpricedNote(tokens: PoolTokenAmount[]): string[] {
+  const missing = tokens.filter(token => token.valueUsd === null).map(token => token.symbol);
+  return missing.length > 0 ? [`No USD price for ${missing.join(', ')}; TVL is incomplete`] : [];
+}
+
+function baseState(pool: AdapterPool, protocol: PoolState['protocol']): Pick<PoolState, 'address' | 'protocol' | 'observedAt'> {
+  return { address: pool.address, protocol, observedAt: new Date().toISOString() };
+}
+
+// --- Raydium AMM v4 ---------------------------------------------------------
+
+/**
+ * Raydium constant-product pools (AmmInfo, 752 bytes, no discriminator).
+ * The account keeps cumulative swap input totals, so volume is exact.
+ */
+export class RaydiumAmmAdapter implements DefiProtocolAdapter {
+  readonly id = 'raydium' as const;
+  readonly name = 'Raydium';
+  readonly category = 'amm' as const;
+  readonly programIds = ['675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8'];
+  readonly defaultPools = [
+    '58oQChx4yWmvKdwLLZzBi4ChoCc2fqCUWBkwMihLYQo2', // SOL-USDC
+  ];
+  readonly aprSource = 'fees' as const;
+
+  async loadPools(pools: AdapterPool[], source: DefiDataSource): Promise<PoolState[]> {
+    const decoded = pools.map(pool => {
+      assertSize(pool, 496, 'Raydium AmmInfo');
+      const data = pool.account.data;
+      return {
+        pool,
+        swapFeeNumerator: readU64(data, 176),
+        swapFeeDenominator: readU64(data, 184),
+        pnlNumerator: readU64(data, 160),
+        pnlDenominator: readU64(data, 168),
+        baseNeedTakePnl: readU64(data, 192),
+        quoteNeedTakePnl: readU64(data, 200),
+        swapBaseInAmount: readU128(data, 256),
+        swapQuoteInAmount: readU128(data, 296),
+        baseVault: readPubkey(data, 336),
+        quoteVault: readPubkey(data, 368),
+        baseMint: readPubkey(data, 400),
+        quoteMint: readPubkey(data, 432),
+      };
+    });
+
+    const [tokens, vaults] = await Promise.all([
+      source.getTokens(decoded.flatMap(pool => [pool.baseMint, pool.quoteMint])),
+      getVaultAmounts(decoded.flatMap(pool => [pool.baseVault, pool.quoteVault]), source),
+    ]);
+
+    return decoded.map(pool => {
+      // Protocol fees not yet collected still sit in the vaults
+      const base = toTokenAmount(pool.baseMint, Math.max(0, (vaults.get(pool.baseVault) ?? 0) - pool.baseNeedTakePnl), tokens);
+      const quote = toTokenAmount(pool.quoteMint, Math.max(0, (vaults.get(pool.quoteVault) ?? 0) - pool.quoteNeedTakePnl), tokens);
+      const feeRate = pool.swapFeeDenominator > 0 ? pool.swapFeeNumerator / pool.swapFeeDenominator : null;
+      const protocolShare = pool.pnlDenominator > 0 ? pool.pnlNumerator / pool.pnlDenominator : 0;
+      const baseVolume = valueRaw(pool.baseMint, pool.swapBaseInAmount, tokens);
+      const quoteVolume = valueRaw(pool.quoteMint, pool.swapQuoteInAmount, tokens);
+      const volumeUsd = baseVolume !== null && quoteVolume !== null ? baseVolume + quoteVolume : undefined;
+
+      return {
+        ...baseState(pool.pool, this.id),
+        name: pairName([base, quote]),
+        tokens: [base, quote],
+        tvlUsd: sumValues([base, quote]),
+        feeRate,
+        counters: {
+          volumeUsd,
+          feesUsd: volumeUsd !== undefined && feeRate !== null ? volumeUsd * feeRate * (1 - protocolShare) : undefined,
+        },
+        details: { protocolFeeShare: protocolShare },
+        notes: unpricedNote([base, quote]),
+      };
+    });
+  }
+}
+
+// --- Orca Whirlpools --------------------------------------------------------
+
+/**
+ * Orca concentrated-liquidity pools (Whirlpool, 653 bytes). Fees are tracked
+ * as fee growth per unit of liquidity (Q64.64), so fees are estimated with
+ * the current in-range liquidity and volume is inferred from the fee rate.
+ */
+export class OrcaWhirlpoolAdapter implements DefiProtocolAdapter {
+  readonly id = 'orca' as const;
+  readonly name = 'Orca';
+  readonly category = 'clmm' as const;
+  readonly programIds = ['whirLbMiicVdio4qvUfM5KAg6Ct8VwpYzGff3uctyCc'];
+  readonly defaultPools = [
+    'HJPjoWUrhoZzkNfRpHuieeFk9WcZWjwy6PBjZ81ngndJ', // SOL-USDC
+  ];
+  readonly aprSource = 'fees' as const;
+
+  async loadPools(pools: AdapterPool[], source: DefiDataSource): Promise<PoolState[]> {
+    const decoded = pools.map(pool => {
+      assertSize(pool, 261, 'Orca Whirlpool');
+      const data = pool.account.data;
+      return {
+        pool,
+        feeRate: data.readUInt16LE(45) / 1000000, // Hundredths of a basis point
+        protocolFeeRate: data.readUInt16LE(47) / 10000, // Basis points of the fee
+        liquidity: readU128(data, 49),
+        tickCurrentIndex: data.readInt32LE(81),
+        mintA: readPubkey(data, 101),
+        vaultA: readPubkey(data, 133),
+        feeGrowthGlobalA: readU128(data, 165),
+        mintB: readPubkey(data, 181),
+        vaultB: readPubkey(data, 213),
+        feeGrowthGlobalB: readU128(data, 245),
+      };
+    });
+
+    const [tokens, vaults] = await Promise.all([
+      source.getTokens(decoded.flatMap(pool => [pool.mintA, pool.mintB])),
+      getVaultAmounts(decoded.flatMap(pool => [pool.vaultA, pool.vaultB]), source),
+    ]);
+
+    return decoded.map(pool => {
+      const tokenA = toTokenAmount(pool.mintA, vaults.get(pool.vaultA) ?? 0, tokens);
+      const tokenB = toTokenAmount(pool.mintB, vaults.get(pool.vaultB) ?? 0, tokens);
+      // USD fees earned per unit of liquidity since the pool was created
+      const growthA = valueRaw(pool.mintA, pool.feeGrowthGlobalA / Q64, tokens);
+      const growthB = valueRaw(pool.mintB, pool.feeGrowthGlobalB / Q64, tokens);
+
+      return {
+        ...baseState(pool.pool, this.id),
+        name: pairName([tokenA, tokenB]),
+        tokens: [tokenA, tokenB],
+        tvlUsd: sumValues([tokenA, tokenB]),
+        feeRate: pool.feeRate,
+        counters: { index: growthA !== null && growthB !== null ? growthA + growthB : undefined },
+        details: {
+          liquidity: pool.liquidity,
+          tickCurrentIndex: pool.tickCurrentIndex,
+          protocolFeeShare: pool.protocolFeeRate,
+        },
+        notes: [
+          ...unpricedNote([tokenA, tokenB]),
+          'Fees and volume are estimated from fee growth and current in-range liquidity',
+        ],
+      };
+    });
+  }
+
+  computeRates(previous: PoolState, current: PoolState, elapsedSeconds: number): PoolRates {
+    const before = previous.counters.index;
+    const after = current.counters.index;
+    const liquidity = typeof current.details.liquidity === 'number' ? current.details.liquidity : 0;
+    const protocolShare = typeof current.details.protocolFeeShare === 'number' ? current.details.protocolFeeShare : 0;
+    if (before === undefined || after === undefined || after < before) {
+      return { volume24hUsd: null, fees24hUsd: null, apr: null };
+    }
+
+    const fees24hUsd = (after - before) * liquidity * (SECONDS_PER_DAY / elapsedSeconds);
+    const lpFeeRate = (current.feeRate ?? 0) * (1 - protocolShare);
+    return {
+      volume24hUsd: lpFeeRate > 0 ? fees24hUsd / lpFeeRate : null,
+      fees24hUsd,
+      apr: current.tvlUsd ? (fees24hUsd * 365) / current.tvlUsd : null,
+    };
+  }
+}
+
+// --- Meteora DLMM -----------------------------------------------------------
+
+/**
+ * Meteora dynamic liquidity market maker pairs (LbPair). Only the protocol's
+ * share of fees is accumulated on the pair, so LP fees and volume are scaled
+ * up from it using the base fee; the counter resets whenever fees are claimed.
+ */
+export class MeteoraDlmmAdapter implements DefiProtocolAdapter {
+  readonly id = 'meteora' as const;
+  readonly name = 'Meteora';
+  readonly category = 'dlmm' as const;
+  readonly programIds = ['LBUZKhRxPF3XUpBCjp4YzTKgLccjZhTSDM9YuVaPwxo'];
+  readonly defaultPools = [
+    '5rCf1DM8LjKTw4YqhnoLcngyZYeNnQqztScTogYHAS6', // SOL-USDC
+  ];
+  readonly aprSource = 'fees' as const;
+
+  async loadPools(pools: AdapterPool[], source: DefiDataSource): Promise<PoolState[]> {
+    const decoded = pools.map(pool => {
+      assertSize(pool, 232, 'Meteora LbPair');
+      const data = pool.account.data;
+      const baseFactor = data.readUInt16LE(8);
+      const protocolShare = data.readUInt16LE(32) / 10000;
+      const baseFeePowerFactor = data.readUInt8(34);
+      const binStep = data.readUInt16LE(80);
+      return {
+        pool,
+        // base fee = base_factor * bin_step * 10 * 10^power, in 1e-9 units
+        baseFeeRate: (baseFactor * binStep * 10 * Math.pow(10, baseFeePowerFactor)) / 1e9,
+        protocolShare,
+        activeId: data.readInt32LE(76),
+        binStep,
+        mintX: readPubkey(data, 88),
+        mintY: readPubkey(data, 120),
+        reserveX: readPubkey(data, 152),
+        reserveY: readPubkey(data, 184),
+        protocolFeeX: readU64(data, 216),
+        protocolFeeY: readU64(data, 224),
+      };
+    });
+
+    const [tokens, vaults] = await Promise.all([
+      source.getTokens(decoded.flatMap(pool => [pool.mintX, pool.mintY])),
+      getVaultAmounts(decoded.flatMap(pool => [pool.reserveX, pool.reserveY]), source),
+    ]);
+
+    return decoded.map(pool => {
+      const tokenX = toTokenAmount(pool.mintX, Math.max(0, (vaults.get(pool.reserveX) ?? 0) - pool.protocolFeeX), tokens);
+      const tokenY = toTokenAmount(pool.mintY, Math.max(0, (vaults.get(pool.reserveY) ?? 0) - pool.protocolFeeY), tokens);
+      const protocolFeesX = valueRaw(pool.mintX, pool.protocolFeeX, tokens);
+      const protocolFeesY = valueRaw(pool.mintY, pool.protocolFeeY, tokens);
+      const totalFeesUsd = protocolFeesX !== null && protocolFeesY !== null && pool.protocolShare > 0
+        ? (protocolFeesX + protocolFeesY) / pool.protocolShare
+        : undefined;
+
+      return {
+        ...baseState(pool.pool, this.id),
+        name: pairName([tokenX, tokenY]),
+        tokens: [tokenX, tokenY],
+        tvlUsd: sumValues([tokenX, tokenY]),
+        feeRate: pool.baseFeeRate,
+        counters: {
+          feesUsd: totalFeesUsd !== undefined ? totalFeesUsd * (1 - pool.protocolShare) : undefined,
+          volumeUsd: totalFeesUsd !== undefined && pool.baseFeeRate > 0 ? totalFeesUsd / pool.baseFeeRate : undefined,
+        },
+        details: { activeBinId: pool.activeId, binStep: pool.binStep, protocolFeeShare: pool.protocolShare },
+        notes: [
+          ...unpricedNote([tokenX, tokenY]),
+          'Volume is an upper bound derived from the base fee; dynamic fees are not included',
+        ],
+      };
+    });
+  }
+}
+
+// --- Kamino Lend ------------------------------------------------------------
+
+/**
+ * Kamino lending reserves. TVL is supplied liquidity (available + borrowed)
+ * at the reserve's own oracle price; supply APR comes from the growth of the
+ * cumulative borrow-rate index weighted by utilization.
+ */
+export class KaminoLendAdapter implements DefiProtocolAdapter {
+  readonly id = 'kamino' as const;
+  readonly name = 'Kamino';
+  readonly category = 'lending' as const;
+  readonly programIds = ['KLend2g3cP87fffoy8q1mQqGKjrxjC8boSyAYavgmjD'];
+  readonly defaultPools = [
+    'd4A2prbA2whesmvHaL88BH6Ewn5N4bTSU2Ze8P6Bc4Q', // Main market SOL
+    'D6q6wuQSrifJKZYpR1M8R4YawnLDtDsMmWM1NbBmgJ59', // Main market USDC
+  ];
+  readonly aprSource = 'interest' as const;
+
+  async loadPools(pools: AdapterPool[], source: DefiDataSource): Promise<PoolState[]> {
+    const decoded = pools.map(pool => {
+      assertSize(pool, 312, 'Kamino Reserve');
+      const data = pool.account.data;
+      return {
+        pool,
+        lendingMarket: readPubkey(data, 32),
+        mint: readPubkey(data, 128),
+        availableAmount: readU64(data, 224),
+        borrowedAmount: readU128(data, 232) / SCALED_FRACTION,
+        marketPrice: readU128(data, 248) / SCALED_FRACTION,
+        mintDecimals: readU64(data, 272),
+        cumulativeBorrowRate: readU128(data, 296) / SCALED_FRACTION,
+      };
+    });
+
+    const tokens = await source.getTokens(decoded.map(pool => pool.mint));
+
+    return decoded.map(pool => {
+      const token = tokens.get(pool.mint);
+      const scale = Math.pow(10, pool.mintDecimals);
+      const supplied = (pool.availableAmount + pool.borrowedAmount) / scale;
+      const borrowed = pool.borrowedAmount / scale;
+      const price = pool.marketPrice > 0 ? pool.marketPrice : token?.usdPrice ?? null;
+      const symbol = token?.symbol || `${pool.mint.slice(0, 4)}…`;
+
+      return {
+        ...baseState(pool.pool, this.id),
+        name: `${symbol} supply`,
+        tokens: [{ mint: pool.mint, symbol, amount: supplied, valueUsd: price !== null ? supplied * price : null }],
+        tvlUsd: price !== null ? supplied * price : null,
+        feeRate: null,
+        counters: { index: pool.cumulativeBorrowRate },
+        details: {
+          lendingMarket: pool.lendingMarket,
+          borrowedUsd: price !== null ? borrowed * price : 'unknown',
+          utilization: supplied > 0 ? borrowed / supplied : 0,
+        },
+        notes: ['Supply APR excludes the protocol take rate and farm rewards'],
+      };
+    });
+  }
+
+  computeRates(previous: PoolState, current: PoolState, elapsedSeconds: number): PoolRates {
+    const before = previous.counters.index;
+    const after = current.counters.index;
+    const utilization = typeof current.details.utilization === 'number' ? current.details.utilization : 0;
+    if (!before || !after || after < before) {
+      return { volume24hUsd: null, fees24hUsd: null, apr: null };
+    }
+    const borrowApr = (after / before - 1) * (SECONDS_PER_YEAR / elapsedSeconds);
+    return { volume24hUsd: null, fees24hUsd: null, apr: borrowApr * utilization };
+  }
+}
+
+// --- Liquid staking ---------------------------------------------------------
+
+/**
+ * SPL stake pools (JitoSOL, bSOL and other pools on the shared program).
+ * Yield comes from growth of the pool's SOL-per-token exchange rate.
+ */
+export class SplStakePoolAdapter implements DefiProtocolAdapter {
+  readonly id = 'spl-stake-pool' as const;
+  readonly name = 'SPL Stake Pools';
+  readonly category = 'liquid-staking' as const;
+  readonly programIds = ['SPoo1Ku8WFXoNDMHPsrGSTSG1Y47rzgn41SLUNakuHy'];
+  readonly defaultPools = [
+    'Jito4APyf642JPZPx3hGc6WWJ8zPKtRbRs4P815Awbb', // JitoSOL
+    'stk9ApL5HeVAwPLr3TLhDXdZS8ptVu7zp6ov8HFDuMi', // BlazeStake bSOL
+  ];
+  readonly aprSource = 'exchange-rate' as const;
+
+  async loadPools(pools: AdapterPool[], source: DefiDataSource): Promise<PoolState[]> {
+    const decoded = pools.map(pool => {
+      assertSize(pool, 346, 'SPL StakePool');
+      const data = pool.account.data;
+      if (data.readUInt8(0) !== 1) {
+        throw new Error(`${pool.address} is not an initialized stake pool`);
+      }
+      const feeDenominator = readU64(data, 330);
+      return {
+        pool,
+        poolMint: readPubkey(data, 162),
+        totalLamports: readU64(data, 258),
+        poolTokenSupply: readU64(data, 266),
+        lastUpdateEpoch: readU64(data, 274),
+        epochFee: feeDenominator > 0 ? readU64(data, 338) / feeDenominator : null,
+      };
+    });
+
+    const tokens = await source.getTokens([NATIVE_SOL_MINT, ...decoded.map(pool => pool.poolMint)]);
+
+    return decoded.map(pool => liquidStakingState(pool.pool, this.id, {
+      lstMint: pool.poolMint,
+      stakedSol: pool.totalLamports / 1e9,
+      exchangeRate: pool.poolTokenSupply > 0 ? pool.totalLamports / pool.poolTokenSupply : null,
+      rewardFee: pool.epochFee,
+      details: { lastUpdateEpoch: pool.lastUpdateEpoch },
+    }, tokens));
+  }
+}
+
+/**
+ * Marinade's mSOL pool (State account). mSOL price is stored as SOL per mSOL
+ * scaled by 2^32.
+ */
+export class MarinadeAdapter implements DefiProtocolAdapter {
+  readonly id = 'marinade' as const;
+  readonly name = 'Marinade';
+  readonly category = 'liquid-staking' as const;
+  readonly programIds = ['MarBmsSgKXdrN1egZf5sqe1TMai9K1rChYNDJgjq7aD'];
+  readonly defaultPools = [
+    '8szGkuLTAux9XMgZ2vtY39jVSowEcpBfFfD8hXSEqdGC', // mSOL
+  ];
+  readonly aprSource = 'exchange-rate' as const;
+
+  async loadPools(pools: AdapterPool[], source: DefiDataSource): Promise<PoolState[]> {
+    const decoded = pools.map(pool => {
+      assertSize(pool, 520, 'Marinade State');
+      const data = pool.account.data;
+      const msolSupply = readU64(data, 504);
+      const msolPrice = readU64(data, 512) / Math.pow(2, 32);
+      return {
+        pool,
+        msolMint: readPubkey(data, 8),
+        rewardFee: data.readUInt32LE(146) / 10000,
+        msolSupply,
+        msolPrice,
+        availableReserveBalance: readU64(data, 496),
+      };
+    });
+
+    const tokens = await source.getTokens([NATIVE_SOL_MINT, ...decoded.map(pool => pool.msolMint)]);
+
+    return decoded.map(pool => liquidStakingState(pool.pool, this.id, {
+      lstMint: pool.msolMint,
+      stakedSol: (pool.msolSupply / 1e9) * pool.msolPrice,
+      exchangeRate: pool.msolPrice > 0 ? pool.msolPrice : null,
+      rewardFee: pool.rewardFee,
+      details: { reserveSol: pool.availableReserveBalance / 1e9 },
+    }, tokens));
+  }
+}
+
+function liquidStakingState(
+  pool: AdapterPool,
+  protocol: PoolState['protocol'],
+  values: {
+    lstMint: string;
+    stakedSol: number;
+    exchangeRate: number | null;
+    rewardFee: number | null;
+    details: PoolState['details'];
+  },
+  tokens: Map<string, TokenInfo>
+): PoolState {
+  const solPrice = tokens.get(NATIVE_SOL_MINT)?.usdPrice ?? null;
+  const symbol = tokens.get(values.lstMint)?.symbol || `${values.lstMint.slice(0, 4)}…`;
+  const valueUsd = solPrice !== null ? values.stakedSol * solPrice : null;
+
+  return {
+    ...baseState(pool, protocol),
+    name: symbol,
+    tokens: [{ mint: NATIVE_SOL_MINT, symbol: 'SOL', amount: values.stakedSol, valueUsd }],
+    tvlUsd: valueUsd,
+    feeRate: values.rewardFee,
+    counters: { index: values.exchangeRate ?? undefined },
+    details: {
+      ...values.details,
+      lstMint: values.lstMint,
+      solPerToken: values.exchangeRate ?? 'unknown',
+    },
+    notes: solPrice === null ? ['No USD price for SOL; TVL is incomplete'] : [],
+  };
+}
+
+/**
+ * Adapters registered by default, in display order
+ */
+export function createDefaultAdapters(): DefiProtocolAdapter[] {
+  return [
+    new RaydiumAmmAdapter(),
+    new OrcaWhirlpoolAdapter(),
+    new MeteoraDlmmAdapter(),
+    new KaminoLendAdapter(),
+    new SplStakePoolAdapter(),
+    new MarinadeAdapter(),
+  ];
+}
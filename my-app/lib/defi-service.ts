@@ -0,0 +1,517 @@
+/**
+ * DeFi Data Service
+ * Protocol analytics computed from on-chain pool accounts. Adapters decode
+ * pools; this service routes accounts to adapters, caches results, and keeps
+ * a short observation history so cumulative counters can be turned into
+ * 24h volume, fees and APR.
+ *
+ * DEFI_DATA_MODE selects the data source:
+ * - live (default): Solana RPC for accounts, Jupiter for token prices
+ * - fixture: replay JSON fixtures from DEFI_FIXTURE_DIR, no network access
+ * - record: live, and write everything read to DEFI_FIXTURE_DIR/recorded.json
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Connection, PublicKey } from '@solana/web3.js';
+import { SOLANA_CONFIG } from './solana-config';
+import { jupiterTokenService } from './jupiter-token-service';
+import { createDefaultAdapters } from './defi-adapters';
+import {
+  DefiDataSource,
+  DefiError,
+  DefiProtocolAdapter,
+  PoolAnalytics,
+  PoolRates,
+  PoolState,
+  ProtocolAnalytics,
+  RawAccount,
+  TokenInfo,
+} from './defi-types';
+
+const DEFAULT_FIXTURE_DIR = path.join(process.cwd(), 'fixtures', 'defi');
+const MAX_ACCOUNTS_PER_REQUEST = 100;
+const MINT_DECIMALS_OFFSET = 44;
+const CACHE_TTL_MS = 60 * 1000;
+const MIN_OBSERVATION_WINDOW_MS = 15 * 60 * 1000; // Shorter windows are too noisy to annualize
+const OBSERVATION_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_OBSERVATIONS_PER_POOL = 500;
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+const PROTOCOL_ALIASES: Record<string, string> = {
+  whirlpool: 'orca',
+  whirlpools: 'orca',
+  dlmm: 'meteora',
+  klend: 'kamino',
+  'kamino lend': 'kamino',
+  jito: 'spl-stake-pool',
+  jitosol: 'spl-stake-pool',
+  blaze: 'spl-stake-pool',
+  blazestake: 'spl-stake-pool',
+  bsol: 'spl-stake-pool',
+  'stake pool': 'spl-stake-pool',
+  msol: 'marinade',
+};
+
+/**
+ * On-disk fixture format; account data is base64 and null marks an account
+ * that did not exist when it was recorded
+ */
+interface DefiFixture {
+  accounts?: Record<string, { owner: string; lamports: number; data: string } | null>;
+  tokens?: Record<string, Omit<TokenInfo, 'mint'>>;
+}
+
+// --- Data sources -----------------------------------------------------------
+
+export class LiveDefiDataSource implements DefiDataSource {
+  private connection: Connection;
+
+  constructor(connection?: Connection) {
+    this.connection = connection || new Connection(SOLANA_CONFIG.rpcUrl[SOLANA_CONFIG.network], SOLANA_CONFIG.commitment);
+  }
+
+  async getAccounts(addresses: string[]): Promise<Map<string, RawAccount | null>> {
+    const unique = Array.from(new Set(addresses));
+    const accounts = new Map<string, RawAccount | null>();
+
+    for (let i = 0; i < unique.length; i += MAX_ACCOUNTS_PER_REQUEST) {
+      const batch = unique.slice(i, i + MAX_ACCOUNTS_PER_REQUEST);
+      let infos;
+      try {
+        infos = await this.connection.getMultipleAccountsInfo(batch.map(address => new PublicKey(address)));
+      } catch (error: any) {
+        throw new DefiError(`Failed to load accounts: ${error.message || error}`, 'DATA_UNAVAILABLE');
+      }
+      batch.forEach((address, index) => {
+        const info = infos[index];
+        accounts.set(address, info
+          ? { owner: info.owner.toBase58(), lamports: info.lamports, data: Buffer.from(info.data) }
+          : null);
+      });
+    }
+
+    return accounts;
+  }
+
+  async getTokens(mints: string[]): Promise<Map<string, TokenInfo>> {
+    const unique = Array.from(new Set(mints));
+    const tokenData = await jupiterTokenService.getTokensData(unique);
+    const tokens = new Map<string, TokenInfo>();
+
+    for (const [mint, token] of tokenData) {
+      tokens.set(mint, {
+        mint,
+        symbol: token.symbol,
+        decimals: token.decimals,
+        usdPrice: typeof token.usdPrice === 'number' ? token.usdPrice : null,
+      });
+    }
+
+    // Tokens Jupiter does not know still need decimals to size reserves
+    const unknown = unique.filter(mint => !tokens.has(mint));
+    if (unknown.length > 0) {
+      for (const [mint, decimals] of await readMintDecimals(unknown, this)) {
+        tokens.set(mint, { mint, symbol: `${mint.slice(0, 4)}…`, decimals, usdPrice: null });
+      }
+    }
+
+    return tokens;
+  }
+}
+
+/**
+ * Replays every *.json fixture in a directory. Accounts or tokens missing
+ * from the fixtures behave like accounts that do not exist on chain.
+ */
+export class FixtureDefiDataSource implements DefiDataSource {
+  private fixtureDir: string;
+  private loaded: Promise<{ accounts: Map<string, RawAccount | null>; tokens: Map<string, TokenInfo> }> | null = null;
+
+  constructor(fixtureDir: string = DEFAULT_FIXTURE_DIR) {
+    this.fixtureDir = fixtureDir;
+  }
+
+  async getAccounts(addresses: string[]): Promise<Map<string, RawAccount | null>> {
+    const { accounts } = await this.load();
+    return new Map(addresses.map(address => [address, accounts.get(address) ?? null]));
+  }
+
+  async getTokens(mints: string[]): Promise<Map<string, TokenInfo>> {
+    const { tokens } = await this.load();
+    const found = new Map<string, TokenInfo>();
+    for (const mint of mints) {
+      const token = tokens.get(mint);
+      if (token) found.set(mint, token);
+    }
+
+    const unknown = mints.filter(mint => !found.has(mint));
+    if (unknown.length > 0) {
+      for (const [mint, decimals] of await readMintDecimals(unknown, this)) {
+        found.set(mint, { mint, symbol: `${mint.slice(0, 4)}…`, decimals, usdPrice: null });
+      }
+    }
+    return found;
+  }
+
+  private load() {
+    if (!this.loaded) {
+      this.loaded = this.readFixtures();
+    }
+    return this.loaded;
+  }
+
+  private async readFixtures() {
+    const accounts = new Map<string, RawAccount | null>();
+    const tokens = new Map<string, TokenInfo>();
+
+    let files: string[];
+    try {
+      files = (await fs.readdir(this.fixtureDir)).filter(file => file.endsWith('.json')).sort();
+    } catch (error: any) {
+      throw new DefiError(`Cannot read DeFi fixtures from ${this.fixtureDir}: ${error.message || error}`, 'FIXTURE_ERROR');
+    }
+
+    for (const file of files) {
+      let fixture: DefiFixture;
+      try {
+        fixture = JSON.parse(await fs.readFile(path.join(this.fixtureDir, file), 'utf8')) as DefiFixture;
+      } catch (error: any) {
+        throw new DefiError(`Invalid DeFi fixture ${file}: ${error.message || error}`, 'FIXTURE_ERROR');
+      }
+      for (const [address, account] of Object.entries(fixture.accounts || {})) {
+        accounts.set(address, account
+          ? { owner: account.owner, lamports: account.lamports, data: Buffer.from(account.data, 'base64') }
+          : null);
+      }
+      for (const [mint, token] of Object.entries(fixture.tokens || {})) {
+        tokens.set(mint, { mint, ...token });
+      }
+    }
+
+    return { accounts, tokens };
+  }
+}
+
+/**
+ * Live source that also writes everything it reads to a fixture file, so a
+ * real network session can be replayed later in fixture mode
+ */
+export class RecordingDefiDataSource implements DefiDataSource {
+  private inner: DefiDataSource;
+  private fixturePath: string;
+  private fixture: DefiFixture = { accounts: {}, tokens: {} };
+  // Serializes writes so concurrent reads cannot drop recorded entries
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(inner: DefiDataSource, fixtureDir: string = DEFAULT_FIXTURE_DIR) {
+    this.inner = inner;
+    this.fixturePath = path.join(fixtureDir, 'recorded.json');
+  }
+
+  async getAccounts(addresses: string[]): Promise<Map<string, RawAccount | null>> {
+    const accounts = await this.inner.getAccounts(addresses);
+    for (const [address, account] of accounts) {
+      this.fixture.accounts![address] = account
+        ? { owner: account.owner, lamports: account.lamports, data: account.data.toString('base64') }
+        : null;
+    }
+    await this.persist();
+    return accounts;
+  }
+
+  async getTokens(mints: string[]): Promise<Map<string, TokenInfo>> {
+    const tokens = await this.inner.getTokens(mints);
+    for (const [mint, token] of tokens) {
+      this.fixture.tokens![mint] = { symbol: token.symbol, decimals: token.decimals, usdPrice: token.usdPrice };
+    }
+    await this.persist();
+    return tokens;
+  }
+
+  private persist(): Promise<void> {
+    const write = async () => {
+      try {
+        await fs.mkdir(path.dirname(this.fixturePath), { recursive: true });
+        // Write to a temp file and rename so a replay never sees a partial fixture
+        const tempPath = `${this.fixturePath}.${process.pid}.tmp`;
+        await fs.writeFile(tempPath, JSON.stringify(this.fixture, null, 2), 'utf8');
+        await fs.rename(tempPath, this.fixturePath);
+      } catch (error) {
+        console.error('Failed to record DeFi fixture:', error);
+      }
+    };
+    const next = this.writeQueue.then(write, write);
+    this.writeQueue = next;
+    return next;
+  }
+}
+
+async function readMintDecimals(mints: string[], source: DefiDataSource): Promise<Map<string, number>> {
+  const accounts = await source.getAccounts(mints);
+  const decimals = new Map<string, number>();
+  for (const mint of mints) {
+    const account = accounts.get(mint);
+    if (account && account.data.length > MINT_DECIMALS_OFFSET) {
+      decimals.set(mint, account.data.readUInt8(MINT_DECIMALS_OFFSET));
+    }
+  }
+  return decimals;
+}
+
+// --- Service ----------------------------------------------------------------
+
+export class DefiDataService {
+  private source: DefiDataSource;
+  private adapters = new Map<string, DefiProtocolAdapter>();
+  private cache = new Map<string, { analytics: PoolAnalytics; expiresAt: number }>();
+  private observations = new Map<string, PoolState[]>();
+  private cacheTtlMs: number;
+
+  constructor(source: DefiDataSource, adapters: DefiProtocolAdapter[] = createDefaultAdapters(), cacheTtlMs: number = CACHE_TTL_MS) {
+    this.source = source;
+    this.cacheTtlMs = cacheTtlMs;
+    adapters.forEach(adapter => this.registerAdapter(adapter));
+  }
+
+  /**
+   * Add or replace a protocol adapter
+   */
+  registerAdapter(adapter: DefiProtocolAdapter): void {
+    this.adapters.set(adapter.id, adapter);
+  }
+
+  listProtocols(): Array<Pick<DefiProtocolAdapter, 'id' | 'name' | 'category' | 'defaultPools'>> {
+    return Array.from(this.adapters.values()).map(({ id, name, category, defaultPools }) => ({ id, name, category, defaultPools }));
+  }
+
+  /**
+   * Find an adapter by id, display name or a common alias ("jito", "msol")
+   */
+  resolveProtocol(query: string): DefiProtocolAdapter {
+    const normalized = query.trim().toLowerCase();
+    const id = PROTOCOL_ALIASES[normalized] || normalized;
+    const adapter = this.adapters.get(id)
+      || Array.from(this.adapters.values()).find(candidate => candidate.name.toLowerCase() === normalized);
+    if (!adapter) {
+      const supported = Array.from(this.adapters.keys()).join(', ');
+      throw new DefiError(`Unknown protocol "${query}". Supported protocols: ${supported}`, 'UNKNOWN_PROTOCOL');
+    }
+    return adapter;
+  }
+
+  /**
+   * Analytics for one protocol, over its well-known pools unless specific
+   * pools are given
+   */
+  async getProtocolAnalytics(protocol: string, pools?: string[]): Promise<ProtocolAnalytics> {
+    const adapter = this.resolveProtocol(protocol);
+    if (pools && pools.length > 0) {
+      const analytics = await this.getPoolAnalytics(pools);
+      const mismatched = analytics.filter(pool => pool.protocol !== adapter.id);
+      if (mismatched.length > 0) {
+        throw new DefiError(`${mismatched.map(pool => pool.address).join(', ')} does not belong to ${adapter.name}`, 'UNSUPPORTED_POOL');
+      }
+      return summarize(adapter, analytics, []);
+    }
+
+    // A well-known pool that fails to load is reported, not fatal
+    const { analytics, errors } = await this.loadPoolAnalytics(adapter.defaultPools);
+    if (analytics.length === 0 && errors.length > 0) {
+      throw errors[0];
+    }
+    return summarize(adapter, analytics, errors.map(error => error.message));
+  }
+
+  /**
+   * Analytics for every registered protocol; one failing protocol does not
+   * fail the overview
+   */
+  async getOverview(): Promise<ProtocolAnalytics[]> {
+    const results: ProtocolAnalytics[] = [];
+    for (const adapter of this.adapters.values()) {
+      try {
+        results.push(await this.getProtocolAnalytics(adapter.id));
+      } catch (error: any) {
+        results.push(summarize(adapter, [], [`Unavailable: ${error.message || error}`]));
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Analytics for specific pool accounts, routed to adapters by owner program
+   */
+  async getPoolAnalytics(addresses: string[]): Promise<PoolAnalytics[]> {
+    const { analytics, errors } = await this.loadPoolAnalytics(addresses);
+    if (errors.length > 0) {
+      throw errors[0];
+    }
+    return analytics;
+  }
+
+  private async loadPoolAnalytics(addresses: string[]): Promise<{ analytics: PoolAnalytics[]; errors: DefiError[] }> {
+    const now = Date.now();
+    const results = new Map<string, PoolAnalytics>();
+    const errors: DefiError[] = [];
+    const stale: string[] = [];
+
+    for (const address of Array.from(new Set(addresses))) {
+      try {
+        new PublicKey(address);
+      } catch {
+        errors.push(new DefiError(`Invalid pool address: ${address}`, 'UNSUPPORTED_POOL'));
+        continue;
+      }
+      const cached = this.cache.get(address);
+      if (cached && cached.expiresAt > now) {
+        results.set(address, cached.analytics);
+      } else {
+        stale.push(address);
+      }
+    }
+
+    if (stale.length > 0) {
+      const accounts = await this.source.getAccounts(stale);
+      const byAdapter = new Map<DefiProtocolAdapter, Array<{ address: string; account: RawAccount }>>();
+
+      for (const address of stale) {
+        const account = accounts.get(address);
+        if (!account) {
+          errors.push(new DefiError(`Pool account ${address} was not found`, 'DATA_UNAVAILABLE'));
+          continue;
+        }
+        const adapter = Array.from(this.adapters.values()).find(candidate => candidate.programIds.includes(account.owner));
+        if (!adapter) {
+          errors.push(new DefiError(`${address} is owned by ${account.owner}, which no DeFi adapter supports`, 'UNSUPPORTED_POOL'));
+          continue;
+        }
+        byAdapter.set(adapter, [...(byAdapter.get(adapter) || []), { address, account }]);
+      }
+
+      for (const [adapter, pools] of byAdapter) {
+        let states: PoolState[];
+        try {
+          states = await adapter.loadPools(pools, this.source);
+        } catch (error: any) {
+          errors.push(error instanceof DefiError
+            ? error
+            : new DefiError(`${adapter.name} adapter failed: ${error.message || error}`, 'DATA_UNAVAILABLE'));
+          continue;
+        }
+        for (const state of states) {
+          const analytics = this.observe(adapter, state);
+          this.cache.set(state.address, { analytics, expiresAt: now + this.cacheTtlMs });
+          results.set(state.address, analytics);
+        }
+      }
+    }
+
+    return {
+      analytics: addresses
+        .map(address => results.get(address))
+        .filter((analytics): analytics is PoolAnalytics => analytics !== undefined),
+      errors,
+    };
+  }
+
+  /**
+   * Record a new observation and derive rates against the oldest retained one
+   */
+  private observe(adapter: DefiProtocolAdapter, state: PoolState): PoolAnalytics {
+    const observedAt = new Date(state.observedAt).getTime();
+    const history = (this.observations.get(state.address) || [])
+      .filter(previous => observedAt - new Date(previous.observedAt).getTime() <= OBSERVATION_RETENTION_MS);
+
+    const baseline = history.find(previous => observedAt - new Date(previous.observedAt).getTime() >= MIN_OBSERVATION_WINDOW_MS);
+    history.push(state);
+    this.observations.set(state.address, history.slice(-MAX_OBSERVATIONS_PER_POOL));
+
+    if (!baseline) {
+      return {
+        ...state,
+        volume24hUsd: null,
+        fees24hUsd: null,
+        apr: null,
+        aprSource: null,
+        observationWindowHours: null,
+        notes: [...state.notes, 'Volume and APR need a second observation at least 15 minutes later'],
+      };
+    }
+
+    const elapsedSeconds = (observedAt - new Date(baseline.observedAt).getTime()) / 1000;
+    const rates = adapter.computeRates
+      ? adapter.computeRates(baseline, state, elapsedSeconds)
+      : computeCounterRates(adapter, baseline, state, elapsedSeconds);
+
+    return {
+      ...state,
+      ...rates,
+      aprSource: rates.apr !== null ? adapter.aprSource : null,
+      observationWindowHours: Math.round((elapsedSeconds / 3600) * 10) / 10,
+    };
+  }
+}
+
+/**
+ * Default rate derivation from the standard cumulative counters. Counters
+ * that went backwards (e.g. fees claimed from the pool) yield no rate.
+ */
+function computeCounterRates(
+  adapter: DefiProtocolAdapter,
+  previous: PoolState,
+  current: PoolState,
+  elapsedSeconds: number
+): PoolRates {
+  const perDay = (key: keyof PoolState['counters']): number | null => {
+    const before = previous.counters[key];
+    const after = current.counters[key];
+    if (before === undefined || after === undefined || after < before) return null;
+    return (after - before) * (SECONDS_PER_DAY / elapsedSeconds);
+  };
+
+  const volume24hUsd = perDay('volumeUsd');
+  const fees24hUsd = perDay('feesUsd');
+  let apr: number | null = null;
+
+  if (adapter.aprSource === 'fees') {
+    apr = fees24hUsd !== null && current.tvlUsd ? (fees24hUsd * 365) / current.tvlUsd : null;
+  } else if (previous.counters.index && current.counters.index && current.counters.index >= previous.counters.index) {
+    apr = (current.counters.index / previous.counters.index - 1) * ((365 * SECONDS_PER_DAY) / elapsedSeconds);
+  }
+
+  return { volume24hUsd, fees24hUsd, apr };
+}
+
+function summarize(adapter: DefiProtocolAdapter, pools: PoolAnalytics[], notes: string[]): ProtocolAnalytics {
+  const sumOrNull = (values: Array<number | null>) =>
+    values.length > 0 && values.every(value => value !== null)
+      ? values.reduce<number>((sum, value) => sum + (value as number), 0)
+      : null;
+
+  return {
+    protocol: adapter.id,
+    name: adapter.name,
+    category: adapter.category,
+    tvlUsd: pools.reduce((sum, pool) => sum + (pool.tvlUsd || 0), 0),
+    volume24hUsd: sumOrNull(pools.map(pool => pool.volume24hUsd)),
+    fees24hUsd: sumOrNull(pools.map(pool => pool.fees24hUsd)),
+    pools,
+    notes,
+  };
+}
+
+export function createDefiDataService(mode: string = process.env.DEFI_DATA_MODE || 'live'): DefiDataService {
+  const fixtureDir = process.env.DEFI_FIXTURE_DIR || DEFAULT_FIXTURE_DIR;
+  switch (mode) {
+    case 'fixture':
+      return new DefiDataService(new FixtureDefiDataSource(fixtureDir));
+    case 'record':
+      return new DefiDataService(new RecordingDefiDataSource(new LiveDefiDataSource(), fixtureDir));
+    default:
+      return new DefiDataService(new LiveDefiDataSource());
+  }
+}
+
+// Export singleton instance
+export const defiDataService = createDefiDataService();
@@ -0,0 +1,113 @@
+/**
+ * DeFi Analytics Type Definitions
+ * Shared between the protocol adapters, the DeFi data service and the
+ * `defi-analyzer` tool
+ */
+
+export type DefiProtocolId = 'raydium' | 'orca' | 'meteora' | 'kamino' | 'spl-stake-pool' | 'marinade';
+
+export type DefiCategory = 'amm' | 'clmm' | 'dlmm' | 'lending' | 'liquid-staking';
+
+export interface RawAccount {
+  owner: string; // Program id
+  lamports: number;
+  data: Buffer;
+}
+
+export interface TokenInfo {
+  mint: string;
+  symbol: string;
+  decimals: number;
+  usdPrice: number | null;
+}
+
+/**
+ * Where adapters read chain state and token prices from. The live source
+ * uses RPC and Jupiter; the fixture source replays recorded JSON so adapters
+ * can be exercised without network access.
+ */
+export interface DefiDataSource {
+  getAccounts(addresses: string[]): Promise<Map<string, RawAccount | null>>;
+  getTokens(mints: string[]): Promise<Map<string, TokenInfo>>;
+}
+
+export interface PoolTokenAmount {
+  mint: string;
+  symbol: string;
+  amount: number; // UI units held by the pool
+  valueUsd: number | null;
+}
+
+/**
+ * State of one pool at one point in time. Cumulative counters are compared
+ * between observations to derive volume, fees and yield:
+ * - volumeUsd / feesUsd: running totals valued at the current price
+ * - index: growth index such as an LST exchange rate, a borrow-rate index or
+ *   fee growth per unit of liquidity (interpreted by the adapter)
+ */
+export interface PoolState {
+  address: string;
+  protocol: DefiProtocolId;
+  name: string; // e.g. "SOL-USDC"
+  tokens: PoolTokenAmount[];
+  tvlUsd: number | null;
+  feeRate: number | null; // Fraction of each trade, or of rewards for LSTs
+  counters: Partial<Record<'volumeUsd' | 'feesUsd' | 'index', number>>;
+  details: Record<string, number | string>; // Protocol-specific extras, e.g. utilization
+  notes: string[];
+  observedAt: string;
+}
+
+export interface PoolRates {
+  volume24hUsd: number | null;
+  fees24hUsd: number | null;
+  apr: number | null; // Fraction, e.g. 0.07 for 7%
+}
+
+export interface PoolAnalytics extends PoolState, PoolRates {
+  aprSource: 'fees' | 'exchange-rate' | 'interest' | null;
+  observationWindowHours: number | null; // Span the rates were derived from
+}
+
+export interface ProtocolAnalytics {
+  protocol: DefiProtocolId;
+  name: string;
+  category: DefiCategory;
+  tvlUsd: number;
+  volume24hUsd: number | null;
+  fees24hUsd: number | null;
+  pools: PoolAnalytics[];
+  notes: string[];
+}
+
+export interface AdapterPool {
+  address: string;
+  account: RawAccount;
+}
+
+export interface DefiProtocolAdapter {
+  readonly id: DefiProtocolId;
+  readonly name: string;
+  readonly category: DefiCategory;
+  readonly programIds: string[];
+  readonly defaultPools: string[]; // Well-known pools analyzed when none are requested
+  readonly aprSource: PoolAnalytics['aprSource'];
+
+  /**
+   * Decode pool accounts owned by one of `programIds` into pool states
+   */
+  loadPools(pools: AdapterPool[], source: DefiDataSource): Promise<PoolState[]>;
+
+  /**
+   * Derive rates from two observations; the service falls back to a generic
+   * counter-delta calculation when an adapter does not implement this
+   */
+  computeRates?(previous: PoolState, current: PoolState, elapsedSeconds: number): PoolRates;
+}
+
+export class DefiError extends Error {
+  constructor(message: string, public code: 'UNKNOWN_PROTOCOL' | 'UNSUPPORTED_POOL' | 'DATA_UNAVAILABLE' | 'FIXTURE_ERROR') {
+    super(message);
+    this.name = 'DefiError';
+  }
+}
@@ -0,0 +1,445 @@
+/**
+ * Hosted Blinks
+ * Serves Blinks saved in the registry as live actions. GET is generated from
+ * the stored config; POST picks one of its actions, merges the values fixed in
+ * the action's href with what the user entered, enforces the action's
+ * `validation` rules and dispatches by `ActionType` to the same transaction
+ * builders the built-in action routes use.
+ */
+
+import type { ActionGetResponse, LinkedAction } from '@solana/actions'
+import {
+  Connection,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  VersionedTransaction,
+} from '@solana/web3.js'
+import { SOLANA_CONFIG } from './solana-config'
+import { ActionType, BlinkAction } from './blinks-types'
+import { HOSTED_ACTION_PARAM, StoredBlink } from './blink-registry-types'
+import { blinksService } from './blinks-service'
+import { stakingService } from './staking-service'
+import { liquidStakingService, resolveLst } from './liquid-staking-service'
+import { nftTransactionService } from './nft-transaction-service'
+import { jupiterTokenService } from './jupiter-token-service'
+import { jupiterUnifiedService } from './jupiter-unified-service'
+import { getRevenueTracker } from './revenue-tracking'
+import { formatTokenAmount, parseTokenAmount } from './token-transfer'
+import { SOL_MINT } from './instruction-decoders'
+import { addReferences, parseReferences } from './solana-pay-service'
+
+const DEFAULT_SLIPPAGE_BPS = 50
+const RESERVED_PARAMS = [HOSTED_ACTION_PARAM, 'chain', 'step']
+
+// Action types with a transaction builder behind them; others keep their own href
+const HOSTED_ACTION_TYPES: ActionType[] = [
+  ActionType.TRANSFER,
+  ActionType.DONATE,
+  ActionType.SWAP,
+  ActionType.STAKE,
+  ActionType.UNSTAKE,
+  ActionType.LIQUID_STAKE,
+  ActionType.MINT_NFT,
+  ActionType.TRANSFER_NFT,
+]
+
+export class HostedBlinkError extends Error {
+  constructor(message: string, public code: 'UNKNOWN_ACTION' | 'UNSUPPORTED_ACTION' | 'INVALID_PARAMS' | 'VALIDATION_FAILED') {
+    super(message)
+    this.name = 'HostedBlinkError'
+  }
+}
+
+export interface HostedActionTransaction {
+  transaction: Transaction | VersionedTransaction
+  message: string
+}
+
+export function isHostedActionType(type: ActionType): boolean {
+  return HOSTED_ACTION_TYPES.includes(type)
+}
+
+export class HostedBlinkService {
+  private connection: Connection
+
+  constructor(connection?: Connection) {
+    this.connection = connection || new Connection(
+      SOLANA_CONFIG.rpcUrl[SOLANA_CONFIG.network],
+      SOLANA_CONFIG.commitment
+    )
+  }
+
+  /**
+   * GET payload for a saved Blink served from `requestUrl`
+   */
+  getAction(blink: StoredBlink, requestUrl: string): ActionGetResponse {
+    const url = new URL(requestUrl)
+    return {
+      type: 'action',
+      icon: new URL(blink.icon, url.origin).toString(),
+      title: blink.title,
+      description: blink.description,
+      label: blink.label || blink.actions[0].label,
+      links: {
+        actions: blink.actions.map(action => this.toLinkedAction(action, url.pathname)),
+      },
+    }
+  }
+
+  /**
+   * Build the transaction for one of the Blink's actions. Solana Pay
+   * `reference` keys on the request URL are added while building, before
+   * anything signs; actions whose transaction cannot carry them are refused.
+   */
+  async buildAction(blink: StoredBlink, actionId: string | null, account: string, requestUrl: string): Promise<HostedActionTransaction> {
+    const action = actionId ? blink.actions.find(candidate => candidate.id === actionId) : blink.actions[0]
+    if (!action) {
+      throw new HostedBlinkError(`Blink ${blink.id} has no action ${actionId}`, 'UNKNOWN_ACTION')
+    }
+    if (!isHostedActionType(action.type)) {
+      throw new HostedBlinkError(`${action.type} actions are not hosted; use ${action.href}`, 'UNSUPPORTED_ACTION')
+    }
+
+    const params = resolveActionParams(action, requestUrl)
+    const references = parseReferences(requestUrl)
+    switch (action.type) {
+      case ActionType.TRANSFER:
+      case ActionType.DONATE:
+        return withReferences(await this.buildTransfer(action, account, params), references)
+      case ActionType.SWAP:
+        if (references.length > 0) {
+          throw new HostedBlinkError('Swaps are versioned Jupiter transactions, which cannot carry a Solana Pay reference', 'INVALID_PARAMS')
+        }
+        return this.buildSwap(action, account, params)
+      case ActionType.STAKE:
+      case ActionType.UNSTAKE:
+        return withReferences(await this.buildStake(action, account, params), references)
+      case ActionType.LIQUID_STAKE:
+        return withReferences(await this.buildLiquidStake(action, account, params, references.length > 0), references)
+      default:
+        return this.buildNft(action, account, params, references)
+    }
+  }
+
+  private async buildTransfer(action: BlinkAction, account: string, params: Record<string, string>): Promise<HostedActionTransaction> {
+    const to = required(params, 'to')
+    const amount = checkAmount(action, required(params, 'amount'))
+    enforceAllowedTokens(action, [{ symbol: 'SOL', mint: SOL_MINT }])
+    await this.enforceBalance(action, account, amount)
+
+    let toPubkey: PublicKey
+    try {
+      toPubkey = new PublicKey(to)
+    } catch {
+      throw new HostedBlinkError('Invalid recipient address', 'INVALID_PARAMS')
+    }
+
+    const fromPubkey = new PublicKey(account)
+    const transaction = new Transaction().add(
+      SystemProgram.transfer({
+        fromPubkey,
+        toPubkey,
+        lamports: parseTokenAmount(params.amount, 9),
+      })
+    )
+    const { blockhash } = await this.connection.getLatestBlockhash()
+    transaction.recentBlockhash = blockhash
+    transaction.feePayer = fromPubkey
+
+    const verb = action.type === ActionType.DONATE ? 'Donate' : 'Send'
+    return { transaction, message: `${verb} ${amount} SOL to ${to.slice(0, 8)}...` }
+  }
+
+  private async buildSwap(action: BlinkAction, account: string, params: Record<string, string>): Promise<HostedActionTransaction> {
+    const fromToken = required(params, 'fromToken')
+    const toToken = required(params, 'toToken')
+    const amountStr = required(params, 'amount')
+
+    const [inputToken, outputToken] = await Promise.all([
+      jupiterTokenService.resolveToken(fromToken),
+      jupiterTokenService.resolveToken(toToken),
+    ])
+    if (!inputToken || !outputToken) {
+      const unresolved = [!inputToken && fromToken, !outputToken && toToken].filter(Boolean)
+      throw new HostedBlinkError(`Unknown token: ${unresolved.join(', ')}`, 'INVALID_PARAMS')
+    }
+    if (inputToken.id === outputToken.id) {
+      throw new HostedBlinkError('Cannot swap a token for itself', 'INVALID_PARAMS')
+    }
+    enforceAllowedTokens(action, [
+      { symbol: inputToken.symbol, mint: inputToken.id },
+      { symbol: outputToken.symbol, mint: outputToken.id },
+    ])
+    const checkedAmount = checkAmount(action, amountStr)
+    const amount = parseTokenAmount(amountStr, inputToken.decimals)
+    if (inputToken.id === SOL_MINT) {
+      await this.enforceBalance(action, account, checkedAmount)
+    } else {
+      await this.enforceTokenBalance(action, account, inputToken, amount)
+    }
+
+    // Same route as the swap Blink: Lite API, platform fee to our referral account
+    const fee = await getRevenueTracker(this.connection).getSwapFeeAccount(inputToken.id, outputToken.id)
+    const swapRequest = {
+      inputMint: inputToken.id,
+      outputMint: outputToken.id,
+      amount: amount.toString(),
+      userPublicKey: account,
+      slippageBps: DEFAULT_SLIPPAGE_BPS,
+      tier: 'lite' as const,
+      ...(fee && { integratorFee: { account: fee.account, bps: fee.bps } }),
+    }
+    let swap: Awaited<ReturnType<typeof jupiterUnifiedService.swap>>
+    try {
+      swap = await jupiterUnifiedService.swap(swapRequest)
+    } catch (error) {
+      console.error('Hosted swap route error:', error)
+      throw new HostedBlinkError(`No swap route found from ${inputToken.symbol} to ${outputToken.symbol}`, 'INVALID_PARAMS')
+    }
+    const transaction = VersionedTransaction.deserialize(Buffer.from(swap.transaction, 'base64'))
+    const outputAmount = BigInt(swap.route.outputAmount)
+    const minimumOutput = outputAmount * BigInt(10000 - swap.route.slippageBps) / BigInt(10000)
+    const message =
+      `Swap ${formatTokenAmount(BigInt(swap.route.inputAmount), inputToken.decimals)} ${inputToken.symbol} ` +
+      `for ~${formatTokenAmount(outputAmount, outputToken.decimals)} ${outputToken.symbol} ` +
+      `(minimum received ${formatTokenAmount(minimumOutput, outputToken.decimals)} ${outputToken.symbol})`
+    return { transaction, message }
+  }
+
+  private async buildStake(action: BlinkAction, account: string, params: Record<string, string>): Promise<HostedActionTransaction> {
+    if (action.type === ActionType.UNSTAKE) {
+      const plan = await stakingService.buildDeactivateTransaction(account, required(params, 'stakeAccount'))
+      return { transaction: plan.transaction, message: `Deactivate ${plan.amount} SOL staked in ${plan.stakeAccount}` }
+    }
+
+    const validator = required(params, 'validator')
+    const amount = checkAmount(action, required(params, 'amount'))
+    enforceAllowedTokens(action, [{ symbol: 'SOL', mint: SOL_MINT }])
+    await this.enforceBalance(action, account, amount)
+
+    const plan = await stakingService.buildStakeTransaction(account, validator, amount)
+    const validatorName = plan.validator?.name || validator
+    const warningNote = plan.warnings.length > 0 ? `. ${plan.warnings.join(' ')}` : ''
+    return {
+      transaction: plan.transaction,
+      message: `Stake ${plan.amount} SOL with ${validatorName} in new stake account ${plan.stakeAccount}${warningNote}`,
+    }
+  }
+
+  private async buildLiquidStake(
+    action: BlinkAction,
+    account: string,
+    params: Record<string, string>,
+    stakePoolOnly: boolean
+  ): Promise<HostedActionTransaction> {
+    const direction = params.action === 'withdraw' ? 'withdraw' : 'deposit'
+    const lst = resolveLst(required(params, 'lst'))
+    const amount = checkAmount(action, required(params, 'amount'))
+    // Both legs: a deposit spends SOL for the LST, a withdraw returns SOL for it
+    enforceAllowedTokens(action, [
+      { symbol: 'SOL', mint: SOL_MINT },
+      { symbol: lst.symbol, mint: lst.mint },
+    ])
+    if (direction === 'deposit') {
+      await this.enforceBalance(action, account, amount)
+    }
+
+    const { quote, transaction } = await liquidStakingService.buildTransaction(
+      account,
+      direction,
+      lst.symbol,
+      amount,
+      // Jupiter routes are versioned transactions; only the stake pool route can take a reference
+      { rpcSubmittable: true, ...(stakePoolOnly && { route: 'stake-pool' as const }) }
+    )
+    const message = direction === 'deposit'
+      ? `Stake ${quote.inputAmount} SOL for ~${quote.outputAmount} ${quote.lst.symbol}`
+      : `Unstake ${quote.inputAmount} ${quote.lst.symbol} for ~${quote.outputAmount} SOL`
+    return { transaction, message }
+  }
+
+  private async buildNft(
+    action: BlinkAction,
+    account: string,
+    params: Record<string, string>,
+    references: PublicKey[]
+  ): Promise<HostedActionTransaction> {
+    if (action.type === ActionType.TRANSFER_NFT) {
+      const mint = required(params, 'mint')
+      const to = required(params, 'to')
+      enforceAllowedTokens(action, [{ mint }])
+      const plan = await nftTransactionService.buildTransfer(account, mint, to)
+      return withReferences(
+        { transaction: plan.transaction, message: `Transfer NFT ${mint.slice(0, 8)}... to ${to.slice(0, 8)}...` },
+        references
+      )
+    }
+
+    const name = required(params, 'name')
+    const type = params.type || 'standard'
+    const plan = await nftTransactionService.buildMint(account, {
+      name,
+      symbol: required(params, 'symbol'),
+      uri: required(params, 'uri'),
+      programmable: type === 'programmable',
+      compressed: type === 'compressed',
+      merkleTree: params.tree,
+    }, { references })
+    const message = plan.compressed
+      ? `Mint compressed NFT: ${name} into tree ${plan.merkleTree!.slice(0, 8)}...`
+      : `Mint ${type === 'programmable' ? 'programmable ' : ''}NFT: ${name} (mint ${plan.mint!.slice(0, 8)}...)`
+    return { transaction: plan.transaction, message }
+  }
+
+  // `requiresBalance` checks SOL up front so the user sees a clear message instead of a failed simulation
+  private async enforceBalance(action: BlinkAction, account: string, amount: number): Promise<void> {
+    if (!action.validation?.requiresBalance) return
+    if (!(await blinksService.checkBalance(account, amount))) {
+      throw new HostedBlinkError(`Insufficient balance: ${amount} SOL required`, 'VALIDATION_FAILED')
+    }
+  }
+
+  // SPL balances are summed over every token account the wallet holds for the mint
+  private async enforceTokenBalance(
+    action: BlinkAction,
+    account: string,
+    token: { id: string; symbol: string; decimals: number },
+    amount: bigint
+  ): Promise<void> {
+    if (!action.validation?.requiresBalance) return
+    const accounts = await this.connection.getParsedTokenAccountsByOwner(new PublicKey(account), { mint: new PublicKey(token.id) })
+    const balance = accounts.value.reduce(
+      (sum, { account }) => sum + BigInt(account.data.parsed?.info?.tokenAmount?.amount || '0'),
+      BigInt(0)
+    )
+    if (balance < amount) {
+      throw new HostedBlinkError(
+        `Insufficient balance: ${formatTokenAmount(amount, token.decimals)} ${token.symbol} required`,
+        'VALIDATION_FAILED'
+      )
+    }
+  }
+
+  private toLinkedAction(action: BlinkAction, pathname: string): LinkedAction {
+    const { minAmount, maxAmount } = action.validation || {}
+    const parameters = action.parameters.map(parameter =>
+      parameter.name === 'amount'
+        ? {
+            ...parameter,
+            ...(minAmount !== undefined && { min: minAmount }),
+            ...(maxAmount !== undefined && { max: maxAmount }),
+          }
+        : parameter
+    )
+    return {
+      type: 'transaction',
+      label: action.label,
+      href: isHostedActionType(action.type) ? hostedHref(action, pathname) : action.href,
+      parameters: parameters as LinkedAction['parameters'],
+    }
+  }
+}
+
+// Reference keys change the message, so only unsigned legacy transactions can take them here
+function withReferences(built: HostedActionTransaction, references: PublicKey[]): HostedActionTransaction {
+  if (references.length === 0) return built
+  if (!(built.transaction instanceof Transaction) || built.transaction.signatures.some(entry => entry.signature)) {
+    throw new HostedBlinkError('This action builds a transaction that cannot carry a Solana Pay reference', 'INVALID_PARAMS')
+  }
+  addReferences(built.transaction, references)
+  return built
+}
+
+function hostedHref(action: BlinkAction, pathname: string): string {
+  // Keep the stored query as written so `{param}` placeholders reach the client unencoded
+  const query = (action.href.split('?')[1] || '')
+    .split('&')
+    .filter(pair => pair && !RESERVED_PARAMS.includes(pair.split('=')[0]))
+  return `${pathname}?${[`${HOSTED_ACTION_PARAM}=${encodeURIComponent(action.id)}`, ...query].join('&')}`
+}
+
+/**
+ * Values for an action: fixed values in the stored href always win over the
+ * request, so a Blink's recipient or validator cannot be swapped out by
+ * editing the URL; placeholders and declared parameters come from the user
+ */
+export function resolveActionParams(action: BlinkAction, requestUrl: string): Record<string, string> {
+  const stored = new URLSearchParams(action.href.split('?')[1] || '')
+  const request = new URL(requestUrl).searchParams
+  const fromRequest = (name: string) => {
+    const value = request.get(name)?.trim()
+    return value && !isPlaceholder(value) ? value : undefined
+  }
+
+  const params: Record<string, string> = {}
+  stored.forEach((value, key) => {
+    if (RESERVED_PARAMS.includes(key)) return
+    const resolved = isPlaceholder(value) ? fromRequest(key) : value
+    if (resolved) params[key] = resolved
+  })
+  for (const parameter of action.parameters) {
+    if (params[parameter.name] !== undefined) continue
+    const value = fromRequest(parameter.name)
+    if (value) params[parameter.name] = value
+  }
+  return params
+}
+
+function isPlaceholder(value: string): boolean {
+  return /^\{[^{}]+\}$/.test(value)
+}
+
+function required(params: Record<string, string>, name: string): string {
+  const value = params[name]
+  if (!value) {
+    throw new HostedBlinkError(`Missing required parameter: ${name}`, 'INVALID_PARAMS')
+  }
+  return value
+}
+
+/**
+ * Parse an amount and hold it to the action's min/max
+ */
+export function checkAmount(action: BlinkAction, amountStr: string): number {
+  const amount = Number(amountStr)
+  if (!isFinite(amount) || amount <= 0) {
+    throw new HostedBlinkError('Invalid amount specified', 'INVALID_PARAMS')
+  }
+  const { minAmount, maxAmount } = action.validation || {}
+  if (minAmount !== undefined && amount < minAmount) {
+    throw new HostedBlinkError(`Amount must be at least ${minAmount}`, 'VALIDATION_FAILED')
+  }
+  if (maxAmount !== undefined && amount > maxAmount) {
+    throw new HostedBlinkError(`Amount must be at most ${maxAmount}`, 'VALIDATION_FAILED')
+  }
+  return amount
+}
+
+/**
+ * Every token the action touches must appear in `allowedTokens`, by symbol or mint
+ */
+export function enforceAllowedTokens(action: BlinkAction, tokens: Array<{ symbol?: string; mint: string }>): void {
+  const allowed = action.validation?.allowedTokens
+  if (!allowed || allowed.length === 0) return
+
+  const entries = allowed.map(entry => entry.trim().replace(/^\$/, ''))
+  for (const token of tokens) {
+    const permitted = entries.some(entry =>
+      entry === token.mint || (!!token.symbol && entry.toLowerCase() === token.symbol.toLowerCase())
+    )
+    if (!permitted) {
+      throw new HostedBlinkError(
+        `${token.symbol || token.mint} is not allowed for this action (allowed: ${allowed.join(', ')})`,
+        'VALIDATION_FAILED'
+      )
+    }
+  }
+}
+
+export function createHostedBlinkService(connection?: Connection): HostedBlinkService {
+  return new HostedBlinkService(connection)
+}
+
+// Export singleton instance
+export const hostedBlinkService = createHostedBlinkService()
@@ -0,0 +1,442 @@
+/**
+ * Instruction Decoders
+ * Per-program decoders used by the transaction decoder: System, SPL Token and
+ * Token-2022, Associated Token Account, Compute Budget, Memo, Stake and
+ * Jupiter v6, plus a generic decoder for programs with an Anchor IDL.
+ */
+
+import { createHash } from 'crypto';
+import {
+  ComputeBudgetInstruction,
+  ComputeBudgetProgram,
+  LAMPORTS_PER_SOL,
+  PublicKey,
+  StakeInstruction,
+  StakeProgram,
+  SystemInstruction,
+  SystemProgram,
+  TransactionInstruction,
+} from '@solana/web3.js';
+import {
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  TokenInstruction,
+  decodeInstruction as decodeTokenInstruction,
+} from '@solana/spl-token';
+import { BN, BorshInstructionCoder, type Idl } from '@coral-xyz/anchor';
+import type { DecodeContext, InstructionDecodeResult, InstructionDecoder } from './transaction-decoder-types';
+
+export const SOL_MINT = 'So11111111111111111111111111111111111111112';
+export const JUPITER_V6_PROGRAM_ID = new PublicKey('JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4');
+
+// Swap venues recognised among inner instructions, for "via Orca" style narratives
+export const SWAP_VENUES: Record<string, string> = {
+  whirLbMiicVdio4qvUfM5KAg6Ct8VwpYzGff3uctyCc: 'Orca',
+  '9W959DqEETiGZocYWCQPaJ6sBmUzgfxXfqGeTEdp3aP': 'Orca',
+  '675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8': 'Raydium',
+  CAMMCzo5YL8w4VFF8KVHrK22GGUsp5VTaW7grrKgrWqK: 'Raydium',
+  CPMMoo8L3F4NbTegBCKVNunggL7H1ZpdTHKxQB5qKP1C: 'Raydium',
+  LBUZKhRxPF3XUpBCjp4YzTKgLccjZhTSDM9YuVaPwxo: 'Meteora',
+  Eo7WjKq67rjJQSZxS6z3YkapzY3eMj6Xy8X5EQVn5UaB: 'Meteora',
+  PhoeNiXZ8ByJGLkxNfZRnkUfjvmuYqLR89jjFHGqdXY: 'Phoenix',
+  '2wT8Yq49kHgDzXuPxZSaeLaH1qbmGXtEyPy64bL7aD3c': 'Lifinity',
+  '6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P': 'Pump.fun',
+  pAMMBay6oceH9fJKBRHGP5D4bD4sWpmSwMn52FMfXEA: 'PumpSwap',
+};
+
+// Display names for programs without a decoder, and for programs sharing one
+export const PROGRAM_NAMES: Record<string, string> = {
+  [TOKEN_PROGRAM_ID.toBase58()]: 'Token Program',
+  [TOKEN_2022_PROGRAM_ID.toBase58()]: 'Token-2022 Program',
+  whirLbMiicVdio4qvUfM5KAg6Ct8VwpYzGff3uctyCc: 'Orca Whirlpool',
+  '9W959DqEETiGZocYWCQPaJ6sBmUzgfxXfqGeTEdp3aP': 'Orca Token Swap v2',
+  '675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8': 'Raydium AMM v4',
+  CAMMCzo5YL8w4VFF8KVHrK22GGUsp5VTaW7grrKgrWqK: 'Raydium CLMM',
+  CPMMoo8L3F4NbTegBCKVNunggL7H1ZpdTHKxQB5qKP1C: 'Raydium CPMM',
+  LBUZKhRxPF3XUpBCjp4YzTKgLccjZhTSDM9YuVaPwxo: 'Meteora DLMM',
+  Eo7WjKq67rjJQSZxS6z3YkapzY3eMj6Xy8X5EQVn5UaB: 'Meteora Pools',
+  PhoeNiXZ8ByJGLkxNfZRnkUfjvmuYqLR89jjFHGqdXY: 'Phoenix',
+  '2wT8Yq49kHgDzXuPxZSaeLaH1qbmGXtEyPy64bL7aD3c': 'Lifinity v2',
+  '6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P': 'Pump.fun',
+  pAMMBay6oceH9fJKBRHGP5D4bD4sWpmSwMn52FMfXEA: 'PumpSwap',
+  metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s: 'Metaplex Token Metadata',
+  AddressLookupTab1e1111111111111111111111111: 'Address Lookup Table Program',
+  Vote111111111111111111111111111111111111111: 'Vote Program',
+};
+
+export function shortAddress(address: string): string {
+  return `${address.slice(0, 4)}…${address.slice(-4)}`;
+}
+
+/**
+ * Convert decoded values (public keys, bigints, BNs, buffers) to JSON-friendly ones
+ */
+export function toPlain(value: unknown): unknown {
+  if (value instanceof PublicKey) return value.toBase58();
+  if (typeof value === 'bigint') return value.toString();
+  if (BN.isBN(value)) return (value as BN).toString();
+  if (value instanceof Uint8Array) return Buffer.from(value).toString('base64');
+  if (Array.isArray(value)) return value.map(toPlain);
+  if (value && typeof value === 'object') {
+    // AccountMeta from the SPL Token decoder
+    if ('pubkey' in value && (value as { pubkey: unknown }).pubkey instanceof PublicKey) {
+      return (value as { pubkey: PublicKey }).pubkey.toBase58();
+    }
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, toPlain(entry)]));
+  }
+  return value;
+}
+
+function lowerFirst(value: string): string {
+  return value.charAt(0).toLowerCase() + value.slice(1);
+}
+
+function formatSol(lamports: number | bigint): string {
+  return `${Number(lamports) / LAMPORTS_PER_SOL} SOL`;
+}
+
+// --- System ------------------------------------------------------------------
+
+export class SystemProgramDecoder implements InstructionDecoder {
+  readonly name = 'System Program';
+  readonly programIds = [SystemProgram.programId];
+
+  decode(instruction: TransactionInstruction): InstructionDecodeResult | null {
+    const type = SystemInstruction.decodeInstructionType(instruction);
+    switch (type) {
+      case 'Transfer': {
+        const { fromPubkey, toPubkey, lamports } = SystemInstruction.decodeTransfer(instruction);
+        return {
+          type: 'transfer',
+          info: toPlain({ from: fromPubkey, to: toPubkey, lamports, sol: Number(lamports) / LAMPORTS_PER_SOL }) as Record<string, unknown>,
+          summary: `Transfer ${formatSol(lamports)} to ${shortAddress(toPubkey.toBase58())}`,
+        };
+      }
+      case 'TransferWithSeed': {
+        const params = SystemInstruction.decodeTransferWithSeed(instruction);
+        return {
+          type: 'transferWithSeed',
+          info: toPlain(params) as Record<string, unknown>,
+          summary: `Transfer ${formatSol(params.lamports)} to ${shortAddress(params.toPubkey.toBase58())}`,
+        };
+      }
+      case 'Create': {
+        const params = SystemInstruction.decodeCreateAccount(instruction);
+        return {
+          type: 'createAccount',
+          info: toPlain(params) as Record<string, unknown>,
+          summary: `Create account ${shortAddress(params.newAccountPubkey.toBase58())} (${params.space} bytes, owner ${shortAddress(params.programId.toBase58())})`,
+        };
+      }
+      case 'CreateWithSeed': {
+        const params = SystemInstruction.decodeCreateWithSeed(instruction);
+        return {
+          type: 'createAccountWithSeed',
+          info: toPlain(params) as Record<string, unknown>,
+          summary: `Create account ${shortAddress(params.newAccountPubkey.toBase58())} with seed "${params.seed}"`,
+        };
+      }
+      case 'Allocate':
+        return { type: 'allocate', info: toPlain(SystemInstruction.decodeAllocate(instruction)) as Record<string, unknown> };
+      case 'AllocateWithSeed':
+        return { type: 'allocateWithSeed', info: toPlain(SystemInstruction.decodeAllocateWithSeed(instruction)) as Record<string, unknown> };
+      case 'Assign':
+        return { type: 'assign', info: toPlain(SystemInstruction.decodeAssign(instruction)) as Record<string, unknown> };
+      case 'AssignWithSeed':
+        return { type: 'assignWithSeed', info: toPlain(SystemInstruction.decodeAssignWithSeed(instruction)) as Record<string, unknown> };
+      case 'InitializeNonceAccount':
+        return { type: 'initializeNonce', info: toPlain(SystemInstruction.decodeNonceInitialize(instruction)) as Record<string, unknown> };
+      case 'AdvanceNonceAccount':
+        return { type: 'advanceNonce', info: toPlain(SystemInstruction.decodeNonceAdvance(instruction)) as Record<string, unknown> };
+      case 'WithdrawNonceAccount':
+        return { type: 'withdrawNonce', info: toPlain(SystemInstruction.decodeNonceWithdraw(instruction)) as Record<string, unknown> };
+      case 'AuthorizeNonceAccount':
+        return { type: 'authorizeNonce', info: toPlain(SystemInstruction.decodeNonceAuthorize(instruction)) as Record<string, unknown> };
+      default:
+        return { type: lowerFirst(type), info: {} };
+    }
+  }
+}
+
+// --- SPL Token and Token-2022 -------------------------------------------------
+
+export class TokenProgramDecoder implements InstructionDecoder {
+  readonly name = 'Token Program';
+  readonly programIds = [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID];
+
+  decode(instruction: TransactionInstruction, context: DecodeContext): InstructionDecodeResult | null {
+    let decoded: ReturnType<typeof decodeTokenInstruction>;
+    try {
+      decoded = decodeTokenInstruction(instruction, instruction.programId);
+    } catch {
+      // Token-2022 extension instructions are not decoded by @solana/spl-token; name them at least
+      const name = TokenInstruction[instruction.data[0]];
+      return name ? { type: lowerFirst(name), info: {} } : null;
+    }
+
+    const type = lowerFirst(TokenInstruction[decoded.data.instruction]);
+    const args: Record<string, unknown> = { ...decoded.data };
+    delete args.instruction;
+    const info = { ...(toPlain(decoded.keys) as Record<string, unknown>), ...(toPlain(args) as Record<string, unknown>) };
+    delete info.multiSigners;
+
+    const account = (key: string) => typeof info[key] === 'string' ? info[key] as string : undefined;
+    const mint = account('mint')
+      || context.tokenAccounts.get(account('source') || account('destination') || account('account') || '')?.mint;
+    const decimals = typeof info.decimals === 'number'
+      ? info.decimals
+      : mint ? context.mints.get(mint)?.decimals : undefined;
+    const symbol = mint ? context.mints.get(mint)?.symbol || shortAddress(mint) : 'tokens';
+
+    if (typeof info.amount === 'string') {
+      if (mint) info.mint = mint;
+      if (decimals !== undefined) info.uiAmount = Number(info.amount) / Math.pow(10, decimals);
+    }
+    const amount = info.uiAmount !== undefined ? `${info.uiAmount} ${symbol}` : `${info.amount} base units of ${symbol}`;
+
+    const summaries: Record<string, () => string> = {
+      transfer: () => `Transfer ${amount} to ${shortAddress(account('destination') || '')}`,
+      transferChecked: () => `Transfer ${amount} to ${shortAddress(account('destination') || '')}`,
+      mintTo: () => `Mint ${amount} to ${shortAddress(account('destination') || '')}`,
+      mintToChecked: () => `Mint ${amount} to ${shortAddress(account('destination') || '')}`,
+      burn: () => `Burn ${amount}`,
+      burnChecked: () => `Burn ${amount}`,
+      approve: () => `Approve ${shortAddress(account('delegate') || '')} to spend ${amount}`,
+      approveChecked: () => `Approve ${shortAddress(account('delegate') || '')} to spend ${amount}`,
+      closeAccount: () => `Close token account ${shortAddress(account('account') || '')}`,
+      syncNative: () => `Sync wrapped SOL account ${shortAddress(account('account') || '')}`,
+    };
+
+    return { type, info, summary: summaries[type]?.() };
+  }
+}
+
+// --- Associated Token Account -------------------------------------------------
+
+export class AssociatedTokenDecoder implements InstructionDecoder {
+  readonly name = 'Associated Token Account Program';
+  readonly programIds = [ASSOCIATED_TOKEN_PROGRAM_ID];
+
+  decode(instruction: TransactionInstruction, context: DecodeContext): InstructionDecodeResult | null {
+    const types = ['create', 'createIdempotent', 'recoverNested'];
+    const type = types[instruction.data.length === 0 ? 0 : instruction.data[0]];
+    if (!type) return null;
+
+    const [payer, account, wallet, mint] = instruction.keys.map(key => key.pubkey.toBase58());
+    const info = type === 'recoverNested' ? { accounts: instruction.keys.map(key => key.pubkey.toBase58()) } : { payer, account, wallet, mint };
+    const symbol = mint ? context.mints.get(mint)?.symbol || shortAddress(mint) : '';
+    return {
+      type,
+      info,
+      summary: type === 'recoverNested' ? 'Recover nested token account' : `Create ${symbol} token account for ${shortAddress(wallet || '')}`,
+    };
+  }
+}
+
+// --- Compute Budget -----------------------------------------------------------
+
+export class ComputeBudgetDecoder implements InstructionDecoder {
+  readonly name = 'Compute Budget Program';
+  readonly programIds = [ComputeBudgetProgram.programId];
+
+  decode(instruction: TransactionInstruction): InstructionDecodeResult | null {
+    const type = ComputeBudgetInstruction.decodeInstructionType(instruction);
+    switch (type) {
+      case 'SetComputeUnitLimit': {
+        const { units } = ComputeBudgetInstruction.decodeSetComputeUnitLimit(instruction);
+        return { type: 'setComputeUnitLimit', info: { units }, summary: `Set compute unit limit to ${units.toLocaleString('en-US')}` };
+      }
+      case 'SetComputeUnitPrice': {
+        const { microLamports } = ComputeBudgetInstruction.decodeSetComputeUnitPrice(instruction);
+        return {
+          type: 'setComputeUnitPrice',
+          info: { microLamports: microLamports.toString() },
+          summary: `Set priority fee to ${microLamports.toString()} micro-lamports per compute unit`,
+        };
+      }
+      case 'RequestHeapFrame':
+        return { type: 'requestHeapFrame', info: toPlain(ComputeBudgetInstruction.decodeRequestHeapFrame(instruction)) as Record<string, unknown> };
+      case 'RequestUnits':
+        return { type: 'requestUnits', info: toPlain(ComputeBudgetInstruction.decodeRequestUnits(instruction)) as Record<string, unknown> };
+      default:
+        return null;
+    }
+  }
+}
+
+// --- Memo -----------------------------------------------------------------------
+
+export class MemoDecoder implements InstructionDecoder {
+  readonly name = 'Memo Program';
+  readonly programIds = [
+    new PublicKey('MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr'),
+    new PublicKey('Memo1UhkJRfHyvLMcVucJwxXeuD728EqVDDwQDxFMNo'),
+  ];
+
+  decode(instruction: TransactionInstruction): InstructionDecodeResult | null {
+    const memo = instruction.data.toString('utf8');
+    return { type: 'memo', info: { memo }, summary: `Memo: "${memo}"` };
+  }
+}
+
+// --- Stake ----------------------------------------------------------------------
+
+export class StakeProgramDecoder implements InstructionDecoder {
+  readonly name = 'Stake Program';
+  readonly programIds = [StakeProgram.programId];
+
+  decode(instruction: TransactionInstruction): InstructionDecodeResult | null {
+    const type = StakeInstruction.decodeInstructionType(instruction);
+    switch (type) {
+      case 'Initialize':
+        return { type: 'initialize', info: toPlain(StakeInstruction.decodeInitialize(instruction)) as Record<string, unknown> };
+      case 'Delegate': {
+        const params = StakeInstruction.decodeDelegate(instruction);
+        return {
+          type: 'delegate',
+          info: toPlain(params) as Record<string, unknown>,
+          summary: `Delegate stake account ${shortAddress(params.stakePubkey.toBase58())} to vote account ${shortAddress(params.votePubkey.toBase58())}`,
+        };
+      }
+      case 'Deactivate': {
+        const params = StakeInstruction.decodeDeactivate(instruction);
+        return {
+          type: 'deactivate',
+          info: toPlain(params) as Record<string, unknown>,
+          summary: `Deactivate stake account ${shortAddress(params.stakePubkey.toBase58())}`,
+        };
+      }
+      case 'Withdraw': {
+        const params = StakeInstruction.decodeWithdraw(instruction);
+        return {
+          type: 'withdraw',
+          info: toPlain(params) as Record<string, unknown>,
+          summary: `Withdraw ${formatSol(params.lamports)} from stake account ${shortAddress(params.stakePubkey.toBase58())}`,
+        };
+      }
+      case 'Split': {
+        const params = StakeInstruction.decodeSplit(instruction);
+        return {
+          type: 'split',
+          info: toPlain(params) as Record<string, unknown>,
+          summary: `Split ${formatSol(params.lamports)} into stake account ${shortAddress(params.splitStakePubkey.toBase58())}`,
+        };
+      }
+      case 'Merge':
+        return { type: 'merge', info: toPlain(StakeInstruction.decodeMerge(instruction)) as Record<string, unknown> };
+      case 'Authorize':
+        return { type: 'authorize', info: toPlain(StakeInstruction.decodeAuthorize(instruction)) as Record<string, unknown> };
+      case 'AuthorizeWithSeed':
+        return { type: 'authorizeWithSeed', info: toPlain(StakeInstruction.decodeAuthorizeWithSeed(instruction)) as Record<string, unknown> };
+      default:
+        return null;
+    }
+  }
+}
+
+// --- Jupiter v6 ---------------------------------------------------------------
+
+interface JupiterRouteLayout {
+  name: string;
+  tail: ('inAmount' | 'outAmount' | 'quotedInAmount' | 'quotedOutAmount')[];
+  authority: number; // Index of the user's transfer authority
+  sourceMint?: number;
+  destinationMint?: number;
+}
+
+// The route plan is a vector of a very large enum, so only the fixed-size
+// arguments after it are read, from the end of the instruction data
+const JUPITER_ROUTES: JupiterRouteLayout[] = [
+  { name: 'route', tail: ['inAmount', 'quotedOutAmount'], authority: 1, destinationMint: 5 },
+  { name: 'route_with_token_ledger', tail: ['quotedOutAmount'], authority: 1, destinationMint: 5 },
+  { name: 'exact_out_route', tail: ['outAmount', 'quotedInAmount'], authority: 1, sourceMint: 5, destinationMint: 6 },
+  { name: 'shared_accounts_route', tail: ['inAmount', 'quotedOutAmount'], authority: 2, sourceMint: 7, destinationMint: 8 },
+  { name: 'shared_accounts_route_with_token_ledger', tail: ['quotedOutAmount'], authority: 2, sourceMint: 7, destinationMint: 8 },
+  { name: 'shared_accounts_exact_out_route', tail: ['outAmount', 'quotedInAmount'], authority: 2, sourceMint: 7, destinationMint: 8 },
+];
+
+function anchorDiscriminator(name: string): string {
+  return createHash('sha256').update(`global:${name}`).digest().subarray(0, 8).toString('hex');
+}
+
+const JUPITER_DISCRIMINATORS = new Map(JUPITER_ROUTES.map(layout => [anchorDiscriminator(layout.name), layout]));
+
+export class JupiterDecoder implements InstructionDecoder {
+  readonly name = 'Jupiter Aggregator v6';
+  readonly programIds = [JUPITER_V6_PROGRAM_ID];
+
+  decode(instruction: TransactionInstruction, context: DecodeContext): InstructionDecodeResult | null {
+    const layout = JUPITER_DISCRIMINATORS.get(instruction.data.subarray(0, 8).toString('hex'));
+    if (!layout) return null;
+
+    // Tail: the amounts (u64 each), slippage_bps (u16), platform_fee_bps (u8)
+    const data = instruction.data;
+    const tailStart = data.length - (layout.tail.length * 8 + 3);
+    if (tailStart < 8) return null;
+    const info: Record<string, unknown> = {};
+    layout.tail.forEach((field, index) => {
+      info[field] = data.readBigUInt64LE(tailStart + index * 8).toString();
+    });
+    info.slippageBps = data.readUInt16LE(data.length - 3);
+    info.platformFeeBps = data.readUInt8(data.length - 1);
+
+    const key = (index?: number) => index !== undefined ? instruction.keys[index]?.pubkey.toBase58() : undefined;
+    info.user = key(layout.authority);
+    if (layout.sourceMint !== undefined) info.sourceMint = key(layout.sourceMint);
+    if (layout.destinationMint !== undefined) info.destinationMint = key(layout.destinationMint);
+
+    const describe = (mint: unknown) =>
+      typeof mint === 'string' ? context.mints.get(mint)?.symbol || shortAddress(mint) : 'tokens';
+    return {
+      type: layout.name.replace(/_(\w)/g, (_, letter: string) => letter.toUpperCase()),
+      info,
+      summary: `Jupiter swap into ${describe(info.destinationMint)} with ${Number(info.slippageBps) / 100}% max slippage`,
+    };
+  }
+}
+
+// --- Anchor IDL -----------------------------------------------------------------
+
+/**
+ * Decodes any Anchor program from its IDL (Anchor 0.30+ format, which carries
+ * the program address and instruction discriminators)
+ */
+export class AnchorIdlDecoder implements InstructionDecoder {
+  readonly name: string;
+  readonly programIds: PublicKey[];
+  private coder: BorshInstructionCoder;
+
+  constructor(private idl: Idl) {
+    this.name = idl.metadata.name;
+    this.programIds = [new PublicKey(idl.address)];
+    this.coder = new BorshInstructionCoder(idl);
+  }
+
+  decode(instruction: TransactionInstruction): InstructionDecodeResult | null {
+    const decoded = this.coder.decode(instruction.data);
+    if (!decoded) return null;
+
+    const formatted = this.coder.format(decoded, instruction.keys);
+    const accounts = Object.fromEntries(
+      (formatted?.accounts || []).map((account, index) => [account.name || `account${index}`, account.pubkey.toBase58()])
+    );
+    return {
+      type: decoded.name,
+      info: { ...(toPlain(decoded.data) as Record<string, unknown>), accounts },
+      summary: `${this.name}: ${decoded.name}`,
+    };
+  }
+}
+
+export function createDefaultDecoders(): InstructionDecoder[] {
+  return [
+    new SystemProgramDecoder(),
+    new TokenProgramDecoder(),
+    new AssociatedTokenDecoder(),
+    new ComputeBudgetDecoder(),
+    new MemoDecoder(),
+    new StakeProgramDecoder(),
+    new JupiterDecoder(),
+  ];
+}
@@ -24,6 +24,7 @@ export interface LiteQuoteRequest {
   swapMode?: 'ExactIn' | 'ExactOut';
   dexes?: string[];
   excludeDexes?: string[];
+  platformFeeBps?: number; // Requires a matching feeAccount on the swap request
 }
 
 export interface LiteQuoteResponse {
@@ -151,7 +152,8 @@ export class JupiterLiteService {
         maxAccounts: request.maxAccounts,
         swapMode: request.swapMode || 'ExactIn',
         ...(request.dexes && { dexes: request.dexes.join(',') }),
-        ...(request.excludeDexes && { excludeDexes: request.excludeDexes.join(',') })
+        ...(request.excludeDexes && { excludeDexes: request.excludeDexes.join(',') }),
+        ...(request.platformFeeBps && { platformFeeBps: request.platformFeeBps })
       };
 
       const response = await this.jupiterClient.quoteGet(params);
@@ -214,6 +216,8 @@ export class JupiterLiteService {
       onlyDirectRoutes?: boolean;
       wrapAndUnwrapSol?: boolean;
       computeUnitPriceMicroLamports?: number;
+      platformFeeBps?: number;
+      feeAccount?: string;
     }
   ): Promise<{ quote: LiteQuoteResponse; swap: LiteSwapResponse }> {
     // Get quote first
@@ -222,7 +226,8 @@ export class JupiterLiteService {
       outputMint,
       amount,
       slippageBps: options?.slippageBps,
-      onlyDirectRoutes: options?.onlyDirectRoutes
+      onlyDirectRoutes: options?.onlyDirectRoutes,
+      platformFeeBps: options?.feeAccount ? options.platformFeeBps : undefined
     });
 
     // Get swap transaction
@@ -230,7 +235,8 @@ export class JupiterLiteService {
       quoteResponse: quote,
       userPublicKey,
       wrapAndUnwrapSol: options?.wrapAndUnwrapSol,
-      computeUnitPriceMicroLamports: options?.computeUnitPriceMicroLamports
+      computeUnitPriceMicroLamports: options?.computeUnitPriceMicroLamports,
+      feeAccount: options?.feeAccount
     });
 
     return { quote, swap };
@@ -3,7 +3,7 @@
  * Handles plugin initialization and configuration management
  */
 
-import { IInit, FormProps, JupiterSwapConfig, SwapAnalytics } from '@/types/jupiter-plugin';
+import { IInit, FormProps, JupiterSwapConfig, SwapAnalytics, WalletContextState } from '@/types/jupiter-plugin';
 
 export const JUPITER_PLUGIN_CONFIG = {
   // Referral configuration (will be set up in Phase 2)
@@ -41,6 +41,7 @@ export class JupiterPluginManager {
   private static instance: JupiterPluginManager;
   private analytics: SwapAnalytics[] = [];
   private isInitialized = false;
+  private walletPassthrough: WalletContextState | null = null;
 
   private constructor() {}
 
@@ -88,7 +89,7 @@ export class JupiterPluginManager {
       }),
     };
 
-    const finalConfig = { ...defaultConfig, ...customConfig };
+    const finalConfig = { ...defaultConfig, ...this.walletProps(), ...customConfig };
 
     try {
       window.Jupiter.init(finalConfig);
@@ -133,6 +134,7 @@ export class JupiterPluginManager {
         this.handleFormUpdate(form);
         config.onFormUpdate?.(form);
       },
+      ...this.walletProps(),
     };
 
     if (typeof window !== 'undefined' && window.Jupiter) {
@@ -178,6 +180,7 @@ export class JupiterPluginManager {
           console.log(`✅ Swap completed for ${tokenSymbol || tokenMint}`, result);
           this.handleSwapSuccess(result);
         },
+        ...this.walletProps(),
       });
     }
   }
@@ -199,6 +202,39 @@ export class JupiterPluginManager {
     });
   }
 
+  /**
+   * Route plugin signing through the app's wallet instead of Jupiter's
+   * built-in one, so swaps can be simulated and reviewed before signing
+   */
+  setWalletPassthrough(wallet: WalletContextState): void {
+    this.walletPassthrough = wallet;
+    if (typeof window !== 'undefined' && window.Jupiter?.syncProps) {
+      window.Jupiter.syncProps({ passthroughWalletContextState: wallet });
+    }
+  }
+
+  /**
+   * Drop a passthrough wallet unless another component has replaced it since
+   */
+  clearWalletPassthrough(wallet: WalletContextState): void {
+    if (this.walletPassthrough === wallet) {
+      this.walletPassthrough = null;
+    }
+  }
+
+  private walletProps(): Partial<IInit> {
+    const wallet = this.walletPassthrough;
+    if (!wallet) return {};
+
+    return {
+      enableWalletPassthrough: true,
+      passthroughWalletContextState: wallet,
+      onRequestConnectWallet: () => wallet.connect().catch((error) => {
+        console.warn('Wallet connection for Jupiter Plugin failed:', error);
+      }),
+    };
+  }
+
   /**
    * Handle successful swap (analytics and tracking)
    */
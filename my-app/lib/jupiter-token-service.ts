@@ -28,6 +28,8 @@ import {
 } from './jupiter-token-types';
 import { SOLANA_CONFIG } from './solana-config';
 
+const MAX_MINTS_PER_SEARCH = 100;
+
 export class JupiterTokenService {
   private config: JupiterApiConfig;
   private rateLimit: RateLimitStatus;
@@ -213,6 +215,48 @@ export class JupiterTokenService {
     }
   }
 
+  /**
+   * Resolve a symbol (e.g. "USDC", "$BONK") or mint address to a token.
+   * Ambiguous symbols prefer verified tokens, then the most liquid one
+   */
+  async resolveToken(query: string): Promise<JupiterTokenData | null> {
+    const normalized = query.trim().replace(/^\$/, '');
+    if (!normalized) return null;
+
+    const { tokens } = await this.searchTokens({ query: normalized, limit: 20 });
+    const byMint = tokens.find(token => token.id === normalized);
+    if (byMint) return byMint;
+
+    const symbolMatches = tokens.filter(token => token.symbol.toLowerCase() === normalized.toLowerCase());
+    symbolMatches.sort((a, b) =>
+      Number(b.isVerified) - Number(a.isVerified) ||
+      (b.liquidity || 0) - (a.liquidity || 0)
+    );
+    return symbolMatches[0] || null;
+  }
+
+  /**
+   * Get token data for many mints, batching them into comma-separated searches
+   */
+  async getTokensData(mintAddresses: string[]): Promise<Map<string, JupiterTokenData>> {
+    const tokens = new Map<string, JupiterTokenData>();
+    const unique = Array.from(new Set(mintAddresses));
+
+    for (let i = 0; i < unique.length; i += MAX_MINTS_PER_SEARCH) {
+      const batch = unique.slice(i, i + MAX_MINTS_PER_SEARCH);
+      try {
+        const result = await this.searchTokens({ query: batch.join(','), limit: batch.length });
+        for (const token of result.tokens) {
+          if (batch.includes(token.id)) tokens.set(token.id, token);
+        }
+      } catch (error) {
+        console.error('Error getting token data batch:', error);
+      }
+    }
+
+    return tokens;
+  }
+
   /**
    * Validate token safety and legitimacy
    */
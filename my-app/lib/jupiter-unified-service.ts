@@ -22,6 +22,7 @@ export interface UnifiedSwapRequest {
     account: string;
     bps: number;
   };
+  tier?: 'lite' | 'ultra'; // Overrides the configured tier, e.g. 'lite' for transactions the wallet submits itself
 }
 
 export interface UnifiedSwapResponse {
@@ -36,6 +37,7 @@ export interface UnifiedSwapResponse {
     priceImpactPct: number;
     slippageBps: number;
     platformFee?: number;
+    label: string; // AMMs along the route, e.g. "Orca → Raydium"
   };
   gasless?: {
     isEligible: boolean;
@@ -110,6 +112,7 @@ export class JupiterUnifiedService {
     outputAmount: string;
     priceImpactPct: number;
     slippageBps: number;
+    minimumOutputAmount: string;
     platformFee?: number;
     route: string;
     tier: 'lite' | 'ultra';
@@ -141,6 +144,7 @@ export class JupiterUnifiedService {
           outputAmount: route.outputAmount,
           priceImpactPct: route.priceImpactPct,
           slippageBps: route.slippageBps,
+          minimumOutputAmount: route.otherAmountThreshold,
           platformFee: response.data.feeBps,
           route: route.marketInfos.map(m => m.label).join(' → '),
           tier: 'ultra',
@@ -153,7 +157,8 @@ export class JupiterUnifiedService {
           amount: request.amount,
           slippageBps: request.slippageBps || 50,
           onlyDirectRoutes: request.onlyDirectRoutes,
-          swapMode: 'ExactIn'
+          swapMode: 'ExactIn',
+          platformFeeBps: request.integratorFee?.bps
         });
 
         return {
@@ -163,6 +168,7 @@ export class JupiterUnifiedService {
           outputAmount: response.outAmount,
           priceImpactPct: parseFloat(response.priceImpactPct),
           slippageBps: response.slippageBps,
+          minimumOutputAmount: response.otherAmountThreshold,
           platformFee: response.platformFee?.feeBps,
           route: response.routePlan.map(p => p.swapInfo.label).join(' → '),
           tier: 'lite',
@@ -179,7 +185,8 @@ export class JupiterUnifiedService {
           amount: request.amount,
           slippageBps: request.slippageBps || 50,
           onlyDirectRoutes: request.onlyDirectRoutes,
-          swapMode: 'ExactIn'
+          swapMode: 'ExactIn',
+          platformFeeBps: request.integratorFee?.bps
         });
 
         return {
@@ -189,6 +196,7 @@ export class JupiterUnifiedService {
           outputAmount: response.outAmount,
           priceImpactPct: parseFloat(response.priceImpactPct),
           slippageBps: response.slippageBps,
+          minimumOutputAmount: response.otherAmountThreshold,
           platformFee: response.platformFee?.feeBps,
           route: response.routePlan.map(p => p.swapInfo.label).join(' → '),
           tier: 'lite',
@@ -332,7 +340,8 @@ export class JupiterUnifiedService {
         outputAmount: route.outputAmount,
         priceImpactPct: route.priceImpactPct,
         slippageBps: route.slippageBps,
-        platformFee: order.feeBps
+        platformFee: order.feeBps,
+        label: route.marketInfos.map(m => m.label).join(' → ')
       },
       gasless: result.gaslessEligibility,
       riskAssessment,
@@ -352,7 +361,9 @@ export class JupiterUnifiedService {
       request.userPublicKey,
       {
         slippageBps: request.slippageBps,
-        onlyDirectRoutes: request.onlyDirectRoutes
+        onlyDirectRoutes: request.onlyDirectRoutes,
+        platformFeeBps: request.integratorFee?.bps,
+        feeAccount: request.integratorFee?.account
       }
     );
 
@@ -370,7 +381,8 @@ export class JupiterUnifiedService {
         outputAmount: quote.outAmount,
         priceImpactPct: parseFloat(quote.priceImpactPct),
         slippageBps: quote.slippageBps,
-        platformFee: quote.platformFee?.feeBps
+        platformFee: quote.platformFee?.feeBps,
+        label: quote.routePlan.map(p => p.swapInfo.label).join(' → ')
       },
       tier: 'lite',
       timeTaken: Date.now() - startTime
@@ -381,6 +393,8 @@ export class JupiterUnifiedService {
    * Determine which tier to use based on request and configuration
    */
   private determineTier(request: UnifiedSwapRequest): 'lite' | 'ultra' {
+    if (request.tier) return request.tier;
+
     // If specific tier is configured, use it
     if (this.preferredTier === 'lite') return 'lite';
     if (this.preferredTier === 'ultra') return 'ultra';
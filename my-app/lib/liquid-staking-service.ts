@@ -0,0 +1,620 @@
+/**
+ * Liquid Staking Service
+ * Quotes and builds SOL <-> LST transactions for jitoSOL, mSOL, bSOL and INF,
+ * and compares their yields.
+ *
+ * LSTs backed by an SPL stake pool (jitoSOL, bSOL) can deposit and withdraw
+ * SOL directly through the stake-pool program; every LST can also route
+ * through Jupiter. With the default `auto` route both are quoted and the
+ * better output wins. APYs come from exchange-rate growth: the stake pool's
+ * own last-epoch snapshot, or the DeFi service's observations for Marinade.
+ */
+
+import {
+  Connection,
+  LAMPORTS_PER_SOL,
+  PublicKey,
+  StakeProgram,
+  SystemProgram,
+  SYSVAR_CLOCK_PUBKEY,
+  SYSVAR_STAKE_HISTORY_PUBKEY,
+  Transaction,
+  TransactionInstruction,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import {
+  createAssociatedTokenAccountIdempotentInstruction,
+  getAssociatedTokenAddressSync,
+} from '@solana/spl-token';
+import { SOLANA_CONFIG } from './solana-config';
+import { jupiterUnifiedService, type JupiterUnifiedService } from './jupiter-unified-service';
+import { defiDataService } from './defi-service';
+import { formatTokenAmount, parseTokenAmount } from './token-transfer';
+import {
+  LiquidStakingError,
+  type LiquidStakeDirection,
+  type LiquidStakeOptions,
+  type LiquidStakeQuote,
+  type LiquidStakeRoute,
+  type LiquidStakeTransaction,
+  type LstApy,
+  type LstInfo,
+} from './liquid-staking-types';
+
+const STAKE_POOL_PROGRAM_ID = new PublicKey('SPoo1Ku8WFXoNDMHPsrGSTSG1Y47rzgn41SLUNakuHy');
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+const LST_DECIMALS = 9; // Every supported LST mirrors SOL's 9 decimals
+const DEFAULT_SLIPPAGE_BPS = 50;
+const BASE_FEE_LAMPORTS = 5000;
+const SLOT_SECONDS = 0.4; // Target slot time; epochs run about two days
+const SECONDS_PER_YEAR = 365 * 24 * 60 * 60;
+const DEPOSIT_SOL_INSTRUCTION = 14;
+const WITHDRAW_SOL_INSTRUCTION = 16;
+
+export const LIQUID_STAKING_TOKENS: LstInfo[] = [
+  {
+    symbol: 'jitoSOL',
+    name: 'Jito Staked SOL',
+    mint: 'J1toso1uCk3RLmjorhTtrVwY9HJ7X8V9yYac6Y7kGCPn',
+    provider: 'Jito',
+    stakePool: 'Jito4APyf642JPZPx3hGc6WWJ8zPKtRbRs4P815Awbb',
+  },
+  {
+    symbol: 'mSOL',
+    name: 'Marinade Staked SOL',
+    mint: 'mSoLzYCxHdYgdzU16g5QSh3i5K3z3KZK7ytfqcJm7So',
+    provider: 'Marinade',
+    marinadeState: '8szGkuLTAux9XMgZ2vtY39jVSowEcpBfFfD8hXSEqdGC',
+  },
+  {
+    symbol: 'bSOL',
+    name: 'BlazeStake Staked SOL',
+    mint: 'bSo13r4TkiE4KumL71LsHTPpL2euBYLFx6h9HP3piy1',
+    provider: 'BlazeStake',
+    stakePool: 'stk9ApL5HeVAwPLr3TLhDXdZS8ptVu7zp6ov8HFDuMi',
+  },
+  {
+    symbol: 'INF',
+    name: 'Sanctum Infinity',
+    mint: '5oVNBeEEQvYi1cX3ir8Dx5n1P7pdxydbGF2X4TxVusJm',
+    provider: 'Sanctum',
+  },
+];
+
+interface Fee {
+  numerator: bigint;
+  denominator: bigint;
+}
+
+/**
+ * The fields of an SPL StakePool account this service uses
+ */
+export interface ParsedStakePool {
+  reserveStake: PublicKey;
+  poolMint: PublicKey;
+  managerFeeAccount: PublicKey;
+  tokenProgramId: PublicKey;
+  totalLamports: bigint;
+  poolTokenSupply: bigint;
+  lastUpdateEpoch: number;
+  epochFee: Fee;
+  solDepositAuthority: PublicKey | null;
+  solDepositFee: Fee;
+  solReferralFee: number; // Percent of the deposit fee paid to the referrer
+  solWithdrawAuthority: PublicKey | null;
+  solWithdrawalFee: Fee;
+  lastEpochPoolTokenSupply: bigint;
+  lastEpochTotalLamports: bigint;
+}
+
+interface LoadedStakePool {
+  address: PublicKey;
+  pool: ParsedStakePool;
+  epoch: number;
+}
+
+export class LiquidStakingService {
+  private connection: Connection;
+  private jupiter: JupiterUnifiedService;
+
+  constructor(
+    connection?: Connection,
+    jupiter: JupiterUnifiedService = jupiterUnifiedService
+  ) {
+    this.connection = connection || new Connection(
+      SOLANA_CONFIG.rpcUrl[SOLANA_CONFIG.network],
+      SOLANA_CONFIG.commitment
+    );
+    this.jupiter = jupiter;
+  }
+
+  listTokens(): LstInfo[] {
+    return LIQUID_STAKING_TOKENS;
+  }
+
+  /**
+   * Yield of every supported LST, highest first
+   */
+  async getApys(): Promise<LstApy[]> {
+    const epochInfo = await this.connection.getEpochInfo().catch(() => null);
+    const epochsPerYear = epochInfo ? SECONDS_PER_YEAR / (epochInfo.slotsInEpoch * SLOT_SECONDS) : null;
+
+    const apys = await Promise.all(LIQUID_STAKING_TOKENS.map(async (lst): Promise<LstApy> => {
+      const apy: LstApy = {
+        symbol: lst.symbol,
+        mint: lst.mint,
+        apy: null,
+        apySource: null,
+        solPerToken: null,
+        totalStakedSol: null,
+        rewardFee: null,
+        notes: [],
+      };
+
+      try {
+        if (lst.stakePool) {
+          const { pool, epoch } = await this.loadStakePool(lst);
+          apy.solPerToken = ratio(pool.totalLamports, pool.poolTokenSupply);
+          apy.totalStakedSol = Number(pool.totalLamports) / LAMPORTS_PER_SOL;
+          apy.rewardFee = feeFraction(pool.epochFee);
+          const previous = ratio(pool.lastEpochTotalLamports, pool.lastEpochPoolTokenSupply);
+          if (apy.solPerToken !== null && previous && epochsPerYear) {
+            // One epoch of exchange-rate growth, compounded over a year
+            apy.apy = Math.pow(apy.solPerToken / previous, epochsPerYear) - 1;
+            apy.apySource = 'epoch-exchange-rate';
+          }
+          if (pool.lastUpdateEpoch < epoch) {
+            apy.notes.push(`Pool not yet updated for epoch ${epoch}; the rate reflects epoch ${pool.lastUpdateEpoch}`);
+          }
+        } else if (lst.marinadeState) {
+          const [pool] = await defiDataService.getPoolAnalytics([lst.marinadeState]);
+          apy.solPerToken = typeof pool.details.solPerToken === 'number' ? pool.details.solPerToken : null;
+          apy.totalStakedSol = pool.tokens[0]?.amount ?? null;
+          apy.rewardFee = pool.feeRate;
+          if (pool.apr !== null && epochsPerYear) {
+            apy.apy = Math.pow(1 + pool.apr / epochsPerYear, epochsPerYear) - 1;
+            apy.apySource = 'observed-exchange-rate';
+          } else {
+            apy.notes.push(...pool.notes);
+          }
+        } else {
+          const quote = await this.jupiter.getQuote({
+            inputMint: lst.mint,
+            outputMint: SOL_MINT,
+            amount: String(LAMPORTS_PER_SOL),
+            userPublicKey: '',
+          });
+          apy.solPerToken = Number(quote.outputAmount) / LAMPORTS_PER_SOL;
+          apy.notes.push('Market price via Jupiter; no on-chain exchange-rate history to derive an APY from');
+        }
+      } catch (error) {
+        apy.notes.push(`Unavailable: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      return apy;
+    }));
+
+    return apys.sort((a, b) => (b.apy ?? -1) - (a.apy ?? -1));
+  }
+
+  /**
+   * Quote a deposit (SOL amount in) or withdrawal (LST amount in) on every
+   * available route and pick the best output
+   */
+  async quote(
+    direction: LiquidStakeDirection,
+    lstQuery: string,
+    amount: number,
+    options: LiquidStakeOptions = {}
+  ): Promise<LiquidStakeQuote> {
+    const lst = resolveLst(lstQuery);
+    const rawAmount = toRawAmount(amount);
+    const slippageBps = options.slippageBps ?? DEFAULT_SLIPPAGE_BPS;
+    const routes: LiquidStakeRoute[] = !options.route || options.route === 'auto'
+      ? (lst.stakePool ? ['stake-pool', 'jupiter'] : ['jupiter'])
+      : [options.route];
+
+    const results = await Promise.all(routes.map(async route => {
+      try {
+        return route === 'stake-pool'
+          ? { route, quote: await this.quoteStakePool(direction, lst, rawAmount) }
+          : { route, quote: await this.quoteJupiter(direction, lst, rawAmount, slippageBps) };
+      } catch (error) {
+        return { route, error: error instanceof Error ? error.message : String(error) };
+      }
+    }));
+
+    const available = results.filter(result => result.quote) as Array<{ route: LiquidStakeRoute; quote: RouteQuote }>;
+    if (available.length === 0) {
+      throw new LiquidStakingError(
+        `No route available to ${direction === 'deposit' ? `stake SOL into ${lst.symbol}` : `unstake ${lst.symbol}`}: ${results.map(result => `${result.route}: ${result.error}`).join('; ')}`,
+        'ROUTE_UNAVAILABLE'
+      );
+    }
+    const best = available.reduce((a, b) => (b.quote.output > a.quote.output ? b : a));
+
+    return {
+      direction,
+      lst,
+      route: best.route,
+      inputAmount: Number(formatTokenAmount(rawAmount, LST_DECIMALS)),
+      outputAmount: Number(formatTokenAmount(best.quote.output, LST_DECIMALS)),
+      minimumOutputAmount: Number(formatTokenAmount(best.quote.minimumOutput, LST_DECIMALS)),
+      fee: Number(formatTokenAmount(best.quote.fee, LST_DECIMALS)),
+      priceImpactPct: best.quote.priceImpactPct,
+      jupiterRoute: best.quote.jupiterRoute,
+      alternatives: results
+        .filter(result => result !== best)
+        .map(result => ({
+          route: result.route,
+          outputAmount: 'quote' in result && result.quote ? Number(formatTokenAmount(result.quote.output, LST_DECIMALS)) : null,
+          reason: 'error' in result ? result.error : undefined,
+        })),
+      warnings: best.quote.warnings,
+    };
+  }
+
+  /**
+   * Build an unsigned deposit or withdrawal for the owner's wallet to sign
+   */
+  async buildTransaction(
+    owner: string,
+    direction: LiquidStakeDirection,
+    lstQuery: string,
+    amount: number,
+    options: LiquidStakeOptions = {}
+  ): Promise<LiquidStakeTransaction> {
+    const ownerKey = toPublicKey(owner, 'owner');
+    const lst = resolveLst(lstQuery);
+    const rawAmount = toRawAmount(amount);
+    await this.checkBalance(ownerKey, direction, lst, rawAmount);
+
+    const quote = await this.quote(direction, lst.symbol, amount, options);
+
+    if (quote.route === 'stake-pool') {
+      const loaded = await this.loadStakePool(lst);
+      const transaction = direction === 'deposit'
+        ? this.createDepositInstructions(loaded, ownerKey, rawAmount)
+        : this.createWithdrawInstructions(loaded, ownerKey, rawAmount);
+      const { blockhash, lastValidBlockHeight } = await this.connection.getLatestBlockhash();
+      transaction.recentBlockhash = blockhash;
+      transaction.feePayer = ownerKey;
+      return { quote, transaction, lastValidBlockHeight, submitVia: 'rpc' };
+    }
+
+    const swap = await this.jupiter.swap({
+      inputMint: direction === 'deposit' ? SOL_MINT : lst.mint,
+      outputMint: direction === 'deposit' ? lst.mint : SOL_MINT,
+      amount: rawAmount.toString(),
+      userPublicKey: ownerKey.toBase58(),
+      slippageBps: options.slippageBps ?? DEFAULT_SLIPPAGE_BPS,
+      // Lite-tier swaps are plain transactions any wallet can submit, unlike Ultra orders
+      ...(options.rpcSubmittable && { tier: 'lite' as const }),
+    });
+    // The executed route can differ slightly from the quote
+    quote.outputAmount = Number(formatTokenAmount(BigInt(swap.route.outputAmount), LST_DECIMALS));
+    quote.minimumOutputAmount = quote.outputAmount * (1 - swap.route.slippageBps / 10000);
+    quote.warnings.push(...(swap.riskAssessment?.warnings || []));
+
+    return {
+      quote,
+      transaction: VersionedTransaction.deserialize(Buffer.from(swap.transaction, 'base64')),
+      lastValidBlockHeight: swap.lastValidBlockHeight,
+      submitVia: swap.tier === 'ultra' ? 'jupiter-ultra' : 'rpc',
+    };
+  }
+
+  private async quoteStakePool(direction: LiquidStakeDirection, lst: LstInfo, rawAmount: bigint): Promise<RouteQuote> {
+    const { pool, epoch } = await this.loadStakePool(lst);
+    if (pool.lastUpdateEpoch < epoch) {
+      throw new LiquidStakingError(`${lst.symbol} pool has not been updated for epoch ${epoch} yet`, 'POOL_UNAVAILABLE');
+    }
+    if (pool.totalLamports === BigInt(0) || pool.poolTokenSupply === BigInt(0)) {
+      throw new LiquidStakingError(`${lst.symbol} pool is empty`, 'POOL_UNAVAILABLE');
+    }
+
+    if (direction === 'deposit') {
+      if (pool.solDepositAuthority) {
+        throw new LiquidStakingError(`${lst.symbol} pool only accepts SOL deposits from its deposit authority`, 'POOL_UNAVAILABLE');
+      }
+      const poolTokens = (rawAmount * pool.poolTokenSupply) / pool.totalLamports;
+      const fee = applyFee(poolTokens, pool.solDepositFee);
+      // The referral share of the fee goes to the referrer account, which is the depositor's own
+      const referral = (fee * BigInt(pool.solReferralFee)) / BigInt(100);
+      const output = poolTokens - fee + referral;
+      return { output, minimumOutput: output, fee: fee - referral, warnings: [] };
+    }
+
+    if (pool.solWithdrawAuthority) {
+      throw new LiquidStakingError(`${lst.symbol} pool only allows SOL withdrawals by its withdraw authority`, 'POOL_UNAVAILABLE');
+    }
+    const fee = applyFee(rawAmount, pool.solWithdrawalFee);
+    const output = ((rawAmount - fee) * pool.totalLamports) / pool.poolTokenSupply;
+    const [reserve, rentExempt] = await Promise.all([
+      this.connection.getBalance(pool.reserveStake),
+      this.connection.getMinimumBalanceForRentExemption(StakeProgram.space),
+    ]);
+    if (BigInt(reserve - rentExempt) < output) {
+      throw new LiquidStakingError(
+        `${lst.symbol} reserve holds only ${(reserve - rentExempt) / LAMPORTS_PER_SOL} SOL available for instant withdrawal`,
+        'POOL_UNAVAILABLE'
+      );
+    }
+    const feeLamports = (fee * pool.totalLamports) / pool.poolTokenSupply;
+    return { output, minimumOutput: output, fee: feeLamports, warnings: [] };
+  }
+
+  private async quoteJupiter(
+    direction: LiquidStakeDirection,
+    lst: LstInfo,
+    rawAmount: bigint,
+    slippageBps: number
+  ): Promise<RouteQuote> {
+    const quote = await this.jupiter.getQuote({
+      inputMint: direction === 'deposit' ? SOL_MINT : lst.mint,
+      outputMint: direction === 'deposit' ? lst.mint : SOL_MINT,
+      amount: rawAmount.toString(),
+      userPublicKey: '',
+      slippageBps,
+    });
+    const output = BigInt(quote.outputAmount);
+    const warnings: string[] = [];
+    // Jupiter reports price impact as a fraction, e.g. 0.01 for 1%
+    if (quote.priceImpactPct > 0.01) {
+      warnings.push(`High price impact: ${(quote.priceImpactPct * 100).toFixed(2)}%`);
+    }
+    return {
+      output,
+      minimumOutput: (output * BigInt(10000 - quote.slippageBps)) / BigInt(10000),
+      fee: BigInt(0),
+      priceImpactPct: quote.priceImpactPct,
+      jupiterRoute: quote.route,
+      warnings,
+    };
+  }
+
+  private createDepositInstructions({ address, pool }: LoadedStakePool, owner: PublicKey, lamports: bigint): Transaction {
+    const destination = getAssociatedTokenAddressSync(pool.poolMint, owner, false, pool.tokenProgramId);
+    const data = Buffer.alloc(9);
+    data.writeUInt8(DEPOSIT_SOL_INSTRUCTION, 0);
+    data.writeBigUInt64LE(lamports, 1);
+
+    return new Transaction().add(
+      createAssociatedTokenAccountIdempotentInstruction(owner, destination, owner, pool.poolMint, pool.tokenProgramId),
+      new TransactionInstruction({
+        programId: STAKE_POOL_PROGRAM_ID,
+        keys: [
+          { pubkey: address, isSigner: false, isWritable: true },
+          { pubkey: findWithdrawAuthority(address), isSigner: false, isWritable: false },
+          { pubkey: pool.reserveStake, isSigner: false, isWritable: true },
+          { pubkey: owner, isSigner: true, isWritable: true },
+          { pubkey: destination, isSigner: false, isWritable: true },
+          { pubkey: pool.managerFeeAccount, isSigner: false, isWritable: true },
+          { pubkey: destination, isSigner: false, isWritable: true }, // Referrer
+          { pubkey: pool.poolMint, isSigner: false, isWritable: true },
+          { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+          { pubkey: pool.tokenProgramId, isSigner: false, isWritable: false },
+        ],
+        data,
+      })
+    );
+  }
+
+  private createWithdrawInstructions({ address, pool }: LoadedStakePool, owner: PublicKey, poolTokens: bigint): Transaction {
+    const source = getAssociatedTokenAddressSync(pool.poolMint, owner, false, pool.tokenProgramId);
+    const data = Buffer.alloc(9);
+    data.writeUInt8(WITHDRAW_SOL_INSTRUCTION, 0);
+    data.writeBigUInt64LE(poolTokens, 1);
+
+    return new Transaction().add(
+      new TransactionInstruction({
+        programId: STAKE_POOL_PROGRAM_ID,
+        keys: [
+          { pubkey: address, isSigner: false, isWritable: true },
+          { pubkey: findWithdrawAuthority(address), isSigner: false, isWritable: false },
+          { pubkey: owner, isSigner: true, isWritable: false },
+          { pubkey: source, isSigner: false, isWritable: true },
+          { pubkey: pool.reserveStake, isSigner: false, isWritable: true },
+          { pubkey: owner, isSigner: false, isWritable: true },
+          { pubkey: pool.managerFeeAccount, isSigner: false, isWritable: true },
+          { pubkey: pool.poolMint, isSigner: false, isWritable: true },
+          { pubkey: SYSVAR_CLOCK_PUBKEY, isSigner: false, isWritable: false },
+          { pubkey: SYSVAR_STAKE_HISTORY_PUBKEY, isSigner: false, isWritable: false },
+          { pubkey: StakeProgram.programId, isSigner: false, isWritable: false },
+          { pubkey: pool.tokenProgramId, isSigner: false, isWritable: false },
+        ],
+        data,
+      })
+    );
+  }
+
+  private async checkBalance(owner: PublicKey, direction: LiquidStakeDirection, lst: LstInfo, rawAmount: bigint): Promise<void> {
+    if (direction === 'deposit') {
+      const balance = await this.connection.getBalance(owner);
+      if (BigInt(balance) < rawAmount + BigInt(BASE_FEE_LAMPORTS)) {
+        throw new LiquidStakingError(
+          `Insufficient balance: the wallet has ${balance / LAMPORTS_PER_SOL} SOL`,
+          'INSUFFICIENT_BALANCE'
+        );
+      }
+      return;
+    }
+
+    const accounts = await this.connection.getParsedTokenAccountsByOwner(owner, { mint: new PublicKey(lst.mint) });
+    const balance = accounts.value.reduce(
+      (sum, { account }) => sum + BigInt(account.data.parsed?.info?.tokenAmount?.amount || '0'),
+      BigInt(0)
+    );
+    if (balance < rawAmount) {
+      throw new LiquidStakingError(
+        `Insufficient balance: the wallet has ${formatTokenAmount(balance, LST_DECIMALS)} ${lst.symbol}`,
+        'INSUFFICIENT_BALANCE'
+      );
+    }
+  }
+
+  private async loadStakePool(lst: LstInfo): Promise<LoadedStakePool> {
+    if (!lst.stakePool) {
+      throw new LiquidStakingError(`${lst.symbol} is not backed by an SPL stake pool`, 'POOL_UNAVAILABLE');
+    }
+    const address = new PublicKey(lst.stakePool);
+    let account, epochInfo;
+    try {
+      [account, epochInfo] = await Promise.all([
+        this.connection.getAccountInfo(address),
+        this.connection.getEpochInfo(),
+      ]);
+    } catch (error) {
+      throw new LiquidStakingError(`Failed to load the ${lst.symbol} stake pool: ${error instanceof Error ? error.message : String(error)}`, 'RPC_ERROR');
+    }
+    if (!account || !account.owner.equals(STAKE_POOL_PROGRAM_ID)) {
+      throw new LiquidStakingError(`${lst.stakePool} is not an SPL stake pool`, 'POOL_UNAVAILABLE');
+    }
+    return { address, pool: parseStakePool(account.data), epoch: epochInfo.epoch };
+  }
+}
+
+interface RouteQuote {
+  output: bigint; // Raw output units (lamports or LST base units)
+  minimumOutput: bigint;
+  fee: bigint;
+  priceImpactPct?: number;
+  jupiterRoute?: string;
+  warnings: string[];
+}
+
+/**
+ * Find a supported LST by symbol (case-insensitive) or mint address
+ */
+export function resolveLst(query: string): LstInfo {
+  const normalized = query.trim().toLowerCase();
+  const lst = LIQUID_STAKING_TOKENS.find(token => token.symbol.toLowerCase() === normalized || token.mint === query.trim());
+  if (!lst) {
+    throw new LiquidStakingError(
+      `Unsupported liquid staking token: ${query}. Supported: ${LIQUID_STAKING_TOKENS.map(token => token.symbol).join(', ')}`,
+      'UNKNOWN_LST'
+    );
+  }
+  return lst;
+}
+
+/**
+ * Decode an SPL StakePool account. The layout is Borsh with optional fields,
+ * so everything after the fixed header is read sequentially.
+ */
+export function parseStakePool(data: Buffer): ParsedStakePool {
+  if (data.readUInt8(0) !== 1) {
+    throw new LiquidStakingError('Account is not an initialized stake pool', 'POOL_UNAVAILABLE');
+  }
+
+  let offset = 0;
+  const pubkey = (at: number) => new PublicKey(data.subarray(at, at + 32));
+  const u64 = () => {
+    const value = data.readBigUInt64LE(offset);
+    offset += 8;
+    return value;
+  };
+  const fee = (): Fee => {
+    const denominator = u64();
+    return { denominator, numerator: u64() };
+  };
+  const optionalPubkey = () => {
+    const present = data.readUInt8(offset) === 1;
+    offset += 1;
+    if (!present) return null;
+    const key = pubkey(offset);
+    offset += 32;
+    return key;
+  };
+  const futureFee = () => {
+    const variant = data.readUInt8(offset);
+    offset += 1;
+    if (variant !== 0) fee();
+  };
+  const u8 = () => data.readUInt8(offset++);
+
+  const header = {
+    reserveStake: pubkey(130),
+    poolMint: pubkey(162),
+    managerFeeAccount: pubkey(194),
+    tokenProgramId: pubkey(226),
+  };
+  offset = 258;
+  const totalLamports = u64();
+  const poolTokenSupply = u64();
+  const lastUpdateEpoch = Number(u64());
+  offset += 48; // Lockup
+  const epochFee = fee();
+  futureFee(); // next_epoch_fee
+  optionalPubkey(); // preferred_deposit_validator_vote_address
+  optionalPubkey(); // preferred_withdraw_validator_vote_address
+  fee(); // stake_deposit_fee
+  fee(); // stake_withdrawal_fee
+  futureFee(); // next_stake_withdrawal_fee
+  u8(); // stake_referral_fee
+  const solDepositAuthority = optionalPubkey();
+  const solDepositFee = fee();
+  const solReferralFee = u8();
+  const solWithdrawAuthority = optionalPubkey();
+  const solWithdrawalFee = fee();
+  futureFee(); // next_sol_withdrawal_fee
+  const lastEpochPoolTokenSupply = u64();
+  const lastEpochTotalLamports = u64();
+
+  return {
+    ...header,
+    totalLamports,
+    poolTokenSupply,
+    lastUpdateEpoch,
+    epochFee,
+    solDepositAuthority,
+    solDepositFee,
+    solReferralFee,
+    solWithdrawAuthority,
+    solWithdrawalFee,
+    lastEpochPoolTokenSupply,
+    lastEpochTotalLamports,
+  };
+}
+
+function findWithdrawAuthority(stakePool: PublicKey): PublicKey {
+  return PublicKey.findProgramAddressSync([stakePool.toBuffer(), Buffer.from('withdraw')], STAKE_POOL_PROGRAM_ID)[0];
+}
+
+function applyFee(amount: bigint, fee: Fee): bigint {
+  if (fee.denominator === BigInt(0) || fee.numerator === BigInt(0)) return BigInt(0);
+  return (amount * fee.numerator + fee.denominator - BigInt(1)) / fee.denominator; // The program rounds fees up
+}
+
+function feeFraction(fee: Fee): number | null {
+  return fee.denominator > BigInt(0) ? Number(fee.numerator) / Number(fee.denominator) : null;
+}
+
+function ratio(lamports: bigint, supply: bigint): number | null {
+  return supply > BigInt(0) ? Number(lamports) / Number(supply) : null;
+}
+
+function toRawAmount(amount: number): bigint {
+  if (!Number.isFinite(amount) || amount <= 0) {
+    throw new LiquidStakingError('Amount must be a positive number', 'INVALID_AMOUNT');
+  }
+  const raw = parseTokenAmount(amount.toFixed(LST_DECIMALS), LST_DECIMALS);
+  if (raw <= BigInt(0)) {
+    throw new LiquidStakingError('Amount is below the smallest unit', 'INVALID_AMOUNT');
+  }
+  return raw;
+}
+
+function toPublicKey(value: string, label: string): PublicKey {
+  try {
+    return new PublicKey(value);
+  } catch {
+    throw new LiquidStakingError(`Invalid ${label} address: ${value}`, 'INVALID_ADDRESS');
+  }
+}
+
+export function createLiquidStakingService(connection?: Connection): LiquidStakingService {
+  return new LiquidStakingService(connection);
+}
+
+// Export singleton instance
+export const liquidStakingService = createLiquidStakingService();
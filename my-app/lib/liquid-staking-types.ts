@@ -0,0 +1,75 @@
+/**
+ * Liquid Staking Type Definitions
+ * Shared between the liquid staking service, the liquid-stake Blink and the
+ * `liquid-stake` / `staking-info` tools
+ */
+
+import type { Transaction, VersionedTransaction } from '@solana/web3.js';
+
+export type LstSymbol = 'jitoSOL' | 'mSOL' | 'bSOL' | 'INF';
+export type LiquidStakeDirection = 'deposit' | 'withdraw'; // deposit: SOL -> LST, withdraw: LST -> SOL
+export type LiquidStakeRoute = 'stake-pool' | 'jupiter';
+
+export interface LstInfo {
+  symbol: LstSymbol;
+  name: string;
+  mint: string;
+  provider: string;
+  stakePool?: string; // SPL stake pool account; LSTs without one only route through Jupiter
+  marinadeState?: string;
+}
+
+export interface LstApy {
+  symbol: LstSymbol;
+  mint: string;
+  apy: number | null; // Fraction, e.g. 0.075 for 7.5%
+  apySource: 'epoch-exchange-rate' | 'observed-exchange-rate' | null;
+  solPerToken: number | null;
+  totalStakedSol: number | null;
+  rewardFee: number | null; // Fraction of staking rewards kept by the pool
+  notes: string[];
+}
+
+export interface LiquidStakeQuote {
+  direction: LiquidStakeDirection;
+  lst: LstInfo;
+  route: LiquidStakeRoute;
+  inputAmount: number; // SOL for deposits, LST for withdrawals
+  outputAmount: number; // Expected LST for deposits, SOL for withdrawals
+  minimumOutputAmount: number; // After slippage; equals outputAmount for stake-pool routes
+  fee: number; // Pool fee in output units; 0 for Jupiter routes, whose fees are in the price
+  priceImpactPct?: number; // Fraction as returned by Jupiter, e.g. 0.01 for 1%
+  jupiterRoute?: string; // e.g. "Sanctum Infinity"
+  alternatives: Array<{ route: LiquidStakeRoute; outputAmount: number | null; reason?: string }>;
+  warnings: string[];
+}
+
+export interface LiquidStakeOptions {
+  route?: LiquidStakeRoute | 'auto'; // auto: best output of the available routes
+  slippageBps?: number; // Jupiter routes only
+  rpcSubmittable?: boolean; // Build Jupiter routes the wallet can send itself (Blinks)
+}
+
+export interface LiquidStakeTransaction {
+  quote: LiquidStakeQuote;
+  transaction: Transaction | VersionedTransaction;
+  lastValidBlockHeight: number;
+  submitVia: 'rpc' | 'jupiter-ultra';
+}
+
+export class LiquidStakingError extends Error {
+  constructor(
+    message: string,
+    public code:
+      | 'UNKNOWN_LST'
+      | 'INVALID_AMOUNT'
+      | 'INVALID_ADDRESS'
+      | 'INSUFFICIENT_BALANCE'
+      | 'POOL_UNAVAILABLE'
+      | 'ROUTE_UNAVAILABLE'
+      | 'RPC_ERROR'
+  ) {
+    super(message);
+    this.name = 'LiquidStakingError';
+  }
+}
@@ -0,0 +1,229 @@
+/**
+ * NFT Marketplace Adapters
+ * Floor price, listings and volume for a collection, and listing
+ * transactions for a single NFT. Magic Eden is the live source; the stub
+ * adapters serve stats from a local JSON file and list through a local
+ * program, so analytics and listings can run without marketplace access.
+ *
+ * NFT_MARKETPLACE selects the adapters: magiceden (default) or stub, with
+ * NFT_MARKETPLACE_STUB pointing at the stub file and NFT_LISTING_STUB_PROGRAM
+ * at the deployed stub listing program.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { PublicKey, SystemProgram, Transaction, TransactionInstruction, VersionedTransaction } from '@solana/web3.js';
+import {
+  ListingAdapter,
+  MarketplaceAdapter,
+  MarketplaceStats,
+  NftCollection,
+  NftError,
+  NftListing,
+  NftListingRequest,
+} from './nft-types';
+
+const MAGIC_EDEN_API_URL = 'https://api-mainnet.magiceden.dev/v2';
+const DEFAULT_STUB_PATH = path.join(process.cwd(), 'fixtures', 'nft-marketplace.json');
+const LAMPORTS_PER_SOL = 1e9;
+
+/**
+ * Magic Eden public API. Collections are addressed by their Magic Eden
+ * symbol, so collections without a known symbol are not looked up.
+ */
+export class MagicEdenAdapter implements MarketplaceAdapter {
+  readonly id = 'magiceden';
+  readonly name = 'Magic Eden';
+  private apiKey?: string;
+
+  constructor(apiKey: string | undefined = process.env.MAGIC_EDEN_API_KEY) {
+    this.apiKey = apiKey;
+  }
+
+  async getStats(collection: NftCollection): Promise<MarketplaceStats | null> {
+    const symbol = collection.marketplaceSymbol;
+    if (!symbol) return null;
+
+    let response: Response;
+    try {
+      response = await fetch(`${MAGIC_EDEN_API_URL}/collections/${encodeURIComponent(symbol)}/stats`, {
+        headers: this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : undefined,
+      });
+    } catch (error: any) {
+      throw new NftError(`Magic Eden request failed: ${error.message || error}`, 'MARKETPLACE_ERROR');
+    }
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new NftError(`Magic Eden returned ${response.status} for ${symbol}`, 'MARKETPLACE_ERROR');
+    }
+
+    const data = await response.json();
+    return {
+      source: this.name,
+      floorPriceSol: typeof data.floorPrice === 'number' ? data.floorPrice / LAMPORTS_PER_SOL : null,
+      listedCount: typeof data.listedCount === 'number' ? data.listedCount : null,
+      volume24hSol: null, // Not part of the public stats endpoint
+      volumeAllSol: typeof data.volumeAll === 'number' ? data.volumeAll / LAMPORTS_PER_SOL : null,
+      fetchedAt: new Date().toISOString(),
+    };
+  }
+}
+
+interface StubCollection extends NftCollection {
+  floorPriceSol?: number | null;
+  listedCount?: number | null;
+  volume24hSol?: number | null;
+  volumeAllSol?: number | null;
+}
+
+/**
+ * Reads marketplace data from a local JSON file of the form
+ * `{ "collections": [{ "address", "name", "floorPriceSol", ... }] }`
+ */
+export class StubMarketplaceAdapter implements MarketplaceAdapter {
+  readonly id = 'stub';
+  readonly name = 'Local stub';
+  private stubPath: string;
+  private loaded: Promise<StubCollection[]> | null = null;
+
+  constructor(stubPath: string = process.env.NFT_MARKETPLACE_STUB || DEFAULT_STUB_PATH) {
+    this.stubPath = stubPath;
+  }
+
+  async getStats(collection: NftCollection): Promise<MarketplaceStats | null> {
+    const entry = (await this.load()).find(candidate => candidate.address === collection.address);
+    if (!entry) return null;
+    return {
+      source: this.name,
+      floorPriceSol: entry.floorPriceSol ?? null,
+      listedCount: entry.listedCount ?? null,
+      volume24hSol: entry.volume24hSol ?? null,
+      volumeAllSol: entry.volumeAllSol ?? null,
+      fetchedAt: new Date().toISOString(),
+    };
+  }
+
+  async findCollection(name: string): Promise<NftCollection | null> {
+    const normalized = name.trim().toLowerCase();
+    const entry = (await this.load()).find(candidate =>
+      candidate.name.toLowerCase() === normalized || candidate.symbol?.toLowerCase() === normalized
+    );
+    return entry
+      ? { address: entry.address, name: entry.name, symbol: entry.symbol, image: entry.image, marketplaceSymbol: entry.marketplaceSymbol }
+      : null;
+  }
+
+  private load(): Promise<StubCollection[]> {
+    if (!this.loaded) {
+      this.loaded = fs.readFile(this.stubPath, 'utf8')
+        .then(raw => {
+          const parsed = JSON.parse(raw);
+          return Array.isArray(parsed.collections) ? parsed.collections as StubCollection[] : [];
+        })
+        .catch((error: any) => {
+          this.loaded = null;
+          throw new NftError(`Cannot read marketplace stub ${this.stubPath}: ${error.message || error}`, 'MARKETPLACE_ERROR');
+        });
+    }
+    return this.loaded;
+  }
+}
+
+/**
+ * Lists through Magic Eden's instruction API, which returns a ready-made
+ * transaction against its auction house. Requires MAGIC_EDEN_API_KEY.
+ */
+export class MagicEdenListingAdapter implements ListingAdapter {
+  readonly id = 'magiceden';
+  readonly name = 'Magic Eden';
+  private apiKey?: string;
+
+  constructor(apiKey: string | undefined = process.env.MAGIC_EDEN_API_KEY) {
+    this.apiKey = apiKey;
+  }
+
+  async buildListing(request: NftListingRequest): Promise<NftListing> {
+    if (!this.apiKey) {
+      throw new NftError('Magic Eden listings need MAGIC_EDEN_API_KEY', 'UNSUPPORTED');
+    }
+
+    const params = new URLSearchParams({
+      seller: request.seller.toBase58(),
+      tokenMint: request.mint.toBase58(),
+      tokenAccount: request.tokenAccount.toBase58(),
+      price: (Number(request.priceLamports) / LAMPORTS_PER_SOL).toString(),
+    });
+
+    let response: Response;
+    try {
+      response = await fetch(`${MAGIC_EDEN_API_URL}/instructions/sell?${params}`, {
+        headers: { Authorization: `Bearer ${this.apiKey}` },
+      });
+    } catch (error: any) {
+      throw new NftError(`Magic Eden request failed: ${error.message || error}`, 'MARKETPLACE_ERROR');
+    }
+    if (!response.ok) {
+      throw new NftError(`Magic Eden returned ${response.status} for the listing`, 'MARKETPLACE_ERROR');
+    }
+
+    // Serialized transaction as a JSON Buffer ({ type: 'Buffer', data: [...] })
+    const data = await response.json();
+    const serialized = data.txSigned?.data || data.tx?.data;
+    if (!Array.isArray(serialized)) {
+      throw new NftError('Magic Eden response did not include a transaction', 'MARKETPLACE_ERROR');
+    }
+    return { transaction: VersionedTransaction.deserialize(Uint8Array.from(serialized)) };
+  }
+}
+
+/**
+ * Lists through a local stub program with a single instruction:
+ * data `[0, price: u64 LE]`, accounts `[seller (signer, writable), listing
+ * (writable, PDA of ["listing", mint, seller]), mint, seller token account
+ * (writable), system program]`.
+ */
+export class StubListingAdapter implements ListingAdapter {
+  readonly id = 'stub';
+  readonly name = 'Local stub';
+  private programId: string | undefined;
+
+  constructor(programId: string | undefined = process.env.NFT_LISTING_STUB_PROGRAM) {
+    this.programId = programId;
+  }
+
+  async buildListing(request: NftListingRequest): Promise<NftListing> {
+    if (!this.programId) {
+      throw new NftError('Stub listings need NFT_LISTING_STUB_PROGRAM', 'UNSUPPORTED');
+    }
+    const programId = new PublicKey(this.programId);
+    const [listing] = PublicKey.findProgramAddressSync(
+      [Buffer.from('listing'), request.mint.toBuffer(), request.seller.toBuffer()],
+      programId
+    );
+
+    const data = Buffer.alloc(9);
+    data.writeUInt8(0, 0);
+    data.writeBigUInt64LE(request.priceLamports, 1);
+
+    const transaction = new Transaction().add(new TransactionInstruction({
+      programId,
+      keys: [
+        { pubkey: request.seller, isSigner: true, isWritable: true },
+        { pubkey: listing, isSigner: false, isWritable: true },
+        { pubkey: request.mint, isSigner: false, isWritable: false },
+        { pubkey: request.tokenAccount, isSigner: false, isWritable: true },
+        { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+      ],
+      data,
+    }));
+    return { transaction, listingAddress: listing.toBase58() };
+  }
+}
+
+export function createMarketplaceAdapter(mode: string = process.env.NFT_MARKETPLACE || 'magiceden'): MarketplaceAdapter {
+  return mode === 'stub' ? new StubMarketplaceAdapter() : new MagicEdenAdapter();
+}
+
+export function createListingAdapter(mode: string = process.env.NFT_MARKETPLACE || 'magiceden'): ListingAdapter {
+  return mode === 'stub' ? new StubListingAdapter() : new MagicEdenListingAdapter();
+}
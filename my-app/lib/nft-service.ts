@@ -0,0 +1,498 @@
+/**
+ * NFT Collection Service
+ * Resolves a verified Metaplex collection, enumerates its items, and derives
+ * supply and holder distribution from current ownership. Floor and volume
+ * come from a pluggable marketplace adapter.
+ *
+ * Items are enumerated through the DAS API (`getAssetsByGroup`) when the RPC
+ * provider supports it, otherwise through `getProgramAccounts` on the Token
+ * Metadata program, which is slower and capped.
+ */
+
+import { Connection, PublicKey } from '@solana/web3.js';
+import { SOLANA_CONFIG } from './solana-config';
+import { createMarketplaceAdapter } from './nft-marketplaces';
+import {
+  CollectionAnalytics,
+  CollectionIndexer,
+  CollectionItem,
+  CollectionItems,
+  HolderBucket,
+  HolderShare,
+  MarketplaceAdapter,
+  NftCollection,
+  NftError,
+} from './nft-types';
+
+export const TOKEN_METADATA_PROGRAM_ID = new PublicKey('metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s');
+const METADATA_UPDATE_AUTHORITY_OFFSET = 1;
+const DAS_PAGE_SIZE = 1000;
+const DEFAULT_MAX_ITEMS = 25000;
+const MAX_HOLDER_LOOKUPS = 1000; // getProgramAccounts path needs one RPC call per mint
+const HOLDER_LOOKUP_CONCURRENCY = 10;
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+const HOLDER_BUCKETS: Array<Pick<HolderBucket, 'label' | 'min' | 'max'>> = [
+  { label: '1', min: 1, max: 1 },
+  { label: '2-5', min: 2, max: 5 },
+  { label: '6-10', min: 6, max: 10 },
+  { label: '11-50', min: 11, max: 50 },
+  { label: '51+', min: 51, max: null },
+];
+
+// Well-known collections that can be looked up by name
+const KNOWN_COLLECTIONS: Array<NftCollection & { aliases: string[] }> = [
+  {
+    address: 'J1S9H3QjnRtBbbuD4HjPV6RpRhwuk4zKbxsnCHuTgh9w',
+    name: 'Mad Lads',
+    symbol: 'MAD',
+    marketplaceSymbol: 'mad_lads',
+    aliases: ['madlads'],
+  },
+  {
+    address: 'SMBtHCCC6RYRutFEPb4gZqeBLUZbMNhRKaMKZZLHi7W',
+    name: 'Solana Monkey Business',
+    symbol: 'SMB',
+    marketplaceSymbol: 'solana_monkey_business',
+    aliases: ['smb', 'smb gen2'],
+  },
+  {
+    address: '6mszaj17KSfVqADrQj3o4W3zoLMTykgmV37W4QadCczK',
+    name: 'Claynosaurz',
+    symbol: 'DINO',
+    marketplaceSymbol: 'claynosaurz',
+    aliases: [],
+  },
+  {
+    address: '5PA96eCFHJSFPY9SWFeRJUHrpoNF5XZL6RrE1JADXhxf',
+    name: 'Tensorians',
+    symbol: 'TNSRNS',
+    marketplaceSymbol: 'tensorians',
+    aliases: [],
+  },
+];
+
+// --- Indexers ---------------------------------------------------------------
+
+/**
+ * Digital Asset Standard API, served by most commercial RPC providers
+ */
+export class DasCollectionIndexer implements CollectionIndexer {
+  readonly name = 'DAS';
+  private rpcUrl: string;
+
+  constructor(rpcUrl: string = SOLANA_CONFIG.rpcUrl[SOLANA_CONFIG.network]) {
+    this.rpcUrl = rpcUrl;
+  }
+
+  async getCollection(address: string): Promise<NftCollection | null> {
+    let asset: any;
+    try {
+      asset = await this.call('getAsset', { id: address });
+    } catch (error) {
+      if (error instanceof NftError && error.code === 'NOT_FOUND') return null;
+      throw error;
+    }
+    if (!asset) return null;
+
+    return {
+      address,
+      name: asset.content?.metadata?.name || address,
+      symbol: asset.content?.metadata?.symbol || undefined,
+      image: asset.content?.links?.image || undefined,
+    };
+  }
+
+  async getCollectionItems(collection: NftCollection, options: { maxItems: number }): Promise<CollectionItems> {
+    const items: CollectionItem[] = [];
+    let page = 1;
+
+    while (items.length < options.maxItems) {
+      const result = await this.call('getAssetsByGroup', {
+        groupKey: 'collection',
+        groupValue: collection.address,
+        page,
+        limit: DAS_PAGE_SIZE,
+      });
+      const assets: any[] = Array.isArray(result?.items) ? result.items : [];
+      for (const asset of assets) {
+        items.push({ mint: asset.id, owner: asset.ownership?.owner || null, burnt: Boolean(asset.burnt) });
+      }
+      if (assets.length < DAS_PAGE_SIZE) {
+        return { items, truncated: false, source: this.name };
+      }
+      page++;
+    }
+
+    return { items: items.slice(0, options.maxItems), truncated: true, source: this.name };
+  }
+
+  private async call(method: string, params: Record<string, unknown>): Promise<any> {
+    let data: any;
+    try {
+      const response = await fetch(this.rpcUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 'nft-analytics', method, params }),
+      });
+      data = await response.json();
+    } catch (error: any) {
+      throw new NftError(`${method} request failed: ${error.message || error}`, 'INDEXER_ERROR');
+    }
+
+    if (data.error) {
+      const message = String(data.error.message || data.error);
+      if (data.error.code === -32601 || /method not found/i.test(message)) {
+        throw new NftError(`RPC provider does not support ${method}`, 'UNSUPPORTED');
+      }
+      if (/not found/i.test(message)) {
+        throw new NftError(message, 'NOT_FOUND');
+      }
+      throw new NftError(`${method} failed: ${message}`, 'INDEXER_ERROR');
+    }
+    return data.result;
+  }
+}
+
+interface DecodedMetadata {
+  updateAuthority: string;
+  mint: string;
+  name: string;
+  symbol: string;
+  collection: { verified: boolean; key: string } | null;
+  tokenStandard: number | null; // TokenStandard; null on accounts created before token standards
+  ruleSet: string | null; // Authorization rule set of a programmable NFT
+}
+
+/**
+ * Fallback for plain RPC nodes: finds metadata accounts sharing the
+ * collection's update authority, keeps those verified into the collection,
+ * and resolves each holder from the mint's largest token account
+ */
+export class ProgramAccountsCollectionIndexer implements CollectionIndexer {
+  readonly name = 'getProgramAccounts';
+  private connection: Connection;
+
+  constructor(connection?: Connection) {
+    this.connection = connection || new Connection(SOLANA_CONFIG.rpcUrl[SOLANA_CONFIG.network], SOLANA_CONFIG.commitment);
+  }
+
+  async getCollection(address: string): Promise<NftCollection | null> {
+    const metadata = await this.getMetadata(address);
+    return metadata ? { address, name: metadata.name || address, symbol: metadata.symbol || undefined } : null;
+  }
+
+  async getCollectionItems(collection: NftCollection, options: { maxItems: number }): Promise<CollectionItems> {
+    const collectionMetadata = await this.getMetadata(collection.address);
+    if (!collectionMetadata) {
+      throw new NftError(`No Metaplex metadata for collection ${collection.address}`, 'NOT_FOUND');
+    }
+
+    let accounts;
+    try {
+      accounts = await this.connection.getProgramAccounts(TOKEN_METADATA_PROGRAM_ID, {
+        filters: [{ memcmp: { offset: METADATA_UPDATE_AUTHORITY_OFFSET, bytes: collectionMetadata.updateAuthority } }],
+      });
+    } catch (error: any) {
+      throw new NftError(`getProgramAccounts failed: ${error.message || error}`, 'INDEXER_ERROR');
+    }
+
+    const mints: string[] = [];
+    for (const { account } of accounts) {
+      const metadata = decodeMetadata(account.data);
+      if (metadata?.collection?.verified && metadata.collection.key === collection.address) {
+        mints.push(metadata.mint);
+      }
+    }
+
+    const limit = Math.min(options.maxItems, MAX_HOLDER_LOOKUPS);
+    const items: CollectionItem[] = [];
+    for (let i = 0; i < Math.min(mints.length, limit); i += HOLDER_LOOKUP_CONCURRENCY) {
+      const batch = mints.slice(i, Math.min(i + HOLDER_LOOKUP_CONCURRENCY, limit));
+      items.push(...await this.resolveHolders(batch));
+    }
+
+    return { items, truncated: mints.length > limit, source: this.name };
+  }
+
+  private async resolveHolders(mints: string[]): Promise<CollectionItem[]> {
+    const holderAccounts = await Promise.all(mints.map(async mint => {
+      try {
+        const largest = await this.connection.getTokenLargestAccounts(new PublicKey(mint));
+        const holding = largest.value.find(account => account.amount !== '0');
+        return { mint, account: holding?.address || null, burnt: !holding };
+      } catch {
+        return { mint, account: null, burnt: false };
+      }
+    }));
+
+    const lookups = holderAccounts.filter(entry => entry.account !== null);
+    const infos = lookups.length > 0
+      ? await this.connection.getMultipleAccountsInfo(lookups.map(entry => entry.account!))
+      : [];
+    const owners = new Map<string, string>();
+    lookups.forEach((entry, index) => {
+      const info = infos[index];
+      // SPL token account layout: mint (32) then owner (32)
+      if (info && info.data.length >= 64) {
+        owners.set(entry.mint, new PublicKey(info.data.subarray(32, 64)).toBase58());
+      }
+    });
+
+    return holderAccounts.map(entry => ({ mint: entry.mint, owner: owners.get(entry.mint) || null, burnt: entry.burnt }));
+  }
+
+  private async getMetadata(mint: string): Promise<DecodedMetadata | null> {
+    const [metadataAddress] = PublicKey.findProgramAddressSync(
+      [Buffer.from('metadata'), TOKEN_METADATA_PROGRAM_ID.toBuffer(), new PublicKey(mint).toBuffer()],
+      TOKEN_METADATA_PROGRAM_ID
+    );
+    try {
+      const info = await this.connection.getAccountInfo(metadataAddress);
+      return info ? decodeMetadata(info.data) : null;
+    } catch (error: any) {
+      throw new NftError(`Failed to load metadata for ${mint}: ${error.message || error}`, 'INDEXER_ERROR');
+    }
+  }
+}
+
+/**
+ * Borsh-decode the fields of a Token Metadata account needed for indexing.
+ * Creators are variable length, so the collection field has no fixed offset.
+ */
+export function decodeMetadata(data: Buffer): DecodedMetadata | null {
+  try {
+    let offset = 1; // key
+    const readPubkey = () => {
+      const key = new PublicKey(data.subarray(offset, offset + 32)).toBase58();
+      offset += 32;
+      return key;
+    };
+    const readString = () => {
+      const length = data.readUInt32LE(offset);
+      const value = data.subarray(offset + 4, offset + 4 + length).toString('utf8').replace(/\0/g, '').trim();
+      offset += 4 + length;
+      return value;
+    };
+
+    const updateAuthority = readPubkey();
+    const mint = readPubkey();
+    const name = readString();
+    const symbol = readString();
+    readString(); // uri
+    offset += 2; // seller_fee_basis_points
+    if (data.readUInt8(offset++) === 1) {
+      const creators = data.readUInt32LE(offset);
+      offset += 4 + creators * 34; // address, verified, share
+    }
+    offset += 2; // primary_sale_happened, is_mutable
+    if (data.readUInt8(offset++) === 1) offset += 1; // edition_nonce
+    let tokenStandard: number | null = null;
+    if (data.readUInt8(offset++) === 1) tokenStandard = data.readUInt8(offset++);
+
+    let collection: DecodedMetadata['collection'] = null;
+    if (offset < data.length && data.readUInt8(offset++) === 1) {
+      const verified = data.readUInt8(offset++) === 1;
+      collection = { verified, key: readPubkey() };
+    }
+
+    // Trailing optional fields; older accounts end early or are zero-padded
+    let ruleSet: string | null = null;
+    try {
+      if (data.readUInt8(offset++) === 1) offset += 17; // uses: use_method, remaining, total
+      if (data.readUInt8(offset++) === 1) offset += 9; // collection_details: V1 size / V2 padding
+      if (data.readUInt8(offset++) === 1) { // programmable_config: V1 { rule_set }
+        offset += 1;
+        if (data.readUInt8(offset++) === 1) ruleSet = readPubkey();
+      }
+    } catch {
+      // Account predates these fields
+    }
+
+    return { updateAuthority, mint, name, symbol, collection, tokenStandard, ruleSet };
+  } catch {
+    return null;
+  }
+}
+
+// --- Service ----------------------------------------------------------------
+
+export class NftCollectionService {
+  private indexers: CollectionIndexer[];
+  private marketplace: MarketplaceAdapter;
+  private cache = new Map<string, { analytics: CollectionAnalytics; expiresAt: number }>();
+
+  constructor(
+    indexers: CollectionIndexer[] = [new DasCollectionIndexer(), new ProgramAccountsCollectionIndexer()],
+    marketplace: MarketplaceAdapter = createMarketplaceAdapter()
+  ) {
+    this.indexers = indexers;
+    this.marketplace = marketplace;
+  }
+
+  /**
+   * Resolve a collection mint address or a collection name
+   */
+  async resolveCollection(query: string): Promise<NftCollection> {
+    const trimmed = query.trim();
+    const normalized = trimmed.toLowerCase();
+    const known = KNOWN_COLLECTIONS.find(entry =>
+      entry.address === trimmed
+      || entry.name.toLowerCase() === normalized
+      || entry.symbol?.toLowerCase() === normalized
+      || entry.marketplaceSymbol === normalized
+      || entry.aliases.includes(normalized)
+    );
+    if (known) {
+      return {
+        address: known.address,
+        name: known.name,
+        symbol: known.symbol,
+        marketplaceSymbol: known.marketplaceSymbol,
+      };
+    }
+
+    if (isAddress(trimmed)) {
+      const collection = await this.withIndexer(indexer => indexer.getCollection(trimmed));
+      if (!collection) {
+        throw new NftError(`${trimmed} is not a known NFT collection`, 'NOT_FOUND');
+      }
+      return collection;
+    }
+
+    const found = this.marketplace.findCollection ? await this.marketplace.findCollection(trimmed) : null;
+    if (!found) {
+      const names = KNOWN_COLLECTIONS.map(entry => entry.name).join(', ');
+      throw new NftError(`Unknown collection "${trimmed}". Use the verified collection address, or one of: ${names}`, 'NOT_FOUND');
+    }
+    return found;
+  }
+
+  /**
+   * Supply, holder distribution and market data for a collection
+   */
+  async getCollectionAnalytics(
+    query: string,
+    options: { topHolders?: number; maxItems?: number } = {}
+  ): Promise<CollectionAnalytics> {
+    const { topHolders = 10, maxItems = DEFAULT_MAX_ITEMS } = options;
+    const collection = await this.resolveCollection(query);
+
+    const cached = this.cache.get(collection.address);
+    if (cached && cached.expiresAt > Date.now()) {
+      return { ...cached.analytics, topHolders: cached.analytics.topHolders.slice(0, topHolders) };
+    }
+
+    const warnings: string[] = [];
+    let marketFailed = false;
+    const [items, market] = await Promise.all([
+      this.withIndexer(indexer => indexer.getCollectionItems(collection, { maxItems })),
+      this.marketplace.getStats(collection).catch((error: any) => {
+        warnings.push(`${this.marketplace.name} unavailable: ${error.message || error}`);
+        marketFailed = true;
+        return null;
+      }),
+    ]);
+
+    if (items.items.length === 0) {
+      throw new NftError(`No items found in collection ${collection.address}`, 'NOT_FOUND');
+    }
+    if (items.truncated) {
+      warnings.push(`Only the first ${items.items.length} items were indexed via ${items.source}`);
+    }
+    if (!market && !marketFailed) {
+      warnings.push(`${this.marketplace.name} has no listing data for ${collection.name}`);
+    }
+
+    const analytics = analyzeHolders(collection, items, market, warnings);
+    this.cache.set(collection.address, { analytics, expiresAt: Date.now() + CACHE_TTL_MS });
+    return { ...analytics, topHolders: analytics.topHolders.slice(0, topHolders) };
+  }
+
+  /**
+   * Try indexers in order, moving on when a provider lacks the required API
+   */
+  private async withIndexer<T>(operation: (indexer: CollectionIndexer) => Promise<T>): Promise<T> {
+    let lastError: unknown;
+    for (const indexer of this.indexers) {
+      try {
+        return await operation(indexer);
+      } catch (error) {
+        if (error instanceof NftError && error.code === 'UNSUPPORTED') {
+          lastError = error;
+          continue;
+        }
+        throw error;
+      }
+    }
+    throw lastError || new NftError('No collection indexer is configured', 'UNSUPPORTED');
+  }
+}
+
+/**
+ * Aggregate per-owner counts into holder statistics
+ */
+export function analyzeHolders(
+  collection: NftCollection,
+  items: CollectionItems,
+  market: CollectionAnalytics['market'],
+  warnings: string[]
+): CollectionAnalytics {
+  const live = items.items.filter(item => !item.burnt);
+  const counts = new Map<string, number>();
+  let unresolved = 0;
+  for (const item of live) {
+    if (!item.owner) {
+      unresolved++;
+      continue;
+    }
+    counts.set(item.owner, (counts.get(item.owner) || 0) + 1);
+  }
+  if (unresolved > 0) {
+    warnings.push(`Holder could not be resolved for ${unresolved} items`);
+  }
+
+  const held = live.length - unresolved;
+  const ranked: HolderShare[] = Array.from(counts.entries())
+    .map(([owner, count]) => ({ owner, count, sharePct: held > 0 ? (count / held) * 100 : 0 }))
+    .sort((a, b) => b.count - a.count);
+
+  const distribution: HolderBucket[] = HOLDER_BUCKETS.map(bucket => {
+    const inBucket = ranked.filter(holder => holder.count >= bucket.min && (bucket.max === null || holder.count <= bucket.max));
+    return { ...bucket, holders: inBucket.length, items: inBucket.reduce((sum, holder) => sum + holder.count, 0) };
+  });
+
+  return {
+    collection,
+    supply: live.length,
+    burnt: items.items.length - live.length,
+    uniqueHolders: ranked.length,
+    holderRatio: held > 0 ? ranked.length / held : 0,
+    top10SharePct: ranked.slice(0, 10).reduce((sum, holder) => sum + holder.sharePct, 0),
+    topHolders: ranked,
+    distribution,
+    market,
+    indexer: items.source,
+    truncated: items.truncated,
+    warnings,
+    generatedAt: new Date().toISOString(),
+  };
+}
+
+function isAddress(value: string): boolean {
+  // Short words are valid base58 too, so require a full-length key
+  if (!/^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(value)) return false;
+  try {
+    new PublicKey(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function createNftCollectionService(): NftCollectionService {
+  return new NftCollectionService();
+}
+
+// Export singleton instance
+export const nftCollectionService = createNftCollectionService();
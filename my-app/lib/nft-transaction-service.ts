@@ -0,0 +1,510 @@
+/**
+ * NFT Transaction Service
+ * Builds mint, transfer and listing transactions for the NFT Blink.
+ *
+ * Standard and programmable NFTs are minted with Token Metadata `CreateV1` +
+ * `MintV1` into a freshly generated mint, which the service partially signs
+ * so only the owner's signature is missing. Compressed NFTs are appended to a
+ * Bubblegum merkle tree instead and have no mint account. Transfers use a
+ * plain SPL transfer into the recipient's associated token account, except
+ * for programmable NFTs, which must move through `TransferV1` so their token
+ * records and rule sets are honored. Listings go through a marketplace
+ * listing adapter.
+ */
+
+import { createHash } from 'crypto';
+import {
+  ComputeBudgetProgram,
+  Connection,
+  Keypair,
+  LAMPORTS_PER_SOL,
+  PublicKey,
+  SystemProgram,
+  SYSVAR_INSTRUCTIONS_PUBKEY,
+  Transaction,
+  TransactionInstruction,
+} from '@solana/web3.js';
+import {
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  createAssociatedTokenAccountIdempotentInstruction,
+  createTransferCheckedInstruction,
+  getAssociatedTokenAddressSync,
+} from '@solana/spl-token';
+import { SOLANA_CONFIG } from './solana-config';
+import { createListingAdapter } from './nft-marketplaces';
+import { decodeMetadata, TOKEN_METADATA_PROGRAM_ID } from './nft-service';
+import { addReferences } from './solana-pay-service';
+import {
+  ListingAdapter,
+  NftError,
+  NftMintRequest,
+  NftTransactionPlan,
+  TokenStandard,
+} from './nft-types';
+
+const BUBBLEGUM_PROGRAM_ID = new PublicKey('BGUMAp9Gq7iTEuizy4pqaxsTyUCBK68MDfK752saRPUY');
+const SPL_NOOP_PROGRAM_ID = new PublicKey('noopb9bkMVfRPU8AsbpTUg8AQkHtKwMYZiFUjNRtMmV');
+const SPL_ACCOUNT_COMPRESSION_PROGRAM_ID = new PublicKey('cmtDvXumGCrqC1Age74AVPhSRVXJMd8PJS91L8KbNCK');
+const TOKEN_AUTH_RULES_PROGRAM_ID = new PublicKey('auth9SigNpDKz4sJJ1DfCTuZrZNSAgh9sFD3rboVmgg');
+
+const CREATE_V1_INSTRUCTION = 42;
+const MINT_V1_INSTRUCTION = 43;
+const TRANSFER_V1_INSTRUCTION = 49;
+const BUBBLEGUM_MINT_V1_DISCRIMINATOR = createHash('sha256').update('global:mint_v1').digest().subarray(0, 8);
+
+const MAX_NAME_LENGTH = 32;
+const MAX_SYMBOL_LENGTH = 10;
+const MAX_URI_LENGTH = 200;
+const PROGRAMMABLE_COMPUTE_UNITS = 400000; // Token record and rule-set checks exceed the 200k default
+
+export class NftTransactionService {
+  private connection: Connection;
+  private listingAdapter: ListingAdapter;
+
+  constructor(connection?: Connection, listingAdapter: ListingAdapter = createListingAdapter()) {
+    this.connection = connection || new Connection(
+      SOLANA_CONFIG.rpcUrl[SOLANA_CONFIG.network],
+      SOLANA_CONFIG.commitment
+    );
+    this.listingAdapter = listingAdapter;
+  }
+
+  /**
+   * Build a mint of a single NFT to the owner. `references` (Solana Pay
+   * reference keys) are added before the new mint signs.
+   */
+  async buildMint(owner: string, request: NftMintRequest, options: { references?: PublicKey[] } = {}): Promise<NftTransactionPlan> {
+    const ownerKey = toPublicKey(owner, 'owner');
+    validateMetadata(request);
+    const references = options.references || [];
+
+    if (request.compressed) {
+      return this.buildCompressedMint(ownerKey, request, references);
+    }
+
+    const mint = Keypair.generate();
+    const tokenStandard = request.programmable ? TokenStandard.ProgrammableNonFungible : TokenStandard.NonFungible;
+    const metadata = findMetadataAddress(mint.publicKey);
+    const masterEdition = findMasterEditionAddress(mint.publicKey);
+    const tokenAccount = getAssociatedTokenAddressSync(mint.publicKey, ownerKey);
+
+    const transaction = new Transaction();
+    if (request.programmable) {
+      transaction.add(ComputeBudgetProgram.setComputeUnitLimit({ units: PROGRAMMABLE_COMPUTE_UNITS }));
+    }
+    transaction.add(
+      new TransactionInstruction({
+        programId: TOKEN_METADATA_PROGRAM_ID,
+        keys: [
+          { pubkey: metadata, isSigner: false, isWritable: true },
+          { pubkey: masterEdition, isSigner: false, isWritable: true },
+          { pubkey: mint.publicKey, isSigner: true, isWritable: true },
+          { pubkey: ownerKey, isSigner: true, isWritable: false }, // authority
+          { pubkey: ownerKey, isSigner: true, isWritable: true }, // payer
+          { pubkey: ownerKey, isSigner: true, isWritable: false }, // update authority
+          { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+          { pubkey: SYSVAR_INSTRUCTIONS_PUBKEY, isSigner: false, isWritable: false },
+          { pubkey: TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },
+        ],
+        data: encodeCreateV1(request, ownerKey, tokenStandard),
+      }),
+      new TransactionInstruction({
+        programId: TOKEN_METADATA_PROGRAM_ID,
+        keys: [
+          { pubkey: tokenAccount, isSigner: false, isWritable: true },
+          { pubkey: ownerKey, isSigner: false, isWritable: false }, // token owner
+          { pubkey: metadata, isSigner: false, isWritable: false },
+          { pubkey: masterEdition, isSigner: false, isWritable: false },
+          request.programmable
+            ? { pubkey: findTokenRecordAddress(mint.publicKey, tokenAccount), isSigner: false, isWritable: true }
+            : absent(),
+          { pubkey: mint.publicKey, isSigner: false, isWritable: true },
+          { pubkey: ownerKey, isSigner: true, isWritable: false }, // authority
+          absent(), // delegate record
+          { pubkey: ownerKey, isSigner: true, isWritable: true }, // payer
+          { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+          { pubkey: SYSVAR_INSTRUCTIONS_PUBKEY, isSigner: false, isWritable: false },
+          { pubkey: TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },
+          { pubkey: ASSOCIATED_TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },
+          absent(), // authorization rules program
+          absent(), // authorization rules
+        ],
+        data: encodeAmountArgs(MINT_V1_INSTRUCTION),
+      })
+    );
+
+    addReferences(transaction, references);
+    const lastValidBlockHeight = await this.prepare(transaction, ownerKey);
+    transaction.partialSign(mint);
+
+    return {
+      action: 'mint',
+      owner: ownerKey.toBase58(),
+      mint: mint.publicKey.toBase58(),
+      tokenStandard,
+      compressed: false,
+      warnings: request.programmable
+        ? ['Programmable NFTs can only be moved by wallets and marketplaces that support Token Metadata transfers']
+        : [],
+      transaction,
+      lastValidBlockHeight,
+    };
+  }
+
+  /**
+   * Build a transfer of an NFT the owner holds to a recipient's wallet
+   */
+  async buildTransfer(owner: string, mint: string, recipient: string): Promise<NftTransactionPlan> {
+    const ownerKey = toPublicKey(owner, 'owner');
+    const mintKey = toPublicKey(mint, 'mint');
+    const recipientKey = toPublicKey(recipient, 'recipient');
+    if (ownerKey.equals(recipientKey)) {
+      throw new NftError('Recipient already holds this NFT', 'INVALID_ADDRESS');
+    }
+
+    const holding = await this.findHolding(ownerKey, mintKey);
+    const destination = getAssociatedTokenAddressSync(mintKey, recipientKey, true, holding.tokenProgram);
+    const programmable = holding.tokenStandard === TokenStandard.ProgrammableNonFungible ||
+      holding.tokenStandard === TokenStandard.ProgrammableNonFungibleEdition;
+
+    const transaction = new Transaction();
+    if (programmable) {
+      const ruleSet = holding.ruleSet ? new PublicKey(holding.ruleSet) : null;
+      transaction.add(
+        ComputeBudgetProgram.setComputeUnitLimit({ units: PROGRAMMABLE_COMPUTE_UNITS }),
+        new TransactionInstruction({
+          programId: TOKEN_METADATA_PROGRAM_ID,
+          keys: [
+            { pubkey: holding.tokenAccount, isSigner: false, isWritable: true },
+            { pubkey: ownerKey, isSigner: false, isWritable: false }, // token owner
+            { pubkey: destination, isSigner: false, isWritable: true },
+            { pubkey: recipientKey, isSigner: false, isWritable: false },
+            { pubkey: mintKey, isSigner: false, isWritable: false },
+            { pubkey: findMetadataAddress(mintKey), isSigner: false, isWritable: true },
+            { pubkey: findMasterEditionAddress(mintKey), isSigner: false, isWritable: false },
+            { pubkey: findTokenRecordAddress(mintKey, holding.tokenAccount), isSigner: false, isWritable: true },
+            { pubkey: findTokenRecordAddress(mintKey, destination), isSigner: false, isWritable: true },
+            { pubkey: ownerKey, isSigner: true, isWritable: false }, // authority
+            { pubkey: ownerKey, isSigner: true, isWritable: true }, // payer
+            { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+            { pubkey: SYSVAR_INSTRUCTIONS_PUBKEY, isSigner: false, isWritable: false },
+            { pubkey: holding.tokenProgram, isSigner: false, isWritable: false },
+            { pubkey: ASSOCIATED_TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },
+            ruleSet ? { pubkey: TOKEN_AUTH_RULES_PROGRAM_ID, isSigner: false, isWritable: false } : absent(),
+            ruleSet ? { pubkey: ruleSet, isSigner: false, isWritable: false } : absent(),
+          ],
+          data: encodeAmountArgs(TRANSFER_V1_INSTRUCTION),
+        })
+      );
+    } else {
+      transaction.add(
+        createAssociatedTokenAccountIdempotentInstruction(ownerKey, destination, recipientKey, mintKey, holding.tokenProgram),
+        createTransferCheckedInstruction(holding.tokenAccount, mintKey, destination, ownerKey, 1, 0, [], holding.tokenProgram)
+      );
+    }
+
+    const lastValidBlockHeight = await this.prepare(transaction, ownerKey);
+    return {
+      action: 'transfer',
+      owner: ownerKey.toBase58(),
+      mint: mintKey.toBase58(),
+      recipient: recipientKey.toBase58(),
+      tokenStandard: holding.tokenStandard ?? undefined,
+      warnings: holding.metadataFound ? [] : ['No Metaplex metadata found; transferring as a plain token'],
+      transaction,
+      lastValidBlockHeight,
+    };
+  }
+
+  /**
+   * Build a listing of an NFT the owner holds through the listing adapter
+   */
+  async buildListing(owner: string, mint: string, priceSol: number): Promise<NftTransactionPlan> {
+    const ownerKey = toPublicKey(owner, 'owner');
+    const mintKey = toPublicKey(mint, 'mint');
+    if (!Number.isFinite(priceSol) || priceSol <= 0) {
+      throw new NftError('Listing price must be a positive amount of SOL', 'INVALID_METADATA');
+    }
+
+    const holding = await this.findHolding(ownerKey, mintKey);
+    const listing = await this.listingAdapter.buildListing({
+      seller: ownerKey,
+      mint: mintKey,
+      tokenAccount: holding.tokenAccount,
+      priceLamports: BigInt(Math.round(priceSol * LAMPORTS_PER_SOL)),
+    });
+
+    // Marketplace APIs return transactions with their own blockhash
+    let lastValidBlockHeight: number | undefined;
+    if (listing.transaction instanceof Transaction && !listing.transaction.recentBlockhash) {
+      lastValidBlockHeight = await this.prepare(listing.transaction, ownerKey);
+    }
+
+    return {
+      action: 'list',
+      owner: ownerKey.toBase58(),
+      mint: mintKey.toBase58(),
+      tokenStandard: holding.tokenStandard ?? undefined,
+      priceSol,
+      marketplace: this.listingAdapter.name,
+      listingAddress: listing.listingAddress,
+      warnings: [],
+      transaction: listing.transaction,
+      lastValidBlockHeight,
+    };
+  }
+
+  private async buildCompressedMint(ownerKey: PublicKey, request: NftMintRequest, references: PublicKey[]): Promise<NftTransactionPlan> {
+    const tree = request.merkleTree || process.env.NFT_MERKLE_TREE;
+    if (!tree) {
+      throw new NftError('Compressed mints need a merkle tree: pass one or set NFT_MERKLE_TREE', 'UNSUPPORTED');
+    }
+    const treeKey = toPublicKey(tree, 'merkle tree');
+    const [treeConfig] = PublicKey.findProgramAddressSync([treeKey.toBuffer()], BUBBLEGUM_PROGRAM_ID);
+
+    let info;
+    try {
+      info = await this.connection.getAccountInfo(treeConfig);
+    } catch (error: any) {
+      throw new NftError(`Failed to load tree config: ${error.message || error}`, 'RPC_ERROR');
+    }
+    if (!info || !info.owner.equals(BUBBLEGUM_PROGRAM_ID)) {
+      throw new NftError(`${treeKey.toBase58()} is not a Bubblegum merkle tree`, 'NOT_FOUND');
+    }
+
+    // TreeConfig: discriminator, tree_creator, tree_delegate, total_mint_capacity, num_minted, is_public
+    const creator = new PublicKey(info.data.subarray(8, 40));
+    const delegate = new PublicKey(info.data.subarray(40, 72));
+    const capacity = info.data.readBigUInt64LE(72);
+    const minted = info.data.readBigUInt64LE(80);
+    const isPublic = info.data.readUInt8(88) === 1;
+    if (minted >= capacity) {
+      throw new NftError(`Merkle tree ${treeKey.toBase58()} is full`, 'UNSUPPORTED');
+    }
+    if (!isPublic && !ownerKey.equals(creator) && !ownerKey.equals(delegate)) {
+      throw new NftError(`Merkle tree ${treeKey.toBase58()} only accepts mints from its creator or delegate`, 'NOT_OWNER');
+    }
+
+    const transaction = new Transaction().add(new TransactionInstruction({
+      programId: BUBBLEGUM_PROGRAM_ID,
+      keys: [
+        { pubkey: treeConfig, isSigner: false, isWritable: true },
+        { pubkey: ownerKey, isSigner: false, isWritable: false }, // leaf owner
+        { pubkey: ownerKey, isSigner: false, isWritable: false }, // leaf delegate
+        { pubkey: treeKey, isSigner: false, isWritable: true },
+        { pubkey: ownerKey, isSigner: true, isWritable: true }, // payer
+        { pubkey: ownerKey, isSigner: true, isWritable: false }, // tree creator or delegate
+        { pubkey: SPL_NOOP_PROGRAM_ID, isSigner: false, isWritable: false },
+        { pubkey: SPL_ACCOUNT_COMPRESSION_PROGRAM_ID, isSigner: false, isWritable: false },
+        { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+      ],
+      data: encodeBubblegumMintV1(request, ownerKey),
+    }));
+
+    addReferences(transaction, references);
+    const lastValidBlockHeight = await this.prepare(transaction, ownerKey);
+    return {
+      action: 'mint',
+      owner: ownerKey.toBase58(),
+      tokenStandard: TokenStandard.NonFungible,
+      compressed: true,
+      merkleTree: treeKey.toBase58(),
+      warnings: ['The creator is unverified until verified with Bubblegum verify_creator'],
+      transaction,
+      lastValidBlockHeight,
+    };
+  }
+
+  /**
+   * Find the owner's token account holding the NFT, plus its metadata
+   */
+  private async findHolding(ownerKey: PublicKey, mintKey: PublicKey): Promise<{
+    tokenAccount: PublicKey;
+    tokenProgram: PublicKey;
+    tokenStandard: TokenStandard | null;
+    ruleSet: string | null;
+    metadataFound: boolean;
+  }> {
+    let accounts;
+    let metadataInfo;
+    try {
+      [accounts, metadataInfo] = await Promise.all([
+        this.connection.getParsedTokenAccountsByOwner(ownerKey, { mint: mintKey }),
+        this.connection.getAccountInfo(findMetadataAddress(mintKey)),
+      ]);
+    } catch (error: any) {
+      throw new NftError(`Failed to load NFT ${mintKey.toBase58()}: ${error.message || error}`, 'RPC_ERROR');
+    }
+
+    const holding = accounts.value.find(account => {
+      const amount = account.account.data.parsed?.info?.tokenAmount;
+      return amount && amount.decimals === 0 && amount.amount === '1';
+    });
+    if (!holding) {
+      const fungible = accounts.value.some(account => account.account.data.parsed?.info?.tokenAmount?.decimals > 0);
+      throw fungible
+        ? new NftError(`${mintKey.toBase58()} is a fungible token, not an NFT`, 'UNSUPPORTED')
+        : new NftError(`${ownerKey.toBase58()} does not hold NFT ${mintKey.toBase58()} (compressed NFTs are not supported)`, 'NOT_OWNER');
+    }
+
+    const metadata = metadataInfo ? decodeMetadata(metadataInfo.data) : null;
+    return {
+      tokenAccount: holding.pubkey,
+      tokenProgram: holding.account.owner,
+      tokenStandard: metadata?.tokenStandard ?? null,
+      ruleSet: metadata?.ruleSet ?? null,
+      metadataFound: Boolean(metadata),
+    };
+  }
+
+  private async prepare(transaction: Transaction, feePayer: PublicKey): Promise<number> {
+    try {
+      const { blockhash, lastValidBlockHeight } = await this.connection.getLatestBlockhash();
+      transaction.recentBlockhash = blockhash;
+      transaction.feePayer = feePayer;
+      return lastValidBlockHeight;
+    } catch (error: any) {
+      throw new NftError(`Failed to fetch a recent blockhash: ${error.message || error}`, 'RPC_ERROR');
+    }
+  }
+}
+
+// --- Instruction encoding ----------------------------------------------------
+
+function findMetadataAddress(mint: PublicKey): PublicKey {
+  return PublicKey.findProgramAddressSync(
+    [Buffer.from('metadata'), TOKEN_METADATA_PROGRAM_ID.toBuffer(), mint.toBuffer()],
+    TOKEN_METADATA_PROGRAM_ID
+  )[0];
+}
+
+function findMasterEditionAddress(mint: PublicKey): PublicKey {
+  return PublicKey.findProgramAddressSync(
+    [Buffer.from('metadata'), TOKEN_METADATA_PROGRAM_ID.toBuffer(), mint.toBuffer(), Buffer.from('edition')],
+    TOKEN_METADATA_PROGRAM_ID
+  )[0];
+}
+
+function findTokenRecordAddress(mint: PublicKey, tokenAccount: PublicKey): PublicKey {
+  return PublicKey.findProgramAddressSync(
+    [Buffer.from('metadata'), TOKEN_METADATA_PROGRAM_ID.toBuffer(), mint.toBuffer(), Buffer.from('token_record'), tokenAccount.toBuffer()],
+    TOKEN_METADATA_PROGRAM_ID
+  )[0];
+}
+
+// Token Metadata marks omitted optional accounts with its own program id
+function absent() {
+  return { pubkey: TOKEN_METADATA_PROGRAM_ID, isSigner: false, isWritable: false };
+}
+
+/**
+ * CreateV1: CreateArgs::V1 { asset_data, decimals: Some(0), print_supply: Some(Zero) },
+ * with the owner as the single verified creator
+ */
+function encodeCreateV1(request: NftMintRequest, creator: PublicKey, tokenStandard: TokenStandard): Buffer {
+  return Buffer.concat([
+    Buffer.from([CREATE_V1_INSTRUCTION, 0]),
+    encodeString(request.name),
+    encodeString(request.symbol),
+    encodeString(request.uri),
+    encodeU16(request.sellerFeeBasisPoints || 0),
+    Buffer.from([1]), encodeU32(1), creator.toBuffer(), Buffer.from([1, 100]), // creators: Some([{ creator, verified, 100% }])
+    Buffer.from([0, 1]), // primary_sale_happened, is_mutable
+    Buffer.from([tokenStandard]),
+    Buffer.from([0, 0, 0, 0]), // collection, uses, collection_details, rule_set: None
+    Buffer.from([1, 0]), // decimals: Some(0)
+    Buffer.from([1, 0]), // print_supply: Some(Zero)
+  ]);
+}
+
+// MintV1 / TransferV1: Args::V1 { amount: 1, authorization_data: None }
+function encodeAmountArgs(instruction: number): Buffer {
+  return Buffer.concat([Buffer.from([instruction, 0]), encodeU64(BigInt(1)), Buffer.from([0])]);
+}
+
+/**
+ * Bubblegum mint_v1 MetadataArgs, with the owner as the single unverified creator
+ */
+function encodeBubblegumMintV1(request: NftMintRequest, creator: PublicKey): Buffer {
+  return Buffer.concat([
+    BUBBLEGUM_MINT_V1_DISCRIMINATOR,
+    encodeString(request.name),
+    encodeString(request.symbol),
+    encodeString(request.uri),
+    encodeU16(request.sellerFeeBasisPoints || 0),
+    Buffer.from([0, 1]), // primary_sale_happened, is_mutable
+    Buffer.from([0]), // edition_nonce: None
+    Buffer.from([1, TokenStandard.NonFungible]), // token_standard: Some(NonFungible)
+    Buffer.from([0, 0]), // collection, uses: None
+    Buffer.from([0]), // token_program_version: Original
+    encodeU32(1), creator.toBuffer(), Buffer.from([0, 100]), // creators: [{ creator, unverified, 100% }]
+  ]);
+}
+
+function encodeString(value: string): Buffer {
+  const bytes = Buffer.from(value, 'utf8');
+  return Buffer.concat([encodeU32(bytes.length), bytes]);
+}
+
+function encodeU16(value: number): Buffer {
+  const buffer = Buffer.alloc(2);
+  buffer.writeUInt16LE(value);
+  return buffer;
+}
+
+function encodeU32(value: number): Buffer {
+  const buffer = Buffer.alloc(4);
+  buffer.writeUInt32LE(value);
+  return buffer;
+}
+
+function encodeU64(value: bigint): Buffer {
+  const buffer = Buffer.alloc(8);
+  buffer.writeBigUInt64LE(value);
+  return buffer;
+}
+
+function validateMetadata(request: NftMintRequest): void {
+  const limits: Array<[string, string, number]> = [
+    ['Name', request.name, MAX_NAME_LENGTH],
+    ['Symbol', request.symbol, MAX_SYMBOL_LENGTH],
+    ['URI', request.uri, MAX_URI_LENGTH],
+  ];
+  for (const [label, value, max] of limits) {
+    if (!value || !value.trim()) {
+      throw new NftError(`${label} is required`, 'INVALID_METADATA');
+    }
+    if (Buffer.byteLength(value, 'utf8') > max) {
+      throw new NftError(`${label} must be at most ${max} bytes`, 'INVALID_METADATA');
+    }
+  }
+  try {
+    new URL(request.uri);
+  } catch {
+    throw new NftError(`Metadata URI is not a valid URL: ${request.uri}`, 'INVALID_METADATA');
+  }
+
+  const royalty = request.sellerFeeBasisPoints ?? 0;
+  if (!Number.isInteger(royalty) || royalty < 0 || royalty > 10000) {
+    throw new NftError('Royalty must be between 0 and 10000 basis points', 'INVALID_METADATA');
+  }
+  if (request.compressed && request.programmable) {
+    throw new NftError('Compressed NFTs cannot be programmable', 'UNSUPPORTED');
+  }
+}
+
+function toPublicKey(value: string, label: string): PublicKey {
+  try {
+    return new PublicKey(value);
+  } catch {
+    throw new NftError(`Invalid ${label} address: ${value}`, 'INVALID_ADDRESS');
+  }
+}
+
+export function createNftTransactionService(connection?: Connection): NftTransactionService {
+  return new NftTransactionService(connection);
+}
+
+// Export singleton instance
+export const nftTransactionService = createNftTransactionService();
@@ -0,0 +1,170 @@
+/**
+ * NFT Type Definitions
+ * Shared between the collection indexers, marketplace and listing adapters,
+ * the NFT collection and transaction services, the NFT Blink and the
+ * `nft-analyzer` tool
+ */
+
+import type { PublicKey, Transaction, VersionedTransaction } from '@solana/web3.js';
+
+export interface NftCollection {
+  address: string; // Verified Metaplex collection mint
+  name: string;
+  symbol?: string;
+  image?: string;
+  marketplaceSymbol?: string; // Slug used by marketplace APIs, e.g. "mad_lads"
+}
+
+export interface CollectionItem {
+  mint: string;
+  owner: string | null; // null when the current holder could not be resolved
+  burnt: boolean;
+}
+
+export interface CollectionItems {
+  items: CollectionItem[];
+  truncated: boolean; // More items exist than were enumerated
+  source: string; // Indexer that produced the items
+}
+
+export interface HolderShare {
+  owner: string;
+  count: number;
+  sharePct: number;
+}
+
+export interface HolderBucket {
+  label: string; // e.g. "2-5"
+  min: number;
+  max: number | null;
+  holders: number;
+  items: number;
+}
+
+export interface MarketplaceStats {
+  source: string;
+  floorPriceSol: number | null;
+  listedCount: number | null;
+  volume24hSol: number | null;
+  volumeAllSol: number | null;
+  fetchedAt: string;
+}
+
+export interface CollectionAnalytics {
+  collection: NftCollection;
+  supply: number; // Items that are not burnt
+  burnt: number;
+  uniqueHolders: number;
+  holderRatio: number; // Unique holders per item, 1 means every item has its own holder
+  top10SharePct: number;
+  topHolders: HolderShare[];
+  distribution: HolderBucket[];
+  market: MarketplaceStats | null;
+  indexer: string;
+  truncated: boolean;
+  warnings: string[];
+  generatedAt: string;
+}
+
+/**
+ * Enumerates collection items. The DAS indexer uses `getAssetsByGroup`; the
+ * fallback indexer works on any RPC through `getProgramAccounts`.
+ */
+export interface CollectionIndexer {
+  readonly name: string;
+  getCollection(address: string): Promise<NftCollection | null>;
+  getCollectionItems(collection: NftCollection, options: { maxItems: number }): Promise<CollectionItems>;
+}
+
+/**
+ * Floor, listing and volume data from a marketplace. Implementations return
+ * null when the marketplace does not list the collection.
+ */
+export interface MarketplaceAdapter {
+  readonly id: string;
+  readonly name: string;
+  getStats(collection: NftCollection): Promise<MarketplaceStats | null>;
+  findCollection?(name: string): Promise<NftCollection | null>;
+}
+
+// --- Transactions -----------------------------------------------------------
+
+export type NftAction = 'mint' | 'transfer' | 'list';
+
+// Metaplex Token Metadata token standards, by on-chain enum value
+export enum TokenStandard {
+  NonFungible = 0,
+  FungibleAsset = 1,
+  Fungible = 2,
+  NonFungibleEdition = 3,
+  ProgrammableNonFungible = 4,
+  ProgrammableNonFungibleEdition = 5,
+}
+
+export interface NftMintRequest {
+  name: string; // Up to 32 bytes
+  symbol: string; // Up to 10 bytes
+  uri: string; // Off-chain JSON metadata, up to 200 bytes
+  sellerFeeBasisPoints?: number; // Royalty, defaults to 0
+  programmable?: boolean; // Mint a programmable NFT (pNFT) instead of a standard one
+  compressed?: boolean; // Mint a compressed NFT into a Bubblegum merkle tree
+  merkleTree?: string; // Tree for compressed mints; defaults to NFT_MERKLE_TREE
+}
+
+export interface NftListingRequest {
+  seller: PublicKey;
+  mint: PublicKey;
+  tokenAccount: PublicKey; // Seller's account holding the NFT
+  priceLamports: bigint;
+}
+
+export interface NftListing {
+  transaction: Transaction | VersionedTransaction;
+  listingAddress?: string;
+}
+
+export interface NftTransactionPlan {
+  action: NftAction;
+  owner: string;
+  mint?: string; // Absent for compressed mints, whose asset id is only known after the leaf is appended
+  recipient?: string;
+  tokenStandard?: TokenStandard;
+  compressed?: boolean;
+  merkleTree?: string;
+  priceSol?: number;
+  marketplace?: string;
+  listingAddress?: string;
+  warnings: string[];
+  transaction: Transaction | VersionedTransaction;
+  lastValidBlockHeight?: number; // Unknown for marketplace-built listing transactions
+}
+
+/**
+ * Builds listing transactions for a marketplace. The Magic Eden adapter asks
+ * the marketplace API; the stub adapter targets a local program so listings
+ * can be exercised on a test validator.
+ */
+export interface ListingAdapter {
+  readonly id: string;
+  readonly name: string;
+  buildListing(request: NftListingRequest): Promise<NftListing>;
+}
+
+export class NftError extends Error {
+  constructor(
+    message: string,
+    public code:
+      | 'NOT_FOUND'
+      | 'INVALID_COLLECTION'
+      | 'INDEXER_ERROR'
+      | 'UNSUPPORTED'
+      | 'MARKETPLACE_ERROR'
+      | 'INVALID_ADDRESS'
+      | 'INVALID_METADATA'
+      | 'NOT_OWNER'
+      | 'RPC_ERROR'
+  ) {
+    super(message);
+    this.name = 'NftError';
+  }
+}
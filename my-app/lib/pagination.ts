@@ -0,0 +1,41 @@
+/**
+ * Pagination
+ * Reads `limit` and `offset` query parameters for list endpoints
+ */
+
+export const MAX_PAGE_SIZE = 200;
+
+export interface Pagination {
+  limit: number;
+  offset: number;
+}
+
+export class PaginationError extends Error {
+  constructor(message: string, public code: 'INVALID_LIMIT' | 'INVALID_OFFSET') {
+    super(message);
+    this.name = 'PaginationError';
+  }
+}
+
+/**
+ * Parse `limit` and `offset`, clamping the limit to MAX_PAGE_SIZE. Anything
+ * that is not a whole number throws rather than silently yielding an empty page.
+ */
+export function parsePagination(params: URLSearchParams, defaultLimit = 50): Pagination {
+  const limit = parseCount(params.get('limit'), defaultLimit);
+  if (limit === null || limit < 1) {
+    throw new PaginationError('limit must be a positive integer', 'INVALID_LIMIT');
+  }
+  const offset = parseCount(params.get('offset'), 0);
+  if (offset === null) {
+    throw new PaginationError('offset must be a non-negative integer', 'INVALID_OFFSET');
+  }
+  return { limit: Math.min(limit, MAX_PAGE_SIZE), offset };
+}
+
+function parseCount(value: string | null, fallback: number): number | null {
+  if (value === null || value === '') return fallback;
+  if (!/^\d+$/.test(value)) return null;
+  const count = Number(value);
+  return Number.isSafeInteger(count) ? count : null;
+}
@@ -0,0 +1,516 @@
+/**
+ * Wallet PnL Service
+ * Backfills a wallet's transaction history, classifies each transaction as a
+ * transfer or swap, replays it through a FIFO cost-basis engine and combines
+ * the result with the current portfolio into realized/unrealized PnL. Each
+ * valuation is also stored as a snapshot so value can be charted over time.
+ */
+
+import {
+  Connection,
+  PublicKey,
+  type ConfirmedSignatureInfo,
+  type ParsedTransactionWithMeta,
+} from '@solana/web3.js';
+import { SOLANA_CONFIG } from './solana-config';
+import { jupiterTokenService } from './jupiter-token-service';
+import { NATIVE_SOL_MINT, portfolioService, type Portfolio } from './portfolio-service';
+import { snapshotStore } from './portfolio-snapshot-store';
+import {
+  HistoricalPriceSource,
+  PnlError,
+  PnlSeriesPoint,
+  PortfolioSnapshot,
+  SnapshotRepository,
+  TaxLot,
+  TokenMovement,
+  TokenPnl,
+  WalletActivity,
+  WalletActivityKind,
+  WalletPnlOptions,
+  WalletPnlReport,
+} from './pnl-types';
+
+const DEFAULT_MAX_TRANSACTIONS = 200;
+const MAX_SIGNATURES_PER_REQUEST = 1000;
+const TRANSACTION_BATCH_SIZE = 25;
+const MAX_TOKEN_ACCOUNTS_SCANNED = 20;
+const SNAPSHOT_INTERVAL = 60 * 60 * 1000; // At most one stored snapshot per hour
+const DUST = 1e-9;
+const SOL_DECIMALS = 9;
+
+// Stablecoins are valued at $1 when no historical price is available
+const STABLECOIN_MINTS = new Set([
+  'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', // USDC
+  'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB', // USDT
+]);
+
+/**
+ * Daily USD prices from CoinGecko, fetched once per mint for the past year
+ */
+export class CoinGeckoPriceSource implements HistoricalPriceSource {
+  private series = new Map<string, Promise<Array<[number, number]>>>();
+
+  async getPriceAt(mint: string, timestamp: string): Promise<number | null> {
+    if (!this.series.has(mint)) {
+      this.series.set(mint, this.fetchSeries(mint));
+    }
+    const points = await this.series.get(mint)!;
+    const target = new Date(timestamp).getTime();
+
+    if (points.length === 0) {
+      return STABLECOIN_MINTS.has(mint) ? 1 : null;
+    }
+    // Points are daily; anything outside the covered window has no price
+    if (target < points[0][0] - 86400000) return null;
+
+    let closest = points[0];
+    for (const point of points) {
+      if (Math.abs(point[0] - target) < Math.abs(closest[0] - target)) closest = point;
+    }
+    return closest[1];
+  }
+
+  private async fetchSeries(mint: string): Promise<Array<[number, number]>> {
+    const apiKey = SOLANA_CONFIG.coingeckoApiKey;
+    const base = apiKey ? 'https://pro-api.coingecko.com/api/v3' : 'https://api.coingecko.com/api/v3';
+    const coinPath = mint === NATIVE_SOL_MINT ? 'coins/solana' : `coins/solana/contract/${mint}`;
+    const url = `${base}/${coinPath}/market_chart?vs_currency=usd&days=365&interval=daily${apiKey ? `&x_cg_pro_api_key=${apiKey}` : ''}`;
+
+    try {
+      const response = await fetch(url);
+      if (!response.ok) return [];
+      const data = await response.json();
+      return Array.isArray(data.prices) ? data.prices : [];
+    } catch (error) {
+      console.error('Error fetching CoinGecko price history:', error);
+      return [];
+    }
+  }
+}
+
+export class WalletPnlService {
+  private connection: Connection;
+
+  constructor(
+    connection?: Connection,
+    private prices: HistoricalPriceSource = new CoinGeckoPriceSource(),
+    private snapshots: SnapshotRepository = snapshotStore
+  ) {
+    this.connection = connection || new Connection(SOLANA_CONFIG.rpcUrl[SOLANA_CONFIG.network], SOLANA_CONFIG.commitment);
+  }
+
+  /**
+   * Build a PnL report for a wallet from its recent history and current holdings
+   */
+  async getReport(owner: string, options: WalletPnlOptions = {}): Promise<WalletPnlReport> {
+    const { maxTransactions = DEFAULT_MAX_TRANSACTIONS, recordSnapshot = true } = options;
+    const ownerKey = parseOwner(owner);
+    const warnings: string[] = [];
+
+    let portfolio: Portfolio;
+    try {
+      portfolio = await portfolioService.getPortfolio(ownerKey.toBase58(), { checkRisk: false });
+    } catch (error: any) {
+      throw new PnlError(`Failed to load current holdings: ${error.message || error}`, 'RPC_ERROR');
+    }
+
+    const tokenAccounts = portfolio.holdings.flatMap(holding => holding.tokenAccounts);
+    const activities = await this.backfill(ownerKey.toBase58(), maxTransactions, tokenAccounts);
+    const replay = await replayActivities(activities, this.prices, warnings);
+
+    if (recordSnapshot) {
+      await this.recordSnapshot(portfolio).catch(error => {
+        console.error('Failed to record portfolio snapshot:', error);
+      });
+    }
+    const snapshots = await this.snapshots.list(ownerKey.toBase58()).catch(() => [] as PortfolioSnapshot[]);
+
+    const tokens = await buildTokenPnl(replay, portfolio);
+    const activityCounts: Record<WalletActivityKind, number> = { transfer_in: 0, transfer_out: 0, swap: 0, fee_only: 0 };
+    for (const activity of activities) activityCounts[activity.kind]++;
+
+    if (activities.length >= maxTransactions) {
+      warnings.push(`Only the latest ${maxTransactions} transactions were analyzed; older acquisitions have no cost basis.`);
+    }
+    const unpriced = tokens.reduce((count, token) => count + token.unpricedLots, 0);
+    if (unpriced > 0) {
+      warnings.push(`${unpriced} open lot(s) have no historical price and are excluded from cost basis.`);
+    }
+
+    return {
+      owner: ownerKey.toBase58(),
+      network: SOLANA_CONFIG.network,
+      period: {
+        from: activities[0]?.timestamp || null,
+        to: activities[activities.length - 1]?.timestamp || null,
+      },
+      transactionsAnalyzed: activities.length,
+      activityCounts,
+      tokens,
+      totals: {
+        costBasisUsd: sum(tokens.map(token => token.costBasisUsd)),
+        currentValueUsd: portfolio.totalValueUsd,
+        realizedPnlUsd: sum(tokens.map(token => token.realizedPnlUsd)),
+        unrealizedPnlUsd: sum(tokens.map(token => token.unrealizedPnlUsd ?? 0)),
+        feesSol: replay.feesSol,
+      },
+      series: mergeSeries(snapshots, replay.costBasisSeries),
+      warnings,
+      generatedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Fetch and classify a wallet's recent transactions, oldest first. Incoming
+   * SPL transfers only touch the token account, so those are scanned as well.
+   */
+  async backfill(owner: string, maxTransactions: number = DEFAULT_MAX_TRANSACTIONS, tokenAccounts: string[] = []): Promise<WalletActivity[]> {
+    const addresses = [owner, ...tokenAccounts.slice(0, MAX_TOKEN_ACCOUNTS_SCANNED)];
+
+    const signatures = new Map<string, ConfirmedSignatureInfo>();
+    try {
+      for (const address of addresses) {
+        for (const info of await this.getSignatures(address, maxTransactions)) {
+          signatures.set(info.signature, info);
+        }
+      }
+    } catch (error: any) {
+      throw new PnlError(`Failed to load transaction history: ${error.message || error}`, 'RPC_ERROR');
+    }
+
+    const latest = Array.from(signatures.values())
+      .sort((a, b) => b.slot - a.slot)
+      .slice(0, maxTransactions);
+
+    const activities: WalletActivity[] = [];
+    for (let i = 0; i < latest.length; i += TRANSACTION_BATCH_SIZE) {
+      const batch = latest.slice(i, i + TRANSACTION_BATCH_SIZE);
+      let transactions: (ParsedTransactionWithMeta | null)[];
+      try {
+        transactions = await this.connection.getParsedTransactions(
+          batch.map(info => info.signature),
+          { maxSupportedTransactionVersion: 0 }
+        );
+      } catch (error: any) {
+        throw new PnlError(`Failed to load transactions: ${error.message || error}`, 'RPC_ERROR');
+      }
+
+      transactions.forEach((transaction, index) => {
+        const activity = transaction && classifyTransaction(transaction, owner, batch[index]);
+        if (activity) activities.push(activity);
+      });
+    }
+
+    return activities.sort((a, b) => a.slot - b.slot);
+  }
+
+  /**
+   * Store a snapshot of a portfolio unless one was taken within the last interval
+   */
+  async recordSnapshot(portfolio: Portfolio, force = false): Promise<PortfolioSnapshot | null> {
+    const latest = await this.snapshots.latest(portfolio.owner);
+    if (!force && latest && Date.now() - new Date(latest.takenAt).getTime() < SNAPSHOT_INTERVAL) {
+      return null;
+    }
+
+    const snapshot: PortfolioSnapshot = {
+      owner: portfolio.owner,
+      takenAt: portfolio.fetchedAt,
+      totalValueUsd: portfolio.totalValueUsd,
+      holdings: portfolio.holdings.map(holding => ({
+        mint: holding.mint,
+        symbol: holding.symbol,
+        amount: holding.amount,
+        valueUsd: holding.valueUsd,
+      })),
+    };
+    await this.snapshots.append(snapshot);
+    return snapshot;
+  }
+
+  private async getSignatures(address: string, limit: number): Promise<ConfirmedSignatureInfo[]> {
+    const results: ConfirmedSignatureInfo[] = [];
+    let before: string | undefined;
+
+    while (results.length < limit) {
+      const page = await this.connection.getSignaturesForAddress(new PublicKey(address), {
+        before,
+        limit: Math.min(MAX_SIGNATURES_PER_REQUEST, limit - results.length),
+      });
+      results.push(...page);
+      if (page.length === 0 || page.length < MAX_SIGNATURES_PER_REQUEST) break;
+      before = page[page.length - 1].signature;
+    }
+
+    return results;
+  }
+}
+
+/**
+ * Turn a parsed transaction into the wallet's net token movements
+ */
+export function classifyTransaction(
+  transaction: ParsedTransactionWithMeta,
+  owner: string,
+  info: Pick<ConfirmedSignatureInfo, 'signature' | 'slot' | 'blockTime'>
+): WalletActivity | null {
+  const { meta } = transaction;
+  const blockTime = transaction.blockTime ?? info.blockTime;
+  if (!meta || !blockTime) return null;
+
+  const accountKeys = transaction.transaction.message.accountKeys.map(key => key.pubkey.toBase58());
+  const ownerIndex = accountKeys.indexOf(owner);
+  const paidFee = accountKeys[0] === owner;
+  const feeSol = paidFee ? meta.fee / Math.pow(10, SOL_DECIMALS) : 0;
+  const base = {
+    signature: info.signature,
+    slot: transaction.slot ?? info.slot,
+    timestamp: new Date(blockTime * 1000).toISOString(),
+    feeSol,
+  };
+
+  // Failed transactions only cost the fee
+  if (meta.err) {
+    return paidFee ? { ...base, kind: 'fee_only', movements: [], failed: true } : null;
+  }
+
+  const deltas = new Map<string, { raw: bigint; decimals: number }>();
+  const addDelta = (mint: string, raw: bigint, decimals: number) => {
+    const existing = deltas.get(mint);
+    deltas.set(mint, { raw: (existing?.raw ?? BigInt(0)) + raw, decimals });
+  };
+
+  if (ownerIndex >= 0) {
+    const lamports = meta.postBalances[ownerIndex] - meta.preBalances[ownerIndex] + (paidFee ? meta.fee : 0);
+    addDelta(NATIVE_SOL_MINT, BigInt(lamports), SOL_DECIMALS);
+  }
+  for (const balance of meta.preTokenBalances || []) {
+    if (balance.owner !== owner) continue;
+    addDelta(balance.mint, -BigInt(balance.uiTokenAmount.amount), balance.uiTokenAmount.decimals);
+  }
+  for (const balance of meta.postTokenBalances || []) {
+    if (balance.owner !== owner) continue;
+    addDelta(balance.mint, BigInt(balance.uiTokenAmount.amount), balance.uiTokenAmount.decimals);
+  }
+
+  // Wrapped SOL is folded into the native mint above, so the two net out
+  const movements: TokenMovement[] = Array.from(deltas.entries())
+    .map(([mint, { raw, decimals }]) => ({ mint, amount: Number(raw) / Math.pow(10, decimals), decimals }))
+    .filter(movement => Math.abs(movement.amount) > DUST);
+
+  if (movements.length === 0 && !paidFee) return null;
+
+  const received = movements.some(movement => movement.amount > 0);
+  const sent = movements.some(movement => movement.amount < 0);
+  const kind: WalletActivityKind = received && sent
+    ? 'swap'
+    : received
+      ? 'transfer_in'
+      : sent
+        ? 'transfer_out'
+        : 'fee_only';
+
+  return { ...base, kind, movements, failed: false };
+}
+
+interface ReplayResult {
+  lots: Map<string, TaxLot[]>;
+  realized: Map<string, number>;
+  feesSol: number;
+  costBasisSeries: Array<{ timestamp: string; costBasisUsd: number }>;
+}
+
+/**
+ * FIFO cost-basis engine. Swaps realize PnL at the value of what was
+ * received; transfers move lots in or out without realizing anything.
+ */
+export async function replayActivities(
+  activities: WalletActivity[],
+  prices: HistoricalPriceSource,
+  warnings: string[] = []
+): Promise<ReplayResult> {
+  const lots = new Map<string, TaxLot[]>();
+  const realized = new Map<string, number>();
+  const incomplete = new Set<string>();
+  const costBasisSeries: ReplayResult['costBasisSeries'] = [];
+  let feesSol = 0;
+
+  const priceOf = (mint: string, timestamp: string) => prices.getPriceAt(mint, timestamp).catch(() => null);
+
+  const acquire = (mint: string, amount: number, unitCostUsd: number | null, activity: WalletActivity) => {
+    const queue = lots.get(mint) || [];
+    queue.push({ mint, amount, unitCostUsd, acquiredAt: activity.timestamp, signature: activity.signature });
+    lots.set(mint, queue);
+  };
+
+  // Remove `amount` from the oldest lots and return the known cost of what was removed
+  const dispose = (mint: string, amount: number): { cost: number; fullyCosted: boolean } => {
+    const queue = lots.get(mint) || [];
+    let remaining = amount;
+    let cost = 0;
+    let fullyCosted = true;
+
+    while (remaining > DUST && queue.length > 0) {
+      const lot = queue[0];
+      const used = Math.min(lot.amount, remaining);
+      if (lot.unitCostUsd === null) fullyCosted = false;
+      else cost += used * lot.unitCostUsd;
+      lot.amount -= used;
+      remaining -= used;
+      if (lot.amount <= DUST) queue.shift();
+    }
+
+    if (remaining > DUST) {
+      // Acquired before the analyzed window
+      fullyCosted = false;
+      incomplete.add(mint);
+    }
+    return { cost, fullyCosted };
+  };
+
+  for (const activity of activities) {
+    if (activity.feeSol > 0) {
+      feesSol += activity.feeSol;
+      dispose(NATIVE_SOL_MINT, activity.feeSol);
+    }
+
+    const incoming = activity.movements.filter(movement => movement.amount > 0);
+    const outgoing = activity.movements.filter(movement => movement.amount < 0);
+
+    if (activity.kind === 'swap') {
+      const inValues = await Promise.all(
+        incoming.map(async movement => {
+          const price = await priceOf(movement.mint, activity.timestamp);
+          return price !== null ? price * movement.amount : null;
+        })
+      );
+      const outValues = await Promise.all(
+        outgoing.map(async movement => {
+          const price = await priceOf(movement.mint, activity.timestamp);
+          return price !== null ? price * -movement.amount : null;
+        })
+      );
+      // Value the trade by what was received, falling back to what was given
+      const tradeValue = inValues.every(value => value !== null)
+        ? sum(inValues as number[])
+        : outValues.every(value => value !== null)
+          ? sum(outValues as number[])
+          : null;
+
+      outgoing.forEach((movement, index) => {
+        const { cost, fullyCosted } = dispose(movement.mint, -movement.amount);
+        const share = splitValue(tradeValue, outValues, index);
+        if (share !== null && fullyCosted) {
+          realized.set(movement.mint, (realized.get(movement.mint) || 0) + share - cost);
+        }
+      });
+      incoming.forEach((movement, index) => {
+        const share = splitValue(tradeValue, inValues, index);
+        acquire(movement.mint, movement.amount, share !== null ? share / movement.amount : null, activity);
+      });
+    } else {
+      for (const movement of incoming) {
+        acquire(movement.mint, movement.amount, await priceOf(movement.mint, activity.timestamp), activity);
+      }
+      for (const movement of outgoing) {
+        dispose(movement.mint, -movement.amount);
+      }
+    }
+
+    costBasisSeries.push({ timestamp: activity.timestamp, costBasisUsd: openCost(lots) });
+  }
+
+  if (incomplete.size > 0) {
+    warnings.push(`History is incomplete for ${incomplete.size} token(s); realized PnL excludes disposals without a known cost.`);
+  }
+
+  return { lots, realized, feesSol, costBasisSeries };
+}
+
+async function buildTokenPnl(replay: ReplayResult, portfolio: Portfolio): Promise<TokenPnl[]> {
+  const holdings = new Map(portfolio.holdings.map(holding => [holding.mint, holding]));
+  const mints = Array.from(new Set([...replay.lots.keys(), ...replay.realized.keys(), ...holdings.keys()]));
+  const missing = mints.filter(mint => !holdings.has(mint));
+  const tokenData = missing.length > 0 ? await jupiterTokenService.getTokensData(missing) : new Map();
+
+  return mints
+    .map(mint => {
+      const holding = holdings.get(mint);
+      const openLots = (replay.lots.get(mint) || []).filter(lot => lot.amount > DUST);
+      const pricedLots = openLots.filter(lot => lot.unitCostUsd !== null);
+      const pricedAmount = sum(pricedLots.map(lot => lot.amount));
+      const costBasisUsd = sum(pricedLots.map(lot => lot.amount * lot.unitCostUsd!));
+      const currentPriceUsd = holding?.priceUsd ?? tokenData.get(mint)?.usdPrice ?? null;
+
+      return {
+        mint,
+        symbol: holding?.symbol || tokenData.get(mint)?.symbol || `${mint.slice(0, 4)}…${mint.slice(-4)}`,
+        amountHeld: holding?.amount ?? 0,
+        costBasisUsd,
+        averageCostUsd: pricedAmount > 0 ? costBasisUsd / pricedAmount : null,
+        realizedPnlUsd: replay.realized.get(mint) || 0,
+        unrealizedPnlUsd: currentPriceUsd !== null && pricedAmount > 0 ? pricedAmount * currentPriceUsd - costBasisUsd : null,
+        currentPriceUsd,
+        currentValueUsd: holding?.valueUsd ?? null,
+        openLots: openLots.length,
+        unpricedLots: openLots.length - pricedLots.length,
+      };
+    })
+    .sort((a, b) => (b.currentValueUsd ?? 0) - (a.currentValueUsd ?? 0));
+}
+
+function mergeSeries(
+  snapshots: PortfolioSnapshot[],
+  costBasisSeries: ReplayResult['costBasisSeries']
+): PnlSeriesPoint[] {
+  const points: PnlSeriesPoint[] = [
+    ...snapshots.map(snapshot => ({ timestamp: snapshot.takenAt, valueUsd: snapshot.totalValueUsd, costBasisUsd: null })),
+    ...costBasisSeries.map(point => ({ timestamp: point.timestamp, valueUsd: null, costBasisUsd: point.costBasisUsd })),
+  ];
+  return points.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+}
+
+// Share of a trade's value attributed to one leg, proportional to its own valuation when known
+function splitValue(total: number | null, legValues: (number | null)[], index: number): number | null {
+  if (total === null) return null;
+  if (legValues.length === 1) return total;
+  if (legValues.every(value => value !== null)) {
+    const legTotal = sum(legValues as number[]);
+    return legTotal > 0 ? (total * legValues[index]!) / legTotal : total / legValues.length;
+  }
+  return total / legValues.length;
+}
+
+function openCost(lots: Map<string, TaxLot[]>): number {
+  let total = 0;
+  for (const queue of lots.values()) {
+    for (const lot of queue) {
+      if (lot.unitCostUsd !== null) total += lot.amount * lot.unitCostUsd;
+    }
+  }
+  return total;
+}
+
+function parseOwner(owner: string): PublicKey {
+  try {
+    return new PublicKey(owner);
+  } catch {
+    throw new PnlError(`Invalid wallet address: ${owner}`, 'INVALID_ADDRESS');
+  }
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+export function createWalletPnlService(
+  connection?: Connection,
+  prices?: HistoricalPriceSource,
+  snapshots?: SnapshotRepository
+): WalletPnlService {
+  return new WalletPnlService(connection, prices, snapshots);
+}
+
+// Export singleton instance
+export const walletPnlService = createWalletPnlService();
@@ -0,0 +1,116 @@
+/**
+ * Wallet PnL Type Definitions
+ * Shared between the history backfill, the cost-basis engine, the snapshot
+ * store, the `wallet-pnl` tool and the portfolio UI
+ */
+
+export type WalletActivityKind = 'transfer_in' | 'transfer_out' | 'swap' | 'fee_only';
+
+export interface TokenMovement {
+  mint: string;
+  amount: number; // UI units, positive when received
+  decimals: number;
+}
+
+export interface WalletActivity {
+  signature: string;
+  slot: number;
+  timestamp: string; // ISO timestamp of the block
+  kind: WalletActivityKind;
+  feeSol: number; // Only set when the wallet paid the fee
+  movements: TokenMovement[];
+  failed: boolean;
+}
+
+export interface TaxLot {
+  mint: string;
+  amount: number;
+  unitCostUsd: number | null; // null when no price was available at acquisition
+  acquiredAt: string;
+  signature: string;
+}
+
+export interface TokenPnl {
+  mint: string;
+  symbol: string;
+  amountHeld: number;
+  costBasisUsd: number; // Cost of the open lots with a known price
+  averageCostUsd: number | null;
+  realizedPnlUsd: number;
+  unrealizedPnlUsd: number | null;
+  currentPriceUsd: number | null;
+  currentValueUsd: number | null;
+  openLots: number;
+  unpricedLots: number; // Lots acquired without a historical price
+}
+
+export interface SnapshotHolding {
+  mint: string;
+  symbol: string;
+  amount: number;
+  valueUsd: number | null;
+}
+
+export interface PortfolioSnapshot {
+  owner: string;
+  takenAt: string; // ISO timestamp
+  totalValueUsd: number;
+  holdings: SnapshotHolding[];
+}
+
+export interface PnlSeriesPoint {
+  timestamp: string;
+  valueUsd: number | null; // From snapshots
+  costBasisUsd: number | null; // From replaying history
+}
+
+export interface WalletPnlReport {
+  owner: string;
+  network: string;
+  period: {
+    from: string | null; // Oldest analyzed transaction
+    to: string | null; // Newest analyzed transaction
+  };
+  transactionsAnalyzed: number;
+  activityCounts: Record<WalletActivityKind, number>;
+  tokens: TokenPnl[];
+  totals: {
+    costBasisUsd: number;
+    currentValueUsd: number;
+    realizedPnlUsd: number;
+    unrealizedPnlUsd: number;
+    feesSol: number;
+  };
+  series: PnlSeriesPoint[];
+  warnings: string[];
+  generatedAt: string;
+}
+
+export interface WalletPnlOptions {
+  maxTransactions?: number; // How far back to backfill (default 200)
+  recordSnapshot?: boolean; // Store a snapshot of the current portfolio (default true)
+}
+
+/**
+ * Historical USD prices used for cost basis. The default implementation
+ * queries CoinGecko; tests or other providers only need this interface.
+ */
+export interface HistoricalPriceSource {
+  getPriceAt(mint: string, timestamp: string): Promise<number | null>;
+}
+
+/**
+ * Storage-agnostic snapshot repository, mirroring ConversationRepository
+ */
+export interface SnapshotRepository {
+  list(owner: string, options?: { since?: string; limit?: number }): Promise<PortfolioSnapshot[]>;
+  latest(owner: string): Promise<PortfolioSnapshot | null>;
+  append(snapshot: PortfolioSnapshot): Promise<void>;
+}
+
+export class PnlError extends Error {
+  constructor(message: string, public code: 'INVALID_ADDRESS' | 'RPC_ERROR' | 'IO_ERROR') {
+    super(message);
+    this.name = 'PnlError';
+  }
+}
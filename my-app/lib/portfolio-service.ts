@@ -0,0 +1,270 @@
+/**
+ * Portfolio Service
+ * Values a wallet's SOL and SPL holdings (Token and Token-2022 programs) with
+ * Jupiter metadata and USD prices, 24h change from `stats24h`, and risk flags
+ * from Jupiter Shield.
+ */
+
+import { Connection, PublicKey } from '@solana/web3.js';
+import { TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import { SOLANA_CONFIG } from './solana-config';
+import { jupiterTokenService } from './jupiter-token-service';
+import { jupiterUltraService } from './jupiter-ultra-service';
+import { isHighRiskToken } from './jupiter-ultra-types';
+import type { JupiterTokenData } from './jupiter-token-types';
+
+export const NATIVE_SOL_MINT = 'So11111111111111111111111111111111111111112';
+
+const SOL_DECIMALS = 9;
+const MAX_MINTS_PER_SHIELD_REQUEST = 100;
+
+export interface HoldingRisk {
+  risky: boolean;
+  riskScore: number;
+  warnings: string[];
+}
+
+export interface PortfolioHolding {
+  mint: string;
+  symbol: string;
+  name: string;
+  icon?: string;
+  programId: string;
+  tokenAccounts: string[]; // Empty for native SOL
+  amount: number; // UI units
+  decimals: number;
+  priceUsd: number | null;
+  valueUsd: number | null;
+  change24hPct: number | null;
+  change24hUsd: number | null;
+  isNative: boolean;
+  isVerified: boolean;
+  risk?: HoldingRisk;
+}
+
+export interface Portfolio {
+  owner: string;
+  network: string;
+  totalValueUsd: number;
+  change24hUsd: number;
+  change24hPct: number;
+  holdings: PortfolioHolding[]; // Sorted by value, unpriced holdings last
+  unpricedCount: number;
+  riskyCount: number;
+  warnings: string[];
+  fetchedAt: string;
+}
+
+export interface PortfolioOptions {
+  includeZeroBalances?: boolean;
+  checkRisk?: boolean;
+}
+
+export class PortfolioError extends Error {
+  constructor(message: string, public code: 'INVALID_ADDRESS' | 'RPC_ERROR') {
+    super(message);
+    this.name = 'PortfolioError';
+  }
+}
+
+interface RawHolding {
+  mint: string;
+  programId: string;
+  tokenAccounts: string[];
+  rawAmount: bigint;
+  decimals: number;
+}
+
+export class PortfolioService {
+  private connection: Connection;
+
+  constructor(connection?: Connection) {
+    this.connection = connection || new Connection(SOLANA_CONFIG.rpcUrl[SOLANA_CONFIG.network], SOLANA_CONFIG.commitment);
+  }
+
+  /**
+   * Value every holding of a wallet
+   */
+  async getPortfolio(owner: string, options: PortfolioOptions = {}): Promise<Portfolio> {
+    const { includeZeroBalances = false, checkRisk = true } = options;
+
+    let ownerKey: PublicKey;
+    try {
+      ownerKey = new PublicKey(owner);
+    } catch {
+      throw new PortfolioError(`Invalid wallet address: ${owner}`, 'INVALID_ADDRESS');
+    }
+
+    let lamports: number;
+    let raw: RawHolding[];
+    try {
+      const [balance, ...tokenHoldings] = await Promise.all([
+        this.connection.getBalance(ownerKey),
+        this.getTokenHoldings(ownerKey, TOKEN_PROGRAM_ID),
+        this.getTokenHoldings(ownerKey, TOKEN_2022_PROGRAM_ID),
+      ]);
+      lamports = balance;
+      raw = tokenHoldings.flat();
+    } catch (error: any) {
+      throw new PortfolioError(`Failed to load token accounts: ${error.message || error}`, 'RPC_ERROR');
+    }
+
+    if (!includeZeroBalances) {
+      raw = raw.filter(holding => holding.rawAmount > BigInt(0));
+    }
+
+    const warnings: string[] = [];
+    const mints = [NATIVE_SOL_MINT, ...raw.map(holding => holding.mint)];
+    const [tokenData, risks] = await Promise.all([
+      jupiterTokenService.getTokensData(mints),
+      checkRisk ? this.getRisks(raw.map(holding => holding.mint), warnings) : Promise.resolve(new Map<string, HoldingRisk>()),
+    ]);
+
+    const holdings: PortfolioHolding[] = [];
+    if (lamports > 0 || includeZeroBalances) {
+      holdings.push(buildHolding(
+        {
+          mint: NATIVE_SOL_MINT,
+          programId: 'native',
+          tokenAccounts: [],
+          rawAmount: BigInt(lamports),
+          decimals: SOL_DECIMALS,
+        },
+        tokenData.get(NATIVE_SOL_MINT),
+        undefined,
+        true
+      ));
+    }
+    for (const holding of raw) {
+      holdings.push(buildHolding(holding, tokenData.get(holding.mint), risks.get(holding.mint), false));
+    }
+
+    holdings.sort((a, b) => (b.valueUsd ?? -1) - (a.valueUsd ?? -1));
+
+    const totalValueUsd = sum(holdings.map(holding => holding.valueUsd ?? 0));
+    const change24hUsd = sum(holdings.map(holding => holding.change24hUsd ?? 0));
+    const previousValue = totalValueUsd - change24hUsd;
+    const unpricedCount = holdings.filter(holding => holding.priceUsd === null).length;
+
+    if (unpricedCount > 0) {
+      warnings.push(`${unpricedCount} holding(s) have no USD price and are excluded from the total`);
+    }
+
+    return {
+      owner: ownerKey.toBase58(),
+      network: SOLANA_CONFIG.network,
+      totalValueUsd,
+      change24hUsd,
+      change24hPct: previousValue > 0 ? (change24hUsd / previousValue) * 100 : 0,
+      holdings,
+      unpricedCount,
+      riskyCount: holdings.filter(holding => holding.risk?.risky).length,
+      warnings,
+      fetchedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Aggregate a wallet's token accounts for one token program by mint
+   */
+  private async getTokenHoldings(owner: PublicKey, programId: PublicKey): Promise<RawHolding[]> {
+    const { value } = await this.connection.getParsedTokenAccountsByOwner(owner, { programId });
+    const byMint = new Map<string, RawHolding>();
+
+    for (const { pubkey, account } of value) {
+      const info = account.data.parsed?.info;
+      if (!info?.mint || !info.tokenAmount) continue;
+
+      const existing = byMint.get(info.mint);
+      const rawAmount = BigInt(info.tokenAmount.amount);
+      if (existing) {
+        existing.rawAmount += rawAmount;
+        existing.tokenAccounts.push(pubkey.toBase58());
+      } else {
+        byMint.set(info.mint, {
+          mint: info.mint,
+          programId: programId.toBase58(),
+          tokenAccounts: [pubkey.toBase58()],
+          rawAmount,
+          decimals: info.tokenAmount.decimals,
+        });
+      }
+    }
+
+    return Array.from(byMint.values());
+  }
+
+  /**
+   * Flag risky holdings with Jupiter Shield; failures only add a warning
+   */
+  private async getRisks(mints: string[], warnings: string[]): Promise<Map<string, HoldingRisk>> {
+    const risks = new Map<string, HoldingRisk>();
+
+    for (let i = 0; i < mints.length; i += MAX_MINTS_PER_SHIELD_REQUEST) {
+      const batch = mints.slice(i, i + MAX_MINTS_PER_SHIELD_REQUEST);
+      try {
+        const response = await jupiterUltraService.getShield({ mints: batch });
+        if (!response.success) {
+          throw new Error(response.error?.message || 'Shield request failed');
+        }
+        for (const data of response.data.data || []) {
+          risks.set(data.mint, {
+            risky: isHighRiskToken(data),
+            riskScore: data.riskScore,
+            warnings: data.warnings.map(warning => warning.message),
+          });
+        }
+      } catch (error: any) {
+        warnings.push(`Risk check unavailable: ${error.message || error}`);
+        break;
+      }
+    }
+
+    return risks;
+  }
+}
+
+function buildHolding(
+  raw: RawHolding,
+  token: JupiterTokenData | undefined,
+  risk: HoldingRisk | undefined,
+  isNative: boolean
+): PortfolioHolding {
+  const amount = Number(raw.rawAmount) / Math.pow(10, raw.decimals);
+  const priceUsd = token?.usdPrice ?? null;
+  const valueUsd = priceUsd !== null ? amount * priceUsd : null;
+  const change24hPct = token?.stats24h?.priceChange ?? null;
+  // Value 24h ago at the old price: value / (1 + pct)
+  const change24hUsd = valueUsd !== null && change24hPct !== null
+    ? valueUsd - valueUsd / (1 + change24hPct / 100)
+    : null;
+
+  return {
+    mint: raw.mint,
+    symbol: isNative ? 'SOL' : token?.symbol || `${raw.mint.slice(0, 4)}…${raw.mint.slice(-4)}`,
+    name: isNative ? 'Solana' : token?.name || 'Unknown token',
+    icon: token?.icon,
+    programId: raw.programId,
+    tokenAccounts: raw.tokenAccounts,
+    amount,
+    decimals: raw.decimals,
+    priceUsd,
+    valueUsd,
+    change24hPct,
+    change24hUsd,
+    isNative,
+    isVerified: isNative || token?.isVerified || false,
+    risk,
+  };
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+export function createPortfolioService(connection?: Connection): PortfolioService {
+  return new PortfolioService(connection);
+}
+
+// Export singleton instance
+export const portfolioService = createPortfolioService();
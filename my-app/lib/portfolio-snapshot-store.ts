@@ -0,0 +1,92 @@
+/**
+ * Portfolio Snapshot Store
+ * File-backed time series of portfolio valuations, one JSON document per
+ * wallet, used to chart how a wallet's value changed over time.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { PublicKey } from '@solana/web3.js';
+import { PnlError, PortfolioSnapshot, SnapshotRepository } from './pnl-types';
+
+const DEFAULT_STORE_DIR = path.join(process.cwd(), '.data', 'portfolio-snapshots');
+const MAX_SNAPSHOTS_PER_WALLET = 2000;
+
+export class FileSnapshotRepository implements SnapshotRepository {
+  private baseDir: string;
+  // Serializes writes so concurrent requests cannot drop snapshots
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(baseDir: string = process.env.SNAPSHOT_STORE_DIR || DEFAULT_STORE_DIR) {
+    this.baseDir = baseDir;
+  }
+
+  /**
+   * List snapshots for a wallet, oldest first
+   */
+  async list(owner: string, options: { since?: string; limit?: number } = {}): Promise<PortfolioSnapshot[]> {
+    const snapshots = await this.read(owner);
+    const filtered = options.since
+      ? snapshots.filter(snapshot => snapshot.takenAt >= options.since!)
+      : snapshots;
+    return options.limit ? filtered.slice(-options.limit) : filtered;
+  }
+
+  async latest(owner: string): Promise<PortfolioSnapshot | null> {
+    const snapshots = await this.read(owner);
+    return snapshots[snapshots.length - 1] || null;
+  }
+
+  async append(snapshot: PortfolioSnapshot): Promise<void> {
+    return this.enqueueWrite(async () => {
+      const snapshots = await this.read(snapshot.owner);
+      snapshots.push(snapshot);
+      snapshots.sort((a, b) => a.takenAt.localeCompare(b.takenAt));
+      await this.writeJson(this.walletPath(snapshot.owner), snapshots.slice(-MAX_SNAPSHOTS_PER_WALLET));
+    });
+  }
+
+  private async read(owner: string): Promise<PortfolioSnapshot[]> {
+    try {
+      const raw = await fs.readFile(this.walletPath(owner), 'utf8');
+      return JSON.parse(raw) as PortfolioSnapshot[];
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return [];
+      throw new PnlError(`Failed to read snapshots for ${owner}: ${error.message || error}`, 'IO_ERROR');
+    }
+  }
+
+  private async writeJson(filePath: string, data: unknown): Promise<void> {
+    try {
+      await fs.mkdir(this.baseDir, { recursive: true });
+      // Write to a temp file and rename so readers never see a partial document
+      const tempPath = `${filePath}.${process.pid}.tmp`;
+      await fs.writeFile(tempPath, JSON.stringify(data), 'utf8');
+      await fs.rename(tempPath, filePath);
+    } catch (error: any) {
+      throw new PnlError(`Failed to write ${path.basename(filePath)}: ${error.message || error}`, 'IO_ERROR');
+    }
+  }
+
+  private enqueueWrite<T>(operation: () => Promise<T>): Promise<T> {
+    const next = this.writeQueue.then(operation, operation);
+    this.writeQueue = next.catch(() => undefined);
+    return next;
+  }
+
+  private walletPath(owner: string): string {
+    // Normalizing through PublicKey keeps arbitrary input out of the file path
+    try {
+      return path.join(this.baseDir, `${new PublicKey(owner).toBase58()}.json`);
+    } catch {
+      throw new PnlError(`Invalid wallet address: ${owner}`, 'INVALID_ADDRESS');
+    }
+  }
+}
+
+export function createSnapshotStore(baseDir?: string): SnapshotRepository {
+  return new FileSnapshotRepository(baseDir);
+}
+
+// Export singleton instance
+export const snapshotStore = createSnapshotStore();
@@ -0,0 +1,164 @@
+/**
+ * QR Codes
+ * Renders QR codes for Blink and Solana Pay URLs on the server, as SVG or
+ * PNG, so they can be linked, downloaded or embedded without a canvas.
+ */
+
+import { deflateSync } from 'zlib';
+import qrcode from 'qrcode-generator';
+
+export type QrFormat = 'svg' | 'png';
+
+export interface QrOptions {
+  size?: number; // Width and height in pixels
+  margin?: number; // Quiet zone in modules; scanners want at least 4
+  color?: string; // Foreground, dark for device compatibility
+  background?: string; // Background, light for device compatibility
+}
+
+export const MAX_QR_DATA_LENGTH = 2048;
+const MIN_SIZE = 64;
+const MAX_SIZE = 2048;
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+export class QrCodeError extends Error {
+  constructor(message: string, public code: 'INVALID_DATA' | 'INVALID_OPTIONS') {
+    super(message);
+    this.name = 'QrCodeError';
+  }
+}
+
+/**
+ * Render a QR code as a standalone SVG document
+ */
+export function renderQrSvg(data: string, options: QrOptions = {}): string {
+  const { modules, count } = encode(data);
+  const { size, margin, color, background } = resolveOptions(options);
+  const total = count + margin * 2;
+
+  // One path of unit squares in module coordinates; the viewBox scales it
+  let path = '';
+  modules.forEach((row, y) => {
+    row.forEach((dark, x) => {
+      if (dark) path += `M${x + margin} ${y + margin}h1v1h-1z`;
+    });
+  });
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 ${total} ${total}" shape-rendering="crispEdges">`,
+    `<rect width="100%" height="100%" fill="${background}"/>`,
+    `<path d="${path}" fill="${color}"/>`,
+    '</svg>',
+  ].join('');
+}
+
+/**
+ * Render a QR code as a PNG image
+ */
+export function renderQrPng(data: string, options: QrOptions = {}): Buffer {
+  const { modules, count } = encode(data);
+  const { size, margin, color, background } = resolveOptions(options);
+  const total = count + margin * 2;
+  // Whole pixels per module keep edges sharp; the image may end up slightly smaller than asked
+  const scale = Math.max(1, Math.floor(size / total));
+  const width = total * scale;
+  const foreground = parseHex(color);
+  const backdrop = parseHex(background);
+
+  // Each scanline starts with a filter byte (0 = none) followed by RGB triplets
+  const raw = Buffer.alloc((width * 3 + 1) * width);
+  for (let y = 0; y < width; y++) {
+    const rowStart = y * (width * 3 + 1);
+    const moduleY = Math.floor(y / scale) - margin;
+    for (let x = 0; x < width; x++) {
+      const moduleX = Math.floor(x / scale) - margin;
+      const dark = modules[moduleY]?.[moduleX] === true;
+      const [r, g, b] = dark ? foreground : backdrop;
+      const offset = rowStart + 1 + x * 3;
+      raw[offset] = r;
+      raw[offset + 1] = g;
+      raw[offset + 2] = b;
+    }
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(width, 4);
+  header[8] = 8; // Bit depth
+  header[9] = 2; // Truecolor RGB
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', deflateSync(raw)),
+    pngChunk('IEND', Buffer.alloc(0)),
+  ]);
+}
+
+function encode(data: string): { modules: boolean[][]; count: number } {
+  if (!data) {
+    throw new QrCodeError('Nothing to encode', 'INVALID_DATA');
+  }
+  if (data.length > MAX_QR_DATA_LENGTH) {
+    throw new QrCodeError(`QR data is limited to ${MAX_QR_DATA_LENGTH} characters`, 'INVALID_DATA');
+  }
+
+  const qr = qrcode(0, 'M');
+  // Byte mode takes one character per byte, so pass the UTF-8 bytes as latin1
+  qr.addData(Buffer.from(data, 'utf8').toString('latin1'), 'Byte');
+  try {
+    qr.make();
+  } catch {
+    throw new QrCodeError('Data does not fit in a QR code', 'INVALID_DATA');
+  }
+
+  const count = qr.getModuleCount();
+  const modules = Array.from({ length: count }, (_, row) =>
+    Array.from({ length: count }, (_, col) => qr.isDark(row, col))
+  );
+  return { modules, count };
+}
+
+function resolveOptions(options: QrOptions): Required<QrOptions> {
+  const { size = 512, margin = 4, color = '#000000', background = '#ffffff' } = options;
+
+  if (!Number.isInteger(size) || size < MIN_SIZE || size > MAX_SIZE) {
+    throw new QrCodeError(`size must be an integer between ${MIN_SIZE} and ${MAX_SIZE}`, 'INVALID_OPTIONS');
+  }
+  if (!Number.isInteger(margin) || margin < 0 || margin > 16) {
+    throw new QrCodeError('margin must be an integer between 0 and 16', 'INVALID_OPTIONS');
+  }
+  // Colors end up inside SVG attributes, so only plain hex is accepted
+  for (const [name, value] of [['color', color], ['background', background]] as const) {
+    if (!HEX_COLOR.test(value)) {
+      throw new QrCodeError(`${name} must be a #rrggbb color`, 'INVALID_OPTIONS');
+    }
+  }
+  return { size, margin, color, background };
+}
+
+function parseHex(color: string): [number, number, number] {
+  const value = parseInt(color.slice(1), 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length, 0);
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body), 0);
+  return Buffer.concat([length, body, crc]);
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(bytes: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
@@ -5,6 +5,8 @@
 
 import { Connection, PublicKey } from '@solana/web3.js';
 
+const REFERRAL_PROGRAM_ID = new PublicKey('REFER4ZgmyYx9c6He5XfaTMiGfdLwRnkV4RPp9t9iF3');
+
 export interface RevenueMetrics {
   totalSwaps: number;
   totalVolume: number; // In USD
@@ -184,6 +186,51 @@ export class RevenueTrackingService {
     }
   }
 
+  /**
+   * Platform fee charged on referred swaps, in basis points
+   */
+  getFeeRate(): number {
+    return this.feeRate;
+  }
+
+  /**
+   * Referral token account that collects fees in `mint`
+   */
+  getReferralTokenAccount(mint: string): PublicKey | null {
+    if (!this.referralAccount) return null;
+
+    const [tokenAccount] = PublicKey.findProgramAddressSync(
+      [Buffer.from('referral_ata'), new PublicKey(this.referralAccount).toBuffer(), new PublicKey(mint).toBuffer()],
+      REFERRAL_PROGRAM_ID
+    );
+    return tokenAccount;
+  }
+
+  /**
+   * Pick the fee account for a swap: the output mint's referral token account,
+   * else the input mint's. Jupiter can only pay into accounts that already
+   * exist, so returns null when neither has been initialized
+   */
+  async getSwapFeeAccount(
+    inputMint: string,
+    outputMint: string
+  ): Promise<{ account: string; mint: string; bps: number } | null> {
+    for (const mint of [outputMint, inputMint]) {
+      const tokenAccount = this.getReferralTokenAccount(mint);
+      if (!tokenAccount) return null;
+
+      try {
+        const info = await this.connection.getAccountInfo(tokenAccount);
+        if (info) {
+          return { account: tokenAccount.toBase58(), mint, bps: this.feeRate };
+        }
+      } catch (error) {
+        console.warn('Failed to look up referral token account:', error);
+      }
+    }
+    return null;
+  }
+
   /**
    * Export revenue data for external analysis
    */
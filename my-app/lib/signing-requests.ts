@@ -0,0 +1,243 @@
+/**
+ * Signing Requests
+ * Non-custodial hand-off between tools and the user's browser wallet. Tools
+ * build unsigned transactions and register them here; the chat UI asks the
+ * connected wallet to sign, posts the signed bytes back, and this module
+ * checks they match what was built before submitting and confirming them.
+ */
+
+import { Transaction, VersionedTransaction } from '@solana/web3.js';
+import { getExplorerUrl } from './solana-config';
+import { solanaService } from './solana-service';
+import { jupiterUltraService } from './jupiter-ultra-service';
+import { summarizeSimulation, type SimulationReport } from './transaction-simulator';
+
+const SIGNING_REQUEST_TTL = 120000; // Blockhashes expire after ~60-90 seconds
+
+export type SigningRequestStatus = 'awaiting_signature' | 'submitted' | 'confirmed' | 'failed' | 'expired';
+
+// Payload of the `data-signing-request` UI message part
+export interface SigningRequestData {
+  requestId: string;
+  kind: string; // Tool or action that built the transaction
+  description: string;
+  signer: string; // Wallet expected to sign
+  transaction: string; // Base64 unsigned transaction
+  status: SigningRequestStatus;
+  submitVia: 'rpc' | 'jupiter-ultra';
+  createdAt: string;
+  expiresAt: string;
+  lastValidBlockHeight?: number;
+  simulationSummary?: string;
+  signature?: string;
+  explorerUrl?: string;
+  error?: string;
+}
+
+export interface CreateSigningRequestParams {
+  kind: string;
+  description: string;
+  signer: string;
+  transaction: Transaction | VersionedTransaction | string;
+  lastValidBlockHeight?: number;
+  submitVia?: SigningRequestData['submitVia'];
+  simulation?: SimulationReport | null;
+  conversationId?: string;
+}
+
+export class SigningRequestError extends Error {
+  constructor(
+    message: string,
+    public code: 'NOT_FOUND' | 'EXPIRED' | 'ALREADY_SUBMITTED' | 'TRANSACTION_MISMATCH' | 'SUBMISSION_FAILED'
+  ) {
+    super(message);
+    this.name = 'SigningRequestError';
+  }
+}
+
+interface StoredSigningRequest extends SigningRequestData {
+  conversationId?: string;
+  messageBytes: Uint8Array;
+}
+
+export class SigningRequestManager {
+  private requests = new Map<string, StoredSigningRequest>();
+
+  /**
+   * Register an unsigned transaction for the user's wallet to sign
+   */
+  create(params: CreateSigningRequestParams): SigningRequestData {
+    this.pruneExpired();
+
+    const serialized = serializeUnsigned(params.transaction);
+    const now = Date.now();
+    const request: StoredSigningRequest = {
+      requestId: `sig_${crypto.randomUUID()}`,
+      kind: params.kind,
+      description: params.description,
+      signer: params.signer,
+      transaction: Buffer.from(serialized).toString('base64'),
+      status: 'awaiting_signature',
+      submitVia: params.submitVia || 'rpc',
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + SIGNING_REQUEST_TTL).toISOString(),
+      lastValidBlockHeight: params.lastValidBlockHeight,
+      simulationSummary: params.simulation ? summarizeSimulation(params.simulation, params.signer) : undefined,
+      conversationId: params.conversationId,
+      messageBytes: messageBytesOf(VersionedTransaction.deserialize(serialized)),
+    };
+
+    this.requests.set(request.requestId, request);
+    return toData(request);
+  }
+
+  /**
+   * Get a signing request by id
+   */
+  get(requestId: string): SigningRequestData | null {
+    this.pruneExpired();
+    const request = this.requests.get(requestId);
+    return request ? toData(request) : null;
+  }
+
+  /**
+   * Verify a wallet-signed transaction against its request, then submit and confirm it
+   */
+  async submit(requestId: string, signedTransaction: string): Promise<SigningRequestData> {
+    this.pruneExpired();
+    const request = this.requests.get(requestId);
+
+    if (!request) {
+      throw new SigningRequestError(`Signing request not found: ${requestId}`, 'NOT_FOUND');
+    }
+    if (request.status === 'expired') {
+      throw new SigningRequestError('Signing request has expired; ask for a new transaction', 'EXPIRED');
+    }
+    if (request.status !== 'awaiting_signature') {
+      throw new SigningRequestError(`Signing request already ${request.status}`, 'ALREADY_SUBMITTED');
+    }
+
+    let signed: VersionedTransaction;
+    try {
+      signed = VersionedTransaction.deserialize(Buffer.from(signedTransaction, 'base64'));
+    } catch {
+      throw new SigningRequestError('Signed transaction could not be decoded', 'TRANSACTION_MISMATCH');
+    }
+
+    // The wallet may only add signatures; any change to the message is rejected
+    if (!bytesEqual(messageBytesOf(signed), request.messageBytes)) {
+      throw new SigningRequestError('Signed transaction does not match the requested transaction', 'TRANSACTION_MISMATCH');
+    }
+    const signerIndex = signed.message.staticAccountKeys.findIndex(key => key.toString() === request.signer);
+    if (signerIndex < 0 || signed.signatures[signerIndex]?.every(byte => byte === 0)) {
+      throw new SigningRequestError(`Transaction is not signed by ${request.signer}`, 'TRANSACTION_MISMATCH');
+    }
+
+    // Claim the request before awaiting so a double submit cannot broadcast twice
+    request.status = 'submitted';
+
+    try {
+      request.signature = request.submitVia === 'jupiter-ultra'
+        ? await submitViaUltra(signedTransaction)
+        : await solanaService.submitSignedTransaction(signed.serialize(), request.lastValidBlockHeight);
+      request.explorerUrl = getExplorerUrl(request.signature);
+      request.status = 'confirmed';
+    } catch (error) {
+      request.status = 'failed';
+      request.error = error instanceof Error ? error.message : String(error);
+    }
+
+    return toData(request);
+  }
+
+  /**
+   * Check that a request belongs to the given conversation
+   */
+  belongsTo(requestId: string, conversationId?: string): boolean {
+    const request = this.requests.get(requestId);
+    return Boolean(request && (!request.conversationId || request.conversationId === conversationId));
+  }
+
+  private pruneExpired(): void {
+    const now = Date.now();
+    for (const [id, request] of this.requests) {
+      const expiresAt = new Date(request.expiresAt).getTime();
+      if (request.status === 'awaiting_signature' && expiresAt <= now) {
+        request.status = 'expired';
+      }
+      // Keep settled requests for a while so status lookups after submission still work
+      if (expiresAt + SIGNING_REQUEST_TTL * 5 <= now) {
+        this.requests.delete(id);
+      }
+    }
+  }
+}
+
+async function submitViaUltra(signedTransaction: string): Promise<string> {
+  const response = await jupiterUltraService.executeTransaction({ signedTransaction });
+  if (!response.success || response.data.error) {
+    throw new SigningRequestError(
+      response.error?.message || response.data.error || 'Jupiter Ultra execution failed',
+      'SUBMISSION_FAILED'
+    );
+  }
+  return response.data.signature;
+}
+
+function serializeUnsigned(transaction: CreateSigningRequestParams['transaction']): Uint8Array {
+  if (typeof transaction === 'string') {
+    return Buffer.from(transaction, 'base64');
+  }
+  if (transaction instanceof Transaction) {
+    // Normalize legacy transactions so the UI and verification only deal with one format
+    return new VersionedTransaction(transaction.compileMessage()).serialize();
+  }
+  return transaction.serialize();
+}
+
+function messageBytesOf(transaction: VersionedTransaction): Uint8Array {
+  return transaction.message.serialize();
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, index) => byte === b[index]);
+}
+
+function toData(request: StoredSigningRequest): SigningRequestData {
+  return {
+    requestId: request.requestId,
+    kind: request.kind,
+    description: request.description,
+    signer: request.signer,
+    transaction: request.transaction,
+    status: request.status,
+    submitVia: request.submitVia,
+    createdAt: request.createdAt,
+    expiresAt: request.expiresAt,
+    lastValidBlockHeight: request.lastValidBlockHeight,
+    simulationSummary: request.simulationSummary,
+    signature: request.signature,
+    explorerUrl: request.explorerUrl,
+    error: request.error,
+  };
+}
+
+/**
+ * Find a signing request embedded in a tool result
+ */
+export function findSigningRequests(output: unknown): SigningRequestData[] {
+  if (!output || typeof output !== 'object') return [];
+  // Single transactions use `signingRequest`; batched ones (e.g. token airdrops) use `signingRequests`
+  const { signingRequest, signingRequests } = output as { signingRequest?: unknown; signingRequests?: unknown };
+  const candidates = Array.isArray(signingRequests) ? signingRequests : [signingRequest];
+  return candidates.filter((candidate): candidate is SigningRequestData =>
+    !!candidate && typeof (candidate as SigningRequestData).requestId === 'string'
+  );
+}
+
+export function createSigningRequestManager(): SigningRequestManager {
+  return new SigningRequestManager();
+}
+
+// Export singleton instance
+export const signingRequestManager = createSigningRequestManager();
@@ -0,0 +1,299 @@
+/**
+ * Solana Pay Service
+ * Transfer and transaction request URLs, each carrying a fresh reference key,
+ * and a watcher that finds the transaction holding that key (as
+ * `findReference` does) and checks it paid what was asked before the request
+ * counts as confirmed. Requests live in memory, like signing requests.
+ */
+
+import {
+  ComputeBudgetProgram,
+  Connection,
+  Keypair,
+  PublicKey,
+  Transaction,
+  type ParsedTransactionWithMeta,
+} from '@solana/web3.js';
+import { findReference, FindReferenceError } from '@solana/actions';
+import { SOLANA_CONFIG } from './solana-config';
+import {
+  REFERENCE_PARAM,
+  SolanaPayError,
+  encodeTransactionRequest,
+  encodeTransferRequest,
+  type CreatePaymentRequestParams,
+  type PaymentRequest,
+} from './solana-pay-types';
+
+const PAYMENT_REQUEST_TTL = 30 * 60 * 1000;
+const SOL_DECIMALS = 9;
+const AMOUNT_PATTERN = /^\d+(\.\d+)?$/;
+const MAX_TEXT_LENGTH = 200;
+
+export class SolanaPayService {
+  private connection: Connection;
+  private requests = new Map<string, PaymentRequest>();
+  // Concurrent polls for the same request share one lookup
+  private checks = new Map<string, Promise<PaymentRequest>>();
+
+  constructor(connection?: Connection) {
+    this.connection = connection || new Connection(
+      SOLANA_CONFIG.rpcUrl[SOLANA_CONFIG.network],
+      SOLANA_CONFIG.commitment
+    );
+  }
+
+  /**
+   * Create a transfer or transaction request with its own reference key
+   */
+  createPaymentRequest(params: CreatePaymentRequestParams): PaymentRequest {
+    this.pruneExpired();
+
+    const reference = Keypair.generate().publicKey.toBase58();
+    const now = Date.now();
+    for (const field of ['label', 'message'] as const) {
+      const value = params[field];
+      if (value !== undefined && (typeof value !== 'string' || value.length > MAX_TEXT_LENGTH)) {
+        throw new SolanaPayError(`${field} must be text of at most ${MAX_TEXT_LENGTH} characters`, 'INVALID_FIELDS');
+      }
+    }
+
+    let request: PaymentRequest;
+    if (params.kind === 'transfer') {
+      const { recipient, amount, splToken, label, message, memo } = params;
+      assertPublicKey(recipient, 'recipient');
+      if (splToken !== undefined) assertPublicKey(splToken, 'splToken');
+      if (amount !== undefined && (!AMOUNT_PATTERN.test(amount) || Number(amount) <= 0)) {
+        throw new SolanaPayError('amount must be a positive decimal number', 'INVALID_FIELDS');
+      }
+      if (memo !== undefined && (typeof memo !== 'string' || memo.length > MAX_TEXT_LENGTH)) {
+        throw new SolanaPayError(`memo must be text of at most ${MAX_TEXT_LENGTH} characters`, 'INVALID_FIELDS');
+      }
+
+      request = {
+        id: reference,
+        kind: 'transfer',
+        url: encodeTransferRequest({ recipient, amount, splToken, reference: [reference], label, message, memo }),
+        reference,
+        recipient,
+        amount,
+        splToken,
+        label,
+        message,
+        memo,
+        status: 'pending',
+        createdAt: new Date(now).toISOString(),
+        expiresAt: new Date(now + PAYMENT_REQUEST_TTL).toISOString(),
+      };
+    } else {
+      const link = parseLink(params.link);
+      // The endpoint adds the reference to the transaction it builds (see addReferences)
+      link.searchParams.append(REFERENCE_PARAM, reference);
+
+      request = {
+        id: reference,
+        kind: 'transaction',
+        url: encodeTransactionRequest({ link: link.href, label: params.label, message: params.message }),
+        reference,
+        link: link.href,
+        label: params.label,
+        message: params.message,
+        status: 'pending',
+        createdAt: new Date(now).toISOString(),
+        expiresAt: new Date(now + PAYMENT_REQUEST_TTL).toISOString(),
+      };
+    }
+
+    this.requests.set(request.id, request);
+    return { ...request };
+  }
+
+  get(id: string): PaymentRequest | null {
+    this.pruneExpired();
+    const request = this.requests.get(id);
+    return request ? { ...request } : null;
+  }
+
+  /**
+   * Look for the payment on-chain and return the request's current state
+   */
+  async checkPayment(id: string): Promise<PaymentRequest> {
+    this.pruneExpired();
+    const request = this.requests.get(id);
+    if (!request) {
+      throw new SolanaPayError(`Payment request not found: ${id}`, 'NOT_FOUND');
+    }
+    if (request.status !== 'pending') return { ...request };
+
+    let check = this.checks.get(id);
+    if (!check) {
+      check = this.findPayment(request).finally(() => this.checks.delete(id));
+      this.checks.set(id, check);
+    }
+    return check;
+  }
+
+  private async findPayment(request: PaymentRequest): Promise<PaymentRequest> {
+    let signature: string;
+    try {
+      ({ signature } = await findReference(this.connection, new PublicKey(request.reference), { finality: 'confirmed' }));
+    } catch (error: any) {
+      if (!(error instanceof FindReferenceError)) {
+        throw new SolanaPayError(`Reference lookup failed: ${error.message || error}`, 'RPC_ERROR');
+      }
+      // Nothing references the key yet; a late payment is still picked up until the request is pruned
+      if (new Date(request.expiresAt).getTime() <= Date.now()) request.status = 'expired';
+      return { ...request };
+    }
+
+    let transaction: ParsedTransactionWithMeta | null;
+    try {
+      transaction = await this.connection.getParsedTransaction(signature, {
+        commitment: 'confirmed',
+        maxSupportedTransactionVersion: 0,
+      });
+    } catch (error: any) {
+      throw new SolanaPayError(`Failed to load transaction ${signature}: ${error.message || error}`, 'RPC_ERROR');
+    }
+    if (!transaction) return { ...request };
+
+    const problem = validatePayment(request, transaction);
+    request.signature = signature;
+    if (problem) {
+      request.status = 'invalid';
+      request.error = problem;
+    } else {
+      request.status = 'confirmed';
+      request.confirmedAt = new Date().toISOString();
+    }
+    return { ...request };
+  }
+
+  private pruneExpired(): void {
+    const now = Date.now();
+    for (const [id, request] of this.requests) {
+      // Keep requests around after they expire so late payments and status lookups still work
+      if (new Date(request.expiresAt).getTime() + PAYMENT_REQUEST_TTL <= now) {
+        this.requests.delete(id);
+      }
+    }
+  }
+}
+
+/**
+ * The `reference` keys of a transaction request link; values that are not
+ * valid public keys are skipped
+ */
+export function parseReferences(requestUrl: string): PublicKey[] {
+  return new URL(requestUrl).searchParams.getAll(REFERENCE_PARAM).flatMap(value => {
+    try {
+      return [new PublicKey(value)];
+    } catch {
+      return [];
+    }
+  });
+}
+
+/**
+ * Add reference keys to a transaction so the payment watcher can find it.
+ * Keys go on the first instruction that is not a compute budget one, as
+ * read-only non-signers. This changes the message, so it must happen before
+ * anyone signs; versioned transactions cannot be amended and are not accepted.
+ */
+export function addReferences(transaction: Transaction, references: PublicKey[]): Transaction {
+  const instruction = transaction.instructions.find(
+    candidate => !candidate.programId.equals(ComputeBudgetProgram.programId)
+  );
+  if (!instruction) return transaction;
+
+  for (const reference of references) {
+    instruction.keys.push({ pubkey: reference, isSigner: false, isWritable: false });
+  }
+  return transaction;
+}
+
+/**
+ * Add the references of a transaction request link to the unsigned
+ * transaction an action route built
+ */
+export function applyReferences(transaction: Transaction, requestUrl: string): Transaction {
+  return addReferences(transaction, parseReferences(requestUrl));
+}
+
+/**
+ * Why a transaction holding the reference does not settle the request, or null if it does
+ */
+function validatePayment(request: PaymentRequest, transaction: ParsedTransactionWithMeta): string | null {
+  const { meta } = transaction;
+  if (!meta) return 'Transaction has no status metadata';
+  if (meta.err) return 'Transaction failed on-chain';
+  // Transaction requests are built by the linked endpoint; landing is what counts
+  if (request.kind === 'transaction') return null;
+
+  const recipient = request.recipient!;
+  let received: bigint;
+  let decimals = SOL_DECIMALS;
+  if (request.splToken) {
+    const post = meta.postTokenBalances?.find(balance => balance.owner === recipient && balance.mint === request.splToken);
+    if (!post) return 'Recipient did not receive the requested token';
+    const pre = meta.preTokenBalances?.find(balance => balance.accountIndex === post.accountIndex);
+    received = BigInt(post.uiTokenAmount.amount) - BigInt(pre?.uiTokenAmount.amount ?? '0');
+    decimals = post.uiTokenAmount.decimals;
+  } else {
+    const index = transaction.transaction.message.accountKeys.findIndex(key => key.pubkey.toBase58() === recipient);
+    if (index < 0) return 'Recipient is not part of the transaction';
+    received = BigInt(meta.postBalances[index]) - BigInt(meta.preBalances[index]);
+  }
+
+  if (request.amount !== undefined) {
+    const expected = toBaseUnits(request.amount, decimals);
+    if (expected === null) return `Amount ${request.amount} has more than ${decimals} decimals`;
+    if (received < expected) return `Recipient received less than the requested ${request.amount}`;
+  } else if (received <= BigInt(0)) {
+    return 'Recipient received nothing';
+  }
+
+  if (request.memo) {
+    const hasMemo = transaction.transaction.message.instructions.some(
+      instruction => 'parsed' in instruction && instruction.program === 'spl-memo' && instruction.parsed === request.memo
+    );
+    if (!hasMemo) return 'Transaction is missing the requested memo';
+  }
+  return null;
+}
+
+function toBaseUnits(amount: string, decimals: number): bigint | null {
+  const [whole, fraction = ''] = amount.split('.');
+  if (fraction.length > decimals) return null;
+  return BigInt(`${whole}${fraction.padEnd(decimals, '0')}`);
+}
+
+function assertPublicKey(value: unknown, field: string): void {
+  try {
+    new PublicKey(value as string);
+  } catch {
+    throw new SolanaPayError(`${field} must be a valid Solana address`, 'INVALID_FIELDS');
+  }
+}
+
+function parseLink(value: unknown): URL {
+  let link: URL;
+  try {
+    link = new URL(value as string);
+  } catch {
+    throw new SolanaPayError('link must be an absolute URL', 'INVALID_FIELDS');
+  }
+  // Wallets only fetch https links; plain http is tolerated for local development
+  const local = link.hostname === 'localhost' || link.hostname === '127.0.0.1';
+  if (link.protocol !== 'https:' && !(local && link.protocol === 'http:')) {
+    throw new SolanaPayError('link must use https', 'INVALID_FIELDS');
+  }
+  return link;
+}
+
+export function createSolanaPayService(connection?: Connection): SolanaPayService {
+  return new SolanaPayService(connection);
+}
+
+// Export singleton instance
+export const solanaPayService = createSolanaPayService();
@@ -0,0 +1,94 @@
+/**
+ * Solana Pay Type Definitions
+ * Shared between the Solana Pay service, its API routes, the QR endpoint and
+ * the payment request UI
+ */
+
+export const SOLANA_PAY_PROTOCOL = 'solana:';
+
+// Query parameter action routes read reference keys from
+export const REFERENCE_PARAM = 'reference';
+
+export type PaymentRequestKind = 'transfer' | 'transaction';
+
+export type PaymentStatus = 'pending' | 'confirmed' | 'invalid' | 'expired';
+
+// Fields of a transfer request URL (solana:<recipient>?amount=...)
+export interface TransferRequestFields {
+  recipient: string;
+  amount?: string; // Decimal amount in SOL or whole tokens, never in base units
+  splToken?: string; // Mint address; SOL when omitted
+  reference?: string[];
+  label?: string;
+  message?: string;
+  memo?: string;
+}
+
+// Fields of a transaction request URL (solana:<https link>)
+export interface TransactionRequestFields {
+  link: string; // HTTPS endpoint answering GET {label, icon} and POST {account} -> {transaction}
+  label?: string;
+  message?: string;
+}
+
+export type CreatePaymentRequestParams =
+  | ({ kind: 'transfer' } & Omit<TransferRequestFields, 'reference'>)
+  | ({ kind: 'transaction' } & TransactionRequestFields);
+
+export interface PaymentRequest {
+  id: string; // The reference key, which is also what the watcher looks for on-chain
+  kind: PaymentRequestKind;
+  url: string; // solana: URL to share or encode as a QR code
+  reference: string;
+  recipient?: string;
+  amount?: string;
+  splToken?: string;
+  link?: string;
+  label?: string;
+  message?: string;
+  memo?: string;
+  status: PaymentStatus;
+  signature?: string;
+  error?: string; // Why a found transaction did not count as the payment
+  createdAt: string;
+  expiresAt: string;
+  confirmedAt?: string;
+}
+
+export class SolanaPayError extends Error {
+  constructor(message: string, public code: 'INVALID_FIELDS' | 'NOT_FOUND' | 'RPC_ERROR') {
+    super(message);
+    this.name = 'SolanaPayError';
+  }
+}
+
+/**
+ * Encode a transfer request URL
+ */
+export function encodeTransferRequest(fields: TransferRequestFields): string {
+  const params = new URLSearchParams();
+  if (fields.amount !== undefined) params.append('amount', fields.amount);
+  if (fields.splToken) params.append('spl-token', fields.splToken);
+  for (const reference of fields.reference || []) params.append(REFERENCE_PARAM, reference);
+  if (fields.label) params.append('label', fields.label);
+  if (fields.message) params.append('message', fields.message);
+  if (fields.memo) params.append('memo', fields.memo);
+
+  const query = params.toString().replace(/\+/g, '%20');
+  return `${SOLANA_PAY_PROTOCOL}${fields.recipient}${query ? `?${query}` : ''}`;
+}
+
+/**
+ * Encode a transaction request URL. Links with a query string must be
+ * URL-encoded so wallets do not read their parameters as Solana Pay fields.
+ */
+export function encodeTransactionRequest(fields: TransactionRequestFields): string {
+  const link = new URL(fields.link);
+  const encodedLink = link.search ? encodeURIComponent(link.href) : link.href;
+
+  const params = new URLSearchParams();
+  if (fields.label) params.append('label', fields.label);
+  if (fields.message) params.append('message', fields.message);
+  const query = params.toString().replace(/\+/g, '%20');
+  return `${SOLANA_PAY_PROTOCOL}${encodedLink}${query ? `?${query}` : ''}`;
+}
@@ -1,9 +1,7 @@
 import { 
   Connection, 
   PublicKey, 
-  Keypair,
   Transaction,
-  sendAndConfirmTransaction,
   LAMPORTS_PER_SOL,
   SystemProgram,
   TransactionInstruction,
@@ -17,28 +15,54 @@ import {
   Address,
   Rpc,
   RpcSubscriptions,
-  createKeyPairSignerFromBytes,
-  KeyPairSigner,
 } from '@solana/kit';
 import {
   TOKEN_PROGRAM_ID,
+  TOKEN_2022_PROGRAM_ID,
+  AccountState,
+  ExtensionType,
   getAssociatedTokenAddress,
-  createAssociatedTokenAccountInstruction,
-  createTransferInstruction,
+  getAssociatedTokenAddressSync,
+  createAssociatedTokenAccountIdempotentInstruction,
+  createTransferCheckedInstruction,
+  createTransferCheckedWithFeeInstruction,
+  createTransferCheckedWithTransferHookInstruction,
+  createTransferCheckedWithFeeAndTransferHookInstruction,
+  calculateEpochFee,
+  getDefaultAccountState,
+  getExtensionTypes,
+  getMemoTransfer,
+  getNonTransferable,
+  getPausableConfig,
+  getTransferFeeConfig,
+  getTransferHook,
   getMint,
   getAccount,
+  unpackAccount,
+  unpackMint,
+  type Account as TokenAccount,
 } from '@solana/spl-token';
-import bs58 from 'bs58';
 import { SOLANA_CONFIG } from './solana-config';
 import { jupiterTokenService } from './jupiter-token-service';
 import { JupiterTokenData, PriceComparison } from './jupiter-token-types';
+import { transactionSimulator, SimulationReport } from './transaction-simulator';
+import {
+  MAX_TRANSFER_RECIPIENTS,
+  TokenTransferError,
+  createMemoInstruction,
+  formatTokenAmount,
+  packInstructionGroups,
+  parseTokenAmount,
+  type PlannedTokenTransfer,
+  type TokenTransferOptions,
+  type TokenTransferPlan,
+  type TokenTransferRecipient,
+} from './token-transfer';
 
 export class SolanaService {
   private connection: Connection;
   private rpc: Rpc<any>;
   private rpcSubscriptions: RpcSubscriptions<any>;
-  private wallet: Keypair | null = null;
-  private signer: KeyPairSigner | null = null;
 
   constructor() {
     const rpcUrl = SOLANA_CONFIG.rpcUrl[SOLANA_CONFIG.network];
@@ -46,28 +70,6 @@ export class SolanaService {
     this.connection = new Connection(rpcUrl, SOLANA_CONFIG.commitment);
     this.rpc = createSolanaRpc(rpcUrl);
     this.rpcSubscriptions = createSolanaRpcSubscriptions(wsUrl);
-    
-    // Initialize wallet from environment if available
-    this.initializeWallet();
-  }
-
-  private async initializeWallet() {
-    const privateKey = process.env.SOLANA_PRIVATE_KEY;
-    if (privateKey) {
-      try {
-        // Try to decode from base58
-        const decoded = bs58.decode(privateKey);
-        this.wallet = Keypair.fromSecretKey(decoded);
-        this.signer = await createKeyPairSignerFromBytes(decoded);
-      } catch (e) {
-        console.warn('Failed to initialize wallet from private key:', e);
-      }
-    }
-  }
-
-  // Get wallet public key
-  getWalletAddress(): PublicKey | null {
-    return this.wallet?.publicKey || null;
   }
 
   // Check SOL balance
@@ -99,114 +101,316 @@ export class SolanaService {
     }
   }
 
-  // Transfer SOL
-  async transferSol(
-    from: Keypair,
+  // Build an unsigned SOL transfer for the sender's wallet to sign
+  async buildSolTransfer(
+    from: string,
     to: string,
     amount: number
-  ): Promise<string> {
-    try {
-      const toPubkey = new PublicKey(to);
-      const lamportsToSend = amount * LAMPORTS_PER_SOL;
-      
-      const transaction = new Transaction().add(
-        SystemProgram.transfer({
-          fromPubkey: from.publicKey,
-          toPubkey: toPubkey,
-          lamports: lamportsToSend,
-        })
-      );
-      
-      // Add priority fee
-      transaction.add(
-        ComputeBudgetProgram.setComputeUnitPrice({
-          microLamports: SOLANA_CONFIG.priorityFee * LAMPORTS_PER_SOL * 1000000
-        })
-      );
-      
-      const signature = await sendAndConfirmTransaction(
-        this.connection,
-        transaction,
-        [from],
-        {
-          commitment: SOLANA_CONFIG.commitment,
+  ): Promise<{ transaction: Transaction; lastValidBlockHeight: number }> {
+    const fromPubkey = new PublicKey(from);
+    const toPubkey = new PublicKey(to);
+
+    const transaction = new Transaction().add(
+      this.createPriorityFeeInstruction(),
+      SystemProgram.transfer({
+        fromPubkey,
+        toPubkey,
+        lamports: Math.round(amount * LAMPORTS_PER_SOL),
+      })
+    );
+
+    return this.prepareForSigning(transaction, fromPubkey);
+  }
+
+  /**
+   * Plan an SPL Token or Token-2022 transfer to one or more recipients without
+   * fetching a blockhash or simulating. Detects the mint's token program,
+   * refuses mints and accounts that cannot receive the transfer, and packs
+   * the transfers into as few transactions as fit the packet size limit.
+   */
+  async planTokenTransfer(
+    from: string,
+    mintAddress: string,
+    recipients: TokenTransferRecipient[],
+    options: TokenTransferOptions = {}
+  ): Promise<TokenTransferPlan> {
+    if (recipients.length === 0) {
+      throw new TokenTransferError('At least one recipient is required', 'TOO_MANY_RECIPIENTS');
+    }
+    if (recipients.length > MAX_TRANSFER_RECIPIENTS) {
+      throw new TokenTransferError(`At most ${MAX_TRANSFER_RECIPIENTS} recipients can be sent to at once`, 'TOO_MANY_RECIPIENTS');
+    }
+
+    const owner = toPublicKey(from, 'sender');
+    const mint = toPublicKey(mintAddress, 'mint');
+    const warnings: string[] = [];
+
+    const mintAccount = await this.connection.getAccountInfo(mint);
+    if (!mintAccount || !(mintAccount.owner.equals(TOKEN_PROGRAM_ID) || mintAccount.owner.equals(TOKEN_2022_PROGRAM_ID))) {
+      throw new TokenTransferError(`${mintAddress} is not an SPL token mint`, 'INVALID_MINT');
+    }
+    const programId = mintAccount.owner;
+    const mintInfo = unpackMint(mint, mintAccount, programId);
+    const { decimals } = mintInfo;
+    const extensions = getExtensionTypes(mintInfo.tlvData).map(type => ExtensionType[type]);
+
+    if (getNonTransferable(mintInfo)) {
+      throw new TokenTransferError(`${mintAddress} is a non-transferable (soulbound) token`, 'NON_TRANSFERABLE');
+    }
+    if (getPausableConfig(mintInfo)?.paused) {
+      throw new TokenTransferError(`Transfers of ${mintAddress} are paused by the mint authority`, 'MINT_PAUSED');
+    }
+    const transferFeeConfig = getTransferFeeConfig(mintInfo);
+    const epoch = transferFeeConfig ? BigInt((await this.connection.getEpochInfo()).epoch) : BigInt(0);
+    const transferHook = getTransferHook(mintInfo);
+    const hookProgram = transferHook && !transferHook.programId.equals(PublicKey.default) ? transferHook.programId : null;
+    const newAccountsFrozen = getDefaultAccountState(mintInfo)?.state === AccountState.Frozen;
+
+    // Sender's token account
+    const source = getAssociatedTokenAddressSync(mint, owner, true, programId);
+    const sourceAccount = await this.connection.getAccountInfo(source);
+    if (!sourceAccount) {
+      throw new TokenTransferError(`${from} holds no ${mintAddress} tokens`, 'INSUFFICIENT_BALANCE');
+    }
+    const sourceInfo = unpackAccount(source, sourceAccount, programId);
+    if (sourceInfo.isFrozen) {
+      throw new TokenTransferError(`The sender's token account ${source.toBase58()} is frozen`, 'ACCOUNT_FROZEN');
+    }
+
+    // Recipients may be wallets or existing token accounts for this mint
+    const recipientKeys = recipients.map(recipient => toPublicKey(recipient.to, 'recipient'));
+    const recipientAccounts = await this.getAccountsInfo(recipientKeys);
+    const destinations = recipientKeys.map((key, index) => {
+      const account = recipientAccounts[index];
+      if (!account?.owner.equals(programId)) {
+        return getAssociatedTokenAddressSync(mint, key, true, programId);
+      }
+      let tokenAccount: TokenAccount;
+      try {
+        tokenAccount = unpackAccount(key, account, programId);
+      } catch {
+        throw new TokenTransferError(`${key.toBase58()} is not a wallet or token account`, 'INVALID_ADDRESS');
+      }
+      if (!tokenAccount.mint.equals(mint)) {
+        throw new TokenTransferError(`${key.toBase58()} is a token account for a different mint`, 'INVALID_ADDRESS');
+      }
+      return key;
+    });
+    const destinationAccounts = await this.getAccountsInfo(destinations);
+
+    const transfers: PlannedTokenTransfer[] = [];
+    const groups: TransactionInstruction[][] = [];
+    const createdAccounts = new Set<string>();
+    let totalRaw = BigInt(0);
+    let totalFee = BigInt(0);
+
+    for (let index = 0; index < recipients.length; index++) {
+      const recipient = recipients[index];
+      const destination = destinations[index];
+      const destinationAccount = destinationAccounts[index];
+      const rawAmount = parseTokenAmount(recipient.amount, decimals);
+      const group: TransactionInstruction[] = [];
+
+      let createsAccount = false;
+      let memoRequired = false;
+      if (destinationAccount) {
+        const tokenAccount = unpackAccount(destination, destinationAccount, programId);
+        if (tokenAccount.isFrozen) {
+          throw new TokenTransferError(`The recipient token account ${destination.toBase58()} is frozen`, 'ACCOUNT_FROZEN');
+        }
+        memoRequired = !!getMemoTransfer(tokenAccount)?.requireIncomingTransferMemos;
+      } else {
+        if (newAccountsFrozen) {
+          throw new TokenTransferError(
+            `${recipient.to} has no token account and new ${mintAddress} accounts start frozen until the issuer thaws them`,
+            'ACCOUNT_FROZEN'
+          );
         }
+        createsAccount = !createdAccounts.has(destination.toBase58());
+        if (createsAccount) {
+          createdAccounts.add(destination.toBase58());
+          group.push(createAssociatedTokenAccountIdempotentInstruction(owner, destination, recipientKeys[index], mint, programId));
+        }
+      }
+
+      if (memoRequired && !options.memo) {
+        throw new TokenTransferError(
+          `The token account of ${recipient.to} only accepts transfers with a memo; ask the user for the memo to include`,
+          'MEMO_REQUIRED'
+        );
+      }
+      // Memo-required accounts check the instruction immediately before the transfer
+      if (options.memo) {
+        group.push(createMemoInstruction(options.memo, owner));
+      }
+
+      const fee = transferFeeConfig ? calculateEpochFee(transferFeeConfig, epoch, rawAmount) : BigInt(0);
+      group.push(await this.createTokenTransferInstruction({
+        source, mint, destination, owner, rawAmount, decimals, fee, programId,
+        withFee: !!transferFeeConfig,
+        hookProgram,
+      }));
+      groups.push(group);
+
+      totalRaw += rawAmount;
+      totalFee += fee;
+      transfers.push({
+        to: recipient.to,
+        destination: destination.toBase58(),
+        amount: formatTokenAmount(rawAmount, decimals),
+        rawAmount,
+        fee,
+        netAmount: formatTokenAmount(rawAmount - fee, decimals),
+        createsAccount,
+        memoRequired,
+      });
+    }
+
+    if (totalRaw > sourceInfo.amount) {
+      throw new TokenTransferError(
+        `Insufficient balance: sending ${formatTokenAmount(totalRaw, decimals)} but the wallet holds ${formatTokenAmount(sourceInfo.amount, decimals)}`,
+        'INSUFFICIENT_BALANCE'
       );
-      
-      return signature;
-    } catch (error) {
-      console.error('Error transferring SOL:', error);
-      throw error;
     }
+
+    const transactions = packInstructionGroups(groups, owner, () => [this.createPriorityFeeInstruction()]);
+
+    if (totalFee > BigInt(0)) {
+      warnings.push(`The mint charges a transfer fee: ${formatTokenAmount(totalFee, decimals)} is withheld from the amount sent`);
+    }
+    if (hookProgram) {
+      warnings.push(`Transfers run the mint's transfer hook program ${hookProgram.toBase58()}`);
+    }
+    if (createdAccounts.size > 0) {
+      warnings.push(`Creates ${createdAccounts.size} token account${createdAccounts.size === 1 ? '' : 's'}; the sender pays the rent`);
+    }
+    if (transactions.length > 1) {
+      warnings.push(`The transfer is split into ${transactions.length} transactions, each signed separately`);
+    }
+
+    return {
+      mint: mint.toBase58(),
+      programId: programId.toBase58(),
+      tokenProgram: programId.equals(TOKEN_2022_PROGRAM_ID) ? 'token-2022' : 'spl-token',
+      decimals,
+      source: source.toBase58(),
+      sourceBalance: formatTokenAmount(sourceInfo.amount, decimals),
+      total: formatTokenAmount(totalRaw, decimals),
+      totalRaw,
+      totalFee: formatTokenAmount(totalFee, decimals),
+      transfers,
+      extensions,
+      transactions,
+      warnings,
+    };
   }
 
-  // Transfer SPL Token
-  async transferToken(
-    from: Keypair,
-    to: string,
+  // Build unsigned SPL token transfers for the sender's wallet to sign, one per transaction in the plan
+  async buildTokenTransfer(
+    from: string,
     mintAddress: string,
-    amount: number
+    recipients: TokenTransferRecipient[],
+    options: TokenTransferOptions = {}
+  ): Promise<{ plan: TokenTransferPlan; transactions: { transaction: Transaction; lastValidBlockHeight: number }[] }> {
+    const plan = await this.planTokenTransfer(from, mintAddress, recipients, options);
+    const feePayer = new PublicKey(from);
+
+    const transactions = [];
+    for (const transaction of plan.transactions) {
+      transactions.push(await this.prepareForSigning(transaction, feePayer));
+    }
+    return { plan, transactions };
+  }
+
+  // Submit a wallet-signed transaction and wait for confirmation
+  async submitSignedTransaction(
+    serialized: Uint8Array,
+    lastValidBlockHeight?: number
   ): Promise<string> {
-    try {
-      const fromPubkey = from.publicKey;
-      const toPubkey = new PublicKey(to);
-      const mint = new PublicKey(mintAddress);
-      
-      // Get token accounts
-      const fromTokenAccount = await getAssociatedTokenAddress(mint, fromPubkey);
-      const toTokenAccount = await getAssociatedTokenAddress(mint, toPubkey);
-      
-      // Get mint info for decimals
-      const mintInfo = await getMint(this.connection, mint);
-      const amountInDecimals = amount * Math.pow(10, mintInfo.decimals);
-      
-      const transaction = new Transaction();
-      
-      // Check if destination token account exists
-      const toAccountInfo = await this.connection.getAccountInfo(toTokenAccount);
-      if (!toAccountInfo) {
-        // Create associated token account for recipient
-        transaction.add(
-          createAssociatedTokenAccountInstruction(
-            fromPubkey,
-            toTokenAccount,
-            toPubkey,
-            mint
-          )
-        );
-      }
-      
-      // Add transfer instruction
-      transaction.add(
-        createTransferInstruction(
-          fromTokenAccount,
-          toTokenAccount,
-          fromPubkey,
-          amountInDecimals
-        )
-      );
-      
-      // Add priority fee
-      transaction.add(
-        ComputeBudgetProgram.setComputeUnitPrice({
-          microLamports: SOLANA_CONFIG.priorityFee * LAMPORTS_PER_SOL * 1000000
-        })
-      );
-      
-      const signature = await sendAndConfirmTransaction(
-        this.connection,
-        transaction,
-        [from],
-        {
-          commitment: SOLANA_CONFIG.commitment,
-        }
-      );
-      
-      return signature;
-    } catch (error) {
-      console.error('Error transferring token:', error);
-      throw error;
+    const signature = await this.connection.sendRawTransaction(serialized, {
+      skipPreflight: false,
+      preflightCommitment: SOLANA_CONFIG.commitment,
+    });
+
+    const latest = await this.connection.getLatestBlockhash();
+    const result = await this.connection.confirmTransaction(
+      {
+        signature,
+        blockhash: latest.blockhash,
+        lastValidBlockHeight: lastValidBlockHeight ?? latest.lastValidBlockHeight,
+      },
+      SOLANA_CONFIG.commitment
+    );
+
+    if (result.value.err) {
+      throw new Error(`Transaction ${signature} failed: ${JSON.stringify(result.value.err)}`);
+    }
+
+    return signature;
+  }
+
+  // Spread the configured priority fee (in SOL) over the default compute unit limit
+  private createPriorityFeeInstruction(): TransactionInstruction {
+    const defaultComputeUnits = 200000;
+    return ComputeBudgetProgram.setComputeUnitPrice({
+      microLamports: Math.floor((SOLANA_CONFIG.priorityFee * LAMPORTS_PER_SOL * 1000000) / defaultComputeUnits),
+    });
+  }
+
+  // transferChecked, with the fee and transfer hook variants Token-2022 mints require
+  private async createTokenTransferInstruction(params: {
+    source: PublicKey;
+    mint: PublicKey;
+    destination: PublicKey;
+    owner: PublicKey;
+    rawAmount: bigint;
+    decimals: number;
+    fee: bigint;
+    programId: PublicKey;
+    withFee: boolean;
+    hookProgram: PublicKey | null;
+  }): Promise<TransactionInstruction> {
+    const { source, mint, destination, owner, rawAmount, decimals, fee, programId } = params;
+    const commitment = SOLANA_CONFIG.commitment;
+
+    if (params.hookProgram) {
+      return params.withFee
+        ? createTransferCheckedWithFeeAndTransferHookInstruction(this.connection, source, mint, destination, owner, rawAmount, decimals, fee, [], commitment, programId)
+        : createTransferCheckedWithTransferHookInstruction(this.connection, source, mint, destination, owner, rawAmount, decimals, [], commitment, programId);
     }
+    return params.withFee
+      ? createTransferCheckedWithFeeInstruction(source, mint, destination, owner, rawAmount, decimals, fee, [], programId)
+      : createTransferCheckedInstruction(source, mint, destination, owner, rawAmount, decimals, [], programId);
+  }
+
+  // getMultipleAccountsInfo accepts at most 100 accounts per request
+  private async getAccountsInfo(keys: PublicKey[]) {
+    const accounts = [];
+    for (let index = 0; index < keys.length; index += 100) {
+      accounts.push(...await this.connection.getMultipleAccountsInfo(keys.slice(index, index + 100)));
+    }
+    return accounts;
+  }
+
+  // Set fee payer and blockhash, then refuse transactions that would fail
+  private async prepareForSigning(
+    transaction: Transaction,
+    feePayer: PublicKey
+  ): Promise<{ transaction: Transaction; lastValidBlockHeight: number }> {
+    const { blockhash, lastValidBlockHeight } = await this.connection.getLatestBlockhash();
+    transaction.recentBlockhash = blockhash;
+    await this.simulateBeforeSend(transaction, feePayer);
+    return { transaction, lastValidBlockHeight };
+  }
+
+  // Simulate a transaction and refuse to send it if it would fail
+  private async simulateBeforeSend(transaction: Transaction, feePayer: PublicKey): Promise<SimulationReport> {
+    transaction.feePayer = feePayer;
+    const report = await transactionSimulator.simulate(transaction);
+    if (!report.success) {
+      throw new Error(`Transaction simulation failed: ${report.error}`);
+    }
+    return report;
   }
 
   // Get recent blockhash
@@ -386,5 +590,13 @@ export class SolanaService {
   }
 }
 
+function toPublicKey(value: string, label: string): PublicKey {
+  try {
+    return new PublicKey(value);
+  } catch {
+    throw new TokenTransferError(`Invalid ${label} address: ${value}`, 'INVALID_ADDRESS');
+  }
+}
+
 // Export singleton instance
 export const solanaService = new SolanaService();
\ No newline at end of file
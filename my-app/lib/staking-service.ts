@@ -0,0 +1,498 @@
+/**
+ * Staking Service
+ * Native SOL staking: a validator directory built from `getVoteAccounts`,
+ * `getBlockProduction` and the on-chain validator-info accounts, and unsigned
+ * stake, deactivate and withdraw transactions for the owner's wallet to sign.
+ *
+ * New stake accounts are derived from the owner's wallet with
+ * createAccountWithSeed, so the wallet is the only signer and no throwaway
+ * keypair has to co-sign the transaction.
+ */
+
+import {
+  Authorized,
+  Connection,
+  LAMPORTS_PER_SOL,
+  Lockup,
+  PublicKey,
+  StakeProgram,
+  Transaction,
+  ValidatorInfo as OnChainValidatorInfo,
+} from '@solana/web3.js';
+import { SOLANA_CONFIG } from './solana-config';
+import {
+  StakingError,
+  type ParsedStakeAccount,
+  type StakeAccountState,
+  type StakeActionRequest,
+  type StakePosition,
+  type StakeTransactionPlan,
+  type ValidatorDirectory,
+  type ValidatorInfo,
+  type ValidatorQuery,
+} from './staking-types';
+
+const CONFIG_PROGRAM_ID = new PublicKey('Config1111111111111111111111111111111111111');
+const VALIDATOR_INFO_KEY = new PublicKey('Va1idator1nfo111111111111111111111111111111');
+const DIRECTORY_TTL_MS = 5 * 60 * 1000;
+const VALIDATOR_NAMES_TTL_MS = 60 * 60 * 1000;
+const MAX_RECOMMENDED_COMMISSION = 10;
+const MAX_RECOMMENDED_SKIP_RATE = 0.05;
+const BASE_FEE_LAMPORTS = 5000;
+const U64_MAX = BigInt('18446744073709551615');
+const STAKE_STATES: StakeAccountState[] = ['uninitialized', 'initialized', 'delegated', 'rewards-pool'];
+
+export class StakingService {
+  private connection: Connection;
+  private directory: { value: ValidatorDirectory; expiresAt: number } | null = null;
+  private validatorNames: { value: Map<string, { name?: string; website?: string }>; expiresAt: number } | null = null;
+
+  constructor(connection?: Connection) {
+    this.connection = connection || new Connection(
+      SOLANA_CONFIG.rpcUrl[SOLANA_CONFIG.network],
+      SOLANA_CONFIG.commitment
+    );
+  }
+
+  /**
+   * All vote accounts with commission, stake and this epoch's skip rate
+   */
+  async getValidatorDirectory(): Promise<ValidatorDirectory> {
+    const now = Date.now();
+    if (this.directory && this.directory.expiresAt > now) {
+      return this.directory.value;
+    }
+
+    let voteAccounts, production, epochInfo;
+    try {
+      [voteAccounts, production, epochInfo] = await Promise.all([
+        this.connection.getVoteAccounts(),
+        // Skip rates are optional; some RPC providers do not serve block production
+        this.connection.getBlockProduction().catch(() => null),
+        this.connection.getEpochInfo(),
+      ]);
+    } catch (error) {
+      throw new StakingError(`Failed to load vote accounts: ${error instanceof Error ? error.message : String(error)}`, 'RPC_ERROR');
+    }
+    const names = await this.getValidatorNames().catch(() => new Map<string, { name?: string; website?: string }>());
+    const byIdentity = production?.value.byIdentity || {};
+
+    const toValidator = (account: (typeof voteAccounts.current)[number], delinquent: boolean): ValidatorInfo => {
+      const [leaderSlots, blocksProduced] = byIdentity[account.nodePubkey] || [0, 0];
+      const skipRate = leaderSlots > 0 ? (leaderSlots - blocksProduced) / leaderSlots : null;
+      const info = names.get(account.nodePubkey);
+      return {
+        voteAccount: account.votePubkey,
+        identity: account.nodePubkey,
+        name: info?.name,
+        website: info?.website,
+        commission: account.commission,
+        activatedStake: account.activatedStake / LAMPORTS_PER_SOL,
+        skipRate,
+        lastVote: account.lastVote,
+        delinquent,
+        recommended: !delinquent
+          && account.commission <= MAX_RECOMMENDED_COMMISSION
+          && (skipRate ?? 0) <= MAX_RECOMMENDED_SKIP_RATE,
+      };
+    };
+
+    const value: ValidatorDirectory = {
+      epoch: epochInfo.epoch,
+      validators: [
+        ...voteAccounts.current.map(account => toValidator(account, false)),
+        ...voteAccounts.delinquent.map(account => toValidator(account, true)),
+      ].sort((a, b) => b.activatedStake - a.activatedStake),
+      generatedAt: new Date(now).toISOString(),
+    };
+    this.directory = { value, expiresAt: now + DIRECTORY_TTL_MS };
+    return value;
+  }
+
+  /**
+   * Filter and sort the validator directory
+   */
+  async getValidators(query: ValidatorQuery = {}): Promise<ValidatorInfo[]> {
+    const { limit = 20, sortBy = 'stake', recommendedOnly = true } = query;
+    const { validators } = await this.getValidatorDirectory();
+
+    const filtered = validators.filter(validator => !recommendedOnly || validator.recommended);
+    const sorted = [...filtered].sort((a, b) => {
+      if (sortBy === 'commission') return a.commission - b.commission || b.activatedStake - a.activatedStake;
+      if (sortBy === 'skipRate') return (a.skipRate ?? 1) - (b.skipRate ?? 1) || b.activatedStake - a.activatedStake;
+      return b.activatedStake - a.activatedStake;
+    });
+    return sorted.slice(0, limit);
+  }
+
+  /**
+   * Look up a validator by vote account; null when it is not a known vote account
+   */
+  async getValidator(voteAccount: string): Promise<ValidatorInfo | null> {
+    const { validators } = await this.getValidatorDirectory();
+    return validators.find(validator => validator.voteAccount === voteAccount) || null;
+  }
+
+  /**
+   * Stake accounts the owner can withdraw from or deactivate
+   */
+  async getStakePositions(owner: string): Promise<StakePosition[]> {
+    const ownerKey = toPublicKey(owner, 'owner');
+    const [{ epoch }, byWithdrawer, byStaker] = await Promise.all([
+      this.connection.getEpochInfo(),
+      this.connection.getProgramAccounts(StakeProgram.programId, {
+        filters: [{ memcmp: { offset: 44, bytes: ownerKey.toBase58() } }],
+      }),
+      this.connection.getProgramAccounts(StakeProgram.programId, {
+        filters: [{ memcmp: { offset: 12, bytes: ownerKey.toBase58() } }],
+      }),
+    ]);
+
+    const accounts = new Map([...byWithdrawer, ...byStaker].map(entry => [entry.pubkey.toBase58(), entry.account]));
+    const positions: StakePosition[] = [];
+    for (const [address, account] of accounts) {
+      const parsed = parseStakeAccount(account.data);
+      if (parsed) {
+        positions.push(toPosition(address, account.lamports, parsed, epoch));
+      }
+    }
+    return positions.sort((a, b) => b.lamports - a.lamports);
+  }
+
+  /**
+   * Build the transaction for a stake, deactivate or withdraw request
+   */
+  async buildStakeAction(owner: string, request: StakeActionRequest): Promise<StakeTransactionPlan> {
+    if (request.action === 'stake') {
+      if (!request.validator) {
+        throw new StakingError('A validator vote account is required to stake', 'INVALID_VALIDATOR');
+      }
+      if (request.amount === undefined) {
+        throw new StakingError('An amount of SOL is required to stake', 'INVALID_AMOUNT');
+      }
+      return this.buildStakeTransaction(owner, request.validator, request.amount);
+    }
+
+    if (!request.stakeAccount) {
+      throw new StakingError(`A stake account is required to ${request.action}`, 'NOT_STAKE_ACCOUNT');
+    }
+    return request.action === 'deactivate'
+      ? this.buildDeactivateTransaction(owner, request.stakeAccount)
+      : this.buildWithdrawTransaction(owner, request.stakeAccount, request.amount);
+  }
+
+  /**
+   * Create a stake account derived from the owner's wallet and delegate it
+   * to a validator in one transaction
+   */
+  async buildStakeTransaction(owner: string, voteAccount: string, amount: number): Promise<StakeTransactionPlan> {
+    const ownerKey = toPublicKey(owner, 'owner');
+    const voteKey = toPublicKey(voteAccount, 'validator vote account');
+    const lamports = Math.round(amount * LAMPORTS_PER_SOL);
+    if (!Number.isFinite(amount) || lamports <= 0) {
+      throw new StakingError('Stake amount must be a positive number of SOL', 'INVALID_AMOUNT');
+    }
+
+    const validator = await this.getValidator(voteKey.toBase58());
+    if (!validator) {
+      throw new StakingError(`${voteAccount} is not a vote account of an active validator`, 'INVALID_VALIDATOR');
+    }
+    const warnings: string[] = [];
+    if (validator.delinquent) {
+      warnings.push('This validator is delinquent (not voting); the stake earns no rewards until it recovers.');
+    }
+    if (validator.commission > MAX_RECOMMENDED_COMMISSION) {
+      warnings.push(`This validator keeps ${validator.commission}% of staking rewards as commission.`);
+    }
+    if (validator.skipRate !== null && validator.skipRate > MAX_RECOMMENDED_SKIP_RATE) {
+      warnings.push(`This validator skipped ${(validator.skipRate * 100).toFixed(1)}% of its leader slots this epoch.`);
+    }
+
+    const [balance, rentExemptReserve, minimumDelegation] = await Promise.all([
+      this.connection.getBalance(ownerKey),
+      this.connection.getMinimumBalanceForRentExemption(StakeProgram.space),
+      this.connection.getStakeMinimumDelegation().then(result => result.value).catch(() => 1),
+    ]);
+    if (lamports < minimumDelegation) {
+      throw new StakingError(`The minimum delegation is ${minimumDelegation / LAMPORTS_PER_SOL} SOL`, 'INVALID_AMOUNT');
+    }
+    const required = lamports + rentExemptReserve + BASE_FEE_LAMPORTS;
+    if (balance < required) {
+      throw new StakingError(
+        `Insufficient balance: staking ${amount} SOL needs ${required / LAMPORTS_PER_SOL} SOL including the stake account rent reserve and fee, the wallet has ${balance / LAMPORTS_PER_SOL} SOL`,
+        'INSUFFICIENT_BALANCE'
+      );
+    }
+
+    const { seed, stakeAccount } = await this.deriveUnusedStakeAccount(ownerKey);
+    const transaction = new Transaction().add(
+      StakeProgram.createAccountWithSeed({
+        fromPubkey: ownerKey,
+        stakePubkey: stakeAccount,
+        basePubkey: ownerKey,
+        seed,
+        authorized: new Authorized(ownerKey, ownerKey),
+        lockup: new Lockup(0, 0, PublicKey.default),
+        lamports: lamports + rentExemptReserve,
+      }),
+      StakeProgram.delegate({
+        stakePubkey: stakeAccount,
+        authorizedPubkey: ownerKey,
+        votePubkey: voteKey,
+      })
+    );
+
+    return {
+      action: 'stake',
+      owner: ownerKey.toBase58(),
+      stakeAccount: stakeAccount.toBase58(),
+      amount: lamports / LAMPORTS_PER_SOL,
+      validator,
+      rentExemptReserve: rentExemptReserve / LAMPORTS_PER_SOL,
+      seed,
+      warnings,
+      ...(await this.prepare(transaction, ownerKey)),
+    };
+  }
+
+  /**
+   * Deactivate a delegated stake account; it becomes withdrawable after the
+   * cooldown, normally at the end of the current epoch
+   */
+  async buildDeactivateTransaction(owner: string, stakeAccount: string): Promise<StakeTransactionPlan> {
+    const ownerKey = toPublicKey(owner, 'owner');
+    const { address, parsed, position } = await this.loadStakeAccount(stakeAccount);
+
+    if (parsed.staker !== ownerKey.toBase58()) {
+      throw new StakingError(`${owner} is not the stake authority of ${stakeAccount}`, 'UNAUTHORIZED');
+    }
+    if (!parsed.delegation) {
+      throw new StakingError(`${stakeAccount} is not delegated`, 'INVALID_STATE');
+    }
+    if (parsed.delegation.deactivationEpoch !== null) {
+      throw new StakingError(`${stakeAccount} is already ${position.status === 'inactive' ? 'inactive' : 'deactivating'}`, 'INVALID_STATE');
+    }
+
+    const transaction = new Transaction().add(
+      StakeProgram.deactivate({ stakePubkey: address, authorizedPubkey: ownerKey })
+    );
+    return {
+      action: 'deactivate',
+      owner: ownerKey.toBase58(),
+      stakeAccount: address.toBase58(),
+      amount: parsed.delegation.stake / LAMPORTS_PER_SOL,
+      validator: await this.getValidator(parsed.delegation.voter).catch(() => null),
+      warnings: ['Deactivated stake stops earning rewards and can be withdrawn once the cooldown ends, normally at the next epoch boundary.'],
+      ...(await this.prepare(transaction, ownerKey)),
+    };
+  }
+
+  /**
+   * Withdraw SOL from a stake account back to the owner's wallet. Omitting the
+   * amount withdraws everything currently withdrawable.
+   */
+  async buildWithdrawTransaction(owner: string, stakeAccount: string, amount?: number): Promise<StakeTransactionPlan> {
+    const ownerKey = toPublicKey(owner, 'owner');
+    const { address, parsed, position, epoch } = await this.loadStakeAccount(stakeAccount);
+
+    if (parsed.withdrawer !== ownerKey.toBase58()) {
+      throw new StakingError(`${owner} is not the withdraw authority of ${stakeAccount}`, 'UNAUTHORIZED');
+    }
+    if (parsed.lockup && parsed.lockup.custodian !== ownerKey.toBase58()
+      && (parsed.lockup.unixTimestamp > Date.now() / 1000 || parsed.lockup.epoch > epoch)) {
+      throw new StakingError(`${stakeAccount} is locked up until epoch ${parsed.lockup.epoch} / ${new Date(parsed.lockup.unixTimestamp * 1000).toISOString()}`, 'LOCKED');
+    }
+
+    const withdrawable = Math.round(position.withdrawable * LAMPORTS_PER_SOL);
+    if (withdrawable <= 0) {
+      throw new StakingError(
+        position.status === 'deactivating'
+          ? `${stakeAccount} is still cooling down; it can be withdrawn after epoch ${parsed.delegation?.deactivationEpoch}`
+          : `${stakeAccount} has nothing to withdraw; deactivate it first`,
+        'INVALID_STATE'
+      );
+    }
+
+    let lamports = withdrawable;
+    if (amount !== undefined) {
+      lamports = Math.round(amount * LAMPORTS_PER_SOL);
+      if (!Number.isFinite(amount) || lamports <= 0) {
+        throw new StakingError('Withdraw amount must be a positive number of SOL', 'INVALID_AMOUNT');
+      }
+      if (lamports > withdrawable) {
+        throw new StakingError(`Only ${position.withdrawable} SOL can be withdrawn from ${stakeAccount}`, 'INSUFFICIENT_BALANCE');
+      }
+      // A partial withdrawal from an inactive account must leave the rent reserve behind
+      if (position.status === 'inactive' && lamports < position.lamports && position.lamports - lamports < parsed.rentExemptReserve) {
+        throw new StakingError(
+          `Withdrawing ${amount} SOL would leave less than the rent reserve; withdraw everything (${position.balance} SOL) to close the account`,
+          'INVALID_AMOUNT'
+        );
+      }
+    }
+
+    const transaction = new Transaction().add(
+      StakeProgram.withdraw({
+        stakePubkey: address,
+        authorizedPubkey: ownerKey,
+        toPubkey: ownerKey,
+        lamports,
+      })
+    );
+    const warnings: string[] = [];
+    if (lamports === position.lamports) {
+      warnings.push('This withdraws the full balance and closes the stake account.');
+    }
+
+    return {
+      action: 'withdraw',
+      owner: ownerKey.toBase58(),
+      stakeAccount: address.toBase58(),
+      amount: lamports / LAMPORTS_PER_SOL,
+      warnings,
+      ...(await this.prepare(transaction, ownerKey)),
+    };
+  }
+
+  private async loadStakeAccount(stakeAccount: string) {
+    const address = toPublicKey(stakeAccount, 'stake account');
+    const [account, { epoch }] = await Promise.all([
+      this.connection.getAccountInfo(address),
+      this.connection.getEpochInfo(),
+    ]);
+    const parsed = account && account.owner.equals(StakeProgram.programId) ? parseStakeAccount(account.data) : null;
+    if (!account || !parsed) {
+      throw new StakingError(`${stakeAccount} is not a stake account`, 'NOT_STAKE_ACCOUNT');
+    }
+    return { address, parsed, epoch, position: toPosition(address.toBase58(), account.lamports, parsed, epoch) };
+  }
+
+  // Seeds are unique per wallet; retry on the rare collision with an existing account
+  private async deriveUnusedStakeAccount(owner: PublicKey): Promise<{ seed: string; stakeAccount: PublicKey }> {
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const seed = `stake:${Date.now().toString(36)}${attempt > 0 ? `:${attempt}` : ''}`;
+      const stakeAccount = await PublicKey.createWithSeed(owner, seed, StakeProgram.programId);
+      if (!(await this.connection.getAccountInfo(stakeAccount))) {
+        return { seed, stakeAccount };
+      }
+    }
+    throw new StakingError('Could not derive an unused stake account address', 'RPC_ERROR');
+  }
+
+  private async prepare(
+    transaction: Transaction,
+    feePayer: PublicKey
+  ): Promise<{ transaction: Transaction; lastValidBlockHeight: number }> {
+    const { blockhash, lastValidBlockHeight } = await this.connection.getLatestBlockhash();
+    transaction.recentBlockhash = blockhash;
+    transaction.feePayer = feePayer;
+    return { transaction, lastValidBlockHeight };
+  }
+
+  // Validator names are published as config-program accounts keyed by node identity
+  private async getValidatorNames(): Promise<Map<string, { name?: string; website?: string }>> {
+    const now = Date.now();
+    if (this.validatorNames && this.validatorNames.expiresAt > now) {
+      return this.validatorNames.value;
+    }
+
+    const accounts = await this.connection.getProgramAccounts(CONFIG_PROGRAM_ID, {
+      filters: [{ memcmp: { offset: 1, bytes: VALIDATOR_INFO_KEY.toBase58() } }],
+    });
+    const names = new Map<string, { name?: string; website?: string }>();
+    for (const { account } of accounts) {
+      try {
+        const info = OnChainValidatorInfo.fromConfigData(account.data);
+        if (info) {
+          names.set(info.key.toBase58(), { name: info.info.name, website: info.info.website });
+        }
+      } catch {
+        // Malformed validator-info JSON; the validator is listed without a name
+      }
+    }
+
+    this.validatorNames = { value: names, expiresAt: now + VALIDATOR_NAMES_TTL_MS };
+    return names;
+  }
+}
+
+/**
+ * Decode a stake account's StakeStateV2: authorities and lockup for
+ * initialized accounts, plus the delegation for delegated ones
+ */
+export function parseStakeAccount(data: Buffer): ParsedStakeAccount | null {
+  if (data.length < 4) return null;
+  const state = STAKE_STATES[data.readUInt32LE(0)];
+  if (!state) return null;
+  if (state === 'uninitialized' || state === 'rewards-pool' || data.length < StakeProgram.space) {
+    return { state, rentExemptReserve: 0 };
+  }
+
+  const parsed: ParsedStakeAccount = {
+    state,
+    rentExemptReserve: Number(data.readBigUInt64LE(4)),
+    staker: new PublicKey(data.subarray(12, 44)).toBase58(),
+    withdrawer: new PublicKey(data.subarray(44, 76)).toBase58(),
+    lockup: {
+      unixTimestamp: Number(data.readBigInt64LE(76)),
+      epoch: Number(data.readBigUInt64LE(84)),
+      custodian: new PublicKey(data.subarray(92, 124)).toBase58(),
+    },
+  };
+  if (state === 'delegated') {
+    const deactivationEpoch = data.readBigUInt64LE(172);
+    parsed.delegation = {
+      voter: new PublicKey(data.subarray(124, 156)).toBase58(),
+      stake: Number(data.readBigUInt64LE(156)),
+      activationEpoch: Number(data.readBigUInt64LE(164)),
+      // u64::MAX means the stake has not been deactivated
+      deactivationEpoch: deactivationEpoch === U64_MAX ? null : Number(deactivationEpoch),
+    };
+  }
+  return parsed;
+}
+
+/**
+ * Activation status at the given epoch. Warmup and cooldown are treated as
+ * taking one epoch, which holds unless the network-wide rate limit kicks in.
+ */
+function toPosition(address: string, lamports: number, account: ParsedStakeAccount, epoch: number): StakePosition {
+  const delegation = account.delegation;
+  let status: StakePosition['status'] = 'inactive';
+  if (delegation) {
+    if (delegation.deactivationEpoch === null) {
+      status = delegation.activationEpoch >= epoch ? 'activating' : 'active';
+    } else if (delegation.deactivationEpoch !== delegation.activationEpoch && delegation.deactivationEpoch >= epoch) {
+      status = 'deactivating';
+    }
+  }
+
+  // Delegated lamports stay locked until cooldown ends; anything above stake plus rent reserve is free
+  const withdrawable = status === 'inactive'
+    ? lamports
+    : Math.max(0, lamports - (delegation?.stake || 0) - account.rentExemptReserve);
+
+  return {
+    address,
+    lamports,
+    balance: lamports / LAMPORTS_PER_SOL,
+    status,
+    account,
+    withdrawable: withdrawable / LAMPORTS_PER_SOL,
+  };
+}
+
+function toPublicKey(value: string, label: string): PublicKey {
+  try {
+    return new PublicKey(value);
+  } catch {
+    throw new StakingError(`Invalid ${label} address: ${value}`, 'INVALID_ADDRESS');
+  }
+}
+
+export function createStakingService(connection?: Connection): StakingService {
+  return new StakingService(connection);
+}
+
+// Export singleton instance
+export const stakingService = createStakingService();
@@ -0,0 +1,102 @@
+/**
+ * Native Staking Type Definitions
+ * Shared between the staking service, the stake Blink, BlinksService and the
+ * `stake-sol` tool
+ */
+
+import type { Transaction } from '@solana/web3.js';
+
+export type StakeAction = 'stake' | 'deactivate' | 'withdraw';
+
+export interface ValidatorInfo {
+  voteAccount: string;
+  identity: string;
+  name?: string; // From the on-chain validator-info config account
+  website?: string;
+  commission: number; // Percent
+  activatedStake: number; // SOL
+  skipRate: number | null; // Fraction of leader slots skipped this epoch; null without leader slots
+  lastVote: number;
+  delinquent: boolean;
+  recommended: boolean; // Not delinquent, commission and skip rate within the directory limits
+}
+
+export interface ValidatorDirectory {
+  epoch: number;
+  validators: ValidatorInfo[];
+  generatedAt: string;
+}
+
+export interface ValidatorQuery {
+  limit?: number;
+  sortBy?: 'stake' | 'commission' | 'skipRate';
+  recommendedOnly?: boolean;
+}
+
+export type StakeAccountState = 'uninitialized' | 'initialized' | 'delegated' | 'rewards-pool';
+
+export interface ParsedStakeAccount {
+  state: StakeAccountState;
+  rentExemptReserve: number; // Lamports
+  staker?: string;
+  withdrawer?: string;
+  lockup?: {
+    unixTimestamp: number;
+    epoch: number;
+    custodian: string;
+  };
+  delegation?: {
+    voter: string;
+    stake: number; // Lamports
+    activationEpoch: number;
+    deactivationEpoch: number | null; // null until the stake is deactivated
+  };
+}
+
+export interface StakePosition {
+  address: string;
+  lamports: number;
+  balance: number; // SOL
+  status: 'inactive' | 'activating' | 'active' | 'deactivating';
+  account: ParsedStakeAccount;
+  withdrawable: number; // SOL
+}
+
+export interface StakeActionRequest {
+  action: StakeAction;
+  validator?: string; // Vote account, required to stake
+  stakeAccount?: string; // Required to deactivate or withdraw
+  amount?: number; // SOL; required to stake, optional to withdraw (defaults to everything withdrawable)
+}
+
+export interface StakeTransactionPlan {
+  action: StakeAction;
+  owner: string;
+  stakeAccount: string;
+  amount: number; // SOL delegated, deactivated or withdrawn
+  validator?: ValidatorInfo | null;
+  rentExemptReserve?: number; // SOL locked in a new stake account on top of the delegation
+  seed?: string; // Seed the new stake account was derived with
+  warnings: string[];
+  transaction: Transaction;
+  lastValidBlockHeight: number;
+}
+
+export class StakingError extends Error {
+  constructor(
+    message: string,
+    public code:
+      | 'INVALID_ADDRESS'
+      | 'INVALID_AMOUNT'
+      | 'INVALID_VALIDATOR'
+      | 'INSUFFICIENT_BALANCE'
+      | 'NOT_STAKE_ACCOUNT'
+      | 'UNAUTHORIZED'
+      | 'INVALID_STATE'
+      | 'LOCKED'
+      | 'RPC_ERROR'
+  ) {
+    super(message);
+    this.name = 'StakingError';
+  }
+}
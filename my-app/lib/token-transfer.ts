@@ -0,0 +1,156 @@
+/**
+ * SPL Token Transfers
+ * Shared pieces of the `transfer-token` tool: exact decimal amount parsing,
+ * memo instructions and packing per-recipient instructions into transactions
+ * that fit the packet size limit. Transactions are built by SolanaService.
+ */
+
+import { PublicKey, Transaction, TransactionInstruction, PACKET_DATA_SIZE } from '@solana/web3.js';
+
+export const MEMO_PROGRAM_ID = new PublicKey('MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr');
+export const MAX_TRANSFER_RECIPIENTS = 100;
+
+export interface TokenTransferRecipient {
+  to: string; // Wallet address, or an existing token account for the mint
+  amount: string; // Decimal string in token units, e.g. "12.5"
+}
+
+export interface TokenTransferOptions {
+  memo?: string;
+}
+
+export interface PlannedTokenTransfer {
+  to: string;
+  destination: string; // Token account that receives the tokens
+  amount: string;
+  rawAmount: bigint;
+  fee: bigint; // Token-2022 transfer fee withheld from the amount
+  netAmount: string; // What the recipient ends up with
+  createsAccount: boolean;
+  memoRequired: boolean;
+}
+
+export interface TokenTransferPlan {
+  mint: string;
+  programId: string;
+  tokenProgram: 'spl-token' | 'token-2022';
+  decimals: number;
+  source: string;
+  sourceBalance: string;
+  total: string;
+  totalRaw: bigint;
+  totalFee: string;
+  transfers: PlannedTokenTransfer[];
+  extensions: string[]; // Token-2022 extensions that affect transfers
+  transactions: Transaction[]; // Unsigned, without a recent blockhash
+  warnings: string[];
+}
+
+export class TokenTransferError extends Error {
+  constructor(
+    message: string,
+    public code:
+      | 'INVALID_AMOUNT'
+      | 'INVALID_ADDRESS'
+      | 'INVALID_MINT'
+      | 'NON_TRANSFERABLE'
+      | 'MINT_PAUSED'
+      | 'MEMO_REQUIRED'
+      | 'ACCOUNT_FROZEN'
+      | 'INSUFFICIENT_BALANCE'
+      | 'TOO_MANY_RECIPIENTS'
+      | 'TRANSACTION_TOO_LARGE'
+  ) {
+    super(message);
+    this.name = 'TokenTransferError';
+  }
+}
+
+/**
+ * Convert a decimal string to base units without going through floating point
+ */
+export function parseTokenAmount(amount: string, decimals: number): bigint {
+  const trimmed = String(amount).trim();
+  const match = /^(\d*)(?:\.(\d*))?$/.exec(trimmed);
+  if (!trimmed || !match || (!match[1] && !match[2])) {
+    throw new TokenTransferError(`Invalid token amount "${amount}"; use a decimal number such as 12.5`, 'INVALID_AMOUNT');
+  }
+
+  const [, whole, fraction = ''] = match;
+  const significant = fraction.replace(/0+$/, '');
+  if (significant.length > decimals) {
+    throw new TokenTransferError(`Amount ${trimmed} has more than the token's ${decimals} decimals`, 'INVALID_AMOUNT');
+  }
+
+  const raw = BigInt((whole || '0') + significant.padEnd(decimals, '0'));
+  if (raw <= BigInt(0)) {
+    throw new TokenTransferError('Transfer amount must be greater than zero', 'INVALID_AMOUNT');
+  }
+  return raw;
+}
+
+/**
+ * Format base units as a decimal string, trimming trailing zeros
+ */
+export function formatTokenAmount(raw: bigint, decimals: number): string {
+  const negative = raw < BigInt(0);
+  const digits = (negative ? -raw : raw).toString().padStart(decimals + 1, '0');
+  const whole = digits.slice(0, digits.length - decimals);
+  const fraction = digits.slice(digits.length - decimals).replace(/0+$/, '');
+  return `${negative ? '-' : ''}${whole}${fraction ? `.${fraction}` : ''}`;
+}
+
+export function createMemoInstruction(memo: string, signer: PublicKey): TransactionInstruction {
+  return new TransactionInstruction({
+    programId: MEMO_PROGRAM_ID,
+    keys: [{ pubkey: signer, isSigner: true, isWritable: false }],
+    data: Buffer.from(memo, 'utf8'),
+  });
+}
+
+/**
+ * Size of a transaction once signed by its fee payer
+ */
+export function signedTransactionSize(transaction: Transaction): number {
+  const message = transaction.compileMessage();
+  const signatures = message.header.numRequiredSignatures;
+  return 1 + signatures * 64 + message.serialize().length; // Signature count fits a one-byte shortvec
+}
+
+/**
+ * Pack instruction groups into as few transactions as fit under the packet
+ * size limit. A group (e.g. create account + memo + transfer) is never split.
+ */
+export function packInstructionGroups(
+  groups: TransactionInstruction[][],
+  feePayer: PublicKey,
+  header: () => TransactionInstruction[] = () => []
+): Transaction[] {
+  const build = (batch: TransactionInstruction[][]) =>
+    new Transaction({ feePayer }).add(...header(), ...batch.flat());
+  // Sizing needs a blockhash; the real one is set when a transaction is prepared for signing
+  const sizeOf = (batch: TransactionInstruction[][]) => {
+    const transaction = build(batch);
+    transaction.recentBlockhash = PublicKey.default.toBase58();
+    try {
+      return signedTransactionSize(transaction);
+    } catch {
+      return Infinity; // Too large to even encode
+    }
+  };
+
+  const transactions: Transaction[] = [];
+  let batch: TransactionInstruction[][] = [];
+  for (const group of groups) {
+    if (sizeOf([group]) > PACKET_DATA_SIZE) {
+      throw new TokenTransferError('A single transfer does not fit in one transaction; shorten the memo', 'TRANSACTION_TOO_LARGE');
+    }
+    if (batch.length > 0 && sizeOf([...batch, group]) > PACKET_DATA_SIZE) {
+      transactions.push(build(batch));
+      batch = [];
+    }
+    batch.push(group);
+  }
+  if (batch.length > 0) transactions.push(build(batch));
+  return transactions;
+}
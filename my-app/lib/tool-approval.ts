@@ -0,0 +1,597 @@
+/**
+ * Tool Approval
+ * Human-in-the-loop gate for value-moving tools. Gated tools never execute
+ * when the model calls them; instead they return a pending-approval preview
+ * (amount, recipient, balance deltas, fees) and the real execution only runs
+ * once the user sends an explicit approval for that request.
+ */
+
+import type { ToolCallOptions } from 'ai';
+import { LAMPORTS_PER_SOL, PublicKey, SystemProgram, Transaction } from '@solana/web3.js';
+import { AGENT_CONFIG } from './agent-config';
+import { getSigningWallet, type ToolContext } from './tools';
+import { jupiterUnifiedService } from './jupiter-unified-service';
+import { jupiterTokenService } from './jupiter-token-service';
+import { solanaService } from './solana-service';
+import type { TokenTransferRecipient } from './token-transfer';
+import { stakingService } from './staking-service';
+import type { StakeActionRequest } from './staking-types';
+import { liquidStakingService } from './liquid-staking-service';
+import type { LiquidStakeDirection, LiquidStakeOptions } from './liquid-staking-types';
+import {
+  transactionSimulator,
+  type SimulatableTransaction,
+  type SimulationReport,
+} from './transaction-simulator';
+
+const BASE_FEE_LAMPORTS = 5000;
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+
+export interface BalanceDelta {
+  account: string;
+  asset: string; // Symbol or mint
+  change: number; // In UI units, negative when leaving the account
+  before?: number;
+  after?: number;
+}
+
+export interface ApprovalPreview {
+  summary: string;
+  amount: number;
+  asset: string;
+  recipient?: string;
+  sender?: string;
+  estimatedFee: {
+    lamports: number;
+    sol: number;
+  };
+  balanceDeltas: BalanceDelta[];
+  warnings: string[];
+  simulation?: SimulationReport;
+}
+
+export type ApprovalStatus = 'pending' | 'approved' | 'rejected' | 'executed' | 'failed' | 'expired';
+export type ApprovalDecision = 'approve' | 'reject';
+
+// Payload of the `data-tool-approval` UI message part
+export interface ToolApprovalData {
+  approvalId: string;
+  toolName: string;
+  toolCallId: string;
+  status: ApprovalStatus;
+  input: Record<string, unknown>; // Sensitive fields redacted
+  preview: ApprovalPreview;
+  createdAt: string;
+  expiresAt: string;
+  resolvedAt?: string;
+  result?: unknown;
+  error?: string;
+}
+
+interface PendingApproval extends ToolApprovalData {
+  conversationId?: string;
+  rawInput: unknown;
+  context?: unknown;
+  execute: (input: unknown, options: ToolCallOptions) => unknown;
+}
+
+export interface ApprovalGateOptions {
+  conversationId?: string;
+  onPending?: (approval: ToolApprovalData) => void;
+}
+
+export class ToolApprovalError extends Error {
+  constructor(message: string, public code: 'NOT_FOUND' | 'EXPIRED' | 'ALREADY_RESOLVED' | 'CONVERSATION_MISMATCH') {
+    super(message);
+    this.name = 'ToolApprovalError';
+  }
+}
+
+type PreviewBuilder = (input: any, context: ToolContext) => Promise<ApprovalPreview>;
+
+export class ToolApprovalManager {
+  private approvals = new Map<string, PendingApproval>();
+  private previewBuilders: Record<string, PreviewBuilder> = {
+    'transfer-sol': buildTransferSolPreview,
+    'transfer-token': buildTransferTokenPreview,
+    'stake-sol': buildStakePreview,
+    'liquid-stake': buildLiquidStakePreview,
+    'jupiter-ultra-swap': buildSwapPreview,
+  };
+
+  /**
+   * Whether a tool is tagged as value-moving in AGENT_CONFIG
+   */
+  requiresApproval(toolName: string): boolean {
+    return (AGENT_CONFIG.security.valueMovingTools as readonly string[]).includes(toolName);
+  }
+
+  /**
+   * Replace the execute function of value-moving tools with an approval request
+   */
+  gateTools<T extends Record<string, any>>(tools: T, options: ApprovalGateOptions = {}): T {
+    const gated: Record<string, any> = {};
+
+    for (const [toolName, tool] of Object.entries(tools)) {
+      if (!this.requiresApproval(toolName) || typeof tool?.execute !== 'function') {
+        gated[toolName] = tool;
+        continue;
+      }
+
+      gated[toolName] = {
+        ...tool,
+        execute: async (input: unknown, callOptions: ToolCallOptions) => {
+          const approval = await this.request(toolName, input, callOptions, tool.execute.bind(tool), options);
+          return {
+            status: 'pending_approval',
+            approvalId: approval.approvalId,
+            preview: approval.preview,
+            message: 'Nothing has been executed yet. Show the user this preview and wait for them to approve or reject it. Do not call the tool again.',
+          };
+        },
+      };
+    }
+
+    return gated as T;
+  }
+
+  /**
+   * Apply the user's decision; approved requests are executed exactly once
+   */
+  async resolve(approvalId: string, decision: ApprovalDecision, conversationId?: string): Promise<ToolApprovalData> {
+    this.pruneExpired();
+    const approval = this.approvals.get(approvalId);
+
+    if (!approval) {
+      throw new ToolApprovalError(`Approval request not found: ${approvalId}`, 'NOT_FOUND');
+    }
+    if (approval.conversationId && approval.conversationId !== conversationId) {
+      throw new ToolApprovalError('Approval request belongs to a different conversation', 'CONVERSATION_MISMATCH');
+    }
+    if (approval.status === 'expired') {
+      throw new ToolApprovalError('Approval request has expired', 'EXPIRED');
+    }
+    if (approval.status !== 'pending') {
+      throw new ToolApprovalError(`Approval request already ${approval.status}`, 'ALREADY_RESOLVED');
+    }
+
+    approval.resolvedAt = new Date().toISOString();
+
+    if (decision === 'reject') {
+      approval.status = 'rejected';
+      return toData(approval);
+    }
+
+    // Claim the request before awaiting so a double submit cannot execute twice
+    approval.status = 'approved';
+    try {
+      const result: any = await approval.execute(approval.rawInput, {
+        toolCallId: approval.toolCallId,
+        messages: [],
+        experimental_context: approval.context,
+      });
+      approval.result = result;
+      if (result && typeof result === 'object' && typeof result.error === 'string') {
+        approval.status = 'failed';
+        approval.error = result.error;
+      } else {
+        approval.status = 'executed';
+      }
+    } catch (error) {
+      approval.status = 'failed';
+      approval.error = error instanceof Error ? error.message : String(error);
+    }
+
+    return toData(approval);
+  }
+
+  /**
+   * Get an approval request by id
+   */
+  get(approvalId: string): ToolApprovalData | null {
+    this.pruneExpired();
+    const approval = this.approvals.get(approvalId);
+    return approval ? toData(approval) : null;
+  }
+
+  private async request(
+    toolName: string,
+    input: unknown,
+    callOptions: ToolCallOptions,
+    execute: PendingApproval['execute'],
+    options: ApprovalGateOptions
+  ): Promise<ToolApprovalData> {
+    this.pruneExpired();
+
+    const builder = this.previewBuilders[toolName];
+    let preview: ApprovalPreview;
+    try {
+      const context = (callOptions.experimental_context || {}) as ToolContext;
+      preview = builder ? await builder(input, context) : genericPreview(toolName, input);
+    } catch (error) {
+      preview = genericPreview(toolName, input);
+      preview.warnings.push(`Preview unavailable: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    // The executor aborts calls it has given up on; those must not leave an approval behind
+    callOptions.abortSignal?.throwIfAborted();
+
+    const now = Date.now();
+    const approval: PendingApproval = {
+      approvalId: `apr_${crypto.randomUUID()}`,
+      toolName,
+      toolCallId: callOptions.toolCallId,
+      status: 'pending',
+      input: redactInput(input),
+      preview,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + AGENT_CONFIG.security.approvalTimeout).toISOString(),
+      conversationId: options.conversationId,
+      rawInput: input,
+      context: callOptions.experimental_context,
+      execute,
+    };
+
+    this.approvals.set(approval.approvalId, approval);
+    const data = toData(approval);
+    options.onPending?.(data);
+    return data;
+  }
+
+  private pruneExpired(): void {
+    const now = Date.now();
+    for (const [id, approval] of this.approvals) {
+      const expiresAt = new Date(approval.expiresAt).getTime();
+      if (approval.status === 'pending' && expiresAt <= now) {
+        approval.status = 'expired';
+      }
+      // Keep resolved entries around for one more timeout window so replays get a clear error
+      if (expiresAt + AGENT_CONFIG.security.approvalTimeout <= now) {
+        this.approvals.delete(id);
+      }
+    }
+  }
+}
+
+function toData(approval: PendingApproval): ToolApprovalData {
+  return {
+    approvalId: approval.approvalId,
+    toolName: approval.toolName,
+    toolCallId: approval.toolCallId,
+    status: approval.status,
+    input: approval.input,
+    preview: approval.preview,
+    createdAt: approval.createdAt,
+    expiresAt: approval.expiresAt,
+    resolvedAt: approval.resolvedAt,
+    result: approval.result,
+    error: approval.error,
+  };
+}
+
+// Never echo key material back to the model or the UI
+function redactInput(input: unknown): Record<string, unknown> {
+  if (!input || typeof input !== 'object') return {};
+  return Object.fromEntries(
+    Object.entries(input as Record<string, unknown>).map(([key, value]) =>
+      /private|secret|seed|mnemonic/i.test(key) && value ? [key, '[redacted]'] : [key, value]
+    )
+  );
+}
+
+function genericPreview(toolName: string, input: unknown): ApprovalPreview {
+  return {
+    summary: `Run ${toolName}`,
+    amount: 0,
+    asset: 'unknown',
+    estimatedFee: { lamports: BASE_FEE_LAMPORTS, sol: BASE_FEE_LAMPORTS / LAMPORTS_PER_SOL },
+    balanceDeltas: [],
+    warnings: [`No preview is available for ${toolName}; review the input carefully.`, JSON.stringify(redactInput(input))],
+  };
+}
+
+async function buildTransferSolPreview(
+  input: { to: string; amount: number; from?: string },
+  context: ToolContext
+): Promise<ApprovalPreview> {
+  const warnings: string[] = [];
+  const senderAddress = input.from || getSigningWallet(context);
+  const sender = senderAddress ? new PublicKey(senderAddress) : null;
+  const recipient = new PublicKey(input.to);
+
+  const preview: ApprovalPreview = {
+    summary: `Send ${input.amount} SOL to ${input.to}`,
+    amount: input.amount,
+    asset: 'SOL',
+    recipient: recipient.toString(),
+    sender: sender?.toString(),
+    estimatedFee: { lamports: BASE_FEE_LAMPORTS, sol: BASE_FEE_LAMPORTS / LAMPORTS_PER_SOL },
+    balanceDeltas: [],
+    warnings,
+  };
+
+  if (!sender) {
+    warnings.push('No wallet is connected; connect a wallet to sign this transfer.');
+    return preview;
+  }
+
+  const transaction = new Transaction({ feePayer: sender }).add(
+    SystemProgram.transfer({
+      fromPubkey: sender,
+      toPubkey: recipient,
+      lamports: Math.round(input.amount * LAMPORTS_PER_SOL),
+    })
+  );
+
+  return applySimulation(preview, transaction, [sender.toString(), recipient.toString()]);
+}
+
+async function buildTransferTokenPreview(
+  input: { mint: string; recipients: TokenTransferRecipient[]; memo?: string; from?: string },
+  context: ToolContext
+): Promise<ApprovalPreview> {
+  const sender = input.from || getSigningWallet(context);
+  if (!sender) {
+    throw new Error('No wallet is connected');
+  }
+
+  const [plan, token] = await Promise.all([
+    solanaService.planTokenTransfer(sender, input.mint, input.recipients, { memo: input.memo }),
+    jupiterTokenService.getTokenData(input.mint).catch(() => null),
+  ]);
+  const symbol = token?.symbol || plan.mint;
+  const total = Number(plan.total);
+  const single = plan.transfers.length === 1 ? plan.transfers[0] : null;
+
+  const warnings = [...plan.warnings];
+  if (plan.tokenProgram === 'token-2022' && plan.extensions.length > 0) {
+    warnings.push(`Token-2022 mint with extensions: ${plan.extensions.join(', ')}`);
+  }
+  if (input.memo) {
+    warnings.push(`Memo: ${input.memo}`);
+  }
+
+  const preview: ApprovalPreview = {
+    summary: single
+      ? `Send ${plan.total} ${symbol} to ${single.to}`
+      : `Send ${plan.total} ${symbol} to ${plan.transfers.length} recipients`,
+    amount: total,
+    asset: symbol,
+    recipient: single?.to,
+    sender,
+    estimatedFee: {
+      lamports: BASE_FEE_LAMPORTS * plan.transactions.length,
+      sol: (BASE_FEE_LAMPORTS * plan.transactions.length) / LAMPORTS_PER_SOL,
+    },
+    balanceDeltas: [
+      { account: sender, asset: symbol, change: -total },
+      ...plan.transfers.map(transfer => ({ account: transfer.to, asset: symbol, change: Number(transfer.netAmount) })),
+    ],
+    warnings,
+  };
+
+  // Simulated deltas would only cover the first of several transactions
+  if (plan.transactions.length > 1) {
+    return preview;
+  }
+  const symbols = new Map([[plan.mint, symbol]]);
+  return applySimulation(preview, plan.transactions[0], [sender, ...plan.transfers.map(transfer => transfer.to)], symbols);
+}
+
+async function buildStakePreview(
+  input: StakeActionRequest & { from?: string },
+  context: ToolContext
+): Promise<ApprovalPreview> {
+  const owner = input.from || getSigningWallet(context);
+  if (!owner) {
+    throw new Error('No wallet is connected');
+  }
+
+  const plan = await stakingService.buildStakeAction(owner, input);
+  const validator = plan.validator;
+  const warnings = [...plan.warnings];
+  let summary: string;
+  let balanceDeltas: BalanceDelta[];
+
+  if (plan.action === 'stake') {
+    summary = `Stake ${plan.amount} SOL with ${validator?.name || validator?.voteAccount}`;
+    if (validator) {
+      warnings.push(`Validator commission ${validator.commission}%${validator.skipRate !== null ? `, skip rate ${(validator.skipRate * 100).toFixed(1)}%` : ''}`);
+    }
+    warnings.push(`A new stake account ${plan.stakeAccount} holds the stake plus ${plan.rentExemptReserve} SOL rent reserve, returned on withdrawal.`);
+    balanceDeltas = [
+      { account: owner, asset: 'SOL', change: -(plan.amount + (plan.rentExemptReserve || 0)) },
+      { account: plan.stakeAccount, asset: 'SOL', change: plan.amount + (plan.rentExemptReserve || 0) },
+    ];
+  } else if (plan.action === 'deactivate') {
+    summary = `Deactivate ${plan.amount} SOL staked in ${plan.stakeAccount}`;
+    balanceDeltas = [];
+  } else {
+    summary = `Withdraw ${plan.amount} SOL from stake account ${plan.stakeAccount}`;
+    balanceDeltas = [
+      { account: plan.stakeAccount, asset: 'SOL', change: -plan.amount },
+      { account: owner, asset: 'SOL', change: plan.amount },
+    ];
+  }
+
+  const preview: ApprovalPreview = {
+    summary,
+    amount: plan.amount,
+    asset: 'SOL',
+    recipient: plan.action === 'stake' ? validator?.voteAccount : plan.action === 'withdraw' ? owner : plan.stakeAccount,
+    sender: owner,
+    estimatedFee: { lamports: BASE_FEE_LAMPORTS, sol: BASE_FEE_LAMPORTS / LAMPORTS_PER_SOL },
+    balanceDeltas,
+    warnings,
+  };
+
+  return applySimulation(preview, plan.transaction, [owner, plan.stakeAccount]);
+}
+
+async function buildLiquidStakePreview(
+  input: {
+    action: LiquidStakeDirection;
+    lst: string;
+    amount: number;
+    route?: LiquidStakeOptions['route'];
+    slippageBps?: number;
+    from?: string;
+  },
+  context: ToolContext
+): Promise<ApprovalPreview> {
+  const owner = input.from || getSigningWallet(context);
+  if (!owner) {
+    throw new Error('No wallet is connected');
+  }
+
+  const { quote, transaction } = await liquidStakingService.buildTransaction(owner, input.action, input.lst, input.amount, {
+    route: input.route,
+    slippageBps: input.slippageBps,
+  });
+  const deposit = input.action === 'deposit';
+  const inputAsset = deposit ? 'SOL' : quote.lst.symbol;
+  const outputAsset = deposit ? quote.lst.symbol : 'SOL';
+
+  const warnings = [...quote.warnings];
+  warnings.push(quote.route === 'stake-pool'
+    ? `Routed through the ${quote.lst.provider} stake pool${quote.fee > 0 ? ` (pool fee ${quote.fee} ${outputAsset})` : ''}`
+    : `Routed through Jupiter${quote.jupiterRoute ? ` (${quote.jupiterRoute})` : ''}; minimum received ${quote.minimumOutputAmount} ${outputAsset}`);
+  for (const alternative of quote.alternatives) {
+    warnings.push(alternative.outputAmount !== null
+      ? `${alternative.route} route would return ${alternative.outputAmount} ${outputAsset}`
+      : `${alternative.route} route unavailable: ${alternative.reason}`);
+  }
+
+  const preview: ApprovalPreview = {
+    summary: `${deposit ? 'Stake' : 'Unstake'} ${quote.inputAmount} ${inputAsset} for ~${quote.outputAmount} ${outputAsset}`,
+    amount: quote.inputAmount,
+    asset: inputAsset,
+    sender: owner,
+    estimatedFee: { lamports: BASE_FEE_LAMPORTS, sol: BASE_FEE_LAMPORTS / LAMPORTS_PER_SOL },
+    balanceDeltas: [
+      { account: owner, asset: inputAsset, change: -quote.inputAmount },
+      { account: owner, asset: outputAsset, change: quote.outputAmount },
+    ],
+    warnings,
+  };
+
+  return applySimulation(preview, transaction, [owner], new Map([[quote.lst.mint, quote.lst.symbol]]));
+}
+
+async function buildSwapPreview(
+  input: {
+    inputMint: string;
+    outputMint: string;
+    amount: string;
+    userPublicKey?: string;
+    slippageBps?: number;
+  },
+  context: ToolContext
+): Promise<ApprovalPreview> {
+  const warnings: string[] = [];
+  const userPublicKey = input.userPublicKey || getSigningWallet(context);
+  if (!userPublicKey) {
+    throw new Error('No wallet is connected');
+  }
+
+  const [swap, inputToken, outputToken] = await Promise.all([
+    jupiterUnifiedService.swap({
+      inputMint: input.inputMint,
+      outputMint: input.outputMint,
+      amount: input.amount,
+      userPublicKey,
+      slippageBps: input.slippageBps,
+    }),
+    jupiterTokenService.getTokenData(input.inputMint).catch(() => null),
+    jupiterTokenService.getTokenData(input.outputMint).catch(() => null),
+  ]);
+  const { route } = swap;
+
+  const inputSymbol = inputToken?.symbol || input.inputMint;
+  const outputSymbol = outputToken?.symbol || input.outputMint;
+  const inputAmount = Number(route.inputAmount) / Math.pow(10, inputToken?.decimals ?? (input.inputMint === SOL_MINT ? 9 : 0));
+  const outputAmount = Number(route.outputAmount) / Math.pow(10, outputToken?.decimals ?? (input.outputMint === SOL_MINT ? 9 : 0));
+
+  if (!inputToken || !outputToken) {
+    warnings.push('Token metadata unavailable; amounts are shown in base units.');
+  }
+  // Jupiter reports price impact as a fraction, e.g. 0.01 for 1%
+  if (route.priceImpactPct > 0.01) {
+    warnings.push(`High price impact: ${(route.priceImpactPct * 100).toFixed(2)}%`);
+  }
+  warnings.push(`Minimum received after ${route.slippageBps / 100}% slippage: ${(outputAmount * (1 - route.slippageBps / 10000)).toFixed(6)} ${outputSymbol}`);
+  if (route.platformFee) {
+    warnings.push(`Platform fee: ${route.platformFee} bps`);
+  }
+  warnings.push(...(swap.riskAssessment?.warnings || []));
+
+  const preview: ApprovalPreview = {
+    summary: `Swap ${inputAmount} ${inputSymbol} for ~${outputAmount} ${outputSymbol} via Jupiter ${swap.tier}`,
+    amount: inputAmount,
+    asset: inputSymbol,
+    sender: userPublicKey,
+    estimatedFee: { lamports: BASE_FEE_LAMPORTS, sol: BASE_FEE_LAMPORTS / LAMPORTS_PER_SOL },
+    balanceDeltas: [
+      { account: userPublicKey, asset: inputSymbol, change: -inputAmount },
+      { account: userPublicKey, asset: outputSymbol, change: outputAmount },
+    ],
+    warnings,
+  };
+
+  const symbols = new Map([
+    [input.inputMint, inputSymbol],
+    [input.outputMint, outputSymbol],
+  ]);
+  return applySimulation(preview, swap.transaction, [userPublicKey], symbols);
+}
+
+/**
+ * Replace estimated deltas and fee with the simulated ones; keep the estimate when simulation is unavailable
+ */
+async function applySimulation(
+  preview: ApprovalPreview,
+  transaction: SimulatableTransaction,
+  accounts: string[],
+  symbols: Map<string, string> = new Map()
+): Promise<ApprovalPreview> {
+  let report: SimulationReport;
+  try {
+    report = await transactionSimulator.simulate(transaction, { accounts });
+  } catch (error) {
+    preview.warnings.push(`Simulation unavailable: ${error instanceof Error ? error.message : String(error)}`);
+    return preview;
+  }
+
+  preview.simulation = report;
+  preview.estimatedFee = report.fee;
+
+  if (!report.success) {
+    preview.warnings.unshift(`Simulation failed; this transaction would not succeed: ${report.error}`);
+    return preview;
+  }
+
+  preview.balanceDeltas = [
+    ...report.solChanges.map(change => ({
+      account: change.address,
+      asset: 'SOL',
+      change: change.change,
+      before: change.before,
+      after: change.after,
+    })),
+    ...report.tokenChanges.map(change => ({
+      account: change.owner,
+      asset: symbols.get(change.mint) || change.mint,
+      change: change.change,
+      before: change.before,
+      after: change.after,
+    })),
+  ];
+  preview.warnings.push(...report.warnings);
+  return preview;
+}
+
+export function createToolApprovalManager(): ToolApprovalManager {
+  return new ToolApprovalManager();
+}
+
+// Export singleton instance
+export const toolApprovalManager = createToolApprovalManager();
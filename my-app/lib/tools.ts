@@ -3,39 +3,69 @@ import { tool } from 'ai';
 import { openai } from '@ai-sdk/openai';
 import { experimental_generateImage as generateImage } from 'ai';
 import { solanaService } from './solana-service';
-import { PublicKey, Keypair, LAMPORTS_PER_SOL } from '@solana/web3.js';
-import bs58 from 'bs58';
+import { PublicKey, LAMPORTS_PER_SOL } from '@solana/web3.js';
 import { SOLANA_CONFIG, getExplorerUrl } from './solana-config';
 import { jupiterUnifiedService } from './jupiter-unified-service';
 import { jupiterUltraService } from './jupiter-ultra-service';
+import { jupiterTokenService } from './jupiter-token-service';
+import { transactionSimulator, summarizeSimulation } from './transaction-simulator';
+import { signingRequestManager } from './signing-requests';
+import { portfolioService } from './portfolio-service';
+import { walletPnlService } from './pnl-service';
+import { defiDataService } from './defi-service';
+import type { ProtocolAnalytics } from './defi-types';
+import { nftCollectionService } from './nft-service';
+import { webSearchService } from './web-search';
+import { MAX_TRANSFER_RECIPIENTS } from './token-transfer';
+import { transactionDecoder } from './transaction-decoder';
+import { addressInspector } from './address-inspector';
+import { stakingService } from './staking-service';
+import { liquidStakingService } from './liquid-staking-service';
+
+// Per-request context passed to tools via experimental_context
+export interface ToolContext {
+  walletAddress?: string; // Active account, used when the user says "my wallet"
+  readOnly?: boolean; // Active account is a watch address that cannot sign
+  conversationId?: string;
+}
+
+function getToolContext(context: unknown): ToolContext {
+  return context && typeof context === 'object' ? (context as ToolContext) : {};
+}
+
+// Account that can sign for the user; watch addresses never can
+export function getSigningWallet(context: ToolContext): string | undefined {
+  return context.readOnly ? undefined : context.walletAddress;
+}
 
 // Web Search Tool
 export const webSearchTool = tool({
-  description: 'Search the web for current information on any topic',
-  parameters: z.object({
+  description: 'Search the web for current information on any topic. Returns ranked results with snippets; cite them as markdown links to their URL.',
+  inputSchema: z.object({
     query: z.string().describe('The search query'),
     maxResults: z.number().optional().default(5).describe('Maximum number of results to return'),
   }),
   execute: async ({ query, maxResults = 5 }) => {
     try {
-      // In production, integrate with a real search API like Serper, Tavily, or Bing
-      // For now, returning a structured response that indicates search capability
-      const searchResults = {
-        query,
-        results: [
-          {
-            title: `Search results for: ${query}`,
-            url: `https://www.google.com/search?q=${encodeURIComponent(query)}`,
-            snippet: `Real-time web search results for "${query}" would appear here. Integrate with a search API for actual results.`,
-          },
-        ],
+      const response = await webSearchService.search(query, { maxResults });
+      return {
+        query: response.query,
+        provider: response.provider,
+        results: response.results.map(result => ({
+          rank: result.rank,
+          title: result.title,
+          url: result.url,
+          snippet: result.snippet,
+          publishedAt: result.publishedAt,
+        })),
         timestamp: new Date().toISOString(),
-        message: 'Note: Integrate with a real search API (Serper, Tavily, Bing) for actual results',
       };
-      
-      return searchResults;
-    } catch (error) {
-      return { error: `Web search failed: ${error}` };
+    } catch (error: any) {
+      return {
+        error: `Web search failed: ${error.message || error}`,
+        code: error.code,
+        query,
+      };
     }
   },
 });
@@ -43,7 +73,7 @@ export const webSearchTool = tool({
 // OpenAI Image Generator Tool (using gpt-image-1 model)
 export const openaiImageGeneratorTool = tool({
   description: 'Generate images using OpenAI\'s latest gpt-image-1 model (GPT-4o image generation)',
-  parameters: z.object({
+  inputSchema: z.object({
     prompt: z.string().describe('Detailed text description of the image to generate'),
     size: z.enum(['1024x1024', '1792x1024', '1024x1792', '2048x2048', '4096x4096'])
       .optional()
@@ -97,10 +127,15 @@ export const openaiImageGeneratorTool = tool({
 // Solana Tools
 export const solanaBalanceTool = tool({
   description: 'Check SOL balance for a Solana wallet address',
-  parameters: z.object({
-    address: z.string().describe('Solana wallet address'),
+  inputSchema: z.object({
+    address: z.string().optional().describe('Solana wallet address. Defaults to the user\'s active wallet.'),
   }),
-  execute: async ({ address }) => {
+  execute: async ({ address: requestedAddress }, { experimental_context }) => {
+    const address = requestedAddress || getToolContext(experimental_context).walletAddress;
+    if (!address) {
+      return { error: 'No wallet address given and no wallet is connected' };
+    }
+
     try {
       // Validate address
       const pubkey = new PublicKey(address);
@@ -127,7 +162,7 @@ export const solanaBalanceTool = tool({
 
 export const solanaTokenPriceTool = tool({
   description: 'Get current price and comprehensive market data for Solana tokens using Jupiter API v2',
-  parameters: z.object({
+  inputSchema: z.object({
     symbol: z.string().describe('Token symbol, name, or mint address (e.g., SOL, BONK, So11111111111111111111111111111111111111112)'),
   }),
   execute: async ({ symbol }) => {
@@ -194,7 +229,7 @@ export const solanaTokenPriceTool = tool({
 // Token Discovery Tool using Jupiter API
 export const tokenDiscoveryTool = tool({
   description: 'Discover trending, recent, or verified Solana tokens using Jupiter API v2',
-  parameters: z.object({
+  inputSchema: z.object({
     category: z.enum(['trending', 'recent', 'verified', 'top-organic']).describe('Category of tokens to discover'),
     limit: z.number().optional().default(20).describe('Number of tokens to return (max 100)'),
     interval: z.enum(['5m', '1h', '6h', '24h']).optional().default('24h').describe('Time interval for trending data'),
@@ -254,7 +289,7 @@ export const tokenDiscoveryTool = tool({
 // Token Validation Tool using Jupiter API
 export const tokenValidationTool = tool({
   description: 'Validate token safety and legitimacy using Jupiter organic scores and audit data',
-  parameters: z.object({
+  inputSchema: z.object({
     mintAddress: z.string().describe('Token mint address to validate'),
   }),
   execute: async ({ mintAddress }) => {
@@ -298,7 +333,7 @@ export const tokenValidationTool = tool({
 // Token Search Tool using Jupiter API
 export const tokenSearchTool = tool({
   description: 'Search for Solana tokens by symbol, name, or mint address using Jupiter API v2',
-  parameters: z.object({
+  inputSchema: z.object({
     query: z.string().describe('Search query (symbol, name, or mint address)'),
     limit: z.number().optional().default(10).describe('Number of results to return'),
   }),
@@ -338,101 +373,166 @@ export const tokenSearchTool = tool({
 
 // DeFi Analyzer Tool
 export const defiAnalyzerTool = tool({
-  description: 'Analyze DeFi protocols, yields, and liquidity pools',
-  parameters: z.object({
-    protocol: z.string().describe('DeFi protocol name (e.g., Raydium, Serum, Orca)'),
-    action: z.enum(['analyze', 'yields', 'liquidity']).describe('Type of analysis'),
+  description: 'Analyze Solana DeFi protocols from on-chain pool accounts: TVL, 24h volume and fees, and fee/staking/lending APR',
+  inputSchema: z.object({
+    protocol: z.string().optional().describe('Protocol: raydium, orca, meteora, kamino, spl-stake-pool (JitoSOL, bSOL) or marinade. Omit for an overview of all protocols.'),
+    pools: z.array(z.string()).optional().describe('Specific pool, reserve or stake pool account addresses. Defaults to each protocol\'s well-known pools.'),
+    action: z.enum(['analyze', 'yields', 'liquidity']).describe('analyze: protocol summary, yields: pools ranked by APR, liquidity: pools ranked by TVL'),
   }),
-  execute: async ({ protocol, action }) => {
+  execute: async ({ protocol, pools, action }) => {
     try {
-      const analysis = {
-        protocol,
+      const protocols = protocol
+        ? [await defiDataService.getProtocolAnalytics(protocol, pools)]
+        : pools && pools.length > 0
+          ? await defiAnalyticsForPools(pools)
+          : await defiDataService.getOverview();
+
+      const allPools = protocols.flatMap(entry => entry.pools);
+      const ranked = action === 'yields'
+        ? [...allPools].sort((a, b) => (b.apr ?? -1) - (a.apr ?? -1))
+        : action === 'liquidity'
+          ? [...allPools].sort((a, b) => (b.tvlUsd ?? 0) - (a.tvlUsd ?? 0))
+          : allPools;
+
+      return {
         action,
-        tvl: (Math.random() * 1000000000).toFixed(0),
-        apy: (Math.random() * 50).toFixed(2),
-        volume24h: (Math.random() * 100000000).toFixed(0),
-        pools: Math.floor(Math.random() * 100),
-        analysis: `${action} analysis for ${protocol} protocol`,
+        protocols: protocols.map(entry => ({
+          protocol: entry.name,
+          category: entry.category,
+          tvlUsd: entry.tvlUsd.toFixed(0),
+          volume24hUsd: entry.volume24hUsd !== null ? entry.volume24hUsd.toFixed(0) : null,
+          fees24hUsd: entry.fees24hUsd !== null ? entry.fees24hUsd.toFixed(0) : null,
+          poolCount: entry.pools.length,
+          notes: entry.notes.length > 0 ? entry.notes : undefined,
+        })),
+        pools: ranked.map(pool => ({
+          name: pool.name,
+          protocol: pool.protocol,
+          address: pool.address,
+          tvlUsd: pool.tvlUsd !== null ? pool.tvlUsd.toFixed(0) : null,
+          volume24hUsd: pool.volume24hUsd !== null ? pool.volume24hUsd.toFixed(0) : null,
+          fees24hUsd: pool.fees24hUsd !== null ? pool.fees24hUsd.toFixed(0) : null,
+          aprPct: pool.apr !== null ? (pool.apr * 100).toFixed(2) : null,
+          aprSource: pool.aprSource,
+          feeRatePct: pool.feeRate !== null ? (pool.feeRate * 100).toFixed(4) : null,
+          reserves: pool.tokens.map(token => ({ symbol: token.symbol, amount: token.amount, valueUsd: token.valueUsd })),
+          details: pool.details,
+          observationWindowHours: pool.observationWindowHours,
+          notes: pool.notes,
+        })),
         timestamp: new Date().toISOString(),
       };
-      return analysis;
-    } catch (error) {
-      return { error: `DeFi analysis failed: ${error}` };
+    } catch (error: any) {
+      return {
+        error: `DeFi analysis failed: ${error.message || error}`,
+        code: error.code,
+        protocol,
+        supportedProtocols: defiDataService.listProtocols().map(entry => entry.id),
+      };
     }
   },
 });
 
+// Group explicitly requested pools by the protocol that owns them
+async function defiAnalyticsForPools(pools: string[]): Promise<ProtocolAnalytics[]> {
+  const analytics = await defiDataService.getPoolAnalytics(pools);
+  const protocolIds = Array.from(new Set(analytics.map(pool => pool.protocol)));
+  return Promise.all(protocolIds.map(id =>
+    defiDataService.getProtocolAnalytics(id, analytics.filter(pool => pool.protocol === id).map(pool => pool.address))
+  ));
+}
+
 // NFT Tools
 export const nftAnalyzerTool = tool({
-  description: 'Analyze NFT collections, floor prices, and market trends',
-  parameters: z.object({
-    collection: z.string().describe('NFT collection name or address'),
+  description: 'Analyze a Solana NFT collection from on-chain data: supply, unique holders, holder distribution and concentration, plus marketplace floor and volume',
+  inputSchema: z.object({
+    collection: z.string().describe('Verified Metaplex collection address, or a collection name (e.g. Mad Lads)'),
+    topHolders: z.number().min(0).max(50).optional().default(10).describe('Number of largest holders to return'),
   }),
-  execute: async ({ collection }) => {
+  execute: async ({ collection, topHolders = 10 }) => {
     try {
-      const nftData = {
+      const analytics = await nftCollectionService.getCollectionAnalytics(collection, { topHolders });
+
+      return {
+        collection: analytics.collection.name,
+        address: analytics.collection.address,
+        symbol: analytics.collection.symbol,
+        supply: analytics.supply,
+        burnt: analytics.burnt,
+        uniqueHolders: analytics.uniqueHolders,
+        holderRatio: analytics.holderRatio.toFixed(3),
+        top10SharePct: analytics.top10SharePct.toFixed(2),
+        distribution: analytics.distribution.map(bucket => ({
+          nftsHeld: bucket.label,
+          holders: bucket.holders,
+          items: bucket.items,
+        })),
+        topHolders: analytics.topHolders.map(holder => ({
+          owner: holder.owner,
+          count: holder.count,
+          sharePct: holder.sharePct.toFixed(2),
+        })),
+        market: analytics.market ? {
+          source: analytics.market.source,
+          floorPriceSol: analytics.market.floorPriceSol,
+          listedCount: analytics.market.listedCount,
+          volume24hSol: analytics.market.volume24hSol,
+          volumeAllSol: analytics.market.volumeAllSol,
+        } : null,
+        indexer: analytics.indexer,
+        warnings: analytics.warnings,
+        timestamp: analytics.generatedAt,
+      };
+    } catch (error: any) {
+      return {
+        error: `NFT analysis failed: ${error.message || error}`,
+        code: error.code,
         collection,
-        floorPrice: (Math.random() * 10).toFixed(2),
-        volume24h: (Math.random() * 1000).toFixed(0),
-        holders: Math.floor(Math.random() * 10000),
-        totalSupply: Math.floor(Math.random() * 10000),
-        change24h: ((Math.random() - 0.5) * 50).toFixed(2),
-        timestamp: new Date().toISOString(),
       };
-      return nftData;
-    } catch (error) {
-      return { error: `NFT analysis failed: ${error}` };
     }
   },
 });
 
 // Transfer SOL Tool
 export const transferSolTool = tool({
-  description: 'Transfer SOL from one wallet to another (requires private key in environment)',
-  parameters: z.object({
+  description: 'Prepare a SOL transfer for the user to sign in their connected browser wallet. Nothing is sent until the user signs.',
+  inputSchema: z.object({
     to: z.string().describe('Recipient Solana wallet address'),
-    amount: z.number().describe('Amount of SOL to transfer'),
-    privateKey: z.string().optional().describe('Optional: Private key (base58) of sender wallet. If not provided, uses environment key.'),
+    amount: z.number().positive().describe('Amount of SOL to transfer'),
+    from: z.string().optional().describe('Sender wallet address. Defaults to the user\'s connected wallet.'),
   }),
-  execute: async ({ to, amount, privateKey }) => {
+  execute: async ({ to, amount, from }, { experimental_context, abortSignal }) => {
+    const sender = from || getSigningWallet(getToolContext(experimental_context));
+    if (!sender) {
+      return {
+        error: 'No signing wallet connected. Ask the user to connect a wallet before transferring SOL; watch addresses cannot sign.',
+      };
+    }
+
     try {
-      // Get sender keypair
-      let senderKeypair: Keypair;
-      
-      if (privateKey) {
-        // Use provided private key
-        const decoded = bs58.decode(privateKey);
-        senderKeypair = Keypair.fromSecretKey(decoded);
-      } else if (process.env.SOLANA_PRIVATE_KEY) {
-        // Use environment private key
-        const decoded = bs58.decode(process.env.SOLANA_PRIVATE_KEY);
-        senderKeypair = Keypair.fromSecretKey(decoded);
-      } else {
-        return {
-          error: 'No private key available. Provide a private key or set SOLANA_PRIVATE_KEY environment variable.',
-        };
-      }
-      
-      // Check balance first
-      const balance = await solanaService.getBalance(senderKeypair.publicKey.toString());
-      if (balance < amount) {
-        return {
-          error: `Insufficient balance. Current balance: ${balance} SOL, requested: ${amount} SOL`,
-        };
-      }
-      
-      // Execute transfer
-      const signature = await solanaService.transferSol(senderKeypair, to, amount);
-      
+      const { transaction, lastValidBlockHeight } = await solanaService.buildSolTransfer(sender, to, amount);
+      const simulation = await transactionSimulator.simulate(transaction, { accounts: [sender, to] }).catch(() => null);
+      // A call the executor gave up on must not leave a signing request behind
+      abortSignal?.throwIfAborted();
+      const signingRequest = signingRequestManager.create({
+        kind: 'transfer-sol',
+        description: `Send ${amount} SOL to ${to}`,
+        signer: sender,
+        transaction,
+        lastValidBlockHeight,
+        simulation,
+        conversationId: getToolContext(experimental_context).conversationId,
+      });
+
       return {
-        success: true,
-        signature,
-        from: senderKeypair.publicKey.toString(),
+        status: 'awaiting_signature',
+        signingRequest,
+        from: sender,
         to,
         amount,
-        explorerUrl: getExplorerUrl(signature),
+        simulation: simulation ? summarizeSimulation(simulation, sender) : null,
         network: SOLANA_CONFIG.network,
-        timestamp: new Date().toISOString(),
+        message: 'The unsigned transaction is waiting for the user to sign it in their wallet. Nothing has been sent yet.',
       };
     } catch (error: any) {
       return {
@@ -444,56 +544,390 @@ export const transferSolTool = tool({
   },
 });
 
+// Transfer Token Tool
+export const transferTokenTool = tool({
+  description: 'Prepare an SPL Token or Token-2022 transfer, to one recipient or many (airdrop), for the user to sign in their connected wallet. Handles transfer fees, memo-required accounts and transfer hooks. Nothing is sent until the user signs.',
+  inputSchema: z.object({
+    mint: z.string().describe('Mint address of the token to send'),
+    recipients: z.array(z.object({
+      to: z.string().describe('Recipient wallet address (or their token account for this mint)'),
+      amount: z.string().describe('Amount in token units as a decimal string, e.g. "12.5"'),
+    })).min(1).max(MAX_TRANSFER_RECIPIENTS).describe('Recipients and amounts; use several entries for an airdrop'),
+    memo: z.string().max(256).optional().describe('Memo attached to each transfer. Required by recipients whose token account only accepts transfers with a memo (e.g. exchange deposits).'),
+    from: z.string().optional().describe('Sender wallet address. Defaults to the user\'s connected wallet.'),
+  }),
+  execute: async ({ mint, recipients, memo, from }, { experimental_context, abortSignal }) => {
+    const context = getToolContext(experimental_context);
+    const sender = from || getSigningWallet(context);
+    if (!sender) {
+      return {
+        error: 'No signing wallet connected. Ask the user to connect a wallet before transferring tokens; watch addresses cannot sign.',
+      };
+    }
+
+    try {
+      const { plan, transactions } = await solanaService.buildTokenTransfer(sender, mint, recipients, { memo });
+      const symbol = (await jupiterTokenService.getTokenData(plan.mint).catch(() => null))?.symbol || plan.mint;
+      const recipientLabel = plan.transfers.length === 1 ? plan.transfers[0].to : `${plan.transfers.length} recipients`;
+
+      const signingRequests = [];
+      for (const [index, { transaction, lastValidBlockHeight }] of transactions.entries()) {
+        const simulation = await transactionSimulator.simulate(transaction, { accounts: [sender] }).catch(() => null);
+        abortSignal?.throwIfAborted();
+        signingRequests.push(signingRequestManager.create({
+          kind: 'transfer-token',
+          description: transactions.length === 1
+            ? `Send ${plan.total} ${symbol} to ${recipientLabel}`
+            : `Send ${plan.total} ${symbol} to ${recipientLabel} (transaction ${index + 1} of ${transactions.length})`,
+          signer: sender,
+          transaction,
+          lastValidBlockHeight,
+          simulation,
+          conversationId: context.conversationId,
+        }));
+      }
+
+      return {
+        status: 'awaiting_signature',
+        signingRequests,
+        from: sender,
+        mint: plan.mint,
+        symbol,
+        tokenProgram: plan.tokenProgram,
+        extensions: plan.extensions,
+        total: plan.total,
+        totalFee: plan.totalFee,
+        balance: plan.sourceBalance,
+        transfers: plan.transfers.map(transfer => ({
+          to: transfer.to,
+          amount: transfer.amount,
+          netAmount: transfer.netAmount,
+          createsAccount: transfer.createsAccount,
+        })),
+        memo,
+        warnings: plan.warnings,
+        network: SOLANA_CONFIG.network,
+        message: signingRequests.length === 1
+          ? 'The unsigned transaction is waiting for the user to sign it in their wallet. Nothing has been sent yet.'
+          : `The transfer needs ${signingRequests.length} transactions; each is waiting for the user to sign it in their wallet. Nothing has been sent yet.`,
+      };
+    } catch (error: any) {
+      return {
+        error: `Token transfer failed: ${error.message || error}`,
+        code: error.code,
+        mint,
+        recipients,
+      };
+    }
+  },
+});
+
 // Get Transaction Tool
 export const getTransactionTool = tool({
-  description: 'Get details of a Solana transaction by its signature',
-  parameters: z.object({
+  description: 'Get and decode a Solana transaction by its signature: decoded instructions, balance changes per account and a one-line narrative of what it did (e.g. "Swapped 1.2 SOL for 180 USDC via Jupiter (Orca)")',
+  inputSchema: z.object({
     signature: z.string().describe('Transaction signature'),
   }),
   execute: async ({ signature }) => {
     try {
-      const transaction = await solanaService.getTransaction(signature);
-      
-      if (!transaction) {
-        return {
-          error: 'Transaction not found',
-          signature,
-        };
-      }
-      
+      const transaction = await transactionDecoder.decode(signature);
+      // Inner instructions are listed without their decoded fields to keep the output compact
+      const instructions = transaction.instructions.map(instruction => ({
+        index: instruction.index,
+        program: instruction.program,
+        type: instruction.type,
+        summary: instruction.summary,
+        info: instruction.info,
+        inner: instruction.innerInstructions?.map(inner => ({
+          index: inner.index,
+          program: inner.program,
+          type: inner.type,
+          summary: inner.summary,
+        })),
+      }));
+
       return {
         signature,
+        narrative: transaction.narrative,
         slot: transaction.slot,
-        blockTime: transaction.blockTime ? new Date(transaction.blockTime * 1000).toISOString() : null,
-        fee: transaction.meta?.fee ? transaction.meta.fee / LAMPORTS_PER_SOL : 0,
-        status: transaction.meta?.err ? 'Failed' : 'Success',
-        error: transaction.meta?.err || null,
+        blockTime: transaction.blockTime,
+        fee: transaction.fee,
+        status: transaction.status === 'failed' ? 'Failed' : 'Success',
+        error: transaction.error,
+        version: transaction.version,
+        feePayer: transaction.feePayer,
+        signers: transaction.signers,
+        computeUnits: transaction.computeUnits,
+        programs: transaction.programs,
+        instructions,
+        balanceChanges: transaction.balanceChanges,
+        lookupTables: transaction.lookupTables,
         explorerUrl: getExplorerUrl(signature),
         network: SOLANA_CONFIG.network,
       };
     } catch (error: any) {
       return {
         error: `Failed to get transaction: ${error.message || error}`,
+        code: error.code,
         signature,
       };
     }
   },
 });
 
+// Inspect Address Tool
+export const inspectAddressTool = tool({
+  description: 'Identify any Solana address: whether it is a wallet, program, token mint, token account, stake or vote account, or PDA; decode its account; attach known labels (exchanges, programs, validators) and summarize its recent activity',
+  inputSchema: z.object({
+    address: z.string().describe('Solana address to inspect'),
+    activityLimit: z.number().min(0).max(50).optional().default(10).describe('Number of recent transactions to summarize (0 to skip)'),
+    explain: z.number().min(0).max(5).optional().default(3).describe('How many of the latest transactions to decode into one-line narratives'),
+  }),
+  execute: async ({ address, activityLimit = 10, explain = 3 }) => {
+    try {
+      return await addressInspector.inspect(address, { activityLimit, explain });
+    } catch (error: any) {
+      return {
+        error: `Address inspection failed: ${error.message || error}`,
+        code: error.code,
+        address,
+      };
+    }
+  },
+});
+
+// Stake SOL Tool
+export const stakeSolTool = tool({
+  description: 'Prepare a native staking transaction for the user to sign in their connected wallet: stake SOL with a validator (creates and delegates a new stake account), deactivate a stake account, or withdraw SOL from a deactivated stake account. Use staking-info to pick a validator or find the user\'s stake accounts. Nothing is sent until the user signs.',
+  inputSchema: z.object({
+    action: z.enum(['stake', 'deactivate', 'withdraw']).describe('stake: delegate SOL to a validator; deactivate: start unstaking a stake account; withdraw: move SOL from a stake account back to the wallet'),
+    validator: z.string().optional().describe('Validator vote account address; required to stake'),
+    stakeAccount: z.string().optional().describe('Stake account address; required to deactivate or withdraw'),
+    amount: z.number().positive().optional().describe('Amount of SOL; required to stake. Omit when withdrawing to withdraw everything withdrawable.'),
+    from: z.string().optional().describe('Wallet that owns the stake. Defaults to the user\'s connected wallet.'),
+  }),
+  execute: async ({ action, validator, stakeAccount, amount, from }, { experimental_context, abortSignal }) => {
+    const context = getToolContext(experimental_context);
+    const owner = from || getSigningWallet(context);
+    if (!owner) {
+      return {
+        error: 'No signing wallet connected. Ask the user to connect a wallet before staking; watch addresses cannot sign.',
+      };
+    }
+
+    try {
+      const plan = await stakingService.buildStakeAction(owner, { action, validator, stakeAccount, amount });
+      const validatorName = plan.validator?.name || plan.validator?.voteAccount;
+      const description = action === 'stake'
+        ? `Stake ${plan.amount} SOL with ${validatorName}`
+        : action === 'deactivate'
+          ? `Deactivate ${plan.amount} SOL staked in ${plan.stakeAccount}`
+          : `Withdraw ${plan.amount} SOL from stake account ${plan.stakeAccount}`;
+
+      const simulation = await transactionSimulator.simulate(plan.transaction, { accounts: [owner, plan.stakeAccount] }).catch(() => null);
+      abortSignal?.throwIfAborted();
+      const signingRequest = signingRequestManager.create({
+        kind: 'stake-sol',
+        description,
+        signer: owner,
+        transaction: plan.transaction,
+        lastValidBlockHeight: plan.lastValidBlockHeight,
+        simulation,
+        conversationId: context.conversationId,
+      });
+
+      return {
+        status: 'awaiting_signature',
+        signingRequest,
+        action,
+        owner,
+        amount: plan.amount,
+        stakeAccount: plan.stakeAccount,
+        validator: plan.validator
+          ? {
+              voteAccount: plan.validator.voteAccount,
+              name: plan.validator.name,
+              commission: plan.validator.commission,
+              skipRate: plan.validator.skipRate,
+              delinquent: plan.validator.delinquent,
+            }
+          : undefined,
+        rentExemptReserve: plan.rentExemptReserve,
+        warnings: plan.warnings,
+        simulation: simulation ? summarizeSimulation(simulation, owner) : null,
+        network: SOLANA_CONFIG.network,
+        message: 'The unsigned transaction is waiting for the user to sign it in their wallet. Nothing has been sent yet.',
+      };
+    } catch (error: any) {
+      return {
+        error: `Staking failed: ${error.message || error}`,
+        code: error.code,
+        action,
+        stakeAccount,
+        validator,
+      };
+    }
+  },
+});
+
+// Liquid Stake Tool
+export const liquidStakeTool = tool({
+  description: 'Prepare a liquid staking transaction for the user to sign in their connected wallet: stake SOL into an LST (jitoSOL, mSOL, bSOL, INF) or unstake an LST back to SOL. Routes through the stake-pool program or Jupiter, whichever returns more. Use staking-info to compare LST APYs. Nothing is sent until the user signs.',
+  inputSchema: z.object({
+    action: z.enum(['deposit', 'withdraw']).describe('deposit: SOL into the LST; withdraw: the LST back to SOL'),
+    lst: z.string().describe('LST symbol (jitoSOL, mSOL, bSOL, INF) or mint address'),
+    amount: z.number().positive().describe('SOL to stake for deposit, LST to unstake for withdraw'),
+    route: z.enum(['auto', 'stake-pool', 'jupiter']).optional().default('auto').describe('Force a route; auto picks the better output'),
+    slippageBps: z.number().min(0).max(1000).optional().default(50).describe('Slippage tolerance for Jupiter routes in basis points'),
+    from: z.string().optional().describe('Wallet to stake from. Defaults to the user\'s connected wallet.'),
+  }),
+  execute: async ({ action, lst, amount, route = 'auto', slippageBps = 50, from }, { experimental_context, abortSignal }) => {
+    const context = getToolContext(experimental_context);
+    const owner = from || getSigningWallet(context);
+    if (!owner) {
+      return {
+        error: 'No signing wallet connected. Ask the user to connect a wallet before staking; watch addresses cannot sign.',
+      };
+    }
+
+    try {
+      const { quote, transaction, lastValidBlockHeight, submitVia } = await liquidStakingService.buildTransaction(
+        owner,
+        action,
+        lst,
+        amount,
+        { route, slippageBps }
+      );
+      const description = action === 'deposit'
+        ? `Stake ${quote.inputAmount} SOL for ~${quote.outputAmount} ${quote.lst.symbol}`
+        : `Unstake ${quote.inputAmount} ${quote.lst.symbol} for ~${quote.outputAmount} SOL`;
+
+      const simulation = await transactionSimulator.simulate(transaction, { accounts: [owner] }).catch(() => null);
+      abortSignal?.throwIfAborted();
+      const signingRequest = signingRequestManager.create({
+        kind: 'liquid-stake',
+        description,
+        signer: owner,
+        transaction,
+        lastValidBlockHeight,
+        submitVia,
+        simulation,
+        conversationId: context.conversationId,
+      });
+
+      return {
+        status: 'awaiting_signature',
+        signingRequest,
+        action,
+        lst: quote.lst.symbol,
+        mint: quote.lst.mint,
+        route: quote.route,
+        jupiterRoute: quote.jupiterRoute,
+        inputAmount: quote.inputAmount,
+        outputAmount: quote.outputAmount,
+        minimumOutputAmount: quote.minimumOutputAmount,
+        poolFee: quote.fee,
+        alternatives: quote.alternatives,
+        warnings: quote.warnings,
+        simulation: simulation ? summarizeSimulation(simulation, owner) : null,
+        network: SOLANA_CONFIG.network,
+        message: 'The unsigned transaction is waiting for the user to sign it in their wallet. Nothing has been sent yet.',
+      };
+    } catch (error: any) {
+      return {
+        error: `Liquid staking failed: ${error.message || error}`,
+        code: error.code,
+        action,
+        lst,
+        amount,
+      };
+    }
+  },
+});
+
+// Staking Info Tool
+export const stakingInfoTool = tool({
+  description: 'List validators to stake with (commission, active stake, skip rate, delinquency), compare liquid staking token APYs (jitoSOL, mSOL, bSOL, INF), and show the stake accounts of a wallet with their status and withdrawable SOL',
+  inputSchema: z.object({
+    owner: z.string().optional().describe('Wallet whose stake accounts to list. Defaults to the user\'s connected wallet.'),
+    sortBy: z.enum(['stake', 'commission', 'skipRate']).optional().default('stake').describe('How to rank validators'),
+    limit: z.number().min(0).max(50).optional().default(10).describe('Number of validators to return (0 to skip the directory)'),
+    includeAll: z.boolean().optional().default(false).describe('Include delinquent, high-commission and high-skip-rate validators'),
+    includeLiquidStaking: z.boolean().optional().default(true).describe('Compare liquid staking token APYs'),
+  }),
+  execute: async ({ owner, sortBy = 'stake', limit = 10, includeAll = false, includeLiquidStaking = true }, { experimental_context }) => {
+    const wallet = owner || getToolContext(experimental_context).walletAddress;
+
+    try {
+      const [validators, positions, liquidStaking] = await Promise.all([
+        limit > 0 ? stakingService.getValidators({ limit, sortBy, recommendedOnly: !includeAll }) : Promise.resolve([]),
+        wallet ? stakingService.getStakePositions(wallet) : Promise.resolve(null),
+        includeLiquidStaking ? liquidStakingService.getApys() : Promise.resolve(null),
+      ]);
+
+      return {
+        validators: validators.map(validator => ({
+          voteAccount: validator.voteAccount,
+          name: validator.name,
+          commission: validator.commission,
+          activatedStake: Math.round(validator.activatedStake),
+          skipRate: validator.skipRate !== null ? Number((validator.skipRate * 100).toFixed(2)) : null,
+          delinquent: validator.delinquent,
+          recommended: validator.recommended,
+        })),
+        owner: wallet,
+        stakeAccounts: positions?.map(position => ({
+          address: position.address,
+          balance: position.balance,
+          status: position.status,
+          validator: position.account.delegation?.voter,
+          delegatedStake: position.account.delegation ? position.account.delegation.stake / LAMPORTS_PER_SOL : 0,
+          withdrawable: position.withdrawable,
+        })),
+        liquidStaking: liquidStaking?.map(lst => ({
+          symbol: lst.symbol,
+          mint: lst.mint,
+          apy: lst.apy !== null ? Number((lst.apy * 100).toFixed(2)) : null,
+          apySource: lst.apySource,
+          solPerToken: lst.solPerToken,
+          totalStakedSol: lst.totalStakedSol !== null ? Math.round(lst.totalStakedSol) : null,
+          rewardFee: lst.rewardFee,
+          notes: lst.notes,
+        })),
+        network: SOLANA_CONFIG.network,
+      };
+    } catch (error: any) {
+      return {
+        error: `Failed to load staking info: ${error.message || error}`,
+        code: error.code,
+        owner: wallet,
+      };
+    }
+  },
+});
+
 // Jupiter Ultra Swap Tool
 export const jupiterUltraSwapTool = tool({
-  description: 'Execute advanced swaps using Jupiter Ultra API with gasless support, MEV protection, and optimal routing',
-  parameters: z.object({
+  description: 'Prepare a swap with Jupiter Ultra API (gasless support, MEV protection, optimal routing) for the user to sign in their connected wallet',
+  inputSchema: z.object({
     inputMint: z.string().describe('Input token mint address'),
     outputMint: z.string().describe('Output token mint address'),
     amount: z.string().describe('Amount to swap (in smallest unit)'),
-    userPublicKey: z.string().describe('User wallet public key'),
+    userPublicKey: z.string().optional().describe('User wallet public key. Defaults to the user\'s connected wallet.'),
     slippageBps: z.number().optional().default(50).describe('Slippage tolerance in basis points (50 = 0.5%)'),
     enableGasless: z.boolean().optional().default(true).describe('Enable gasless swap if eligible'),
     priorityLevel: z.enum(['Min', 'Low', 'Medium', 'High', 'VeryHigh']).optional().default('Medium').describe('Transaction priority level'),
     integratorFeeBps: z.number().optional().describe('Integrator fee in basis points'),
   }),
-  execute: async ({ inputMint, outputMint, amount, userPublicKey, slippageBps, enableGasless, priorityLevel, integratorFeeBps }) => {
+  execute: async ({ inputMint, outputMint, amount, userPublicKey: requestedWallet, slippageBps, enableGasless, priorityLevel, integratorFeeBps }, { experimental_context, abortSignal }) => {
+    const context = getToolContext(experimental_context);
+    const userPublicKey = requestedWallet || getSigningWallet(context);
+    if (!userPublicKey) {
+      return {
+        error: 'No signing wallet connected. Ask the user to connect a wallet before swapping; watch addresses cannot sign.',
+      };
+    }
+
     try {
       const result = await jupiterUnifiedService.swap({
         inputMint,
@@ -511,10 +945,27 @@ export const jupiterUltraSwapTool = tool({
         })
       });
 
-      return {
-        success: true,
+      // Preview what the unsigned swap will change before the user signs it
+      const simulation = await transactionSimulator
+        .simulate(result.transaction, { accounts: [userPublicKey] })
+        .catch(() => null);
+
+      abortSignal?.throwIfAborted();
+      const signingRequest = signingRequestManager.create({
+        kind: 'jupiter-ultra-swap',
+        description: `Swap ${result.route.inputAmount} ${inputMint} for ~${result.route.outputAmount} ${outputMint}`,
+        signer: userPublicKey,
         transaction: result.transaction,
         lastValidBlockHeight: result.lastValidBlockHeight,
+        submitVia: result.tier === 'ultra' ? 'jupiter-ultra' : 'rpc',
+        simulation,
+        conversationId: context.conversationId,
+      });
+
+      return {
+        status: 'awaiting_signature',
+        signingRequest,
+        lastValidBlockHeight: result.lastValidBlockHeight,
         priorityFeeEstimate: result.priorityFeeEstimate,
         route: {
           inputMint: result.route.inputMint,
@@ -527,8 +978,19 @@ export const jupiterUltraSwapTool = tool({
         },
         gasless: result.gasless,
         riskAssessment: result.riskAssessment,
+        simulation: simulation ? {
+          summary: summarizeSimulation(simulation, userPublicKey),
+          success: simulation.success,
+          error: simulation.error,
+          fee: simulation.fee,
+          unitsConsumed: simulation.unitsConsumed,
+          solChanges: simulation.solChanges,
+          tokenChanges: simulation.tokenChanges,
+          warnings: simulation.warnings,
+        } : null,
         tier: result.tier,
         executionTime: `${result.timeTaken}ms`,
+        message: 'The swap transaction is waiting for the user to sign it in their wallet. Nothing has been executed yet.',
         timestamp: new Date().toISOString(),
       };
     } catch (error: any) {
@@ -546,7 +1008,7 @@ export const jupiterUltraSwapTool = tool({
 // Jupiter Quote Comparison Tool
 export const jupiterQuoteComparisonTool = tool({
   description: 'Compare quotes between Jupiter Lite and Ultra APIs to find the best deal',
-  parameters: z.object({
+  inputSchema: z.object({
     inputMint: z.string().describe('Input token mint address'),
     outputMint: z.string().describe('Output token mint address'),
     amount: z.string().describe('Amount to swap (in smallest unit)'),
@@ -600,12 +1062,17 @@ export const jupiterQuoteComparisonTool = tool({
 // Jupiter Balance Checker Tool (Ultra API)
 export const jupiterBalanceCheckerTool = tool({
   description: 'Check token balances for a wallet using Jupiter Ultra API',
-  parameters: z.object({
-    owner: z.string().describe('Wallet address to check balances for'),
+  inputSchema: z.object({
+    owner: z.string().optional().describe('Wallet address to check balances for. Defaults to the user\'s active wallet.'),
     mints: z.array(z.string()).optional().describe('Specific token mints to check (if not provided, returns all tokens)'),
     showZeroBalances: z.boolean().optional().default(false).describe('Include tokens with zero balance'),
   }),
-  execute: async ({ owner, mints, showZeroBalances }) => {
+  execute: async ({ owner: requestedOwner, mints, showZeroBalances }, { experimental_context }) => {
+    const owner = requestedOwner || getToolContext(experimental_context).walletAddress;
+    if (!owner) {
+      return { error: 'No wallet address given and no wallet is connected' };
+    }
+
     try {
       const result = await jupiterUltraService.getBalances({
         owner,
@@ -645,7 +1112,7 @@ export const jupiterBalanceCheckerTool = tool({
 // Jupiter Token Safety Tool (Shield)
 export const jupiterTokenSafetyTool = tool({
   description: 'Check token safety and risk assessment using Jupiter Ultra Shield API',
-  parameters: z.object({
+  inputSchema: z.object({
     mints: z.array(z.string()).describe('Token mint addresses to check for safety'),
   }),
   execute: async ({ mints }) => {
@@ -691,7 +1158,7 @@ export const jupiterTokenSafetyTool = tool({
 // Jupiter Service Status Tool
 export const jupiterServiceStatusTool = tool({
   description: 'Check the status and health of Jupiter Lite and Ultra API services',
-  parameters: z.object({
+  inputSchema: z.object({
     includeRateLimits: z.boolean().optional().default(true).describe('Include rate limit information'),
   }),
   execute: async ({ includeRateLimits }) => {
@@ -736,6 +1203,139 @@ export const jupiterServiceStatusTool = tool({
   },
 });
 
+// Transaction Simulation Tool
+export const simulateTransactionTool = tool({
+  description: 'Simulate a base64-encoded Solana transaction and report the SOL and token balance changes, fee and compute units it would cause',
+  inputSchema: z.object({
+    transaction: z.string().describe('Base64-encoded transaction (legacy or versioned, signed or unsigned)'),
+    accounts: z.array(z.string()).optional().describe('Additional account addresses to report balance changes for'),
+    includeLogs: z.boolean().optional().default(false).describe('Include program logs in the result'),
+  }),
+  execute: async ({ transaction, accounts, includeLogs }) => {
+    try {
+      const report = await transactionSimulator.simulate(transaction, { accounts });
+
+      return {
+        summary: summarizeSimulation(report),
+        success: report.success,
+        simulationError: report.error,
+        feePayer: report.feePayer,
+        fee: report.fee,
+        unitsConsumed: report.unitsConsumed,
+        solChanges: report.solChanges,
+        tokenChanges: report.tokenChanges,
+        warnings: report.warnings,
+        logs: includeLogs ? report.logs : undefined,
+        slot: report.slot,
+        network: SOLANA_CONFIG.network,
+      };
+    } catch (error: any) {
+      return {
+        error: `Simulation failed: ${error.message || error}`,
+      };
+    }
+  },
+});
+
+// Portfolio Tool
+export const portfolioTool = tool({
+  description: 'Value all SOL and SPL token holdings of a wallet in USD with 24h change and risk flags',
+  inputSchema: z.object({
+    owner: z.string().optional().describe('Wallet address. Defaults to the user\'s active wallet.'),
+    limit: z.number().optional().default(20).describe('Maximum number of holdings to return, largest first'),
+  }),
+  execute: async ({ owner: requestedOwner, limit = 20 }, { experimental_context }) => {
+    const owner = requestedOwner || getToolContext(experimental_context).walletAddress;
+    if (!owner) {
+      return { error: 'No wallet address given and no wallet is connected' };
+    }
+
+    try {
+      const portfolio = await portfolioService.getPortfolio(owner);
+
+      return {
+        owner: portfolio.owner,
+        network: portfolio.network,
+        totalValueUsd: portfolio.totalValueUsd.toFixed(2),
+        change24hUsd: portfolio.change24hUsd.toFixed(2),
+        change24hPct: portfolio.change24hPct.toFixed(2),
+        holdingCount: portfolio.holdings.length,
+        holdings: portfolio.holdings.slice(0, limit).map(holding => ({
+          symbol: holding.symbol,
+          name: holding.name,
+          mint: holding.mint,
+          amount: holding.amount,
+          priceUsd: holding.priceUsd,
+          valueUsd: holding.valueUsd !== null ? holding.valueUsd.toFixed(2) : null,
+          change24hPct: holding.change24hPct !== null ? holding.change24hPct.toFixed(2) : null,
+          verified: holding.isVerified,
+          risky: holding.risk?.risky || false,
+          riskWarnings: holding.risk?.warnings,
+        })),
+        unpricedCount: portfolio.unpricedCount,
+        riskyCount: portfolio.riskyCount,
+        warnings: portfolio.warnings,
+        timestamp: portfolio.fetchedAt,
+      };
+    } catch (error: any) {
+      return {
+        error: `Portfolio valuation failed: ${error.message || error}`,
+        owner,
+      };
+    }
+  },
+});
+
+// Wallet PnL Tool
+export const walletPnlTool = tool({
+  description: 'Analyze how a wallet performed: per-token FIFO cost basis and realized/unrealized PnL from its transaction history',
+  inputSchema: z.object({
+    owner: z.string().optional().describe('Wallet address. Defaults to the user\'s active wallet.'),
+    maxTransactions: z.number().int().min(1).max(1000).optional().default(200).describe('How many recent transactions to analyze'),
+  }),
+  execute: async ({ owner: requestedOwner, maxTransactions = 200 }, { experimental_context }) => {
+    const owner = requestedOwner || getToolContext(experimental_context).walletAddress;
+    if (!owner) {
+      return { error: 'No wallet address given and no wallet is connected' };
+    }
+
+    try {
+      const report = await walletPnlService.getReport(owner, { maxTransactions });
+
+      return {
+        owner: report.owner,
+        network: report.network,
+        period: report.period,
+        transactionsAnalyzed: report.transactionsAnalyzed,
+        activityCounts: report.activityCounts,
+        totals: {
+          costBasisUsd: report.totals.costBasisUsd.toFixed(2),
+          currentValueUsd: report.totals.currentValueUsd.toFixed(2),
+          realizedPnlUsd: report.totals.realizedPnlUsd.toFixed(2),
+          unrealizedPnlUsd: report.totals.unrealizedPnlUsd.toFixed(2),
+          feesSol: report.totals.feesSol,
+        },
+        tokens: report.tokens.slice(0, 20).map(token => ({
+          symbol: token.symbol,
+          mint: token.mint,
+          amountHeld: token.amountHeld,
+          averageCostUsd: token.averageCostUsd,
+          currentPriceUsd: token.currentPriceUsd,
+          realizedPnlUsd: token.realizedPnlUsd.toFixed(2),
+          unrealizedPnlUsd: token.unrealizedPnlUsd !== null ? token.unrealizedPnlUsd.toFixed(2) : null,
+        })),
+        warnings: report.warnings,
+        timestamp: report.generatedAt,
+      };
+    } catch (error: any) {
+      return {
+        error: `PnL analysis failed: ${error.message || error}`,
+        owner,
+      };
+    }
+  },
+});
+
 // Export all tools in a registry
 export const toolsRegistry = {
   'web-search': webSearchTool,
@@ -746,7 +1346,15 @@ export const toolsRegistry = {
   'token-validation': tokenValidationTool,
   'token-search': tokenSearchTool,
   'transfer-sol': transferSolTool,
+  'transfer-token': transferTokenTool,
   'get-transaction': getTransactionTool,
+  'inspect-address': inspectAddressTool,
+  'stake-sol': stakeSolTool,
+  'staking-info': stakingInfoTool,
+  'liquid-stake': liquidStakeTool,
+  'simulate-transaction': simulateTransactionTool,
+  'portfolio': portfolioTool,
+  'wallet-pnl': walletPnlTool,
   'defi-analyzer': defiAnalyzerTool,
   'nft-analyzer': nftAnalyzerTool,
   'jupiter-ultra-swap': jupiterUltraSwapTool,
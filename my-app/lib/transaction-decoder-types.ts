@@ -0,0 +1,85 @@
+/**
+ * Transaction Decoder Type Definitions
+ * Shared between the per-program instruction decoders, the transaction
+ * decoder service and the `get-transaction` tool
+ */
+
+import type { PublicKey, TransactionInstruction } from '@solana/web3.js';
+
+export interface DecodedInstruction {
+  index: string; // "2" for the third top-level instruction, "2.1" for its second inner instruction
+  programId: string;
+  program: string; // Human-readable program name, or the program id when unknown
+  type: string; // e.g. "transfer", "unknown"
+  info: Record<string, unknown>; // Decoded accounts and arguments; amounts in UI units when decimals are known
+  summary?: string; // One-line description, e.g. "Transfer 1.5 SOL to 9xQe…"
+  decodedWith?: 'builtin' | 'idl';
+  innerInstructions?: DecodedInstruction[];
+}
+
+export interface AccountBalanceChange {
+  account: string;
+  owner: string; // Wallet that owns the account; the account itself for SOL
+  mint: string; // SOL_MINT for native SOL
+  symbol?: string;
+  decimals: number;
+  before: number; // UI units
+  after: number; // UI units
+  change: number; // UI units
+}
+
+export interface LookupTableUsage {
+  address: string;
+  writable: string[];
+  readonly: string[];
+}
+
+export interface DecodedTransaction {
+  signature: string;
+  slot: number;
+  blockTime: string | null;
+  status: 'success' | 'failed';
+  error: unknown;
+  version: 'legacy' | number;
+  feePayer: string;
+  signers: string[];
+  fee: number; // SOL
+  computeUnits?: number;
+  programs: string[]; // Names of every program invoked, top-level and inner
+  lookupTables: LookupTableUsage[];
+  instructions: DecodedInstruction[];
+  balanceChanges: AccountBalanceChange[];
+  narrative: string; // e.g. "Swapped 1.2 SOL for 180 USDC via Orca"
+}
+
+/**
+ * Token metadata gathered from the transaction's own token balances and, where
+ * available, the token list; decoders use it to show UI amounts and symbols
+ */
+export interface DecodeContext {
+  tokenAccounts: Map<string, { mint: string; owner?: string; decimals: number }>;
+  mints: Map<string, { decimals: number; symbol?: string }>;
+}
+
+export interface InstructionDecodeResult {
+  type: string;
+  info: Record<string, unknown>;
+  summary?: string;
+}
+
+/**
+ * Decodes instructions of one or more programs. Returning null leaves the
+ * instruction undecoded rather than failing the transaction.
+ */
+export interface InstructionDecoder {
+  readonly name: string;
+  readonly programIds: PublicKey[];
+  decode(instruction: TransactionInstruction, context: DecodeContext): InstructionDecodeResult | null;
+}
+
+export class TransactionDecodeError extends Error {
+  constructor(message: string, public code: 'NOT_FOUND' | 'INVALID_SIGNATURE' | 'RPC_ERROR') {
+    super(message);
+    this.name = 'TransactionDecodeError';
+  }
+}
@@ -0,0 +1,415 @@
+/**
+ * Transaction Decoder
+ * Turns a confirmed transaction into decoded instructions (top-level and
+ * inner), per-account balance changes and a one-line narrative the model can
+ * cite, e.g. "Swapped 1.2 SOL for 180 USDC via Jupiter (Orca)".
+ *
+ * Address lookup tables are resolved from the transaction's loaded addresses.
+ * Programs without a built-in decoder are decoded from their on-chain Anchor
+ * IDL when they publish one.
+ */
+
+import bs58 from 'bs58';
+import {
+  Connection,
+  LAMPORTS_PER_SOL,
+  PublicKey,
+  TransactionInstruction,
+  type AddressLookupTableAccount,
+  type LoadedAddresses,
+  type MessageAccountKeys,
+  type VersionedTransactionResponse,
+} from '@solana/web3.js';
+import { Program, type Idl, type Provider } from '@coral-xyz/anchor';
+import { SOLANA_CONFIG } from './solana-config';
+import { jupiterTokenService } from './jupiter-token-service';
+import {
+  AnchorIdlDecoder,
+  JUPITER_V6_PROGRAM_ID,
+  PROGRAM_NAMES,
+  SOL_MINT,
+  SWAP_VENUES,
+  createDefaultDecoders,
+  shortAddress,
+} from './instruction-decoders';
+import {
+  TransactionDecodeError,
+  type AccountBalanceChange,
+  type DecodeContext,
+  type DecodedInstruction,
+  type DecodedTransaction,
+  type InstructionDecoder,
+  type LookupTableUsage,
+} from './transaction-decoder-types';
+
+const SOL_DECIMALS = 9;
+const RENT_THRESHOLD_SOL = 0.003; // Account rent moved alongside a token transfer is not worth narrating
+
+export class TransactionDecoder {
+  private connection: Connection;
+  private decoders = new Map<string, InstructionDecoder>();
+  private idlDecoders = new Map<string, Promise<InstructionDecoder | null>>();
+
+  constructor(connection?: Connection, decoders: InstructionDecoder[] = createDefaultDecoders()) {
+    this.connection = connection || new Connection(SOLANA_CONFIG.rpcUrl[SOLANA_CONFIG.network], SOLANA_CONFIG.commitment);
+    decoders.forEach(decoder => this.registerDecoder(decoder));
+  }
+
+  registerDecoder(decoder: InstructionDecoder): void {
+    for (const programId of decoder.programIds) {
+      this.decoders.set(programId.toBase58(), decoder);
+    }
+  }
+
+  /**
+   * Fetch and decode a confirmed transaction by signature
+   */
+  async decode(signature: string): Promise<DecodedTransaction> {
+    let signatureBytes: Uint8Array;
+    try {
+      signatureBytes = bs58.decode(signature);
+    } catch {
+      signatureBytes = new Uint8Array();
+    }
+    if (signatureBytes.length !== 64) {
+      throw new TransactionDecodeError(`Invalid transaction signature: ${signature}`, 'INVALID_SIGNATURE');
+    }
+
+    let response: VersionedTransactionResponse | null;
+    try {
+      response = await this.connection.getTransaction(signature, {
+        commitment: 'confirmed',
+        maxSupportedTransactionVersion: 0,
+      });
+    } catch (error: any) {
+      throw new TransactionDecodeError(`Failed to load transaction: ${error.message || error}`, 'RPC_ERROR');
+    }
+    if (!response) {
+      throw new TransactionDecodeError(`Transaction not found: ${signature}`, 'NOT_FOUND');
+    }
+
+    return this.decodeResponse(signature, response);
+  }
+
+  /**
+   * Decode an already fetched transaction
+   */
+  async decodeResponse(signature: string, response: VersionedTransactionResponse): Promise<DecodedTransaction> {
+    const { message } = response.transaction;
+    const { meta } = response;
+    const accountKeys = await this.resolveAccountKeys(response);
+    const keyAt = (index: number) => accountKeys.get(index)!.toBase58();
+
+    const context = await this.buildContext(response, keyAt);
+
+    const toInstruction = (programIdIndex: number, accountIndexes: number[], data: Uint8Array) =>
+      new TransactionInstruction({
+        programId: accountKeys.get(programIdIndex)!,
+        keys: accountIndexes.map(index => ({
+          pubkey: accountKeys.get(index)!,
+          isSigner: message.isAccountSigner(index),
+          isWritable: message.isAccountWritable(index),
+        })),
+        data: Buffer.from(data),
+      });
+
+    const innerByIndex = new Map((meta?.innerInstructions || []).map(inner => [inner.index, inner.instructions]));
+    const instructions: DecodedInstruction[] = [];
+    for (const [index, compiled] of message.compiledInstructions.entries()) {
+      const decoded = await this.decodeInstruction(
+        toInstruction(compiled.programIdIndex, compiled.accountKeyIndexes, compiled.data),
+        String(index),
+        context
+      );
+      const inner = innerByIndex.get(index) || [];
+      if (inner.length > 0) {
+        decoded.innerInstructions = [];
+        for (const [innerIndex, instruction] of inner.entries()) {
+          decoded.innerInstructions.push(await this.decodeInstruction(
+            toInstruction(instruction.programIdIndex, instruction.accounts, bs58.decode(instruction.data)),
+            `${index}.${innerIndex}`,
+            context
+          ));
+        }
+      }
+      instructions.push(decoded);
+    }
+
+    const signers = message.staticAccountKeys
+      .slice(0, message.header.numRequiredSignatures)
+      .map(key => key.toBase58());
+    const all = instructions.flatMap(instruction => [instruction, ...(instruction.innerInstructions || [])]);
+    const balanceChanges = computeBalanceChanges(response, keyAt, context);
+
+    const decoded: DecodedTransaction = {
+      signature,
+      slot: response.slot,
+      blockTime: response.blockTime ? new Date(response.blockTime * 1000).toISOString() : null,
+      status: meta?.err ? 'failed' : 'success',
+      error: meta?.err ?? null,
+      version: response.version ?? 'legacy',
+      feePayer: signers[0],
+      signers,
+      fee: (meta?.fee ?? 0) / LAMPORTS_PER_SOL,
+      computeUnits: meta?.computeUnitsConsumed,
+      programs: Array.from(new Set(all.map(instruction => instruction.program))),
+      lookupTables: describeLookupTables(response),
+      instructions,
+      balanceChanges,
+      narrative: '',
+    };
+    decoded.narrative = buildNarrative(decoded, context);
+    return decoded;
+  }
+
+  private async decodeInstruction(
+    instruction: TransactionInstruction,
+    index: string,
+    context: DecodeContext
+  ): Promise<DecodedInstruction> {
+    const programId = instruction.programId.toBase58();
+    const decoder = this.decoders.get(programId) || await this.getIdlDecoder(programId);
+
+    let result = null;
+    try {
+      result = decoder ? decoder.decode(instruction, context) : null;
+    } catch {
+      // Malformed or unsupported instruction data; reported as unknown below
+    }
+
+    return {
+      index,
+      programId,
+      program: PROGRAM_NAMES[programId] || decoder?.name || programId,
+      type: result?.type || 'unknown',
+      info: result?.info || { accounts: instruction.keys.map(key => key.pubkey.toBase58()) },
+      summary: result?.summary,
+      decodedWith: result ? (decoder instanceof AnchorIdlDecoder ? 'idl' : 'builtin') : undefined,
+    };
+  }
+
+  /**
+   * Anchor programs publish their IDL in a PDA of the program; only Anchor
+   * 0.30+ IDLs carry the discriminators needed to decode instructions
+   */
+  private getIdlDecoder(programId: string): Promise<InstructionDecoder | null> {
+    if (PROGRAM_NAMES[programId]) return Promise.resolve(null);
+
+    let pending = this.idlDecoders.get(programId);
+    if (!pending) {
+      const provider = { connection: this.connection } as Provider;
+      pending = Program.fetchIdl<Idl>(new PublicKey(programId), provider)
+        .then(idl => idl?.address && idl.instructions?.every(instruction => Array.isArray(instruction.discriminator))
+          ? new AnchorIdlDecoder(idl)
+          : null)
+        .catch(() => null);
+      this.idlDecoders.set(programId, pending);
+    }
+    return pending;
+  }
+
+  private async resolveAccountKeys(response: VersionedTransactionResponse): Promise<MessageAccountKeys> {
+    const { message } = response.transaction;
+    if (message.addressTableLookups.length === 0) {
+      return message.getAccountKeys();
+    }
+    if (response.meta?.loadedAddresses) {
+      return message.getAccountKeys({ accountKeysFromLookups: response.meta.loadedAddresses });
+    }
+
+    // Older RPC nodes omit loaded addresses; fall back to the tables' current contents
+    const tables: AddressLookupTableAccount[] = [];
+    for (const lookup of message.addressTableLookups) {
+      const table = await this.connection.getAddressLookupTable(lookup.accountKey).catch(() => null);
+      if (!table?.value) {
+        throw new TransactionDecodeError(`Address lookup table not found: ${lookup.accountKey.toBase58()}`, 'RPC_ERROR');
+      }
+      tables.push(table.value);
+    }
+    return message.getAccountKeys({ addressLookupTableAccounts: tables });
+  }
+
+  private async buildContext(response: VersionedTransactionResponse, keyAt: (index: number) => string): Promise<DecodeContext> {
+    const context: DecodeContext = { tokenAccounts: new Map(), mints: new Map() };
+    const balances = [...(response.meta?.preTokenBalances || []), ...(response.meta?.postTokenBalances || [])];
+
+    for (const balance of balances) {
+      const { decimals } = balance.uiTokenAmount;
+      context.tokenAccounts.set(keyAt(balance.accountIndex), { mint: balance.mint, owner: balance.owner, decimals });
+      context.mints.set(balance.mint, { decimals });
+    }
+
+    const tokens = await jupiterTokenService.getTokensData(Array.from(context.mints.keys())).catch(() => new Map());
+    for (const [mint, token] of tokens) {
+      const entry = context.mints.get(mint);
+      if (entry) entry.symbol = token.symbol;
+    }
+    context.mints.set(SOL_MINT, { decimals: SOL_DECIMALS, symbol: 'SOL' });
+    return context;
+  }
+}
+
+/**
+ * SOL and token balance changes of every account the transaction touched
+ */
+export function computeBalanceChanges(
+  response: VersionedTransactionResponse,
+  keyAt: (index: number) => string,
+  context: DecodeContext
+): AccountBalanceChange[] {
+  const { meta } = response;
+  if (!meta) return [];
+  const changes: AccountBalanceChange[] = [];
+
+  meta.preBalances.forEach((before, index) => {
+    const after = meta.postBalances[index];
+    if (after === before) return;
+    const account = keyAt(index);
+    changes.push({
+      account,
+      owner: account,
+      mint: SOL_MINT,
+      symbol: 'SOL',
+      decimals: SOL_DECIMALS,
+      before: before / LAMPORTS_PER_SOL,
+      after: after / LAMPORTS_PER_SOL,
+      change: (after - before) / LAMPORTS_PER_SOL,
+    });
+  });
+
+  const tokenBalances = new Map<number, { mint: string; owner?: string; decimals: number; before: bigint; after: bigint }>();
+  for (const balance of meta.preTokenBalances || []) {
+    tokenBalances.set(balance.accountIndex, {
+      mint: balance.mint,
+      owner: balance.owner,
+      decimals: balance.uiTokenAmount.decimals,
+      before: BigInt(balance.uiTokenAmount.amount),
+      after: BigInt(0), // Closed unless a post balance exists
+    });
+  }
+  for (const balance of meta.postTokenBalances || []) {
+    const existing = tokenBalances.get(balance.accountIndex);
+    tokenBalances.set(balance.accountIndex, {
+      mint: balance.mint,
+      owner: balance.owner ?? existing?.owner,
+      decimals: balance.uiTokenAmount.decimals,
+      before: existing?.before ?? BigInt(0),
+      after: BigInt(balance.uiTokenAmount.amount),
+    });
+  }
+
+  for (const [index, balance] of tokenBalances) {
+    if (balance.after === balance.before) continue;
+    const account = keyAt(index);
+    const scale = Math.pow(10, balance.decimals);
+    changes.push({
+      account,
+      owner: balance.owner || account,
+      mint: balance.mint,
+      symbol: context.mints.get(balance.mint)?.symbol,
+      decimals: balance.decimals,
+      before: Number(balance.before) / scale,
+      after: Number(balance.after) / scale,
+      change: Number(balance.after - balance.before) / scale,
+    });
+  }
+
+  return changes;
+}
+
+function describeLookupTables(response: VersionedTransactionResponse): LookupTableUsage[] {
+  const { message } = response.transaction;
+  const loaded: LoadedAddresses | undefined = response.meta?.loadedAddresses;
+  let writableOffset = 0;
+  let readonlyOffset = 0;
+
+  return message.addressTableLookups.map(lookup => {
+    const writable = loaded
+      ? loaded.writable.slice(writableOffset, writableOffset + lookup.writableIndexes.length).map(key => key.toBase58())
+      : [];
+    const readonly = loaded
+      ? loaded.readonly.slice(readonlyOffset, readonlyOffset + lookup.readonlyIndexes.length).map(key => key.toBase58())
+      : [];
+    writableOffset += lookup.writableIndexes.length;
+    readonlyOffset += lookup.readonlyIndexes.length;
+    return { address: lookup.accountKey.toBase58(), writable, readonly };
+  });
+}
+
+function formatAmount(value: number): string {
+  return String(parseFloat(Math.abs(value).toFixed(6)));
+}
+
+/**
+ * One-line description of what the transaction did for its fee payer
+ */
+export function buildNarrative(transaction: DecodedTransaction, context: DecodeContext): string {
+  const { feePayer, balanceChanges, instructions } = transaction;
+  const all = instructions.flatMap(instruction => [instruction, ...(instruction.innerInstructions || [])]);
+  const label = (mint: string) => context.mints.get(mint)?.symbol || shortAddress(mint);
+
+  if (transaction.status === 'failed') {
+    return `Failed transaction calling ${transaction.programs.join(', ')}; only the ${transaction.fee} SOL fee was charged`;
+  }
+
+  // Net movement per asset for the fee payer, with wrapped SOL folded into SOL and the fee excluded
+  const net = new Map<string, number>();
+  for (const change of balanceChanges) {
+    if (change.owner !== feePayer) continue;
+    const paidFee = change.account === feePayer ? transaction.fee : 0; // Only the wallet's own SOL entry
+    net.set(change.mint, (net.get(change.mint) ?? 0) + change.change + paidFee);
+  }
+  const nonSolMoved = Array.from(net.entries()).some(([mint, amount]) => mint !== SOL_MINT && amount !== 0);
+  const movements = Array.from(net.entries()).filter(([mint, amount]) =>
+    mint === SOL_MINT
+      ? Math.abs(amount) > (nonSolMoved ? RENT_THRESHOLD_SOL : 1e-9)
+      : amount !== 0
+  );
+  const sent = movements.filter(([, amount]) => amount < 0);
+  const received = movements.filter(([, amount]) => amount > 0);
+  const describe = (entries: [string, number][]) =>
+    entries.map(([mint, amount]) => `${formatAmount(amount)} ${label(mint)}`).join(' and ');
+
+  // Counterparties: other owners whose balance of the asset moved the other way
+  const counterparties = (mint: string, direction: 1 | -1) => Array.from(new Set(
+    balanceChanges
+      .filter(change => change.owner !== feePayer && change.mint === mint && Math.sign(change.change) === direction)
+      .map(change => change.owner)
+  ));
+
+  if (sent.length > 0 && received.length > 0) {
+    const venues = Array.from(new Set(all.map(instruction => SWAP_VENUES[instruction.programId]).filter(Boolean)));
+    const viaJupiter = all.some(instruction => instruction.programId === JUPITER_V6_PROGRAM_ID.toBase58());
+    const via = viaJupiter
+      ? ` via Jupiter${venues.length > 0 ? ` (${venues.join(', ')})` : ''}`
+      : venues.length > 0 ? ` via ${venues.join(', ')}` : '';
+    const verb = sent.length === 1 && received.length === 1 ? 'Swapped' : 'Exchanged';
+    return `${verb} ${describe(sent)} for ${describe(received)}${via}`;
+  }
+
+  if (sent.length > 0) {
+    const recipients = counterparties(sent[0][0], 1);
+    const to = recipients.length === 1
+      ? ` to ${shortAddress(recipients[0])}`
+      : recipients.length > 1 ? ` to ${recipients.length} wallets` : '';
+    return `Sent ${describe(sent)}${to}`;
+  }
+
+  if (received.length > 0) {
+    const senders = counterparties(received[0][0], -1);
+    return `Received ${describe(received)}${senders.length === 1 ? ` from ${shortAddress(senders[0])}` : ''}`;
+  }
+
+  // No balance moved for the fee payer: describe the instructions instead
+  const summaries = instructions
+    .filter(instruction => instruction.program !== 'Compute Budget Program')
+    .map(instruction => instruction.summary || `${instruction.program}: ${instruction.type}`);
+  return summaries.length > 0 ? summaries.join('; ') : 'No instructions besides compute budget settings';
+}
+
+export function createTransactionDecoder(connection?: Connection): TransactionDecoder {
+  return new TransactionDecoder(connection);
+}
+
+// Export singleton instance
+export const transactionDecoder = createTransactionDecoder();
@@ -0,0 +1,360 @@
+/**
+ * Transaction Simulator
+ * Runs any transaction through simulateTransaction before it is signed and
+ * turns the result into a "what will change" report: SOL and SPL token
+ * balance deltas for every writable account, fee, compute units and logs.
+ */
+
+import {
+  Connection,
+  LAMPORTS_PER_SOL,
+  PublicKey,
+  Transaction,
+  VersionedTransaction,
+  type AccountInfo,
+  type AddressLookupTableAccount,
+} from '@solana/web3.js';
+import {
+  ACCOUNT_SIZE,
+  AccountLayout,
+  MINT_SIZE,
+  MintLayout,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+} from '@solana/spl-token';
+import { SOLANA_CONFIG } from './solana-config';
+
+const BASE_FEE_LAMPORTS = 5000;
+const MAX_ACCOUNTS_PER_REQUEST = 100;
+
+export type SimulatableTransaction = string | Uint8Array | Transaction | VersionedTransaction;
+
+export interface SolBalanceChange {
+  address: string;
+  before: number; // SOL
+  after: number; // SOL
+  change: number; // SOL
+  isSigner: boolean;
+  isWritable: boolean;
+}
+
+export interface TokenBalanceChange {
+  tokenAccount: string;
+  owner: string;
+  mint: string;
+  programId: string;
+  decimals: number;
+  before: number; // UI units
+  after: number; // UI units
+  change: number; // UI units
+}
+
+export interface SimulationReport {
+  success: boolean;
+  error?: string;
+  slot: number;
+  feePayer: string;
+  fee: {
+    lamports: number;
+    sol: number;
+  };
+  unitsConsumed?: number;
+  solChanges: SolBalanceChange[];
+  tokenChanges: TokenBalanceChange[];
+  logs: string[];
+  warnings: string[];
+  simulatedAt: string;
+}
+
+export interface SimulationOptions {
+  // Extra accounts to watch in addition to the transaction's writable accounts
+  accounts?: string[];
+  // Report accounts whose balance does not change
+  includeUnchanged?: boolean;
+}
+
+export class SimulationError extends Error {
+  constructor(message: string, public code: 'INVALID_TRANSACTION' | 'RPC_ERROR') {
+    super(message);
+    this.name = 'SimulationError';
+  }
+}
+
+interface ResolvedAccount {
+  address: string;
+  isSigner: boolean;
+  isWritable: boolean;
+}
+
+export class TransactionSimulator {
+  private connection: Connection;
+
+  constructor(connection?: Connection) {
+    this.connection = connection || new Connection(SOLANA_CONFIG.rpcUrl[SOLANA_CONFIG.network], SOLANA_CONFIG.commitment);
+  }
+
+  /**
+   * Simulate a transaction and report the balance changes it would cause
+   */
+  async simulate(input: SimulatableTransaction, options: SimulationOptions = {}): Promise<SimulationReport> {
+    const transaction = await this.toVersioned(input);
+    const accounts = await this.resolveAccounts(transaction);
+
+    const watched = dedupe([
+      ...accounts.filter(account => account.isWritable).map(account => account.address),
+      ...(options.accounts || []),
+    ]).slice(0, MAX_ACCOUNTS_PER_REQUEST);
+    const accountMeta = new Map(accounts.map(account => [account.address, account]));
+
+    let preAccounts: (AccountInfo<Buffer> | null)[];
+    let simulation: Awaited<ReturnType<Connection['simulateTransaction']>>;
+    try {
+      preAccounts = await this.connection.getMultipleAccountsInfo(watched.map(address => new PublicKey(address)));
+      simulation = await this.connection.simulateTransaction(transaction, {
+        sigVerify: false,
+        replaceRecentBlockhash: true,
+        accounts: { encoding: 'base64', addresses: watched },
+      });
+    } catch (error: any) {
+      throw new SimulationError(`Simulation request failed: ${error.message || error}`, 'RPC_ERROR');
+    }
+
+    const { value, context } = simulation;
+    const feePayer = accounts[0]?.address || '';
+    const fee = await this.estimateFee(transaction);
+    const report: SimulationReport = {
+      success: value.err === null,
+      error: value.err ? formatSimulationError(value.err, value.logs) : undefined,
+      slot: context.slot,
+      feePayer,
+      fee: { lamports: fee, sol: fee / LAMPORTS_PER_SOL },
+      unitsConsumed: value.unitsConsumed,
+      solChanges: [],
+      tokenChanges: [],
+      logs: value.logs || [],
+      warnings: [],
+      simulatedAt: new Date().toISOString(),
+    };
+
+    // Post-state accounts are only meaningful when the transaction succeeds
+    if (!report.success || !value.accounts) {
+      return report;
+    }
+
+    const postAccounts = value.accounts.map(account =>
+      account ? { lamports: account.lamports, owner: account.owner, data: Buffer.from(account.data[0], 'base64') } : null
+    );
+
+    const tokenStates: Array<{ address: string; before: RawTokenState | null; after: RawTokenState | null; programId: string }> = [];
+
+    watched.forEach((address, index) => {
+      const pre = preAccounts[index];
+      const post = postAccounts[index];
+      const before = (pre?.lamports || 0) / LAMPORTS_PER_SOL;
+      const after = (post?.lamports || 0) / LAMPORTS_PER_SOL;
+      const meta = accountMeta.get(address);
+
+      if (before !== after || options.includeUnchanged) {
+        report.solChanges.push({
+          address,
+          before,
+          after,
+          change: after - before,
+          isSigner: meta?.isSigner || false,
+          isWritable: meta?.isWritable || false,
+        });
+      }
+
+      if (pre && !post) {
+        report.warnings.push(`Account ${address} will be closed`);
+      }
+      if (meta && !meta.isSigner && after < before) {
+        report.warnings.push(`Account ${address} is debited without signing`);
+      }
+
+      const programId = [pre?.owner.toString(), post?.owner].find(owner => owner && isTokenProgram(owner));
+      if (programId) {
+        tokenStates.push({
+          address,
+          before: pre ? decodeTokenAccount(pre.data) : null,
+          after: post ? decodeTokenAccount(post.data) : null,
+          programId,
+        });
+      }
+    });
+
+    report.tokenChanges = await this.buildTokenChanges(tokenStates, options.includeUnchanged || false);
+    return report;
+  }
+
+  private async buildTokenChanges(
+    states: Array<{ address: string; before: RawTokenState | null; after: RawTokenState | null; programId: string }>,
+    includeUnchanged: boolean
+  ): Promise<TokenBalanceChange[]> {
+    const mints = dedupe(
+      states.map(state => (state.after || state.before)?.mint).filter((mint): mint is string => Boolean(mint))
+    );
+    const decimals = await this.getMintDecimals(mints);
+
+    return states.flatMap(state => {
+      const token = state.after || state.before;
+      if (!token) return [];
+
+      const scale = Math.pow(10, decimals.get(token.mint) ?? 0);
+      const before = Number(state.before?.amount || BigInt(0)) / scale;
+      const after = Number(state.after?.amount || BigInt(0)) / scale;
+      if (before === after && !includeUnchanged) return [];
+
+      return [{
+        tokenAccount: state.address,
+        owner: token.owner,
+        mint: token.mint,
+        programId: state.programId,
+        decimals: decimals.get(token.mint) ?? 0,
+        before,
+        after,
+        change: after - before,
+      }];
+    });
+  }
+
+  private async getMintDecimals(mints: string[]): Promise<Map<string, number>> {
+    const decimals = new Map<string, number>();
+    if (mints.length === 0) return decimals;
+
+    const infos = await this.connection.getMultipleAccountsInfo(mints.map(mint => new PublicKey(mint)));
+    infos.forEach((info, index) => {
+      if (info && info.data.length >= MINT_SIZE) {
+        decimals.set(mints[index], MintLayout.decode(info.data.subarray(0, MINT_SIZE)).decimals);
+      }
+    });
+    return decimals;
+  }
+
+  private async estimateFee(transaction: VersionedTransaction): Promise<number> {
+    const fallback = BASE_FEE_LAMPORTS * transaction.message.header.numRequiredSignatures;
+    try {
+      const { value } = await this.connection.getFeeForMessage(transaction.message);
+      return value ?? fallback;
+    } catch {
+      return fallback;
+    }
+  }
+
+  private async resolveAccounts(transaction: VersionedTransaction): Promise<ResolvedAccount[]> {
+    const { message } = transaction;
+    const lookupTables: AddressLookupTableAccount[] = [];
+
+    for (const lookup of message.addressTableLookups) {
+      const table = await this.connection.getAddressLookupTable(lookup.accountKey);
+      if (!table.value) {
+        throw new SimulationError(`Address lookup table not found: ${lookup.accountKey.toString()}`, 'INVALID_TRANSACTION');
+      }
+      lookupTables.push(table.value);
+    }
+
+    const keys = message.getAccountKeys({ addressLookupTableAccounts: lookupTables });
+    const accounts: ResolvedAccount[] = [];
+    for (let index = 0; index < keys.length; index++) {
+      accounts.push({
+        address: keys.get(index)!.toString(),
+        isSigner: message.isAccountSigner(index),
+        isWritable: message.isAccountWritable(index),
+      });
+    }
+    return accounts;
+  }
+
+  private async toVersioned(input: SimulatableTransaction): Promise<VersionedTransaction> {
+    if (input instanceof VersionedTransaction) return input;
+
+    if (input instanceof Transaction) {
+      if (!input.feePayer) {
+        throw new SimulationError('Transaction has no fee payer', 'INVALID_TRANSACTION');
+      }
+      // Compile a copy so the caller's transaction is left untouched
+      const recentBlockhash = input.recentBlockhash || (await this.connection.getLatestBlockhash()).blockhash;
+      const copy = new Transaction({ feePayer: input.feePayer, recentBlockhash }).add(...input.instructions);
+      return new VersionedTransaction(copy.compileMessage());
+    }
+
+    const bytes = typeof input === 'string' ? Buffer.from(input, 'base64') : Buffer.from(input);
+    try {
+      return VersionedTransaction.deserialize(bytes);
+    } catch {
+      try {
+        return await this.toVersioned(Transaction.from(bytes));
+      } catch (error: any) {
+        throw new SimulationError(`Could not decode transaction: ${error.message || error}`, 'INVALID_TRANSACTION');
+      }
+    }
+  }
+}
+
+interface RawTokenState {
+  mint: string;
+  owner: string;
+  amount: bigint;
+}
+
+function decodeTokenAccount(data: Buffer): RawTokenState | null {
+  // Token-2022 accounts append extensions after the base layout
+  if (data.length < ACCOUNT_SIZE) return null;
+  const account = AccountLayout.decode(data.subarray(0, ACCOUNT_SIZE));
+  return {
+    mint: account.mint.toString(),
+    owner: account.owner.toString(),
+    amount: account.amount,
+  };
+}
+
+function isTokenProgram(programId: string): boolean {
+  return programId === TOKEN_PROGRAM_ID.toString() || programId === TOKEN_2022_PROGRAM_ID.toString();
+}
+
+function formatSimulationError(err: unknown, logs: string[] | null): string {
+  const failedLog = logs?.slice().reverse().find(log => /failed|error/i.test(log));
+  const base = typeof err === 'string' ? err : JSON.stringify(err);
+  return failedLog ? `${base}: ${failedLog}` : base;
+}
+
+function dedupe(values: string[]): string[] {
+  return Array.from(new Set(values));
+}
+
+/**
+ * One-line description of a report, e.g. for Blink messages and tool results
+ */
+export function summarizeSimulation(report: SimulationReport, account?: string): string {
+  if (!report.success) {
+    return `Simulation failed: ${report.error}`;
+  }
+
+  const owner = account || report.feePayer;
+  const changes = [
+    ...report.solChanges
+      .filter(change => change.address === owner && change.change !== 0)
+      .map(change => `${formatSigned(change.change)} SOL`),
+    ...report.tokenChanges
+      .filter(change => change.owner === owner && change.change !== 0)
+      .map(change => `${formatSigned(change.change)} ${change.mint.slice(0, 4)}…${change.mint.slice(-4)}`),
+  ];
+
+  return [
+    changes.length > 0 ? changes.join(', ') : 'No balance changes',
+    `fee ${report.fee.sol} SOL`,
+    report.unitsConsumed !== undefined ? `${report.unitsConsumed.toLocaleString('en-US')} CU` : null,
+  ].filter(Boolean).join(' · ');
+}
+
+function formatSigned(value: number): string {
+  const rounded = Number(value.toFixed(9));
+  return `${rounded > 0 ? '+' : ''}${rounded}`;
+}
+
+export function createTransactionSimulator(connection?: Connection): TransactionSimulator {
+  return new TransactionSimulator(connection);
+}
+
+// Export singleton instance
+export const transactionSimulator = createTransactionSimulator();
@@ -0,0 +1,212 @@
+/**
+ * Wallet Connection Registry
+ * Remembers the wallets a user has connected and the read-only addresses
+ * they watch, persisted in localStorage across sessions. The active entry is
+ * the account chat tools treat as "my wallet".
+ */
+
+import { PublicKey } from '@solana/web3.js';
+
+const STORAGE_KEY = 'wallet-connections';
+
+export type WalletConnectionKind = 'wallet' | 'watch';
+
+export interface WalletConnection {
+  id: string;
+  kind: WalletConnectionKind;
+  address: string;
+  label: string;
+  walletName?: string; // Wallet Standard name used to reconnect, e.g. "Phantom"
+  icon?: string;
+  addedAt: string;
+  lastUsedAt: string;
+}
+
+export interface WalletConnectionState {
+  connections: WalletConnection[];
+  activeId: string | null;
+}
+
+export class WalletConnectionError extends Error {
+  constructor(message: string, public code: 'INVALID_ADDRESS' | 'DUPLICATE' | 'NOT_FOUND') {
+    super(message);
+    this.name = 'WalletConnectionError';
+  }
+}
+
+const EMPTY_STATE: WalletConnectionState = { connections: [], activeId: null };
+
+export class WalletConnectionRegistry {
+  private state: WalletConnectionState = EMPTY_STATE;
+  private loaded = false;
+  private listeners = new Set<() => void>();
+
+  constructor(private storageKey: string = STORAGE_KEY) {}
+
+  /**
+   * Current snapshot; a new object after every change so React can subscribe to it
+   */
+  getState = (): WalletConnectionState => {
+    this.load();
+    return this.state;
+  };
+
+  /**
+   * Snapshot used during server rendering, before localStorage is available
+   */
+  getServerState = (): WalletConnectionState => EMPTY_STATE;
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getActive(): WalletConnection | null {
+    const { connections, activeId } = this.getState();
+    return connections.find(connection => connection.id === activeId) || null;
+  }
+
+  /**
+   * Remember a wallet the user just connected and make it the active account
+   * unless the user picked a watch address
+   */
+  recordWallet(address: string, walletName: string, icon?: string): WalletConnection {
+    const now = new Date().toISOString();
+    const existing = this.getState().connections.find(
+      connection => connection.kind === 'wallet' && connection.address === address
+    );
+    const connection: WalletConnection = existing
+      ? { ...existing, walletName, icon, lastUsedAt: now }
+      : {
+          id: `wallet_${address}`,
+          kind: 'wallet',
+          address,
+          label: walletName,
+          walletName,
+          icon,
+          addedAt: now,
+          lastUsedAt: now,
+        };
+
+    const active = this.getActive();
+    this.update({
+      connections: upsert(this.state.connections, connection),
+      activeId: !active || active.kind === 'wallet' ? connection.id : active.id,
+    });
+    return connection;
+  }
+
+  /**
+   * Add a read-only address; it can be inspected but never signs
+   */
+  addWatchAddress(address: string, label?: string): WalletConnection {
+    const normalized = normalizeAddress(address);
+    if (this.getState().connections.some(connection => connection.kind === 'watch' && connection.address === normalized)) {
+      throw new WalletConnectionError('This address is already being watched', 'DUPLICATE');
+    }
+
+    const now = new Date().toISOString();
+    const connection: WalletConnection = {
+      id: `watch_${normalized}`,
+      kind: 'watch',
+      address: normalized,
+      label: label?.trim() || `${normalized.slice(0, 4)}…${normalized.slice(-4)}`,
+      addedAt: now,
+      lastUsedAt: now,
+    };
+
+    this.update({
+      connections: [...this.state.connections, connection],
+      activeId: this.state.activeId ?? connection.id,
+    });
+    return connection;
+  }
+
+  setActive(id: string | null): void {
+    if (id !== null && !this.getState().connections.some(connection => connection.id === id)) {
+      throw new WalletConnectionError(`Connection not found: ${id}`, 'NOT_FOUND');
+    }
+
+    this.update({
+      connections: this.state.connections.map(connection =>
+        connection.id === id ? { ...connection, lastUsedAt: new Date().toISOString() } : connection
+      ),
+      activeId: id,
+    });
+  }
+
+  remove(id: string): void {
+    const connections = this.getState().connections.filter(connection => connection.id !== id);
+    this.update({
+      connections,
+      activeId: this.state.activeId === id ? mostRecent(connections)?.id ?? null : this.state.activeId,
+    });
+  }
+
+  private update(state: WalletConnectionState): void {
+    this.state = state;
+    this.save();
+    this.listeners.forEach(listener => listener());
+  }
+
+  /**
+   * Load connections from localStorage
+   */
+  private load(): void {
+    if (this.loaded || typeof window === 'undefined') return;
+    this.loaded = true;
+
+    try {
+      const stored = localStorage.getItem(this.storageKey);
+      if (stored) {
+        const parsed = JSON.parse(stored) as WalletConnectionState;
+        this.state = {
+          connections: Array.isArray(parsed.connections) ? parsed.connections : [],
+          activeId: parsed.activeId ?? null,
+        };
+      }
+    } catch (error) {
+      console.warn('Failed to load stored wallet connections:', error);
+    }
+  }
+
+  /**
+   * Save connections to localStorage
+   */
+  private save(): void {
+    if (typeof window === 'undefined') return;
+
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(this.state));
+    } catch (error) {
+      console.warn('Failed to save wallet connections:', error);
+    }
+  }
+}
+
+function normalizeAddress(address: string): string {
+  try {
+    return new PublicKey(address.trim()).toBase58();
+  } catch {
+    throw new WalletConnectionError('Invalid Solana address', 'INVALID_ADDRESS');
+  }
+}
+
+function upsert(connections: WalletConnection[], connection: WalletConnection): WalletConnection[] {
+  return connections.some(existing => existing.id === connection.id)
+    ? connections.map(existing => (existing.id === connection.id ? connection : existing))
+    : [...connections, connection];
+}
+
+function mostRecent(connections: WalletConnection[]): WalletConnection | undefined {
+  return [...connections].sort((a, b) => b.lastUsedAt.localeCompare(a.lastUsedAt))[0];
+}
+
+export function createWalletConnectionRegistry(storageKey?: string): WalletConnectionRegistry {
+  return new WalletConnectionRegistry(storageKey);
+}
+
+// Export singleton instance
+export const walletConnectionRegistry = createWalletConnectionRegistry();
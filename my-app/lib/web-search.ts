@@ -0,0 +1,313 @@
+/**
+ * Web Search Service
+ * Provider-agnostic web search for the `web-search` tool. Results are ranked
+ * and deduplicated, and are streamed to the UI as `source-url` parts so
+ * answers can cite them.
+ *
+ * WEB_SEARCH_PROVIDER selects tavily, serper, brave, searxng or mock. When it
+ * is unset, the first provider with credentials configured is used.
+ */
+
+export interface SearchResult {
+  rank: number; // 1-based, after deduplication
+  title: string;
+  url: string;
+  snippet: string;
+  publishedAt?: string;
+  score?: number; // Provider relevance score when available
+}
+
+export interface SearchOptions {
+  maxResults: number;
+}
+
+export interface SearchProvider {
+  readonly id: string;
+  readonly name: string;
+  search(query: string, options: SearchOptions): Promise<Omit<SearchResult, 'rank'>[]>;
+}
+
+export interface SearchResponse {
+  query: string;
+  provider: string;
+  results: SearchResult[];
+}
+
+export class WebSearchError extends Error {
+  constructor(message: string, public code: 'NOT_CONFIGURED' | 'PROVIDER_ERROR' | 'INVALID_QUERY') {
+    super(message);
+    this.name = 'WebSearchError';
+  }
+}
+
+const MAX_RESULTS = 20;
+
+async function fetchJson(providerName: string, url: string, init?: RequestInit): Promise<any> {
+  let response: Response;
+  try {
+    response = await fetch(url, init);
+  } catch (error: any) {
+    throw new WebSearchError(`${providerName} request failed: ${error.message || error}`, 'PROVIDER_ERROR');
+  }
+  if (!response.ok) {
+    const body = await response.text().catch(() => '');
+    throw new WebSearchError(`${providerName} returned ${response.status}${body ? `: ${body.slice(0, 200)}` : ''}`, 'PROVIDER_ERROR');
+  }
+  return response.json();
+}
+
+// --- Providers --------------------------------------------------------------
+
+export class TavilySearchProvider implements SearchProvider {
+  readonly id = 'tavily';
+  readonly name = 'Tavily';
+
+  constructor(private apiKey: string) {}
+
+  async search(query: string, { maxResults }: SearchOptions) {
+    const data = await fetchJson(this.name, 'https://api.tavily.com/search', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ api_key: this.apiKey, query, max_results: maxResults }),
+    });
+    return (Array.isArray(data.results) ? data.results : []).map((result: any) => ({
+      title: result.title,
+      url: result.url,
+      snippet: result.content || '',
+      publishedAt: result.published_date || undefined,
+      score: typeof result.score === 'number' ? result.score : undefined,
+    }));
+  }
+}
+
+export class SerperSearchProvider implements SearchProvider {
+  readonly id = 'serper';
+  readonly name = 'Serper';
+
+  constructor(private apiKey: string) {}
+
+  async search(query: string, { maxResults }: SearchOptions) {
+    const data = await fetchJson(this.name, 'https://google.serper.dev/search', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-API-KEY': this.apiKey },
+      body: JSON.stringify({ q: query, num: maxResults }),
+    });
+    return (Array.isArray(data.organic) ? data.organic : []).map((result: any) => ({
+      title: result.title,
+      url: result.link,
+      snippet: result.snippet || '',
+      publishedAt: result.date || undefined,
+    }));
+  }
+}
+
+export class BraveSearchProvider implements SearchProvider {
+  readonly id = 'brave';
+  readonly name = 'Brave Search';
+
+  constructor(private apiKey: string) {}
+
+  async search(query: string, { maxResults }: SearchOptions) {
+    const params = new URLSearchParams({ q: query, count: String(maxResults) });
+    const data = await fetchJson(this.name, `https://api.search.brave.com/res/v1/web/search?${params}`, {
+      headers: { Accept: 'application/json', 'X-Subscription-Token': this.apiKey },
+    });
+    return (Array.isArray(data.web?.results) ? data.web.results : []).map((result: any) => ({
+      title: result.title,
+      url: result.url,
+      snippet: stripTags(result.description || ''),
+      publishedAt: result.page_age || result.age || undefined,
+    }));
+  }
+}
+
+/**
+ * Self-hosted SearXNG; the instance must have the JSON output format enabled
+ */
+export class SearxngSearchProvider implements SearchProvider {
+  readonly id = 'searxng';
+  readonly name = 'SearXNG';
+
+  constructor(private baseUrl: string) {}
+
+  async search(query: string, { maxResults }: SearchOptions) {
+    const params = new URLSearchParams({ q: query, format: 'json' });
+    const data = await fetchJson(this.name, `${this.baseUrl.replace(/\/$/, '')}/search?${params}`);
+    return (Array.isArray(data.results) ? data.results : []).slice(0, maxResults).map((result: any) => ({
+      title: result.title,
+      url: result.url,
+      snippet: result.content || '',
+      publishedAt: result.publishedDate || undefined,
+      score: typeof result.score === 'number' ? result.score : undefined,
+    }));
+  }
+}
+
+/**
+ * Deterministic offline results, for development and tests without API keys
+ */
+export class MockSearchProvider implements SearchProvider {
+  readonly id = 'mock';
+  readonly name = 'Mock';
+
+  async search(query: string, { maxResults }: SearchOptions) {
+    const slug = query.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'query';
+    return Array.from({ length: Math.min(maxResults, 3) }, (_, index) => ({
+      title: `${query} — mock result ${index + 1}`,
+      url: `https://example.com/${slug}/${index + 1}`,
+      snippet: `Offline mock result ${index + 1} for "${query}". Configure a search provider for real results.`,
+      score: 1 - index * 0.1,
+    }));
+  }
+}
+
+function stripTags(value: string): string {
+  return value.replace(/<[^>]+>/g, '');
+}
+
+// --- Service ----------------------------------------------------------------
+
+export class WebSearchService {
+  private provider: SearchProvider | null;
+
+  constructor(provider: SearchProvider | null) {
+    this.provider = provider;
+  }
+
+  getProvider(): SearchProvider | null {
+    return this.provider;
+  }
+
+  async search(query: string, options: Partial<SearchOptions> = {}): Promise<SearchResponse> {
+    const trimmed = query.trim();
+    if (!trimmed) {
+      throw new WebSearchError('Search query is empty', 'INVALID_QUERY');
+    }
+    if (!this.provider) {
+      throw new WebSearchError(
+        'No web search provider configured. Set TAVILY_API_KEY, SERPER_API_KEY, BRAVE_SEARCH_API_KEY or SEARXNG_URL (or WEB_SEARCH_PROVIDER=mock).',
+        'NOT_CONFIGURED'
+      );
+    }
+
+    const maxResults = Math.min(Math.max(options.maxResults ?? 5, 1), MAX_RESULTS);
+    const raw = await this.provider.search(trimmed, { maxResults });
+    return { query: trimmed, provider: this.provider.name, results: rankResults(raw, maxResults) };
+  }
+}
+
+/**
+ * Drop results without a usable URL, deduplicate by normalized URL and order
+ * by provider score (falling back to provider order)
+ */
+export function rankResults(raw: Omit<SearchResult, 'rank'>[], maxResults: number): SearchResult[] {
+  const byUrl = new Map<string, Omit<SearchResult, 'rank'> & { order: number }>();
+
+  raw.forEach((result, order) => {
+    if (!result.url || !/^https?:\/\//i.test(result.url)) return;
+    const key = normalizeUrl(result.url);
+    const existing = byUrl.get(key);
+    // Keep the best-scored copy, at the position it was first seen
+    if (existing && (existing.score ?? 0) >= (result.score ?? 0)) return;
+    byUrl.set(key, { ...result, title: result.title || result.url, order: existing ? existing.order : order });
+  });
+  const unique = Array.from(byUrl.values());
+
+  const hasScores = unique.every(result => typeof result.score === 'number');
+  if (hasScores) {
+    unique.sort((a, b) => (b.score as number) - (a.score as number) || a.order - b.order);
+  }
+
+  return unique.slice(0, maxResults).map((result, index) => ({
+    rank: index + 1,
+    title: result.title,
+    url: result.url,
+    snippet: result.snippet,
+    publishedAt: result.publishedAt,
+    score: result.score,
+  }));
+}
+
+function normalizeUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = '';
+    return `${parsed.hostname.replace(/^www\./, '')}${parsed.pathname.replace(/\/$/, '')}${parsed.search}`.toLowerCase();
+  } catch {
+    return url.toLowerCase();
+  }
+}
+
+/**
+ * Pull search results out of a web-search tool output, for streaming them
+ * as sources
+ */
+export function findSearchResults(output: unknown): SearchResult[] {
+  if (!output || typeof output !== 'object') return [];
+  const results = (output as { results?: unknown }).results;
+  if (!Array.isArray(results)) return [];
+  return results.filter((result): result is SearchResult =>
+    !!result && typeof result === 'object' && typeof (result as SearchResult).url === 'string'
+  );
+}
+
+export interface SearchSourcePart {
+  type: 'source-url';
+  sourceId: string;
+  url: string;
+  title: string;
+  providerMetadata: { webSearch: { snippet: string; rank: number } };
+}
+
+/**
+ * Writer that turns web-search tool outputs into `source-url` parts, skipping
+ * URLs already written earlier in the same response
+ */
+export function createSearchSourceWriter(write: (part: SearchSourcePart) => void): (output: unknown) => void {
+  const written = new Set<string>();
+  return output => {
+    for (const result of findSearchResults(output)) {
+      if (written.has(result.url)) continue;
+      written.add(result.url);
+      write({
+        type: 'source-url',
+        sourceId: `search-${written.size}`,
+        url: result.url,
+        title: result.title,
+        providerMetadata: { webSearch: { snippet: result.snippet || '', rank: result.rank } },
+      });
+    }
+  };
+}
+
+export function createSearchProvider(env: NodeJS.ProcessEnv = process.env): SearchProvider | null {
+  const providers: Record<string, () => SearchProvider | null> = {
+    tavily: () => env.TAVILY_API_KEY ? new TavilySearchProvider(env.TAVILY_API_KEY) : null,
+    serper: () => env.SERPER_API_KEY ? new SerperSearchProvider(env.SERPER_API_KEY) : null,
+    brave: () => env.BRAVE_SEARCH_API_KEY ? new BraveSearchProvider(env.BRAVE_SEARCH_API_KEY) : null,
+    searxng: () => env.SEARXNG_URL ? new SearxngSearchProvider(env.SEARXNG_URL) : null,
+    mock: () => new MockSearchProvider(),
+  };
+
+  const selected = env.WEB_SEARCH_PROVIDER?.toLowerCase();
+  if (selected) {
+    const provider = providers[selected]?.();
+    if (!provider) {
+      console.warn(`Web search provider "${selected}" is unknown or missing credentials`);
+    }
+    return provider || null;
+  }
+
+  for (const id of ['tavily', 'serper', 'brave', 'searxng']) {
+    const provider = providers[id]();
+    if (provider) return provider;
+  }
+  return null;
+}
+
+export function createWebSearchService(): WebSearchService {
+  return new WebSearchService(createSearchProvider());
+}
+
+// Export singleton instance
+export const webSearchService = createWebSearchService();
@@ -0,0 +1,175 @@
+/**
+ * DeFi Fixture Check
+ * Runs every DeFi adapter over fixtures/defi in fixture mode and compares the
+ * decoded pool state with the values scripts/generate-defi-fixtures.ts
+ * encoded. A wrong byte offset in an adapter shows up here as a wrong TVL,
+ * fee rate or counter.
+ *
+ * Run with: npm run test:defi
+ */
+
+import assert from 'assert/strict';
+import { DefiDataService, FixtureDefiDataSource } from '../lib/defi-service';
+import type { PoolAnalytics } from '../lib/defi-types';
+
+const SOL = 'So11111111111111111111111111111111111111112';
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+
+interface ExpectedPool {
+  name: string;
+  tokens: Array<{ mint: string; amount: number }>;
+  tvlUsd: number;
+  feeRate: number | null;
+  counters: PoolAnalytics['counters'];
+  details?: PoolAnalytics['details'];
+}
+
+const EXPECTED: Record<string, { tvlUsd: number; pools: Record<string, ExpectedPool> }> = {
+  raydium: {
+    tvlUsd: 3000000,
+    pools: {
+      '58oQChx4yWmvKdwLLZzBi4ChoCc2fqCUWBkwMihLYQo2': {
+        name: 'SOL-USDC',
+        tokens: [{ mint: SOL, amount: 10000 }, { mint: USDC, amount: 1500000 }],
+        tvlUsd: 3000000,
+        feeRate: 0.0025,
+        counters: { volumeUsd: 600000000, feesUsd: 1320000 },
+        details: { protocolFeeShare: 0.12 },
+      },
+    },
+  },
+  orca: {
+    tvlUsd: 12000000,
+    pools: {
+      HJPjoWUrhoZzkNfRpHuieeFk9WcZWjwy6PBjZ81ngndJ: {
+        name: 'SOL-USDC',
+        tokens: [{ mint: SOL, amount: 40000 }, { mint: USDC, amount: 6000000 }],
+        tvlUsd: 12000000,
+        feeRate: 0.0004,
+        counters: { index: 0.00000545 },
+        details: { liquidity: 1e16, tickCurrentIndex: -20000, protocolFeeShare: 0.13 },
+      },
+    },
+  },
+  meteora: {
+    tvlUsd: 15000000,
+    pools: {
+      '5rCf1DM8LjKTw4YqhnoLcngyZYeNnQqztScTogYHAS6': {
+        name: 'SOL-USDC',
+        tokens: [{ mint: SOL, amount: 50000 }, { mint: USDC, amount: 7500000 }],
+        tvlUsd: 15000000,
+        feeRate: 0.0004,
+        counters: { feesUsd: 3325, volumeUsd: 8750000 },
+        details: { activeBinId: -3000, binStep: 4, protocolFeeShare: 0.05 },
+      },
+    },
+  },
+  kamino: {
+    tvlUsd: 1025000000,
+    pools: {
+      d4A2prbA2whesmvHaL88BH6Ewn5N4bTSU2Ze8P6Bc4Q: {
+        name: 'SOL supply',
+        tokens: [{ mint: SOL, amount: 3500000 }],
+        tvlUsd: 525000000,
+        feeRate: null,
+        counters: { index: 1.2 },
+        details: { lendingMarket: '7u3HeHxYDLhnCoErrtycNokbQYbWGzLs6JSDqGAv5PfF', borrowedUsd: 225000000, utilization: 1.5 / 3.5 },
+      },
+      D6q6wuQSrifJKZYpR1M8R4YawnLDtDsMmWM1NbBmgJ59: {
+        name: 'USDC supply',
+        tokens: [{ mint: USDC, amount: 500000000 }],
+        tvlUsd: 500000000,
+        feeRate: null,
+        counters: { index: 1.05 },
+        details: { borrowedUsd: 200000000, utilization: 0.4 },
+      },
+    },
+  },
+  'spl-stake-pool': {
+    tvlUsd: 1972500000,
+    pools: {
+      Jito4APyf642JPZPx3hGc6WWJ8zPKtRbRs4P815Awbb: {
+        name: 'JitoSOL',
+        tokens: [{ mint: SOL, amount: 12000000 }],
+        tvlUsd: 1800000000,
+        feeRate: 0.04,
+        counters: { index: 1.2 },
+        details: { lastUpdateEpoch: 700, lstMint: 'J1toso1uCk3RLmjorhTtrVwY9HJ7X8V9yYac6Y7kGCPn' },
+      },
+      stk9ApL5HeVAwPLr3TLhDXdZS8ptVu7zp6ov8HFDuMi: {
+        name: 'bSOL',
+        tokens: [{ mint: SOL, amount: 1150000 }],
+        tvlUsd: 172500000,
+        feeRate: 0.05,
+        counters: { index: 1.15 },
+        details: { lstMint: 'bSo13r4TkiE4KumL71LsHTPpL2euBYLFx6h9HP3piy1' },
+      },
+    },
+  },
+  marinade: {
+    tvlUsd: 1500000000,
+    pools: {
+      '8szGkuLTAux9XMgZ2vtY39jVSowEcpBfFfD8hXSEqdGC': {
+        name: 'mSOL',
+        tokens: [{ mint: SOL, amount: 10000000 }],
+        tvlUsd: 1500000000,
+        feeRate: 0.06,
+        counters: { index: 1.25 },
+        details: { reserveSol: 500000, lstMint: 'mSoLzYCxHdYgdzU16g5QSh3i5K3z3KZK7ytfqcJm7So' },
+      },
+    },
+  },
+};
+
+function assertClose(actual: number | string | null | undefined, expected: number | string | null, label: string): void {
+  if (typeof expected === 'number' && typeof actual === 'number') {
+    const tolerance = Math.max(Math.abs(expected) * 1e-9, 1e-12);
+    assert.ok(Math.abs(actual - expected) <= tolerance, `${label}: expected ${expected}, got ${actual}`);
+    return;
+  }
+  assert.equal(actual, expected, label);
+}
+
+function checkPool(pool: PoolAnalytics, expected: ExpectedPool): void {
+  const label = `${pool.protocol} ${pool.address}`;
+  assert.equal(pool.name, expected.name, `${label} name`);
+  assert.deepEqual(pool.tokens.map(token => token.mint), expected.tokens.map(token => token.mint), `${label} token mints`);
+  expected.tokens.forEach((token, index) => assertClose(pool.tokens[index].amount, token.amount, `${label} ${token.mint} amount`));
+  assertClose(pool.tvlUsd, expected.tvlUsd, `${label} tvlUsd`);
+  assertClose(pool.feeRate, expected.feeRate, `${label} feeRate`);
+  for (const [counter, value] of Object.entries(expected.counters)) {
+    assertClose(pool.counters[counter as keyof PoolAnalytics['counters']], value!, `${label} counters.${counter}`);
+  }
+  for (const [detail, value] of Object.entries(expected.details || {})) {
+    assertClose(pool.details[detail], value, `${label} details.${detail}`);
+  }
+}
+
+async function main() {
+  const service = new DefiDataService(new FixtureDefiDataSource());
+  let failures = 0;
+
+  for (const [protocol, expected] of Object.entries(EXPECTED)) {
+    try {
+      const analytics = await service.getProtocolAnalytics(protocol);
+      assert.deepEqual(analytics.notes, [], `${protocol} notes`);
+      assert.deepEqual(analytics.pools.map(pool => pool.address).sort(), Object.keys(expected.pools).sort(), `${protocol} pools`);
+      analytics.pools.forEach(pool => checkPool(pool, expected.pools[pool.address]));
+      assertClose(analytics.tvlUsd, expected.tvlUsd, `${protocol} tvlUsd`);
+      console.log(`ok ${protocol}`);
+    } catch (error: any) {
+      failures++;
+      console.error(`not ok ${protocol}: ${error.message || error}`);
+    }
+  }
+
+  if (failures > 0) {
+    console.error(`${failures} of ${Object.keys(EXPECTED).length} protocols failed`);
+    process.exit(1);
+  }
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,150 @@
+/**
+ * NFT Marketplace Stub Check
+ * Runs collection analytics and listings in stub mode against
+ * fixtures/nft-marketplace.json, with an in-memory indexer in place of RPC.
+ *
+ * Run with: npm run test:nft
+ */
+
+import assert from 'assert/strict';
+import { createHash } from 'crypto';
+import { PublicKey, SystemProgram, Transaction } from '@solana/web3.js';
+import { StubListingAdapter, StubMarketplaceAdapter } from '../lib/nft-marketplaces';
+import { NftCollectionService } from '../lib/nft-service';
+import type { CollectionIndexer, CollectionItem, CollectionItems, NftCollection } from '../lib/nft-types';
+
+const MAD_LADS = 'J1S9H3QjnRtBbbuD4HjPV6RpRhwuk4zKbxsnCHuTgh9w';
+const STUB_COLLECTION = '8FFMdHHMWhrkGxqzcpSJyTmN6DQ8LjPpeq84uZFMy324';
+
+function placeholder(label: string): PublicKey {
+  return new PublicKey(createHash('sha256').update(label).digest());
+}
+
+/**
+ * Ten items: one whale with six, one holder with two, one unresolved and one
+ * burnt item
+ */
+class FixtureIndexer implements CollectionIndexer {
+  readonly name = 'fixture';
+
+  async getCollection(): Promise<NftCollection | null> {
+    return null;
+  }
+
+  async getCollectionItems(): Promise<CollectionItems> {
+    const whale = placeholder('whale').toBase58();
+    const holder = placeholder('holder').toBase58();
+    const items: CollectionItem[] = [
+      ...Array.from({ length: 6 }, (_, index) => ({ mint: placeholder(`item-${index}`).toBase58(), owner: whale, burnt: false })),
+      { mint: placeholder('item-6').toBase58(), owner: holder, burnt: false },
+      { mint: placeholder('item-7').toBase58(), owner: holder, burnt: false },
+      { mint: placeholder('item-8').toBase58(), owner: null, burnt: false },
+      { mint: placeholder('item-9').toBase58(), owner: whale, burnt: true },
+    ];
+    return { items, truncated: false, source: this.name };
+  }
+}
+
+async function checkMarketplace() {
+  const marketplace = new StubMarketplaceAdapter();
+
+  const stats = await marketplace.getStats({ address: MAD_LADS, name: 'Mad Lads' });
+  assert.ok(stats, 'Mad Lads stats');
+  assert.equal(stats.source, 'Local stub');
+  assert.equal(stats.floorPriceSol, 42.5);
+  assert.equal(stats.listedCount, 412);
+  assert.equal(stats.volume24hSol, 1275.25);
+  assert.equal(stats.volumeAllSol, 1850000);
+
+  const tensorians = await marketplace.getStats({ address: '5PA96eCFHJSFPY9SWFeRJUHrpoNF5XZL6RrE1JADXhxf', name: 'Tensorians' });
+  assert.equal(tensorians?.volume24hSol, null, 'missing stats stay null');
+
+  assert.equal(await marketplace.getStats({ address: placeholder('unlisted').toBase58(), name: 'Unlisted' }), null);
+
+  const found = await marketplace.findCollection('stub');
+  assert.deepEqual(found, {
+    address: STUB_COLLECTION,
+    name: 'Stub Collection',
+    symbol: 'STUB',
+    image: 'https://example.com/stub-collection.png',
+    marketplaceSymbol: 'stub_collection',
+  });
+}
+
+async function checkAnalytics() {
+  const service = new NftCollectionService([new FixtureIndexer()], new StubMarketplaceAdapter());
+
+  const analytics = await service.getCollectionAnalytics('mad lads', { topHolders: 1 });
+  assert.equal(analytics.collection.address, MAD_LADS);
+  assert.equal(analytics.supply, 9);
+  assert.equal(analytics.burnt, 1);
+  assert.equal(analytics.uniqueHolders, 2);
+  assert.equal(analytics.holderRatio, 2 / 8);
+  assert.equal(analytics.top10SharePct, 100);
+  assert.deepEqual(analytics.topHolders, [{ owner: placeholder('whale').toBase58(), count: 6, sharePct: 75 }]);
+  assert.deepEqual(
+    analytics.distribution.map(bucket => [bucket.label, bucket.holders, bucket.items]),
+    [['1', 0, 0], ['2-5', 1, 2], ['6-10', 1, 6], ['11-50', 0, 0], ['51+', 0, 0]]
+  );
+  assert.equal(analytics.market?.floorPriceSol, 42.5);
+  assert.deepEqual(analytics.warnings, ['Holder could not be resolved for 1 items']);
+
+  // Names only the stub knows resolve through the marketplace
+  const stub = await service.getCollectionAnalytics('Stub Collection');
+  assert.equal(stub.collection.address, STUB_COLLECTION);
+  assert.equal(stub.market?.listedCount, 3);
+}
+
+async function checkListing() {
+  const programId = placeholder('listing-program');
+  const request = {
+    seller: placeholder('seller'),
+    mint: placeholder('item-0'),
+    tokenAccount: placeholder('seller-token-account'),
+    priceLamports: BigInt(2500000000),
+  };
+  const { transaction, listingAddress } = await new StubListingAdapter(programId.toBase58()).buildListing(request);
+
+  const [expectedListing] = PublicKey.findProgramAddressSync(
+    [Buffer.from('listing'), request.mint.toBuffer(), request.seller.toBuffer()],
+    programId
+  );
+  assert.equal(listingAddress, expectedListing.toBase58());
+  assert.ok(transaction instanceof Transaction);
+
+  const [instruction] = transaction.instructions;
+  assert.ok(instruction.programId.equals(programId));
+  // [0, price: u64 LE] with 2.5 SOL = 0x9502f900 lamports
+  assert.equal(instruction.data.toString('hex'), '00' + '00f9029500000000');
+  assert.deepEqual(
+    instruction.keys.map(key => [key.pubkey.toBase58(), key.isSigner, key.isWritable]),
+    [
+      [request.seller.toBase58(), true, true],
+      [expectedListing.toBase58(), false, true],
+      [request.mint.toBase58(), false, false],
+      [request.tokenAccount.toBase58(), false, true],
+      [SystemProgram.programId.toBase58(), false, false],
+    ]
+  );
+
+  await assert.rejects(new StubListingAdapter(undefined).buildListing(request), { code: 'UNSUPPORTED' });
+}
+
+async function main() {
+  let failures = 0;
+  for (const [name, check] of [['marketplace', checkMarketplace], ['analytics', checkAnalytics], ['listing', checkListing]] as const) {
+    try {
+      await check();
+      console.log(`ok ${name}`);
+    } catch (error: any) {
+      failures++;
+      console.error(`not ok ${name}: ${error.message || error}`);
+    }
+  }
+  if (failures > 0) process.exit(1);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,109 @@
+/**
+ * Web Search Check
+ * Runs the web search service offline through the mock provider and checks
+ * the ranked results and the `source-url` parts the chat route streams for
+ * them.
+ *
+ * Run with: npm run test:web-search
+ */
+
+import assert from 'assert/strict';
+import {
+  MockSearchProvider,
+  WebSearchService,
+  createSearchProvider,
+  createSearchSourceWriter,
+  rankResults,
+  type SearchSourcePart,
+} from '../lib/web-search';
+
+async function checkMockSearch() {
+  assert.ok(createSearchProvider({ ...process.env, WEB_SEARCH_PROVIDER: 'mock' }) instanceof MockSearchProvider);
+
+  const service = new WebSearchService(new MockSearchProvider());
+  const response = await service.search('  Solana ETF news  ', { maxResults: 5 });
+  assert.equal(response.query, 'Solana ETF news');
+  assert.equal(response.provider, 'Mock');
+  assert.deepEqual(
+    response.results.map(result => [result.rank, result.url, result.score]),
+    [
+      [1, 'https://example.com/solana-etf-news/1', 1],
+      [2, 'https://example.com/solana-etf-news/2', 0.9],
+      [3, 'https://example.com/solana-etf-news/3', 0.8],
+    ]
+  );
+  assert.equal(response.results[0].title, 'Solana ETF news — mock result 1');
+
+  assert.equal((await service.search('Solana', { maxResults: 0 })).results.length, 1, 'maxResults is clamped to at least 1');
+  await assert.rejects(service.search('   '), { code: 'INVALID_QUERY' });
+  await assert.rejects(new WebSearchService(null).search('Solana'), { code: 'NOT_CONFIGURED' });
+}
+
+function checkRanking() {
+  const ranked = rankResults([
+    { title: 'Low', url: 'https://low.example/a', snippet: '', score: 0.2 },
+    { title: 'Not a web page', url: 'ftp://files.example/a', snippet: '', score: 0.99 },
+    { title: '', url: 'https://www.high.example/b/', snippet: 'first copy', score: 0.5 },
+    { title: 'Duplicate', url: 'https://high.example/b#section', snippet: 'better copy', score: 0.9 },
+    { title: 'Middle', url: 'https://middle.example/c', snippet: '', score: 0.4 },
+  ], 2);
+
+  assert.deepEqual(
+    ranked.map(result => [result.rank, result.title, result.url, result.snippet]),
+    [
+      [1, 'Duplicate', 'https://high.example/b#section', 'better copy'],
+      [2, 'Middle', 'https://middle.example/c', ''],
+    ]
+  );
+
+  // Without scores on every result, provider order is kept
+  const unscored = rankResults([
+    { title: 'First', url: 'https://a.example', snippet: '' },
+    { title: 'Second', url: 'https://b.example', snippet: '', score: 0.9 },
+  ], 5);
+  assert.deepEqual(unscored.map(result => result.title), ['First', 'Second']);
+}
+
+async function checkSourceParts() {
+  const service = new WebSearchService(new MockSearchProvider());
+  const parts: SearchSourcePart[] = [];
+  const writeSearchSources = createSearchSourceWriter(part => parts.push(part));
+
+  writeSearchSources(await service.search('Jupiter swap', { maxResults: 2 }));
+  // A second search repeating a URL only adds the new one
+  writeSearchSources(await service.search('Jupiter swap', { maxResults: 3 }));
+  writeSearchSources({ error: 'Web search failed: timeout' });
+  writeSearchSources(undefined);
+
+  assert.deepEqual(parts, [1, 2, 3].map(index => ({
+    type: 'source-url',
+    sourceId: `search-${index}`,
+    url: `https://example.com/jupiter-swap/${index}`,
+    title: `Jupiter swap — mock result ${index}`,
+    providerMetadata: {
+      webSearch: {
+        snippet: `Offline mock result ${index} for "Jupiter swap". Configure a search provider for real results.`,
+        rank: index,
+      },
+    },
+  })));
+}
+
+async function main() {
+  let failures = 0;
+  for (const [name, check] of [['mock search', checkMockSearch], ['ranking', checkRanking], ['source parts', checkSourceParts]] as const) {
+    try {
+      await check();
+      console.log(`ok ${name}`);
+    } catch (error: any) {
+      failures++;
+      console.error(`not ok ${name}: ${error.message || error}`);
+    }
+  }
+  if (failures > 0) process.exit(1);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,468 @@
+/**
+ * DeFi Fixture Generator
+ * Writes fixtures/defi/default-pools.json: one account for every default pool
+ * of the DeFi adapters, their token vaults and token prices, so
+ * DEFI_DATA_MODE=fixture works without network access.
+ *
+ * Accounts are encoded field by field from each program's published struct
+ * layout rather than from the byte offsets the adapters read, so
+ * scripts/check-defi-fixtures.ts catches an adapter offset that drifts from
+ * the real layout. Recording a live session (DEFI_DATA_MODE=record) produces
+ * the same format.
+ *
+ * Run with: npm run fixtures:defi
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { PublicKey } from '@solana/web3.js';
+import { createDefaultAdapters } from '../lib/defi-adapters';
+
+const OUTPUT_PATH = path.join(__dirname, '..', 'fixtures', 'defi', 'default-pools.json');
+const TOKEN_PROGRAM = 'TokenkegQfeZyiNwAJXWbcmdLRLyfwnvYqQ9Dy4Nn5LjD';
+const RENT_EXEMPT_LAMPORTS = 2039280;
+
+const MINTS = {
+  SOL: 'So11111111111111111111111111111111111111112',
+  USDC: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+  JitoSOL: 'J1toso1uCk3RLmjorhTtrVwY9HJ7X8V9yYac6Y7kGCPn',
+  bSOL: 'bSo13r4TkiE4KumL71LsHTPpL2euBYLFx6h9HP3piy1',
+  mSOL: 'mSoLzYCxHdYgdzU16g5QSh3i5K3z3KZK7ytfqcJm7So',
+};
+
+const TOKENS = {
+  [MINTS.SOL]: { symbol: 'SOL', decimals: 9, usdPrice: 150 },
+  [MINTS.USDC]: { symbol: 'USDC', decimals: 6, usdPrice: 1 },
+  [MINTS.JitoSOL]: { symbol: 'JitoSOL', decimals: 9, usdPrice: 180 },
+  [MINTS.bSOL]: { symbol: 'bSOL', decimals: 9, usdPrice: 172.5 },
+  [MINTS.mSOL]: { symbol: 'mSOL', decimals: 9, usdPrice: 187.5 },
+};
+
+// --- Struct encoding --------------------------------------------------------
+
+type FieldType = 'u8' | 'u16' | 'u32' | 'i32' | 'u64' | 'i64' | 'u128' | 'u256' | 'pubkey';
+type Field = [name: string, type: FieldType] | [name: string, type: 'pad', size: number];
+type Value = number | bigint | string;
+
+const FIELD_SIZES: Record<FieldType, number> = { u8: 1, u16: 2, u32: 4, i32: 4, u64: 8, i64: 8, u128: 16, u256: 32, pubkey: 32 };
+
+/**
+ * Encode values into a zeroed buffer laid out as `fields`, in order and
+ * without alignment, as Borsh and the Raydium/SPL packers do. Fields without
+ * a value stay zero; an unknown value name is an error.
+ */
+function encodeStruct(fields: Field[], values: Record<string, Value>): Buffer {
+  const size = fields.reduce((total, field) => total + (field[1] === 'pad' ? field[2] : FIELD_SIZES[field[1]]), 0);
+  const data = Buffer.alloc(size);
+  const known = new Set(fields.map(([name]) => name));
+  for (const name of Object.keys(values)) {
+    if (!known.has(name)) throw new Error(`No field named ${name}`);
+  }
+
+  let offset = 0;
+  for (const field of fields) {
+    const [name, type] = field;
+    const value = values[name];
+    if (type === 'pad') {
+      offset += field[2];
+      continue;
+    }
+    if (value !== undefined) {
+      writeField(data, offset, type, value);
+    }
+    offset += FIELD_SIZES[type];
+  }
+  return data;
+}
+
+function writeField(data: Buffer, offset: number, type: FieldType, value: Value): void {
+  switch (type) {
+    case 'u8': data.writeUInt8(Number(value), offset); break;
+    case 'u16': data.writeUInt16LE(Number(value), offset); break;
+    case 'u32': data.writeUInt32LE(Number(value), offset); break;
+    case 'i32': data.writeInt32LE(Number(value), offset); break;
+    case 'u64': data.writeBigUInt64LE(BigInt(value), offset); break;
+    case 'i64': data.writeBigInt64LE(BigInt(value), offset); break;
+    case 'pubkey': new PublicKey(value as string).toBuffer().copy(data, offset); break;
+    case 'u128':
+    case 'u256': {
+      let remaining = BigInt(value);
+      for (let word = 0; word < FIELD_SIZES[type] / 8; word++) {
+        data.writeBigUInt64LE(remaining & BigInt('0xffffffffffffffff'), offset + word * 8);
+        remaining >>= BigInt(64);
+      }
+      break;
+    }
+  }
+}
+
+/**
+ * Stable placeholder address for accounts whose real address does not matter
+ */
+function placeholder(label: string): string {
+  return new PublicKey(createHash('sha256').update(label).digest()).toBase58();
+}
+
+function anchorDiscriminator(account: string): bigint {
+  return createHash('sha256').update(`account:${account}`).digest().readBigUInt64LE(0);
+}
+
+const units = (amount: number, decimals: number) => BigInt(Math.round(amount * Math.pow(10, decimals)));
+const Q64 = BigInt(1) << BigInt(64);
+const SF = BigInt(1) << BigInt(60);
+
+// --- Published layouts ------------------------------------------------------
+
+// SPL Token Account (165 bytes)
+const TOKEN_ACCOUNT: Field[] = [
+  ['mint', 'pubkey'],
+  ['owner', 'pubkey'],
+  ['amount', 'u64'],
+  ['delegateOption', 'u32'],
+  ['delegate', 'pubkey'],
+  ['state', 'u8'],
+  ['isNativeOption', 'u32'],
+  ['isNative', 'u64'],
+  ['delegatedAmount', 'u64'],
+  ['closeAuthorityOption', 'u32'],
+  ['closeAuthority', 'pubkey'],
+];
+
+// Raydium LIQUIDITY_STATE_LAYOUT_V4 (752 bytes)
+const RAYDIUM_AMM_INFO: Field[] = [
+  ...[
+    'status', 'nonce', 'maxOrder', 'depth', 'baseDecimal', 'quoteDecimal', 'state', 'resetFlag',
+    'minSize', 'volMaxCutRatio', 'amountWaveRatio', 'baseLotSize', 'quoteLotSize', 'minPriceMultiplier',
+    'maxPriceMultiplier', 'systemDecimalValue', 'minSeparateNumerator', 'minSeparateDenominator',
+    'tradeFeeNumerator', 'tradeFeeDenominator', 'pnlNumerator', 'pnlDenominator', 'swapFeeNumerator',
+    'swapFeeDenominator', 'baseNeedTakePnl', 'quoteNeedTakePnl', 'quoteTotalPnl', 'baseTotalPnl',
+    'poolOpenTime', 'punishPcAmount', 'punishCoinAmount', 'orderbookToInitTime',
+  ].map((name): Field => [name, 'u64']),
+  ['swapBaseInAmount', 'u128'],
+  ['swapQuoteOutAmount', 'u128'],
+  ['swapBase2QuoteFee', 'u64'],
+  ['swapQuoteInAmount', 'u128'],
+  ['swapBaseOutAmount', 'u128'],
+  ['swapQuote2BaseFee', 'u64'],
+  ...[
+    'baseVault', 'quoteVault', 'baseMint', 'quoteMint', 'lpMint', 'openOrders', 'marketId',
+    'marketProgramId', 'targetOrders', 'withdrawQueue', 'lpVault', 'owner',
+  ].map((name): Field => [name, 'pubkey']),
+  ['lpReserve', 'u64'],
+  ['padding', 'pad', 24],
+];
+
+const WHIRLPOOL_REWARD_INFO = (index: number): Field[] => [
+  [`reward${index}Mint`, 'pubkey'],
+  [`reward${index}Vault`, 'pubkey'],
+  [`reward${index}Authority`, 'pubkey'],
+  [`reward${index}EmissionsPerSecondX64`, 'u128'],
+  [`reward${index}GrowthGlobalX64`, 'u128'],
+];
+
+// Orca Whirlpool (653 bytes)
+const WHIRLPOOL: Field[] = [
+  ['discriminator', 'u64'],
+  ['whirlpoolsConfig', 'pubkey'],
+  ['whirlpoolBump', 'u8'],
+  ['tickSpacing', 'u16'],
+  ['tickSpacingSeed', 'u16'],
+  ['feeRate', 'u16'],
+  ['protocolFeeRate', 'u16'],
+  ['liquidity', 'u128'],
+  ['sqrtPrice', 'u128'],
+  ['tickCurrentIndex', 'i32'],
+  ['protocolFeeOwedA', 'u64'],
+  ['protocolFeeOwedB', 'u64'],
+  ['tokenMintA', 'pubkey'],
+  ['tokenVaultA', 'pubkey'],
+  ['feeGrowthGlobalA', 'u128'],
+  ['tokenMintB', 'pubkey'],
+  ['tokenVaultB', 'pubkey'],
+  ['feeGrowthGlobalB', 'u128'],
+  ['rewardLastUpdatedTimestamp', 'u64'],
+  ...WHIRLPOOL_REWARD_INFO(0),
+  ...WHIRLPOOL_REWARD_INFO(1),
+  ...WHIRLPOOL_REWARD_INFO(2),
+];
+
+// Meteora DLMM LbPair, through protocol_fee; later fields are not read
+const LB_PAIR: Field[] = [
+  ['discriminator', 'u64'],
+  // StaticParameters
+  ['baseFactor', 'u16'],
+  ['filterPeriod', 'u16'],
+  ['decayPeriod', 'u16'],
+  ['reductionFactor', 'u16'],
+  ['variableFeeControl', 'u32'],
+  ['maxVolatilityAccumulator', 'u32'],
+  ['minBinId', 'i32'],
+  ['maxBinId', 'i32'],
+  ['protocolShare', 'u16'],
+  ['baseFeePowerFactor', 'u8'],
+  ['staticPadding', 'pad', 5],
+  // VariableParameters
+  ['volatilityAccumulator', 'u32'],
+  ['volatilityReference', 'u32'],
+  ['indexReference', 'i32'],
+  ['variablePadding', 'pad', 4],
+  ['lastUpdateTimestamp', 'i64'],
+  ['variablePadding1', 'pad', 8],
+  ['bumpSeed', 'u8'],
+  ['binStepSeed', 'u16'],
+  ['pairType', 'u8'],
+  ['activeId', 'i32'],
+  ['binStep', 'u16'],
+  ['status', 'u8'],
+  ['requireBaseFactorSeed', 'u8'],
+  ['baseFactorSeed', 'u16'],
+  ['activationType', 'u8'],
+  ['creatorPoolOnOffControl', 'u8'],
+  ['tokenXMint', 'pubkey'],
+  ['tokenYMint', 'pubkey'],
+  ['reserveX', 'pubkey'],
+  ['reserveY', 'pubkey'],
+  ['protocolFeeAmountX', 'u64'],
+  ['protocolFeeAmountY', 'u64'],
+];
+
+// Kamino Lend Reserve, through liquidity.cumulative_borrow_rate_bsf; later fields are not read
+const KAMINO_RESERVE: Field[] = [
+  ['discriminator', 'u64'],
+  ['version', 'u64'],
+  ['lastUpdateSlot', 'u64'],
+  ['lastUpdateStale', 'u8'],
+  ['lastUpdatePriceStatus', 'u8'],
+  ['lastUpdatePlaceholder', 'pad', 6],
+  ['lendingMarket', 'pubkey'],
+  ['farmCollateral', 'pubkey'],
+  ['farmDebt', 'pubkey'],
+  // ReserveLiquidity
+  ['mintPubkey', 'pubkey'],
+  ['supplyVault', 'pubkey'],
+  ['feeVault', 'pubkey'],
+  ['availableAmount', 'u64'],
+  ['borrowedAmountSf', 'u128'],
+  ['marketPriceSf', 'u128'],
+  ['marketPriceLastUpdatedTs', 'u64'],
+  ['mintDecimals', 'u64'],
+  ['depositLimitCrossedTimestamp', 'u64'],
+  ['borrowLimitCrossedTimestamp', 'u64'],
+  ['cumulativeBorrowRateBsf', 'u256'],
+  ['cumulativeBorrowRatePadding', 'pad', 16],
+];
+
+// SPL StakePool, through epoch_fee; later fields are not read
+const STAKE_POOL: Field[] = [
+  ['accountType', 'u8'],
+  ['manager', 'pubkey'],
+  ['staker', 'pubkey'],
+  ['stakeDepositAuthority', 'pubkey'],
+  ['stakeWithdrawBumpSeed', 'u8'],
+  ['validatorList', 'pubkey'],
+  ['reserveStake', 'pubkey'],
+  ['poolMint', 'pubkey'],
+  ['managerFeeAccount', 'pubkey'],
+  ['tokenProgramId', 'pubkey'],
+  ['totalLamports', 'u64'],
+  ['poolTokenSupply', 'u64'],
+  ['lastUpdateEpoch', 'u64'],
+  ['lockupUnixTimestamp', 'i64'],
+  ['lockupEpoch', 'u64'],
+  ['lockupCustodian', 'pubkey'],
+  ['epochFeeDenominator', 'u64'],
+  ['epochFeeNumerator', 'u64'],
+];
+
+// Marinade List { account, item_size, count, _reserved1, _reserved2 }
+const MARINADE_LIST = (prefix: string): Field[] => [
+  [`${prefix}Account`, 'pubkey'],
+  [`${prefix}ItemSize`, 'u32'],
+  [`${prefix}Count`, 'u32'],
+  [`${prefix}Reserved1`, 'pubkey'],
+  [`${prefix}Reserved2`, 'u32'],
+];
+
+// Marinade State, through msol_price; later fields are not read
+const MARINADE_STATE: Field[] = [
+  ['discriminator', 'u64'],
+  ['msolMint', 'pubkey'],
+  ['adminAuthority', 'pubkey'],
+  ['operationalSolAccount', 'pubkey'],
+  ['treasuryMsolAccount', 'pubkey'],
+  ['reserveBumpSeed', 'u8'],
+  ['msolMintAuthorityBumpSeed', 'u8'],
+  ['rentExemptForTokenAcc', 'u64'],
+  ['rewardFeeBasisPoints', 'u32'],
+  // StakeSystem
+  ...MARINADE_LIST('stakeList'),
+  ['delayedUnstakeCoolingDown', 'u64'],
+  ['stakeDepositBumpSeed', 'u8'],
+  ['stakeWithdrawBumpSeed', 'u8'],
+  ['slotsForStakeDelta', 'u64'],
+  ['lastStakeDeltaEpoch', 'u64'],
+  ['minStake', 'u64'],
+  ['extraStakeDeltaRuns', 'u32'],
+  // ValidatorSystem
+  ...MARINADE_LIST('validatorList'),
+  ['managerAuthority', 'pubkey'],
+  ['totalValidatorScore', 'u32'],
+  ['totalActiveBalance', 'u64'],
+  ['autoAddValidatorEnabled', 'u8'],
+  // LiqPool
+  ['lpMint', 'pubkey'],
+  ['lpMintAuthorityBumpSeed', 'u8'],
+  ['solLegBumpSeed', 'u8'],
+  ['msolLegAuthorityBumpSeed', 'u8'],
+  ['msolLeg', 'pubkey'],
+  ['lpLiquidityTarget', 'u64'],
+  ['lpMaxFeeBasisPoints', 'u32'],
+  ['lpMinFeeBasisPoints', 'u32'],
+  ['treasuryCutBasisPoints', 'u32'],
+  ['lpSupply', 'u64'],
+  ['lentFromSolLeg', 'u64'],
+  ['liquiditySolCap', 'u64'],
+  ['availableReserveBalance', 'u64'],
+  ['msolSupply', 'u64'],
+  ['msolPrice', 'u64'],
+];
+
+// --- Fixture ----------------------------------------------------------------
+
+interface FixtureAccount {
+  owner: string;
+  lamports: number;
+  data: string;
+}
+
+async function main() {
+  const adapters = new Map(createDefaultAdapters().map(adapter => [adapter.id, adapter]));
+  const accounts: Record<string, FixtureAccount> = {};
+
+  const pool = (protocol: string, index: number, fields: Field[], values: Record<string, Value>) => {
+    const adapter = adapters.get(protocol as never)!;
+    const data = encodeStruct(fields, values);
+    accounts[adapter.defaultPools[index]] = { owner: adapter.programIds[0], lamports: RENT_EXEMPT_LAMPORTS, data: data.toString('base64') };
+  };
+  const vault = (label: string, mint: string, amount: bigint): string => {
+    const address = placeholder(label);
+    const data = encodeStruct(TOKEN_ACCOUNT, { mint, owner: placeholder(`${label}-authority`), amount, state: 1 });
+    accounts[address] = { owner: TOKEN_PROGRAM, lamports: RENT_EXEMPT_LAMPORTS, data: data.toString('base64') };
+    return address;
+  };
+
+  // Raydium SOL-USDC: 10,000 SOL and 1,500,000 USDC after pending protocol fees
+  pool('raydium', 0, RAYDIUM_AMM_INFO, {
+    status: 6,
+    baseDecimal: 9,
+    quoteDecimal: 6,
+    pnlNumerator: 12,
+    pnlDenominator: 100,
+    swapFeeNumerator: 25,
+    swapFeeDenominator: 10000,
+    baseNeedTakePnl: units(1, 9),
+    quoteNeedTakePnl: units(150, 6),
+    swapBaseInAmount: units(2000000, 9),
+    swapQuoteInAmount: units(300000000, 6),
+    baseVault: vault('raydium-sol-usdc-base-vault', MINTS.SOL, units(10001, 9)),
+    quoteVault: vault('raydium-sol-usdc-quote-vault', MINTS.USDC, units(1500150, 6)),
+    baseMint: MINTS.SOL,
+    quoteMint: MINTS.USDC,
+  });
+
+  // Orca SOL-USDC: 40,000 SOL and 6,000,000 USDC, 0.04% fee
+  pool('orca', 0, WHIRLPOOL, {
+    discriminator: anchorDiscriminator('Whirlpool'),
+    tickSpacing: 4,
+    feeRate: 400,
+    protocolFeeRate: 1300,
+    liquidity: BigInt('10000000000000000'),
+    tickCurrentIndex: -20000,
+    tokenMintA: MINTS.SOL,
+    tokenVaultA: vault('orca-sol-usdc-vault-a', MINTS.SOL, units(40000, 9)),
+    feeGrowthGlobalA: Q64 * BigInt(3),
+    tokenMintB: MINTS.USDC,
+    tokenVaultB: vault('orca-sol-usdc-vault-b', MINTS.USDC, units(6000000, 6)),
+    feeGrowthGlobalB: Q64 * BigInt(5),
+  });
+
+  // Meteora SOL-USDC: 50,000 SOL and 7,500,000 USDC after unclaimed protocol fees
+  pool('meteora', 0, LB_PAIR, {
+    discriminator: anchorDiscriminator('LbPair'),
+    baseFactor: 10000,
+    protocolShare: 500,
+    activeId: -3000,
+    binStep: 4,
+    tokenXMint: MINTS.SOL,
+    tokenYMint: MINTS.USDC,
+    reserveX: vault('meteora-sol-usdc-reserve-x', MINTS.SOL, units(50000.5, 9)),
+    reserveY: vault('meteora-sol-usdc-reserve-y', MINTS.USDC, units(7500100, 6)),
+    protocolFeeAmountX: units(0.5, 9),
+    protocolFeeAmountY: units(100, 6),
+  });
+
+  // Kamino main market: SOL and USDC reserves
+  const kaminoMarket = '7u3HeHxYDLhnCoErrtycNokbQYbWGzLs6JSDqGAv5PfF';
+  pool('kamino', 0, KAMINO_RESERVE, {
+    discriminator: anchorDiscriminator('Reserve'),
+    version: 1,
+    lendingMarket: kaminoMarket,
+    mintPubkey: MINTS.SOL,
+    availableAmount: units(2000000, 9),
+    borrowedAmountSf: units(1500000, 9) * SF,
+    marketPriceSf: BigInt(150) * SF,
+    mintDecimals: 9,
+    cumulativeBorrowRateBsf: (BigInt(12) * SF) / BigInt(10),
+  });
+  pool('kamino', 1, KAMINO_RESERVE, {
+    discriminator: anchorDiscriminator('Reserve'),
+    version: 1,
+    lendingMarket: kaminoMarket,
+    mintPubkey: MINTS.USDC,
+    availableAmount: units(300000000, 6),
+    borrowedAmountSf: units(200000000, 6) * SF,
+    marketPriceSf: SF,
+    mintDecimals: 6,
+    cumulativeBorrowRateBsf: (BigInt(105) * SF) / BigInt(100),
+  });
+
+  // SPL stake pools: JitoSOL at 1.2 SOL per token, bSOL at 1.15
+  pool('spl-stake-pool', 0, STAKE_POOL, {
+    accountType: 1,
+    poolMint: MINTS.JitoSOL,
+    totalLamports: units(12000000, 9),
+    poolTokenSupply: units(10000000, 9),
+    lastUpdateEpoch: 700,
+    epochFeeDenominator: 100,
+    epochFeeNumerator: 4,
+  });
+  pool('spl-stake-pool', 1, STAKE_POOL, {
+    accountType: 1,
+    poolMint: MINTS.bSOL,
+    totalLamports: units(1150000, 9),
+    poolTokenSupply: units(1000000, 9),
+    lastUpdateEpoch: 700,
+    epochFeeDenominator: 1000,
+    epochFeeNumerator: 50,
+  });
+
+  // Marinade: 8,000,000 mSOL at 1.25 SOL each
+  pool('marinade', 0, MARINADE_STATE, {
+    discriminator: anchorDiscriminator('State'),
+    msolMint: MINTS.mSOL,
+    rewardFeeBasisPoints: 600,
+    availableReserveBalance: units(500000, 9),
+    msolSupply: units(8000000, 9),
+    msolPrice: BigInt(5) * (BigInt(1) << BigInt(32)) / BigInt(4),
+  });
+
+  await fs.mkdir(path.dirname(OUTPUT_PATH), { recursive: true });
+  await fs.writeFile(OUTPUT_PATH, `${JSON.stringify({ accounts, tokens: TOKENS }, null, 2)}\n`, 'utf8');
+  console.log(`Wrote ${Object.keys(accounts).length} accounts to ${path.relative(process.cwd(), OUTPUT_PATH)}`);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});